@@ -0,0 +1,33 @@
+// Service worker for Web Push notifications sent by deliver-notifications.
+// Payload: { title, body, url }.
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "Health Twin", {
+      body: payload.body || "",
+      icon: "/favicon.ico",
+      data: { url: payload.url || "/" },
+    })
+  );
+});
+
+// Focus an open tab on the notification's page, or open a new one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url === url);
+      if (existing) return existing.focus();
+      return self.clients.openWindow(url);
+    })
+  );
+});
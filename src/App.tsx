@@ -20,6 +20,7 @@ import PatientAppointments from "./pages/patient/Appointments";
 import PatientMessages from "./pages/patient/Messages";
 import PatientProfile from "./pages/patient/Profile";
 import MyDoctors from "./pages/patient/MyDoctors";
+import DataAccessLog from "./pages/patient/DataAccessLog";
 import PatientVideoConsultation from "./pages/patient/VideoConsultation";
 import DoctorAppointments from "./pages/doctor/Appointments";
 import DoctorMessages from "./pages/doctor/Messages";
@@ -29,6 +30,8 @@ import DoctorProfile from "./pages/doctor/Profile";
 import DoctorVideoConsultation from "./pages/doctor/VideoConsultation";
 import HealthCard from "./pages/HealthCard";
 import PublicHealthCard from "./pages/PublicHealthCard";
+import SosAcknowledge from "./pages/SosAcknowledge";
+import DoctorVerifications from "./pages/admin/DoctorVerifications";
 import { RoleProtectedRoute } from "./components/RoleProtectedRoute";
 import NotFound from "./pages/NotFound";
 import { Loader2 } from "lucide-react";
@@ -47,6 +50,7 @@ const PublicRoute = ({ children }: { children: React.ReactNode }) => {
   if (user) {
     if (userRole === "doctor") return <Navigate to="/doctor-portal" replace />;
     if (userRole === "patient") return <Navigate to="/patient-dashboard" replace />;
+    if (userRole === "admin") return <Navigate to="/admin/verifications" replace />;
     return <>{children}</>;
   }
 
@@ -63,7 +67,8 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Landing />} />
             <Route path="/auth" element={<PublicRoute><Auth /></PublicRoute>} />
-            <Route path="/health-card/:healthId" element={<PublicHealthCard />} />
+            <Route path="/health-card/:token" element={<PublicHealthCard />} />
+            <Route path="/sos/ack/:token" element={<SosAcknowledge />} />
             <Route path="/patient-dashboard" element={<RoleProtectedRoute allowedRoles={["patient"]}><PatientDashboard /></RoleProtectedRoute>} />
             <Route path="/health-card" element={<RoleProtectedRoute allowedRoles={["patient"]}><HealthCard /></RoleProtectedRoute>} />
             <Route path="/health-monitoring" element={<RoleProtectedRoute allowedRoles={["patient"]}><HealthMonitoring /></RoleProtectedRoute>} />
@@ -78,6 +83,7 @@ const App = () => (
             <Route path="/patient/messages" element={<RoleProtectedRoute allowedRoles={["patient"]}><PatientMessages /></RoleProtectedRoute>} />
             <Route path="/patient/profile" element={<RoleProtectedRoute allowedRoles={["patient"]}><PatientProfile /></RoleProtectedRoute>} />
             <Route path="/patient/my-doctors" element={<RoleProtectedRoute allowedRoles={["patient"]}><MyDoctors /></RoleProtectedRoute>} />
+            <Route path="/patient/access-log" element={<RoleProtectedRoute allowedRoles={["patient"]}><DataAccessLog /></RoleProtectedRoute>} />
             <Route path="/patient/video-consultation" element={<RoleProtectedRoute allowedRoles={["patient"]}><PatientVideoConsultation /></RoleProtectedRoute>} />
             <Route path="/doctor-portal" element={<RoleProtectedRoute allowedRoles={["doctor"]}><DoctorDashboard /></RoleProtectedRoute>} />
             <Route path="/doctor/patients" element={<RoleProtectedRoute allowedRoles={["doctor"]}><PatientManagement /></RoleProtectedRoute>} />
@@ -86,6 +92,7 @@ const App = () => (
             <Route path="/doctor/messages" element={<RoleProtectedRoute allowedRoles={["doctor"]}><DoctorMessages /></RoleProtectedRoute>} />
             <Route path="/doctor/profile" element={<RoleProtectedRoute allowedRoles={["doctor"]}><DoctorProfile /></RoleProtectedRoute>} />
             <Route path="/doctor/video-consultation" element={<RoleProtectedRoute allowedRoles={["doctor"]}><DoctorVideoConsultation /></RoleProtectedRoute>} />
+            <Route path="/admin/verifications" element={<RoleProtectedRoute allowedRoles={["admin"]}><DoctorVerifications /></RoleProtectedRoute>} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </AuthProvider>
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ConsentScopeFields } from "@/components/ConsentScopeFields";
+import { useToast } from "@/hooks/use-toast";
+import { ALL_ACCESS_SCOPES, endOfDay, type AccessScope } from "@/lib/consent";
+
+interface AccessRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRequested?: () => void;
+}
+
+// Doctor-facing: ask a patient, by Health ID, for access to their records.
+// The patient approves it under My Doctors, possibly for less.
+export const AccessRequestDialog = ({ open, onOpenChange, onRequested }: AccessRequestDialogProps) => {
+  const { toast } = useToast();
+  const [patientHealthId, setPatientHealthId] = useState("");
+  const [scopes, setScopes] = useState<AccessScope[]>(ALL_ACCESS_SCOPES);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPatientHealthId("");
+      setScopes(ALL_ACCESS_SCOPES);
+      setExpiresOn("");
+      setMessage("");
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    const { error } = await supabase.rpc("request_patient_access", {
+      _health_id: patientHealthId,
+      _scopes: scopes,
+      _expires_at: endOfDay(expiresOn) ?? undefined,
+      _message: message || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Request not sent", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Request sent", description: "You'll be notified when the patient responds" });
+    onOpenChange(false);
+    onRequested?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Request Access</DialogTitle>
+          <DialogDescription>The patient chooses what to share and for how long</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="request_health_id">Patient Health ID</Label>
+            <Input
+              id="request_health_id"
+              className="font-mono"
+              value={patientHealthId}
+              onChange={(e) => setPatientHealthId(e.target.value)}
+            />
+          </div>
+          <ConsentScopeFields
+            scopes={scopes}
+            onScopesChange={setScopes}
+            expiresOn={expiresOn}
+            onExpiresOnChange={setExpiresOn}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="request_message">Message to the patient</Label>
+            <Textarea
+              id="request_message"
+              placeholder="Why you need access, e.g. ahead of your referral appointment"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || !patientHealthId.trim() || scopes.length === 0}>
+            Send Request
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,180 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Trash2, Undo2 } from "lucide-react";
+import { ACCOUNT_DELETION_GRACE_DAYS } from "@/lib/personalData";
+
+type DeletionRequest = {
+  id: string;
+  requested_at: string;
+  scheduled_for: string;
+};
+
+const CONFIRMATION = "DELETE";
+
+// Schedules the account for erasure after a grace period in which it can
+// still be cancelled. The database does the rest (request_account_deletion).
+export const AccountDeletionSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [pending, setPending] = useState<DeletionRequest | null>(null);
+  const [confirmation, setConfirmation] = useState("");
+
+  const fetchPending = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("account_deletion_requests")
+      .select("id, requested_at, scheduled_for")
+      .eq("user_id", user.id)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching account deletion request:", error);
+    } else {
+      setPending(data);
+    }
+  };
+
+  useEffect(() => {
+    fetchPending();
+  }, [user]);
+
+  const handleRequest = async () => {
+    const { data, error } = await supabase.rpc("request_account_deletion");
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to schedule account deletion",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Account deletion scheduled",
+      description: `Your account will be deleted on ${format(new Date(data), "PP")}`,
+    });
+    setConfirmation("");
+    fetchPending();
+  };
+
+  const handleCancel = async () => {
+    const { error } = await supabase.rpc("cancel_account_deletion");
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel account deletion",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Success",
+        description: "Account deletion cancelled",
+      });
+      fetchPending();
+    }
+  };
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <Trash2 className="h-5 w-5" />
+          Delete Account
+        </CardTitle>
+        <CardDescription>
+          Erase your account and health records after a {ACCOUNT_DELETION_GRACE_DAYS}-day grace period
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending ? (
+          <>
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Scheduled for {format(new Date(pending.scheduled_for), "PP")}</AlertTitle>
+              <AlertDescription>
+                Requested {format(new Date(pending.requested_at), "PP")}. You can cancel until then. Doctors whose
+                access was revoked will need to be granted access again.
+              </AlertDescription>
+            </Alert>
+            <Button variant="outline" onClick={handleCancel}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Cancel Deletion
+            </Button>
+          </>
+        ) : (
+          <>
+            <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+              <li>Your doctors lose access to your records straight away</li>
+              <li>
+                After {ACCOUNT_DELETION_GRACE_DAYS} days your profile, vitals, cycles, pregnancy, medications, messages
+                and everything else are erased
+              </li>
+              <li>
+                Completed appointments are kept for your doctor's records, without your name, reason for the visit or
+                notes
+              </li>
+            </ul>
+            <AlertDialog onOpenChange={() => setConfirmation("")}>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="text-destructive">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete My Account
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Your Account?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Your account will be erased in {ACCOUNT_DELETION_GRACE_DAYS} days and cannot be recovered after
+                    that. Download your data first if you want to keep a copy.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <div className="space-y-2">
+                  <Label htmlFor="delete_confirmation">Type {CONFIRMATION} to confirm</Label>
+                  <Input
+                    id="delete_confirmation"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                  />
+                </div>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleRequest}
+                    disabled={confirmation !== CONFIRMATION}
+                    className="bg-destructive text-destructive-foreground"
+                  >
+                    Delete Account
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,31 @@
+import { Button } from "@/components/ui/button";
+import { CalendarPlus } from "lucide-react";
+import { appointmentToIcsEvent, buildCalendar, type IcsAppointment, type IcsAppointmentContext } from "@/lib/ics";
+
+interface AddToCalendarButtonProps {
+  appointment: IcsAppointment;
+  context: IcsAppointmentContext;
+}
+
+// Downloads the appointment as an .ics invite. Re-downloading after a change
+// carries the same UID with a higher SEQUENCE, so calendar apps update the
+// event they already have.
+export const AddToCalendarButton = ({ appointment, context }: AddToCalendarButtonProps) => {
+  const handleDownload = () => {
+    const ics = buildCalendar([appointmentToIcsEvent(appointment, context)], { method: "PUBLISH" });
+
+    const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.download = `appointment-${appointment.scheduled_time.slice(0, 10)}.ics`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Button size="sm" variant="ghost" className="gap-2" onClick={handleDownload}>
+      <CalendarPlus className="h-4 w-4" />
+      Add to Calendar
+    </Button>
+  );
+};
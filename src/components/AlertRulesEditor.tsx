@@ -0,0 +1,369 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ALERT_COMPARISONS,
+  describeAlertRule,
+  effectiveAlertRules,
+  type AlertComparison,
+  type AlertRule,
+  type AlertRuleKind,
+  type AlertRuleRow,
+  type AlertSeverity,
+} from "@/lib/alertRules";
+import { VITAL_METRICS, VITAL_RANGES, type VitalMetric } from "@/lib/vitalValidation";
+import { Pencil, Plus, RotateCcw, SlidersHorizontal, Trash2 } from "lucide-react";
+
+const KIND_OPTIONS: Record<AlertRuleKind, string> = {
+  absolute: "Single reading",
+  delta: "Change within a window",
+  sustained: "Sustained for a duration",
+};
+
+const emptyForm = {
+  metric: "heart_rate" as VitalMetric,
+  kind: "absolute" as AlertRuleKind,
+  comparison: ">" as AlertComparison,
+  threshold: "",
+  window_minutes: "",
+  severity: "warning" as AlertSeverity,
+  enabled: true,
+  note: "",
+};
+
+interface AlertRulesEditorProps {
+  patientId: string;
+  // Doctors with access to the patient can change rules; patients see them
+  // read-only
+  editable?: boolean;
+}
+
+// The patient's alert rules: the built-in defaults (with any overrides) and
+// custom rules. Editing a built-in rule stores an override row keyed by
+// default_key; resetting deletes it.
+export const AlertRulesEditor = ({ patientId, editable = false }: AlertRulesEditorProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from("vital_alert_rules")
+      .select("id, default_key, metric, kind, comparison, threshold, window_minutes, severity, enabled, note")
+      .eq("patient_id", patientId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching alert rules:", error);
+      return;
+    }
+    setRules(effectiveAlertRules((data || []) as AlertRuleRow[]));
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, [patientId]);
+
+  const openDialog = (rule: AlertRule | null) => {
+    setEditing(rule);
+    setForm(
+      rule
+        ? {
+            metric: rule.metric,
+            kind: rule.kind,
+            comparison: rule.comparison,
+            // Falling deltas are stored as negative changes
+            threshold: String(rule.kind === "delta" ? Math.abs(rule.threshold) : rule.threshold),
+            window_minutes: rule.windowMinutes ? String(rule.windowMinutes) : "",
+            severity: rule.severity,
+            enabled: rule.enabled,
+            note: rule.note || "",
+          }
+        : emptyForm
+    );
+    setDialogOpen(true);
+  };
+
+  const formRule = () => {
+    const threshold = parseFloat(form.threshold);
+    const windowMinutes = form.kind === "absolute" ? null : parseInt(form.window_minutes);
+    const falling = form.comparison === "<" || form.comparison === "<=";
+    return {
+      metric: form.metric,
+      kind: form.kind,
+      comparison: form.comparison,
+      threshold: form.kind === "delta" && falling ? -Math.abs(threshold) : threshold,
+      windowMinutes,
+    };
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    const rule = formRule();
+    if (isNaN(rule.threshold)) {
+      toast({ title: "Enter a threshold", variant: "destructive" });
+      return;
+    }
+    if (rule.windowMinutes !== null && (isNaN(rule.windowMinutes) || rule.windowMinutes <= 0)) {
+      toast({ title: "Enter a window in minutes", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const row = {
+      patient_id: patientId,
+      metric: rule.metric,
+      kind: rule.kind,
+      comparison: rule.comparison,
+      threshold: rule.threshold,
+      window_minutes: rule.windowMinutes,
+      severity: form.severity,
+      enabled: form.enabled,
+      note: form.note.trim() || null,
+      updated_by: user.id,
+    };
+
+    const { error } = editing?.defaultKey
+      ? await supabase
+          .from("vital_alert_rules")
+          .upsert({ ...row, default_key: editing.defaultKey }, { onConflict: "patient_id,default_key" })
+      : editing?.ruleId
+        ? await supabase.from("vital_alert_rules").update(row).eq("id", editing.ruleId)
+        : await supabase.from("vital_alert_rules").insert(row);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error saving rule", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Alert rule saved", description: "It applies to readings from now on" });
+      setDialogOpen(false);
+      fetchRules();
+    }
+  };
+
+  // Resetting a built-in rule and deleting a custom one both remove the row
+  const handleRemove = async (rule: AlertRule) => {
+    if (!rule.ruleId) return;
+    const { error } = await supabase.from("vital_alert_rules").delete().eq("id", rule.ruleId);
+    if (error) {
+      toast({ title: "Error removing rule", description: error.message, variant: "destructive" });
+    } else {
+      fetchRules();
+    }
+  };
+
+  const preview = formRule();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5 text-primary" />
+            Alert Rules
+          </CardTitle>
+          <CardDescription>
+            {editable
+              ? "Defaults follow standard clinical thresholds; adjust them for this patient"
+              : "Set by your doctors; new readings are checked against these rules"}
+          </CardDescription>
+        </div>
+        {editable && (
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y">
+          {rules.map((rule) => (
+            <div key={rule.key} className="py-3 flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className={`font-medium ${rule.enabled ? "" : "text-muted-foreground"}`}>{rule.label}</p>
+                  <Badge variant={rule.severity === "critical" ? "destructive" : "secondary"}>{rule.severity}</Badge>
+                  {!rule.enabled && <Badge variant="outline">off</Badge>}
+                  {rule.defaultKey && rule.ruleId && <Badge variant="outline">adjusted</Badge>}
+                  {!rule.defaultKey && <Badge variant="outline">custom</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">{describeAlertRule(rule)}</p>
+                {rule.note && <p className="text-xs text-muted-foreground">{rule.note}</p>}
+              </div>
+              {editable && (
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(rule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  {rule.ruleId && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={rule.defaultKey ? "Reset to default" : "Delete rule"}
+                      onClick={() => handleRemove(rule)}
+                    >
+                      {rule.defaultKey ? <RotateCcw className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      {editable && (
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editing ? editing.label : "New Alert Rule"}</DialogTitle>
+              <DialogDescription>
+                {editing?.defaultKey
+                  ? "Changes override the default for this patient only"
+                  : "Alerts the patient and their doctors when a reading matches"}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Vital sign</Label>
+                  <Select
+                    value={form.metric}
+                    disabled={!!editing?.defaultKey}
+                    onValueChange={(metric) => setForm({ ...form, metric: metric as VitalMetric })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VITAL_METRICS.map((metric) => (
+                        <SelectItem key={metric} value={metric}>{VITAL_RANGES[metric].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select
+                    value={form.kind}
+                    disabled={!!editing?.defaultKey}
+                    onValueChange={(kind) => setForm({ ...form, kind: kind as AlertRuleKind })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(KIND_OPTIONS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Comparison</Label>
+                  <Select
+                    value={form.comparison}
+                    onValueChange={(comparison) => setForm({ ...form, comparison: comparison as AlertComparison })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALERT_COMPARISONS.map((comparison) => (
+                        <SelectItem key={comparison} value={comparison}>{comparison}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="rule_threshold">
+                    {form.kind === "delta" ? "Change" : "Threshold"} ({VITAL_RANGES[form.metric].unit})
+                  </Label>
+                  <Input
+                    id="rule_threshold"
+                    type="number"
+                    step="any"
+                    value={form.threshold}
+                    onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                  />
+                </div>
+                {form.kind !== "absolute" && (
+                  <div>
+                    <Label htmlFor="rule_window">
+                      {form.kind === "delta" ? "Within (minutes)" : "For at least (minutes)"}
+                    </Label>
+                    <Input
+                      id="rule_window"
+                      type="number"
+                      min={1}
+                      value={form.window_minutes}
+                      onChange={(e) => setForm({ ...form, window_minutes: e.target.value })}
+                    />
+                  </div>
+                )}
+                <div>
+                  <Label>Severity</Label>
+                  <Select
+                    value={form.severity}
+                    onValueChange={(severity) => setForm({ ...form, severity: severity as AlertSeverity })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="warning">Warning</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="rule_note">Note</Label>
+                <Textarea
+                  id="rule_note"
+                  placeholder="Why this rule applies to the patient..."
+                  value={form.note}
+                  onChange={(e) => setForm({ ...form, note: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="rule_enabled">Enabled</Label>
+                <Switch
+                  id="rule_enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+                />
+              </div>
+              {!isNaN(preview.threshold) && (preview.windowMinutes === null || preview.windowMinutes > 0) && (
+                <p className="text-sm text-muted-foreground">Alert when: {describeAlertRule(preview)}</p>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  Save Rule
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+};
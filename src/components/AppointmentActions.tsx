@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import {
+  appointmentStatusLabel,
+  availableTransitions,
+  reasonRequired,
+  type AppointmentActor,
+  type AppointmentTransition,
+} from "@/lib/appointmentStatus";
+
+interface AppointmentActionsProps {
+  appointment: { id: string; status: string; scheduled_time: string };
+  actor: AppointmentActor;
+  // The doctor's notice period; inside it patients must give a reason
+  cancellationWindowHours?: number;
+  onChanged?: () => void;
+}
+
+// Status buttons for whatever the current side may do next. Changes go through
+// the transition_appointment RPC so the reason is kept in the timeline.
+export const AppointmentActions = ({
+  appointment,
+  actor,
+  cancellationWindowHours = 0,
+  onChanged,
+}: AppointmentActionsProps) => {
+  const { toast } = useToast();
+  const [pending, setPending] = useState<AppointmentTransition | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const transitions = availableTransitions(actor, appointment);
+  const needsReason = reasonRequired(actor, appointment.scheduled_time, cancellationWindowHours);
+
+  const submit = async (transition: AppointmentTransition, transitionReason?: string) => {
+    setSaving(true);
+    const { error } = await supabase.rpc("transition_appointment", {
+      _appointment_id: appointment.id,
+      _status: transition.to,
+      _reason: transitionReason || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update appointment",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `Appointment ${appointmentStatusLabel(transition.to).toLowerCase()}`,
+    });
+    setPending(null);
+    onChanged?.();
+  };
+
+  const handleClick = (transition: AppointmentTransition) => {
+    if (transition.asksReason) {
+      setReason("");
+      setPending(transition);
+    } else {
+      submit(transition);
+    }
+  };
+
+  if (transitions.length === 0) return null;
+
+  return (
+    <>
+      {transitions.map((transition) => (
+        <Button
+          key={transition.to}
+          size="sm"
+          variant={transition.destructive ? "destructive" : "default"}
+          disabled={saving}
+          onClick={() => handleClick(transition)}
+        >
+          {transition.label}
+        </Button>
+      ))}
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pending?.label} appointment</DialogTitle>
+            <DialogDescription>
+              {actor === "doctor"
+                ? "The patient will see this reason in the appointment timeline."
+                : needsReason
+                  ? `Your doctor asks for ${cancellationWindowHours} hours' notice, so please tell them why.`
+                  : "Your doctor will see any reason you give in the appointment timeline."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="transition_reason">Reason{needsReason ? " *" : ""}</Label>
+            <Textarea
+              id="transition_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Back
+            </Button>
+            <Button
+              variant={pending?.destructive ? "destructive" : "default"}
+              disabled={saving || (needsReason && !reason.trim())}
+              onClick={() => pending && submit(pending, reason.trim())}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pending?.label}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
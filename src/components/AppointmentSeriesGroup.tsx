@@ -0,0 +1,204 @@
+import { useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { EditAppointmentSeriesDialog } from "@/components/EditAppointmentSeriesDialog";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, Loader2, Repeat } from "lucide-react";
+import { describeRecurrence, ruleFromSeries } from "@/lib/recurrence";
+import { withinCancellationWindow, type AppointmentActor } from "@/lib/appointmentStatus";
+import type { AppointmentSeries } from "@/lib/appointmentSeries";
+import type { ReschedulableAppointment } from "@/components/RescheduleAppointmentDialog";
+
+interface AppointmentSeriesGroupProps {
+  series: AppointmentSeries;
+  // This section's visits from the series, earliest first
+  appointments: (ReschedulableAppointment & { status: string })[];
+  actor: AppointmentActor;
+  // Doctor's timezone, which the series repeats in
+  timeZone: string;
+  cancellationWindowHours: number;
+  onChanged?: () => void;
+  // The individual visit cards
+  children: ReactNode;
+}
+
+// A recurring series shown as one card: the rule, whole-series actions, and
+// the individual visits (each still editable on its own) folded underneath.
+export const AppointmentSeriesGroup = ({
+  series,
+  appointments,
+  actor,
+  timeZone,
+  cancellationWindowHours,
+  onChanged,
+  children,
+}: AppointmentSeriesGroupProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const changeable = appointments.filter(
+    (apt) => ["requested", "confirmed"].includes(apt.status) && new Date(apt.scheduled_time) > new Date()
+  );
+  const requested = appointments.filter((apt) => apt.status === "requested");
+  const next = appointments[0];
+
+  // Same rule as single visits: doctors always explain, patients only inside the notice period
+  const patientNeedsReason =
+    actor === "patient" &&
+    changeable.some((apt) => withinCancellationWindow(apt.scheduled_time, cancellationWindowHours));
+  const cancelNeedsReason = actor === "doctor" || patientNeedsReason;
+
+  const handleCancelSeries = async () => {
+    setSaving(true);
+    const { error } = await supabase.rpc("cancel_appointment_series", {
+      _series_id: series.id,
+      _reason: reason.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel the series",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: "All upcoming visits in the series were cancelled",
+    });
+    setCancelling(false);
+    onChanged?.();
+  };
+
+  const handleConfirmAll = async () => {
+    setSaving(true);
+    let failed = 0;
+    for (const appointment of requested) {
+      const { error } = await supabase.rpc("transition_appointment", {
+        _appointment_id: appointment.id,
+        _status: "confirmed",
+      });
+      if (error) failed++;
+    }
+    setSaving(false);
+
+    toast({
+      title: failed ? "Error" : "Success",
+      description: failed
+        ? `${failed} of ${requested.length} visits could not be confirmed`
+        : `${requested.length} visits confirmed`,
+      variant: failed ? "destructive" : "default",
+    });
+    onChanged?.();
+  };
+
+  return (
+    <Card className="border-primary/30">
+      <CardContent className="p-6 space-y-4">
+        <Collapsible open={open} onOpenChange={setOpen}>
+          <div className="flex flex-wrap justify-between items-start gap-4">
+            <div className="space-y-1">
+              <h3 className="font-semibold text-lg flex items-center gap-2">
+                <Repeat className="h-5 w-5 text-primary" />
+                Recurring visits
+                {series.status === "ended" && <Badge variant="secondary">Ended</Badge>}
+              </h3>
+              <p className="text-sm text-muted-foreground">
+                {describeRecurrence(ruleFromSeries(series))}
+                {next &&
+                  ` · ${appointments.length} here, next ${new Date(next.scheduled_time).toLocaleString([], {
+                    dateStyle: "medium",
+                    timeStyle: "short",
+                  })}`}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {actor === "doctor" && requested.length > 0 && (
+                <Button size="sm" disabled={saving} onClick={handleConfirmAll}>
+                  Accept All ({requested.length})
+                </Button>
+              )}
+              {changeable.length > 0 && (
+                <>
+                  <Button size="sm" variant="outline" onClick={() => setEditing(true)}>
+                    Edit Series
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => {
+                      setReason("");
+                      setCancelling(true);
+                    }}
+                  >
+                    Cancel Series
+                  </Button>
+                </>
+              )}
+              <CollapsibleTrigger asChild>
+                <Button size="sm" variant="ghost" className="gap-1">
+                  {open ? "Hide" : "Show"} Visits
+                  <ChevronDown className={`h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+                </Button>
+              </CollapsibleTrigger>
+            </div>
+          </div>
+
+          <CollapsibleContent className="grid gap-4 pt-4">{children}</CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+
+      <EditAppointmentSeriesDialog
+        series={editing ? series : null}
+        upcoming={changeable}
+        actor={actor}
+        timeZone={timeZone}
+        needsReason={patientNeedsReason}
+        onOpenChange={setEditing}
+        onSaved={onChanged}
+      />
+
+      <Dialog open={cancelling} onOpenChange={setCancelling}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel recurring visits</DialogTitle>
+            <DialogDescription>
+              Every upcoming visit in this series will be cancelled. Past visits are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="series_cancel_reason">Reason{cancelNeedsReason ? " *" : ""}</Label>
+            <Textarea id="series_cancel_reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setCancelling(false)}>
+              Back
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={saving || (cancelNeedsReason && !reason.trim())}
+              onClick={handleCancelSeries}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel Series
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { History, Loader2 } from "lucide-react";
+import { appointmentStatusColor, appointmentStatusLabel, type AppointmentActor } from "@/lib/appointmentStatus";
+
+interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  actor_role: string;
+  reason: string | null;
+  created_at: string;
+}
+
+interface AppointmentTimelineProps {
+  appointmentId: string;
+  // Whose page this is, so their own changes read as "You"
+  viewer: AppointmentActor;
+}
+
+const actorLabel = (role: string, viewer: AppointmentActor) => {
+  if (role === viewer) return "You";
+  if (role === "patient") return "Patient";
+  if (role === "doctor") return "Doctor";
+  return "System";
+};
+
+// "Timeline" button that opens every recorded status change for an appointment
+export const AppointmentTimeline = ({ appointmentId, viewer }: AppointmentTimelineProps) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [changes, setChanges] = useState<StatusChange[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      fetchChanges();
+    }
+  }, [open, appointmentId]);
+
+  const fetchChanges = async () => {
+    setLoading(true);
+    const { data } = await supabase
+      .from("appointment_status_changes")
+      .select("id, from_status, to_status, actor_role, reason, created_at")
+      .eq("appointment_id", appointmentId)
+      .order("created_at", { ascending: true });
+
+    setChanges(data || []);
+    setLoading(false);
+  };
+
+  return (
+    <>
+      <Button size="sm" variant="outline" className="gap-2" onClick={() => setOpen(true)}>
+        <History className="h-4 w-4" />
+        Timeline
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Appointment Timeline</DialogTitle>
+          </DialogHeader>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : changes.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">No changes recorded yet</p>
+          ) : (
+            <ol className="relative border-l border-border ml-2 space-y-5">
+              {changes.map((change) => (
+                <li key={change.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className={appointmentStatusColor(change.to_status)}>
+                      {appointmentStatusLabel(change.to_status)}
+                    </Badge>
+                    <span className="text-sm text-muted-foreground">
+                      {change.from_status
+                        ? `from ${appointmentStatusLabel(change.from_status).toLowerCase()}`
+                        : "created"}{" "}
+                      by {actorLabel(change.actor_role, viewer)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {format(new Date(change.created_at), "MMM dd, yyyy 'at' HH:mm")}
+                  </p>
+                  {change.reason && <p className="text-sm mt-1">{change.reason}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
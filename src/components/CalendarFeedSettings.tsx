@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Ban, Copy, Link2, Plus, Rss } from "lucide-react";
+import { calendarFeedUrl, generateFeedToken, hashFeedToken } from "@/lib/calendarFeed";
+
+type CalendarFeed = {
+  id: string;
+  label: string | null;
+  status: string;
+  last_accessed_at: string | null;
+  created_at: string;
+};
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+
+// Subscription links for external calendars (Google, Apple, Outlook). Each
+// link is shown once when created; revoking one stops it working without
+// touching the others.
+export const CalendarFeedSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [label, setLabel] = useState("");
+  const [newFeedUrl, setNewFeedUrl] = useState<string | null>(null);
+
+  const fetchFeeds = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("calendar_feeds")
+      .select("id, label, status, last_accessed_at, created_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching calendar feeds:", error);
+    } else {
+      setFeeds(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchFeeds();
+  }, [user]);
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    const token = generateFeedToken();
+    const { error } = await supabase.from("calendar_feeds").insert({
+      user_id: user.id,
+      token_hash: await hashFeedToken(token),
+      label: label.trim() || null,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create calendar link",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setNewFeedUrl(calendarFeedUrl(FUNCTIONS_URL, token));
+    setLabel("");
+    setShowForm(false);
+    fetchFeeds();
+  };
+
+  const handleRevoke = async (id: string) => {
+    const { error } = await supabase
+      .from("calendar_feeds")
+      .update({ status: "revoked", revoked_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to revoke calendar link",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Success",
+        description: "Calendar link revoked. Subscribed calendars will stop updating.",
+      });
+      fetchFeeds();
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!newFeedUrl) return;
+    await navigator.clipboard.writeText(newFeedUrl);
+    toast({ title: "Copied", description: "Calendar link copied to clipboard" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Rss className="h-5 w-5 text-primary" />
+              Calendar Subscription
+            </CardTitle>
+            <CardDescription>Keep your appointments in sync with your own calendar app</CardDescription>
+          </div>
+          <Button onClick={() => setShowForm(!showForm)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Link
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newFeedUrl && (
+          <Alert>
+            <Link2 className="h-4 w-4" />
+            <AlertTitle>Your calendar link</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                Add it as a subscription ("From URL" in Google Calendar, "New Calendar Subscription" in Apple
+                Calendar, "Subscribe from web" in Outlook). Anyone with the link can see your appointments, and it
+                will not be shown again.
+              </p>
+              <code className="block break-all rounded bg-muted p-2 text-xs">{newFeedUrl}</code>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={copyFeedUrl}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setNewFeedUrl(null)}>
+                  Done
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {showForm && (
+          <div className="p-4 border border-border rounded-lg space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="feed_label">Name</Label>
+              <Input
+                id="feed_label"
+                placeholder="e.g., Work Google Calendar"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleCreate}>Create Link</Button>
+              <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        {feeds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No calendar links yet</p>
+        ) : (
+          <div className="space-y-3">
+            {feeds.map((feed) => (
+              <div key={feed.id} className="p-4 border border-border rounded-lg flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold">{feed.label || "Calendar link"}</p>
+                    <Badge variant={feed.status === "active" ? "default" : "secondary"}>{feed.status}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Created {new Date(feed.created_at).toLocaleDateString()} •{" "}
+                    {feed.last_accessed_at
+                      ? `Last synced ${new Date(feed.last_accessed_at).toLocaleString()}`
+                      : "Not synced yet"}
+                  </p>
+                </div>
+                {feed.status === "active" && (
+                  <Button size="sm" variant="outline" onClick={() => handleRevoke(feed.id)}>
+                    <Ban className="h-4 w-4 mr-2" />
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ConsentScopeFields } from "@/components/ConsentScopeFields";
+import { ALL_ACCESS_SCOPES, endOfDay, type AccessScope } from "@/lib/consent";
+
+interface ConsentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  // Starting point: the current grant, or what a doctor asked for
+  initialScopes?: string[];
+  initialExpiresAt?: string | null;
+  // Resolves true when saved, which closes the dialog
+  onConfirm: (scopes: AccessScope[], expiresAt: string | null) => Promise<boolean>;
+}
+
+// Patient-facing: what a doctor may see and for how long, when granting,
+// changing or renewing access or approving a request
+export const ConsentDialog = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel,
+  initialScopes,
+  initialExpiresAt,
+  onConfirm,
+}: ConsentDialogProps) => {
+  const [scopes, setScopes] = useState<AccessScope[]>(ALL_ACCESS_SCOPES);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setScopes(initialScopes ? ALL_ACCESS_SCOPES.filter((s) => initialScopes.includes(s)) : ALL_ACCESS_SCOPES);
+      // A lapsed end date would only be rejected; start the renewal afresh
+      setExpiresOn(
+        initialExpiresAt && Date.parse(initialExpiresAt) > Date.now()
+          ? format(new Date(initialExpiresAt), "yyyy-MM-dd")
+          : ""
+      );
+    }
+  }, [open, initialScopes, initialExpiresAt]);
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    const saved = await onConfirm(scopes, endOfDay(expiresOn));
+    setSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <ConsentScopeFields
+          scopes={scopes}
+          onScopesChange={setScopes}
+          expiresOn={expiresOn}
+          onExpiresOnChange={setExpiresOn}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={saving || scopes.length === 0}>
+            {confirmLabel}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
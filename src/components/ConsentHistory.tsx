@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ACCESS_SCOPES, CONSENT_EVENTS, type AccessScope, type ConsentEvent } from "@/lib/consent";
+import { History } from "lucide-react";
+
+type ConsentHistoryEntry = {
+  id: string;
+  doctor_name: string;
+  health_id: string | null;
+  event: string;
+  actor: string;
+  scopes: string[];
+  expires_at: string | null;
+  note: string | null;
+  created_at: string;
+};
+
+interface ConsentHistoryProps {
+  // Patients see which doctor each entry is about, doctors which patient
+  viewer: "patient" | "doctor";
+  // Changes after the viewer changes a grant or request, to refresh
+  refreshKey?: number;
+}
+
+const ACTORS: Record<string, string> = {
+  patient: "by patient",
+  doctor: "by doctor",
+  system: "automatically",
+};
+
+export const ConsentHistory = ({ viewer, refreshKey }: ConsentHistoryProps) => {
+  const [entries, setEntries] = useState<ConsentHistoryEntry[]>([]);
+
+  const fetchHistory = async () => {
+    const { data, error } = await supabase.rpc("get_consent_history", { _limit: 100 });
+
+    if (error) {
+      console.error("Error fetching consent history:", error);
+    } else {
+      setEntries(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Consent History
+        </CardTitle>
+        <CardDescription>
+          {viewer === "patient"
+            ? "Every request, grant and change to what your doctors can see"
+            : "Every request, grant and change to your access to patient records"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-3 font-medium">When</th>
+                  <th className="text-left p-3 font-medium">{viewer === "patient" ? "Doctor" : "Patient"}</th>
+                  <th className="text-left p-3 font-medium">What happened</th>
+                  <th className="text-left p-3 font-medium">Records</th>
+                  <th className="text-left p-3 font-medium">Until</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-t align-top">
+                    <td className="p-3 whitespace-nowrap">{format(new Date(entry.created_at), "PPp")}</td>
+                    <td className={viewer === "doctor" ? "p-3 font-mono" : "p-3"}>
+                      {viewer === "patient" ? entry.doctor_name : entry.health_id || "Unknown patient"}
+                    </td>
+                    <td className="p-3">
+                      <p>
+                        {CONSENT_EVENTS[entry.event as ConsentEvent] ?? entry.event}{" "}
+                        <span className="text-muted-foreground">{ACTORS[entry.actor]}</span>
+                      </p>
+                      {entry.note && <p className="text-muted-foreground italic">"{entry.note}"</p>}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex flex-wrap gap-1">
+                        {entry.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline">
+                            {ACCESS_SCOPES[scope as AccessScope]?.label ?? scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="p-3 whitespace-nowrap text-muted-foreground">
+                      {entry.expires_at ? format(new Date(entry.expires_at), "PP") : "No end date"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,57 @@
+import { format } from "date-fns";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ACCESS_SCOPES, type AccessScope } from "@/lib/consent";
+
+interface ConsentScopeFieldsProps {
+  scopes: AccessScope[];
+  onScopesChange: (scopes: AccessScope[]) => void;
+  // yyyy-MM-dd, empty for no end date
+  expiresOn: string;
+  onExpiresOnChange: (expiresOn: string) => void;
+}
+
+// The categories a doctor access grant (or request) covers and the day it ends
+export const ConsentScopeFields = ({ scopes, onScopesChange, expiresOn, onExpiresOnChange }: ConsentScopeFieldsProps) => {
+  const toggle = (scope: AccessScope, checked: boolean) =>
+    onScopesChange(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Records shared</Label>
+        <div className="space-y-2">
+          {(Object.entries(ACCESS_SCOPES) as [AccessScope, { label: string; description: string }][]).map(
+            ([scope, { label, description }]) => (
+              <label key={scope} className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggle(scope, checked === true)}
+                />
+                <span>
+                  {label}
+                  <span className="block text-xs text-muted-foreground">{description}</span>
+                </span>
+              </label>
+            )
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">Health ID, blood type, age and gender are visible with any access</p>
+      </div>
+
+      <div className="space-y-2 max-w-xs">
+        <Label htmlFor="consent_expires">Access ends on</Label>
+        <Input
+          id="consent_expires"
+          type="date"
+          min={format(new Date(), "yyyy-MM-dd")}
+          value={expiresOn}
+          onChange={(e) => onExpiresOnChange(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">Leave empty to keep access until it is revoked</p>
+      </div>
+    </div>
+  );
+};
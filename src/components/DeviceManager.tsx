@@ -0,0 +1,314 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Cpu, Plus, Pencil, Check, X, Ban, KeyRound, Copy } from "lucide-react";
+
+type Device = {
+  id: string;
+  device_id: string;
+  device_type: string;
+  name: string | null;
+  status: string;
+  last_seen_at: string | null;
+  created_at: string;
+};
+
+const DEVICE_TYPES = [
+  { value: "blood_pressure_monitor", label: "Blood Pressure Monitor" },
+  { value: "glucose_meter", label: "Glucose Meter" },
+  { value: "pulse_oximeter", label: "Pulse Oximeter" },
+  { value: "smart_scale", label: "Smart Scale" },
+  { value: "thermometer", label: "Thermometer" },
+  { value: "smartwatch", label: "Smartwatch / Wearable" },
+];
+
+const deviceTypeLabel = (value: string) =>
+  DEVICE_TYPES.find((t) => t.value === value)?.label ?? value;
+
+// 32 random bytes, hex encoded. Shown to the patient once so it can be
+// configured on the device; the webhook uses it to verify HMAC signatures.
+const generateSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+export const DeviceManager = () => {
+  const { user } = useAuth();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [pairForm, setPairForm] = useState({ device_id: "", device_type: "", name: "" });
+  const [newSecret, setNewSecret] = useState<{ deviceId: string; secret: string } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+
+  const fetchDevices = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("devices")
+      .select("id, device_id, device_type, name, status, last_seen_at, created_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching devices:", error);
+      toast.error("Failed to load paired devices");
+    } else {
+      setDevices(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchDevices();
+  }, [user]);
+
+  const handlePair = async () => {
+    if (!user) return;
+    if (!pairForm.device_id || !pairForm.device_type) {
+      toast.error("Device ID and type are required");
+      return;
+    }
+
+    const secret = generateSecret();
+    const { error } = await supabase.from("devices").insert({
+      user_id: user.id,
+      device_id: pairForm.device_id.trim(),
+      device_type: pairForm.device_type,
+      name: pairForm.name.trim() || null,
+      secret,
+    });
+
+    if (error) {
+      console.error(error);
+      toast.error(error.code === "23505" ? "This device is already paired" : "Failed to pair device");
+      return;
+    }
+
+    toast.success("Device paired");
+    setNewSecret({ deviceId: pairForm.device_id.trim(), secret });
+    setPairForm({ device_id: "", device_type: "", name: "" });
+    setShowForm(false);
+    fetchDevices();
+  };
+
+  const handleRename = async (id: string) => {
+    const { error } = await supabase
+      .from("devices")
+      .update({ name: editName.trim() || null })
+      .eq("id", id);
+
+    if (error) {
+      toast.error("Failed to rename device");
+    } else {
+      toast.success("Device renamed");
+      setEditingId(null);
+      fetchDevices();
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    const { error } = await supabase
+      .from("devices")
+      .update({ status: "revoked" })
+      .eq("id", id);
+
+    if (error) {
+      toast.error("Failed to revoke device");
+    } else {
+      toast.success("Device revoked. It can no longer send readings.");
+      fetchDevices();
+    }
+  };
+
+  // The server generates the new secret; the device needs it before it can
+  // send readings again
+  const handleRotate = async (device: Device) => {
+    const { data, error } = await supabase.rpc("rotate_device_secret", { _device_id: device.id });
+
+    if (error || !data) {
+      toast.error("Failed to rotate device secret");
+    } else {
+      toast.success("New secret generated. The old one no longer works.");
+      setNewSecret({ deviceId: device.device_id, secret: data });
+    }
+  };
+
+  const copySecret = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret.secret);
+    toast.success("Secret copied to clipboard");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Cpu className="h-5 w-5 text-primary" />
+              Paired Devices
+            </CardTitle>
+            <CardDescription>
+              Only devices paired here can send readings to your record
+            </CardDescription>
+          </div>
+          <Button onClick={() => setShowForm(!showForm)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Pair Device
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newSecret && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>Device secret for {newSecret.deviceId}</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                Enter this secret in your device's settings. It will not be shown again.
+              </p>
+              <code className="block break-all rounded bg-muted p-2 text-xs">{newSecret.secret}</code>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={copySecret}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setNewSecret(null)}>
+                  Done
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {showForm && (
+          <div className="p-4 border border-border rounded-lg space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="device_id">Device ID *</Label>
+                <Input
+                  id="device_id"
+                  placeholder="Serial number"
+                  value={pairForm.device_id}
+                  onChange={(e) => setPairForm({ ...pairForm, device_id: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Type *</Label>
+                <Select value={pairForm.device_type} onValueChange={(value) => setPairForm({ ...pairForm, device_type: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEVICE_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="device_name">Name</Label>
+                <Input
+                  id="device_name"
+                  placeholder="e.g., Bedroom BP cuff"
+                  value={pairForm.name}
+                  onChange={(e) => setPairForm({ ...pairForm, name: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handlePair}>Pair</Button>
+              <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {devices.map((device) => (
+            <div key={device.id} className="p-4 border border-border rounded-lg">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1 flex-1">
+                  {editingId === device.id ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        placeholder="Device name"
+                        className="max-w-xs"
+                      />
+                      <Button variant="ghost" size="icon" onClick={() => handleRename(device.id)}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditingId(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold">{device.name || deviceTypeLabel(device.device_type)}</p>
+                      <Badge variant={device.status === "active" ? "default" : "secondary"}>
+                        {device.status}
+                      </Badge>
+                    </div>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    {deviceTypeLabel(device.device_type)} • {device.device_id}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {device.last_seen_at
+                      ? `Last reading ${new Date(device.last_seen_at).toLocaleString()}`
+                      : "No readings received yet"}
+                  </p>
+                </div>
+                {device.status === "active" && editingId !== device.id && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Rename device"
+                      onClick={() => {
+                        setEditingId(device.id);
+                        setEditName(device.name || "");
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Rotate secret"
+                      onClick={() => handleRotate(device)}
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Revoke device"
+                      onClick={() => handleRevoke(device.id)}
+                    >
+                      <Ban className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          {devices.length === 0 && !showForm && (
+            <p className="text-center text-muted-foreground py-8">No devices paired</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Loader2, Plus, Save, Trash2, X } from "lucide-react";
+import { DEFAULT_APPOINTMENT_DURATION } from "@/lib/availability";
+import { isValidTimeZone, toZonedParts, zonedDateTimeToUtc } from "@/lib/timezone";
+import { WEEKDAY_LABELS } from "@/lib/medicationSchedule";
+
+interface TimeWindow {
+  weekday: number | null;
+  start_time: string;
+  end_time: string;
+}
+
+interface TimeOff {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  reason: string | null;
+}
+
+const APPOINTMENT_TYPES = [
+  { value: "in-person", label: "In-Person" },
+  { value: "video", label: "Video Consultation" },
+];
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+const timeZoneOptions = () => {
+  const supported = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.("timeZone");
+  return supported && supported.length > 0 ? supported : [browserTimeZone(), "UTC"];
+};
+
+const shortTime = (time: string) => time.slice(0, 5);
+
+interface DoctorAvailabilitySettingsProps {
+  doctorId: string;
+}
+
+// Working hours, breaks, time off and per-type durations. Patients only see
+// slots inside these; the validate_appointment_slot trigger enforces the same.
+export const DoctorAvailabilitySettings = ({ doctorId }: DoctorAvailabilitySettingsProps) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [timezone, setTimezone] = useState("UTC");
+  const [cancellationWindow, setCancellationWindow] = useState("24");
+  const [workingHours, setWorkingHours] = useState<TimeWindow[]>([]);
+  const [breaks, setBreaks] = useState<TimeWindow[]>([]);
+  const [durations, setDurations] = useState<Record<string, string>>({});
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+  const [timeOffForm, setTimeOffForm] = useState({ starts_at: "", ends_at: "", reason: "" });
+
+  useEffect(() => {
+    loadAvailability();
+  }, [doctorId]);
+
+  const loadAvailability = async () => {
+    const [doctorRes, hoursRes, breaksRes, typesRes, timeOffRes] = await Promise.all([
+      supabase.from("doctors").select("timezone, cancellation_window_hours").eq("id", doctorId).single(),
+      supabase.from("doctor_working_hours").select("weekday, start_time, end_time").eq("doctor_id", doctorId),
+      supabase.from("doctor_breaks").select("weekday, start_time, end_time").eq("doctor_id", doctorId),
+      supabase.from("doctor_appointment_types").select("type, duration_minutes").eq("doctor_id", doctorId),
+      supabase
+        .from("doctor_time_off")
+        .select("id, starts_at, ends_at, reason")
+        .eq("doctor_id", doctorId)
+        .gte("ends_at", new Date().toISOString())
+        .order("starts_at"),
+    ]);
+
+    setTimezone(doctorRes.data?.timezone || browserTimeZone());
+    setCancellationWindow(String(doctorRes.data?.cancellation_window_hours ?? 24));
+    setWorkingHours(
+      (hoursRes.data || [])
+        .map((w) => ({ ...w, start_time: shortTime(w.start_time), end_time: shortTime(w.end_time) }))
+        .sort((a, b) => a.weekday - b.weekday || a.start_time.localeCompare(b.start_time))
+    );
+    setBreaks((breaksRes.data || []).map((b) => ({ ...b, start_time: shortTime(b.start_time), end_time: shortTime(b.end_time) })));
+    setDurations(Object.fromEntries((typesRes.data || []).map((t) => [t.type, String(t.duration_minutes)])));
+    setTimeOff(timeOffRes.data || []);
+    setLoading(false);
+  };
+
+  const validWindows = (windows: TimeWindow[]) => windows.every((w) => w.start_time && w.end_time && w.end_time > w.start_time);
+
+  const handleSave = async () => {
+    if (!validWindows(workingHours) || !validWindows(breaks)) {
+      toast({ title: "Error", description: "Each time range must end after it starts", variant: "destructive" });
+      return;
+    }
+    const windowHours = Number(cancellationWindow);
+    if (!Number.isInteger(windowHours) || windowHours < 0 || windowHours > 336) {
+      toast({ title: "Error", description: "Cancellation notice must be 0–336 hours", variant: "destructive" });
+      return;
+    }
+    if (!isValidTimeZone(timezone)) {
+      toast({ title: "Error", description: "Choose a valid timezone", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+
+    // Replace the weekly template wholesale; it's a handful of rows
+    const results = await Promise.all([
+      supabase.from("doctors").update({ timezone, cancellation_window_hours: windowHours }).eq("id", doctorId),
+      supabase.from("doctor_working_hours").delete().eq("doctor_id", doctorId),
+      supabase.from("doctor_breaks").delete().eq("doctor_id", doctorId),
+    ]);
+    const inserts = await Promise.all([
+      workingHours.length > 0
+        ? supabase.from("doctor_working_hours").insert(
+            workingHours.map((w) => ({ doctor_id: doctorId, weekday: w.weekday ?? 1, start_time: w.start_time, end_time: w.end_time }))
+          )
+        : Promise.resolve({ error: null }),
+      breaks.length > 0
+        ? supabase.from("doctor_breaks").insert(
+            breaks.map((b) => ({ doctor_id: doctorId, weekday: b.weekday, start_time: b.start_time, end_time: b.end_time }))
+          )
+        : Promise.resolve({ error: null }),
+      supabase.from("doctor_appointment_types").upsert(
+        APPOINTMENT_TYPES.map(({ value }) => ({
+          doctor_id: doctorId,
+          type: value,
+          duration_minutes: Number(durations[value]) || DEFAULT_APPOINTMENT_DURATION,
+        })),
+        { onConflict: "doctor_id,type" }
+      ),
+    ]);
+
+    setSaving(false);
+
+    const failed = [...results, ...inserts].find((r) => r.error);
+    if (failed) {
+      toast({ title: "Error", description: failed.error?.message || "Failed to save availability", variant: "destructive" });
+    } else {
+      toast({ title: "Success", description: "Availability updated" });
+    }
+    loadAvailability();
+  };
+
+  const handleAddTimeOff = async () => {
+    if (!timeOffForm.starts_at || !timeOffForm.ends_at) {
+      toast({ title: "Error", description: "Start and end are required", variant: "destructive" });
+      return;
+    }
+
+    // datetime-local values are read on the doctor's own clock
+    const [startDate, startTime] = timeOffForm.starts_at.split("T");
+    const [endDate, endTime] = timeOffForm.ends_at.split("T");
+    const startsAt = zonedDateTimeToUtc(startDate, startTime, timezone);
+    const endsAt = zonedDateTimeToUtc(endDate, endTime, timezone);
+
+    if (endsAt <= startsAt) {
+      toast({ title: "Error", description: "Time off must end after it starts", variant: "destructive" });
+      return;
+    }
+
+    const { error } = await supabase.from("doctor_time_off").insert({
+      doctor_id: doctorId,
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+      reason: timeOffForm.reason || null,
+    });
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to add time off", variant: "destructive" });
+    } else {
+      setTimeOffForm({ starts_at: "", ends_at: "", reason: "" });
+      loadAvailability();
+    }
+  };
+
+  const handleDeleteTimeOff = async (id: string) => {
+    const { error } = await supabase.from("doctor_time_off").delete().eq("id", id);
+    if (error) {
+      toast({ title: "Error", description: "Failed to remove time off", variant: "destructive" });
+    } else {
+      loadAvailability();
+    }
+  };
+
+  const formatInZone = (instant: string) => {
+    const parts = toZonedParts(new Date(instant), timezone);
+    return `${parts.date} ${parts.time}`;
+  };
+
+  const renderWindows = (
+    windows: TimeWindow[],
+    setWindows: (windows: TimeWindow[]) => void,
+    allowEveryDay: boolean
+  ) => (
+    <div className="space-y-2">
+      {windows.map((window, index) => {
+        const update = (patch: Partial<TimeWindow>) =>
+          setWindows(windows.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Select
+              value={window.weekday === null ? "all" : String(window.weekday)}
+              onValueChange={(value) => update({ weekday: value === "all" ? null : Number(value) })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {allowEveryDay && <SelectItem value="all">Every day</SelectItem>}
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <SelectItem key={label} value={String(day)}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="time" className="w-32" value={window.start_time} onChange={(e) => update({ start_time: e.target.value })} />
+            <span className="text-muted-foreground">to</span>
+            <Input type="time" className="w-32" value={window.end_time} onChange={(e) => update({ end_time: e.target.value })} />
+            <Button variant="ghost" size="icon" onClick={() => setWindows(windows.filter((_, i) => i !== index))}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() =>
+          setWindows([...windows, { weekday: allowEveryDay ? null : 1, start_time: allowEveryDay ? "12:00" : "09:00", end_time: allowEveryDay ? "13:00" : "17:00" }])
+        }
+      >
+        <Plus className="h-4 w-4" />
+        Add
+      </Button>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Availability
+        </CardTitle>
+        <CardDescription>Patients can only book free slots inside your working hours</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Timezone</Label>
+            <Select value={timezone} onValueChange={setTimezone}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZoneOptions().map((zone) => (
+                  <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {APPOINTMENT_TYPES.map(({ value, label }) => (
+            <div key={value} className="space-y-2">
+              <Label htmlFor={`duration_${value}`}>{label} (minutes)</Label>
+              <Input
+                id={`duration_${value}`}
+                type="number"
+                min={5}
+                max={480}
+                placeholder={String(DEFAULT_APPOINTMENT_DURATION)}
+                value={durations[value] ?? ""}
+                onChange={(e) => setDurations({ ...durations, [value]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 md:w-1/3">
+          <Label htmlFor="cancellation_window">Cancellation notice (hours)</Label>
+          <Input
+            id="cancellation_window"
+            type="number"
+            min={0}
+            max={336}
+            value={cancellationWindow}
+            onChange={(e) => setCancellationWindow(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Patients cancelling or rescheduling closer to the appointment than this must give a reason
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Working Hours</Label>
+          {renderWindows(workingHours, setWorkingHours, false)}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Breaks</Label>
+          {renderWindows(breaks, setBreaks, true)}
+        </div>
+
+        <Button onClick={handleSave} disabled={saving} className="gap-2">
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Save Availability
+        </Button>
+
+        <div className="space-y-3 border-t pt-6">
+          <Label>Time Off</Label>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <Input
+              type="datetime-local"
+              value={timeOffForm.starts_at}
+              onChange={(e) => setTimeOffForm({ ...timeOffForm, starts_at: e.target.value })}
+            />
+            <Input
+              type="datetime-local"
+              value={timeOffForm.ends_at}
+              onChange={(e) => setTimeOffForm({ ...timeOffForm, ends_at: e.target.value })}
+            />
+            <Input
+              placeholder="Reason (private)"
+              value={timeOffForm.reason}
+              onChange={(e) => setTimeOffForm({ ...timeOffForm, reason: e.target.value })}
+            />
+            <Button variant="outline" className="gap-2" onClick={handleAddTimeOff}>
+              <Plus className="h-4 w-4" />
+              Add Time Off
+            </Button>
+          </div>
+          {timeOff.map((entry) => (
+            <div key={entry.id} className="p-4 border border-border rounded-lg flex items-center justify-between">
+              <div>
+                <p className="font-medium">
+                  {formatInZone(entry.starts_at)} – {formatInZone(entry.ends_at)}
+                </p>
+                {entry.reason && <p className="text-sm text-muted-foreground">{entry.reason}</p>}
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => handleDeleteTimeOff(entry.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
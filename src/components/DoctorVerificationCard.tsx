@@ -0,0 +1,295 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VerifiedBadge } from "@/components/VerifiedBadge";
+import { useToast } from "@/hooks/use-toast";
+import { BadgeCheck, Clock, ExternalLink, FileText, Loader2, Send, ShieldAlert, Trash2, Upload } from "lucide-react";
+import {
+  isAwaitingReview,
+  MAX_VERIFICATION_DOCUMENT_BYTES,
+  VERIFICATION_BUCKET,
+  VERIFICATION_DOCUMENT_MIME_TYPES,
+  VERIFICATION_DOCUMENT_TYPES,
+  verificationDocumentPath,
+  type VerificationDocumentType,
+} from "@/lib/doctorVerification";
+
+export interface VerifiableDoctor {
+  id: string;
+  verification_status: string;
+  verification_submitted_at: string | null;
+  verification_reviewed_at: string | null;
+  verification_rejection_reason: string | null;
+}
+
+type VerificationDocument = {
+  id: string;
+  document_type: string;
+  file_path: string;
+  file_name: string;
+  uploaded_at: string;
+};
+
+interface DoctorVerificationCardProps {
+  doctor: VerifiableDoctor;
+  onSubmitted: () => void;
+}
+
+// The doctor's side of verification: upload a license and ID, submit them
+// for review and see the outcome. Patients cannot find an unverified
+// doctor or give them access.
+export const DoctorVerificationCard = ({ doctor, onSubmitted }: DoctorVerificationCardProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<VerificationDocument[]>([]);
+  const [documentType, setDocumentType] = useState<VerificationDocumentType>("license");
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const verified = doctor.verification_status === "verified";
+  const awaitingReview = isAwaitingReview(doctor);
+  const canEdit = !verified && !awaitingReview;
+
+  const fetchDocuments = async () => {
+    const { data, error } = await supabase
+      .from("doctor_verification_documents")
+      .select("id, document_type, file_path, file_name, uploaded_at")
+      .eq("doctor_id", doctor.id)
+      .order("uploaded_at");
+
+    if (error) {
+      console.error("Error fetching verification documents:", error);
+    } else {
+      setDocuments(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [doctor.id]);
+
+  const handleUpload = async () => {
+    if (!user || !file) return;
+
+    if (!VERIFICATION_DOCUMENT_MIME_TYPES.includes(file.type)) {
+      toast({ title: "Error", description: "Upload a PDF, JPEG or PNG file", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_VERIFICATION_DOCUMENT_BYTES) {
+      toast({ title: "Error", description: "Files can be at most 10 MB", variant: "destructive" });
+      return;
+    }
+
+    setUploading(true);
+    const path = verificationDocumentPath(user.id, file.name);
+    const { error: uploadError } = await supabase.storage
+      .from(VERIFICATION_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (uploadError) {
+      console.error("Error uploading verification document:", uploadError);
+      toast({ title: "Error", description: "Failed to upload document", variant: "destructive" });
+      setUploading(false);
+      return;
+    }
+
+    const { error } = await supabase.from("doctor_verification_documents").insert({
+      doctor_id: doctor.id,
+      document_type: documentType,
+      file_path: path,
+      file_name: file.name,
+      content_type: file.type,
+      size_bytes: file.size,
+    });
+
+    if (error) {
+      await supabase.storage.from(VERIFICATION_BUCKET).remove([path]);
+      toast({ title: "Error", description: "Failed to save document", variant: "destructive" });
+    } else {
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      fetchDocuments();
+    }
+    setUploading(false);
+  };
+
+  const handleView = async (doc: VerificationDocument) => {
+    const { data, error } = await supabase.storage
+      .from(VERIFICATION_BUCKET)
+      .createSignedUrl(doc.file_path, 60);
+
+    if (error || !data) {
+      toast({ title: "Error", description: "Failed to open document", variant: "destructive" });
+      return;
+    }
+    window.open(data.signedUrl, "_blank", "noopener");
+  };
+
+  const handleRemove = async (doc: VerificationDocument) => {
+    const { error } = await supabase.from("doctor_verification_documents").delete().eq("id", doc.id);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to remove document", variant: "destructive" });
+      return;
+    }
+    await supabase.storage.from(VERIFICATION_BUCKET).remove([doc.file_path]);
+    fetchDocuments();
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    const { error } = await supabase.rpc("submit_doctor_verification");
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to submit for review",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Submitted for review",
+      description: "You will be notified once an admin has checked your documents",
+    });
+    onSubmitted();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BadgeCheck className="h-5 w-5 text-primary" />
+              Verification
+            </CardTitle>
+            <CardDescription>Patients can only find and share records with verified doctors</CardDescription>
+          </div>
+          <VerifiedBadge status={doctor.verification_status} showUnverified />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {verified ? (
+          <Alert>
+            <BadgeCheck className="h-4 w-4" />
+            <AlertTitle>Your account is verified</AlertTitle>
+            <AlertDescription>
+              {doctor.verification_reviewed_at && `Approved ${format(new Date(doctor.verification_reviewed_at), "PP")}. `}
+              Changing your license number will need a new review.
+            </AlertDescription>
+          </Alert>
+        ) : awaitingReview ? (
+          <Alert>
+            <Clock className="h-4 w-4" />
+            <AlertTitle>Waiting for review</AlertTitle>
+            <AlertDescription>
+              Submitted {format(new Date(doctor.verification_submitted_at!), "PP")}. You will be notified of the outcome.
+            </AlertDescription>
+          </Alert>
+        ) : doctor.verification_status === "rejected" ? (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Your verification was not approved</AlertTitle>
+            <AlertDescription>
+              {doctor.verification_rejection_reason} Upload corrected documents and submit them again.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Add your license number above, upload your medical license and a photo ID, then submit them for review.
+          </p>
+        )}
+
+        {documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No documents uploaded yet</p>
+        ) : (
+          <div className="space-y-2">
+            {documents.map((doc) => (
+              <div key={doc.id} className="p-3 border border-border rounded-lg flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{doc.file_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {VERIFICATION_DOCUMENT_TYPES[doc.document_type as VerificationDocumentType] ??
+                        doc.document_type}{" "}
+                      • {format(new Date(doc.uploaded_at), "PP")}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleView(doc)}>
+                    <ExternalLink className="h-4 w-4" />
+                  </Button>
+                  {canEdit && (
+                    <Button size="sm" variant="outline" onClick={() => handleRemove(doc)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <>
+            <div className="grid gap-4 md:grid-cols-[200px_1fr_auto] items-end">
+              <div className="space-y-2">
+                <Label>Document</Label>
+                <Select value={documentType} onValueChange={(value) => setDocumentType(value as VerificationDocumentType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.entries(VERIFICATION_DOCUMENT_TYPES) as [VerificationDocumentType, string][]).map(
+                      ([type, label]) => (
+                        <SelectItem key={type} value={type}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="verification_file">File (PDF, JPEG or PNG, up to 10 MB)</Label>
+                <Input
+                  key={fileInputKey}
+                  id="verification_file"
+                  type="file"
+                  accept={VERIFICATION_DOCUMENT_MIME_TYPES.join(",")}
+                  disabled={uploading}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <Button variant="outline" onClick={handleUpload} disabled={!file || uploading}>
+                {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Upload
+              </Button>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSubmit} disabled={submitting || documents.length === 0}>
+                {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Submit for Review
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SlotPicker } from "@/components/SlotPicker";
+import { RecurrenceFields } from "@/components/RecurrenceFields";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { validateRecurrence, type RecurrenceRule } from "@/lib/recurrence";
+import { describeSeriesBooking, type AppointmentSeries } from "@/lib/appointmentSeries";
+import type { AppointmentActor } from "@/lib/appointmentStatus";
+import type { Slot } from "@/lib/availability";
+import type { ReschedulableAppointment } from "@/components/RescheduleAppointmentDialog";
+
+interface EditAppointmentSeriesDialogProps {
+  series: AppointmentSeries | null;
+  // Upcoming visits that the new rule replaces, earliest first
+  upcoming: ReschedulableAppointment[];
+  actor: AppointmentActor;
+  timeZone: string;
+  needsReason: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+// Moves the rest of a series onto a new first visit and rule. Single visits
+// are still moved with the usual reschedule / propose dialogs.
+export const EditAppointmentSeriesDialog = ({
+  series,
+  upcoming,
+  actor,
+  timeZone,
+  needsReason,
+  onOpenChange,
+  onSaved,
+}: EditAppointmentSeriesDialogProps) => {
+  const { toast } = useToast();
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [rule, setRule] = useState<RecurrenceRule>({ intervalWeeks: 1, count: 1 });
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const next = upcoming[0];
+
+  useEffect(() => {
+    if (!series) return;
+    setSlot(null);
+    setReason("");
+    setRule(
+      series.until_date
+        ? { intervalWeeks: series.interval_weeks, until: series.until_date }
+        : { intervalWeeks: series.interval_weeks, count: Math.max(upcoming.length, 1) }
+    );
+  }, [series?.id]);
+
+  const ruleError = slot ? validateRecurrence(slot.start, timeZone, rule) : null;
+
+  const handleSave = async () => {
+    if (!series || !slot || ruleError) return;
+
+    setSaving(true);
+    const { data, error } = await supabase.rpc("update_appointment_series", {
+      _series_id: series.id,
+      _first_start: slot.start,
+      _interval_weeks: rule.intervalWeeks,
+      _count: rule.count || undefined,
+      _until: rule.until || undefined,
+      _reason: reason.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the series",
+        variant: "destructive",
+      });
+      setRefreshKey((key) => key + 1);
+      return;
+    }
+
+    toast({
+      title: "Series updated",
+      description: describeSeriesBooking(data || []),
+    });
+    onOpenChange(false);
+    onSaved?.();
+  };
+
+  return (
+    <Dialog open={!!series} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Recurring Visits</DialogTitle>
+          <DialogDescription>
+            {upcoming.length} upcoming visit{upcoming.length === 1 ? "" : "s"} will be replaced.
+            {actor === "doctor" ? " New visits are confirmed straight away." : " Your doctor will confirm the new times."}
+          </DialogDescription>
+        </DialogHeader>
+        {series && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>First Visit *</Label>
+              <SlotPicker
+                doctorId={series.doctor_id}
+                type={series.type || "in-person"}
+                durationMinutes={series.duration}
+                ignoreInterval={next ? { starts_at: next.scheduled_time, ends_at: next.ends_at } : null}
+                value={slot?.start ?? ""}
+                onChange={setSlot}
+                refreshKey={refreshKey}
+              />
+            </div>
+            <RecurrenceFields value={rule} onChange={setRule} firstStart={slot?.start} timeZone={timeZone} />
+            <div className="space-y-2">
+              <Label htmlFor="series_reason">Reason{needsReason ? " *" : ""}</Label>
+              <Textarea id="series_reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saving || !slot || !!ruleError || (needsReason && !reason.trim())}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Update Series
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { FileJson, Loader2 } from "lucide-react";
+import type { Bundle } from "@/lib/fhir";
+
+interface FhirExportButtonProps {
+  healthId?: string;
+}
+
+// Downloads the patient's record as a FHIR R4 Bundle built by the fhir-export
+// edge function, for import into another provider's system.
+export const FhirExportButton = ({ healthId }: FhirExportButtonProps) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("fhir-export");
+      if (error) throw error;
+
+      // Served as application/fhir+json, which the client returns as text
+      const json = typeof data === "string" ? data : JSON.stringify(data);
+      const bundle = JSON.parse(json) as Bundle;
+
+      const url = URL.createObjectURL(new Blob([json], { type: "application/fhir+json" }));
+      const link = document.createElement("a");
+      link.download = `fhir-bundle-${healthId ?? "export"}.json`;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "FHIR export ready",
+        description: `${bundle.entry?.length ?? 0} resources saved as a FHIR R4 bundle`,
+      });
+    } catch (err) {
+      console.error("FHIR export failed:", err);
+      toast({
+        title: "Export failed",
+        description: "Could not export your health record. Make sure your health profile is complete.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleExport} disabled={exporting}>
+      {exporting ? (
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+      ) : (
+        <FileJson className="w-4 h-4 mr-2" />
+      )}
+      Export FHIR
+    </Button>
+  );
+};
@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { FileUp, Loader2 } from "lucide-react";
+import {
+  extractResources,
+  planFhirImport,
+  type FhirImportPlan,
+  type ImportAction,
+  type ProfileField,
+} from "@/lib/fhirImport";
+
+const INSERT_CHUNK_SIZE = 500;
+
+const FIELD_LABELS: Record<ProfileField, string> = {
+  date_of_birth: "Date of birth",
+  gender: "Gender",
+  blood_type: "Blood type",
+  height: "Height (cm)",
+};
+
+const ACTION_VARIANTS: Record<ImportAction, "default" | "secondary" | "outline"> = {
+  insert: "default",
+  update: "secondary",
+  skip: "outline",
+};
+
+// The API caps responses at 1000 rows, so duplicate detection pages through
+// every stored reading timestamp
+const fetchVitalTimestamps = async (userId: string) => {
+  const timestamps: string[] = [];
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await supabase
+      .from("vital_signs")
+      .select("recorded_at")
+      .eq("user_id", userId)
+      .order("recorded_at", { ascending: true })
+      .range(from, from + 999);
+    if (error) throw error;
+    timestamps.push(...(data || []).map((v) => v.recorded_at));
+    if (!data || data.length < 1000) return timestamps;
+  }
+};
+
+interface FhirImportDialogProps {
+  onImported?: () => void;
+}
+
+// Imports a FHIR R4 Bundle from another provider. The file is parsed and
+// compared with the patient's existing records first; nothing is written
+// until the patient has reviewed the preview.
+export const FhirImportDialog = ({ onImported }: FhirImportDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [plan, setPlan] = useState<FhirImportPlan | null>(null);
+  const [selectedFields, setSelectedFields] = useState<ProfileField[]>([]);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setPlan(null);
+    setFileName("");
+    setSelectedFields([]);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !user) return;
+    reset();
+    setFileName(file.name);
+    setAnalyzing(true);
+
+    try {
+      let json: unknown;
+      try {
+        json = JSON.parse(await file.text());
+      } catch {
+        throw new Error("The file is not valid JSON");
+      }
+
+      const { resources, error } = extractResources(json);
+      if (error) throw new Error(error);
+
+      const [profile, vitalTimestamps, medications, allergies] = await Promise.all([
+        supabase.from("health_profiles").select("date_of_birth, gender, blood_type, height").eq("user_id", user.id).maybeSingle(),
+        fetchVitalTimestamps(user.id),
+        supabase.from("medications").select("name, start_date").eq("user_id", user.id),
+        supabase.from("allergies").select("allergen").eq("user_id", user.id),
+      ]);
+      const failed = [profile, medications, allergies].find((r) => r.error);
+      if (failed) throw failed.error;
+
+      const nextPlan = planFhirImport(resources, {
+        profile: profile.data,
+        vitalTimestamps,
+        medications: medications.data || [],
+        allergies: allergies.data || [],
+      });
+
+      setPlan(nextPlan);
+      // Empty profile fields are filled by default; overwriting is opt-in
+      setSelectedFields(nextPlan.profileChanges.filter((c) => c.current === null).map((c) => c.field));
+    } catch (err) {
+      console.error("FHIR import analysis failed:", err);
+      toast({
+        title: "Could not read file",
+        description: err instanceof Error ? err.message : "The file could not be analyzed",
+        variant: "destructive",
+      });
+      setFileName("");
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const toggleField = (field: ProfileField, checked: boolean) => {
+    setSelectedFields((current) => (checked ? [...current, field] : current.filter((f) => f !== field)));
+  };
+
+  const handleImport = async () => {
+    if (!plan || !user) return;
+    setImporting(true);
+
+    try {
+      const profileUpdate = Object.fromEntries(
+        plan.profileChanges
+          .filter((change) => selectedFields.includes(change.field))
+          .map((change) => [change.field, change.imported])
+      );
+      if (Object.keys(profileUpdate).length > 0) {
+        const { error } = await supabase.from("health_profiles").update(profileUpdate).eq("user_id", user.id);
+        if (error) throw error;
+      }
+
+      const vitalRows = plan.vitals.map((vital) => ({
+        user_id: user.id,
+        source: "fhir_import",
+        ...vital.values,
+        recorded_at: vital.recorded_at,
+        notes: vital.notes,
+      }));
+      for (let start = 0; start < vitalRows.length; start += INSERT_CHUNK_SIZE) {
+        const { error } = await supabase.from("vital_signs").insert(vitalRows.slice(start, start + INSERT_CHUNK_SIZE));
+        if (error) throw error;
+      }
+
+      if (plan.medications.length > 0) {
+        const { error } = await supabase
+          .from("medications")
+          .insert(plan.medications.map((medication) => ({ ...medication, user_id: user.id })));
+        if (error) throw error;
+      }
+
+      if (plan.allergies.length > 0) {
+        const { error } = await supabase
+          .from("allergies")
+          .insert(plan.allergies.map((allergy) => ({ ...allergy, user_id: user.id })));
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Import complete",
+        description: `${vitalRows.length} readings, ${plan.medications.length} medications and ${plan.allergies.length} allergies imported`,
+      });
+      setOpen(false);
+      reset();
+      onImported?.();
+    } catch (err) {
+      console.error("FHIR import failed:", err);
+      toast({
+        title: "Import failed",
+        description: "Some records may not have been imported. Re-running the import skips anything already saved.",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const skipped = plan?.report.filter((entry) => entry.action === "skip").length ?? 0;
+  const nothingToImport =
+    !plan ||
+    (selectedFields.length === 0 && plan.vitals.length === 0 && plan.medications.length === 0 && plan.allergies.length === 0);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileUp className="w-4 h-4 mr-2" />
+          Import FHIR
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import records from another provider</DialogTitle>
+          <DialogDescription>
+            Upload a FHIR R4 Bundle (JSON). You can review what will be imported before anything is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept=".json,application/json,application/fhir+json"
+            disabled={analyzing || importing}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+
+          {analyzing && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Analyzing {fileName}...
+            </div>
+          )}
+
+          {plan && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center">
+                {[
+                  { label: "Profile fields", value: plan.profileChanges.length },
+                  { label: "Readings", value: plan.vitals.length },
+                  { label: "Medications", value: plan.medications.length },
+                  { label: "Allergies", value: plan.allergies.length },
+                  { label: "Skipped", value: skipped },
+                ].map((stat) => (
+                  <div key={stat.label} className="p-2 border border-border rounded-lg">
+                    <p className="text-2xl font-bold">{stat.value}</p>
+                    <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {plan.profileChanges.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-semibold">Profile changes</p>
+                  {plan.profileChanges.map((change) => (
+                    <label key={change.field} className="flex items-center gap-3 p-2 border border-border rounded-lg text-sm">
+                      <Checkbox
+                        checked={selectedFields.includes(change.field)}
+                        onCheckedChange={(checked) => toggleField(change.field, checked === true)}
+                      />
+                      <span className="font-medium w-28">{FIELD_LABELS[change.field]}</span>
+                      <span className="text-muted-foreground">{change.current ?? "Not set"}</span>
+                      <span>→</span>
+                      <span className="font-medium">{change.imported}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm font-semibold">Resources</p>
+                <ScrollArea className="h-64 border border-border rounded-lg">
+                  <div className="divide-y divide-border">
+                    {plan.report.map((entry) => (
+                      <div key={entry.index} className="flex items-start justify-between gap-4 p-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{entry.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {entry.resourceType}
+                            {entry.target && ` → ${entry.target}`}
+                            {entry.reason && ` • ${entry.reason}`}
+                          </p>
+                        </div>
+                        <Badge variant={ACTION_VARIANTS[entry.action]}>{entry.action}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={nothingToImport || importing}>
+            {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -21,6 +21,8 @@ interface HealthCardProps {
   allergies?: Array<{ allergen: string; severity?: string }>;
   medications?: Array<{ name: string; dosage?: string }>;
   userName?: string;
+  // Emergency access link for the QR code; no QR code without one
+  cardUrl?: string | null;
 }
 
 export const HealthCard = ({
@@ -29,9 +31,8 @@ export const HealthCard = ({
   allergies = [],
   medications = [],
   userName = "User",
+  cardUrl,
 }: HealthCardProps) => {
-  const qrCodeUrl = `${window.location.origin}/health-card/${healthProfile.health_id}`;
-  
   return (
     <Card className="w-full max-w-2xl mx-auto shadow-large border-border/50" id="health-card-content">
       <CardHeader className="bg-gradient-to-r from-primary to-primary-light text-primary-foreground rounded-t-xl">
@@ -45,9 +46,11 @@ export const HealthCard = ({
               <p className="text-sm text-primary-foreground/80">{userName}</p>
             </div>
           </div>
-          <div className="bg-background p-3 rounded-lg">
-            <QRCodeSVG value={qrCodeUrl} size={80} level="H" />
-          </div>
+          {cardUrl && (
+            <div className="bg-background p-3 rounded-lg">
+              <QRCodeSVG value={cardUrl} size={80} level="H" />
+            </div>
+          )}
         </div>
       </CardHeader>
 
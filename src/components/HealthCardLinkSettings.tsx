@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CARD_PIN_PATTERN,
+  HEALTH_CARD_FIELDS,
+  generateCardToken,
+  hashCardPin,
+  type HealthCardField,
+} from "@/lib/healthCard";
+import { KeyRound, RefreshCw, ShieldCheck } from "lucide-react";
+
+export type HealthCardLinkRow = {
+  id: string;
+  token: string;
+  fields: string[];
+  pin_hash: string | null;
+  expires_at: string | null;
+  enabled: boolean;
+  rotated_at: string;
+};
+
+interface HealthCardLinkSettingsProps {
+  link: HealthCardLinkRow;
+  onChange: (link: HealthCardLinkRow) => void;
+}
+
+// What the QR code on the health card exposes and how it is protected.
+// Rotating the token retires every printed or downloaded copy of the card.
+export const HealthCardLinkSettings = ({ link, onChange }: HealthCardLinkSettingsProps) => {
+  const { toast } = useToast();
+  const [fields, setFields] = useState<string[]>(link.fields);
+  const [enabled, setEnabled] = useState(link.enabled);
+  const [expiresOn, setExpiresOn] = useState(link.expires_at ? link.expires_at.slice(0, 10) : "");
+  const [pin, setPin] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFields(link.fields);
+    setEnabled(link.enabled);
+    setExpiresOn(link.expires_at ? link.expires_at.slice(0, 10) : "");
+  }, [link]);
+
+  const update = async (changes: Partial<HealthCardLinkRow>, success: string) => {
+    setSaving(true);
+    const { data, error } = await supabase
+      .from("health_card_links")
+      .update(changes)
+      .eq("id", link.id)
+      .select("id, token, fields, pin_hash, expires_at, enabled, rotated_at")
+      .single();
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to update health card link", variant: "destructive" });
+      return false;
+    }
+    toast({ title: "Saved", description: success });
+    onChange(data);
+    return true;
+  };
+
+  const toggleField = (field: HealthCardField, checked: boolean) =>
+    setFields((current) => (checked ? [...current, field] : current.filter((f) => f !== field)));
+
+  const handleSave = () =>
+    update(
+      {
+        fields,
+        enabled,
+        // End of the chosen day, local time
+        expires_at: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null,
+      },
+      "Your health card link settings were updated"
+    );
+
+  const handleSetPin = async () => {
+    if (!CARD_PIN_PATTERN.test(pin)) {
+      toast({ title: "Invalid PIN", description: "Use 4 to 8 digits", variant: "destructive" });
+      return;
+    }
+    if (await update({ pin_hash: await hashCardPin(link.id, pin) }, "Anyone scanning your card will be asked for this PIN")) {
+      setPin("");
+    }
+  };
+
+  const handleRotate = () =>
+    update(
+      { token: generateCardToken(), rotated_at: new Date().toISOString() },
+      "Your card has a new QR code. Download or print it again; old copies no longer work."
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Emergency Access
+        </CardTitle>
+        <CardDescription>
+          Choose what someone scanning your card's QR code can see. Last new code{" "}
+          {new Date(link.rotated_at).toLocaleDateString()}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="card_enabled">QR code access</Label>
+            <p className="text-sm text-muted-foreground">Turn off to stop every copy of your card from opening</p>
+          </div>
+          <Switch id="card_enabled" checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Shared information</Label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {(Object.entries(HEALTH_CARD_FIELDS) as [HealthCardField, string][]).map(([field, label]) => (
+              <label key={field} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={fields.includes(field)}
+                  onCheckedChange={(checked) => toggleField(field, checked === true)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Your Health ID is always shown</p>
+        </div>
+
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="card_expires">Link expires on</Label>
+          <Input id="card_expires" type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+          <p className="text-xs text-muted-foreground">Leave empty to keep it working until you rotate it</p>
+        </div>
+
+        <Button onClick={handleSave} disabled={saving}>
+          Save Settings
+        </Button>
+
+        <div className="pt-4 border-t space-y-2">
+          <div className="flex items-center gap-2">
+            <KeyRound className="h-4 w-4" />
+            <Label htmlFor="card_pin">PIN</Label>
+            {link.pin_hash ? <Badge variant="secondary">Required</Badge> : <Badge variant="outline">Not set</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            A PIN keeps your card private but first responders can only open it if they know it
+          </p>
+          <div className="flex gap-2 max-w-md">
+            <Input
+              id="card_pin"
+              type="password"
+              inputMode="numeric"
+              placeholder="4-8 digits"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 8))}
+            />
+            <Button variant="outline" onClick={handleSetPin} disabled={saving || !pin}>
+              {link.pin_hash ? "Change PIN" : "Set PIN"}
+            </Button>
+            {link.pin_hash && (
+              <Button variant="ghost" onClick={() => update({ pin_hash: null }, "Your card no longer asks for a PIN")} disabled={saving}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="pt-4 border-t flex items-center justify-between gap-4">
+          <div>
+            <p className="font-medium">New QR code</p>
+            <p className="text-sm text-muted-foreground">Use this if a copy of your card was lost or shared too widely</p>
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={saving}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Rotate
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Replace your card's QR code?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every printed, downloaded or shared copy of your card stops working. You will need to download or print
+                  it again.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRotate}>Rotate</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CARD_SCAN_OUTCOMES, describeUserAgent, type CardScanOutcome } from "@/lib/healthCard";
+import { ScanLine } from "lucide-react";
+
+type CardScan = {
+  id: string;
+  outcome: string;
+  ip_prefix: string | null;
+  country: string | null;
+  user_agent: string | null;
+  scanned_at: string;
+};
+
+const SCANS_SHOWN = 50;
+
+interface HealthCardScanLogProps {
+  userId: string;
+  // Changes when the link is rotated or its settings saved, to refresh
+  refreshKey?: string;
+}
+
+// Every time someone opened the patient's health card link, as recorded by
+// the health-card function.
+export const HealthCardScanLog = ({ userId, refreshKey }: HealthCardScanLogProps) => {
+  const [scans, setScans] = useState<CardScan[]>([]);
+
+  const fetchScans = async () => {
+    const { data, error } = await supabase
+      .from("health_card_scans")
+      .select("id, outcome, ip_prefix, country, user_agent, scanned_at")
+      .eq("user_id", userId)
+      .order("scanned_at", { ascending: false })
+      .limit(SCANS_SHOWN);
+
+    if (error) {
+      console.error("Error fetching health card scans:", error);
+    } else {
+      setScans(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchScans();
+  }, [userId, refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScanLine className="h-5 w-5 text-primary" />
+          Scan History
+        </CardTitle>
+        <CardDescription>Every time your card's QR code or link was opened</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {scans.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Your card hasn't been scanned yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-3 font-medium">When</th>
+                  <th className="text-left p-3 font-medium">Result</th>
+                  <th className="text-left p-3 font-medium">Approximate location</th>
+                  <th className="text-left p-3 font-medium">Device</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scans.map((scan) => (
+                  <tr key={scan.id} className="border-t">
+                    <td className="p-3 whitespace-nowrap">{format(new Date(scan.scanned_at), "PPp")}</td>
+                    <td className="p-3">
+                      <Badge variant={scan.outcome === "viewed" ? "secondary" : "outline"}>
+                        {CARD_SCAN_OUTCOMES[scan.outcome as CardScanOutcome] ?? scan.outcome}
+                      </Badge>
+                    </td>
+                    <td className="p-3 text-muted-foreground">
+                      {[scan.country, scan.ip_prefix].filter(Boolean).join(" • ") || "Unknown"}
+                    </td>
+                    <td className="p-3 text-muted-foreground" title={scan.user_agent ?? undefined}>
+                      {describeUserAgent(scan.user_agent)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -209,14 +209,14 @@ export const HealthCharts = ({ vitalSigns, dateRange }: HealthChartsProps) => {
         <Card>
           <CardHeader>
             <CardTitle>Temperature Trends</CardTitle>
-            <CardDescription>Body temperature in Fahrenheit</CardDescription>
+            <CardDescription>Body temperature in Celsius</CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
               <LineChart data={filteredData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                 <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" />
-                <YAxis stroke="hsl(var(--muted-foreground))" domain={[95, 104]} />
+                <YAxis stroke="hsl(var(--muted-foreground))" domain={[35, 40]} />
                 <Tooltip 
                   contentStyle={{ 
                     backgroundColor: "hsl(var(--card))",
@@ -230,7 +230,7 @@ export const HealthCharts = ({ vitalSigns, dateRange }: HealthChartsProps) => {
                   dataKey="temperature" 
                   stroke="#f97316" 
                   strokeWidth={2}
-                  name="Temperature (°F)"
+                  name="Temperature (°C)"
                   connectNulls
                 />
               </LineChart>
@@ -0,0 +1,50 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ShieldAlert } from "lucide-react";
+import type { InteractionSeverity, InteractionWarning } from "@/lib/drugInteractions";
+
+const SEVERITY_STYLES: Record<InteractionSeverity, { label: string; badge: "destructive" | "default" | "secondary" | "outline" }> = {
+  contraindicated: { label: "Contraindicated", badge: "destructive" },
+  major: { label: "Major", badge: "destructive" },
+  moderate: { label: "Moderate", badge: "default" },
+  minor: { label: "Minor", badge: "secondary" },
+};
+
+const KIND_LABELS: Record<InteractionWarning["kind"], string> = {
+  "drug-drug": "Drug interaction",
+  "drug-allergy": "Allergy",
+  "duplicate-therapy": "Duplicate therapy",
+};
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+}
+
+// Severity-graded list of interaction warnings, most severe first
+export const InteractionWarnings = ({ warnings }: InteractionWarningsProps) => {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {warnings.map((warning, index) => {
+        const style = SEVERITY_STYLES[warning.severity];
+        const serious = warning.severity === "contraindicated" || warning.severity === "major";
+        const Icon = serious ? ShieldAlert : AlertTriangle;
+
+        return (
+          <Alert key={`${warning.drug}-${warning.conflictsWith}-${index}`} variant={serious ? "destructive" : "default"}>
+            <Icon className="h-4 w-4" />
+            <AlertTitle className="flex items-center gap-2">
+              <Badge variant={style.badge}>{style.label}</Badge>
+              {KIND_LABELS[warning.kind]}: {warning.drug} + {warning.conflictsWith}
+            </AlertTitle>
+            <AlertDescription>
+              <p>{warning.summary}</p>
+              <p className="text-sm mt-1 font-medium">{warning.recommendation}</p>
+            </AlertDescription>
+          </Alert>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Plus, X } from "lucide-react";
+import { WEEKDAY_LABELS } from "@/lib/medicationSchedule";
+
+export type ScheduleMode = "none" | "scheduled" | "as_needed";
+
+// One step of a schedule. More than one step is a taper: each step runs
+// from its start date to its end date at its own dose and times.
+export interface ScheduleStepDraft {
+  dose: string;
+  times: string[];
+  start_date: string;
+  end_date: string;
+}
+
+export interface ScheduleDraft {
+  mode: ScheduleMode;
+  // Empty means every day
+  days: number[];
+  max_daily_doses: string;
+  steps: ScheduleStepDraft[];
+}
+
+interface MedicationScheduleFieldsProps {
+  value: ScheduleDraft;
+  onChange: (value: ScheduleDraft) => void;
+}
+
+const nextDay = (date: string) => {
+  if (!date) return "";
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+export const MedicationScheduleFields = ({ value, onChange }: MedicationScheduleFieldsProps) => {
+  const updateStep = (index: number, patch: Partial<ScheduleStepDraft>) =>
+    onChange({ ...value, steps: value.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) });
+
+  const addTaperStep = () => {
+    const last = value.steps[value.steps.length - 1];
+    onChange({
+      ...value,
+      steps: [...value.steps, { dose: "", times: [...last.times], start_date: nextDay(last.end_date), end_date: "" }],
+    });
+  };
+
+  const removeStep = (index: number) =>
+    onChange({ ...value, steps: value.steps.filter((_, i) => i !== index) });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Schedule</Label>
+          <Select value={value.mode} onValueChange={(mode: ScheduleMode) => onChange({ ...value, mode })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No reminders</SelectItem>
+              <SelectItem value="scheduled">At set times</SelectItem>
+              <SelectItem value="as_needed">As needed (PRN)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {value.mode === "as_needed" && (
+          <div>
+            <Label htmlFor="max_daily_doses">Max doses per day</Label>
+            <Input
+              id="max_daily_doses"
+              type="number"
+              min={1}
+              placeholder="e.g., 4"
+              value={value.max_daily_doses}
+              onChange={(e) => onChange({ ...value, max_daily_doses: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+
+      {value.mode === "scheduled" && (
+        <>
+          <div>
+            <Label>Days</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start flex-wrap mt-1"
+              value={value.days.map(String)}
+              onValueChange={(days) => onChange({ ...value, days: days.map(Number).sort() })}
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={label} value={String(day)} aria-label={label}>
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <p className="text-xs text-muted-foreground mt-1">Leave all unselected for every day</p>
+          </div>
+
+          {value.steps.map((step, index) => (
+            <div key={index} className="p-3 border border-border rounded-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">
+                  {value.steps.length > 1 ? `Taper step ${index + 1}` : "Doses"}
+                </p>
+                {value.steps.length > 1 && (
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeStep(index)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <Label>Dose</Label>
+                  <Input
+                    placeholder="e.g., 1 tablet"
+                    value={step.dose}
+                    onChange={(e) => updateStep(index, { dose: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>From</Label>
+                  <Input
+                    type="date"
+                    value={step.start_date}
+                    onChange={(e) => updateStep(index, { start_date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Until</Label>
+                  <Input
+                    type="date"
+                    value={step.end_date}
+                    onChange={(e) => updateStep(index, { end_date: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Times</Label>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  {step.times.map((time, timeIndex) => (
+                    <div key={timeIndex} className="flex items-center gap-1">
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={time}
+                        onChange={(e) =>
+                          updateStep(index, { times: step.times.map((t, i) => (i === timeIndex ? e.target.value : t)) })
+                        }
+                      />
+                      {step.times.length > 1 && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateStep(index, { times: step.times.filter((_, i) => i !== timeIndex) })}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateStep(index, { times: [...step.times, "12:00"] })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Time
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <Button type="button" variant="outline" size="sm" onClick={addTaperStep}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add taper step
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell, CheckCheck, Settings } from "lucide-react";
+
+type Notification = {
+  id: string;
+  category: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+const INBOX_SIZE = 20;
+
+// Header inbox: the latest notifications with an unread count, kept live over
+// realtime. Rows are created server-side (see the notifications migration).
+export const NotificationBell = () => {
+  const { user, userRole } = useAuth();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = async () => {
+    if (!user) return;
+
+    const [latest, unread] = await Promise.all([
+      supabase
+        .from("notifications")
+        .select("id, category, title, body, link, read_at, created_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(INBOX_SIZE),
+      supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .is("read_at", null),
+    ]);
+
+    if (latest.error || unread.error) {
+      console.error("Error fetching notifications:", latest.error || unread.error);
+      return;
+    }
+    setNotifications(latest.data || []);
+    setUnreadCount(unread.count || 0);
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .in("id", ids);
+
+    if (error) {
+      console.error("Error marking notifications read:", error);
+    } else {
+      fetchNotifications();
+    }
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const markAllRead = async () => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", user.id)
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Error marking notifications read:", error);
+    } else {
+      fetchNotifications();
+    }
+  };
+
+  const settingsPath = userRole === "doctor" ? "/doctor/profile" : "/patient/profile";
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-0.5 right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-semibold">Notifications</p>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={markAllRead}
+              disabled={unreadCount === 0}
+              title="Mark all as read"
+            >
+              <CheckCheck className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setOpen(false);
+                navigate(settingsPath);
+              }}
+              title="Notification settings"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-sm text-center text-muted-foreground">You're all caught up</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpen(notification)}
+                className={`w-full text-left px-4 py-3 hover:bg-muted/50 flex gap-3 ${
+                  notification.read_at ? "" : "bg-primary/5"
+                }`}
+              >
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                    notification.read_at ? "bg-transparent" : "bg-primary"
+                  }`}
+                />
+                <span className="space-y-1">
+                  <span className="block text-sm font-medium">{notification.title}</span>
+                  {notification.body && (
+                    <span className="block text-sm text-muted-foreground">{notification.body}</span>
+                  )}
+                  <span className="block text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
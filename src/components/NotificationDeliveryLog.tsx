@@ -0,0 +1,113 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { History, Mail, MessageSquare, Smartphone } from "lucide-react";
+
+type Delivery = {
+  id: string;
+  channel: string;
+  subject: string;
+  destination: string | null;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+  emergency_contact_id: string | null;
+  emergency_contacts: { name: string } | null;
+};
+
+const LOG_SIZE = 20;
+
+const CHANNEL_ICONS: Record<string, typeof Mail> = {
+  email: Mail,
+  sms: MessageSquare,
+  push: Smartphone,
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  sent: "default",
+  pending: "secondary",
+  sending: "secondary",
+  failed: "destructive",
+  skipped: "outline",
+};
+
+// Recent email, SMS and push deliveries for the user, including messages to
+// their emergency contacts
+export const NotificationDeliveryLog = () => {
+  const { user } = useAuth();
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+
+  const fetchDeliveries = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("notification_deliveries")
+      .select(
+        "id, channel, subject, destination, status, attempts, last_error, sent_at, created_at, emergency_contact_id, emergency_contacts (name)"
+      )
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(LOG_SIZE);
+
+    if (error) {
+      console.error("Error fetching notification deliveries:", error);
+    } else {
+      setDeliveries(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [user]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Delivery History
+        </CardTitle>
+        <CardDescription>Recent emails, text messages and push notifications</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing sent yet</p>
+        ) : (
+          <div className="divide-y">
+            {deliveries.map((delivery) => {
+              const Icon = CHANNEL_ICONS[delivery.channel] ?? Mail;
+              return (
+                <div key={delivery.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="flex gap-3">
+                    <Icon className="h-4 w-4 mt-1 text-muted-foreground shrink-0" />
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">{delivery.subject}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {delivery.emergency_contact_id
+                          ? `To ${delivery.emergency_contacts?.name ?? "emergency contact"}`
+                          : "To you"}
+                        {delivery.destination && ` • ${delivery.destination}`} •{" "}
+                        {new Date(delivery.sent_at ?? delivery.created_at).toLocaleString()}
+                      </p>
+                      {delivery.last_error && delivery.status !== "sent" && (
+                        <p className="text-xs text-muted-foreground">
+                          {delivery.last_error}
+                          {delivery.attempts > 1 && ` (after ${delivery.attempts} attempts)`}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <Badge variant={STATUS_VARIANTS[delivery.status] ?? "outline"}>{delivery.status}</Badge>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
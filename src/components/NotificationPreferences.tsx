@@ -0,0 +1,291 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { BellRing, Mail, MessageSquare, Save, Smartphone } from "lucide-react";
+import {
+  DEFAULT_VITALS_REMINDER_DAYS,
+  NOTIFICATION_CATEGORIES,
+  type NotificationPreferenceKey,
+} from "@/lib/notifications";
+import { normalizePhoneNumber } from "@/lib/delivery";
+import {
+  getCurrentPushSubscription,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from "@/lib/pushSubscription";
+
+type Preferences = Record<NotificationPreferenceKey, boolean> & {
+  vitals_reminder_days: number;
+  email_enabled: boolean;
+  sms_enabled: boolean;
+  push_enabled: boolean;
+  sms_phone: string;
+};
+
+const DEFAULT_PREFERENCES: Preferences = {
+  appointment_reminders: true,
+  appointment_updates: true,
+  messages: true,
+  medication_reminders: true,
+  cycle_reminders: true,
+  vitals_reminders: true,
+  vital_alerts: true,
+  access_updates: true,
+  vitals_reminder_days: DEFAULT_VITALS_REMINDER_DAYS,
+  email_enabled: true,
+  sms_enabled: false,
+  push_enabled: true,
+  sms_phone: "",
+};
+
+// Which notifications the user gets, and where. Turning a category off stops
+// new ones (the database drops them on insert); every notification that is
+// kept also goes out by email, SMS and push when those are enabled.
+export const NotificationPreferences = () => {
+  const { user, userRole } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [saving, setSaving] = useState(false);
+  const [pushOnThisDevice, setPushOnThisDevice] = useState(false);
+
+  const fetchPreferences = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("notification_preferences")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching notification preferences:", error);
+    } else if (data) {
+      setPreferences({
+        appointment_reminders: data.appointment_reminders,
+        appointment_updates: data.appointment_updates,
+        messages: data.messages,
+        medication_reminders: data.medication_reminders,
+        cycle_reminders: data.cycle_reminders,
+        vitals_reminders: data.vitals_reminders,
+        vital_alerts: data.vital_alerts,
+        access_updates: data.access_updates,
+        vitals_reminder_days: data.vitals_reminder_days,
+        email_enabled: data.email_enabled,
+        sms_enabled: data.sms_enabled,
+        push_enabled: data.push_enabled,
+        sms_phone: data.sms_phone ?? "",
+      });
+    }
+  };
+
+  useEffect(() => {
+    fetchPreferences();
+    getCurrentPushSubscription()
+      .then((subscription) => setPushOnThisDevice(!!subscription))
+      .catch(() => setPushOnThisDevice(false));
+  }, [user]);
+
+  const togglePushOnThisDevice = async () => {
+    try {
+      if (pushOnThisDevice) {
+        await unsubscribeFromPush();
+        setPushOnThisDevice(false);
+      } else if (await subscribeToPush()) {
+        setPushOnThisDevice(true);
+      } else {
+        toast({
+          title: "Push notifications blocked",
+          description: "Allow notifications for this site in your browser settings",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error updating push subscription:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update push notifications on this device",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const days = Math.round(preferences.vitals_reminder_days);
+    if (!(days >= 1 && days <= 30)) {
+      toast({
+        title: "Error",
+        description: "Vitals reminders can be sent after 1 to 30 days",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const smsPhone = preferences.sms_phone.trim() ? normalizePhoneNumber(preferences.sms_phone) : null;
+    if (preferences.sms_phone.trim() && !smsPhone) {
+      toast({
+        title: "Error",
+        description: "Enter your phone number with the country code, e.g. +14155550123",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (preferences.sms_enabled && !smsPhone) {
+      toast({
+        title: "Error",
+        description: "Add a phone number to receive text messages",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("notification_preferences")
+      .upsert(
+        { user_id: user.id, ...preferences, vitals_reminder_days: days, sms_phone: smsPhone },
+        { onConflict: "user_id" }
+      );
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save notification settings",
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Success", description: "Notification settings saved" });
+    }
+  };
+
+  const categories = NOTIFICATION_CATEGORIES.filter((c) => userRole !== "doctor" || !c.patientOnly);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          Notifications
+        </CardTitle>
+        <CardDescription>Choose what you are notified about and how</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {categories.map((category) => (
+          <div key={category.category} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={`notify_${category.preference}`}>{category.label}</Label>
+              <p className="text-sm text-muted-foreground">{category.description}</p>
+            </div>
+            <Switch
+              id={`notify_${category.preference}`}
+              checked={preferences[category.preference]}
+              onCheckedChange={(checked) => setPreferences({ ...preferences, [category.preference]: checked })}
+            />
+          </div>
+        ))}
+
+        {userRole !== "doctor" && preferences.vitals_reminders && (
+          <div className="space-y-2">
+            <Label htmlFor="vitals_reminder_days">Remind me after this many days without vitals</Label>
+            <Input
+              id="vitals_reminder_days"
+              type="number"
+              min={1}
+              max={30}
+              className="w-24"
+              value={preferences.vitals_reminder_days}
+              onChange={(e) => setPreferences({ ...preferences, vitals_reminder_days: Number(e.target.value) })}
+            />
+          </div>
+        )}
+
+        <div className="pt-4 border-t space-y-4">
+          <div>
+            <p className="font-medium">Also send to</p>
+            <p className="text-sm text-muted-foreground">In-app notifications are always on</p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Mail className="h-4 w-4 text-muted-foreground" />
+              <div>
+                <Label htmlFor="notify_email">Email</Label>
+                <p className="text-sm text-muted-foreground">{user?.email}</p>
+              </div>
+            </div>
+            <Switch
+              id="notify_email"
+              checked={preferences.email_enabled}
+              onCheckedChange={(checked) => setPreferences({ ...preferences, email_enabled: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <MessageSquare className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <Label htmlFor="notify_sms">Text message (SMS)</Label>
+                  <p className="text-sm text-muted-foreground">Standard message rates may apply</p>
+                </div>
+              </div>
+              <Switch
+                id="notify_sms"
+                checked={preferences.sms_enabled}
+                onCheckedChange={(checked) => setPreferences({ ...preferences, sms_enabled: checked })}
+              />
+            </div>
+            {preferences.sms_enabled && (
+              <Input
+                id="sms_phone"
+                type="tel"
+                placeholder="+14155550123"
+                className="max-w-xs"
+                value={preferences.sms_phone}
+                onChange={(e) => setPreferences({ ...preferences, sms_phone: e.target.value })}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Smartphone className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <Label htmlFor="notify_push">Push notifications</Label>
+                  <p className="text-sm text-muted-foreground">On devices where you turn them on</p>
+                </div>
+              </div>
+              <Switch
+                id="notify_push"
+                checked={preferences.push_enabled}
+                onCheckedChange={(checked) => setPreferences({ ...preferences, push_enabled: checked })}
+              />
+            </div>
+            {preferences.push_enabled && isPushSupported() && (
+              <Button variant="outline" size="sm" onClick={togglePushOnThisDevice}>
+                {pushOnThisDevice ? "Turn off on this device" : "Turn on for this device"}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
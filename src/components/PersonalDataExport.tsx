@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, Download, Loader2 } from "lucide-react";
+
+// Downloads everything held about the patient as a zip of JSON and CSV files,
+// one per table, built by the data-export edge function.
+export const PersonalDataExport = () => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("data-export");
+      if (error) throw error;
+
+      // Served as application/octet-stream, which the client returns as a Blob
+      const url = URL.createObjectURL(data as Blob);
+      const link = document.createElement("a");
+      link.download = `personal-data-${format(new Date(), "yyyy-MM-dd")}.zip`;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Export ready",
+        description: "Your data has been downloaded as a zip file",
+      });
+    } catch (err) {
+      console.error("Personal data export failed:", err);
+      toast({
+        title: "Export failed",
+        description: "Could not export your data. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Archive className="h-5 w-5 text-primary" />
+              Download Your Data
+            </CardTitle>
+            <CardDescription>
+              Everything held about you: profile, vitals, cycles, pregnancy, medications, appointments, messages,
+              health chat and more
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleExport} disabled={exporting}>
+            {exporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export Data
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground">
+          The zip has each table as JSON, as stored, and as CSV for spreadsheets. Links, PINs and device keys are left
+          out. The export shows in your data access log.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InteractionWarnings } from "@/components/InteractionWarnings";
+import { useToast } from "@/hooks/use-toast";
+import { checkMedication, SEVERITY_RANK } from "@/lib/drugInteractions";
+import { PRESCRIPTION_ROUTES } from "@/lib/prescriptions";
+
+interface PrescriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  doctorId: string;
+  patientId: string;
+  appointmentId?: string | null;
+  onCreated?: () => void;
+}
+
+interface PatientContext {
+  medications?: { name: string; end_date: string | null }[];
+  allergies?: { allergen: string }[];
+}
+
+const emptyForm = {
+  drug_name: "",
+  strength: "",
+  route: "oral",
+  sig: "",
+  quantity: "",
+  quantity_unit: "",
+  refills: "0",
+  start_date: "",
+  end_date: "",
+  notes: "",
+};
+
+// Doctor-facing form for writing a structured prescription. The patient sees
+// it as pending until they accept it into their medication list.
+export const PrescriptionDialog = ({
+  open,
+  onOpenChange,
+  doctorId,
+  patientId,
+  appointmentId,
+  onCreated,
+}: PrescriptionDialogProps) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [confirmInteractions, setConfirmInteractions] = useState(false);
+  const [patientMedications, setPatientMedications] = useState<string[]>([]);
+  const [patientAllergies, setPatientAllergies] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setForm(emptyForm);
+      setConfirmInteractions(false);
+      fetchPatientContext();
+    }
+  }, [open, patientId]);
+
+  useEffect(() => {
+    setConfirmInteractions(false);
+  }, [form.drug_name]);
+
+  // Read through read_patient_record so it shows in the patient's access
+  // log; categories the grant doesn't cover come back absent
+  const fetchPatientContext = async () => {
+    const { data, error } = await supabase.rpc("read_patient_record", {
+      _patient_id: patientId,
+      _source: "prescriptions",
+      _categories: ["medications", "allergies"],
+    });
+    if (error) console.error("Error fetching patient medications and allergies:", error);
+
+    const record = (data || {}) as unknown as PatientContext;
+    setPatientMedications(
+      (record.medications || [])
+        .filter((med) => !med.end_date || new Date(med.end_date) >= new Date())
+        .map((med) => med.name)
+    );
+    setPatientAllergies((record.allergies || []).map((allergy) => allergy.allergen));
+  };
+
+  const warnings = useMemo(
+    () => (form.drug_name.trim() ? checkMedication(form.drug_name, patientMedications, patientAllergies) : []),
+    [form.drug_name, patientMedications, patientAllergies]
+  );
+  const hasSeriousWarning = warnings.some((w) => SEVERITY_RANK[w.severity] >= SEVERITY_RANK.major);
+
+  const handleSubmit = async () => {
+    if (!form.drug_name.trim() || !form.sig.trim()) {
+      toast({ title: "Drug and directions are required", variant: "destructive" });
+      return;
+    }
+    if (form.start_date && form.end_date && form.end_date < form.start_date) {
+      toast({ title: "End date can't be before the start date", variant: "destructive" });
+      return;
+    }
+    if (hasSeriousWarning && !confirmInteractions) {
+      setConfirmInteractions(true);
+      toast({
+        title: "Serious interaction detected",
+        description: "Review the warnings. Click \"Prescribe Anyway\" to send this prescription.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("prescriptions").insert({
+      doctor_id: doctorId,
+      patient_id: patientId,
+      appointment_id: appointmentId || null,
+      drug_name: form.drug_name.trim(),
+      strength: form.strength.trim() || null,
+      route: form.route,
+      sig: form.sig.trim(),
+      quantity: form.quantity ? Number(form.quantity) : null,
+      quantity_unit: form.quantity_unit.trim() || null,
+      refills: Number(form.refills) || 0,
+      start_date: form.start_date || null,
+      end_date: form.end_date || null,
+      notes: form.notes.trim() || null,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error creating prescription", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Prescription sent", description: "The patient can accept it into their medication list" });
+      onOpenChange(false);
+      onCreated?.();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Prescription</DialogTitle>
+          <DialogDescription>The patient will be asked to accept it into their medication list</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="rx_drug">Drug *</Label>
+              <Input
+                id="rx_drug"
+                placeholder="e.g., Amoxicillin"
+                value={form.drug_name}
+                onChange={(e) => setForm({ ...form, drug_name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="rx_strength">Strength</Label>
+              <Input
+                id="rx_strength"
+                placeholder="e.g., 500 mg"
+                value={form.strength}
+                onChange={(e) => setForm({ ...form, strength: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Route</Label>
+              <Select value={form.route} onValueChange={(route) => setForm({ ...form, route })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRESCRIPTION_ROUTES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="rx_quantity">Qty</Label>
+                <Input
+                  id="rx_quantity"
+                  type="number"
+                  min={0}
+                  value={form.quantity}
+                  onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rx_unit">Unit</Label>
+                <Input
+                  id="rx_unit"
+                  placeholder="tablets"
+                  value={form.quantity_unit}
+                  onChange={(e) => setForm({ ...form, quantity_unit: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rx_refills">Refills</Label>
+                <Input
+                  id="rx_refills"
+                  type="number"
+                  min={0}
+                  value={form.refills}
+                  onChange={(e) => setForm({ ...form, refills: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="rx_start">Start Date</Label>
+              <Input
+                id="rx_start"
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="rx_end">End Date</Label>
+              <Input
+                id="rx_end"
+                type="date"
+                value={form.end_date}
+                onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="rx_sig">Directions (Sig) *</Label>
+            <Textarea
+              id="rx_sig"
+              placeholder="e.g., Take 1 capsule by mouth three times daily for 7 days"
+              value={form.sig}
+              onChange={(e) => setForm({ ...form, sig: e.target.value })}
+              rows={2}
+            />
+          </div>
+          <div>
+            <Label htmlFor="rx_notes">Notes</Label>
+            <Textarea
+              id="rx_notes"
+              placeholder="Notes for the patient or pharmacist..."
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+          <InteractionWarnings warnings={warnings} />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant={confirmInteractions ? "destructive" : "default"}
+              onClick={handleSubmit}
+              disabled={saving}
+            >
+              {confirmInteractions ? "Prescribe Anyway" : "Send Prescription"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
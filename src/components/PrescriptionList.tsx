@@ -0,0 +1,83 @@
+import type { ReactNode } from "react";
+import { format } from "date-fns";
+import { Printer } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatQuantity,
+  printPrescription,
+  summarizePrescription,
+  type PrescriptionDocumentData,
+} from "@/lib/prescriptions";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  accepted: "secondary",
+  declined: "destructive",
+  cancelled: "outline",
+};
+
+interface PrescriptionListProps {
+  prescriptions: PrescriptionDocumentData[];
+  patient: PrescriptionDocumentData["patient"];
+  // Extra buttons per prescription, e.g. accept/decline or cancel
+  actions?: (prescription: PrescriptionDocumentData) => ReactNode;
+  emptyMessage?: string;
+}
+
+export const PrescriptionList = ({ prescriptions, patient, actions, emptyMessage }: PrescriptionListProps) => {
+  const { toast } = useToast();
+
+  const handlePrint = (prescription: PrescriptionDocumentData) => {
+    if (!printPrescription({ ...prescription, patient })) {
+      toast({
+        title: "Couldn't open the prescription",
+        description: "Allow pop-ups for this site to print or save it as PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (prescriptions.length === 0) {
+    return emptyMessage ? <p className="text-muted-foreground text-center py-8">{emptyMessage}</p> : null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {prescriptions.map((rx) => (
+        <div key={rx.id} className="p-4 border border-border rounded-lg">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="font-semibold">{[rx.drug_name, rx.strength].filter(Boolean).join(" ")}</p>
+                <Badge variant={STATUS_VARIANTS[rx.status] ?? "outline"} className="capitalize">
+                  {rx.status}
+                </Badge>
+              </div>
+              <p className="text-sm">{summarizePrescription(rx)}</p>
+              <p className="text-sm text-muted-foreground">
+                {[
+                  formatQuantity(rx) && `Qty ${formatQuantity(rx)}`,
+                  `${rx.refills} refill${rx.refills === 1 ? "" : "s"}`,
+                  rx.doctors?.full_name,
+                  format(new Date(rx.created_at), "MMM dd, yyyy"),
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+              {rx.notes && <p className="text-sm text-muted-foreground">{rx.notes}</p>}
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {actions?.(rx)}
+              <Button size="sm" variant="outline" className="gap-2" onClick={() => handlePrint(rx)}>
+                <Printer className="h-4 w-4" />
+                Print
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SlotPicker } from "@/components/SlotPicker";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import type { Slot } from "@/lib/availability";
+import type { ReschedulableAppointment } from "@/components/RescheduleAppointmentDialog";
+
+interface ProposeTimeDialogProps {
+  appointment: ReschedulableAppointment | null;
+  onOpenChange: (open: boolean) => void;
+  onProposed?: () => void;
+}
+
+// Doctor-side "propose alternative time". Nothing moves until the patient
+// accepts; a new proposal replaces any open one.
+export const ProposeTimeDialog = ({ appointment, onOpenChange, onProposed }: ProposeTimeDialogProps) => {
+  const { toast } = useToast();
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setSlot(null);
+    setMessage("");
+  }, [appointment?.id]);
+
+  const handlePropose = async () => {
+    if (!appointment || !slot) return;
+
+    setSaving(true);
+    const { error } = await supabase.rpc("propose_appointment_time", {
+      _appointment_id: appointment.id,
+      _proposed_time: slot.start,
+      _message: message.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to propose a new time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: "New time proposed to the patient",
+    });
+    onOpenChange(false);
+    onProposed?.();
+  };
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Propose Another Time</DialogTitle>
+          <DialogDescription>
+            The patient can accept or decline. Until then the appointment stays at{" "}
+            {appointment && new Date(appointment.scheduled_time).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}.
+          </DialogDescription>
+        </DialogHeader>
+        {appointment && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Proposed Date & Time *</Label>
+              <SlotPicker
+                doctorId={appointment.doctor_id}
+                type={appointment.type || "in-person"}
+                durationMinutes={appointment.duration}
+                ignoreInterval={{ starts_at: appointment.scheduled_time, ends_at: appointment.ends_at }}
+                value={slot?.start ?? ""}
+                onChange={setSlot}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal_message">Message to Patient</Label>
+              <Textarea
+                id="proposal_message"
+                placeholder="e.g. I'm in surgery that morning, would this work instead?"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Back
+              </Button>
+              <Button onClick={handlePropose} disabled={saving || !slot}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Send Proposal
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,109 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  expandRecurrence,
+  MAX_SERIES_INTERVAL_WEEKS,
+  MAX_SERIES_OCCURRENCES,
+  validateRecurrence,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  // First visit and the doctor's timezone, for the preview
+  firstStart?: string | null;
+  timeZone: string;
+}
+
+// "Every N weeks, until a date or for X visits", with the resulting dates
+// listed underneath so clashes with holidays etc. are easy to spot.
+export const RecurrenceFields = ({ value, onChange, firstStart, timeZone }: RecurrenceFieldsProps) => {
+  const endsBy = value.until != null ? "until" : "count";
+  const error = firstStart ? validateRecurrence(firstStart, timeZone, value) : null;
+  const preview = firstStart && !error ? expandRecurrence(firstStart, timeZone, value) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="recurrence_interval">Every (weeks)</Label>
+          <Input
+            id="recurrence_interval"
+            type="number"
+            min={1}
+            max={MAX_SERIES_INTERVAL_WEEKS}
+            value={value.intervalWeeks || ""}
+            onChange={(e) => onChange({ ...value, intervalWeeks: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Ends</Label>
+          <Select
+            value={endsBy}
+            onValueChange={(ends) =>
+              onChange(
+                ends === "until"
+                  ? { intervalWeeks: value.intervalWeeks, until: firstStart ? firstStart.slice(0, 10) : "" }
+                  : { intervalWeeks: value.intervalWeeks, count: 4 }
+              )
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="count">After a number of visits</SelectItem>
+              <SelectItem value="until">On a date</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {endsBy === "count" ? (
+        <div className="space-y-2">
+          <Label htmlFor="recurrence_count">Number of Visits</Label>
+          <Input
+            id="recurrence_count"
+            type="number"
+            min={1}
+            max={MAX_SERIES_OCCURRENCES}
+            value={value.count || ""}
+            onChange={(e) => onChange({ ...value, count: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="recurrence_until">Last Visit On or Before</Label>
+          <Input
+            id="recurrence_until"
+            type="date"
+            value={value.until ?? ""}
+            onChange={(e) => onChange({ ...value, until: e.target.value })}
+          />
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : (
+        preview.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">
+              {preview.length} visit{preview.length === 1 ? "" : "s"}
+              {preview.length === MAX_SERIES_OCCURRENCES && ` (the most a series can hold)`}
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {preview.map((start) => (
+                <span key={start} className="text-xs rounded bg-muted px-2 py-0.5">
+                  {new Date(start).toLocaleDateString([], { dateStyle: "medium" })}
+                </span>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SlotPicker } from "@/components/SlotPicker";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { reasonRequired } from "@/lib/appointmentStatus";
+import type { Slot } from "@/lib/availability";
+
+export interface ReschedulableAppointment {
+  id: string;
+  doctor_id: string;
+  type: string | null;
+  duration: number | null;
+  scheduled_time: string;
+  ends_at: string;
+}
+
+interface RescheduleAppointmentDialogProps {
+  appointment: ReschedulableAppointment | null;
+  onOpenChange: (open: boolean) => void;
+  cancellationWindowHours: number;
+  onRescheduled?: () => void;
+}
+
+// Patient-side reschedule: pick a new slot with the same doctor. The original
+// is kept as 'rescheduled' and the new request links back to it.
+export const RescheduleAppointmentDialog = ({
+  appointment,
+  onOpenChange,
+  cancellationWindowHours,
+  onRescheduled,
+}: RescheduleAppointmentDialogProps) => {
+  const { toast } = useToast();
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    setSlot(null);
+    setReason("");
+  }, [appointment?.id]);
+
+  const needsReason = appointment
+    ? reasonRequired("patient", appointment.scheduled_time, cancellationWindowHours)
+    : false;
+
+  const handleReschedule = async () => {
+    if (!appointment || !slot) return;
+
+    setSaving(true);
+    const { error } = await supabase.rpc("reschedule_appointment", {
+      _appointment_id: appointment.id,
+      _scheduled_time: slot.start,
+      _reason: reason.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description:
+          error.code === "23P01"
+            ? "That time was just booked by someone else. Please pick another slot."
+            : error.message || "Failed to reschedule appointment",
+        variant: "destructive",
+      });
+      setRefreshKey((key) => key + 1);
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: "Reschedule requested. Your doctor will confirm the new time.",
+    });
+    onOpenChange(false);
+    onRescheduled?.();
+  };
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reschedule Appointment</DialogTitle>
+          <DialogDescription>
+            Currently {appointment && new Date(appointment.scheduled_time).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+          </DialogDescription>
+        </DialogHeader>
+        {appointment && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>New Date & Time *</Label>
+              <SlotPicker
+                doctorId={appointment.doctor_id}
+                type={appointment.type || "in-person"}
+                durationMinutes={appointment.duration}
+                ignoreInterval={{ starts_at: appointment.scheduled_time, ends_at: appointment.ends_at }}
+                value={slot?.start ?? ""}
+                onChange={setSlot}
+                refreshKey={refreshKey}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reschedule_reason">Reason{needsReason ? " *" : ""}</Label>
+              <Textarea
+                id="reschedule_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+              />
+              {needsReason && (
+                <p className="text-xs text-muted-foreground">
+                  Your doctor asks for {cancellationWindowHours} hours' notice, so please tell them why.
+                </p>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Back
+              </Button>
+              <Button onClick={handleReschedule} disabled={saving || !slot || (needsReason && !reason.trim())}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Request New Time
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -28,6 +28,8 @@ export const RoleProtectedRoute = ({ children, allowedRoles }: RoleProtectedRout
       return <Navigate to="/patient-dashboard" replace />;
     } else if (userRole === "doctor") {
       return <Navigate to="/doctor-portal" replace />;
+    } else if (userRole === "admin") {
+      return <Navigate to="/admin/verifications" replace />;
     }
     return <Navigate to="/" replace />;
   }
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { computeFreeSlots, DEFAULT_APPOINTMENT_DURATION, type BusyInterval, type Slot } from "@/lib/availability";
+
+// How far ahead slots are offered
+const BOOKING_WINDOW_DAYS = 14;
+
+const viewerTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const slotDayKey = (slot: Slot) => format(new Date(slot.start), "yyyy-MM-dd");
+
+interface SlotPickerProps {
+  doctorId: string;
+  type: string;
+  // Start of the selected slot
+  value: string;
+  onChange: (slot: Slot | null) => void;
+  // Fixed length, e.g. when moving an existing appointment; otherwise the
+  // doctor's duration for this appointment type
+  durationMinutes?: number | null;
+  // The appointment being moved, whose own time shouldn't count as busy
+  ignoreInterval?: BusyInterval | null;
+  // Bump to reload, e.g. after a booking lost a race for its slot
+  refreshKey?: number;
+}
+
+// Day and time buttons for a doctor's free slots over the next two weeks,
+// shown in the viewer's timezone.
+export const SlotPicker = ({
+  doctorId,
+  type,
+  value,
+  onChange,
+  durationMinutes,
+  ignoreInterval,
+  refreshKey,
+}: SlotPickerProps) => {
+  const { toast } = useToast();
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [day, setDay] = useState("");
+  const [duration, setDuration] = useState(DEFAULT_APPOINTMENT_DURATION);
+  const [doctorTimeZone, setDoctorTimeZone] = useState("UTC");
+
+  useEffect(() => {
+    fetchSlots();
+  }, [doctorId, type, durationMinutes, refreshKey]);
+
+  const fetchSlots = async () => {
+    const from = new Date();
+    const to = addDays(from, BOOKING_WINDOW_DAYS + 1);
+
+    setLoading(true);
+
+    // Busy time comes from an RPC because other patients' appointments aren't readable here
+    const [doctorRes, hoursRes, breaksRes, typeRes, busyRes] = await Promise.all([
+      supabase.from("doctors").select("timezone").eq("id", doctorId).single(),
+      supabase.from("doctor_working_hours").select("weekday, start_time, end_time").eq("doctor_id", doctorId),
+      supabase.from("doctor_breaks").select("weekday, start_time, end_time").eq("doctor_id", doctorId),
+      supabase
+        .from("doctor_appointment_types")
+        .select("duration_minutes")
+        .eq("doctor_id", doctorId)
+        .eq("type", type)
+        .maybeSingle(),
+      supabase.rpc("get_doctor_busy_intervals", {
+        _doctor_id: doctorId,
+        _from: from.toISOString(),
+        _to: to.toISOString(),
+      }),
+    ]);
+
+    if (hoursRes.error || busyRes.error) {
+      toast({
+        title: "Error",
+        description: "Failed to load available times",
+        variant: "destructive",
+      });
+      setSlots([]);
+      setLoading(false);
+      return;
+    }
+
+    const timezone = doctorRes.data?.timezone || "UTC";
+    const length = durationMinutes || typeRes.data?.duration_minutes || DEFAULT_APPOINTMENT_DURATION;
+    const busy = (busyRes.data || []).filter(
+      (interval) =>
+        !ignoreInterval ||
+        new Date(interval.starts_at).getTime() !== new Date(ignoreInterval.starts_at).getTime() ||
+        new Date(interval.ends_at).getTime() !== new Date(ignoreInterval.ends_at).getTime()
+    );
+    const free = computeFreeSlots(
+      { timezone, workingHours: hoursRes.data || [], breaks: breaksRes.data || [], busy },
+      { from, days: BOOKING_WINDOW_DAYS, durationMinutes: length }
+    );
+
+    setSlots(free);
+    setDuration(length);
+    setDoctorTimeZone(timezone);
+    setDay((current) => (free.some((slot) => slotDayKey(slot) === current) ? current : free[0] ? slotDayKey(free[0]) : ""));
+    if (value && !free.some((slot) => slot.start === value)) {
+      onChange(null);
+    }
+    setLoading(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (slots.length === 0) {
+    return <p className="text-sm text-muted-foreground">No free times in the next {BOOKING_WINDOW_DAYS} days</p>;
+  }
+
+  const days = Array.from(new Set(slots.map(slotDayKey)));
+  const daySlots = slots.filter((slot) => slotDayKey(slot) === day);
+  const selected = slots.find((slot) => slot.start === value);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {days.map((key) => (
+          <Button
+            key={key}
+            size="sm"
+            variant={key === day ? "default" : "outline"}
+            className="flex-shrink-0"
+            onClick={() => setDay(key)}
+          >
+            {format(new Date(`${key}T00:00:00`), "EEE d MMM")}
+          </Button>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {daySlots.map((slot) => (
+          <Button
+            key={slot.start}
+            size="sm"
+            variant={slot.start === value ? "default" : "outline"}
+            onClick={() => onChange(slot)}
+          >
+            {new Date(slot.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {duration}-minute appointments, shown in your time ({viewerTimeZone})
+      </p>
+      {selected && doctorTimeZone !== viewerTimeZone && (
+        <p className="text-xs text-muted-foreground">
+          That's {selected.doctorTime} on {format(new Date(`${selected.doctorDate}T00:00:00`), "EEE d MMM")} for the
+          doctor ({doctorTimeZone})
+        </p>
+      )}
+    </div>
+  );
+};
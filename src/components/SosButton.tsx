@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, Loader2, Siren, X } from "lucide-react";
+import { describeSosLogEntry, ESCALATION_MINUTES, OPEN_SOS_STATUSES, type SosLogEntry } from "@/lib/sos";
+
+type SosEvent = {
+  id: string;
+  trigger_source: string;
+  status: string;
+  reason: string | null;
+  notify_after: string;
+  created_at: string;
+};
+
+type LogEntry = SosLogEntry & { id: string; created_at: string };
+
+const LOCATION_TIMEOUT_MS = 5000;
+
+// Resolves to null when the browser has no geolocation, the patient declines
+// or no fix arrives in time: the SOS goes out without a location
+const currentPosition = () =>
+  new Promise<GeolocationPosition | null>((resolve) => {
+    if (!("geolocation" in navigator)) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, () => resolve(null), {
+      enableHighAccuracy: true,
+      timeout: LOCATION_TIMEOUT_MS,
+      maximumAge: 60 * 1000,
+    });
+  });
+
+// Dashboard SOS: raises an alert to the patient's emergency contacts, and
+// while one is open (including one raised by a device) follows it live with
+// cancel and resolve actions. Sending and escalation happen in the sos edge
+// function.
+export const SosButton = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [openEvent, setOpenEvent] = useState<SosEvent | null>(null);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [message, setMessage] = useState("");
+  const [shareLocation, setShareLocation] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const fetchOpenEvent = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("sos_events")
+      .select("id, trigger_source, status, reason, notify_after, created_at")
+      .eq("user_id", user.id)
+      .in("status", OPEN_SOS_STATUSES)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching SOS:", error);
+    } else {
+      setOpenEvent(data);
+    }
+  };
+
+  const fetchLog = async (eventId: string) => {
+    const { data, error } = await supabase
+      .from("sos_event_log")
+      .select("id, event_type, actor, details, created_at")
+      .eq("sos_event_id", eventId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching SOS log:", error);
+    } else {
+      setLog((data || []) as LogEntry[]);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchOpenEvent();
+
+    const channel = supabase
+      .channel(`sos-${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "sos_events", filter: `user_id=eq.${user.id}` },
+        () => fetchOpenEvent()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (!openEvent) {
+      setLog([]);
+      return;
+    }
+
+    fetchLog(openEvent.id);
+
+    const channel = supabase
+      .channel(`sos-log-${openEvent.id}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "sos_event_log", filter: `sos_event_id=eq.${openEvent.id}` },
+        () => fetchLog(openEvent.id)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [openEvent?.id]);
+
+  const invokeSos = async (body: Record<string, unknown>) => {
+    setBusy(true);
+    const { data, error } = await supabase.functions.invoke("sos", { body });
+    setBusy(false);
+    if (error) {
+      toast({ title: "SOS failed", description: error.message, variant: "destructive" });
+      return null;
+    }
+    fetchOpenEvent();
+    return data;
+  };
+
+  const triggerSos = async () => {
+    setBusy(true);
+    const position = shareLocation ? await currentPosition() : null;
+    const data = await invokeSos({
+      action: "trigger",
+      message: message.trim() || undefined,
+      latitude: position?.coords.latitude,
+      longitude: position?.coords.longitude,
+      accuracy: position?.coords.accuracy,
+    });
+    if (!data) return;
+
+    setMessage("");
+    toast({
+      title: "SOS sent",
+      description: shareLocation && !position
+        ? "Your contacts are being alerted. Your location could not be shared."
+        : "Your emergency contacts are being alerted",
+    });
+  };
+
+  const closeSos = async (action: "cancel" | "resolve") => {
+    if (!openEvent) return;
+    const data = await invokeSos({ action, sos_event_id: openEvent.id });
+    if (data) {
+      toast({ title: action === "cancel" ? "SOS cancelled" : "SOS resolved" });
+    }
+  };
+
+  const statusText = () => {
+    if (!openEvent) return "";
+    if (openEvent.status === "pending") {
+      return `Your contacts will be alerted at ${format(new Date(openEvent.notify_after), "p")} unless you cancel.`;
+    }
+    if (openEvent.status === "acknowledged") {
+      return "A contact is responding.";
+    }
+    return `Alerting your contacts. If nobody acknowledges within ${ESCALATION_MINUTES} minutes, everyone else is alerted.`;
+  };
+
+  if (openEvent) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <Siren className="h-5 w-5" />
+            {openEvent.trigger_source === "device" ? "SOS raised by your device" : "SOS in progress"}
+          </CardTitle>
+          <CardDescription>
+            {openEvent.reason && <span className="block">{openEvent.reason}</span>}
+            {statusText()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {log.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {log.map((entry) => (
+                <li key={entry.id} className="flex gap-3">
+                  <span className="text-muted-foreground shrink-0">{format(new Date(entry.created_at), "p")}</span>
+                  <span>{describeSosLogEntry(entry)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {openEvent.status === "pending" && (
+              <Button variant="destructive" disabled={busy} onClick={() => invokeSos({ action: "trigger" })}>
+                <Siren className="h-4 w-4 mr-2" />
+                Send now
+              </Button>
+            )}
+            <Button variant="outline" disabled={busy} onClick={() => closeSos("cancel")}>
+              <X className="h-4 w-4 mr-2" />
+              I'm OK, cancel
+            </Button>
+            {openEvent.status !== "pending" && (
+              <Button variant="outline" disabled={busy} onClick={() => closeSos("resolve")}>
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                Help arrived
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <p className="font-semibold">Emergency SOS</p>
+          <p className="text-sm text-muted-foreground">
+            Alerts your primary emergency contact, then everyone else if nobody responds
+          </p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="lg" disabled={busy}>
+              {busy ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <Siren className="h-5 w-5 mr-2" />}
+              SOS
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Send an SOS?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Your emergency contacts get your health card, latest vitals and allergies. In a
+                life-threatening emergency, also call your local emergency number.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="sos_message">Message (optional)</Label>
+                <Textarea
+                  id="sos_message"
+                  maxLength={500}
+                  placeholder="e.g. Chest pain, at home"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="sos_location"
+                  checked={shareLocation}
+                  onCheckedChange={(checked) => setShareLocation(checked as boolean)}
+                />
+                <Label htmlFor="sos_location" className="cursor-pointer">Share my current location</Label>
+              </div>
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={triggerSos}
+                className="bg-destructive text-destructive-foreground"
+              >
+                Send SOS
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Siren } from "lucide-react";
+import { AUTO_SOS_GRACE_SECONDS, describeSosLogEntry, type SosLogEntry } from "@/lib/sos";
+
+type SosEvent = {
+  id: string;
+  trigger_source: string;
+  status: string;
+  reason: string | null;
+  message: string | null;
+  created_at: string;
+  sos_event_log: (SosLogEntry & { id: string; created_at: string })[];
+};
+
+const HISTORY_SIZE = 10;
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "destructive",
+  active: "destructive",
+  acknowledged: "default",
+  resolved: "secondary",
+  cancelled: "outline",
+};
+
+// Past SOS events with their full log, and the switch for SOS raised
+// automatically from critical device readings
+export const SosHistory = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [events, setEvents] = useState<SosEvent[]>([]);
+  const [autoSos, setAutoSos] = useState(true);
+
+  const fetchHistory = async () => {
+    if (!user) return;
+
+    const [history, prefs] = await Promise.all([
+      supabase
+        .from("sos_events")
+        .select("id, trigger_source, status, reason, message, created_at, sos_event_log (id, event_type, actor, details, created_at)")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(HISTORY_SIZE),
+      supabase
+        .from("notification_preferences")
+        .select("auto_sos_enabled")
+        .eq("user_id", user.id)
+        .maybeSingle(),
+    ]);
+
+    if (history.error) {
+      console.error("Error fetching SOS history:", history.error);
+    } else {
+      setEvents((history.data || []) as SosEvent[]);
+    }
+    if (prefs.data) setAutoSos(prefs.data.auto_sos_enabled);
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [user]);
+
+  const toggleAutoSos = async (checked: boolean) => {
+    if (!user) return;
+
+    setAutoSos(checked);
+    const { error } = await supabase
+      .from("notification_preferences")
+      .upsert({ user_id: user.id, auto_sos_enabled: checked }, { onConflict: "user_id" });
+
+    if (error) {
+      setAutoSos(!checked);
+      toast({ title: "Error updating automatic SOS", description: error.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Siren className="w-5 h-5" />
+          SOS
+        </CardTitle>
+        <CardDescription>Raise an SOS from your dashboard; every alert and acknowledgement is logged here</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="auto_sos">Automatic SOS from devices</Label>
+            <p className="text-sm text-muted-foreground">
+              A critical reading from a paired device alerts your contacts after{" "}
+              {Math.round(AUTO_SOS_GRACE_SECONDS / 60)} minutes unless you cancel
+            </p>
+          </div>
+          <Switch id="auto_sos" checked={autoSos} onCheckedChange={toggleAutoSos} />
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No SOS raised yet</p>
+        ) : (
+          <div className="divide-y">
+            {events.map((event) => (
+              <div key={event.id} className="py-3 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium">
+                      {format(new Date(event.created_at), "PPp")} •{" "}
+                      {event.trigger_source === "device" ? "Raised by a device" : "Raised by you"}
+                    </p>
+                    {event.reason && <p className="text-sm text-muted-foreground">{event.reason}</p>}
+                    {event.message && <p className="text-sm text-muted-foreground">"{event.message}"</p>}
+                  </div>
+                  <Badge variant={STATUS_VARIANTS[event.status] ?? "outline"}>{event.status}</Badge>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {[...event.sos_event_log]
+                    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+                    .map((entry) => (
+                      <li key={entry.id} className="flex gap-3">
+                        <span className="text-muted-foreground shrink-0">{format(new Date(entry.created_at), "p")}</span>
+                        <span>{describeSosLogEntry(entry)}</span>
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
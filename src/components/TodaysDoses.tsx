@@ -0,0 +1,310 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, format, startOfDay, subDays } from "date-fns";
+import { Check, Clock, Pill, Plus, SkipForward, Undo2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import {
+  calculateAdherence,
+  doseKey,
+  expandSchedules,
+  statusForTakenDose,
+  type DoseRow,
+  type ScheduleRow,
+} from "@/lib/medicationSchedule";
+
+type Schedule = ScheduleRow & { medications: { name: string } | null };
+type Dose = DoseRow & { id: string };
+
+const STATUS_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  taken: { label: "Taken", variant: "default" },
+  late: { label: "Taken late", variant: "secondary" },
+  skipped: { label: "Skipped", variant: "outline" },
+};
+
+// Today's scheduled doses as a checklist, as-needed medications with a
+// "log dose" button, and adherence over the last 7 and 30 days.
+export const TodaysDoses = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [doses, setDoses] = useState<Dose[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (user) {
+      fetchDoses();
+    }
+  }, [user]);
+
+  // Keep "due" / "overdue" labels current while the dashboard stays open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const fetchDoses = async () => {
+    if (!user) return;
+    const since = subDays(startOfDay(new Date()), 30).toISOString();
+
+    const [schedulesResult, dosesResult] = await Promise.all([
+      supabase
+        .from("medication_schedules")
+        .select("*, medications (name)")
+        .eq("user_id", user.id),
+      supabase
+        .from("medication_doses")
+        .select("*")
+        .eq("user_id", user.id)
+        .or(`scheduled_for.gte.${since},taken_at.gte.${since}`),
+    ]);
+
+    if (schedulesResult.error || dosesResult.error) {
+      toast({
+        title: "Error loading doses",
+        description: (schedulesResult.error || dosesResult.error)?.message,
+        variant: "destructive",
+      });
+    } else {
+      setSchedules(schedulesResult.data || []);
+      setDoses(dosesResult.data || []);
+    }
+    setLoading(false);
+  };
+
+  const todayStart = startOfDay(now);
+  const todayKey = format(now, "yyyy-MM-dd");
+
+  const todaysSlots = useMemo(() => {
+    const dayStart = startOfDay(now);
+    return expandSchedules(schedules, dayStart, addDays(dayStart, 1));
+  }, [schedules, now]);
+
+  const loggedBySlot = useMemo(() => {
+    const map = new Map<string, Dose>();
+    doses.forEach((dose) => {
+      if (dose.scheduled_for) map.set(doseKey(dose.medication_id, dose.scheduled_for), dose);
+    });
+    return map;
+  }, [doses]);
+
+  const asNeeded = useMemo(
+    () =>
+      schedules.filter(
+        (s) => s.as_needed && s.start_date <= todayKey && (!s.end_date || s.end_date >= todayKey)
+      ),
+    [schedules, todayKey]
+  );
+
+  const adherence7 = useMemo(
+    () => calculateAdherence(schedules, doses, subDays(startOfDay(now), 6), now),
+    [schedules, doses, now]
+  );
+  const adherence30 = useMemo(
+    () => calculateAdherence(schedules, doses, subDays(startOfDay(now), 29), now),
+    [schedules, doses, now]
+  );
+
+  const medicationName = (medicationId: string) =>
+    schedules.find((s) => s.medication_id === medicationId)?.medications?.name ?? "Medication";
+
+  const logScheduledDose = async (slot: (typeof todaysSlots)[number], taken: boolean) => {
+    if (!user) return;
+    const takenAt = new Date();
+
+    const { error } = await supabase.from("medication_doses").upsert(
+      {
+        user_id: user.id,
+        medication_id: slot.medication_id,
+        schedule_id: slot.schedule_id,
+        scheduled_for: slot.scheduled_for,
+        taken_at: taken ? takenAt.toISOString() : null,
+        status: taken ? statusForTakenDose(new Date(slot.scheduled_for), takenAt) : "skipped",
+        dose: slot.dose,
+      },
+      { onConflict: "medication_id,scheduled_for" }
+    );
+
+    if (error) {
+      toast({ title: "Error logging dose", description: error.message, variant: "destructive" });
+    } else {
+      fetchDoses();
+    }
+  };
+
+  const undoDose = async (dose: Dose) => {
+    const { error } = await supabase.from("medication_doses").delete().eq("id", dose.id);
+    if (error) {
+      toast({ title: "Error undoing dose", description: error.message, variant: "destructive" });
+    } else {
+      fetchDoses();
+    }
+  };
+
+  const prnTakenToday = (schedule: Schedule) =>
+    doses.filter(
+      (d) =>
+        d.medication_id === schedule.medication_id &&
+        !d.scheduled_for &&
+        d.taken_at &&
+        new Date(d.taken_at) >= todayStart
+    ).length;
+
+  const logAsNeededDose = async (schedule: Schedule) => {
+    if (!user) return;
+    if (schedule.max_daily_doses && prnTakenToday(schedule) >= schedule.max_daily_doses) {
+      toast({
+        title: "Daily limit reached",
+        description: `${schedule.medications?.name ?? "This medication"} is limited to ${schedule.max_daily_doses} doses per day`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { error } = await supabase.from("medication_doses").insert({
+      user_id: user.id,
+      medication_id: schedule.medication_id,
+      schedule_id: schedule.id,
+      taken_at: new Date().toISOString(),
+      status: "taken",
+      dose: schedule.dose,
+    });
+
+    if (error) {
+      toast({ title: "Error logging dose", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Dose logged" });
+      fetchDoses();
+    }
+  };
+
+  if (loading) return null;
+
+  if (schedules.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Pill className="w-5 h-5" />
+            Today's Doses
+          </CardTitle>
+          <CardDescription>Add a schedule to a medication to get a daily checklist</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={() => navigate("/medications")}>
+            Manage medications
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Pill className="w-5 h-5" />
+              Today's Doses
+            </CardTitle>
+            <CardDescription>{format(now, "EEEE, MMM d")}</CardDescription>
+          </div>
+          <div className="grid grid-cols-2 gap-4 min-w-[220px]">
+            {[
+              { label: "7-day adherence", summary: adherence7 },
+              { label: "30-day adherence", summary: adherence30 },
+            ].map(({ label, summary }) => (
+              <div key={label}>
+                <p className="text-xs text-muted-foreground">{label}</p>
+                <p className="text-xl font-bold">{summary.percentage === null ? "—" : `${summary.percentage}%`}</p>
+                {summary.percentage !== null && <Progress value={summary.percentage} className="h-1.5 mt-1" />}
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {todaysSlots.length === 0 && asNeeded.length === 0 && (
+          <p className="text-center text-muted-foreground py-4">No doses scheduled today</p>
+        )}
+
+        {todaysSlots.map((slot) => {
+          const logged = loggedBySlot.get(doseKey(slot.medication_id, slot.scheduled_for));
+          const slotTime = new Date(slot.scheduled_for);
+          const overdue = !logged && now.getTime() > slotTime.getTime();
+
+          return (
+            <div
+              key={`${slot.medication_id}-${slot.scheduled_for}`}
+              className="p-4 border border-border rounded-lg flex items-center justify-between gap-4"
+            >
+              <div className="flex items-center gap-3">
+                <Clock className={`w-4 h-4 ${overdue ? "text-destructive" : "text-muted-foreground"}`} />
+                <div>
+                  <p className="font-semibold">
+                    {format(slotTime, "HH:mm")} · {medicationName(slot.medication_id)}
+                  </p>
+                  {slot.dose && <p className="text-sm text-muted-foreground">{slot.dose}</p>}
+                </div>
+              </div>
+              {logged ? (
+                <div className="flex items-center gap-2">
+                  <Badge variant={STATUS_BADGES[logged.status]?.variant ?? "outline"}>
+                    {STATUS_BADGES[logged.status]?.label ?? logged.status}
+                  </Badge>
+                  <Button variant="ghost" size="icon" onClick={() => undoDose(logged)} aria-label="Undo">
+                    <Undo2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  {overdue && <Badge variant="destructive">Overdue</Badge>}
+                  <Button size="sm" onClick={() => logScheduledDose(slot, true)}>
+                    <Check className="w-4 h-4 mr-1" />
+                    Take
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => logScheduledDose(slot, false)}>
+                    <SkipForward className="w-4 h-4 mr-1" />
+                    Skip
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {asNeeded.map((schedule) => {
+          const takenToday = prnTakenToday(schedule);
+          return (
+            <div key={schedule.id} className="p-4 border border-border rounded-lg flex items-center justify-between gap-4">
+              <div>
+                <p className="font-semibold">{schedule.medications?.name ?? "Medication"} (as needed)</p>
+                <p className="text-sm text-muted-foreground">
+                  {takenToday} taken today
+                  {schedule.max_daily_doses ? ` of max ${schedule.max_daily_doses}` : ""}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!!schedule.max_daily_doses && takenToday >= schedule.max_daily_doses}
+                onClick={() => logAsNeededDose(schedule)}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Log dose
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
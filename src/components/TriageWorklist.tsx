@@ -0,0 +1,329 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { STALE_VITALS_DAYS, type TriageItem, type TriageState } from "@/lib/triage";
+import { AlarmClock, CheckCircle2, ClipboardList, RefreshCw, RotateCcw, Search, TrendingDown, TrendingUp } from "lucide-react";
+
+const SNOOZE_OPTIONS = [
+  { label: "1 day", days: 1 },
+  { label: "3 days", days: 3 },
+  { label: "1 week", days: 7 },
+];
+
+type Filter = "alerts" | "risk" | "doses" | "stale";
+
+const FILTERS: { value: Filter; label: string; matches: (item: TriageItem) => boolean }[] = [
+  { value: "alerts", label: "Open alerts", matches: (item) => item.unacknowledgedAlerts > 0 },
+  { value: "risk", label: "High risk", matches: (item) => item.risk?.level === "high" || item.risk?.level === "very-high" },
+  { value: "doses", label: "Missed doses", matches: (item) => item.missedDoses > 0 },
+  {
+    value: "stale",
+    label: "No recent vitals",
+    matches: (item) => item.daysSinceVitals === null || item.daysSinceVitals > STALE_VITALS_DAYS,
+  },
+];
+
+const RISK_COLORS: Record<string, string> = {
+  low: "bg-green-100 text-green-800",
+  moderate: "bg-yellow-100 text-yellow-800",
+  high: "bg-orange-100 text-orange-800",
+  "very-high": "bg-red-100 text-red-800",
+};
+
+interface TriageWorklistProps {
+  doctorId: string;
+}
+
+// Ranked list of the doctor's patients from the triage-worklist function.
+// Snoozing and marking reviewed are stored per doctor in triage_states.
+export const TriageWorklist = ({ doctorId }: TriageWorklistProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [items, setItems] = useState<TriageItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [view, setView] = useState<TriageState | "all">("active");
+  const [filters, setFilters] = useState<Filter[]>([]);
+
+  const fetchWorklist = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.functions.invoke("triage-worklist");
+    setLoading(false);
+
+    if (error || data?.error) {
+      toast({
+        title: "Error loading worklist",
+        description: data?.error || error?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setItems(data.items || []);
+  };
+
+  useEffect(() => {
+    fetchWorklist();
+  }, [doctorId]);
+
+  const setState = async (item: TriageItem, changes: { snoozed_until: string | null; reviewed_at: string | null }) => {
+    const { error } = await supabase
+      .from("triage_states")
+      .upsert({ doctor_id: doctorId, patient_id: item.patientId, ...changes }, { onConflict: "doctor_id,patient_id" });
+
+    if (error) {
+      toast({ title: "Error updating worklist", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    const state: TriageState = changes.snoozed_until ? "snoozed" : changes.reviewed_at ? "reviewed" : "active";
+    setItems((current) =>
+      current.map((i) =>
+        i.patientId === item.patientId
+          ? { ...i, state, snoozedUntil: changes.snoozed_until, reviewedAt: changes.reviewed_at }
+          : i
+      )
+    );
+  };
+
+  const toggleFilter = (filter: Filter) =>
+    setFilters((current) => (current.includes(filter) ? current.filter((f) => f !== filter) : [...current, filter]));
+
+  const visible = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return items.filter(
+      (item) =>
+        (view === "all" || item.state === view) &&
+        (!term || item.healthId?.toLowerCase().includes(term)) &&
+        filters.every((filter) => FILTERS.find((f) => f.value === filter)!.matches(item))
+    );
+  }, [items, view, searchTerm, filters]);
+
+  const counts = useMemo(
+    () => ({
+      active: items.filter((i) => i.state === "active").length,
+      snoozed: items.filter((i) => i.state === "snoozed").length,
+      reviewed: items.filter((i) => i.state === "reviewed").length,
+    }),
+    [items]
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5 text-primary" />
+            Triage Worklist
+          </CardTitle>
+          <CardDescription>
+            Patients ranked by unacknowledged alerts, risk, missed medications and time since last vitals
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchWorklist} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by Health ID..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={view} onValueChange={(value) => setView(value as TriageState | "all")}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">To review ({counts.active})</SelectItem>
+              <SelectItem value="snoozed">Snoozed ({counts.snoozed})</SelectItem>
+              <SelectItem value="reviewed">Reviewed ({counts.reviewed})</SelectItem>
+              <SelectItem value="all">All ({items.length})</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {FILTERS.map((filter) => (
+            <Button
+              key={filter.value}
+              size="sm"
+              variant={filters.includes(filter.value) ? "default" : "outline"}
+              onClick={() => toggleFilter(filter.value)}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
+
+        {loading && items.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">Ranking patients...</p>
+        ) : visible.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            {items.length === 0 ? "Patients who grant you access will appear here" : "No patients match these filters"}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-3 font-medium">Patient</th>
+                  <th className="text-left p-3 font-medium">Alerts</th>
+                  <th className="text-left p-3 font-medium">Risk</th>
+                  <th className="text-left p-3 font-medium">Missed Doses</th>
+                  <th className="text-left p-3 font-medium">Last Vitals</th>
+                  <th className="text-right p-3 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((item) => (
+                  <tr key={item.patientId} className="border-t align-top">
+                    <td className="p-3">
+                      <p className="font-medium">{item.healthId || "No health profile"}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {item.reasons.length > 0 ? item.reasons.join(" • ") : "Nothing flagged"}
+                      </p>
+                      {item.state === "snoozed" && item.snoozedUntil && (
+                        <p className="text-xs text-muted-foreground">
+                          Snoozed until {new Date(item.snoozedUntil).toLocaleDateString()}
+                        </p>
+                      )}
+                      {item.state === "reviewed" && item.reviewedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Reviewed {formatDistanceToNow(new Date(item.reviewedAt), { addSuffix: true })}
+                        </p>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      {item.unacknowledgedAlerts > 0 ? (
+                        <Badge variant={item.criticalAlerts > 0 ? "destructive" : "secondary"}>
+                          {item.unacknowledgedAlerts} open
+                        </Badge>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      {item.risk ? (
+                        <div className="space-y-1">
+                          <Badge className={RISK_COLORS[item.risk.level]}>
+                            {item.risk.category} {item.risk.percentage}%
+                          </Badge>
+                          {item.riskChange !== null && item.riskChange !== 0 && (
+                            <p
+                              className={`text-xs flex items-center gap-1 ${
+                                item.riskChange > 0 ? "text-red-600" : "text-green-600"
+                              }`}
+                            >
+                              {item.riskChange > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                              {item.riskChange > 0 ? "+" : ""}
+                              {item.riskChange} since last visit
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      {item.adherencePercentage === null ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : (
+                        <>
+                          <p>{item.missedDoses}</p>
+                          <p className="text-xs text-muted-foreground">{item.adherencePercentage}% taken</p>
+                        </>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      {item.daysSinceVitals === null ? (
+                        <span className="text-muted-foreground">Never</span>
+                      ) : (
+                        <span className={item.daysSinceVitals > STALE_VITALS_DAYS ? "text-amber-600 font-medium" : ""}>
+                          {item.daysSinceVitals === 0 ? "Today" : `${item.daysSinceVitals}d ago`}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(`/doctor/patients/${item.patientId}/records`)}
+                        >
+                          Open
+                        </Button>
+                        {item.state === "active" ? (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Mark reviewed"
+                              onClick={() =>
+                                setState(item, { snoozed_until: null, reviewed_at: new Date().toISOString() })
+                              }
+                            >
+                              <CheckCircle2 className="h-4 w-4" />
+                            </Button>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" title="Snooze">
+                                  <AlarmClock className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {SNOOZE_OPTIONS.map((option) => (
+                                  <DropdownMenuItem
+                                    key={option.days}
+                                    onClick={() =>
+                                      setState(item, {
+                                        snoozed_until: addDays(new Date(), option.days).toISOString(),
+                                        reviewed_at: item.reviewedAt,
+                                      })
+                                    }
+                                  >
+                                    Snooze {option.label}
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Back to worklist"
+                            onClick={() => setState(item, { snoozed_until: null, reviewed_at: null })}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,29 @@
+import { Badge } from "@/components/ui/badge";
+import { BadgeCheck, ShieldAlert } from "lucide-react";
+import { doctorVerificationLabel } from "@/lib/doctorVerification";
+
+interface VerifiedBadgeProps {
+  status: string;
+  // Also label doctors who are not verified (patients only ever see those
+  // they already deal with)
+  showUnverified?: boolean;
+}
+
+export const VerifiedBadge = ({ status, showUnverified = false }: VerifiedBadgeProps) => {
+  if (status === "verified") {
+    return (
+      <Badge variant="outline" className="gap-1 border-green-200 bg-green-50 text-green-700">
+        <BadgeCheck className="h-3 w-3" />
+        Verified
+      </Badge>
+    );
+  }
+  if (!showUnverified) return null;
+
+  return (
+    <Badge variant="outline" className="gap-1 text-muted-foreground">
+      <ShieldAlert className="h-3 w-3" />
+      {doctorVerificationLabel(status)}
+    </Badge>
+  );
+};
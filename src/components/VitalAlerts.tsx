@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { BellRing, Check, CheckCheck } from "lucide-react";
+
+type VitalAlert = {
+  id: string;
+  title: string;
+  message: string;
+  severity: string;
+  status: string;
+  occurrences: number;
+  first_triggered_at: string;
+  last_triggered_at: string;
+  resolved_at: string | null;
+  resolution_note: string | null;
+};
+
+const RESOLVED_SHOWN = 5;
+
+interface VitalAlertsProps {
+  patientId: string;
+}
+
+// Alerts raised by the patient's vital sign rules, kept live over realtime.
+// Shown to the patient on Health Monitoring and to their doctors on Patient
+// Records; both can acknowledge and resolve.
+export const VitalAlerts = ({ patientId }: VitalAlertsProps) => {
+  const { toast } = useToast();
+  const [active, setActive] = useState<VitalAlert[]>([]);
+  const [resolved, setResolved] = useState<VitalAlert[]>([]);
+
+  const fetchAlerts = async () => {
+    const columns =
+      "id, title, message, severity, status, occurrences, first_triggered_at, last_triggered_at, resolved_at, resolution_note";
+
+    const [activeResult, resolvedResult] = await Promise.all([
+      supabase
+        .from("vital_alerts")
+        .select(columns)
+        .eq("patient_id", patientId)
+        .neq("status", "resolved")
+        .order("last_triggered_at", { ascending: false }),
+      supabase
+        .from("vital_alerts")
+        .select(columns)
+        .eq("patient_id", patientId)
+        .eq("status", "resolved")
+        .order("resolved_at", { ascending: false })
+        .limit(RESOLVED_SHOWN),
+    ]);
+
+    if (activeResult.error || resolvedResult.error) {
+      console.error("Error fetching vital alerts:", activeResult.error || resolvedResult.error);
+      return;
+    }
+    setActive(activeResult.data || []);
+    setResolved(resolvedResult.data || []);
+  };
+
+  useEffect(() => {
+    fetchAlerts();
+
+    const channel = supabase
+      .channel(`vital-alerts-${patientId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "vital_alerts", filter: `patient_id=eq.${patientId}` },
+        () => fetchAlerts()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [patientId]);
+
+  const setStatus = async (alert: VitalAlert, status: "acknowledged" | "resolved") => {
+    const { error } = await supabase.rpc("set_vital_alert_status", { _alert_id: alert.id, _status: status });
+    if (error) {
+      toast({ title: "Error updating alert", description: error.message, variant: "destructive" });
+    } else {
+      fetchAlerts();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          Vital Sign Alerts
+          {active.length > 0 && <Badge variant="destructive">{active.length}</Badge>}
+        </CardTitle>
+        <CardDescription>Raised when a new reading crosses an alert rule</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {active.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active alerts</p>
+        ) : (
+          <div className="divide-y">
+            {active.map((alert) => (
+              <div key={alert.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{alert.title}</p>
+                    <Badge variant={alert.severity === "critical" ? "destructive" : "secondary"}>
+                      {alert.severity}
+                    </Badge>
+                    {alert.status === "acknowledged" && <Badge variant="outline">acknowledged</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{alert.message}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(alert.last_triggered_at), { addSuffix: true })}
+                    {alert.occurrences > 1 &&
+                      ` • ${alert.occurrences} times since ${new Date(alert.first_triggered_at).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {alert.status === "open" && (
+                    <Button variant="outline" size="sm" onClick={() => setStatus(alert, "acknowledged")}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Acknowledge
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => setStatus(alert, "resolved")}>
+                    <CheckCheck className="h-4 w-4 mr-1" />
+                    Resolve
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {resolved.length > 0 && (
+          <div className="pt-4 border-t space-y-2">
+            <p className="text-sm font-medium">Recently resolved</p>
+            {resolved.map((alert) => (
+              <p key={alert.id} className="text-sm text-muted-foreground">
+                {alert.title} • resolved{" "}
+                {alert.resolved_at && formatDistanceToNow(new Date(alert.resolved_at), { addSuffix: true })}
+                {alert.resolution_note && ` • ${alert.resolution_note}`}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -9,17 +9,30 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { Activity, Heart, Droplet, Weight, Thermometer, Wind } from "lucide-react";
+import {
+  validateVitals,
+  type GlucoseUnit,
+  type TemperatureUnit,
+  type WeightUnit,
+} from "@/lib/vitalValidation";
+
+// Empty number inputs register as NaN; treat them as "not measured"
+const optionalNumber = z.preprocess(
+  (value) => (typeof value === "number" && Number.isNaN(value) ? undefined : value),
+  z.number().optional()
+);
 
 const vitalSignsSchema = z.object({
-  blood_pressure_systolic: z.number().min(70).max(200).optional().or(z.literal("")),
-  blood_pressure_diastolic: z.number().min(40).max(130).optional().or(z.literal("")),
-  heart_rate: z.number().min(40).max(200).optional().or(z.literal("")),
-  blood_glucose: z.number().min(20).max(600).optional().or(z.literal("")),
-  weight: z.number().min(20).max(300).optional().or(z.literal("")),
-  temperature: z.number().min(95).max(106).optional().or(z.literal("")),
-  oxygen_saturation: z.number().min(70).max(100).optional().or(z.literal("")),
+  blood_pressure_systolic: optionalNumber,
+  blood_pressure_diastolic: optionalNumber,
+  heart_rate: optionalNumber,
+  blood_glucose: optionalNumber,
+  weight: optionalNumber,
+  temperature: optionalNumber,
+  oxygen_saturation: optionalNumber,
   notes: z.string().optional(),
 });
 
@@ -28,25 +41,49 @@ type VitalSignsFormData = z.infer<typeof vitalSignsSchema>;
 export const VitalSignsForm = ({ onSuccess }: { onSuccess?: () => void }) => {
   const { user } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [rejections, setRejections] = useState<string[]>([]);
+  const [temperatureUnit, setTemperatureUnit] = useState<TemperatureUnit>("C");
+  const [glucoseUnit, setGlucoseUnit] = useState<GlucoseUnit>("mg/dL");
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>("kg");
 
-  const { register, handleSubmit, reset, formState: { errors } } = useForm<VitalSignsFormData>({
+  const { register, handleSubmit, reset } = useForm<VitalSignsFormData>({
     resolver: zodResolver(vitalSignsSchema),
   });
 
   const onSubmit = async (data: VitalSignsFormData) => {
     if (!user) return;
 
+    const validation = validateVitals({
+      blood_pressure_systolic: data.blood_pressure_systolic,
+      blood_pressure_diastolic: data.blood_pressure_diastolic,
+      heart_rate: data.heart_rate,
+      blood_glucose: data.blood_glucose,
+      weight: data.weight,
+      temperature: data.temperature,
+      oxygen_saturation: data.oxygen_saturation,
+      temperature_unit: temperatureUnit,
+      blood_glucose_unit: glucoseUnit,
+      weight_unit: weightUnit,
+    });
+
+    setRejections(validation.errors);
+    if (validation.errors.length > 0) {
+      toast.error("Some readings are not valid");
+      return;
+    }
+
     setIsSubmitting(true);
 
+    const { values, flags } = validation;
     const vitalData = {
       user_id: user.id,
-      blood_pressure_systolic: data.blood_pressure_systolic || null,
-      blood_pressure_diastolic: data.blood_pressure_diastolic || null,
-      heart_rate: data.heart_rate || null,
-      blood_glucose: data.blood_glucose || null,
-      weight: data.weight || null,
-      temperature: data.temperature || null,
-      oxygen_saturation: data.oxygen_saturation || null,
+      blood_pressure_systolic: values.blood_pressure_systolic ?? null,
+      blood_pressure_diastolic: values.blood_pressure_diastolic ?? null,
+      heart_rate: values.heart_rate ?? null,
+      blood_glucose: values.blood_glucose ?? null,
+      weight: values.weight ?? null,
+      temperature: values.temperature ?? null,
+      oxygen_saturation: values.oxygen_saturation ?? null,
       notes: data.notes || null,
     };
 
@@ -55,6 +92,12 @@ export const VitalSignsForm = ({ onSuccess }: { onSuccess?: () => void }) => {
     if (error) {
       toast.error("Failed to record vital signs");
       console.error(error);
+    } else if (flags.length > 0) {
+      toast.warning("Vital signs recorded but flagged for review", {
+        description: `${flags.join(". ")}. Flagged readings are not used in predictions.`,
+      });
+      reset();
+      onSuccess?.();
     } else {
       toast.success("Vital signs recorded successfully");
       reset();
@@ -64,6 +107,21 @@ export const VitalSignsForm = ({ onSuccess }: { onSuccess?: () => void }) => {
     setIsSubmitting(false);
   };
 
+  const unitSelect = <T extends string>(value: T, onChange: (value: T) => void, options: T[]) => (
+    <Select value={value} onValueChange={(v) => onChange(v as T)}>
+      <SelectTrigger className="w-28">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>
+            {option === "C" || option === "F" ? `°${option}` : option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   return (
     <Card>
       <CardHeader>
@@ -91,9 +149,6 @@ export const VitalSignsForm = ({ onSuccess }: { onSuccess?: () => void }) => {
                     placeholder="Systolic"
                     {...register("blood_pressure_systolic", { valueAsNumber: true })}
                   />
-                  {errors.blood_pressure_systolic && (
-                    <p className="text-xs text-destructive mt-1">70-200 range</p>
-                  )}
                 </div>
                 <span className="self-center">/</span>
                 <div className="flex-1">
@@ -102,9 +157,6 @@ export const VitalSignsForm = ({ onSuccess }: { onSuccess?: () => void }) => {
                     placeholder="Diastolic"
                     {...register("blood_pressure_diastolic", { valueAsNumber: true })}
                   />
-                  {errors.blood_pressure_diastolic && (
-                    <p className="text-xs text-destructive mt-1">40-130 range</p>
-                  )}
                 </div>
               </div>
             </div>
@@ -120,59 +172,57 @@ export const VitalSignsForm = ({ onSuccess }: { onSuccess?: () => void }) => {
                 placeholder="e.g., 72"
                 {...register("heart_rate", { valueAsNumber: true })}
               />
-              {errors.heart_rate && (
-                <p className="text-xs text-destructive">40-200 range</p>
-              )}
             </div>
 
             {/* Blood Glucose */}
             <div className="space-y-2">
               <Label className="flex items-center gap-2">
                 <Droplet className="h-4 w-4 text-blue-500" />
-                Blood Glucose (mg/dL)
+                Blood Glucose
               </Label>
-              <Input
-                type="number"
-                placeholder="e.g., 105"
-                {...register("blood_glucose", { valueAsNumber: true })}
-              />
-              {errors.blood_glucose && (
-                <p className="text-xs text-destructive">20-600 range</p>
-              )}
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  step="0.1"
+                  placeholder={glucoseUnit === "mg/dL" ? "e.g., 105" : "e.g., 5.8"}
+                  {...register("blood_glucose", { valueAsNumber: true })}
+                />
+                {unitSelect<GlucoseUnit>(glucoseUnit, setGlucoseUnit, ["mg/dL", "mmol/L"])}
+              </div>
             </div>
 
             {/* Weight */}
             <div className="space-y-2">
               <Label className="flex items-center gap-2">
                 <Weight className="h-4 w-4 text-amber-500" />
-                Weight (kg)
+                Weight
               </Label>
-              <Input
-                type="number"
-                step="0.1"
-                placeholder="e.g., 65.5"
-                {...register("weight", { valueAsNumber: true })}
-              />
-              {errors.weight && (
-                <p className="text-xs text-destructive">20-300 range</p>
-              )}
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  step="0.1"
+                  placeholder={weightUnit === "kg" ? "e.g., 65.5" : "e.g., 144"}
+                  {...register("weight", { valueAsNumber: true })}
+                />
+                {unitSelect<WeightUnit>(weightUnit, setWeightUnit, ["kg", "lb"])}
+              </div>
             </div>
 
             {/* Temperature */}
             <div className="space-y-2">
               <Label className="flex items-center gap-2">
                 <Thermometer className="h-4 w-4 text-orange-500" />
-                Temperature (°F)
+                Temperature
               </Label>
-              <Input
-                type="number"
-                step="0.1"
-                placeholder="e.g., 98.6"
-                {...register("temperature", { valueAsNumber: true })}
-              />
-              {errors.temperature && (
-                <p className="text-xs text-destructive">95-106 range</p>
-              )}
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  step="0.1"
+                  placeholder={temperatureUnit === "C" ? "e.g., 36.8" : "e.g., 98.6"}
+                  {...register("temperature", { valueAsNumber: true })}
+                />
+                {unitSelect<TemperatureUnit>(temperatureUnit, setTemperatureUnit, ["C", "F"])}
+              </div>
             </div>
 
             {/* Oxygen Saturation */}
@@ -186,9 +236,6 @@ export const VitalSignsForm = ({ onSuccess }: { onSuccess?: () => void }) => {
                 placeholder="e.g., 98"
                 {...register("oxygen_saturation", { valueAsNumber: true })}
               />
-              {errors.oxygen_saturation && (
-                <p className="text-xs text-destructive">70-100 range</p>
-              )}
             </div>
           </div>
 
@@ -202,6 +249,14 @@ export const VitalSignsForm = ({ onSuccess }: { onSuccess?: () => void }) => {
             />
           </div>
 
+          {rejections.length > 0 && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 space-y-1">
+              {rejections.map((reason) => (
+                <p key={reason} className="text-sm text-destructive">{reason}</p>
+              ))}
+            </div>
+          )}
+
           <Button type="submit" disabled={isSubmitting} className="w-full">
             {isSubmitting ? "Recording..." : "Record Vital Signs"}
           </Button>
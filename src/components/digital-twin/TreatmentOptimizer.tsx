@@ -19,6 +19,7 @@ interface TreatmentOption {
   expectedOutcome: number;
   riskReduction: number;
   adherenceRequired: number;
+  expectedAdherence?: number;
   sideEffectRisk: number;
   qValue: number;
   recommended: boolean;
@@ -27,11 +28,14 @@ interface TreatmentOption {
 interface TreatmentOptimizerProps {
   treatments: TreatmentOption[];
   policyExplanation: string;
+  // Logged medication adherence over the last 30 days, when the patient has schedules
+  observedAdherence?: number | null;
 }
 
 export const TreatmentOptimizer = ({
   treatments,
   policyExplanation,
+  observedAdherence,
 }: TreatmentOptimizerProps) => {
   const recommendedTreatments = treatments.filter(t => t.recommended);
   const otherTreatments = treatments.filter(t => !t.recommended);
@@ -98,7 +102,10 @@ export const TreatmentOptimizer = ({
             <span>Adherence Difficulty</span>
           </div>
           <Progress value={treatment.adherenceRequired} className="h-1.5 mt-1" />
-          <span className="text-[10px] text-muted-foreground">{treatment.adherenceRequired}%</span>
+          <span className="text-[10px] text-muted-foreground">
+            {treatment.adherenceRequired}%
+            {treatment.expectedAdherence !== undefined && ` · ${treatment.expectedAdherence}% expected adherence`}
+          </span>
         </div>
 
         <div>
@@ -134,6 +141,11 @@ export const TreatmentOptimizer = ({
         <CardDescription>
           Treatments ranked by reinforcement learning Q-values for optimal long-term outcomes
         </CardDescription>
+        {observedAdherence !== undefined && observedAdherence !== null && (
+          <Badge variant="secondary" className="w-fit">
+            Your medication adherence: {observedAdherence}% (30 days)
+          </Badge>
+        )}
       </CardHeader>
       <CardContent className="space-y-4">
         <div>
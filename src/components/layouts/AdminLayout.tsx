@@ -0,0 +1,44 @@
+import { BaseLayout } from "./BaseLayout";
+import { SidebarGroup, SidebarGroupContent, SidebarMenu, SidebarMenuItem, SidebarMenuButton } from "@/components/ui/sidebar";
+import { BadgeCheck } from "lucide-react";
+import { useLocation } from "react-router-dom";
+import { NavLink } from "@/components/NavLink";
+
+const adminNavItems = [
+  { to: "/admin/verifications", icon: BadgeCheck, label: "Doctor Verification" },
+];
+
+interface AdminLayoutProps {
+  children: React.ReactNode;
+}
+
+export const AdminLayout = ({ children }: AdminLayoutProps) => {
+  const location = useLocation();
+
+  const navigation = (
+    <SidebarGroup>
+      <SidebarGroupContent>
+        <SidebarMenu>
+          {adminNavItems.map((item) => {
+            const isActive = location.pathname === item.to;
+            return (
+              <SidebarMenuItem key={item.to}>
+                <SidebarMenuButton asChild isActive={isActive}>
+                  <NavLink to={item.to} icon={<item.icon className="h-4 w-4" />}>
+                    {item.label}
+                  </NavLink>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            );
+          })}
+        </SidebarMenu>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+
+  return (
+    <BaseLayout navigation={navigation} roleLabel="Admin">
+      {children}
+    </BaseLayout>
+  );
+};
@@ -13,7 +13,8 @@ import {
   User,
   Video,
   Dna,
-  Sparkles
+  Sparkles,
+  Eye
 } from "lucide-react";
 import { useLocation } from "react-router-dom";
 import { NavLink } from "@/components/NavLink";
@@ -28,6 +29,7 @@ const patientNavItems = [
   { to: "/patient/appointments", icon: Calendar, label: "Appointments" },
   { to: "/patient/video-consultation", icon: Video, label: "Video Consult" },
   { to: "/patient/my-doctors", icon: User, label: "My Doctors" },
+  { to: "/patient/access-log", icon: Eye, label: "Data Access" },
   { to: "/patient/messages", icon: MessageSquare, label: "Messages" },
   { to: "/health-chat", icon: MessageSquare, label: "AI Assistant" },
   { to: "/health-predictions", icon: TrendingUp, label: "Predictions" },
@@ -14,6 +14,90 @@ export type Database = {
   }
   public: {
     Tables: {
+      access_consent_events: {
+        Row: {
+          actor: string
+          created_at: string
+          doctor_id: string
+          event: string
+          expires_at: string | null
+          id: string
+          note: string | null
+          patient_id: string | null
+          request_id: string | null
+          scopes: string[]
+        }
+        Insert: {
+          actor: string
+          created_at?: string
+          doctor_id: string
+          event: string
+          expires_at?: string | null
+          id?: string
+          note?: string | null
+          patient_id?: string | null
+          request_id?: string | null
+          scopes?: string[]
+        }
+        Update: {
+          actor?: string
+          created_at?: string
+          doctor_id?: string
+          event?: string
+          expires_at?: string | null
+          id?: string
+          note?: string | null
+          patient_id?: string | null
+          request_id?: string | null
+          scopes?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_consent_events_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_consent_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "doctor_access_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      account_deletion_requests: {
+        Row: {
+          cancelled_at: string | null
+          completed_at: string | null
+          id: string
+          requested_at: string
+          scheduled_for: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          completed_at?: string | null
+          id?: string
+          requested_at?: string
+          scheduled_for: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          completed_at?: string | null
+          id?: string
+          requested_at?: string
+          scheduled_for?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       allergies: {
         Row: {
           allergen: string
@@ -44,50 +128,232 @@ export type Database = {
         }
         Relationships: []
       }
+      appointment_proposals: {
+        Row: {
+          appointment_id: string
+          created_at: string
+          decline_reason: string | null
+          doctor_id: string
+          id: string
+          message: string | null
+          new_appointment_id: string | null
+          proposed_time: string
+          responded_at: string | null
+          status: string
+        }
+        Insert: {
+          appointment_id: string
+          created_at?: string
+          decline_reason?: string | null
+          doctor_id: string
+          id?: string
+          message?: string | null
+          new_appointment_id?: string | null
+          proposed_time: string
+          responded_at?: string | null
+          status?: string
+        }
+        Update: {
+          appointment_id?: string
+          created_at?: string
+          decline_reason?: string | null
+          doctor_id?: string
+          id?: string
+          message?: string | null
+          new_appointment_id?: string | null
+          proposed_time?: string
+          responded_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_proposals_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_proposals_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_proposals_new_appointment_id_fkey"
+            columns: ["new_appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_series: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          duration: number | null
+          first_start: string
+          id: string
+          interval_weeks: number
+          occurrence_count: number | null
+          patient_id: string
+          reason: string | null
+          rrule: string
+          status: string
+          type: string
+          until_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          duration?: number | null
+          first_start: string
+          id?: string
+          interval_weeks: number
+          occurrence_count?: number | null
+          patient_id: string
+          reason?: string | null
+          rrule: string
+          status?: string
+          type?: string
+          until_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          duration?: number | null
+          first_start?: string
+          id?: string
+          interval_weeks?: number
+          occurrence_count?: number | null
+          patient_id?: string
+          reason?: string | null
+          rrule?: string
+          status?: string
+          type?: string
+          until_date?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_series_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_status_changes: {
+        Row: {
+          actor_role: string
+          appointment_id: string
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          reason: string | null
+          to_status: string
+        }
+        Insert: {
+          actor_role: string
+          appointment_id: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status: string
+        }
+        Update: {
+          actor_role?: string
+          appointment_id?: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_status_changes_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
+          anonymised_at: string | null
           created_at: string | null
           doctor_id: string
           duration: number | null
+          ends_at: string
+          ics_sequence: number
           id: string
+          legacy_overlap: boolean
           notes: string | null
-          patient_id: string
+          patient_id: string | null
           prescription: string | null
           reason: string | null
+          rescheduled_from: string | null
           scheduled_time: string
-          status: string | null
+          series_id: string | null
+          series_index: number | null
+          status: string
           type: string | null
           updated_at: string | null
           video_room_name: string | null
           video_room_url: string | null
         }
         Insert: {
+          anonymised_at?: string | null
           created_at?: string | null
           doctor_id: string
           duration?: number | null
+          ends_at?: string
+          ics_sequence?: number
           id?: string
+          legacy_overlap?: boolean
           notes?: string | null
-          patient_id: string
+          patient_id?: string | null
           prescription?: string | null
           reason?: string | null
+          rescheduled_from?: string | null
           scheduled_time: string
-          status?: string | null
+          series_id?: string | null
+          series_index?: number | null
+          status?: string
           type?: string | null
           updated_at?: string | null
           video_room_name?: string | null
           video_room_url?: string | null
         }
         Update: {
+          anonymised_at?: string | null
           created_at?: string | null
           doctor_id?: string
           duration?: number | null
+          ends_at?: string
+          ics_sequence?: number
           id?: string
+          legacy_overlap?: boolean
           notes?: string | null
-          patient_id?: string
+          patient_id?: string | null
           prescription?: string | null
           reason?: string | null
+          rescheduled_from?: string | null
           scheduled_time?: string
-          status?: string | null
+          series_id?: string | null
+          series_index?: number | null
+          status?: string
           type?: string | null
           updated_at?: string | null
           video_room_name?: string | null
@@ -101,364 +367,1671 @@ export type Database = {
             referencedRelation: "doctors"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "appointments_rescheduled_from_fkey"
+            columns: ["rescheduled_from"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_series"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      chat_messages: {
+      calendar_feeds: {
         Row: {
-          content: string
           created_at: string
           id: string
-          role: string
+          label: string | null
+          last_accessed_at: string | null
+          revoked_at: string | null
+          status: string
+          token_hash: string
           user_id: string
         }
         Insert: {
-          content: string
           created_at?: string
           id?: string
-          role: string
+          label?: string | null
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          status?: string
+          token_hash: string
           user_id: string
         }
         Update: {
-          content?: string
           created_at?: string
           id?: string
-          role?: string
+          label?: string | null
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          status?: string
+          token_hash?: string
           user_id?: string
         }
         Relationships: []
       }
-      doctors: {
+      chat_messages: {
         Row: {
-          bio: string | null
-          clinic_address: string | null
-          clinic_name: string | null
-          consultation_fee: number | null
+          content: string
           created_at: string
-          email: string | null
-          full_name: string
           id: string
-          license_number: string | null
-          phone: string | null
-          rating: number | null
-          specialization: string | null
+          role: string
           user_id: string
-          years_experience: number | null
         }
         Insert: {
-          bio?: string | null
-          clinic_address?: string | null
-          clinic_name?: string | null
-          consultation_fee?: number | null
+          content: string
           created_at?: string
-          email?: string | null
-          full_name: string
           id?: string
-          license_number?: string | null
-          phone?: string | null
-          rating?: number | null
-          specialization?: string | null
+          role: string
           user_id: string
-          years_experience?: number | null
         }
         Update: {
-          bio?: string | null
-          clinic_address?: string | null
-          clinic_name?: string | null
-          consultation_fee?: number | null
+          content?: string
           created_at?: string
-          email?: string | null
-          full_name?: string
           id?: string
-          license_number?: string | null
-          phone?: string | null
-          rating?: number | null
-          specialization?: string | null
+          role?: string
           user_id?: string
-          years_experience?: number | null
         }
         Relationships: []
       }
-      emergency_contacts: {
+      data_access_log: {
         Row: {
-          created_at: string | null
-          email: string | null
+          accessor: string
+          accessor_name: string | null
+          accessor_user_id: string | null
+          categories: string[]
+          created_at: string
+          doctor_id: string | null
           id: string
-          is_primary: boolean | null
-          name: string
-          phone: string
-          relationship: string | null
-          user_id: string
+          patient_id: string
+          source: string
         }
         Insert: {
-          created_at?: string | null
-          email?: string | null
+          accessor: string
+          accessor_name?: string | null
+          accessor_user_id?: string | null
+          categories: string[]
+          created_at?: string
+          doctor_id?: string | null
           id?: string
-          is_primary?: boolean | null
-          name: string
-          phone: string
-          relationship?: string | null
-          user_id: string
+          patient_id: string
+          source: string
         }
         Update: {
-          created_at?: string | null
-          email?: string | null
+          accessor?: string
+          accessor_name?: string | null
+          accessor_user_id?: string | null
+          categories?: string[]
+          created_at?: string
+          doctor_id?: string | null
           id?: string
-          is_primary?: boolean | null
-          name?: string
-          phone?: string
-          relationship?: string | null
-          user_id?: string
+          patient_id?: string
+          source?: string
         }
         Relationships: []
       }
-      health_profiles: {
+      device_nonces: {
         Row: {
-          blood_type: string | null
-          created_at: string | null
-          date_of_birth: string | null
-          gender: string | null
-          health_id: string
-          height: number | null
-          id: string
-          updated_at: string | null
-          user_id: string
-          weight: number | null
+          created_at: string
+          device_id: string
+          nonce: string
         }
         Insert: {
-          blood_type?: string | null
-          created_at?: string | null
-          date_of_birth?: string | null
-          gender?: string | null
+          created_at?: string
+          device_id: string
+          nonce: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          nonce?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_nonces_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["device_id"]
+          },
+        ]
+      }
+      devices: {
+        Row: {
+          created_at: string
+          device_id: string
+          device_type: string
+          id: string
+          last_seen_at: string | null
+          name: string | null
+          revoked_at: string | null
+          secret: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          device_type: string
+          id?: string
+          last_seen_at?: string | null
+          name?: string | null
+          revoked_at?: string | null
+          secret: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          device_type?: string
+          id?: string
+          last_seen_at?: string | null
+          name?: string | null
+          revoked_at?: string | null
+          secret?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      doctor_access_requests: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          expires_at: string | null
+          health_id: string
+          id: string
+          message: string | null
+          patient_id: string | null
+          responded_at: string | null
+          scopes: string[]
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          expires_at?: string | null
+          health_id: string
+          id?: string
+          message?: string | null
+          patient_id?: string | null
+          responded_at?: string | null
+          scopes: string[]
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          expires_at?: string | null
+          health_id?: string
+          id?: string
+          message?: string | null
+          patient_id?: string | null
+          responded_at?: string | null
+          scopes?: string[]
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_access_requests_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_appointment_types: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          duration_minutes: number
+          id: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          duration_minutes: number
+          id?: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          duration_minutes?: number
+          id?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_appointment_types_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_breaks: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          end_time: string
+          id: string
+          label: string | null
+          start_time: string
+          weekday: number | null
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          end_time: string
+          id?: string
+          label?: string | null
+          start_time: string
+          weekday?: number | null
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          end_time?: string
+          id?: string
+          label?: string | null
+          start_time?: string
+          weekday?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_breaks_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_time_off: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          ends_at: string
+          id: string
+          reason: string | null
+          starts_at: string
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          ends_at: string
+          id?: string
+          reason?: string | null
+          starts_at: string
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          ends_at?: string
+          id?: string
+          reason?: string | null
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_time_off_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_verification_documents: {
+        Row: {
+          content_type: string | null
+          doctor_id: string
+          document_type: string
+          file_name: string
+          file_path: string
+          id: string
+          size_bytes: number | null
+          uploaded_at: string
+        }
+        Insert: {
+          content_type?: string | null
+          doctor_id: string
+          document_type: string
+          file_name: string
+          file_path: string
+          id?: string
+          size_bytes?: number | null
+          uploaded_at?: string
+        }
+        Update: {
+          content_type?: string | null
+          doctor_id?: string
+          document_type?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          size_bytes?: number | null
+          uploaded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_verification_documents_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_working_hours: {
+        Row: {
+          created_at: string
+          doctor_id: string
+          end_time: string
+          id: string
+          start_time: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string
+          doctor_id: string
+          end_time: string
+          id?: string
+          start_time: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string
+          doctor_id?: string
+          end_time?: string
+          id?: string
+          start_time?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_working_hours_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctors: {
+        Row: {
+          bio: string | null
+          cancellation_window_hours: number
+          clinic_address: string | null
+          clinic_name: string | null
+          consultation_fee: number | null
+          created_at: string
+          email: string | null
+          full_name: string
+          id: string
+          license_number: string | null
+          phone: string | null
+          rating: number | null
+          specialization: string | null
+          timezone: string
+          user_id: string
+          verification_rejection_reason: string | null
+          verification_reviewed_at: string | null
+          verification_reviewed_by: string | null
+          verification_status: string
+          verification_submitted_at: string | null
+          years_experience: number | null
+        }
+        Insert: {
+          bio?: string | null
+          cancellation_window_hours?: number
+          clinic_address?: string | null
+          clinic_name?: string | null
+          consultation_fee?: number | null
+          created_at?: string
+          email?: string | null
+          full_name: string
+          id?: string
+          license_number?: string | null
+          phone?: string | null
+          rating?: number | null
+          specialization?: string | null
+          timezone?: string
+          user_id: string
+          verification_rejection_reason?: string | null
+          verification_reviewed_at?: string | null
+          verification_reviewed_by?: string | null
+          verification_status?: string
+          verification_submitted_at?: string | null
+          years_experience?: number | null
+        }
+        Update: {
+          bio?: string | null
+          cancellation_window_hours?: number
+          clinic_address?: string | null
+          clinic_name?: string | null
+          consultation_fee?: number | null
+          created_at?: string
+          email?: string | null
+          full_name?: string
+          id?: string
+          license_number?: string | null
+          phone?: string | null
+          rating?: number | null
+          specialization?: string | null
+          timezone?: string
+          user_id?: string
+          verification_rejection_reason?: string | null
+          verification_reviewed_at?: string | null
+          verification_reviewed_by?: string | null
+          verification_status?: string
+          verification_submitted_at?: string | null
+          years_experience?: number | null
+        }
+        Relationships: []
+      }
+      emergency_contacts: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          id: string
+          is_primary: boolean | null
+          name: string
+          phone: string
+          relationship: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          is_primary?: boolean | null
+          name: string
+          phone: string
+          relationship?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          is_primary?: boolean | null
+          name?: string
+          phone?: string
+          relationship?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      health_card_links: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          expires_at: string | null
+          fields: string[]
+          id: string
+          pin_hash: string | null
+          rotated_at: string
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          expires_at?: string | null
+          fields?: string[]
+          id?: string
+          pin_hash?: string | null
+          rotated_at?: string
+          token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          expires_at?: string | null
+          fields?: string[]
+          id?: string
+          pin_hash?: string | null
+          rotated_at?: string
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      health_card_pin_attempts: {
+        Row: {
+          attempts: number
+          link_id: string
+          window_ends_at: string
+        }
+        Insert: {
+          attempts?: number
+          link_id: string
+          window_ends_at: string
+        }
+        Update: {
+          attempts?: number
+          link_id?: string
+          window_ends_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "health_card_pin_attempts_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: true
+            referencedRelation: "health_card_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      health_card_scans: {
+        Row: {
+          country: string | null
+          id: string
+          ip_prefix: string | null
+          link_id: string
+          outcome: string
+          scanned_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          country?: string | null
+          id?: string
+          ip_prefix?: string | null
+          link_id: string
+          outcome: string
+          scanned_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          country?: string | null
+          id?: string
+          ip_prefix?: string | null
+          link_id?: string
+          outcome?: string
+          scanned_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "health_card_scans_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: false
+            referencedRelation: "health_card_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      health_profiles: {
+        Row: {
+          blood_type: string | null
+          created_at: string | null
+          date_of_birth: string | null
+          gender: string | null
+          health_id: string
+          height: number | null
+          id: string
+          updated_at: string | null
+          user_id: string
+          weight: number | null
+        }
+        Insert: {
+          blood_type?: string | null
+          created_at?: string | null
+          date_of_birth?: string | null
+          gender?: string | null
           health_id: string
           height?: number | null
           id?: string
-          updated_at?: string | null
+          updated_at?: string | null
+          user_id: string
+          weight?: number | null
+        }
+        Update: {
+          blood_type?: string | null
+          created_at?: string | null
+          date_of_birth?: string | null
+          gender?: string | null
+          health_id?: string
+          height?: number | null
+          id?: string
+          updated_at?: string | null
+          user_id?: string
+          weight?: number | null
+        }
+        Relationships: []
+      }
+      medication_doses: {
+        Row: {
+          created_at: string
+          dose: string | null
+          id: string
+          medication_id: string
+          notes: string | null
+          schedule_id: string | null
+          scheduled_for: string | null
+          status: string
+          taken_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dose?: string | null
+          id?: string
+          medication_id: string
+          notes?: string | null
+          schedule_id?: string | null
+          scheduled_for?: string | null
+          status: string
+          taken_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dose?: string | null
+          id?: string
+          medication_id?: string
+          notes?: string | null
+          schedule_id?: string | null
+          scheduled_for?: string | null
+          status?: string
+          taken_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medication_doses_medication_id_fkey"
+            columns: ["medication_id"]
+            isOneToOne: false
+            referencedRelation: "medications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medication_doses_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "medication_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medication_schedules: {
+        Row: {
+          as_needed: boolean
+          created_at: string
+          days_of_week: number[] | null
+          dose: string | null
+          end_date: string | null
+          id: string
+          max_daily_doses: number | null
+          medication_id: string
+          start_date: string
+          times_of_day: string[]
+          timezone: string
+          user_id: string
+        }
+        Insert: {
+          as_needed?: boolean
+          created_at?: string
+          days_of_week?: number[] | null
+          dose?: string | null
+          end_date?: string | null
+          id?: string
+          max_daily_doses?: number | null
+          medication_id: string
+          start_date?: string
+          times_of_day?: string[]
+          timezone?: string
+          user_id: string
+        }
+        Update: {
+          as_needed?: boolean
+          created_at?: string
+          days_of_week?: number[] | null
+          dose?: string | null
+          end_date?: string | null
+          id?: string
+          max_daily_doses?: number | null
+          medication_id?: string
+          start_date?: string
+          times_of_day?: string[]
+          timezone?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medication_schedules_medication_id_fkey"
+            columns: ["medication_id"]
+            isOneToOne: false
+            referencedRelation: "medications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medications: {
+        Row: {
+          appointment_id: string | null
+          created_at: string | null
+          doctor_id: string | null
+          dosage: string | null
+          end_date: string | null
+          frequency: string | null
+          id: string
+          name: string
+          notes: string | null
+          prescribing_doctor: string | null
+          prescription_id: string | null
+          start_date: string | null
+          user_id: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          created_at?: string | null
+          doctor_id?: string | null
+          dosage?: string | null
+          end_date?: string | null
+          frequency?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          prescribing_doctor?: string | null
+          prescription_id?: string | null
+          start_date?: string | null
+          user_id: string
+        }
+        Update: {
+          appointment_id?: string | null
+          created_at?: string | null
+          doctor_id?: string | null
+          dosage?: string | null
+          end_date?: string | null
+          frequency?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          prescribing_doctor?: string | null
+          prescription_id?: string | null
+          start_date?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medications_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medications_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medications_prescription_id_fkey"
+            columns: ["prescription_id"]
+            isOneToOne: false
+            referencedRelation: "prescriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menstrual_cycles: {
+        Row: {
+          created_at: string
+          cycle_end_date: string | null
+          cycle_length: number | null
+          cycle_start_date: string
+          flow_intensity: string | null
+          id: string
+          mood: string | null
+          notes: string | null
+          period_end_date: string | null
+          period_length: number | null
+          period_start_date: string
+          symptoms: string[] | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          cycle_end_date?: string | null
+          cycle_length?: number | null
+          cycle_start_date: string
+          flow_intensity?: string | null
+          id?: string
+          mood?: string | null
+          notes?: string | null
+          period_end_date?: string | null
+          period_length?: number | null
+          period_start_date: string
+          symptoms?: string[] | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          cycle_end_date?: string | null
+          cycle_length?: number | null
+          cycle_start_date?: string
+          flow_intensity?: string | null
+          id?: string
+          mood?: string | null
+          notes?: string | null
+          period_end_date?: string | null
+          period_length?: number | null
+          period_start_date?: string
+          symptoms?: string[] | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      messages: {
+        Row: {
+          content: string
+          created_at: string | null
+          id: string
+          is_read: boolean | null
+          receiver_id: string
+          sender_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          receiver_id: string
+          sender_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          receiver_id?: string
+          sender_id?: string
+        }
+        Relationships: []
+      }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          body: string | null
+          category: string
+          channel: string
+          created_at: string
+          destination: string | null
+          emergency_contact_id: string | null
+          id: string
+          last_error: string | null
+          link: string | null
+          next_attempt_at: string
+          notification_id: string | null
+          priority: string
+          provider: string | null
+          provider_message_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          body?: string | null
+          category: string
+          channel: string
+          created_at?: string
+          destination?: string | null
+          emergency_contact_id?: string | null
+          id?: string
+          last_error?: string | null
+          link?: string | null
+          next_attempt_at?: string
+          notification_id?: string | null
+          priority?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          body?: string | null
+          category?: string
+          channel?: string
+          created_at?: string
+          destination?: string | null
+          emergency_contact_id?: string | null
+          id?: string
+          last_error?: string | null
+          link?: string | null
+          next_attempt_at?: string
+          notification_id?: string | null
+          priority?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_emergency_contact_id_fkey"
+            columns: ["emergency_contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          access_updates: boolean
+          appointment_reminders: boolean
+          appointment_updates: boolean
+          auto_sos_enabled: boolean
+          created_at: string
+          cycle_reminders: boolean
+          email_enabled: boolean
+          medication_reminders: boolean
+          messages: boolean
+          push_enabled: boolean
+          sms_enabled: boolean
+          sms_phone: string | null
+          updated_at: string
+          user_id: string
+          vital_alerts: boolean
+          vitals_reminder_days: number
+          vitals_reminders: boolean
+        }
+        Insert: {
+          access_updates?: boolean
+          appointment_reminders?: boolean
+          appointment_updates?: boolean
+          auto_sos_enabled?: boolean
+          created_at?: string
+          cycle_reminders?: boolean
+          email_enabled?: boolean
+          medication_reminders?: boolean
+          messages?: boolean
+          push_enabled?: boolean
+          sms_enabled?: boolean
+          sms_phone?: string | null
+          updated_at?: string
+          user_id: string
+          vital_alerts?: boolean
+          vitals_reminder_days?: number
+          vitals_reminders?: boolean
+        }
+        Update: {
+          access_updates?: boolean
+          appointment_reminders?: boolean
+          appointment_updates?: boolean
+          auto_sos_enabled?: boolean
+          created_at?: string
+          cycle_reminders?: boolean
+          email_enabled?: boolean
+          medication_reminders?: boolean
+          messages?: boolean
+          push_enabled?: boolean
+          sms_enabled?: boolean
+          sms_phone?: string | null
+          updated_at?: string
+          user_id?: string
+          vital_alerts?: boolean
+          vitals_reminder_days?: number
+          vitals_reminders?: boolean
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          category: string
+          created_at: string
+          data: Json
+          dedupe_key: string | null
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          category: string
+          created_at?: string
+          data?: Json
+          dedupe_key?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
           user_id: string
-          weight?: number | null
         }
         Update: {
-          blood_type?: string | null
-          created_at?: string | null
-          date_of_birth?: string | null
-          gender?: string | null
-          health_id?: string
-          height?: number | null
+          body?: string | null
+          category?: string
+          created_at?: string
+          data?: Json
+          dedupe_key?: string | null
           id?: string
-          updated_at?: string | null
+          link?: string | null
+          read_at?: string | null
+          title?: string
           user_id?: string
-          weight?: number | null
         }
         Relationships: []
       }
-      medications: {
+      patient_doctor_access: {
         Row: {
-          created_at: string | null
-          dosage: string | null
+          doctor_id: string
+          expires_at: string | null
+          granted_at: string
+          id: string
+          patient_id: string
+          scopes: string[]
+          status: string
+        }
+        Insert: {
+          doctor_id: string
+          expires_at?: string | null
+          granted_at?: string
+          id?: string
+          patient_id: string
+          scopes?: string[]
+          status?: string
+        }
+        Update: {
+          doctor_id?: string
+          expires_at?: string | null
+          granted_at?: string
+          id?: string
+          patient_id?: string
+          scopes?: string[]
+          status?: string
+        }
+        Relationships: []
+      }
+      pregnancy_tracking: {
+        Row: {
+          appointments_dates: string[] | null
+          conception_date: string | null
+          created_at: string
+          current_week: number | null
+          due_date: string
+          id: string
+          notes: string | null
+          status: string | null
+          symptoms: string[] | null
+          updated_at: string
+          user_id: string
+          weight_gain: number | null
+        }
+        Insert: {
+          appointments_dates?: string[] | null
+          conception_date?: string | null
+          created_at?: string
+          current_week?: number | null
+          due_date: string
+          id?: string
+          notes?: string | null
+          status?: string | null
+          symptoms?: string[] | null
+          updated_at?: string
+          user_id: string
+          weight_gain?: number | null
+        }
+        Update: {
+          appointments_dates?: string[] | null
+          conception_date?: string | null
+          created_at?: string
+          current_week?: number | null
+          due_date?: string
+          id?: string
+          notes?: string | null
+          status?: string | null
+          symptoms?: string[] | null
+          updated_at?: string
+          user_id?: string
+          weight_gain?: number | null
+        }
+        Relationships: []
+      }
+      prescriptions: {
+        Row: {
+          appointment_id: string | null
+          created_at: string
+          decline_reason: string | null
+          doctor_id: string
+          drug_name: string
           end_date: string | null
-          frequency: string | null
           id: string
-          name: string
+          medication_id: string | null
           notes: string | null
-          prescribing_doctor: string | null
+          patient_id: string
+          quantity: number | null
+          quantity_unit: string | null
+          refills: number
+          responded_at: string | null
+          route: string
+          sig: string
           start_date: string | null
-          user_id: string
+          status: string
+          strength: string | null
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
-          dosage?: string | null
+          appointment_id?: string | null
+          created_at?: string
+          decline_reason?: string | null
+          doctor_id: string
+          drug_name: string
           end_date?: string | null
-          frequency?: string | null
           id?: string
-          name: string
+          medication_id?: string | null
           notes?: string | null
-          prescribing_doctor?: string | null
+          patient_id: string
+          quantity?: number | null
+          quantity_unit?: string | null
+          refills?: number
+          responded_at?: string | null
+          route?: string
+          sig: string
           start_date?: string | null
-          user_id: string
+          status?: string
+          strength?: string | null
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
-          dosage?: string | null
+          appointment_id?: string | null
+          created_at?: string
+          decline_reason?: string | null
+          doctor_id?: string
+          drug_name?: string
           end_date?: string | null
-          frequency?: string | null
           id?: string
-          name?: string
+          medication_id?: string | null
           notes?: string | null
-          prescribing_doctor?: string | null
+          patient_id?: string
+          quantity?: number | null
+          quantity_unit?: string | null
+          refills?: number
+          responded_at?: string | null
+          route?: string
+          sig?: string
           start_date?: string | null
+          status?: string
+          strength?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prescriptions_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescriptions_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescriptions_medication_id_fkey"
+            columns: ["medication_id"]
+            isOneToOne: false
+            referencedRelation: "medications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
           user_id?: string
         }
         Relationships: []
       }
-      menstrual_cycles: {
+      sos_contact_alerts: {
+        Row: {
+          acknowledged_at: string | null
+          contact_name: string
+          emergency_contact_id: string | null
+          escalation_level: number
+          id: string
+          notified_at: string
+          sos_event_id: string
+          token_hash: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          contact_name: string
+          emergency_contact_id?: string | null
+          escalation_level: number
+          id?: string
+          notified_at?: string
+          sos_event_id: string
+          token_hash: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          contact_name?: string
+          emergency_contact_id?: string | null
+          escalation_level?: number
+          id?: string
+          notified_at?: string
+          sos_event_id?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sos_contact_alerts_emergency_contact_id_fkey"
+            columns: ["emergency_contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_contact_alerts_sos_event_id_fkey"
+            columns: ["sos_event_id"]
+            isOneToOne: false
+            referencedRelation: "sos_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sos_event_log: {
+        Row: {
+          actor: string
+          created_at: string
+          details: Json
+          emergency_contact_id: string | null
+          event_type: string
+          id: string
+          sos_event_id: string
+        }
+        Insert: {
+          actor: string
+          created_at?: string
+          details?: Json
+          emergency_contact_id?: string | null
+          event_type: string
+          id?: string
+          sos_event_id: string
+        }
+        Update: {
+          actor?: string
+          created_at?: string
+          details?: Json
+          emergency_contact_id?: string | null
+          event_type?: string
+          id?: string
+          sos_event_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sos_event_log_emergency_contact_id_fkey"
+            columns: ["emergency_contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_event_log_sos_event_id_fkey"
+            columns: ["sos_event_id"]
+            isOneToOne: false
+            referencedRelation: "sos_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sos_events: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          closed_at: string | null
+          created_at: string
+          device_id: string | null
+          escalation_level: number
+          id: string
+          latitude: number | null
+          location_accuracy_m: number | null
+          longitude: number | null
+          message: string | null
+          next_escalation_at: string | null
+          notify_after: string
+          reason: string | null
+          status: string
+          trigger_source: string
+          updated_at: string
+          user_id: string
+          vital_sign_id: string | null
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          closed_at?: string | null
+          created_at?: string
+          device_id?: string | null
+          escalation_level?: number
+          id?: string
+          latitude?: number | null
+          location_accuracy_m?: number | null
+          longitude?: number | null
+          message?: string | null
+          next_escalation_at?: string | null
+          notify_after?: string
+          reason?: string | null
+          status?: string
+          trigger_source: string
+          updated_at?: string
+          user_id: string
+          vital_sign_id?: string | null
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          closed_at?: string | null
+          created_at?: string
+          device_id?: string | null
+          escalation_level?: number
+          id?: string
+          latitude?: number | null
+          location_accuracy_m?: number | null
+          longitude?: number | null
+          message?: string | null
+          next_escalation_at?: string | null
+          notify_after?: string
+          reason?: string | null
+          status?: string
+          trigger_source?: string
+          updated_at?: string
+          user_id?: string
+          vital_sign_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sos_events_acknowledged_by_fkey"
+            columns: ["acknowledged_by"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_events_vital_sign_id_fkey"
+            columns: ["vital_sign_id"]
+            isOneToOne: false
+            referencedRelation: "vital_signs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      triage_states: {
         Row: {
           created_at: string
-          cycle_end_date: string | null
-          cycle_length: number | null
-          cycle_start_date: string
-          flow_intensity: string | null
+          doctor_id: string
           id: string
-          mood: string | null
-          notes: string | null
-          period_end_date: string | null
-          period_length: number | null
-          period_start_date: string
-          symptoms: string[] | null
+          patient_id: string
+          reviewed_at: string | null
+          snoozed_until: string | null
           updated_at: string
-          user_id: string
         }
         Insert: {
           created_at?: string
-          cycle_end_date?: string | null
-          cycle_length?: number | null
-          cycle_start_date: string
-          flow_intensity?: string | null
+          doctor_id: string
           id?: string
-          mood?: string | null
-          notes?: string | null
-          period_end_date?: string | null
-          period_length?: number | null
-          period_start_date: string
-          symptoms?: string[] | null
+          patient_id: string
+          reviewed_at?: string | null
+          snoozed_until?: string | null
           updated_at?: string
-          user_id: string
         }
         Update: {
           created_at?: string
-          cycle_end_date?: string | null
-          cycle_length?: number | null
-          cycle_start_date?: string
-          flow_intensity?: string | null
+          doctor_id?: string
           id?: string
-          mood?: string | null
-          notes?: string | null
-          period_end_date?: string | null
-          period_length?: number | null
-          period_start_date?: string
-          symptoms?: string[] | null
+          patient_id?: string
+          reviewed_at?: string | null
+          snoozed_until?: string | null
           updated_at?: string
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "triage_states_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      messages: {
+      user_roles: {
         Row: {
-          content: string
           created_at: string | null
           id: string
-          is_read: boolean | null
-          receiver_id: string
-          sender_id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
         }
         Insert: {
-          content: string
           created_at?: string | null
           id?: string
-          is_read?: boolean | null
-          receiver_id: string
-          sender_id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
         }
         Update: {
-          content?: string
           created_at?: string | null
           id?: string
-          is_read?: boolean | null
-          receiver_id?: string
-          sender_id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
         }
         Relationships: []
       }
-      patient_doctor_access: {
+      vital_alert_rules: {
         Row: {
-          doctor_id: string
-          expires_at: string | null
-          granted_at: string
+          comparison: string
+          created_at: string
+          default_key: string | null
+          enabled: boolean
           id: string
+          kind: string
+          metric: string
+          note: string | null
           patient_id: string
-          status: string
+          severity: string
+          threshold: number
+          updated_at: string
+          updated_by: string | null
+          window_minutes: number | null
         }
         Insert: {
-          doctor_id: string
-          expires_at?: string | null
-          granted_at?: string
+          comparison: string
+          created_at?: string
+          default_key?: string | null
+          enabled?: boolean
           id?: string
+          kind: string
+          metric: string
+          note?: string | null
           patient_id: string
-          status?: string
+          severity?: string
+          threshold: number
+          updated_at?: string
+          updated_by?: string | null
+          window_minutes?: number | null
         }
         Update: {
-          doctor_id?: string
-          expires_at?: string | null
-          granted_at?: string
+          comparison?: string
+          created_at?: string
+          default_key?: string | null
+          enabled?: boolean
           id?: string
+          kind?: string
+          metric?: string
+          note?: string | null
           patient_id?: string
-          status?: string
+          severity?: string
+          threshold?: number
+          updated_at?: string
+          updated_by?: string | null
+          window_minutes?: number | null
         }
         Relationships: []
       }
-      pregnancy_tracking: {
+      vital_alerts: {
         Row: {
-          appointments_dates: string[] | null
-          conception_date: string | null
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          alert_key: string
           created_at: string
-          current_week: number | null
-          due_date: string
+          first_triggered_at: string
           id: string
-          notes: string | null
-          status: string | null
-          symptoms: string[] | null
+          kind: string
+          last_triggered_at: string
+          message: string
+          metric: string
+          occurrences: number
+          patient_id: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          rule_id: string | null
+          severity: string
+          status: string
+          threshold: number | null
+          title: string
           updated_at: string
-          user_id: string
-          weight_gain: number | null
+          value: number | null
+          vital_sign_id: string | null
         }
         Insert: {
-          appointments_dates?: string[] | null
-          conception_date?: string | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alert_key: string
           created_at?: string
-          current_week?: number | null
-          due_date: string
+          first_triggered_at?: string
           id?: string
-          notes?: string | null
-          status?: string | null
-          symptoms?: string[] | null
+          kind: string
+          last_triggered_at?: string
+          message: string
+          metric: string
+          occurrences?: number
+          patient_id: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
+          severity: string
+          status?: string
+          threshold?: number | null
+          title: string
           updated_at?: string
-          user_id: string
-          weight_gain?: number | null
+          value?: number | null
+          vital_sign_id?: string | null
         }
         Update: {
-          appointments_dates?: string[] | null
-          conception_date?: string | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alert_key?: string
           created_at?: string
-          current_week?: number | null
-          due_date?: string
+          first_triggered_at?: string
           id?: string
-          notes?: string | null
-          status?: string | null
-          symptoms?: string[] | null
+          kind?: string
+          last_triggered_at?: string
+          message?: string
+          metric?: string
+          occurrences?: number
+          patient_id?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
+          severity?: string
+          status?: string
+          threshold?: number | null
+          title?: string
           updated_at?: string
-          user_id?: string
-          weight_gain?: number | null
+          value?: number | null
+          vital_sign_id?: string | null
         }
-        Relationships: []
-      }
-      user_roles: {
-        Row: {
-          created_at: string | null
-          id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
-        }
-        Insert: {
-          created_at?: string | null
-          id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
-        }
-        Update: {
-          created_at?: string | null
-          id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
-        }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "vital_alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "vital_alert_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vital_alerts_vital_sign_id_fkey"
+            columns: ["vital_sign_id"]
+            isOneToOne: false
+            referencedRelation: "vital_signs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       vital_signs: {
         Row: {
@@ -468,8 +2041,10 @@ export type Database = {
           created_at: string
           device_id: string | null
           device_type: string | null
+          flag_reasons: string[] | null
           heart_rate: number | null
           id: string
+          is_flagged: boolean
           notes: string | null
           oxygen_saturation: number | null
           recorded_at: string
@@ -485,8 +2060,10 @@ export type Database = {
           created_at?: string
           device_id?: string | null
           device_type?: string | null
+          flag_reasons?: string[] | null
           heart_rate?: number | null
           id?: string
+          is_flagged?: boolean
           notes?: string | null
           oxygen_saturation?: number | null
           recorded_at?: string
@@ -502,8 +2079,10 @@ export type Database = {
           created_at?: string
           device_id?: string | null
           device_type?: string | null
+          flag_reasons?: string[] | null
           heart_rate?: number | null
           id?: string
+          is_flagged?: boolean
           notes?: string | null
           oxygen_saturation?: number | null
           recorded_at?: string
@@ -519,7 +2098,120 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      appointment_actor_role: {
+        Args: { _doctor_id: string; _patient_id: string }
+        Returns: string
+      }
+      appointment_status_reason: { Args: never; Returns: string }
+      appointment_transition_allowed: {
+        Args: { _from: string; _role: string; _to: string }
+        Returns: boolean
+      }
+      appointment_within_cancellation_window: {
+        Args: { _doctor_id: string; _scheduled_time: string }
+        Returns: boolean
+      }
+      cancel_account_deletion: { Args: never; Returns: undefined }
+      cancel_appointment_series: {
+        Args: { _reason?: string; _series_id: string }
+        Returns: undefined
+      }
+      claim_notification_deliveries: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          body: string | null
+          category: string
+          channel: string
+          created_at: string
+          destination: string | null
+          emergency_contact_id: string | null
+          id: string
+          last_error: string | null
+          link: string | null
+          next_attempt_at: string
+          notification_id: string | null
+          priority: string
+          provider: string | null
+          provider_message_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      clear_health_card_pin_attempts: { Args: { _link_id: string }; Returns: undefined }
+      create_appointment_series: {
+        Args: {
+          _count?: number
+          _doctor_id: string
+          _first_start: string
+          _interval_weeks: number
+          _reason: string
+          _type: string
+          _until?: string
+        }
+        Returns: {
+          series_id: string
+          scheduled_time: string
+          appointment_id: string | null
+          skip_reason: string | null
+        }[]
+      }
+      create_notification: {
+        Args: {
+          _body?: string
+          _category: string
+          _data?: Json
+          _dedupe_key?: string
+          _link?: string
+          _title: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      doctor_has_access: {
+        Args: { _patient_id: string; _scope?: string }
+        Returns: boolean
+      }
+      enqueue_emergency_contact_delivery: {
+        Args: {
+          _body: string
+          _category: string
+          _contact_id: string
+          _link?: string
+          _priority?: string
+          _subject: string
+        }
+        Returns: number
+      }
+      erase_account: { Args: { _user_id: string }; Returns: undefined }
+      expire_doctor_access: { Args: never; Returns: number }
       generate_health_id: { Args: never; Returns: string }
+      get_consent_history: {
+        Args: { _limit?: number }
+        Returns: {
+          actor: string
+          created_at: string
+          doctor_id: string
+          doctor_name: string
+          event: string
+          expires_at: string
+          health_id: string
+          id: string
+          note: string
+          patient_id: string
+          scopes: string[]
+        }[]
+      }
+      get_doctor_busy_intervals: {
+        Args: { _doctor_id: string; _from: string; _to: string }
+        Returns: {
+          ends_at: string
+          starts_at: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -527,6 +2219,202 @@ export type Database = {
         }
         Returns: boolean
       }
+      health_card_pin_locked: {
+        Args: { _link_id: string; _max_attempts: number }
+        Returns: boolean
+      }
+      insert_series_occurrence: {
+        Args: {
+          _index: number
+          _rescheduled_from: string
+          _scheduled_time: string
+          _series_id: string
+          _status: string
+        }
+        Returns: Record<string, unknown>
+      }
+      notification_enabled: {
+        Args: { _category: string; _user_id: string }
+        Returns: boolean
+      }
+      patient_knows_doctor: {
+        Args: { _doctor_id: string }
+        Returns: boolean
+      }
+      patients_due_vitals_reminder: {
+        Args: never
+        Returns: {
+          last_recorded_at: string
+          reminder_days: number
+          user_id: string
+        }[]
+      }
+      process_account_deletions: { Args: never; Returns: number }
+      propose_appointment_time: {
+        Args: { _appointment_id: string; _message?: string; _proposed_time: string }
+        Returns: string
+      }
+      read_patient_profiles: {
+        Args: { _patient_ids: string[]; _source: string }
+        Returns: {
+          blood_type: string | null
+          created_at: string | null
+          date_of_birth: string | null
+          gender: string | null
+          health_id: string
+          height: number | null
+          id: string
+          updated_at: string | null
+          user_id: string
+          weight: number | null
+        }[]
+      }
+      read_patient_record: {
+        Args: {
+          _categories: string[]
+          _patient_id: string
+          _source: string
+          _vitals_limit?: number
+        }
+        Returns: Json
+      }
+      record_data_access: {
+        Args: { _categories: string[]; _patient_ids: string[]; _source: string }
+        Returns: number
+      }
+      record_vital_alert: {
+        Args: {
+          _alert_key: string
+          _kind: string
+          _message: string
+          _metric: string
+          _patient_id: string
+          _rule_id: string
+          _severity: string
+          _threshold: number
+          _title: string
+          _triggered_at: string
+          _value: number
+          _vital_sign_id: string
+        }
+        Returns: string
+      }
+      register_push_subscription: {
+        Args: {
+          _auth: string
+          _endpoint: string
+          _p256dh: string
+          _user_agent?: string
+        }
+        Returns: string
+      }
+      request_account_deletion: { Args: never; Returns: string }
+      request_patient_access: {
+        Args: {
+          _expires_at?: string
+          _health_id: string
+          _message?: string
+          _scopes: string[]
+        }
+        Returns: string
+      }
+      reschedule_appointment: {
+        Args: { _appointment_id: string; _reason?: string; _scheduled_time: string }
+        Returns: string
+      }
+      respond_to_access_request: {
+        Args: {
+          _approve: boolean
+          _expires_at?: string
+          _request_id: string
+          _scopes?: string[]
+        }
+        Returns: undefined
+      }
+      respond_to_appointment_proposal: {
+        Args: { _accept: boolean; _proposal_id: string; _reason?: string }
+        Returns: string
+      }
+      respond_to_prescription: {
+        Args: { _accept: boolean; _prescription_id: string; _reason?: string }
+        Returns: string
+      }
+      review_doctor_verification: {
+        Args: { _approve: boolean; _doctor_id: string; _reason?: string }
+        Returns: undefined
+      }
+      rotate_device_secret: {
+        Args: { _device_id: string }
+        Returns: string
+      }
+      send_emergency_contact_test: {
+        Args: { _contact_id: string }
+        Returns: number
+      }
+      series_occurrence_times: {
+        Args: {
+          _count: number
+          _first_start: string
+          _interval_weeks: number
+          _timezone: string
+          _until: string
+        }
+        Returns: {
+          occurrence_index: number
+          scheduled_time: string
+        }[]
+      }
+      series_rrule: {
+        Args: {
+          _count: number
+          _interval_weeks: number
+          _timezone: string
+          _until: string
+        }
+        Returns: string
+      }
+      set_vital_alert_status: {
+        Args: { _alert_id: string; _note?: string; _status: string }
+        Returns: undefined
+      }
+      submit_doctor_verification: { Args: never; Returns: undefined }
+      take_health_card_pin_attempt: {
+        Args: { _link_id: string; _max_attempts: number; _window_minutes: number }
+        Returns: boolean
+      }
+      transition_appointment: {
+        Args: { _appointment_id: string; _reason?: string; _status: string }
+        Returns: undefined
+      }
+      update_appointment_series: {
+        Args: {
+          _count?: number
+          _first_start: string
+          _interval_weeks: number
+          _reason?: string
+          _series_id: string
+          _until?: string
+        }
+        Returns: {
+          series_id: string
+          scheduled_time: string
+          appointment_id: string | null
+          skip_reason: string | null
+        }[]
+      }
+      validate_series_rule: {
+        Args: {
+          _count: number
+          _first_start: string
+          _interval_weeks: number
+          _until: string
+        }
+        Returns: undefined
+      }
+      withdraw_access_request: {
+        Args: { _request_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "patient" | "doctor" | "admin"
@@ -0,0 +1,4 @@
+// Sources and data categories of the patient-visible access log, shared with
+// the edge functions that record reads.
+
+export * from "../../supabase/functions/_shared/accessLog.ts";
@@ -0,0 +1,4 @@
+// Vital sign alert rules and their evaluation, shared with the
+// evaluate-vital-alerts edge function.
+
+export * from "../../supabase/functions/_shared/alertRules.ts";
@@ -0,0 +1,63 @@
+// Helpers for showing recurring appointment series: grouping occurrences on
+// the appointment pages and summarising what a series booking managed to book.
+
+export interface AppointmentSeries {
+  id: string;
+  doctor_id: string;
+  type: string;
+  duration: number | null;
+  interval_weeks: number;
+  occurrence_count: number | null;
+  until_date: string | null;
+  status: string;
+}
+
+export interface SeriesBookingRow {
+  scheduled_time: string;
+  appointment_id: string | null;
+  skip_reason: string | null;
+}
+
+export interface AppointmentGroup<T> {
+  // The series id, or the appointment id for a one-off
+  key: string;
+  seriesId: string | null;
+  appointments: T[];
+}
+
+// Keeps the incoming order; each series is placed where its first listed
+// occurrence would be
+export const groupAppointmentsBySeries = <T extends { id: string; series_id?: string | null }>(
+  appointments: T[]
+): AppointmentGroup<T>[] => {
+  const groups: AppointmentGroup<T>[] = [];
+  const bySeries = new Map<string, AppointmentGroup<T>>();
+
+  for (const appointment of appointments) {
+    if (!appointment.series_id) {
+      groups.push({ key: appointment.id, seriesId: null, appointments: [appointment] });
+      continue;
+    }
+    let group = bySeries.get(appointment.series_id);
+    if (!group) {
+      group = { key: appointment.series_id, seriesId: appointment.series_id, appointments: [] };
+      bySeries.set(appointment.series_id, group);
+      groups.push(group);
+    }
+    group.appointments.push(appointment);
+  }
+  return groups;
+};
+
+// Toast text for create_appointment_series / update_appointment_series results
+export const describeSeriesBooking = (rows: SeriesBookingRow[]) => {
+  const booked = rows.filter((row) => row.appointment_id).length;
+  const skipped = rows.filter((row) => !row.appointment_id);
+  const summary = `${booked} of ${rows.length} visits booked.`;
+  if (skipped.length === 0) return summary;
+
+  const skippedDates = skipped
+    .map((row) => `${new Date(row.scheduled_time).toLocaleDateString([], { dateStyle: "medium" })} (${row.skip_reason})`)
+    .join(", ");
+  return `${summary} Skipped ${skippedDates}.`;
+};
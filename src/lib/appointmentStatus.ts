@@ -0,0 +1,108 @@
+// Appointment lifecycle: status labels, badge colours and which transitions
+// each side can make. The transition table mirrors
+// appointment_transition_allowed in the database, which is what enforces it;
+// this copy only decides which buttons to show.
+
+export type AppointmentStatus =
+  | "requested"
+  | "confirmed"
+  | "checked-in"
+  | "in-progress"
+  | "completed"
+  | "cancelled"
+  | "no-show"
+  | "rescheduled";
+
+export type AppointmentActor = "patient" | "doctor";
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  requested: "Requested",
+  confirmed: "Confirmed",
+  "checked-in": "Checked in",
+  "in-progress": "In progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  "no-show": "No-show",
+  rescheduled: "Rescheduled",
+};
+
+export const APPOINTMENT_STATUS_COLORS: Record<AppointmentStatus, string> = {
+  requested: "bg-yellow-100 text-yellow-800",
+  confirmed: "bg-green-100 text-green-800",
+  "checked-in": "bg-teal-100 text-teal-800",
+  "in-progress": "bg-purple-100 text-purple-800",
+  completed: "bg-blue-100 text-blue-800",
+  cancelled: "bg-red-100 text-red-800",
+  "no-show": "bg-orange-100 text-orange-800",
+  rescheduled: "bg-gray-100 text-gray-800",
+};
+
+// Statuses that still hold the doctor's time
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ["requested", "confirmed", "checked-in", "in-progress"];
+
+export const isActiveAppointment = (status: string) =>
+  (ACTIVE_APPOINTMENT_STATUSES as string[]).includes(status);
+
+export const appointmentStatusLabel = (status: string) =>
+  APPOINTMENT_STATUS_LABELS[status as AppointmentStatus] ?? status;
+
+export const appointmentStatusColor = (status: string) =>
+  APPOINTMENT_STATUS_COLORS[status as AppointmentStatus] ?? "bg-gray-100 text-gray-800";
+
+export interface AppointmentTransition {
+  to: AppointmentStatus;
+  label: string;
+  // Asks for a reason before submitting
+  asksReason?: boolean;
+  destructive?: boolean;
+  // Only offered once the appointment's start time has passed
+  afterStart?: boolean;
+}
+
+// Rescheduling isn't listed: it replaces the appointment rather than just
+// changing its status, via reschedule_appointment or a doctor's proposal.
+const TRANSITIONS: Record<AppointmentActor, Partial<Record<AppointmentStatus, AppointmentTransition[]>>> = {
+  doctor: {
+    requested: [
+      { to: "confirmed", label: "Accept" },
+      { to: "cancelled", label: "Decline", asksReason: true, destructive: true },
+    ],
+    confirmed: [
+      { to: "checked-in", label: "Check In" },
+      { to: "in-progress", label: "Start" },
+      { to: "no-show", label: "No-show", afterStart: true },
+      { to: "cancelled", label: "Cancel", asksReason: true, destructive: true },
+    ],
+    "checked-in": [
+      { to: "in-progress", label: "Start" },
+      { to: "cancelled", label: "Cancel", asksReason: true, destructive: true },
+    ],
+    "in-progress": [{ to: "completed", label: "Complete" }],
+  },
+  patient: {
+    requested: [{ to: "cancelled", label: "Cancel", asksReason: true, destructive: true }],
+    confirmed: [{ to: "cancelled", label: "Cancel", asksReason: true, destructive: true }],
+  },
+};
+
+export const availableTransitions = (
+  actor: AppointmentActor,
+  appointment: { status: string; scheduled_time: string },
+  now = new Date()
+): AppointmentTransition[] =>
+  (TRANSITIONS[actor][appointment.status as AppointmentStatus] ?? []).filter(
+    (transition) => !transition.afterStart || new Date(appointment.scheduled_time) <= now
+  );
+
+// Mirrors appointment_within_cancellation_window in the database
+export const withinCancellationWindow = (scheduledTime: string, windowHours: number, now = new Date()) =>
+  new Date(scheduledTime).getTime() - now.getTime() < windowHours * 60 * 60 * 1000;
+
+// Doctors always explain a cancellation; patients only when cancelling or
+// rescheduling inside the doctor's cancellation window
+export const reasonRequired = (
+  actor: AppointmentActor,
+  scheduledTime: string,
+  cancellationWindowHours: number,
+  now = new Date()
+) => actor === "doctor" || withinCancellationWindow(scheduledTime, cancellationWindowHours, now);
@@ -0,0 +1,6 @@
+// Free-slot computation from a doctor's working hours, breaks and busy time.
+//
+// Lives in supabase/functions/_shared with the timezone helpers it builds on,
+// so the same DST handling applies wherever slots are computed.
+
+export * from "../../supabase/functions/_shared/availability.ts";
@@ -0,0 +1,4 @@
+// Calendar subscription tokens: generated and hashed in the browser, checked
+// by the calendar-feed edge function.
+
+export * from "../../supabase/functions/_shared/calendarFeed.ts";
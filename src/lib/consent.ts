@@ -0,0 +1,4 @@
+// Consent scopes and grant states for doctor access, shared with the
+// triage-worklist function.
+
+export * from "../../supabase/functions/_shared/consent.ts";
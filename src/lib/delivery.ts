@@ -0,0 +1,4 @@
+// Outbound delivery channels and limits, shared with the deliver-notifications
+// edge function.
+
+export * from "../../supabase/functions/_shared/delivery.ts";
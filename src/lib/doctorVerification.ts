@@ -0,0 +1,38 @@
+// Doctor identity verification: statuses, document types and where uploads
+// go. submit_doctor_verification and review_doctor_verification in the
+// database decide who can move between statuses.
+
+export type DoctorVerificationStatus = "pending_verification" | "verified" | "rejected";
+
+export const DOCTOR_VERIFICATION_LABELS: Record<DoctorVerificationStatus, string> = {
+  pending_verification: "Unverified",
+  verified: "Verified",
+  rejected: "Rejected",
+};
+
+export type VerificationDocumentType = "license" | "identity" | "other";
+
+export const VERIFICATION_DOCUMENT_TYPES: Record<VerificationDocumentType, string> = {
+  license: "Medical license",
+  identity: "Photo ID",
+  other: "Other",
+};
+
+// Private bucket; the policies limit doctors to their own folder
+export const VERIFICATION_BUCKET = "doctor-verification";
+
+// Mirrors the bucket's file_size_limit and allowed_mime_types
+export const MAX_VERIFICATION_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const VERIFICATION_DOCUMENT_MIME_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+
+export const doctorVerificationLabel = (status: string) =>
+  DOCTOR_VERIFICATION_LABELS[status as DoctorVerificationStatus] ?? status;
+
+// Waiting for an admin, as opposed to not yet submitted
+export const isAwaitingReview = (doctor: { verification_status: string; verification_submitted_at: string | null }) =>
+  doctor.verification_status === "pending_verification" && doctor.verification_submitted_at !== null;
+
+// <user id>/<random>-<file name>: the first folder is what the storage
+// policies check, the prefix keeps re-uploads of the same file apart
+export const verificationDocumentPath = (userId: string, fileName: string) =>
+  `${userId}/${crypto.randomUUID()}-${fileName.replace(/[^\w.-]+/g, "_")}`;
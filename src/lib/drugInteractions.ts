@@ -0,0 +1,6 @@
+// Drug-drug and drug-allergy interaction checking against the bundled dataset.
+//
+// Shared with health-chat so the assistant sees the same warnings the patient
+// and their doctor do.
+
+export * from "../../supabase/functions/_shared/drugInteractions.ts";
@@ -0,0 +1,6 @@
+// FHIR R4 resource types and row-to-resource mapping.
+//
+// Shared with the fhir-export edge function so the browser reads and writes
+// bundles with the same codes and shapes the server produces.
+
+export * from "../../supabase/functions/_shared/fhir.ts";
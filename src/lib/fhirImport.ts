@@ -0,0 +1,3 @@
+// FHIR R4 bundle import planning (parsing, validation, duplicate detection).
+
+export * from "../../supabase/functions/_shared/fhirImport.ts";
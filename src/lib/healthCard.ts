@@ -0,0 +1,4 @@
+// Health card link tokens, shared fields and scan descriptions. Shared with
+// the health-card function that serves the public card.
+
+export * from "../../supabase/functions/_shared/healthCard.ts";
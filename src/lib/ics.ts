@@ -0,0 +1,4 @@
+// iCalendar rendering for appointments, shared with the calendar-feed edge
+// function so downloads and subscriptions describe events the same way.
+
+export * from "../../supabase/functions/_shared/ics.ts";
@@ -0,0 +1,6 @@
+// Dose-slot expansion and adherence scoring for medication schedules.
+//
+// Shared with digital-twin-simulation so treatment optimization uses the same
+// adherence the patient sees on their dashboard.
+
+export * from "../../supabase/functions/_shared/medicationSchedule.ts";
@@ -0,0 +1,4 @@
+// Notification categories and the preferences that switch them off, shared
+// with the send-reminders edge function.
+
+export * from "../../supabase/functions/_shared/notifications.ts";
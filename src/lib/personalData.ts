@@ -0,0 +1,4 @@
+// Tables covered by the personal data export and the account deletion grace
+// period, shared with the data-export edge function.
+
+export * from "../../supabase/functions/_shared/personalData.ts";
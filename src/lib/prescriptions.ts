@@ -0,0 +1,148 @@
+// Prescription helpers shared by the doctor and patient views: route labels,
+// one-line summaries, and the printable prescription document.
+import { format } from "date-fns";
+
+export const PRESCRIPTION_ROUTES: Record<string, string> = {
+  oral: "By mouth",
+  sublingual: "Under the tongue",
+  topical: "Topical",
+  transdermal: "Transdermal patch",
+  inhaled: "Inhaled",
+  nasal: "Nasal",
+  ophthalmic: "Eye",
+  otic: "Ear",
+  rectal: "Rectal",
+  vaginal: "Vaginal",
+  subcutaneous: "Subcutaneous injection",
+  intramuscular: "Intramuscular injection",
+  intravenous: "Intravenous",
+  other: "Other",
+};
+
+// Select list that returns rows shaped like PrescriptionDocumentData
+export const PRESCRIPTION_SELECT =
+  "*, doctors (full_name, specialization, license_number, clinic_name, clinic_address, phone)";
+
+export interface PrescriptionDocumentData {
+  id: string;
+  drug_name: string;
+  strength: string | null;
+  route: string;
+  sig: string;
+  quantity: number | null;
+  quantity_unit: string | null;
+  refills: number;
+  start_date: string | null;
+  end_date: string | null;
+  notes: string | null;
+  status: string;
+  created_at: string;
+  doctors: {
+    full_name: string;
+    specialization: string | null;
+    license_number: string | null;
+    clinic_name: string | null;
+    clinic_address: string | null;
+    phone: string | null;
+  } | null;
+  patient?: {
+    health_id: string;
+    date_of_birth: string | null;
+  } | null;
+}
+
+export const formatQuantity = (rx: Pick<PrescriptionDocumentData, "quantity" | "quantity_unit">) =>
+  rx.quantity ? `${rx.quantity}${rx.quantity_unit ? ` ${rx.quantity_unit}` : ""}` : null;
+
+// "Amoxicillin 500 mg · By mouth · Take 1 capsule three times daily"
+export const summarizePrescription = (rx: Pick<PrescriptionDocumentData, "drug_name" | "strength" | "route" | "sig">) =>
+  [
+    [rx.drug_name, rx.strength].filter(Boolean).join(" "),
+    PRESCRIPTION_ROUTES[rx.route] ?? rx.route,
+    rx.sig,
+  ].join(" · ");
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] ?? c);
+
+const formatDate = (date: string | null) => (date ? format(new Date(`${date.slice(0, 10)}T00:00:00`), "MMM d, yyyy") : null);
+
+export function renderPrescriptionHtml(rx: PrescriptionDocumentData): string {
+  const doctor = rx.doctors;
+  const row = (label: string, value: string | number | null | undefined) =>
+    value === null || value === undefined || value === ""
+      ? ""
+      : `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(String(value))}</td></tr>`;
+
+  const period = [formatDate(rx.start_date), formatDate(rx.end_date)].filter(Boolean).join(" – ");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Prescription ${escapeHtml(rx.id.slice(0, 8).toUpperCase())}</title>
+<style>
+  body { font-family: system-ui, -apple-system, sans-serif; color: #111; max-width: 720px; margin: 40px auto; padding: 0 24px; }
+  header { display: flex; justify-content: space-between; border-bottom: 2px solid #111; padding-bottom: 16px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .muted { color: #555; font-size: 13px; margin: 2px 0; }
+  .rx { font-size: 40px; font-weight: 700; font-family: Georgia, serif; }
+  table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  th { text-align: left; width: 160px; font-weight: 600; vertical-align: top; }
+  th, td { padding: 8px 0; border-bottom: 1px solid #ddd; font-size: 14px; }
+  .drug { font-size: 18px; font-weight: 700; }
+  .signature { margin-top: 64px; display: flex; justify-content: space-between; font-size: 13px; }
+  .signature div { border-top: 1px solid #111; padding-top: 6px; width: 260px; }
+  .status { display: inline-block; padding: 2px 8px; border: 1px solid #111; border-radius: 4px; font-size: 12px; text-transform: uppercase; }
+  @media print { body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>${escapeHtml(doctor?.full_name ?? "Prescriber")}</h1>
+    ${doctor?.specialization ? `<p class="muted">${escapeHtml(doctor.specialization)}</p>` : ""}
+    ${doctor?.license_number ? `<p class="muted">License no. ${escapeHtml(doctor.license_number)}</p>` : ""}
+    ${doctor?.clinic_name ? `<p class="muted">${escapeHtml(doctor.clinic_name)}</p>` : ""}
+    ${doctor?.clinic_address ? `<p class="muted">${escapeHtml(doctor.clinic_address)}</p>` : ""}
+    ${doctor?.phone ? `<p class="muted">${escapeHtml(doctor.phone)}</p>` : ""}
+  </div>
+  <div style="text-align: right">
+    <div class="rx">&#8478;</div>
+    <p class="muted">No. ${escapeHtml(rx.id.slice(0, 8).toUpperCase())}</p>
+    <p class="muted">${escapeHtml(format(new Date(rx.created_at), "MMM d, yyyy"))}</p>
+    ${rx.status !== "accepted" ? `<span class="status">${escapeHtml(rx.status)}</span>` : ""}
+  </div>
+</header>
+<table>
+  ${row("Patient Health ID", rx.patient?.health_id)}
+  ${row("Date of birth", formatDate(rx.patient?.date_of_birth ?? null))}
+  <tr><th>Medication</th><td class="drug">${escapeHtml([rx.drug_name, rx.strength].filter(Boolean).join(" "))}</td></tr>
+  ${row("Route", PRESCRIPTION_ROUTES[rx.route] ?? rx.route)}
+  ${row("Directions (Sig)", rx.sig)}
+  ${row("Quantity", formatQuantity(rx))}
+  ${row("Refills", rx.refills)}
+  ${row("Period", period)}
+  ${row("Notes", rx.notes)}
+</table>
+<div class="signature">
+  <div>Prescriber signature</div>
+  <div>Date</div>
+</div>
+</body>
+</html>`;
+}
+
+// Opens the prescription in a new window and brings up the print dialog,
+// where "Save as PDF" produces the PDF copy.
+export function printPrescription(rx: PrescriptionDocumentData): boolean {
+  const printWindow = window.open("", "_blank", "width=800,height=900");
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(renderPrescriptionHtml(rx));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
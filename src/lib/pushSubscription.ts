@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import { base64UrlDecode, base64UrlEncode } from "@/lib/webPush";
+
+// Browser side of Web Push: registers public/sw.js and stores this device's
+// subscription in push_subscriptions for deliver-notifications to use.
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = () =>
+  !!VAPID_PUBLIC_KEY && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+const registration = () => navigator.serviceWorker.register("/sw.js");
+
+export async function getCurrentPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  return (await registration()).pushManager.getSubscription();
+}
+
+// Asks for permission if needed; returns false when the user declines
+export async function subscribeToPush(): Promise<boolean> {
+  if (!isPushSupported()) return false;
+  if ((await Notification.requestPermission()) !== "granted") return false;
+
+  const subscription = await (await registration()).pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: base64UrlDecode(VAPID_PUBLIC_KEY!),
+  });
+
+  const key = (name: PushEncryptionKeyName) => {
+    const value = subscription.getKey(name);
+    return value ? base64UrlEncode(new Uint8Array(value)) : "";
+  };
+
+  const { error } = await supabase.rpc("register_push_subscription", {
+    _endpoint: subscription.endpoint,
+    _p256dh: key("p256dh"),
+    _auth: key("auth"),
+    _user_agent: navigator.userAgent,
+  });
+  if (error) throw error;
+  return true;
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getCurrentPushSubscription();
+  if (!subscription) return;
+
+  await supabase.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+  await subscription.unsubscribe();
+}
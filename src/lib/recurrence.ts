@@ -0,0 +1,4 @@
+// Weekly recurrence rules for appointment series: expansion, validation and
+// display, shared with the database's series booking.
+
+export * from "../../supabase/functions/_shared/recurrence.ts";
@@ -0,0 +1,4 @@
+// SOS limits, timings and log vocabulary, shared with the sos edge function
+// and iot-webhook.
+
+export * from "../../supabase/functions/_shared/sos.ts";
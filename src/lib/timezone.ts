@@ -0,0 +1,4 @@
+// IANA timezone conversion without a date library: wall-clock dates and times
+// in a given zone to UTC instants and back.
+
+export * from "../../supabase/functions/_shared/timezone.ts";
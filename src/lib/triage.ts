@@ -0,0 +1,4 @@
+// Triage scoring for the doctor dashboard worklist. The ranking itself comes
+// from the triage-worklist function; this is for the item types and labels.
+
+export * from "../../supabase/functions/_shared/triage.ts";
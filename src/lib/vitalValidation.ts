@@ -0,0 +1,6 @@
+// Vital sign range validation and unit normalization.
+//
+// Shared with iot-webhook so manual entries and device readings are checked
+// against the same ranges and stored in the same units.
+
+export * from "../../supabase/functions/_shared/vitalValidation.ts";
@@ -0,0 +1,4 @@
+// Web Push encoding helpers, shared with the deliver-notifications edge
+// function (which also does the encryption and VAPID signing).
+
+export * from "../../supabase/functions/_shared/webPush.ts";
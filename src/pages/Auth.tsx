@@ -94,6 +94,11 @@ const Auth = () => {
                     <Label htmlFor="signup-password">Password</Label>
                     <Input id="signup-password" type="password" placeholder="••••••••" value={password} onChange={(e) => setPassword(e.target.value)} required minLength={6} />
                     <p className="text-xs text-muted-foreground">Password must be at least 6 characters long</p>
+                    {selectedRole === "doctor" && (
+                      <p className="text-xs text-muted-foreground">
+                        Patients can find you once an admin has checked your license and ID
+                      </p>
+                    )}
                   </div>
                   <Button type="submit" className="w-full" disabled={loading}>{loading ? "Creating account..." : "Create Account"}</Button>
                 </form>
@@ -48,11 +48,13 @@ interface SimulationData {
       expectedOutcome: number;
       riskReduction: number;
       adherenceRequired: number;
+      expectedAdherence?: number;
       sideEffectRisk: number;
       qValue: number;
       recommended: boolean;
     }>;
     policyExplanation: string;
+    observedAdherence?: { due: number; percentage: number | null } | null;
   };
   diseaseTrajectories: {
     cardiovascular: Array<{ timestamp: string; predicted: number; lowerBound: number; upperBound: number; confidence: number }>;
@@ -321,6 +323,7 @@ const DigitalTwin = () => {
                 <TreatmentOptimizer
                   treatments={simulation.treatmentOptimization.treatments}
                   policyExplanation={simulation.treatmentOptimization.policyExplanation}
+                  observedAdherence={simulation.treatmentOptimization.observedAdherence?.percentage}
                 />
               </TabsContent>
 
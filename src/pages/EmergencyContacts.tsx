@@ -7,8 +7,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Phone, Plus, Trash2, Star } from "lucide-react";
+import { Phone, Plus, Send, Trash2, Star } from "lucide-react";
 import { PatientLayout } from "@/components/layouts/PatientLayout";
+import { normalizePhoneNumber } from "@/lib/delivery";
+import { SosHistory } from "@/components/SosHistory";
 
 type EmergencyContact = {
   id: string;
@@ -102,6 +104,19 @@ export default function EmergencyContacts() {
     }
   };
 
+  // Queues a test email/SMS so the patient knows the contact is reachable
+  const sendTestMessage = async (contact: EmergencyContact) => {
+    const { data, error } = await supabase.rpc("send_emergency_contact_test", { _contact_id: contact.id });
+    if (error) {
+      toast({ title: "Error sending test message", description: error.message, variant: "destructive" });
+    } else {
+      toast({
+        title: "Test message on its way",
+        description: `Sent to ${contact.name} by ${data === 1 ? "text message" : "email and text message"}`,
+      });
+    }
+  };
+
   return (
     <PatientLayout>
       <div className="space-y-8">
@@ -118,7 +133,9 @@ export default function EmergencyContacts() {
                   <Phone className="w-5 h-5" />
                   Emergency Contacts
                 </CardTitle>
-                <CardDescription>People to contact in case of emergency</CardDescription>
+                <CardDescription>
+                  People to contact in case of emergency. An SOS alerts the primary contact first.
+                </CardDescription>
               </div>
               <Button onClick={() => setShowForm(!showForm)}>
                 <Plus className="w-4 h-4 mr-2" />
@@ -208,9 +225,22 @@ export default function EmergencyContacts() {
                             Relationship: {contact.relationship}
                           </p>
                         )}
+                        {!normalizePhoneNumber(contact.phone) && (
+                          <p className="text-sm text-destructive">
+                            Add the country code (e.g. +1) so this number can receive text messages
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => sendTestMessage(contact)}
+                        title="Send a test message"
+                      >
+                        <Send className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -232,6 +262,8 @@ export default function EmergencyContacts() {
             </div>
           </CardContent>
         </Card>
+
+        <SosHistory />
       </div>
     </PatientLayout>
   );
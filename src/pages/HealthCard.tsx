@@ -3,12 +3,18 @@ import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { HealthCard as HealthCardComponent } from "@/components/HealthCard";
 import { PatientLayout } from "@/components/layouts/PatientLayout";
+import { FhirExportButton } from "@/components/FhirExportButton";
+import { HealthCardLinkSettings, type HealthCardLinkRow } from "@/components/HealthCardLinkSettings";
+import { HealthCardScanLog } from "@/components/HealthCardScanLog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Download, Share2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { toPng } from "html-to-image";
+import { healthCardPath } from "@/lib/healthCard";
+
+const LINK_COLUMNS = "id, token, fields, pin_hash, expires_at, enabled, rotated_at";
 
 const HealthCard = () => {
   const { user } = useAuth();
@@ -17,6 +23,7 @@ const HealthCard = () => {
   const [emergencyContact, setEmergencyContact] = useState<any>(null);
   const [allergies, setAllergies] = useState<any[]>([]);
   const [medications, setMedications] = useState<any[]>([]);
+  const [cardLink, setCardLink] = useState<HealthCardLinkRow | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -30,14 +37,26 @@ const HealthCard = () => {
 
     setLoading(true);
     try {
-      const [profileRes, emergencyRes, allergiesRes, medicationsRes] = await Promise.all([
+      const [profileRes, emergencyRes, allergiesRes, medicationsRes, linkRes] = await Promise.all([
         supabase.from("health_profiles").select("*").eq("user_id", user.id).single(),
         supabase.from("emergency_contacts").select("*").eq("user_id", user.id).eq("is_primary", true).single(),
         supabase.from("allergies").select("*").eq("user_id", user.id),
         supabase.from("medications").select("*").eq("user_id", user.id),
+        supabase.from("health_card_links").select(LINK_COLUMNS).eq("user_id", user.id).maybeSingle(),
       ]);
 
       if (profileRes.data) setHealthProfile(profileRes.data);
+      if (linkRes.data) {
+        setCardLink(linkRes.data);
+      } else if (profileRes.data) {
+        // Profiles get a link when created; this covers any made before that
+        const { data: created } = await supabase
+          .from("health_card_links")
+          .insert({ user_id: user.id })
+          .select(LINK_COLUMNS)
+          .single();
+        if (created) setCardLink(created);
+      }
       if (emergencyRes.data) setEmergencyContact(emergencyRes.data);
       if (allergiesRes.data) setAllergies(allergiesRes.data);
       if (medicationsRes.data) setMedications(medicationsRes.data);
@@ -82,21 +101,23 @@ const HealthCard = () => {
     }
   };
 
+  const cardUrl = cardLink ? `${window.location.origin}${healthCardPath(cardLink.token)}` : null;
+
   const handleShare = async () => {
-    const shareUrl = `${window.location.origin}/health-card/${healthProfile?.health_id}`;
-    
+    if (!cardUrl) return;
+
     if (navigator.share) {
       try {
         await navigator.share({
           title: "My Digital Health Card",
           text: "View my digital health card",
-          url: shareUrl,
+          url: cardUrl,
         });
       } catch (err) {
         console.log("Share failed:", err);
       }
     } else {
-      navigator.clipboard.writeText(shareUrl);
+      navigator.clipboard.writeText(cardUrl);
       toast({
         title: "Link copied!",
         description: "Health card link copied to clipboard",
@@ -121,6 +142,7 @@ const HealthCard = () => {
               <Download className="w-4 h-4 mr-2" />
               Download
             </Button>
+            {healthProfile && <FhirExportButton healthId={healthProfile.health_id} />}
           </div>
         </div>
 
@@ -135,6 +157,7 @@ const HealthCard = () => {
             allergies={allergies}
             medications={medications}
             userName={user?.email || "User"}
+            cardUrl={cardLink?.enabled ? cardUrl : null}
           />
         ) : (
           <Card className="p-8 text-center">
@@ -144,11 +167,18 @@ const HealthCard = () => {
           </Card>
         )}
 
+        {cardLink && user && (
+          <>
+            <HealthCardLinkSettings link={cardLink} onChange={setCardLink} />
+            <HealthCardScanLog userId={user.id} refreshKey={cardLink.token} />
+          </>
+        )}
+
         <div className="bg-muted/50 rounded-lg p-6 space-y-4">
           <h3 className="font-semibold text-lg">About Your Digital Health Card</h3>
           <ul className="space-y-2 text-sm text-muted-foreground">
-            <li>• Your health card is secured with encryption and only accessible to you</li>
-            <li>• The QR code provides quick access to your critical medical information</li>
+            <li>• The QR code opens only the information you choose under Emergency Access</li>
+            <li>• Every scan is recorded in your scan history; rotate the code if a copy goes missing</li>
             <li>• You can share this card with healthcare providers during emergencies</li>
             <li>• All data is stored securely and complies with healthcare privacy standards</li>
           </ul>
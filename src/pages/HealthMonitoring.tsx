@@ -4,10 +4,14 @@ import { useAuth } from "@/contexts/AuthContext";
 import { PatientLayout } from "@/components/layouts/PatientLayout";
 import { VitalSignsForm } from "@/components/VitalSignsForm";
 import { HealthCharts } from "@/components/HealthCharts";
+import { DeviceManager } from "@/components/DeviceManager";
+import { VitalAlerts } from "@/components/VitalAlerts";
+import { AlertRulesEditor } from "@/components/AlertRulesEditor";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Activity, Calendar, TrendingUp } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Activity, AlertTriangle, Calendar, TrendingUp } from "lucide-react";
 
 interface VitalSign {
   id: string;
@@ -19,6 +23,8 @@ interface VitalSign {
   weight: number | null;
   temperature: number | null;
   oxygen_saturation: number | null;
+  is_flagged: boolean;
+  flag_reasons: string[] | null;
 }
 
 export default function HealthMonitoring() {
@@ -99,7 +105,16 @@ export default function HealthMonitoring() {
                 Recorded on {new Date(latestVitals.recorded_at).toLocaleString()}
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
+              {latestVitals.is_flagged && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Reading flagged for review</AlertTitle>
+                  <AlertDescription>
+                    {latestVitals.flag_reasons?.join(". ")}. This reading is excluded from predictions.
+                  </AlertDescription>
+                </Alert>
+              )}
               <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
                 {latestVitals.blood_pressure_systolic && latestVitals.blood_pressure_diastolic && (
                   <div className="space-y-1">
@@ -135,7 +150,7 @@ export default function HealthMonitoring() {
                   <div className="space-y-1">
                     <p className="text-xs text-muted-foreground">Temperature</p>
                     <p className="text-2xl font-bold">{latestVitals.temperature}</p>
-                    <p className="text-xs text-muted-foreground">°F</p>
+                    <p className="text-xs text-muted-foreground">°C</p>
                   </div>
                 )}
                 {latestVitals.oxygen_saturation && (
@@ -150,10 +165,14 @@ export default function HealthMonitoring() {
           </Card>
         )}
 
+        {user && <VitalAlerts patientId={user.id} />}
+
         <Tabs defaultValue="record" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="record">Record Vitals</TabsTrigger>
             <TabsTrigger value="trends">View Trends</TabsTrigger>
+            <TabsTrigger value="devices">Devices</TabsTrigger>
+            <TabsTrigger value="alerts">Alert Rules</TabsTrigger>
           </TabsList>
 
           <TabsContent value="record" className="space-y-4">
@@ -210,6 +229,14 @@ export default function HealthMonitoring() {
               <HealthCharts vitalSigns={vitalSigns} dateRange={dateRange} />
             )}
           </TabsContent>
+
+          <TabsContent value="devices" className="space-y-4">
+            <DeviceManager />
+          </TabsContent>
+
+          <TabsContent value="alerts" className="space-y-4">
+            {user && <AlertRulesEditor patientId={user.id} />}
+          </TabsContent>
         </Tabs>
       </div>
     </PatientLayout>
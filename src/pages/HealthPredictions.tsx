@@ -8,6 +8,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import type { RiskResult as PredictionResult } from "@/lib/healthPredictions";
 import {   Brain,
   TrendingUp,
   TrendingDown,
@@ -22,19 +23,6 @@ import {   Brain,
   AlertCircle
 } from "lucide-react";
 
-interface PredictionResult {
-  riskLevel: 'low' | 'moderate' | 'high' | 'very-high';
-  riskScore: number;
-  riskPercentage: number;
-  confidence: number;
-  factors: Array<{
-    name: string;
-    impact: 'positive' | 'negative' | 'neutral';
-    description: string;
-  }>;
-  recommendations: string[];
-}
-
 interface PredictionsData {
   cardiovascular: PredictionResult;
   diabetes: PredictionResult;
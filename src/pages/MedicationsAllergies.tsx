@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -8,9 +8,15 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Pill, AlertTriangle, Plus, Trash2 } from "lucide-react";
+import { Pill, AlertTriangle, Plus, Trash2, FileText, Check, X } from "lucide-react";
 import { format } from "date-fns";
 import { PatientLayout } from "@/components/layouts/PatientLayout";
+import { InteractionWarnings } from "@/components/InteractionWarnings";
+import { checkMedication, checkMedicationList, SEVERITY_RANK } from "@/lib/drugInteractions";
+import { MedicationScheduleFields, type ScheduleDraft } from "@/components/MedicationScheduleFields";
+import { describeSchedule, type ScheduleRow } from "@/lib/medicationSchedule";
+import { PrescriptionList } from "@/components/PrescriptionList";
+import { PRESCRIPTION_SELECT, type PrescriptionDocumentData } from "@/lib/prescriptions";
 
 type Medication = {
   id: string;
@@ -21,6 +27,7 @@ type Medication = {
   end_date: string | null;
   prescribing_doctor: string | null;
   notes: string | null;
+  medication_schedules: ScheduleRow[];
 };
 
 type Allergy = {
@@ -31,6 +38,31 @@ type Allergy = {
   diagnosed_date: string | null;
 };
 
+const emptyScheduleDraft = (): ScheduleDraft => ({
+  mode: "none",
+  days: [],
+  max_daily_doses: "",
+  steps: [{ dose: "", times: ["08:00"], start_date: "", end_date: "" }],
+});
+
+// Schedules are stored as wall-clock times in the patient's own time zone
+const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+function validateSchedule(draft: ScheduleDraft): string | null {
+  if (draft.mode !== "scheduled") return null;
+  for (const [index, step] of draft.steps.entries()) {
+    if (step.times.length === 0 || step.times.some((time) => !time)) return "Every dose needs a time";
+    if (step.end_date && step.start_date && step.end_date < step.start_date) return "A schedule can't end before it starts";
+    if (draft.steps.length > 1) {
+      if (!step.start_date) return "Each taper step needs a start date";
+      if (index < draft.steps.length - 1 && !step.end_date) return "Every taper step except the last needs an end date";
+      const previous = draft.steps[index - 1];
+      if (previous && step.start_date <= previous.end_date) return "Taper steps can't overlap";
+    }
+  }
+  return null;
+}
+
 export default function MedicationsAllergies() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -38,6 +70,10 @@ export default function MedicationsAllergies() {
   const [allergies, setAllergies] = useState<Allergy[]>([]);
   const [showMedicationForm, setShowMedicationForm] = useState(false);
   const [showAllergyForm, setShowAllergyForm] = useState(false);
+  const [confirmInteractions, setConfirmInteractions] = useState(false);
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleDraft>(emptyScheduleDraft);
+  const [prescriptions, setPrescriptions] = useState<PrescriptionDocumentData[]>([]);
+  const [profile, setProfile] = useState<PrescriptionDocumentData["patient"]>(null);
 
   const [medicationForm, setMedicationForm] = useState({
     name: "",
@@ -56,17 +92,47 @@ export default function MedicationsAllergies() {
     diagnosed_date: "",
   });
 
+  // Medications with an end date in the past no longer interact
+  const activeMedications = useMemo(
+    () => medications.filter((med) => !med.end_date || new Date(med.end_date) >= new Date()),
+    [medications]
+  );
+
+  const formWarnings = useMemo(
+    () =>
+      medicationForm.name.trim()
+        ? checkMedication(
+            medicationForm.name,
+            activeMedications.map((med) => med.name),
+            allergies.map((allergy) => allergy.allergen)
+          )
+        : [],
+    [medicationForm.name, activeMedications, allergies]
+  );
+
+  const listWarnings = useMemo(
+    () => checkMedicationList(activeMedications.map((med) => med.name), allergies.map((allergy) => allergy.allergen)),
+    [activeMedications, allergies]
+  );
+
+  const hasSeriousFormWarning = formWarnings.some((w) => SEVERITY_RANK[w.severity] >= SEVERITY_RANK.major);
+
+  useEffect(() => {
+    setConfirmInteractions(false);
+  }, [medicationForm.name]);
+
   useEffect(() => {
     if (user) {
       fetchMedications();
       fetchAllergies();
+      fetchPrescriptions();
     }
   }, [user]);
 
   const fetchMedications = async () => {
     const { data, error } = await supabase
       .from("medications")
-      .select("*")
+      .select("*, medication_schedules (*)")
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -89,31 +155,137 @@ export default function MedicationsAllergies() {
     }
   };
 
+  const fetchPrescriptions = async () => {
+    const [prescriptionsRes, profileRes] = await Promise.all([
+      supabase
+        .from("prescriptions")
+        .select(PRESCRIPTION_SELECT)
+        .eq("patient_id", user!.id)
+        .neq("status", "cancelled")
+        .order("created_at", { ascending: false }),
+      supabase.from("health_profiles").select("health_id, date_of_birth").eq("user_id", user!.id).maybeSingle(),
+    ]);
+
+    if (prescriptionsRes.error) {
+      toast({ title: "Error fetching prescriptions", description: prescriptionsRes.error.message, variant: "destructive" });
+    } else {
+      setPrescriptions(prescriptionsRes.data || []);
+    }
+    setProfile(profileRes.data);
+  };
+
+  const handleRespondToPrescription = async (prescription: PrescriptionDocumentData, accept: boolean) => {
+    const { error } = await supabase.rpc("respond_to_prescription", {
+      _prescription_id: prescription.id,
+      _accept: accept,
+    });
+
+    if (error) {
+      toast({ title: "Error updating prescription", description: error.message, variant: "destructive" });
+    } else {
+      toast({
+        title: accept ? "Prescription accepted" : "Prescription declined",
+        description: accept ? `${prescription.drug_name} was added to your medications` : undefined,
+      });
+      fetchPrescriptions();
+      if (accept) fetchMedications();
+    }
+  };
+
   const handleAddMedication = async () => {
     if (!medicationForm.name) {
       toast({ title: "Medication name required", variant: "destructive" });
       return;
     }
 
-    const { error } = await supabase.from("medications").insert({
-      user_id: user!.id,
-      name: medicationForm.name,
-      dosage: medicationForm.dosage || null,
-      frequency: medicationForm.frequency || null,
-      start_date: medicationForm.start_date || null,
-      end_date: medicationForm.end_date || null,
-      prescribing_doctor: medicationForm.prescribing_doctor || null,
-      notes: medicationForm.notes || null,
-    });
+    // Major and contraindicated interactions need a second, deliberate click
+    if (hasSeriousFormWarning && !confirmInteractions) {
+      setConfirmInteractions(true);
+      toast({
+        title: "Serious interaction detected",
+        description: "Review the warnings below. Click \"Save Anyway\" to add this medication.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const scheduleError = validateSchedule(scheduleDraft);
+    if (scheduleError) {
+      toast({ title: "Check the schedule", description: scheduleError, variant: "destructive" });
+      return;
+    }
+
+    const timezone = localTimeZone();
+    const today = new Date().toLocaleDateString("en-CA", { timeZone: timezone });
+    const medicationStart = medicationForm.start_date || today;
+
+    const scheduleRows =
+      scheduleDraft.mode === "none"
+        ? []
+        : scheduleDraft.mode === "as_needed"
+          ? [{
+              dose: medicationForm.dosage || null,
+              times_of_day: [],
+              days_of_week: null,
+              as_needed: true,
+              max_daily_doses: scheduleDraft.max_daily_doses ? Number(scheduleDraft.max_daily_doses) : null,
+              start_date: medicationStart,
+              end_date: medicationForm.end_date || null,
+              timezone,
+            }]
+          : scheduleDraft.steps.map((step, index) => ({
+              dose: step.dose || medicationForm.dosage || null,
+              times_of_day: [...step.times].sort(),
+              days_of_week: scheduleDraft.days.length > 0 && scheduleDraft.days.length < 7 ? scheduleDraft.days : null,
+              as_needed: false,
+              max_daily_doses: null,
+              start_date: step.start_date || medicationStart,
+              end_date: step.end_date || (index === scheduleDraft.steps.length - 1 ? medicationForm.end_date || null : null),
+              timezone,
+            }));
+
+    const { data: medication, error } = await supabase
+      .from("medications")
+      .insert({
+        user_id: user!.id,
+        name: medicationForm.name,
+        dosage: medicationForm.dosage || scheduleRows[0]?.dose || null,
+        frequency:
+          medicationForm.frequency ||
+          (scheduleRows.length > 0
+            ? describeSchedule({ ...scheduleRows[0], dose: null }) + (scheduleRows.length > 1 ? ", tapering" : "")
+            : null),
+        start_date: medicationForm.start_date || null,
+        end_date: medicationForm.end_date || null,
+        prescribing_doctor: medicationForm.prescribing_doctor || null,
+        notes: medicationForm.notes || null,
+      })
+      .select("id")
+      .single();
 
     if (error) {
       toast({ title: "Error adding medication", description: error.message, variant: "destructive" });
-    } else {
-      toast({ title: "Medication added successfully" });
-      setMedicationForm({ name: "", dosage: "", frequency: "", start_date: "", end_date: "", prescribing_doctor: "", notes: "" });
-      setShowMedicationForm(false);
-      fetchMedications();
+      return;
+    }
+
+    if (scheduleRows.length > 0) {
+      const { error: scheduleInsertError } = await supabase
+        .from("medication_schedules")
+        .insert(scheduleRows.map((row) => ({ ...row, medication_id: medication.id, user_id: user!.id })));
+
+      if (scheduleInsertError) {
+        toast({ title: "Medication added, but its schedule could not be saved", description: scheduleInsertError.message, variant: "destructive" });
+      }
     }
+
+    toast({
+      title: "Medication added successfully",
+      description: formWarnings.length > 0 ? `${formWarnings.length} interaction warning(s) will be shown to your doctor` : undefined,
+    });
+    setMedicationForm({ name: "", dosage: "", frequency: "", start_date: "", end_date: "", prescribing_doctor: "", notes: "" });
+    setScheduleDraft(emptyScheduleDraft());
+    setShowMedicationForm(false);
+    fetchMedications();
   };
 
   const handleAddAllergy = async () => {
@@ -168,6 +340,39 @@ export default function MedicationsAllergies() {
           <p className="text-muted-foreground">Track your medications and allergies</p>
         </div>
 
+        {/* Prescriptions */}
+        {prescriptions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="w-5 h-5" />
+                Prescriptions
+              </CardTitle>
+              <CardDescription>Accept a prescription to add it to your medications</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PrescriptionList
+                prescriptions={prescriptions}
+                patient={profile}
+                actions={(rx) =>
+                  rx.status === "pending" && (
+                    <>
+                      <Button size="sm" className="gap-2" onClick={() => handleRespondToPrescription(rx, true)}>
+                        <Check className="w-4 h-4" />
+                        Accept
+                      </Button>
+                      <Button size="sm" variant="outline" className="gap-2" onClick={() => handleRespondToPrescription(rx, false)}>
+                        <X className="w-4 h-4" />
+                        Decline
+                      </Button>
+                    </>
+                  )
+                }
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Medications */}
         <Card>
           <CardHeader>
@@ -253,13 +458,24 @@ export default function MedicationsAllergies() {
                     onChange={(e) => setMedicationForm({ ...medicationForm, notes: e.target.value })}
                   />
                 </div>
+                <MedicationScheduleFields value={scheduleDraft} onChange={setScheduleDraft} />
+                <InteractionWarnings warnings={formWarnings} />
                 <div className="flex gap-2">
-                  <Button onClick={handleAddMedication}>Save Medication</Button>
+                  <Button
+                    variant={confirmInteractions ? "destructive" : "default"}
+                    onClick={handleAddMedication}
+                  >
+                    {confirmInteractions ? "Save Anyway" : "Save Medication"}
+                  </Button>
                   <Button variant="outline" onClick={() => setShowMedicationForm(false)}>Cancel</Button>
                 </div>
               </div>
             )}
 
+            {listWarnings.length > 0 && !showMedicationForm && (
+              <InteractionWarnings warnings={listWarnings} />
+            )}
+
             <div className="space-y-4">
               {medications.map((med) => (
                 <div key={med.id} className="p-4 border border-border rounded-lg">
@@ -268,6 +484,16 @@ export default function MedicationsAllergies() {
                       <p className="font-semibold">{med.name}</p>
                       {med.dosage && <p className="text-sm">Dosage: {med.dosage}</p>}
                       {med.frequency && <p className="text-sm">Frequency: {med.frequency}</p>}
+                      {med.medication_schedules.length > 1 &&
+                        [...med.medication_schedules]
+                          .sort((a, b) => a.start_date.localeCompare(b.start_date))
+                          .map((schedule) => (
+                            <p key={schedule.id} className="text-sm text-muted-foreground">
+                              {format(new Date(`${schedule.start_date}T00:00:00`), "MMM dd")}
+                              {schedule.end_date && ` – ${format(new Date(`${schedule.end_date}T00:00:00`), "MMM dd")}`}:{" "}
+                              {describeSchedule(schedule)}
+                            </p>
+                          ))}
                       {med.prescribing_doctor && <p className="text-sm">Doctor: {med.prescribing_doctor}</p>}
                       {med.start_date && (
                         <p className="text-sm text-muted-foreground">
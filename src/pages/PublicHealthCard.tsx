@@ -3,71 +3,75 @@ import { useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { HealthCard as HealthCardComponent } from "@/components/HealthCard";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertTriangle } from "lucide-react";
+import { AlertTriangle, KeyRound } from "lucide-react";
 
+type PublicCard = {
+  healthProfile: {
+    health_id: string;
+    blood_type?: string;
+    date_of_birth?: string;
+    gender?: string;
+    height?: number;
+    weight?: number;
+  };
+  emergencyContact?: { name: string; phone: string; relationship: string };
+  allergies: Array<{ allergen: string; severity?: string }>;
+  medications: Array<{ name: string; dosage?: string }>;
+};
+
+// Opened from the QR code on a health card. The token in the URL is the only
+// credential; the health-card function returns just the fields the patient
+// shares, asks for their PIN if they set one, and logs the scan.
 const PublicHealthCard = () => {
-  const { healthId } = useParams();
-  const [healthProfile, setHealthProfile] = useState<any>(null);
-  const [emergencyContact, setEmergencyContact] = useState<any>(null);
-  const [allergies, setAllergies] = useState<any[]>([]);
-  const [medications, setMedications] = useState<any[]>([]);
+  const { token } = useParams();
+  const [card, setCard] = useState<PublicCard | null>(null);
+  const [pinRequired, setPinRequired] = useState(false);
+  const [pin, setPin] = useState("");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (healthId) {
-      fetchPublicHealthCardData();
+    if (token) {
+      fetchCard();
     }
-  }, [healthId]);
+  }, [token]);
 
-  const fetchPublicHealthCardData = async () => {
-    if (!healthId) return;
+  const fetchCard = async (withPin?: string) => {
+    if (!token) return;
 
     setLoading(true);
     setError(null);
-    try {
-      // Fetch health profile by health_id
-      const { data: profile, error: profileError } = await supabase
-        .from("health_profiles")
-        .select("*")
-        .eq("health_id", healthId)
-        .single();
-
-      if (profileError) throw profileError;
-      if (!profile) {
-        setError("Health card not found");
-        setLoading(false);
-        return;
-      }
+    const { data, error: invokeError } = await supabase.functions.invoke("health-card", {
+      body: { token, pin: withPin },
+    });
+    setLoading(false);
 
-      setHealthProfile(profile);
-
-      // Fetch related data
-      const [emergencyRes, allergiesRes, medicationsRes] = await Promise.all([
-        supabase
-          .from("emergency_contacts")
-          .select("*")
-          .eq("user_id", profile.user_id)
-          .eq("is_primary", true)
-          .maybeSingle(),
-        supabase.from("allergies").select("*").eq("user_id", profile.user_id),
-        supabase.from("medications").select("*").eq("user_id", profile.user_id),
-      ]);
-
-      if (emergencyRes.data) setEmergencyContact(emergencyRes.data);
-      if (allergiesRes.data) setAllergies(allergiesRes.data);
-      if (medicationsRes.data) setMedications(medicationsRes.data);
-    } catch (err: any) {
-      console.error("Error fetching public health card data:", err);
-      setError("Unable to load health card data");
-    } finally {
-      setLoading(false);
+    if (invokeError || !data?.status) {
+      console.error("Error fetching public health card:", invokeError || data);
+      setPinRequired(false);
+      setError("This health card link is not valid or is no longer active");
+    } else if (data.status === "locked") {
+      setPinRequired(true);
+      setError(`Too many incorrect PINs. Try again in ${data.retryAfterMinutes} minutes.`);
+    } else if (data.status === "pin_required") {
+      setPinRequired(true);
+      if (data.error) setError(data.error);
+    } else {
+      setPinRequired(false);
+      setCard(data.card);
     }
   };
 
-  if (loading) {
+  const handleUnlock = () => {
+    fetchCard(pin);
+    setPin("");
+  };
+
+  if (loading && !pinRequired) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background flex items-center justify-center p-6">
         <Card className="p-8 w-full max-w-2xl">
@@ -77,7 +81,42 @@ const PublicHealthCard = () => {
     );
   }
 
-  if (error || !healthProfile) {
+  if (pinRequired && !card) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-primary" />
+              PIN Required
+            </CardTitle>
+            <CardDescription>The card holder protects their health card with a PIN</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <Input
+              type="password"
+              inputMode="numeric"
+              placeholder="PIN"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 8))}
+              onKeyDown={(e) => e.key === "Enter" && pin && handleUnlock()}
+            />
+            <Button className="w-full" onClick={handleUnlock} disabled={loading || !pin}>
+              Open Health Card
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (error || !card) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background flex items-center justify-center p-6">
         <Alert variant="destructive" className="max-w-md">
@@ -94,10 +133,10 @@ const PublicHealthCard = () => {
     <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background flex items-center justify-center p-6">
       <div className="w-full max-w-2xl">
         <HealthCardComponent
-          healthProfile={healthProfile}
-          emergencyContact={emergencyContact}
-          allergies={allergies}
-          medications={medications}
+          healthProfile={card.healthProfile}
+          emergencyContact={card.emergencyContact}
+          allergies={card.allergies}
+          medications={card.medications}
           userName="Patient"
         />
       </div>
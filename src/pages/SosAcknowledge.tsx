@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, CheckCircle2, CreditCard, Loader2, MapPin, Siren } from "lucide-react";
+import { mapsUrl } from "@/lib/sos";
+import { healthCardPath } from "@/lib/healthCard";
+
+type Acknowledgement = {
+  status: string;
+  patient: string;
+  contactName: string;
+  acknowledgedAt: string;
+  reason: string | null;
+  message: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  cardToken: string | null;
+  createdAt: string;
+};
+
+// Opened from the link in an SOS alert. Acknowledging is a button press
+// rather than on page load, so link previews in mail and chat apps don't
+// acknowledge on the contact's behalf.
+const SosAcknowledge = () => {
+  const { token } = useParams();
+  const [acknowledgement, setAcknowledgement] = useState<Acknowledgement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const acknowledge = async () => {
+    setLoading(true);
+    setError(null);
+    const { data, error: invokeError } = await supabase.functions.invoke("sos", {
+      body: { action: "acknowledge", token },
+    });
+    setLoading(false);
+
+    if (invokeError || !data?.success) {
+      console.error("Error acknowledging SOS:", invokeError || data);
+      setError("This link is not valid or has expired");
+    } else {
+      setAcknowledgement(data);
+    }
+  };
+
+  const closed = acknowledgement && ["resolved", "cancelled"].includes(acknowledgement.status);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background flex items-center justify-center p-6">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <Siren className="h-5 w-5" />
+            Emergency SOS
+          </CardTitle>
+          <CardDescription>
+            {acknowledgement
+              ? `Raised ${format(new Date(acknowledgement.createdAt), "PPp")}`
+              : "Let them know you received the alert and are responding"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {!acknowledgement ? (
+            <Button className="w-full" size="lg" onClick={acknowledge} disabled={loading || !token}>
+              {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+              I'm responding
+            </Button>
+          ) : (
+            <>
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertDescription>
+                  {closed
+                    ? `${acknowledgement.patient} has ${acknowledgement.status} this SOS. No further action is needed.`
+                    : `Thank you, ${acknowledgement.contactName}. ${acknowledgement.patient} has been told you are responding.`}
+                </AlertDescription>
+              </Alert>
+
+              {acknowledgement.reason && (
+                <p className="text-sm"><span className="font-medium">Reason:</span> {acknowledgement.reason}</p>
+              )}
+              {acknowledgement.message && (
+                <p className="text-sm"><span className="font-medium">Message:</span> "{acknowledgement.message}"</p>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {acknowledgement.latitude !== null && acknowledgement.longitude !== null && (
+                  <Button variant="outline" asChild>
+                    <a href={mapsUrl(acknowledgement.latitude, acknowledgement.longitude)} target="_blank" rel="noreferrer">
+                      <MapPin className="h-4 w-4 mr-2" />
+                      Open location
+                    </a>
+                  </Button>
+                )}
+                {acknowledgement.cardToken && (
+                  <Button variant="outline" asChild>
+                    <a href={healthCardPath(acknowledgement.cardToken)}>
+                      <CreditCard className="h-4 w-4 mr-2" />
+                      Emergency health card
+                    </a>
+                  </Button>
+                )}
+              </div>
+
+              {!closed && (
+                <p className="text-sm text-muted-foreground">
+                  If they may be in danger, call your local emergency number.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SosAcknowledge;
@@ -0,0 +1,343 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { AdminLayout } from "@/components/layouts/AdminLayout";
+import { VerifiedBadge } from "@/components/VerifiedBadge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  VERIFICATION_BUCKET,
+  VERIFICATION_DOCUMENT_TYPES,
+  isAwaitingReview,
+  type VerificationDocumentType,
+} from "@/lib/doctorVerification";
+import { BadgeCheck, Check, ExternalLink, FileText, Loader2, X } from "lucide-react";
+
+type QueueDoctor = {
+  id: string;
+  full_name: string;
+  specialization: string | null;
+  license_number: string | null;
+  email: string | null;
+  phone: string | null;
+  clinic_name: string | null;
+  created_at: string;
+  verification_status: string;
+  verification_submitted_at: string | null;
+  verification_reviewed_at: string | null;
+  verification_rejection_reason: string | null;
+};
+
+type QueueDocument = {
+  id: string;
+  doctor_id: string;
+  document_type: string;
+  file_path: string;
+  file_name: string;
+  uploaded_at: string;
+};
+
+type QueueFilter = "waiting" | "not_submitted" | "verified" | "rejected";
+
+const QUEUE_FILTERS: Record<QueueFilter, string> = {
+  waiting: "Waiting for review",
+  not_submitted: "Not submitted yet",
+  verified: "Verified",
+  rejected: "Rejected",
+};
+
+const MAX_DOCTORS = 200;
+
+const DoctorVerifications = () => {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<QueueFilter>("waiting");
+  const [doctors, setDoctors] = useState<QueueDoctor[]>([]);
+  const [documents, setDocuments] = useState<QueueDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<QueueDoctor | null>(null);
+  const [reason, setReason] = useState("");
+
+  const fetchQueue = async () => {
+    setLoading(true);
+
+    let query = supabase
+      .from("doctors")
+      .select(
+        "id, full_name, specialization, license_number, email, phone, clinic_name, created_at, verification_status, verification_submitted_at, verification_reviewed_at, verification_rejection_reason"
+      )
+      .limit(MAX_DOCTORS);
+
+    if (filter === "waiting") {
+      query = query
+        .eq("verification_status", "pending_verification")
+        .not("verification_submitted_at", "is", null)
+        .order("verification_submitted_at");
+    } else if (filter === "not_submitted") {
+      query = query
+        .eq("verification_status", "pending_verification")
+        .is("verification_submitted_at", null)
+        .order("created_at", { ascending: false });
+    } else {
+      query = query.eq("verification_status", filter).order("verification_reviewed_at", { ascending: false });
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching doctors for verification:", error);
+      setLoading(false);
+      return;
+    }
+
+    const doctorIds = (data || []).map((doctor) => doctor.id);
+    const { data: documentData, error: documentError } = doctorIds.length
+      ? await supabase
+          .from("doctor_verification_documents")
+          .select("id, doctor_id, document_type, file_path, file_name, uploaded_at")
+          .in("doctor_id", doctorIds)
+          .order("uploaded_at")
+      : { data: [], error: null };
+
+    if (documentError) {
+      console.error("Error fetching verification documents:", documentError);
+    }
+
+    setDoctors(data || []);
+    setDocuments(documentData || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, [filter]);
+
+  const handleView = async (doc: QueueDocument) => {
+    const { data, error } = await supabase.storage.from(VERIFICATION_BUCKET).createSignedUrl(doc.file_path, 60);
+
+    if (error || !data) {
+      toast({ title: "Error", description: "Failed to open document", variant: "destructive" });
+      return;
+    }
+    window.open(data.signedUrl, "_blank", "noopener");
+  };
+
+  const review = async (doctor: QueueDoctor, approve: boolean, rejectionReason?: string) => {
+    setReviewing(doctor.id);
+    const { error } = await supabase.rpc("review_doctor_verification", {
+      _doctor_id: doctor.id,
+      _approve: approve,
+      _reason: rejectionReason,
+    });
+    setReviewing(null);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save review",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: approve ? "Doctor verified" : "Verification rejected",
+      description: approve
+        ? `${doctor.full_name} can now be found by patients`
+        : `${doctor.full_name} has been told why and lost any access they held`,
+    });
+    fetchQueue();
+    return true;
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !reason.trim()) return;
+    if (await review(rejecting, false, reason.trim())) {
+      setRejecting(null);
+      setReason("");
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Doctor Verification</h1>
+            <p className="text-muted-foreground">Check each doctor's license and ID before patients can find them</p>
+          </div>
+          <div className="space-y-2 w-56">
+            <Label>Show</Label>
+            <Select value={filter} onValueChange={(value) => setFilter(value as QueueFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.entries(QUEUE_FILTERS) as [QueueFilter, string][]).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : doctors.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <BadgeCheck className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-muted-foreground">
+                {filter === "waiting" ? "No doctors are waiting for review" : "No doctors here"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {doctors.map((doctor) => {
+              const doctorDocuments = documents.filter((doc) => doc.doctor_id === doctor.id);
+              return (
+                <Card key={doctor.id}>
+                  <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                    <div className="space-y-1.5">
+                      <CardTitle className="flex items-center gap-2">
+                        Dr. {doctor.full_name}
+                        <VerifiedBadge status={doctor.verification_status} showUnverified />
+                      </CardTitle>
+                      <CardDescription>
+                        {doctor.verification_submitted_at
+                          ? `Submitted ${format(new Date(doctor.verification_submitted_at), "PPp")}`
+                          : `Signed up ${format(new Date(doctor.created_at), "PP")}`}
+                        {doctor.verification_reviewed_at &&
+                          ` • Reviewed ${format(new Date(doctor.verification_reviewed_at), "PPp")}`}
+                      </CardDescription>
+                    </div>
+                    {isAwaitingReview(doctor) && (
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => review(doctor, true)} disabled={reviewing === doctor.id}>
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-destructive"
+                          onClick={() => setRejecting(doctor)}
+                          disabled={reviewing === doctor.id}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <dl className="grid gap-x-6 gap-y-2 text-sm sm:grid-cols-2 lg:grid-cols-3">
+                      {[
+                        { label: "License number", value: doctor.license_number },
+                        { label: "Specialization", value: doctor.specialization },
+                        { label: "Clinic", value: doctor.clinic_name },
+                        { label: "Email", value: doctor.email },
+                        { label: "Phone", value: doctor.phone },
+                      ].map((field) => (
+                        <div key={field.label}>
+                          <dt className="text-muted-foreground">{field.label}</dt>
+                          <dd className="font-medium">{field.value || "—"}</dd>
+                        </div>
+                      ))}
+                    </dl>
+
+                    {doctor.verification_rejection_reason && (
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">Rejected because: </span>
+                        {doctor.verification_rejection_reason}
+                      </p>
+                    )}
+
+                    {doctorDocuments.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No documents uploaded</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {doctorDocuments.map((doc) => (
+                          <Button key={doc.id} size="sm" variant="outline" onClick={() => handleView(doc)}>
+                            <FileText className="h-4 w-4 mr-2" />
+                            {VERIFICATION_DOCUMENT_TYPES[doc.document_type as VerificationDocumentType] ??
+                              doc.document_type}
+                            : {doc.file_name}
+                            <ExternalLink className="h-3 w-3 ml-2" />
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+            {doctors.length === MAX_DOCTORS && (
+              <p className="text-xs text-muted-foreground">Showing the first {MAX_DOCTORS} doctors</p>
+            )}
+          </div>
+        )}
+
+        <Dialog
+          open={rejecting !== null}
+          onOpenChange={(open) => {
+            if (!open) {
+              setRejecting(null);
+              setReason("");
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject Dr. {rejecting?.full_name}?</DialogTitle>
+              <DialogDescription>
+                The doctor sees this reason and can submit new documents. Any access patients gave them is revoked and
+                those patients are told.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="rejection_reason">Reason</Label>
+              <Textarea
+                id="rejection_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g., The license number does not match the uploaded license"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRejecting(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleReject}
+                disabled={!reason.trim() || reviewing === rejecting?.id}
+              >
+                Reject
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default DoctorVerifications;
@@ -3,7 +3,7 @@ import { useNavigate } from "react-router-dom";
 import { DoctorLayout } from "@/components/layouts/DoctorLayout";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, Video, MapPin, Check, X, FileText, StickyNote } from "lucide-react";
+import { Calendar, Clock, Video, MapPin, FileText, StickyNote, Pill, CalendarClock, Repeat } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
@@ -15,6 +15,24 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { PrescriptionDialog } from "@/components/PrescriptionDialog";
+import { AppointmentActions } from "@/components/AppointmentActions";
+import { AppointmentTimeline } from "@/components/AppointmentTimeline";
+import { ProposeTimeDialog } from "@/components/ProposeTimeDialog";
+import { AppointmentSeriesGroup } from "@/components/AppointmentSeriesGroup";
+import { AddToCalendarButton } from "@/components/AddToCalendarButton";
+import type { ReschedulableAppointment } from "@/components/RescheduleAppointmentDialog";
+import { appointmentStatusColor, appointmentStatusLabel, isActiveAppointment } from "@/lib/appointmentStatus";
+import { groupAppointmentsBySeries } from "@/lib/appointmentSeries";
+
+interface Proposal {
+  id: string;
+  appointment_id: string;
+  proposed_time: string;
+}
+
+const formatDateTime = (instant: string) =>
+  new Date(instant).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
 
 const DoctorAppointments = () => {
   const { user } = useAuth();
@@ -22,9 +40,18 @@ const DoctorAppointments = () => {
   const navigate = useNavigate();
   const [appointments, setAppointments] = useState<any[]>([]);
   const [doctorId, setDoctorId] = useState<string | null>(null);
+  const [doctorProfile, setDoctorProfile] = useState({
+    timezone: "UTC",
+    cancellation_window_hours: 24,
+    clinic_name: null as string | null,
+    clinic_address: null as string | null,
+  });
   const [notesDialogOpen, setNotesDialogOpen] = useState(false);
   const [selectedAppointment, setSelectedAppointment] = useState<any>(null);
   const [notes, setNotes] = useState("");
+  const [prescriptionAppointment, setPrescriptionAppointment] = useState<{ id: string; patient_id: string } | null>(null);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [proposingFor, setProposingFor] = useState<ReschedulableAppointment | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -43,12 +70,18 @@ const DoctorAppointments = () => {
 
     const { data } = await supabase
       .from("doctors")
-      .select("id")
+      .select("id, timezone, cancellation_window_hours, clinic_name, clinic_address")
       .eq("user_id", user.id)
       .single();
 
     if (data) {
       setDoctorId(data.id);
+      setDoctorProfile({
+        timezone: data.timezone,
+        cancellation_window_hours: data.cancellation_window_hours,
+        clinic_name: data.clinic_name,
+        clinic_address: data.clinic_address,
+      });
     }
   };
 
@@ -57,38 +90,81 @@ const DoctorAppointments = () => {
 
     const { data, error } = await supabase
       .from("appointments")
-      .select("*")
+      .select("*, appointment_series (*)")
       .eq("doctor_id", doctorId)
       .order("scheduled_time", { ascending: true });
 
     if (!error && data) {
       setAppointments(data);
     }
+
+    const { data: proposalData } = await supabase
+      .from("appointment_proposals")
+      .select("id, appointment_id, proposed_time")
+      .eq("doctor_id", doctorId)
+      .eq("status", "pending");
+
+    setProposals(proposalData || []);
   };
 
-  const handleUpdateStatus = async (appointmentId: string, status: string) => {
+  const handleWithdrawProposal = async (proposalId: string) => {
     const { error } = await supabase
-      .from("appointments")
-      .update({ status })
-      .eq("id", appointmentId);
+      .from("appointment_proposals")
+      .update({ status: "withdrawn", responded_at: new Date().toISOString() })
+      .eq("id", proposalId);
 
     if (error) {
       toast({
         title: "Error",
-        description: "Failed to update appointment",
+        description: "Failed to withdraw proposal",
         variant: "destructive",
       });
     } else {
-      toast({
-        title: "Success",
-        description: `Appointment ${status}`,
-      });
       fetchAppointments();
     }
   };
 
-  const pendingAppointments = appointments.filter((apt) => apt.status === "pending");
-  const confirmedAppointments = appointments.filter((apt) => apt.status === "confirmed");
+  // Where the appointment was moved from, and any time proposed but not yet answered
+  const renderRescheduling = (appointment: { id: string; rescheduled_from: string | null }) => {
+    const original = appointment.rescheduled_from
+      ? appointments.find((apt) => apt.id === appointment.rescheduled_from)
+      : undefined;
+    const proposal = proposals.find((p) => p.appointment_id === appointment.id);
+
+    return (
+      <>
+        {original && (
+          <p className="text-sm text-muted-foreground">Moved from {formatDateTime(original.scheduled_time)}</p>
+        )}
+        {proposal && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+            <span>Proposed {formatDateTime(proposal.proposed_time)}, waiting for the patient</span>
+            <Button size="sm" variant="ghost" onClick={() => handleWithdrawProposal(proposal.id)}>
+              Withdraw
+            </Button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const proposeButton = (appointment: ReschedulableAppointment & { status: string }) =>
+    ["requested", "confirmed"].includes(appointment.status) && (
+      <Button size="sm" variant="outline" className="gap-2" onClick={() => setProposingFor(appointment)}>
+        <CalendarClock className="h-4 w-4" />
+        Propose Time
+      </Button>
+    );
+
+  const pendingAppointments = appointments.filter((apt) => apt.status === "requested");
+  const confirmedAppointments = appointments.filter(
+    (apt) => apt.status !== "requested" && isActiveAppointment(apt.status)
+  );
+  const pastAppointments = appointments
+    .filter((apt) => !isActiveAppointment(apt.status))
+    .reverse()
+    .slice(0, 10);
 
   const handleViewPatient = (patientId: string) => {
     navigate(`/doctor/patients/${patientId}/records`);
@@ -124,20 +200,174 @@ const DoctorAppointments = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "confirmed":
-        return "bg-green-100 text-green-800";
-      case "pending":
-        return "bg-yellow-100 text-yellow-800";
-      case "completed":
-        return "bg-blue-100 text-blue-800";
-      case "cancelled":
-        return "bg-red-100 text-red-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
-  };
+  const renderPendingCard = (appointment: (typeof appointments)[number]) => (
+    <Card key={appointment.id} className="border-yellow-200">
+      <CardContent className="p-6">
+        <div className="flex justify-between items-start">
+          <div className="space-y-3 flex-1">
+            <div>
+              <h3 className="font-semibold text-lg">Patient ID: {appointment.patient_id.slice(0, 8)}...</h3>
+              <Badge className={appointmentStatusColor(appointment.status)}>
+                {appointmentStatusLabel(appointment.status)}
+              </Badge>
+              {appointment.legacy_overlap && (
+                <Badge variant="outline" className="ml-2 border-destructive text-destructive">
+                  Overlaps another booking
+                </Badge>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-4 text-sm">
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+                <span>{new Date(appointment.scheduled_time).toLocaleDateString()}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                <span>{new Date(appointment.scheduled_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                {appointment.type === "video" ? (
+                  <>
+                    <Video className="h-4 w-4 text-muted-foreground" />
+                    <span>Video Consultation</span>
+                  </>
+                ) : (
+                  <>
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    <span>In-Person</span>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {appointment.reason && (
+              <p className="text-sm"><span className="font-medium">Reason:</span> {appointment.reason}</p>
+            )}
+
+            {renderRescheduling(appointment)}
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <AppointmentActions appointment={appointment} actor="doctor" onChanged={fetchAppointments} />
+            {proposeButton(appointment)}
+            <AddToCalendarButton
+              appointment={appointment}
+              context={{ viewer: "doctor", clinicName: doctorProfile.clinic_name, clinicAddress: doctorProfile.clinic_address }}
+            />
+            <AppointmentTimeline appointmentId={appointment.id} viewer="doctor" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const renderConfirmedCard = (appointment: (typeof appointments)[number]) => (
+    <Card key={appointment.id}>
+      <CardContent className="p-6">
+        <div className="flex justify-between items-start">
+          <div className="space-y-3 flex-1">
+            <div>
+              <h3 className="font-semibold text-lg">Patient ID: {appointment.patient_id.slice(0, 8)}...</h3>
+              <Badge className={appointmentStatusColor(appointment.status)}>
+                {appointmentStatusLabel(appointment.status)}
+              </Badge>
+              {appointment.legacy_overlap && (
+                <Badge variant="outline" className="ml-2 border-destructive text-destructive">
+                  Overlaps another booking
+                </Badge>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-4 text-sm">
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+                <span>{new Date(appointment.scheduled_time).toLocaleDateString()}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                <span>{new Date(appointment.scheduled_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                {appointment.type === "video" ? (
+                  <>
+                    <Video className="h-4 w-4 text-muted-foreground" />
+                    <span>Video Consultation</span>
+                  </>
+                ) : (
+                  <>
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    <span>In-Person</span>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {renderRescheduling(appointment)}
+
+            <div className="flex flex-wrap gap-2">
+              <AppointmentActions appointment={appointment} actor="doctor" onChanged={fetchAppointments} />
+              {proposeButton(appointment)}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Button 
+              size="sm"
+              onClick={() => handleViewPatient(appointment.patient_id)}
+              className="gap-2"
+            >
+              <FileText className="h-4 w-4" />
+              View Patient
+            </Button>
+            <Button 
+              size="sm" 
+              variant="outline"
+              onClick={() => handleOpenNotes(appointment)}
+              className="gap-2"
+            >
+              <StickyNote className="h-4 w-4" />
+              {appointment.notes ? "Edit Notes" : "Add Notes"}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setPrescriptionAppointment(appointment)}
+              className="gap-2"
+            >
+              <Pill className="h-4 w-4" />
+              Prescribe
+            </Button>
+            <AddToCalendarButton
+              appointment={appointment}
+              context={{ viewer: "doctor", clinicName: doctorProfile.clinic_name, clinicAddress: doctorProfile.clinic_address }}
+            />
+            <AppointmentTimeline appointmentId={appointment.id} viewer="doctor" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  // Visits from the same recurring series are shown together under one header
+  const renderGroups = (list: typeof appointments, renderCard: (appointment: (typeof appointments)[number]) => JSX.Element) =>
+    groupAppointmentsBySeries(list).map((group) =>
+      group.seriesId && group.appointments[0].appointment_series ? (
+        <AppointmentSeriesGroup
+          key={group.key}
+          series={group.appointments[0].appointment_series}
+          appointments={group.appointments}
+          actor="doctor"
+          timeZone={doctorProfile.timezone}
+          cancellationWindowHours={doctorProfile.cancellation_window_hours}
+          onChanged={fetchAppointments}
+        >
+          {group.appointments.map(renderCard)}
+        </AppointmentSeriesGroup>
+      ) : (
+        group.appointments.map(renderCard)
+      )
+    );
 
   return (
     <DoctorLayout>
@@ -152,70 +382,7 @@ const DoctorAppointments = () => {
           <div>
             <h2 className="text-2xl font-bold mb-4">Pending Requests</h2>
             <div className="grid gap-4">
-              {pendingAppointments.map((appointment) => (
-                <Card key={appointment.id} className="border-yellow-200">
-                  <CardContent className="p-6">
-                    <div className="flex justify-between items-start">
-                      <div className="space-y-3 flex-1">
-                        <div>
-                          <h3 className="font-semibold text-lg">Patient ID: {appointment.patient_id.slice(0, 8)}...</h3>
-                          <Badge className={getStatusColor(appointment.status)}>
-                            {appointment.status}
-                          </Badge>
-                        </div>
-
-                        <div className="flex flex-wrap gap-4 text-sm">
-                          <div className="flex items-center gap-2">
-                            <Calendar className="h-4 w-4 text-muted-foreground" />
-                            <span>{new Date(appointment.scheduled_time).toLocaleDateString()}</span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            <Clock className="h-4 w-4 text-muted-foreground" />
-                            <span>{new Date(appointment.scheduled_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            {appointment.type === "video" ? (
-                              <>
-                                <Video className="h-4 w-4 text-muted-foreground" />
-                                <span>Video Consultation</span>
-                              </>
-                            ) : (
-                              <>
-                                <MapPin className="h-4 w-4 text-muted-foreground" />
-                                <span>In-Person</span>
-                              </>
-                            )}
-                          </div>
-                        </div>
-
-                        {appointment.reason && (
-                          <p className="text-sm"><span className="font-medium">Reason:</span> {appointment.reason}</p>
-                        )}
-                      </div>
-
-                      <div className="flex gap-2">
-                        <Button
-                          size="sm"
-                          className="gap-2"
-                          onClick={() => handleUpdateStatus(appointment.id, "confirmed")}
-                        >
-                          <Check className="h-4 w-4" />
-                          Accept
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          className="gap-2"
-                          onClick={() => handleUpdateStatus(appointment.id, "cancelled")}
-                        >
-                          <X className="h-4 w-4" />
-                          Decline
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+              {renderGroups(pendingAppointments, renderPendingCard)}
             </div>
           </div>
         )}
@@ -232,69 +399,46 @@ const DoctorAppointments = () => {
             </Card>
           ) : (
             <div className="grid gap-4">
-              {confirmedAppointments.map((appointment) => (
+              {renderGroups(confirmedAppointments, renderConfirmedCard)}
+            </div>
+          )}
+        </div>
+
+        {/* Past Appointments */}
+        {pastAppointments.length > 0 && (
+          <div>
+            <h2 className="text-2xl font-bold mb-4">Past Appointments</h2>
+            <div className="grid gap-4">
+              {pastAppointments.map((appointment) => (
                 <Card key={appointment.id}>
                   <CardContent className="p-6">
                     <div className="flex justify-between items-start">
-                      <div className="space-y-3 flex-1">
-                        <div>
-                          <h3 className="font-semibold text-lg">Patient ID: {appointment.patient_id.slice(0, 8)}...</h3>
-                          <Badge className={getStatusColor(appointment.status)}>
-                            {appointment.status}
-                          </Badge>
-                        </div>
-
-                        <div className="flex flex-wrap gap-4 text-sm">
-                          <div className="flex items-center gap-2">
-                            <Calendar className="h-4 w-4 text-muted-foreground" />
-                            <span>{new Date(appointment.scheduled_time).toLocaleDateString()}</span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            <Clock className="h-4 w-4 text-muted-foreground" />
-                            <span>{new Date(appointment.scheduled_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            {appointment.type === "video" ? (
-                              <>
-                                <Video className="h-4 w-4 text-muted-foreground" />
-                                <span>Video Consultation</span>
-                              </>
-                            ) : (
-                              <>
-                                <MapPin className="h-4 w-4 text-muted-foreground" />
-                                <span>In-Person</span>
-                              </>
-                            )}
-                          </div>
-                        </div>
-                      </div>
-
-                      <div className="flex flex-col gap-2">
-                        <Button 
-                          size="sm"
-                          onClick={() => handleViewPatient(appointment.patient_id)}
-                          className="gap-2"
-                        >
-                          <FileText className="h-4 w-4" />
-                          View Patient
-                        </Button>
-                        <Button 
-                          size="sm" 
-                          variant="outline"
-                          onClick={() => handleOpenNotes(appointment)}
-                          className="gap-2"
-                        >
-                          <StickyNote className="h-4 w-4" />
-                          {appointment.notes ? "Edit Notes" : "Add Notes"}
-                        </Button>
+                      <div className="space-y-2">
+                        <h3 className="font-semibold">
+                          {appointment.patient_id ? `Patient ID: ${appointment.patient_id.slice(0, 8)}...` : "Deleted patient"}
+                        </h3>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(appointment.scheduled_time).toLocaleDateString()} at{" "}
+                          {new Date(appointment.scheduled_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                        {appointment.series_id && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Repeat className="h-3 w-3" />
+                            Recurring visit
+                          </p>
+                        )}
+                        <Badge className={appointmentStatusColor(appointment.status)}>
+                          {appointmentStatusLabel(appointment.status)}
+                        </Badge>
                       </div>
+                      <AppointmentTimeline appointmentId={appointment.id} viewer="doctor" />
                     </div>
                   </CardContent>
                 </Card>
               ))}
             </div>
-          )}
-        </div>
+          </div>
+        )}
 
         {/* Notes Dialog */}
         <Dialog open={notesDialogOpen} onOpenChange={setNotesDialogOpen}>
@@ -320,6 +464,22 @@ const DoctorAppointments = () => {
             </div>
           </DialogContent>
         </Dialog>
+
+        <ProposeTimeDialog
+          appointment={proposingFor}
+          onOpenChange={(open) => !open && setProposingFor(null)}
+          onProposed={fetchAppointments}
+        />
+
+        {doctorId && prescriptionAppointment && (
+          <PrescriptionDialog
+            open={!!prescriptionAppointment}
+            onOpenChange={(open) => !open && setPrescriptionAppointment(null)}
+            doctorId={doctorId}
+            patientId={prescriptionAppointment.patient_id}
+            appointmentId={prescriptionAppointment.id}
+          />
+        )}
       </div>
     </DoctorLayout>
   );
@@ -3,13 +3,17 @@ import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { DoctorLayout } from "@/components/layouts/DoctorLayout";
-import { Users, Calendar, AlertCircle, FileText } from "lucide-react";
+import { TriageWorklist } from "@/components/TriageWorklist";
+import { Users, Calendar, AlertCircle, FileText, ShieldAlert } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useNavigate } from "react-router-dom";
 
 const DoctorDashboard = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const [doctorId, setDoctorId] = useState<string | null>(null);
+  const [verificationStatus, setVerificationStatus] = useState<string | null>(null);
   const [stats, setStats] = useState({
     totalPatients: 0,
     todayAppointments: 0,
@@ -28,11 +32,13 @@ const DoctorDashboard = () => {
     // Get doctor profile
     const { data: doctorProfile } = await supabase
       .from("doctors")
-      .select("id")
+      .select("id, verification_status")
       .eq("user_id", user.id)
       .single();
 
     if (!doctorProfile) return;
+    setDoctorId(doctorProfile.id);
+    setVerificationStatus(doctorProfile.verification_status);
 
     // Count total patients with access
     const { count: patientsCount } = await supabase
@@ -55,7 +61,7 @@ const DoctorDashboard = () => {
       .from("appointments")
       .select("*", { count: "exact", head: true })
       .eq("doctor_id", doctorProfile.id)
-      .eq("status", "pending");
+      .eq("status", "requested");
 
     setStats({
       totalPatients: patientsCount || 0,
@@ -104,6 +110,22 @@ const DoctorDashboard = () => {
           <p className="text-white/90">Manage your patients and appointments efficiently</p>
         </div>
 
+        {/* Verification */}
+        {verificationStatus && verificationStatus !== "verified" && (
+          <Alert variant={verificationStatus === "rejected" ? "destructive" : "default"}>
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>
+              {verificationStatus === "rejected" ? "Your verification was not approved" : "Your account is not verified yet"}
+            </AlertTitle>
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>Patients cannot find you or give you access until an admin has checked your license.</span>
+              <Button size="sm" variant="outline" onClick={() => navigate("/doctor/profile")}>
+                Go to Verification
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Quick Stats */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           {quickStats.map((stat, index) => (
@@ -134,16 +156,8 @@ const DoctorDashboard = () => {
           </CardContent>
         </Card>
 
-        {/* Recent Patients */}
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between">
-            <CardTitle>Recent Patients</CardTitle>
-            <Button onClick={() => navigate("/doctor/patients")}>View All Patients</Button>
-          </CardHeader>
-          <CardContent>
-            <p className="text-muted-foreground">Managing {stats.totalPatients} patients</p>
-          </CardContent>
-        </Card>
+        {/* Triage Worklist */}
+        {doctorId && <TriageWorklist doctorId={doctorId} />}
 
         {/* Quick Actions */}
         <div className="grid md:grid-cols-3 gap-4">
@@ -48,10 +48,9 @@ const DoctorMessages = () => {
 
       const patientIds = accessData.map(a => a.patient_id);
 
+      // Logged in each patient's "Who accessed my data" as part of the read
       const { data: patientsData, error: patientsError } = await supabase
-        .from('health_profiles')
-        .select('user_id, health_id')
-        .in('user_id', patientIds);
+        .rpc('read_patient_profiles', { _patient_ids: patientIds, _source: 'messages' });
 
       if (patientsError) {
         console.error('Error fetching patients:', patientsError);
@@ -1,19 +1,37 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
 import { DoctorLayout } from "@/components/layouts/DoctorLayout";
-import { Card, CardContent } from "@/components/ui/card";
+import { AccessRequestDialog } from "@/components/AccessRequestDialog";
+import { ConsentHistory } from "@/components/ConsentHistory";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, Users, FileText } from "lucide-react";
+import { Search, Users, FileText, UserPlus, Hourglass } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ACCESS_SCOPES, accessGrantState, type AccessScope } from "@/lib/consent";
+
+type PendingRequest = {
+  id: string;
+  health_id: string;
+  scopes: string[];
+  expires_at: string | null;
+  created_at: string;
+};
 
 const PatientManagement = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { toast } = useToast();
   const [patients, setPatients] = useState<any[]>([]);
+  const [requests, setRequests] = useState<PendingRequest[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [doctorId, setDoctorId] = useState<string | null>(null);
+  const [requestDialogOpen, setRequestDialogOpen] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
 
   useEffect(() => {
     if (user) {
@@ -24,6 +42,7 @@ const PatientManagement = () => {
   useEffect(() => {
     if (doctorId) {
       fetchPatients();
+      fetchRequests();
     }
   }, [doctorId]);
 
@@ -51,20 +70,23 @@ const PatientManagement = () => {
       .eq("doctor_id", doctorId)
       .eq("status", "active");
 
-    if (accessError || !accessData || accessData.length === 0) {
+    // Grants past their end date are over even before they're marked expired
+    const liveAccess = (accessData || []).filter((a) => accessGrantState(a) === "active");
+    if (accessError || liveAccess.length === 0) {
       setPatients([]);
       return;
     }
 
-    // Then fetch health profiles for those patients
-    const patientIds = accessData.map((a) => a.patient_id);
-    const { data: profilesData } = await supabase
-      .from("health_profiles")
-      .select("*")
-      .in("user_id", patientIds);
+    // Then fetch health profiles for those patients; logged in each
+    // patient's "Who accessed my data" as part of the read
+    const patientIds = liveAccess.map((a) => a.patient_id);
+    const { data: profilesData } = await supabase.rpc("read_patient_profiles", {
+      _patient_ids: patientIds,
+      _source: "patient-list",
+    });
 
     // Combine the data
-    const combined = accessData.map((access) => ({
+    const combined = liveAccess.map((access) => ({
       ...access,
       health_profiles: profilesData?.find((p) => p.user_id === access.patient_id) || null,
     }));
@@ -72,6 +94,35 @@ const PatientManagement = () => {
     setPatients(combined);
   };
 
+  const fetchRequests = async () => {
+    if (!doctorId) return;
+
+    const { data, error } = await supabase
+      .from("doctor_access_requests")
+      .select("id, health_id, scopes, expires_at, created_at")
+      .eq("doctor_id", doctorId)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching access requests:", error);
+    } else {
+      setRequests(data || []);
+    }
+  };
+
+  const withdrawRequest = async (requestId: string) => {
+    const { error } = await supabase.rpc("withdraw_access_request", { _request_id: requestId });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Request withdrawn" });
+      fetchRequests();
+      setHistoryKey((key) => key + 1);
+    }
+  };
+
   const filteredPatients = patients.filter((patient) =>
     patient.health_profiles?.health_id?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     patient.health_profiles?.blood_type?.toLowerCase().includes(searchTerm.toLowerCase())
@@ -85,8 +136,46 @@ const PatientManagement = () => {
             <h1 className="text-3xl font-bold">Patient Management</h1>
             <p className="text-muted-foreground">View and manage your patients</p>
           </div>
+          <Button className="gap-2" onClick={() => setRequestDialogOpen(true)}>
+            <UserPlus className="h-4 w-4" />
+            Request Access
+          </Button>
         </div>
 
+        {requests.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Hourglass className="h-5 w-5 text-primary" />
+                Waiting for Patients
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {requests.map((request) => (
+                <div key={request.id} className="flex flex-wrap items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                  <div className="space-y-1">
+                    <p className="font-mono text-sm">{request.health_id}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {request.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline">
+                          {ACCESS_SCOPES[scope as AccessScope]?.label ?? scope}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Asked {format(new Date(request.created_at), "PP")}
+                      {request.expires_at && ` • until ${format(new Date(request.expires_at), "PP")}`}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => withdrawRequest(request.id)}>
+                    Withdraw
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
@@ -102,7 +191,7 @@ const PatientManagement = () => {
             <CardContent className="p-12 text-center">
               <Users className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
               <h3 className="font-semibold mb-2">No patients yet</h3>
-              <p className="text-muted-foreground">Patients who grant you access will appear here</p>
+              <p className="text-muted-foreground">Patients who grant you access, or approve your requests, will appear here</p>
             </CardContent>
           </Card>
         ) : (
@@ -116,6 +205,7 @@ const PatientManagement = () => {
                       <th className="text-left p-4 font-medium">Blood Type</th>
                       <th className="text-left p-4 font-medium">Gender</th>
                       <th className="text-left p-4 font-medium">Access Granted</th>
+                      <th className="text-left p-4 font-medium">Shared</th>
                       <th className="text-left p-4 font-medium">Actions</th>
                     </tr>
                   </thead>
@@ -125,7 +215,23 @@ const PatientManagement = () => {
                         <td className="p-4 font-mono text-sm">{patient.health_profiles?.health_id || "N/A"}</td>
                         <td className="p-4">{patient.health_profiles?.blood_type || "N/A"}</td>
                         <td className="p-4 capitalize">{patient.health_profiles?.gender || "N/A"}</td>
-                        <td className="p-4">{new Date(patient.granted_at).toLocaleDateString()}</td>
+                        <td className="p-4">
+                          {new Date(patient.granted_at).toLocaleDateString()}
+                          {patient.expires_at && (
+                            <p className="text-xs text-muted-foreground">
+                              Until {format(new Date(patient.expires_at), "PP")}
+                            </p>
+                          )}
+                        </td>
+                        <td className="p-4">
+                          <div className="flex flex-wrap gap-1">
+                            {patient.scopes.map((scope: string) => (
+                              <Badge key={scope} variant="secondary">
+                                {ACCESS_SCOPES[scope as AccessScope]?.label ?? scope}
+                              </Badge>
+                            ))}
+                          </div>
+                        </td>
                         <td className="p-4">
                           <Button 
                             size="sm" 
@@ -145,6 +251,17 @@ const PatientManagement = () => {
             </CardContent>
           </Card>
         )}
+
+        <ConsentHistory viewer="doctor" refreshKey={historyKey} />
+
+        <AccessRequestDialog
+          open={requestDialogOpen}
+          onOpenChange={setRequestDialogOpen}
+          onRequested={() => {
+            fetchRequests();
+            setHistoryKey((key) => key + 1);
+          }}
+        />
       </div>
     </DoctorLayout>
   );
@@ -1,6 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { DoctorLayout } from "@/components/layouts/DoctorLayout";
+import { InteractionWarnings } from "@/components/InteractionWarnings";
+import { VitalAlerts } from "@/components/VitalAlerts";
+import { AlertRulesEditor } from "@/components/AlertRulesEditor";
+import { PrescriptionDialog } from "@/components/PrescriptionDialog";
+import { PrescriptionList } from "@/components/PrescriptionList";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -8,6 +13,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { checkMedicationList, SEVERITY_RANK } from "@/lib/drugInteractions";
+import { PRESCRIPTION_SELECT, type PrescriptionDocumentData } from "@/lib/prescriptions";
+import { ACCESS_SCOPES, accessGrantState, grantAllows, type AccessGrant, type AccessScope } from "@/lib/consent";
 import {
   ArrowLeft,
   User,
@@ -16,6 +24,8 @@ import {
   AlertTriangle,
   Activity,
   Calendar,
+  FileText,
+  Plus,
 } from "lucide-react";
 
 interface HealthProfile {
@@ -44,6 +54,7 @@ interface Medication {
   dosage: string | null;
   frequency: string | null;
   start_date: string | null;
+  end_date: string | null;
 }
 
 interface Allergy {
@@ -53,17 +64,42 @@ interface Allergy {
   reaction: string | null;
 }
 
+// What read_patient_record returns; categories the grant doesn't cover are absent
+interface PatientRecord {
+  profile?: HealthProfile | null;
+  vitals?: VitalSign[];
+  medications?: Medication[];
+  allergies?: Allergy[];
+}
+
 const PatientRecords = () => {
   const { patientId } = useParams();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
-  const [hasAccess, setHasAccess] = useState(false);
+  const [grant, setGrant] = useState<AccessGrant | null>(null);
   const [healthProfile, setHealthProfile] = useState<HealthProfile | null>(null);
   const [vitalSigns, setVitalSigns] = useState<VitalSign[]>([]);
   const [medications, setMedications] = useState<Medication[]>([]);
   const [allergies, setAllergies] = useState<Allergy[]>([]);
+  const [doctorId, setDoctorId] = useState<string | null>(null);
+  const [prescriptions, setPrescriptions] = useState<PrescriptionDocumentData[]>([]);
+  const [prescriptionDialogOpen, setPrescriptionDialogOpen] = useState(false);
+
+  const interactionWarnings = useMemo(
+    () =>
+      checkMedicationList(
+        medications
+          .filter((med) => !med.end_date || new Date(med.end_date) >= new Date())
+          .map((med) => med.name),
+        allergies.map((allergy) => allergy.allergen)
+      ),
+    [medications, allergies]
+  );
+  const seriousInteractions = interactionWarnings.filter(
+    (warning) => SEVERITY_RANK[warning.severity] >= SEVERITY_RANK.major
+  ).length;
 
   useEffect(() => {
     if (user && patientId) {
@@ -86,54 +122,82 @@ const PatientRecords = () => {
       return;
     }
 
-    // Check if doctor has access to this patient
+    // Check if doctor has access to this patient, and to what
     const { data: accessData } = await supabase
       .from("patient_doctor_access")
-      .select("*")
+      .select("status, scopes, expires_at")
       .eq("doctor_id", doctorData.id)
       .eq("patient_id", patientId)
       .eq("status", "active")
-      .single();
+      .maybeSingle();
 
-    if (!accessData) {
-      setHasAccess(false);
+    if (!accessData || accessGrantState(accessData) !== "active") {
+      setGrant(null);
       setLoading(false);
       return;
     }
 
-    setHasAccess(true);
+    setGrant(accessData);
+    setDoctorId(doctorData.id);
 
-    // Fetch all patient data in parallel
-    const [profileRes, vitalsRes, medsRes, allergiesRes] = await Promise.all([
-      supabase
-        .from("health_profiles")
-        .select("*")
-        .eq("user_id", patientId)
-        .single(),
-      supabase
-        .from("vital_signs")
-        .select("*")
-        .eq("user_id", patientId)
-        .order("recorded_at", { ascending: false })
-        .limit(10),
-      supabase
-        .from("medications")
-        .select("*")
-        .eq("user_id", patientId),
+    // Patient data comes through read_patient_record, which logs the read in
+    // the patient's "Who accessed my data" and leaves out what the grant
+    // doesn't cover
+    const [recordRes, prescriptionsRes] = await Promise.all([
+      supabase.rpc("read_patient_record", {
+        _patient_id: patientId,
+        _source: "patient-records",
+        _categories: ["profile", "vitals", "medications", "allergies"],
+      }),
       supabase
-        .from("allergies")
-        .select("*")
-        .eq("user_id", patientId),
+        .from("prescriptions")
+        .select(PRESCRIPTION_SELECT)
+        .eq("patient_id", patientId)
+        .eq("doctor_id", doctorData.id)
+        .order("created_at", { ascending: false }),
     ]);
 
-    if (profileRes.data) setHealthProfile(profileRes.data);
-    if (vitalsRes.data) setVitalSigns(vitalsRes.data);
-    if (medsRes.data) setMedications(medsRes.data);
-    if (allergiesRes.data) setAllergies(allergiesRes.data);
+    if (recordRes.error) {
+      console.error("Error fetching patient record:", recordRes.error);
+    } else {
+      const record = recordRes.data as unknown as PatientRecord;
+      setHealthProfile(record.profile ?? null);
+      setVitalSigns(record.vitals ?? []);
+      setMedications(record.medications ?? []);
+      setAllergies(record.allergies ?? []);
+    }
+    if (prescriptionsRes.data) setPrescriptions(prescriptionsRes.data);
 
     setLoading(false);
   };
 
+  const fetchPrescriptions = async () => {
+    if (!doctorId || !patientId) return;
+
+    const { data } = await supabase
+      .from("prescriptions")
+      .select(PRESCRIPTION_SELECT)
+      .eq("patient_id", patientId)
+      .eq("doctor_id", doctorId)
+      .order("created_at", { ascending: false });
+
+    if (data) setPrescriptions(data);
+  };
+
+  const handleCancelPrescription = async (prescriptionId: string) => {
+    const { error } = await supabase
+      .from("prescriptions")
+      .update({ status: "cancelled" })
+      .eq("id", prescriptionId);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to cancel prescription", variant: "destructive" });
+    } else {
+      toast({ title: "Prescription cancelled" });
+      fetchPrescriptions();
+    }
+  };
+
   const calculateAge = (dob: string) => {
     const birthDate = new Date(dob);
     const today = new Date();
@@ -145,6 +209,9 @@ const PatientRecords = () => {
     return age;
   };
 
+  const shared = (scope: AccessScope) => grantAllows(grant, scope);
+  const firstTab = (["vitals", "medications", "allergies"] as AccessScope[]).find(shared) ?? "prescriptions";
+
   if (loading) {
     return (
       <DoctorLayout>
@@ -155,7 +222,7 @@ const PatientRecords = () => {
     );
   }
 
-  if (!hasAccess) {
+  if (!grant) {
     return (
       <DoctorLayout>
         <div className="p-6">
@@ -164,7 +231,7 @@ const PatientRecords = () => {
               <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-destructive" />
               <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
               <p className="text-muted-foreground mb-4">
-                You don't have access to this patient's records.
+                You don't have access to this patient's records, or your access has ended.
               </p>
               <Button onClick={() => navigate("/doctor/patients")}>
                 Back to Patients
@@ -188,6 +255,10 @@ const PatientRecords = () => {
             <p className="text-muted-foreground">
               Health ID: {healthProfile?.health_id || "N/A"}
             </p>
+            <p className="text-xs text-muted-foreground">
+              Shared: {grant.scopes.map((scope) => ACCESS_SCOPES[scope as AccessScope]?.label ?? scope).join(", ")}
+              {grant.expires_at && ` • until ${new Date(grant.expires_at).toLocaleDateString()}`}
+            </p>
           </div>
         </div>
 
@@ -246,11 +317,21 @@ const PatientRecords = () => {
           </Card>
         </div>
 
-        <Tabs defaultValue="vitals">
+        {/* Tabs for categories the patient hasn't shared are left out */}
+        <Tabs defaultValue={firstTab}>
           <TabsList>
-            <TabsTrigger value="vitals">Vital Signs</TabsTrigger>
-            <TabsTrigger value="medications">Medications</TabsTrigger>
-            <TabsTrigger value="allergies">Allergies</TabsTrigger>
+            {shared("vitals") && <TabsTrigger value="vitals">Vital Signs</TabsTrigger>}
+            {shared("medications") && (
+              <TabsTrigger value="medications" className="gap-2">
+                Medications
+                {seriousInteractions > 0 && (
+                  <Badge variant="destructive" className="h-5 px-1.5">{seriousInteractions}</Badge>
+                )}
+              </TabsTrigger>
+            )}
+            {shared("allergies") && <TabsTrigger value="allergies">Allergies</TabsTrigger>}
+            <TabsTrigger value="prescriptions">Prescriptions</TabsTrigger>
+            {shared("vitals") && <TabsTrigger value="alerts">Alerts</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="vitals" className="mt-4">
@@ -312,7 +393,20 @@ const PatientRecords = () => {
             </Card>
           </TabsContent>
 
-          <TabsContent value="medications" className="mt-4">
+          <TabsContent value="medications" className="mt-4 space-y-4">
+            {interactionWarnings.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5 text-destructive" />
+                    Interaction Warnings
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <InteractionWarnings warnings={interactionWarnings} />
+                </CardContent>
+              </Card>
+            )}
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -399,7 +493,57 @@ const PatientRecords = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="prescriptions" className="mt-4">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="h-5 w-5" />
+                    Prescriptions
+                  </CardTitle>
+                  <Button size="sm" className="gap-2" onClick={() => setPrescriptionDialogOpen(true)}>
+                    <Plus className="h-4 w-4" />
+                    New Prescription
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <PrescriptionList
+                  prescriptions={prescriptions}
+                  patient={healthProfile}
+                  emptyMessage="No prescriptions written for this patient"
+                  actions={(rx) =>
+                    rx.status === "pending" && (
+                      <Button size="sm" variant="outline" onClick={() => handleCancelPrescription(rx.id)}>
+                        Cancel
+                      </Button>
+                    )
+                  }
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="alerts" className="mt-4 space-y-4">
+            {patientId && shared("vitals") && (
+              <>
+                <VitalAlerts patientId={patientId} />
+                <AlertRulesEditor patientId={patientId} editable />
+              </>
+            )}
+          </TabsContent>
         </Tabs>
+
+        {doctorId && patientId && (
+          <PrescriptionDialog
+            open={prescriptionDialogOpen}
+            onOpenChange={setPrescriptionDialogOpen}
+            doctorId={doctorId}
+            patientId={patientId}
+            onCreated={fetchPrescriptions}
+          />
+        )}
       </div>
     </DoctorLayout>
   );
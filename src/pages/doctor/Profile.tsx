@@ -9,8 +9,13 @@ import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { User, Save, Loader2 } from "lucide-react";
+import { DoctorAvailabilitySettings } from "@/components/DoctorAvailabilitySettings";
+import { CalendarFeedSettings } from "@/components/CalendarFeedSettings";
+import { NotificationPreferences } from "@/components/NotificationPreferences";
+import { NotificationDeliveryLog } from "@/components/NotificationDeliveryLog";
+import { DoctorVerificationCard, type VerifiableDoctor } from "@/components/DoctorVerificationCard";
 
-interface DoctorProfile {
+interface DoctorProfile extends VerifiableDoctor {
   id: string;
   full_name: string;
   specialization: string | null;
@@ -206,6 +211,9 @@ const DoctorProfile = () => {
                     onChange={(e) => setFormData({ ...formData, license_number: e.target.value })}
                     placeholder="MD123456"
                   />
+                  {doctorProfile?.verification_status === "verified" && (
+                    <p className="text-xs text-muted-foreground">Changing it will need a new verification review</p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="years_experience">Years of Experience</Label>
@@ -323,6 +331,19 @@ const DoctorProfile = () => {
               </>
             )}
           </Button>
+
+          {/* Verification */}
+          {doctorProfile && <DoctorVerificationCard doctor={doctorProfile} onSubmitted={loadDoctorProfile} />}
+
+          {/* Availability */}
+          {doctorProfile && <DoctorAvailabilitySettings doctorId={doctorProfile.id} />}
+
+          {/* Notifications */}
+          <NotificationPreferences />
+          <NotificationDeliveryLog />
+
+          {/* Calendar */}
+          <CalendarFeedSettings />
         </div>
       </div>
     </DoctorLayout>
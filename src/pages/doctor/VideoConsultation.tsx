@@ -9,6 +9,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { Video, Calendar, Clock, Loader2, User } from "lucide-react";
 import { format } from "date-fns";
+import { appointmentStatusLabel } from "@/lib/appointmentStatus";
 
 interface Appointment {
   id: string;
@@ -59,8 +60,8 @@ const DoctorVideoConsultation = () => {
         .select('*')
         .eq('doctor_id', doctorData.id)
         .eq('type', 'video')
-        .in('status', ['confirmed'])
-        .gte('scheduled_time', new Date().toISOString())
+        .in('status', ['confirmed', 'checked-in', 'in-progress'])
+        .gte('ends_at', new Date().toISOString())
         .order('scheduled_time', { ascending: true });
 
       if (error) {
@@ -75,12 +76,11 @@ const DoctorVideoConsultation = () => {
         return;
       }
 
-      // Fetch patient profiles
+      // Fetch patient profiles; logged in each patient's "Who accessed my
+      // data" as part of the read
       const patientIds = [...new Set(appointmentsData.map(a => a.patient_id))];
       const { data: patientsData } = await supabase
-        .from('health_profiles')
-        .select('user_id, health_id')
-        .in('user_id', patientIds);
+        .rpc('read_patient_profiles', { _patient_ids: patientIds, _source: 'video-consultation' });
 
       const appointmentsWithPatients = appointmentsData.map(apt => ({
         ...apt,
@@ -105,6 +105,11 @@ const DoctorVideoConsultation = () => {
       if (error) throw error;
 
       if (data.room_url) {
+        // Joining the room starts the consultation
+        const appointment = appointments.find((apt) => apt.id === appointmentId);
+        if (appointment && appointment.status !== 'in-progress') {
+          await supabase.rpc('transition_appointment', { _appointment_id: appointmentId, _status: 'in-progress' });
+        }
         setActiveCall({ url: data.room_url, appointmentId });
         toast({
           title: "Starting video call",
@@ -185,7 +190,7 @@ const DoctorVideoConsultation = () => {
                         </p>
                       </div>
                     </div>
-                    <Badge variant="default">{appointment.status}</Badge>
+                    <Badge variant="default">{appointmentStatusLabel(appointment.status)}</Badge>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -2,16 +2,42 @@ import { useState, useEffect } from "react";
 import { PatientLayout } from "@/components/layouts/PatientLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, Video, MapPin, Plus } from "lucide-react";
+import { Calendar, Clock, Video, MapPin, Plus, CalendarClock, Repeat } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { AppointmentActions } from "@/components/AppointmentActions";
+import { AppointmentTimeline } from "@/components/AppointmentTimeline";
+import { SlotPicker } from "@/components/SlotPicker";
+import { RescheduleAppointmentDialog, type ReschedulableAppointment } from "@/components/RescheduleAppointmentDialog";
+import { RecurrenceFields } from "@/components/RecurrenceFields";
+import { AppointmentSeriesGroup } from "@/components/AppointmentSeriesGroup";
+import { AddToCalendarButton } from "@/components/AddToCalendarButton";
+import { appointmentStatusColor, appointmentStatusLabel, isActiveAppointment } from "@/lib/appointmentStatus";
+import { describeSeriesBooking, groupAppointmentsBySeries } from "@/lib/appointmentSeries";
+import { validateRecurrence, type RecurrenceRule } from "@/lib/recurrence";
+import type { Slot } from "@/lib/availability";
+
+interface Proposal {
+  id: string;
+  appointment_id: string;
+  proposed_time: string;
+  message: string | null;
+}
+
+// Used when the doctor row didn't come back with the appointment
+const DEFAULT_CANCELLATION_WINDOW_HOURS = 24;
+
+const DEFAULT_RECURRENCE: RecurrenceRule = { intervalWeeks: 6, count: 4 };
+
+const formatDateTime = (instant: string) =>
+  new Date(instant).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
 
 const PatientAppointments = () => {
   const { user } = useAuth();
@@ -22,10 +48,15 @@ const PatientAppointments = () => {
   const [bookingOpen, setBookingOpen] = useState(false);
   const [bookingForm, setBookingForm] = useState({
     doctor_id: "",
-    scheduled_time: "",
     type: "in-person",
     reason: "",
   });
+  const [bookingSlot, setBookingSlot] = useState<Slot | null>(null);
+  const [slotsRefreshKey, setSlotsRefreshKey] = useState(0);
+  const [repeats, setRepeats] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(DEFAULT_RECURRENCE);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [rescheduling, setRescheduling] = useState<(ReschedulableAppointment & { cancellationWindowHours: number }) | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -34,10 +65,12 @@ const PatientAppointments = () => {
     }
   }, [user]);
 
+  // Appointments are booked with verified doctors only
   const fetchDoctors = async () => {
     const { data, error } = await supabase
       .from("doctors")
       .select("*")
+      .eq("verification_status", "verified")
       .order("full_name");
 
     if (!error && data) {
@@ -55,12 +88,22 @@ const PatientAppointments = () => {
         doctors (
           full_name,
           specialization,
-          clinic_name
-        )
+          email,
+          clinic_name,
+          clinic_address,
+          cancellation_window_hours,
+          timezone
+        ),
+        appointment_series (*)
       `)
       .eq("patient_id", user.id)
       .order("scheduled_time", { ascending: true });
 
+    const { data: proposalData } = await supabase
+      .from("appointment_proposals")
+      .select("id, appointment_id, proposed_time, message")
+      .eq("status", "pending");
+
     if (error) {
       toast({
         title: "Error",
@@ -69,35 +112,96 @@ const PatientAppointments = () => {
       });
     } else {
       setAppointments(data || []);
+      setProposals(proposalData || []);
     }
     setLoading(false);
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "confirmed":
-        return "bg-green-100 text-green-800";
-      case "pending":
-        return "bg-yellow-100 text-yellow-800";
-      case "completed":
-        return "bg-blue-100 text-blue-800";
-      case "cancelled":
-        return "bg-red-100 text-red-800";
-      default:
-        return "bg-gray-100 text-gray-800";
+  const handleRespondToProposal = async (proposal: Proposal, accept: boolean) => {
+    const { error } = await supabase.rpc("respond_to_appointment_proposal", {
+      _proposal_id: proposal.id,
+      _accept: accept,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description:
+          error.code === "23P01"
+            ? "That time is no longer free. Ask your doctor for another."
+            : error.message || "Failed to respond to the proposal",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Success",
+        description: accept ? "Appointment moved to the new time" : "Proposal declined",
+      });
     }
+    fetchAppointments();
   };
 
-  const upcomingAppointments = appointments.filter(
-    (apt) => new Date(apt.scheduled_time) >= new Date() && apt.status !== "cancelled"
-  );
+  const cancellationWindowFor = (appointment: { doctors?: { cancellation_window_hours?: number } | null }) =>
+    appointment.doctors?.cancellation_window_hours ?? DEFAULT_CANCELLATION_WINDOW_HOURS;
 
-  const pastAppointments = appointments.filter(
-    (apt) => new Date(apt.scheduled_time) < new Date() || apt.status === "completed"
-  );
+  const originalOf = (appointment: { rescheduled_from: string | null }) =>
+    appointment.rescheduled_from ? appointments.find((apt) => apt.id === appointment.rescheduled_from) : undefined;
+
+  const isUpcoming = (apt: { status: string; ends_at: string }) =>
+    isActiveAppointment(apt.status) && new Date(apt.ends_at) >= new Date();
+
+  const upcomingAppointments = appointments.filter(isUpcoming);
+
+  const pastAppointments = appointments.filter((apt) => !isUpcoming(apt));
+
+  const bookingTimeZone = doctors.find((doctor) => doctor.id === bookingForm.doctor_id)?.timezone || "UTC";
+  const recurrenceError = repeats && bookingSlot ? validateRecurrence(bookingSlot.start, bookingTimeZone, recurrence) : null;
+
+  const resetBooking = () => {
+    setBookingOpen(false);
+    setBookingForm({
+      doctor_id: "",
+      type: "in-person",
+      reason: "",
+    });
+    setBookingSlot(null);
+    setRepeats(false);
+    setRecurrence(DEFAULT_RECURRENCE);
+    fetchAppointments();
+  };
+
+  // Every visit of a series is its own appointment; clashes are skipped and reported
+  const handleBookSeries = async () => {
+    if (!bookingSlot || recurrenceError) return;
+
+    const { data, error } = await supabase.rpc("create_appointment_series", {
+      _doctor_id: bookingForm.doctor_id,
+      _first_start: bookingSlot.start,
+      _type: bookingForm.type,
+      _reason: bookingForm.reason,
+      _interval_weeks: recurrence.intervalWeeks,
+      _count: recurrence.count || undefined,
+      _until: recurrence.until || undefined,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to book recurring appointments",
+        variant: "destructive",
+      });
+      setSlotsRefreshKey((key) => key + 1);
+    } else {
+      toast({
+        title: "Recurring appointments booked",
+        description: describeSeriesBooking(data || []),
+      });
+      resetBooking();
+    }
+  };
 
   const handleBookAppointment = async () => {
-    if (!user || !bookingForm.doctor_id || !bookingForm.scheduled_time) {
+    if (!user || !bookingForm.doctor_id || !bookingSlot) {
       toast({
         title: "Error",
         description: "Please fill in all required fields",
@@ -106,37 +210,153 @@ const PatientAppointments = () => {
       return;
     }
 
+    if (repeats) {
+      await handleBookSeries();
+      return;
+    }
+
     const { error } = await supabase.from("appointments").insert({
       patient_id: user.id,
       doctor_id: bookingForm.doctor_id,
-      scheduled_time: bookingForm.scheduled_time,
+      scheduled_time: bookingSlot.start,
+      duration: (new Date(bookingSlot.end).getTime() - new Date(bookingSlot.start).getTime()) / 60000,
       type: bookingForm.type,
       reason: bookingForm.reason,
-      status: "pending",
+      status: "requested",
     });
 
     if (error) {
+      // 23P01: the no-overlap constraint; 23514: the slot validation trigger
       toast({
         title: "Error",
-        description: "Failed to book appointment",
+        description:
+          error.code === "23P01"
+            ? "That time was just booked by someone else. Please pick another slot."
+            : error.code === "23514"
+              ? error.message
+              : "Failed to book appointment",
         variant: "destructive",
       });
+      setSlotsRefreshKey((key) => key + 1);
     } else {
       toast({
         title: "Success",
         description: "Appointment booked successfully",
       });
-      setBookingOpen(false);
-      setBookingForm({
-        doctor_id: "",
-        scheduled_time: "",
-        type: "in-person",
-        reason: "",
-      });
-      fetchAppointments();
+      resetBooking();
     }
   };
 
+  const renderUpcomingCard = (appointment: (typeof appointments)[number]) => (
+    <Card key={appointment.id} className="hover:shadow-lg transition-shadow">
+      <CardContent className="p-6">
+        <div className="flex justify-between items-start">
+          <div className="space-y-3 flex-1">
+            <div className="flex items-start gap-4">
+              <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
+                <span className="text-lg font-bold text-primary">
+                  {appointment.doctors?.full_name?.charAt(0) || "D"}
+                </span>
+              </div>
+              <div className="flex-1">
+                <h3 className="font-semibold text-lg">{appointment.doctors?.full_name}</h3>
+                <p className="text-sm text-muted-foreground">{appointment.doctors?.specialization}</p>
+                <Badge className={`mt-2 ${appointmentStatusColor(appointment.status)}`}>
+                  {appointmentStatusLabel(appointment.status)}
+                </Badge>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-4 text-sm">
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+                <span>{new Date(appointment.scheduled_time).toLocaleDateString()}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                <span>{new Date(appointment.scheduled_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                {appointment.type === "video" ? (
+                  <>
+                    <Video className="h-4 w-4 text-muted-foreground" />
+                    <span>Video Consultation</span>
+                  </>
+                ) : (
+                  <>
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    <span>{appointment.doctors?.clinic_name || "In-Person"}</span>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {appointment.reason && (
+              <p className="text-sm"><span className="font-medium">Reason:</span> {appointment.reason}</p>
+            )}
+
+            {originalOf(appointment) && (
+              <p className="text-sm text-muted-foreground">
+                Moved from {formatDateTime(originalOf(appointment).scheduled_time)}
+              </p>
+            )}
+
+            {proposals
+              .filter((proposal) => proposal.appointment_id === appointment.id)
+              .map((proposal) => (
+                <div key={proposal.id} className="p-4 border border-border rounded-lg space-y-2">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <CalendarClock className="h-4 w-4" />
+                    Your doctor proposed {formatDateTime(proposal.proposed_time)}
+                  </p>
+                  {proposal.message && <p className="text-sm text-muted-foreground">{proposal.message}</p>}
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleRespondToProposal(proposal, true)}>
+                      Accept New Time
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleRespondToProposal(proposal, false)}>
+                      Keep Current Time
+                    </Button>
+                  </div>
+                </div>
+              ))}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            {["requested", "confirmed"].includes(appointment.status) && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  setRescheduling({ ...appointment, cancellationWindowHours: cancellationWindowFor(appointment) })
+                }
+              >
+                Reschedule
+              </Button>
+            )}
+            <AppointmentActions
+              appointment={appointment}
+              actor="patient"
+              cancellationWindowHours={cancellationWindowFor(appointment)}
+              onChanged={fetchAppointments}
+            />
+            <AddToCalendarButton
+              appointment={appointment}
+              context={{
+                viewer: "patient",
+                doctorName: appointment.doctors?.full_name,
+                doctorEmail: appointment.doctors?.email,
+                clinicName: appointment.doctors?.clinic_name,
+                clinicAddress: appointment.doctors?.clinic_address,
+              }}
+            />
+            <AppointmentTimeline appointmentId={appointment.id} viewer="patient" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <PatientLayout>
       <div className="p-6 space-y-6">
@@ -173,14 +393,6 @@ const PatientAppointments = () => {
                     </SelectContent>
                   </Select>
                 </div>
-                <div className="space-y-2">
-                  <Label>Date & Time *</Label>
-                  <Input
-                    type="datetime-local"
-                    value={bookingForm.scheduled_time}
-                    onChange={(e) => setBookingForm({ ...bookingForm, scheduled_time: e.target.value })}
-                  />
-                </div>
                 <div className="space-y-2">
                   <Label>Appointment Type</Label>
                   <Select value={bookingForm.type} onValueChange={(value) => setBookingForm({ ...bookingForm, type: value })}>
@@ -193,6 +405,34 @@ const PatientAppointments = () => {
                     </SelectContent>
                   </Select>
                 </div>
+                {bookingForm.doctor_id && (
+                  <div className="space-y-2">
+                    <Label>Date & Time *</Label>
+                    <SlotPicker
+                      doctorId={bookingForm.doctor_id}
+                      type={bookingForm.type}
+                      value={bookingSlot?.start ?? ""}
+                      onChange={setBookingSlot}
+                      refreshKey={slotsRefreshKey}
+                    />
+                  </div>
+                )}
+                {bookingForm.doctor_id && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="booking_repeats">Repeat this visit</Label>
+                      <Switch id="booking_repeats" checked={repeats} onCheckedChange={setRepeats} />
+                    </div>
+                    {repeats && (
+                      <RecurrenceFields
+                        value={recurrence}
+                        onChange={setRecurrence}
+                        firstStart={bookingSlot?.start}
+                        timeZone={bookingTimeZone}
+                      />
+                    )}
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label>Reason for Visit</Label>
                   <Textarea
@@ -201,8 +441,8 @@ const PatientAppointments = () => {
                     onChange={(e) => setBookingForm({ ...bookingForm, reason: e.target.value })}
                   />
                 </div>
-                <Button className="w-full" onClick={handleBookAppointment}>
-                  Confirm Booking
+                <Button className="w-full" onClick={handleBookAppointment} disabled={!!recurrenceError}>
+                  {repeats ? "Book Recurring Visits" : "Confirm Booking"}
                 </Button>
               </div>
             </SheetContent>
@@ -222,63 +462,23 @@ const PatientAppointments = () => {
             </Card>
           ) : (
             <div className="grid gap-4">
-              {upcomingAppointments.map((appointment) => (
-                <Card key={appointment.id} className="hover:shadow-lg transition-shadow">
-                  <CardContent className="p-6">
-                    <div className="flex justify-between items-start">
-                      <div className="space-y-3 flex-1">
-                        <div className="flex items-start gap-4">
-                          <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
-                            <span className="text-lg font-bold text-primary">
-                              {appointment.doctors?.full_name?.charAt(0) || "D"}
-                            </span>
-                          </div>
-                          <div className="flex-1">
-                            <h3 className="font-semibold text-lg">{appointment.doctors?.full_name}</h3>
-                            <p className="text-sm text-muted-foreground">{appointment.doctors?.specialization}</p>
-                            <Badge className={`mt-2 ${getStatusColor(appointment.status)}`}>
-                              {appointment.status}
-                            </Badge>
-                          </div>
-                        </div>
-
-                        <div className="flex flex-wrap gap-4 text-sm">
-                          <div className="flex items-center gap-2">
-                            <Calendar className="h-4 w-4 text-muted-foreground" />
-                            <span>{new Date(appointment.scheduled_time).toLocaleDateString()}</span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            <Clock className="h-4 w-4 text-muted-foreground" />
-                            <span>{new Date(appointment.scheduled_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                          </div>
-                          <div className="flex items-center gap-2">
-                            {appointment.type === "video" ? (
-                              <>
-                                <Video className="h-4 w-4 text-muted-foreground" />
-                                <span>Video Consultation</span>
-                              </>
-                            ) : (
-                              <>
-                                <MapPin className="h-4 w-4 text-muted-foreground" />
-                                <span>{appointment.doctors?.clinic_name || "In-Person"}</span>
-                              </>
-                            )}
-                          </div>
-                        </div>
-
-                        {appointment.reason && (
-                          <p className="text-sm"><span className="font-medium">Reason:</span> {appointment.reason}</p>
-                        )}
-                      </div>
-
-                      <div className="flex flex-col gap-2">
-                        <Button size="sm" variant="outline">Reschedule</Button>
-                        <Button size="sm" variant="ghost" className="text-red-600">Cancel</Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+              {groupAppointmentsBySeries(upcomingAppointments).map((group) =>
+                group.seriesId && group.appointments[0].appointment_series ? (
+                  <AppointmentSeriesGroup
+                    key={group.key}
+                    series={group.appointments[0].appointment_series}
+                    appointments={group.appointments}
+                    actor="patient"
+                    timeZone={group.appointments[0].doctors?.timezone || "UTC"}
+                    cancellationWindowHours={cancellationWindowFor(group.appointments[0])}
+                    onChanged={fetchAppointments}
+                  >
+                    {group.appointments.map(renderUpcomingCard)}
+                  </AppointmentSeriesGroup>
+                ) : (
+                  group.appointments.map(renderUpcomingCard)
+                )
+              )}
             </div>
           )}
         </div>
@@ -304,11 +504,17 @@ const PatientAppointments = () => {
                           {new Date(appointment.scheduled_time).toLocaleDateString()} at{" "}
                           {new Date(appointment.scheduled_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                         </p>
-                        <Badge className={getStatusColor(appointment.status)}>
-                          {appointment.status}
+                        {appointment.series_id && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Repeat className="h-3 w-3" />
+                            Recurring visit
+                          </p>
+                        )}
+                        <Badge className={appointmentStatusColor(appointment.status)}>
+                          {appointmentStatusLabel(appointment.status)}
                         </Badge>
                       </div>
-                      <Button size="sm" variant="outline">View Details</Button>
+                      <AppointmentTimeline appointmentId={appointment.id} viewer="patient" />
                     </div>
                   </CardContent>
                 </Card>
@@ -316,6 +522,13 @@ const PatientAppointments = () => {
             </div>
           )}
         </div>
+
+        <RescheduleAppointmentDialog
+          appointment={rescheduling}
+          onOpenChange={(open) => !open && setRescheduling(null)}
+          cancellationWindowHours={rescheduling?.cancellationWindowHours ?? DEFAULT_CANCELLATION_WINDOW_HOURS}
+          onRescheduled={fetchAppointments}
+        />
       </div>
     </PatientLayout>
   );
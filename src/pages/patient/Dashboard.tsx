@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { PatientLayout } from "@/components/layouts/PatientLayout";
 import { Calendar, Pill, Activity, TrendingUp, Heart, MessageSquare } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { TodaysDoses } from "@/components/TodaysDoses";
+import { SosButton } from "@/components/SosButton";
 
 const PatientDashboard = () => {
   const { user } = useAuth();
@@ -119,6 +121,9 @@ const PatientDashboard = () => {
           <p className="text-white/90">Here's your health overview for today</p>
         </div>
 
+        {/* Emergency SOS */}
+        <SosButton />
+
         {/* Quick Stats */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           {quickStats.map((stat, index) => (
@@ -138,6 +143,9 @@ const PatientDashboard = () => {
           ))}
         </div>
 
+        {/* Today's Doses */}
+        <TodaysDoses />
+
         {/* Health Summary */}
         <Card>
           <CardHeader>
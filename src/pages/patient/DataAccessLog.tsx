@@ -0,0 +1,200 @@
+import { useState, useEffect, useMemo } from "react";
+import { format } from "date-fns";
+import { PatientLayout } from "@/components/layouts/PatientLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  ACCESS_LOG_CATEGORIES,
+  ACCESS_LOG_SOURCES,
+  accessLogToCsv,
+  accessorLabel,
+  type AccessLogCategory,
+  type AccessLogSource,
+  type DataAccessEntry,
+} from "@/lib/accessLog";
+import { Download, Eye, Loader2 } from "lucide-react";
+
+type AccessEntry = DataAccessEntry & { id: string };
+
+// Enough for a long history without paging; the export covers the same rows
+const MAX_ENTRIES = 1000;
+
+// Doctors are told apart by profile, everyone else by kind
+const accessorKey = (entry: AccessEntry) => (entry.accessor === "doctor" ? `doctor:${entry.doctor_id}` : entry.accessor);
+
+const ACCESSOR_KINDS: Record<string, string> = {
+  patient: "You",
+  service: "Health card scans and SOS alerts",
+};
+
+const DataAccessLog = () => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<AccessEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [accessorFilter, setAccessorFilter] = useState("all");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchEntries = async () => {
+      const { data, error } = await supabase
+        .from("data_access_log")
+        .select("*")
+        .eq("patient_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(MAX_ENTRIES);
+
+      if (error) {
+        console.error("Error fetching data access log:", error);
+      } else {
+        setEntries(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchEntries();
+  }, [user]);
+
+  const accessorOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    for (const entry of entries) {
+      const key = accessorKey(entry);
+      if (!options.has(key)) options.set(key, ACCESSOR_KINDS[key] ?? accessorLabel(entry));
+    }
+    return [...options.entries()].sort(([, a], [, b]) => a.localeCompare(b));
+  }, [entries]);
+
+  const filtered = entries.filter(
+    (entry) =>
+      (accessorFilter === "all" || accessorKey(entry) === accessorFilter) &&
+      (categoryFilter === "all" || entry.categories.includes(categoryFilter))
+  );
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([accessLogToCsv(filtered)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.download = `data-access-log-${format(new Date(), "yyyy-MM-dd")}.csv`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <PatientLayout>
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Who Accessed My Data</h1>
+          <p className="text-muted-foreground">
+            Every time a doctor, a health card scan, an SOS alert or an export read your records
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Eye className="h-5 w-5 text-primary" />
+                Access Log
+              </CardTitle>
+              <CardDescription>Entries are kept as recorded and cannot be changed by anyone</CardDescription>
+            </div>
+            <Button variant="outline" className="gap-2" onClick={handleExport} disabled={filtered.length === 0}>
+              <Download className="h-4 w-4" />
+              Export CSV
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2 max-w-2xl">
+              <div className="space-y-2">
+                <Label>Accessed by</Label>
+                <Select value={accessorFilter} onValueChange={setAccessorFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everyone</SelectItem>
+                    {accessorOptions.map(([key, label]) => (
+                      <SelectItem key={key} value={key}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Data</Label>
+                <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All data</SelectItem>
+                    {(Object.entries(ACCESS_LOG_CATEGORIES) as [AccessLogCategory, string][]).map(([category, label]) => (
+                      <SelectItem key={category} value={category}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : filtered.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {entries.length === 0 ? "Nobody has accessed your data yet" : "No entries match these filters"}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">When</th>
+                      <th className="text-left p-3 font-medium">Accessed by</th>
+                      <th className="text-left p-3 font-medium">Via</th>
+                      <th className="text-left p-3 font-medium">Data</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filtered.map((entry) => (
+                      <tr key={entry.id} className="border-t align-top">
+                        <td className="p-3 whitespace-nowrap">{format(new Date(entry.created_at), "PPp")}</td>
+                        <td className="p-3">{accessorLabel(entry)}</td>
+                        <td className="p-3 text-muted-foreground">
+                          {ACCESS_LOG_SOURCES[entry.source as AccessLogSource] ?? entry.source}
+                        </td>
+                        <td className="p-3">
+                          <div className="flex flex-wrap gap-1">
+                            {entry.categories.map((category) => (
+                              <Badge key={category} variant="outline">
+                                {ACCESS_LOG_CATEGORIES[category as AccessLogCategory] ?? category}
+                              </Badge>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {entries.length === MAX_ENTRIES && (
+              <p className="text-xs text-muted-foreground">Showing the latest {MAX_ENTRIES} entries</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </PatientLayout>
+  );
+};
+
+export default DataAccessLog;
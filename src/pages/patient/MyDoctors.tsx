@@ -1,5 +1,9 @@
 import { useState, useEffect } from "react";
+import { format } from "date-fns";
 import { PatientLayout } from "@/components/layouts/PatientLayout";
+import { ConsentDialog } from "@/components/ConsentDialog";
+import { ConsentHistory } from "@/components/ConsentHistory";
+import { VerifiedBadge } from "@/components/VerifiedBadge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,7 +11,8 @@ import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Search, UserPlus, Shield, ShieldOff, Clock, User } from "lucide-react";
+import { ACCESS_SCOPES, accessGrantState, type AccessScope } from "@/lib/consent";
+import { Search, UserPlus, Shield, ShieldOff, ShieldQuestion, Clock, User, Pencil, RotateCcw } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -36,6 +41,7 @@ interface Doctor {
   clinic_name: string | null;
   email: string | null;
   phone: string | null;
+  verification_status: string;
 }
 
 interface DoctorAccess {
@@ -43,11 +49,28 @@ interface DoctorAccess {
   doctor_id: string;
   patient_id: string;
   status: string;
+  scopes: string[];
   granted_at: string;
   expires_at: string | null;
   doctors: Doctor;
 }
 
+interface AccessRequest {
+  id: string;
+  doctor_id: string;
+  scopes: string[];
+  expires_at: string | null;
+  message: string | null;
+  created_at: string;
+  doctors: Doctor;
+}
+
+// What the consent dialog is open for
+type ConsentTarget =
+  | { mode: "grant"; doctor: Doctor }
+  | { mode: "edit"; access: DoctorAccess }
+  | { mode: "approve"; request: AccessRequest };
+
 const MyDoctors = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -56,23 +79,33 @@ const MyDoctors = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [consentTarget, setConsentTarget] = useState<ConsentTarget | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
 
   useEffect(() => {
     if (user) {
       fetchGrantedDoctors();
+      fetchRequests();
       fetchAllDoctors();
     }
   }, [user]);
 
+  const refresh = () => {
+    fetchGrantedDoctors();
+    fetchRequests();
+    setHistoryKey((key) => key + 1);
+  };
+
   const fetchGrantedDoctors = async () => {
     if (!user) return;
 
-    // First fetch access records
+    // First fetch access records; revoked ones only show in the history
     const { data: accessData, error: accessError } = await supabase
       .from("patient_doctor_access")
       .select("*")
       .eq("patient_id", user.id)
-      .eq("status", "active");
+      .in("status", ["active", "expired"]);
 
     if (accessError) {
       console.error("Error fetching access records:", accessError);
@@ -109,10 +142,12 @@ const MyDoctors = () => {
     setLoading(false);
   };
 
+  // Only verified doctors can be given access
   const fetchAllDoctors = async () => {
     const { data, error } = await supabase
       .from("doctors")
       .select("*")
+      .eq("verification_status", "verified")
       .order("full_name");
 
     if (!error && data) {
@@ -120,24 +155,38 @@ const MyDoctors = () => {
     }
   };
 
-  const grantAccess = async (doctorId: string) => {
+  const fetchRequests = async () => {
     if (!user) return;
 
-    // Check if access already exists
-    const existing = grantedDoctors.find((g) => g.doctor_id === doctorId);
-    if (existing) {
-      toast({
-        title: "Already Granted",
-        description: "This doctor already has access to your records",
-      });
-      return;
+    const { data, error } = await supabase
+      .from("doctor_access_requests")
+      .select("id, doctor_id, scopes, expires_at, message, created_at, doctors(*)")
+      .eq("patient_id", user.id)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching access requests:", error);
+    } else {
+      setRequests((data || []) as unknown as AccessRequest[]);
     }
+  };
 
-    const { error } = await supabase.from("patient_doctor_access").insert({
-      patient_id: user.id,
-      doctor_id: doctorId,
-      status: "active",
-    });
+  // Granting again after a revocation reuses the doctor's row
+  const grantAccess = async (doctorId: string, scopes: AccessScope[], expiresAt: string | null) => {
+    if (!user) return false;
+
+    const { error } = await supabase.from("patient_doctor_access").upsert(
+      {
+        patient_id: user.id,
+        doctor_id: doctorId,
+        status: "active",
+        scopes,
+        expires_at: expiresAt,
+        granted_at: new Date().toISOString(),
+      },
+      { onConflict: "patient_id,doctor_id" }
+    );
 
     if (error) {
       toast({
@@ -145,14 +194,64 @@ const MyDoctors = () => {
         description: "Failed to grant access",
         variant: "destructive",
       });
-    } else {
+      return false;
+    }
+    toast({
+      title: "Access Granted",
+      description: "Doctor can now view the records you chose",
+    });
+    refresh();
+    return true;
+  };
+
+  // Also renews an expired grant
+  const updateAccess = async (access: DoctorAccess, scopes: AccessScope[], expiresAt: string | null) => {
+    const { error } = await supabase
+      .from("patient_doctor_access")
+      .update({ status: "active", scopes, expires_at: expiresAt })
+      .eq("id", access.id);
+
+    if (error) {
       toast({
-        title: "Access Granted",
-        description: "Doctor can now view your health records",
+        title: "Error",
+        description: "Failed to update access",
+        variant: "destructive",
       });
-      fetchGrantedDoctors();
-      setDialogOpen(false);
+      return false;
     }
+    toast({
+      title: "Access Updated",
+      description: `${access.doctors?.full_name} can see the records you chose`,
+    });
+    refresh();
+    return true;
+  };
+
+  const respondToRequest = async (
+    request: AccessRequest,
+    approve: boolean,
+    scopes?: AccessScope[],
+    expiresAt?: string | null
+  ) => {
+    const { error } = await supabase.rpc("respond_to_access_request", {
+      _request_id: request.id,
+      _approve: approve,
+      _scopes: scopes,
+      _expires_at: expiresAt ?? undefined,
+    });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return false;
+    }
+    toast({
+      title: approve ? "Access Granted" : "Request Declined",
+      description: approve
+        ? `${request.doctors?.full_name} can now view the records you chose`
+        : `${request.doctors?.full_name} has been told you declined`,
+    });
+    refresh();
+    return true;
   };
 
   const revokeAccess = async (accessId: string) => {
@@ -172,17 +271,38 @@ const MyDoctors = () => {
         title: "Access Revoked",
         description: "Doctor can no longer view your health records",
       });
-      fetchGrantedDoctors();
+      refresh();
     }
   };
 
+  const handleConsent = (scopes: AccessScope[], expiresAt: string | null) => {
+    if (!consentTarget) return Promise.resolve(false);
+    switch (consentTarget.mode) {
+      case "grant":
+        return grantAccess(consentTarget.doctor.id, scopes, expiresAt);
+      case "edit":
+        return updateAccess(consentTarget.access, scopes, expiresAt);
+      case "approve":
+        return respondToRequest(consentTarget.request, true, scopes, expiresAt);
+    }
+  };
+
+  const consentDoctorName =
+    consentTarget?.mode === "grant"
+      ? consentTarget.doctor.full_name
+      : consentTarget?.mode === "edit"
+      ? consentTarget.access.doctors?.full_name
+      : consentTarget?.request.doctors?.full_name;
+
   const filteredDoctors = allDoctors.filter(
     (doctor) =>
       doctor.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       doctor.specialization?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const grantedDoctorIds = grantedDoctors.map((g) => g.doctor_id);
+  const grantedDoctorIds = grantedDoctors
+    .filter((g) => accessGrantState(g) === "active")
+    .map((g) => g.doctor_id);
 
   return (
     <PatientLayout>
@@ -233,7 +353,10 @@ const MyDoctors = () => {
                               <User className="h-5 w-5 text-primary" />
                             </div>
                             <div>
-                              <p className="font-medium">{doctor.full_name}</p>
+                              <p className="font-medium flex items-center gap-2">
+                                {doctor.full_name}
+                                <VerifiedBadge status={doctor.verification_status} />
+                              </p>
                               <p className="text-sm text-muted-foreground">
                                 {doctor.specialization || "General Practice"}
                               </p>
@@ -244,7 +367,10 @@ const MyDoctors = () => {
                           ) : (
                             <Button
                               size="sm"
-                              onClick={() => grantAccess(doctor.id)}
+                              onClick={() => {
+                                setDialogOpen(false);
+                                setConsentTarget({ mode: "grant", doctor });
+                              }}
                             >
                               Grant Access
                             </Button>
@@ -259,6 +385,55 @@ const MyDoctors = () => {
           </Dialog>
         </div>
 
+        {/* Access requests from doctors */}
+        {requests.length > 0 && (
+          <div>
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+              <ShieldQuestion className="h-5 w-5 text-primary" />
+              Access Requests
+            </h2>
+            <div className="grid gap-4 md:grid-cols-2">
+              {requests.map((request) => (
+                <Card key={request.id}>
+                  <CardContent className="p-6 space-y-3">
+                    <div>
+                      <h3 className="font-semibold flex items-center gap-2">
+                        {request.doctors?.full_name}
+                        {request.doctors && <VerifiedBadge status={request.doctors.verification_status} showUnverified />}
+                      </h3>
+                      <p className="text-sm text-muted-foreground">
+                        {request.doctors?.specialization || "General Practice"} • asked{" "}
+                        {new Date(request.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    {request.message && <p className="text-sm italic">"{request.message}"</p>}
+                    <div className="flex flex-wrap gap-1">
+                      {request.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline">
+                          {ACCESS_SCOPES[scope as AccessScope]?.label ?? scope}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {request.expires_at
+                        ? `Until ${format(new Date(request.expires_at), "PP")}`
+                        : "No end date requested"}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => setConsentTarget({ mode: "approve", request })}>
+                        Review &amp; Approve
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => respondToRequest(request, false)}>
+                        Decline
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Granted Doctors List */}
         <div>
           <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
@@ -295,8 +470,11 @@ const MyDoctors = () => {
                           </span>
                         </div>
                         <div>
-                          <h3 className="font-semibold">
+                          <h3 className="font-semibold flex items-center gap-2">
                             {access.doctors?.full_name}
+                            {access.doctors && (
+                              <VerifiedBadge status={access.doctors.verification_status} showUnverified />
+                            )}
                           </h3>
                           <p className="text-sm text-muted-foreground">
                             {access.doctors?.specialization || "General Practice"}
@@ -306,37 +484,65 @@ const MyDoctors = () => {
                             <span>
                               Granted{" "}
                               {new Date(access.granted_at).toLocaleDateString()}
+                              {access.expires_at &&
+                                ` • ${accessGrantState(access) === "expired" ? "Ended" : "Until"} ${format(
+                                  new Date(access.expires_at),
+                                  "PP"
+                                )}`}
                             </span>
                           </div>
                         </div>
                       </div>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button variant="outline" size="sm" className="text-destructive">
-                            <ShieldOff className="h-4 w-4 mr-1" />
-                            Revoke
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Revoke Access?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              {access.doctors?.full_name} will no longer be able
-                              to view your health records. You can grant access
-                              again at any time.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => revokeAccess(access.id)}
-                              className="bg-destructive text-destructive-foreground"
-                            >
-                              Revoke Access
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setConsentTarget({ mode: "edit", access })}>
+                          {accessGrantState(access) === "expired" ? (
+                            <>
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Renew
+                            </>
+                          ) : (
+                            <>
+                              <Pencil className="h-4 w-4 mr-1" />
+                              Edit
+                            </>
+                          )}
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" className="text-destructive">
+                              <ShieldOff className="h-4 w-4 mr-1" />
+                              Revoke
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Revoke Access?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {access.doctors?.full_name} will no longer be able
+                                to view your health records. You can grant access
+                                again at any time.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => revokeAccess(access.id)}
+                                className="bg-destructive text-destructive-foreground"
+                              >
+                                Revoke Access
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1 mt-3">
+                      {accessGrantState(access) === "expired" && <Badge variant="destructive">Expired</Badge>}
+                      {access.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary">
+                          {ACCESS_SCOPES[scope as AccessScope]?.label ?? scope}
+                        </Badge>
+                      ))}
                     </div>
                     {access.doctors?.clinic_name && (
                       <p className="text-sm text-muted-foreground mt-3">
@@ -349,6 +555,37 @@ const MyDoctors = () => {
             </div>
           )}
         </div>
+
+        <ConsentHistory viewer="patient" refreshKey={historyKey} />
+
+        <ConsentDialog
+          open={consentTarget !== null}
+          onOpenChange={(open) => !open && setConsentTarget(null)}
+          title={
+            consentTarget?.mode === "approve"
+              ? "Approve Access Request"
+              : consentTarget?.mode === "edit"
+              ? "Change Access"
+              : "Grant Access"
+          }
+          description={`Choose what ${consentDoctorName ?? "this doctor"} can see and until when`}
+          confirmLabel={consentTarget?.mode === "edit" ? "Save" : "Grant Access"}
+          initialScopes={
+            consentTarget?.mode === "edit"
+              ? consentTarget.access.scopes
+              : consentTarget?.mode === "approve"
+              ? consentTarget.request.scopes
+              : undefined
+          }
+          initialExpiresAt={
+            consentTarget?.mode === "edit"
+              ? consentTarget.access.expires_at
+              : consentTarget?.mode === "approve"
+              ? consentTarget.request.expires_at
+              : null
+          }
+          onConfirm={handleConsent}
+        />
       </div>
     </PatientLayout>
   );
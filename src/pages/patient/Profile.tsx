@@ -2,6 +2,13 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { PatientLayout } from "@/components/layouts/PatientLayout";
+import { FhirExportButton } from "@/components/FhirExportButton";
+import { FhirImportDialog } from "@/components/FhirImportDialog";
+import { CalendarFeedSettings } from "@/components/CalendarFeedSettings";
+import { NotificationPreferences } from "@/components/NotificationPreferences";
+import { NotificationDeliveryLog } from "@/components/NotificationDeliveryLog";
+import { PersonalDataExport } from "@/components/PersonalDataExport";
+import { AccountDeletionSettings } from "@/components/AccountDeletionSettings";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -210,7 +217,9 @@ const Profile = () => {
           </Card>
         </div>
 
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-2">
+          <FhirImportDialog onImported={fetchProfile} />
+          {profile?.health_id && <FhirExportButton healthId={profile.health_id} />}
           <Button onClick={handleSave} disabled={saving}>
             {saving ? (
               <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -220,6 +229,16 @@ const Profile = () => {
             Save Changes
           </Button>
         </div>
+
+        <NotificationPreferences />
+
+        <NotificationDeliveryLog />
+
+        <CalendarFeedSettings />
+
+        <PersonalDataExport />
+
+        <AccountDeletionSettings />
       </div>
     </PatientLayout>
   );
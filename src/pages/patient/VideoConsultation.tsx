@@ -9,6 +9,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { Video, Calendar, Clock, Loader2 } from "lucide-react";
 import { format } from "date-fns";
+import { appointmentStatusLabel } from "@/lib/appointmentStatus";
 
 interface Appointment {
   id: string;
@@ -44,8 +45,8 @@ const PatientVideoConsultation = () => {
         .select('*')
         .eq('patient_id', user.id)
         .eq('type', 'video')
-        .in('status', ['confirmed', 'pending'])
-        .gte('scheduled_time', new Date().toISOString())
+        .in('status', ['requested', 'confirmed', 'checked-in', 'in-progress'])
+        .gte('ends_at', new Date().toISOString())
         .order('scheduled_time', { ascending: true });
 
       if (error) {
@@ -165,8 +166,8 @@ const PatientVideoConsultation = () => {
                         {appointment.doctor?.specialization}
                       </p>
                     </div>
-                    <Badge variant={appointment.status === 'confirmed' ? 'default' : 'secondary'}>
-                      {appointment.status}
+                    <Badge variant={appointment.status === 'requested' ? 'secondary' : 'default'}>
+                      {appointmentStatusLabel(appointment.status)}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -188,7 +189,7 @@ const PatientVideoConsultation = () => {
                   )}
                   <Button
                     onClick={() => joinVideoCall(appointment.id)}
-                    disabled={joiningRoom === appointment.id || appointment.status !== 'confirmed'}
+                    disabled={joiningRoom === appointment.id || appointment.status === 'requested'}
                     className="w-full sm:w-auto"
                   >
                     {joiningRoom === appointment.id ? (
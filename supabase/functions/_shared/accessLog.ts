@@ -0,0 +1,87 @@
+// ============================================================================
+// DATA ACCESS LOG
+// Runtime-agnostic: the places a read of patient data is recorded from and
+// the data categories an entry names, as stored in data_access_log. The
+// server writes every entry as part of the read: doctors in the app read
+// through the read_patient_record and read_patient_profiles RPCs, the
+// patient's own exports and health-chat call record_data_access, and
+// triage-worklist, health-card and the SOS dispatch insert with the service
+// role.
+//
+// Background jobs that only read data to notify the patient themself
+// (reminders, vital alert evaluation, notification delivery) are not
+// recorded. The patient sees the log under "Who accessed my data".
+// ============================================================================
+
+import { ACCESS_SCOPES, type AccessScope } from './consent.ts';
+import { toCsv } from './csv.ts';
+
+export type AccessLogCategory = AccessScope | 'profile' | 'emergency_contacts' | 'appointments';
+
+export const ACCESS_LOG_CATEGORIES: Record<AccessLogCategory, string> = {
+  profile: 'Health profile',
+  vitals: ACCESS_SCOPES.vitals.label,
+  medications: ACCESS_SCOPES.medications.label,
+  allergies: ACCESS_SCOPES.allergies.label,
+  menstrual: ACCESS_SCOPES.menstrual.label,
+  pregnancy: ACCESS_SCOPES.pregnancy.label,
+  emergency_contacts: 'Emergency contacts',
+  appointments: 'Appointments',
+};
+
+export type AccessLogSource =
+  | 'patient-records'
+  | 'video-consultation'
+  | 'messages'
+  | 'triage-worklist'
+  | 'health-card'
+  | 'sos'
+  | 'fhir-export'
+  | 'health-chat'
+  | 'data-export'
+  | 'patient-list'
+  | 'prescriptions';
+
+export const ACCESS_LOG_SOURCES: Record<AccessLogSource, string> = {
+  'patient-records': 'Patient records',
+  'video-consultation': 'Video consultation',
+  messages: 'Messages',
+  'triage-worklist': 'Triage worklist',
+  'health-card': 'Health card scan',
+  sos: 'SOS alert',
+  'fhir-export': 'Health record export',
+  'health-chat': 'AI Assistant',
+  'data-export': 'Personal data export',
+  'patient-list': 'Patient list',
+  prescriptions: 'Prescriptions',
+};
+
+export type DataAccessor = 'doctor' | 'patient' | 'service';
+
+export interface DataAccessEntry {
+  accessor: string;
+  doctor_id: string | null;
+  accessor_name: string | null;
+  source: string;
+  categories: string[];
+  created_at: string;
+}
+
+// Who read the data, for the log and its CSV export
+export function accessorLabel(entry: Pick<DataAccessEntry, 'accessor' | 'accessor_name'>): string {
+  if (entry.accessor === 'patient') return 'You';
+  if (entry.accessor === 'doctor') return entry.accessor_name ? `Dr. ${entry.accessor_name}` : 'A former doctor';
+  return entry.accessor_name ?? 'Automated service';
+}
+
+export function accessLogToCsv(entries: DataAccessEntry[]): string {
+  return toCsv(
+    ['Date', 'Accessed by', 'Via', 'Data'],
+    entries.map((entry) => [
+      entry.created_at,
+      accessorLabel(entry),
+      ACCESS_LOG_SOURCES[entry.source as AccessLogSource] ?? entry.source,
+      entry.categories.map((c) => ACCESS_LOG_CATEGORIES[c as AccessLogCategory] ?? c).join('; '),
+    ])
+  );
+}
@@ -0,0 +1,105 @@
+// ============================================================================
+// VITAL ALERT EVALUATION
+// Loads new vital_signs rows, each patient's effective alert rules and the
+// history those rules need, and records every firing with
+// record_vital_alert (which raises a new alert or bumps the unresolved one).
+// Run by evaluate-vital-alerts for every batch of inserted readings.
+// ============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  alertHistoryMinutes,
+  effectiveAlertRules,
+  evaluateAlertRules,
+  type AlertReading,
+  type AlertRuleRow,
+} from "./alertRules.ts";
+
+// Enough for a sustained rule over a day of per-minute device readings
+const MAX_HISTORY_ROWS = 5000;
+
+const READING_COLUMNS =
+  'id, user_id, recorded_at, is_flagged, blood_pressure_systolic, blood_pressure_diastolic, heart_rate, blood_glucose, weight, temperature, oxygen_saturation';
+
+type Reading = AlertReading & { user_id: string };
+
+export interface EvaluationReport {
+  readings: number;
+  patients: number;
+  alerts: number;
+}
+
+export async function evaluateVitalAlerts(
+  supabase: SupabaseClient,
+  vitalSignIds: string[]
+): Promise<EvaluationReport> {
+  const { data: readings, error } = await supabase
+    .from('vital_signs')
+    .select(READING_COLUMNS)
+    .in('id', vitalSignIds);
+  if (error) throw error;
+
+  const byPatient = new Map<string, Reading[]>();
+  for (const reading of (readings ?? []) as Reading[]) {
+    byPatient.set(reading.user_id, [...(byPatient.get(reading.user_id) ?? []), reading]);
+  }
+
+  let alerts = 0;
+  for (const [patientId, newReadings] of byPatient) {
+    const { data: ruleRows, error: rulesError } = await supabase
+      .from('vital_alert_rules')
+      .select('id, default_key, metric, kind, comparison, threshold, window_minutes, severity, enabled, note')
+      .eq('patient_id', patientId);
+    if (rulesError) {
+      console.error(`[vital-alerts] Failed to load rules for ${patientId}:`, rulesError);
+      continue;
+    }
+
+    const rules = effectiveAlertRules((ruleRows ?? []) as AlertRuleRow[]).filter((rule) => rule.enabled);
+    if (rules.length === 0) continue;
+
+    const times = newReadings.map((r) => Date.parse(r.recorded_at));
+    const historyMinutes = alertHistoryMinutes(rules);
+    let history: AlertReading[] = newReadings;
+
+    if (historyMinutes > 0) {
+      const { data: rows, error: historyError } = await supabase
+        .from('vital_signs')
+        .select(READING_COLUMNS)
+        .eq('user_id', patientId)
+        .gte('recorded_at', new Date(Math.min(...times) - historyMinutes * 60 * 1000).toISOString())
+        .lte('recorded_at', new Date(Math.max(...times)).toISOString())
+        .order('recorded_at', { ascending: false })
+        .limit(MAX_HISTORY_ROWS);
+      if (historyError) {
+        console.error(`[vital-alerts] Failed to load history for ${patientId}:`, historyError);
+        continue;
+      }
+      history = ((rows ?? []) as AlertReading[]).reverse();
+    }
+
+    for (const firing of evaluateAlertRules(rules, newReadings, history)) {
+      const { error: recordError } = await supabase.rpc('record_vital_alert', {
+        _patient_id: patientId,
+        _alert_key: firing.rule.key,
+        _rule_id: firing.rule.ruleId,
+        _metric: firing.rule.metric,
+        _kind: firing.rule.kind,
+        _severity: firing.rule.severity,
+        _title: firing.rule.label,
+        _message: firing.message,
+        _value: firing.value,
+        _threshold: firing.rule.threshold,
+        _vital_sign_id: firing.reading.id,
+        _triggered_at: firing.reading.recorded_at,
+      });
+      if (recordError) {
+        console.error(`[vital-alerts] Failed to record ${firing.rule.key} for ${patientId}:`, recordError);
+      } else {
+        alerts++;
+      }
+    }
+  }
+
+  return { readings: readings?.length ?? 0, patients: byPatient.size, alerts };
+}
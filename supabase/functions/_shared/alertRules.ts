@@ -0,0 +1,309 @@
+// ============================================================================
+// VITAL SIGN ALERT RULES
+// Runtime-agnostic: the built-in rules (thresholds from MEDICAL_THRESHOLDS),
+// how per-patient rows in vital_alert_rules override or extend them, and the
+// evaluation of absolute, delta and sustained rules against a reading and
+// the patient's recent history. Used by evaluate-vital-alerts and by the
+// rule editor in the app.
+// ============================================================================
+
+import { MEDICAL_THRESHOLDS } from './riskEngine.ts';
+import { VITAL_RANGES, type VitalMetric } from './vitalValidation.ts';
+
+export type AlertRuleKind = 'absolute' | 'delta' | 'sustained';
+export type AlertComparison = '>' | '>=' | '<' | '<=';
+export type AlertSeverity = 'warning' | 'critical';
+export type VitalAlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export const ALERT_COMPARISONS: AlertComparison[] = ['>', '>=', '<', '<='];
+
+export interface AlertRule {
+  // The built-in key, or `rule:<id>` for a custom rule; one unresolved alert
+  // per key
+  key: string;
+  ruleId: string | null;
+  defaultKey: string | null;
+  label: string;
+  metric: VitalMetric;
+  kind: AlertRuleKind;
+  comparison: AlertComparison;
+  threshold: number;
+  // Look-back for delta rules, minimum duration for sustained rules
+  windowMinutes: number | null;
+  severity: AlertSeverity;
+  enabled: boolean;
+  note: string | null;
+}
+
+// A row of vital_alert_rules
+export interface AlertRuleRow {
+  id: string;
+  default_key: string | null;
+  metric: string;
+  kind: string;
+  comparison: string;
+  threshold: number;
+  window_minutes: number | null;
+  severity: string;
+  enabled: boolean;
+  note: string | null;
+}
+
+const builtIn = (rule: Omit<AlertRule, 'ruleId' | 'defaultKey' | 'note'>): AlertRule => ({
+  ...rule,
+  ruleId: null,
+  defaultKey: rule.key,
+  note: null,
+});
+
+// Rapid weight gain is off by default: doctors turn it on for patients with
+// heart failure
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  builtIn({
+    key: 'spo2_low',
+    label: 'Low oxygen saturation',
+    metric: 'oxygen_saturation',
+    kind: 'absolute',
+    comparison: '<',
+    threshold: MEDICAL_THRESHOLDS.spo2_low,
+    windowMinutes: null,
+    severity: 'critical',
+    enabled: true,
+  }),
+  builtIn({
+    key: 'bp_systolic_high',
+    label: 'Stage 2 hypertension',
+    metric: 'blood_pressure_systolic',
+    kind: 'absolute',
+    comparison: '>=',
+    threshold: MEDICAL_THRESHOLDS.bp_hypertension_2,
+    windowMinutes: null,
+    severity: 'warning',
+    enabled: true,
+  }),
+  builtIn({
+    key: 'glucose_high',
+    label: 'High blood glucose',
+    metric: 'blood_glucose',
+    kind: 'absolute',
+    comparison: '>=',
+    threshold: MEDICAL_THRESHOLDS.glucose_diabetes,
+    windowMinutes: null,
+    severity: 'warning',
+    enabled: true,
+  }),
+  builtIn({
+    key: 'hr_high_sustained',
+    label: 'Sustained high heart rate',
+    metric: 'heart_rate',
+    kind: 'sustained',
+    comparison: '>',
+    threshold: MEDICAL_THRESHOLDS.hr_sustained_high,
+    windowMinutes: MEDICAL_THRESHOLDS.hr_sustained_minutes,
+    severity: 'warning',
+    enabled: true,
+  }),
+  builtIn({
+    key: 'weight_gain',
+    label: 'Rapid weight gain',
+    metric: 'weight',
+    kind: 'delta',
+    comparison: '>=',
+    threshold: MEDICAL_THRESHOLDS.weight_gain_kg,
+    windowMinutes: MEDICAL_THRESHOLDS.weight_gain_days * 24 * 60,
+    severity: 'warning',
+    enabled: false,
+  }),
+];
+
+const KIND_LABELS: Record<AlertRuleKind, string> = {
+  absolute: 'Reading',
+  delta: 'Change',
+  sustained: 'Sustained',
+};
+
+// The built-in rules with the patient's overrides applied, followed by their
+// custom rules
+export function effectiveAlertRules(rows: AlertRuleRow[]): AlertRule[] {
+  const fromRow = (row: AlertRuleRow, label: string, key: string): AlertRule => ({
+    key,
+    ruleId: row.id,
+    defaultKey: row.default_key,
+    label,
+    metric: row.metric as VitalMetric,
+    kind: row.kind as AlertRuleKind,
+    comparison: row.comparison as AlertComparison,
+    threshold: Number(row.threshold),
+    windowMinutes: row.window_minutes,
+    severity: row.severity as AlertSeverity,
+    enabled: row.enabled,
+    note: row.note,
+  });
+
+  const defaults = DEFAULT_ALERT_RULES.map((rule) => {
+    const override = rows.find((row) => row.default_key === rule.key);
+    return override ? fromRow(override, rule.label, rule.key) : rule;
+  });
+
+  const custom = rows
+    .filter((row) => !row.default_key)
+    .map((row) => fromRow(
+      row,
+      `${VITAL_RANGES[row.metric as VitalMetric]?.label ?? row.metric} ${KIND_LABELS[row.kind as AlertRuleKind]?.toLowerCase() ?? row.kind}`,
+      `rule:${row.id}`
+    ));
+
+  return [...defaults, ...custom];
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+const COMPARISON_WORDS: Record<AlertComparison, string> = {
+  '>': 'above',
+  '>=': 'at or above',
+  '<': 'below',
+  '<=': 'at or below',
+};
+
+const isRising = (comparison: AlertComparison) => comparison === '>' || comparison === '>=';
+
+// e.g. "SpO2 below 90 %", "Weight rises by 2 kg or more within 3 days",
+// "Heart rate above 120 bpm for 10 minutes"
+export function describeAlertRule(rule: Pick<AlertRule, 'metric' | 'kind' | 'comparison' | 'threshold' | 'windowMinutes'>): string {
+  const { label, unit } = VITAL_RANGES[rule.metric];
+  const window = rule.windowMinutes ? formatDuration(rule.windowMinutes) : '';
+
+  if (rule.kind === 'delta') {
+    const amount = Math.abs(rule.threshold);
+    const strict = rule.comparison === '>' || rule.comparison === '<';
+    return `${label} ${isRising(rule.comparison) ? 'rises' : 'falls'} by ${strict ? 'more than ' : ''}${amount} ${unit}${strict ? '' : ' or more'} within ${window}`;
+  }
+
+  const condition = `${label} ${COMPARISON_WORDS[rule.comparison]} ${rule.threshold} ${unit}`;
+  return rule.kind === 'sustained' ? `${condition} for ${window}` : condition;
+}
+
+export type AlertReading = Partial<Record<VitalMetric, number | null>> & {
+  id: string;
+  recorded_at: string;
+  is_flagged?: boolean | null;
+};
+
+export interface AlertFiring {
+  rule: AlertRule;
+  reading: AlertReading;
+  // The reading's value, or the change for delta rules
+  value: number;
+  message: string;
+}
+
+function compare(value: number, comparison: AlertComparison, threshold: number): boolean {
+  switch (comparison) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// history: the patient's readings in ascending time order, including
+// `reading` itself; only those up to `reading` are considered
+export function evaluateAlertRule(
+  rule: AlertRule,
+  reading: AlertReading,
+  history: AlertReading[]
+): AlertFiring | null {
+  const current = reading[rule.metric];
+  if (!rule.enabled || current === undefined || current === null) return null;
+
+  const value = Number(current);
+  const at = Date.parse(reading.recorded_at);
+  const { label, unit } = VITAL_RANGES[rule.metric];
+  const flagged = reading.is_flagged ? ' The reading was flagged as implausible; check the device.' : '';
+  const series = history
+    .filter((r) => r[rule.metric] !== undefined && r[rule.metric] !== null && Date.parse(r.recorded_at) <= at)
+    .map((r) => ({ at: Date.parse(r.recorded_at), value: Number(r[rule.metric]) }))
+    .sort((a, b) => a.at - b.at);
+
+  if (rule.kind === 'absolute') {
+    if (!compare(value, rule.comparison, rule.threshold)) return null;
+    return {
+      rule,
+      reading,
+      value,
+      message: `${label} ${value} ${unit} (alert when ${COMPARISON_WORDS[rule.comparison]} ${rule.threshold} ${unit}).${flagged}`,
+    };
+  }
+
+  const windowMs = (rule.windowMinutes ?? 0) * 60 * 1000;
+
+  if (rule.kind === 'delta') {
+    const earlier = series.filter((p) => p.at < at && p.at >= at - windowMs);
+    if (earlier.length === 0) return null;
+    const baseline = isRising(rule.comparison)
+      ? Math.min(...earlier.map((p) => p.value))
+      : Math.max(...earlier.map((p) => p.value));
+    const change = round(value - baseline);
+    if (!compare(change, rule.comparison, rule.threshold)) return null;
+    return {
+      rule,
+      reading,
+      value: change,
+      message: `${label} ${change > 0 ? 'rose' : 'fell'} by ${Math.abs(change)} ${unit} within ${formatDuration(rule.windowMinutes!)} (${baseline} to ${value} ${unit}).${flagged}`,
+    };
+  }
+
+  // Sustained: walk back from this reading while the condition holds; a gap
+  // longer than the window between readings breaks the run
+  let start = at;
+  for (let i = series.length - 1; i >= 0; i--) {
+    const point = series[i];
+    if (!compare(point.value, rule.comparison, rule.threshold)) break;
+    if (start - point.at > windowMs) break;
+    start = point.at;
+  }
+  if (!compare(value, rule.comparison, rule.threshold) || at - start < windowMs) return null;
+
+  return {
+    rule,
+    reading,
+    value,
+    message: `${label} has been ${COMPARISON_WORDS[rule.comparison]} ${rule.threshold} ${unit} for ${formatDuration(Math.round((at - start) / 60000))} (now ${value} ${unit}).${flagged}`,
+  };
+}
+
+// The latest firing of each rule across the new readings
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  readings: AlertReading[],
+  history: AlertReading[]
+): AlertFiring[] {
+  const ordered = [...readings].sort((a, b) => Date.parse(a.recorded_at) - Date.parse(b.recorded_at));
+  const latest = new Map<string, AlertFiring>();
+
+  for (const reading of ordered) {
+    for (const rule of rules) {
+      const firing = evaluateAlertRule(rule, reading, history);
+      if (firing) latest.set(rule.key, firing);
+    }
+  }
+
+  return Array.from(latest.values());
+}
+
+// The longest history any enabled rule needs before a reading
+export function alertHistoryMinutes(rules: AlertRule[]): number {
+  return Math.max(0, ...rules.filter((r) => r.enabled && r.kind !== 'absolute').map((r) => r.windowMinutes ?? 0));
+}
@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Stands in for Supabase Auth and the user_roles table: getUser accepts only
+// tokens it issued and rejects the rest the way GoTrue does.
+const auth = vi.hoisted(() => ({
+  users: new Map<string, { id: string; email: string }>(),
+  rejections: new Map<string, string>(),
+  roles: new Map<string, string[]>(),
+  roleError: null as { message: string } | null,
+  clientHeaders: [] as Record<string, string>[],
+}));
+
+vi.mock('https://esm.sh/@supabase/supabase-js@2', () => ({
+  createClient: (_url: string, _key: string, options: { global: { headers: Record<string, string> } }) => {
+    auth.clientHeaders.push(options.global.headers);
+    return {
+      auth: {
+        getUser: async (token: string) => {
+          const user = auth.users.get(token);
+          if (user) return { data: { user }, error: null };
+          return {
+            data: { user: null },
+            error: {
+              status: 403,
+              message: auth.rejections.get(token) ?? 'invalid JWT: unable to parse or verify signature',
+            },
+          };
+        },
+      },
+      from: () => ({
+        select: () => ({
+          eq: async (_column: string, userId: string) =>
+            auth.roleError
+              ? { data: null, error: auth.roleError }
+              : { data: (auth.roles.get(userId) ?? []).map((role) => ({ role })), error: null },
+        }),
+      }),
+    };
+  },
+}));
+
+vi.stubGlobal('Deno', { env: { get: () => 'test' } });
+
+const { authenticateUser, bearerToken } = await import('./auth.ts');
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const jwt = (claims: object, signature = 'c2lnbmF0dXJl') =>
+  `${base64url({ alg: 'HS256', typ: 'JWT' })}.${base64url(claims)}.${signature}`;
+
+const PATIENT = { id: '6f1c1a52-0000-4000-8000-000000000001', email: 'patient@example.com' };
+const DOCTOR = { id: '6f1c1a52-0000-4000-8000-000000000002', email: 'doctor@example.com' };
+const future = Math.floor(Date.now() / 1000) + 3600;
+
+const PATIENT_TOKEN = jwt({ sub: PATIENT.id, role: 'authenticated', exp: future });
+const DOCTOR_TOKEN = jwt({ sub: DOCTOR.id, role: 'authenticated', exp: future });
+// Claims a real user and even the service role, but was not signed by Auth
+const FORGED_TOKEN = jwt({ sub: DOCTOR.id, role: 'service_role', exp: future }, 'Zm9yZ2Vk');
+const EXPIRED_TOKEN = jwt({ sub: PATIENT.id, role: 'authenticated', exp: 1_600_000_000 });
+
+const request = (authorization?: string) =>
+  new Request('https://example.supabase.co/functions/v1/test', {
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+
+beforeEach(() => {
+  auth.users = new Map([
+    [PATIENT_TOKEN, PATIENT],
+    [DOCTOR_TOKEN, DOCTOR],
+  ]);
+  auth.rejections = new Map([
+    [EXPIRED_TOKEN, 'invalid JWT: unable to parse or verify signature, token has invalid claims: token is expired'],
+  ]);
+  auth.roles = new Map([
+    [PATIENT.id, ['patient']],
+    [DOCTOR.id, ['doctor', 'patient']],
+  ]);
+  auth.roleError = null;
+  auth.clientHeaders = [];
+  vi.restoreAllMocks();
+});
+
+describe('bearerToken', () => {
+  it('reads the token from a Bearer header', () => {
+    expect(bearerToken(request(`Bearer ${PATIENT_TOKEN}`))).toBe(PATIENT_TOKEN);
+    expect(bearerToken(request(`bearer   ${PATIENT_TOKEN}`))).toBe(PATIENT_TOKEN);
+  });
+
+  it('ignores other schemes and malformed headers', () => {
+    expect(bearerToken(request())).toBeNull();
+    expect(bearerToken(request(`Basic ${PATIENT_TOKEN}`))).toBeNull();
+    expect(bearerToken(request('Bearer'))).toBeNull();
+    expect(bearerToken(request(`Bearer ${PATIENT_TOKEN} extra`))).toBeNull();
+  });
+});
+
+describe('authenticateUser', () => {
+  it('returns 401 without a token', async () => {
+    expect(await authenticateUser(request())).toEqual({ ok: false, status: 401, error: 'Unauthorized' });
+    expect(auth.clientHeaders).toEqual([]);
+  });
+
+  it('returns 401 for a forged token', async () => {
+    expect(await authenticateUser(request(`Bearer ${FORGED_TOKEN}`))).toEqual({
+      ok: false,
+      status: 401,
+      error: 'Invalid or expired token',
+    });
+  });
+
+  it('returns 401 for an expired token', async () => {
+    expect(await authenticateUser(request(`Bearer ${EXPIRED_TOKEN}`))).toEqual({
+      ok: false,
+      status: 401,
+      error: 'Invalid or expired token',
+    });
+  });
+
+  it('returns 401 for a token that is not a JWT', async () => {
+    expect(await authenticateUser(request('Bearer not-a-jwt'))).toEqual({
+      ok: false,
+      status: 401,
+      error: 'Invalid or expired token',
+    });
+  });
+
+  it('returns 403 when the role is not allowed', async () => {
+    expect(await authenticateUser(request(`Bearer ${PATIENT_TOKEN}`), { allowedRoles: ['doctor'] })).toEqual({
+      ok: false,
+      status: 403,
+      error: 'Forbidden',
+    });
+    expect(await authenticateUser(request(`Bearer ${DOCTOR_TOKEN}`), { allowedRoles: ['admin'] })).toEqual({
+      ok: false,
+      status: 403,
+      error: 'Forbidden',
+    });
+  });
+
+  it('returns 403 when the user has no role', async () => {
+    auth.roles.delete(PATIENT.id);
+    expect(await authenticateUser(request(`Bearer ${PATIENT_TOKEN}`))).toEqual({
+      ok: false,
+      status: 403,
+      error: 'User has no role assigned',
+    });
+  });
+
+  it('ignores roles it does not know', async () => {
+    auth.roles.set(PATIENT.id, ['superuser']);
+    expect(await authenticateUser(request(`Bearer ${PATIENT_TOKEN}`))).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it('returns 500 when the roles cannot be loaded', async () => {
+    auth.roleError = { message: 'connection refused' };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await authenticateUser(request(`Bearer ${PATIENT_TOKEN}`))).toEqual({
+      ok: false,
+      status: 500,
+      error: 'Failed to load user role',
+    });
+  });
+
+  it('accepts a valid token with an allowed role', async () => {
+    const result = await authenticateUser(request(`Bearer ${PATIENT_TOKEN}`), { allowedRoles: ['patient'] });
+    expect(result.ok && result.user).toEqual({
+      id: PATIENT.id,
+      email: PATIENT.email,
+      role: 'patient',
+      roles: ['patient'],
+    });
+  });
+
+  it('reports the most privileged role, or the one that granted access', async () => {
+    const anyRole = await authenticateUser(request(`Bearer ${DOCTOR_TOKEN}`));
+    expect(anyRole.ok && anyRole.user.role).toBe('doctor');
+    expect(anyRole.ok && anyRole.user.roles).toEqual(['doctor', 'patient']);
+
+    const asPatient = await authenticateUser(request(`Bearer ${DOCTOR_TOKEN}`), { allowedRoles: ['patient'] });
+    expect(asPatient.ok && asPatient.user.role).toBe('patient');
+  });
+
+  it('queries as the caller so RLS applies', async () => {
+    await authenticateUser(request(`Bearer ${PATIENT_TOKEN}`));
+    expect(auth.clientHeaders).toEqual([{ Authorization: `Bearer ${PATIENT_TOKEN}` }]);
+  });
+});
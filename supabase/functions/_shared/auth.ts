@@ -0,0 +1,89 @@
+// ============================================================================
+// USER AUTHENTICATION FOR EDGE FUNCTIONS
+// Verifies the caller's bearer token with Supabase Auth (auth.getUser checks
+// the signature and expiry server-side) and loads their role from
+// user_roles. The claims in the token are never trusted on their own.
+//
+// The returned client carries the caller's JWT, so queries made with it are
+// limited by RLS to rows the caller may see. iot-webhook does not use this:
+// devices authenticate with signed requests (see deviceAuth.ts).
+// ============================================================================
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type AppRole = 'patient' | 'doctor' | 'admin';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string | null;
+  role: AppRole;
+  roles: AppRole[];
+}
+
+export type UserAuthResult =
+  | { ok: true; user: AuthenticatedUser; supabase: SupabaseClient }
+  | { ok: false; status: number; error: string };
+
+// When a user holds several roles the most privileged one is reported
+const ROLE_PRECEDENCE: AppRole[] = ['admin', 'doctor', 'patient'];
+
+export function bearerToken(req: Request): string | null {
+  const header = req.headers.get('Authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+export async function authenticateUser(
+  req: Request,
+  options: { allowedRoles?: AppRole[] } = {}
+): Promise<UserAuthResult> {
+  const token = bearerToken(req);
+  if (!token) {
+    return { ok: false, status: 401, error: 'Unauthorized' };
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  );
+
+  // Rejects forged, malformed and expired tokens
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+  if (userError || !user) {
+    return { ok: false, status: 401, error: 'Invalid or expired token' };
+  }
+
+  const { data: roleRows, error: roleError } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id);
+
+  if (roleError) {
+    console.error('[auth] Error loading roles:', roleError);
+    return { ok: false, status: 500, error: 'Failed to load user role' };
+  }
+
+  const roles = ROLE_PRECEDENCE.filter((role) => (roleRows ?? []).some((row) => row.role === role));
+  if (roles.length === 0) {
+    return { ok: false, status: 403, error: 'User has no role assigned' };
+  }
+
+  if (options.allowedRoles && !roles.some((role) => options.allowedRoles!.includes(role))) {
+    return { ok: false, status: 403, error: 'Forbidden' };
+  }
+
+  // Report the role that granted access when the function restricts roles
+  const role = options.allowedRoles
+    ? roles.find((r) => options.allowedRoles!.includes(r))!
+    : roles[0];
+
+  return {
+    ok: true,
+    user: { id: user.id, email: user.email ?? null, role, roles },
+    supabase,
+  };
+}
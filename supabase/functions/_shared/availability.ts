@@ -0,0 +1,112 @@
+// ============================================================================
+// DOCTOR AVAILABILITY
+// Runtime-agnostic: turns a doctor's working hours, breaks and time off into
+// bookable slots. Working hours and breaks are wall-clock times in the
+// doctor's timezone; slots come out as UTC instants so patients in any zone
+// can render them locally. Mirrors the checks in the validate_appointment_slot
+// trigger, which is what actually guards bookings.
+// ============================================================================
+
+import { addDays, toZonedParts, weekdayOf, zonedDateTimeToUtc } from './timezone.ts';
+
+export const DEFAULT_APPOINTMENT_DURATION = 30;
+// Patients can't book a slot starting sooner than this
+export const MIN_BOOKING_NOTICE_MINUTES = 60;
+
+export interface WorkingHoursRow {
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
+export interface BreakRow {
+  weekday: number | null;
+  start_time: string;
+  end_time: string;
+}
+
+// Time off, booked appointments, or anything else that blocks the calendar
+export interface BusyInterval {
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface AvailabilityInput {
+  timezone: string;
+  workingHours: WorkingHoursRow[];
+  breaks: BreakRow[];
+  busy: BusyInterval[];
+}
+
+export interface SlotOptions {
+  from: Date;
+  days: number;
+  durationMinutes: number;
+  // Gap between slot starts; defaults to the duration
+  stepMinutes?: number;
+  now?: Date;
+  minNoticeMinutes?: number;
+}
+
+export interface Slot {
+  start: string;
+  end: string;
+  // Date and time of the slot on the doctor's wall clock
+  doctorDate: string;
+  doctorTime: string;
+}
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const minutesToTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export function computeFreeSlots(input: AvailabilityInput, options: SlotOptions): Slot[] {
+  const { timezone, workingHours, breaks, busy } = input;
+  const step = options.stepMinutes ?? options.durationMinutes;
+  const duration = options.durationMinutes;
+  const now = options.now ?? new Date();
+  const earliest = now.getTime() + (options.minNoticeMinutes ?? MIN_BOOKING_NOTICE_MINUTES) * 60 * 1000;
+  const busyMs = busy.map((b) => [new Date(b.starts_at).getTime(), new Date(b.ends_at).getTime()]);
+
+  const slots: Slot[] = [];
+  const seen = new Set<number>();
+  let date = toZonedParts(options.from, timezone).date;
+
+  for (let day = 0; day < options.days; day++, date = addDays(date, 1)) {
+    const weekday = weekdayOf(date);
+    const dayBreaks = breaks
+      .filter((b) => b.weekday === null || b.weekday === weekday)
+      .map((b) => [toMinutes(b.start_time), toMinutes(b.end_time)]);
+
+    const windows = workingHours
+      .filter((w) => w.weekday === weekday)
+      .map((w) => [toMinutes(w.start_time), toMinutes(w.end_time)])
+      .sort((a, b) => a[0] - b[0]);
+
+    for (const [windowStart, windowEnd] of windows) {
+      for (let t = windowStart; t + duration <= windowEnd; t += step) {
+        if (dayBreaks.some(([bs, be]) => t < be && t + duration > bs)) continue;
+
+        const start = zonedDateTimeToUtc(date, minutesToTime(t), timezone).getTime();
+        const end = start + duration * 60 * 1000;
+        // Times skipped by a DST jump resolve onto the same instant
+        if (start < earliest || seen.has(start)) continue;
+        if (busyMs.some(([bs, be]) => start < be && end > bs)) continue;
+
+        seen.add(start);
+        slots.push({
+          start: new Date(start).toISOString(),
+          end: new Date(end).toISOString(),
+          doctorDate: date,
+          doctorTime: minutesToTime(t),
+        });
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.start.localeCompare(b.start));
+}
@@ -0,0 +1,33 @@
+// ============================================================================
+// CALENDAR FEED TOKENS
+// Runtime-agnostic: a calendar subscription URL carries a random token,
+// because calendar apps can't send an Authorization header. Only the SHA-256
+// hash is stored (calendar_feeds.token_hash), so the URL is shown to the user
+// once and a leaked database row can't be turned back into a working feed.
+// ============================================================================
+
+// Past appointments stay in the feed this long, so a late cancellation or
+// no-show still reaches subscribed calendars
+export const FEED_LOOKBACK_DAYS = 30;
+
+export const FEED_TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// 32 random bytes, hex encoded
+export function generateFeedToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function hashFeedToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+export function calendarFeedUrl(functionsBaseUrl: string, token: string): string {
+  return `${functionsBaseUrl}/calendar-feed?token=${token}`;
+}
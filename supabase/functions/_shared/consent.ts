@@ -0,0 +1,57 @@
+// ============================================================================
+// DOCTOR ACCESS CONSENT
+// Runtime-agnostic: the data categories a patient_doctor_access grant can
+// cover and how a grant's state is read. RLS does the enforcing, through
+// doctor_has_access in the database; this mirrors it so the app and
+// triage-worklist can show (and not guess at) what a doctor may see.
+// ============================================================================
+
+export type AccessScope = 'vitals' | 'medications' | 'allergies' | 'menstrual' | 'pregnancy';
+
+export const ACCESS_SCOPES: Record<AccessScope, { label: string; description: string }> = {
+  vitals: { label: 'Vital signs', description: 'Readings, alerts and alert rules' },
+  medications: { label: 'Medications', description: 'Medication list, schedules and doses taken' },
+  allergies: { label: 'Allergies', description: 'Allergens and reactions' },
+  menstrual: { label: 'Menstrual cycles', description: 'Cycle history and symptoms' },
+  pregnancy: { label: 'Pregnancy', description: 'Pregnancy tracking' },
+};
+
+export const ALL_ACCESS_SCOPES = Object.keys(ACCESS_SCOPES) as AccessScope[];
+
+export type AccessGrantState = 'active' | 'expired' | 'revoked';
+
+export interface AccessGrant {
+  status: string;
+  scopes: string[];
+  expires_at: string | null;
+}
+
+// A grant lapses at expires_at even before the expiry job marks it expired
+export function accessGrantState(grant: AccessGrant, now = new Date()): AccessGrantState {
+  if (grant.status === 'revoked') return 'revoked';
+  if (grant.status === 'expired') return 'expired';
+  if (grant.expires_at && Date.parse(grant.expires_at) <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+export function grantAllows(grant: AccessGrant | null, scope: AccessScope, now = new Date()): boolean {
+  return !!grant && accessGrantState(grant, now) === 'active' && grant.scopes.includes(scope);
+}
+
+export type ConsentEvent = 'requested' | 'declined' | 'withdrawn' | 'granted' | 'updated' | 'revoked' | 'expired';
+
+export const CONSENT_EVENTS: Record<ConsentEvent, string> = {
+  requested: 'Access requested',
+  declined: 'Request declined',
+  withdrawn: 'Request withdrawn',
+  granted: 'Access granted',
+  updated: 'Access changed',
+  revoked: 'Access revoked',
+  expired: 'Access expired',
+};
+
+// End of the chosen day, local time, for a yyyy-MM-dd date input; null for
+// an empty input (no end date)
+export function endOfDay(date: string): string | null {
+  return date ? new Date(`${date}T23:59:59`).toISOString() : null;
+}
@@ -0,0 +1,20 @@
+// ============================================================================
+// CSV
+// Runtime-agnostic CSV rendering (RFC 4180, CRLF line endings) for exports
+// patients open in a spreadsheet. Cells that a spreadsheet would run as a
+// formula are prefixed with an apostrophe, since names and notes come from
+// other users.
+// ============================================================================
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+function csvCell(value: CsvCell): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvCell[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,158 @@
+// ============================================================================
+// OUTBOUND DELIVERY
+// Runtime-agnostic: the provider interface for email, SMS and Web Push, and
+// the queue policy deliver-notifications applies to notification_deliveries:
+// message rendering, retry backoff and per-recipient rate limits.
+// Providers live in transports.ts.
+// ============================================================================
+
+import type { WebPushSubscription } from './webPush.ts';
+
+export type DeliveryChannel = 'email' | 'sms' | 'push';
+export type DeliveryPriority = 'normal' | 'urgent';
+export type DeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export const DELIVERY_CHANNELS: DeliveryChannel[] = ['email', 'sms', 'push'];
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Per recipient and channel, over a rolling hour. Urgent deliveries are
+// never held back.
+export const RATE_LIMITS_PER_HOUR: Record<DeliveryChannel, number> = {
+  email: 20,
+  sms: 5,
+  push: 30,
+};
+
+// SMS over this length is cut, so a message costs at most two segments.
+// Urgent messages (SOS alerts) may run longer so their links survive.
+export const MAX_SMS_LENGTH = 300;
+export const MAX_URGENT_SMS_LENGTH = 640;
+
+export interface DeliveryRow {
+  id: string;
+  user_id: string;
+  notification_id: string | null;
+  emergency_contact_id: string | null;
+  channel: DeliveryChannel;
+  category: string;
+  priority: DeliveryPriority;
+  subject: string;
+  body: string | null;
+  link: string | null;
+  destination: string | null;
+  status: DeliveryStatus;
+  attempts: number;
+}
+
+// A rendered message, ready for a transport
+export interface OutboundMessage {
+  channel: DeliveryChannel;
+  // Email address, E.164 phone number, or push subscription endpoint
+  to: string;
+  subject: string;
+  text: string;
+  url: string | null;
+  urgent: boolean;
+  // Push only: the subscription `to` belongs to
+  pushSubscription?: WebPushSubscription;
+}
+
+export type DeliveryResult =
+  | { ok: true; providerMessageId: string | null }
+  // gone: the destination no longer exists (e.g. an expired push subscription)
+  | { ok: false; error: string; retryable: boolean; gone?: boolean };
+
+export interface DeliveryTransport {
+  channel: DeliveryChannel;
+  // Recorded in notification_deliveries.provider
+  provider: string;
+  send(message: OutboundMessage): Promise<DeliveryResult>;
+}
+
+// Exponential backoff after the given number of failed attempts: 1, 2, 4,
+// 8 minutes ... capped at an hour. null once attempts are used up.
+export function retryDelayMs(attempts: number): number | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null;
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+// Rate limits are tracked per person reached, so a patient's own messages
+// and those to each of their contacts are counted separately
+export function recipientKey(delivery: Pick<DeliveryRow, 'user_id' | 'emergency_contact_id' | 'channel'>): string {
+  const recipient = delivery.emergency_contact_id
+    ? `contact:${delivery.emergency_contact_id}`
+    : `user:${delivery.user_id}`;
+  return `${recipient}:${delivery.channel}`;
+}
+
+export type RateLimitDecision = { allowed: true } | { allowed: false; retryAt: Date };
+
+// sentAt: when this recipient was sent to on this channel, any order
+export function checkRateLimit(
+  delivery: Pick<DeliveryRow, 'channel' | 'priority'>,
+  sentAt: Date[],
+  now: Date
+): RateLimitDecision {
+  if (delivery.priority === 'urgent') return { allowed: true };
+
+  const windowStart = now.getTime() - 60 * 60 * 1000;
+  const recent = sentAt
+    .map((d) => d.getTime())
+    .filter((t) => t > windowStart)
+    .sort((a, b) => a - b);
+  const limit = RATE_LIMITS_PER_HOUR[delivery.channel];
+  if (recent.length < limit) return { allowed: true };
+
+  // Wait until enough of the window has rolled off
+  return { allowed: false, retryAt: new Date(recent[recent.length - limit] + 60 * 60 * 1000) };
+}
+
+// E.164 (+14155550123). Separators are dropped; numbers without a country
+// code are rejected rather than guessed.
+export function normalizePhoneNumber(phone: string): string | null {
+  const compact = phone.replace(/[\s().-]/g, '');
+  return /^\+[1-9]\d{6,14}$/.test(compact) ? compact : null;
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+function absoluteUrl(link: string | null, appUrl: string | null): string | null {
+  if (!link) return null;
+  if (/^https?:\/\//.test(link)) return link;
+  return appUrl ? `${appUrl.replace(/\/$/, '')}${link}` : null;
+}
+
+export function renderMessage(delivery: DeliveryRow, to: string, appUrl: string | null): OutboundMessage {
+  const url = absoluteUrl(delivery.link, appUrl);
+  const urgent = delivery.priority === 'urgent';
+
+  if (delivery.channel === 'sms') {
+    const subject = delivery.body && !/[.!?]$/.test(delivery.subject) ? `${delivery.subject}.` : delivery.subject;
+    const text = [`Health Twin: ${subject}`, delivery.body, url].filter(Boolean).join(' ');
+    const maxLength = urgent ? MAX_URGENT_SMS_LENGTH : MAX_SMS_LENGTH;
+    return {
+      channel: 'sms',
+      to,
+      subject: delivery.subject,
+      text: text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text,
+      url,
+      urgent,
+    };
+  }
+
+  if (delivery.channel === 'email') {
+    // Emergency contacts have no account settings to point to
+    const footer = delivery.emergency_contact_id
+      ? null
+      : 'You can choose which notifications you receive in your Health Twin profile.';
+    const text = [delivery.body, url ? `Open Health Twin: ${url}` : null, footer].filter(Boolean).join('\n\n');
+    return { channel: 'email', to, subject: delivery.subject, text, url, urgent };
+  }
+
+  return { channel: 'push', to, subject: delivery.subject, text: delivery.body ?? '', url, urgent };
+}
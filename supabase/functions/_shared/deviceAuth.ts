@@ -0,0 +1,144 @@
+// ============================================================================
+// IOT DEVICE AUTHENTICATION
+// Paired devices sign every request with the secret issued at pairing time:
+//
+//   X-Device-Id:  device_id from the devices table
+//   X-Timestamp:  unix time in seconds
+//   X-Nonce:      random string, never reused by the device
+//   X-Signature:  hex(HMAC-SHA256(secret, `${timestamp}.${nonce}.${rawBody}`))
+//
+// Requests outside the clock-skew window or with a previously seen nonce are
+// rejected, so a captured request cannot be replayed.
+// ============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const MAX_CLOCK_SKEW_SECONDS = 300;
+
+export const DEVICE_AUTH_HEADERS = 'x-device-id, x-timestamp, x-nonce, x-signature';
+
+export interface PairedDevice {
+  id: string;
+  user_id: string;
+  device_id: string;
+  device_type: string;
+  name: string | null;
+}
+
+export type DeviceAuthResult =
+  | { ok: true; device: PairedDevice }
+  | { ok: false; status: number; error: string };
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Constant-time comparison so the signature check does not leak timing
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function signDevicePayload(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  rawBody: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${nonce}.${rawBody}`));
+  return toHex(signature);
+}
+
+export async function authenticateDevice(
+  req: Request,
+  rawBody: string,
+  supabase: SupabaseClient
+): Promise<DeviceAuthResult> {
+  const deviceId = req.headers.get('x-device-id');
+  const timestamp = req.headers.get('x-timestamp');
+  const nonce = req.headers.get('x-nonce');
+  const signature = req.headers.get('x-signature')?.toLowerCase();
+
+  if (!deviceId || !timestamp || !nonce || !signature) {
+    return { ok: false, status: 401, error: 'Missing device authentication headers' };
+  }
+
+  const requestTime = Number(timestamp);
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isFinite(requestTime) || Math.abs(now - requestTime) > MAX_CLOCK_SKEW_SECONDS) {
+    return { ok: false, status: 401, error: 'Request timestamp outside allowed window' };
+  }
+
+  if (nonce.length < 8 || nonce.length > 128) {
+    return { ok: false, status: 401, error: 'Invalid nonce' };
+  }
+
+  const { data: device, error: deviceError } = await supabase
+    .from('devices')
+    .select('id, user_id, device_id, device_type, name, secret, status')
+    .eq('device_id', deviceId)
+    .maybeSingle();
+
+  if (deviceError) {
+    console.error('[device-auth] Error loading device:', deviceError);
+    return { ok: false, status: 500, error: 'Failed to load device' };
+  }
+
+  // Same response for unknown and revoked devices to avoid leaking which IDs exist
+  if (!device || device.status !== 'active') {
+    return { ok: false, status: 401, error: 'Unknown or revoked device' };
+  }
+
+  const expected = await signDevicePayload(device.secret, timestamp, nonce, rawBody);
+  if (!timingSafeEqual(expected, signature)) {
+    return { ok: false, status: 401, error: 'Invalid signature' };
+  }
+
+  // Record the nonce; the primary key rejects a second use
+  const { error: nonceError } = await supabase
+    .from('device_nonces')
+    .insert({ device_id: deviceId, nonce });
+
+  if (nonceError) {
+    if (nonceError.code === '23505') {
+      return { ok: false, status: 409, error: 'Replayed request' };
+    }
+    console.error('[device-auth] Error recording nonce:', nonceError);
+    return { ok: false, status: 500, error: 'Failed to record nonce' };
+  }
+
+  // Nonces older than the skew window can never be accepted again, so prune them
+  const cutoff = new Date((now - MAX_CLOCK_SKEW_SECONDS * 2) * 1000).toISOString();
+  await supabase.from('device_nonces').delete().eq('device_id', deviceId).lt('created_at', cutoff);
+
+  await supabase
+    .from('devices')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', device.id);
+
+  return {
+    ok: true,
+    device: {
+      id: device.id,
+      user_id: device.user_id,
+      device_id: device.device_id,
+      device_type: device.device_type,
+      name: device.name,
+    },
+  };
+}
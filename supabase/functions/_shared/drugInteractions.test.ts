@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { checkMedication, findMentionedDrugs } from './drugInteractions.ts';
+
+describe('findMentionedDrugs', () => {
+  it('finds drugs named anywhere in a reply', () => {
+    expect(
+      findMentionedDrugs('For the headache you could take Ibuprofen (Advil) or paracetamol, or ask about aspirin.')
+    ).toEqual(expect.arrayContaining(['ibuprofen', 'advil', 'aspirin']));
+  });
+
+  it('counts a multi-word name once', () => {
+    expect(findMentionedDrugs('Isosorbide mononitrate helps with angina.')).toEqual(['isosorbide mononitrate']);
+  });
+
+  it('matches whole words only', () => {
+    expect(findMentionedDrugs('Rest, fluids and a warm compress.')).toEqual([]);
+    expect(findMentionedDrugs('Basal body temperature')).toEqual([]);
+  });
+
+  it('feeds checkMedication for a reply that conflicts with the record', () => {
+    const warnings = findMentionedDrugs('Amoxicillin usually clears this up.').flatMap((drug) =>
+      checkMedication(drug, ['Warfarin 5mg'], ['Penicillin'])
+    );
+    expect(warnings.map((w) => [w.kind, w.severity])).toContainEqual(['drug-allergy', 'contraindicated']);
+  });
+});
@@ -0,0 +1,641 @@
+// ============================================================================
+// DRUG INTERACTION CHECKER
+// Runtime-agnostic (no imports): used by MedicationsAllergies and
+// PatientRecords through src/lib/drugInteractions.ts, and by health-chat so
+// the assistant is told what the patient must not take.
+//
+// The dataset is bundled and deliberately small: it covers common,
+// well-established interactions and allergy cross-reactivity by drug class.
+// It supports, and does not replace, a pharmacist's review.
+// ============================================================================
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major' | 'contraindicated';
+
+export const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  minor: 1,
+  moderate: 2,
+  major: 3,
+  contraindicated: 4,
+};
+
+export type DrugClass =
+  | 'penicillins'
+  | 'cephalosporins'
+  | 'carbapenems'
+  | 'sulfonamide_antibiotics'
+  | 'macrolides'
+  | 'fluoroquinolones'
+  | 'nsaids'
+  | 'salicylates'
+  | 'anticoagulants'
+  | 'antiplatelets'
+  | 'ssris'
+  | 'snris'
+  | 'maois'
+  | 'triptans'
+  | 'opioids'
+  | 'benzodiazepines'
+  | 'ace_inhibitors'
+  | 'arbs'
+  | 'potassium_sparing_diuretics'
+  | 'potassium_supplements'
+  | 'statins'
+  | 'nitrates'
+  | 'pde5_inhibitors'
+  | 'antiarrhythmics'
+  | 'cardiac_glycosides'
+  | 'lithium'
+  | 'methotrexate'
+  | 'trimethoprim'
+  | 'metformin'
+  | 'azole_antifungals';
+
+interface DrugClassInfo {
+  label: string;
+  // Generic and common brand names, lowercase
+  members: string[];
+  // Terms patients use when recording an allergy to the whole class
+  allergyAliases?: string[];
+}
+
+export const DRUG_CLASSES: Record<DrugClass, DrugClassInfo> = {
+  penicillins: {
+    label: 'Penicillins',
+    members: ['penicillin', 'amoxicillin', 'ampicillin', 'augmentin', 'amoxil', 'piperacillin', 'dicloxacillin', 'flucloxacillin', 'nafcillin', 'oxacillin'],
+    allergyAliases: ['penicillin', 'penicillins', 'pcn'],
+  },
+  cephalosporins: {
+    label: 'Cephalosporins',
+    members: ['cephalexin', 'keflex', 'cefazolin', 'cefuroxime', 'ceftriaxone', 'cefdinir', 'cefadroxil', 'cefpodoxime', 'cefepime', 'ceftazidime'],
+    allergyAliases: ['cephalosporin', 'cephalosporins'],
+  },
+  carbapenems: {
+    label: 'Carbapenems',
+    members: ['meropenem', 'imipenem', 'ertapenem'],
+  },
+  sulfonamide_antibiotics: {
+    label: 'Sulfonamide antibiotics',
+    members: ['sulfamethoxazole', 'bactrim', 'septra', 'co-trimoxazole', 'sulfadiazine', 'sulfasalazine'],
+    allergyAliases: ['sulfa', 'sulfonamide', 'sulfonamides', 'sulpha'],
+  },
+  macrolides: {
+    label: 'Macrolide antibiotics',
+    members: ['clarithromycin', 'erythromycin', 'azithromycin', 'zithromax', 'biaxin'],
+  },
+  fluoroquinolones: {
+    label: 'Fluoroquinolones',
+    members: ['ciprofloxacin', 'cipro', 'levofloxacin', 'levaquin', 'moxifloxacin'],
+    allergyAliases: ['quinolone', 'quinolones', 'fluoroquinolone'],
+  },
+  nsaids: {
+    label: 'NSAIDs',
+    members: ['ibuprofen', 'advil', 'motrin', 'naproxen', 'aleve', 'diclofenac', 'voltaren', 'celecoxib', 'celebrex', 'meloxicam', 'ketorolac', 'indomethacin', 'ketoprofen'],
+    allergyAliases: ['nsaid', 'nsaids'],
+  },
+  salicylates: {
+    label: 'Salicylates',
+    members: ['aspirin', 'acetylsalicylic acid', 'asa'],
+    allergyAliases: ['aspirin', 'salicylate', 'salicylates'],
+  },
+  anticoagulants: {
+    label: 'Anticoagulants',
+    members: ['warfarin', 'coumadin', 'jantoven', 'apixaban', 'eliquis', 'rivaroxaban', 'xarelto', 'dabigatran', 'pradaxa', 'edoxaban', 'heparin', 'enoxaparin', 'lovenox'],
+  },
+  antiplatelets: {
+    label: 'Antiplatelets',
+    members: ['clopidogrel', 'plavix', 'prasugrel', 'ticagrelor', 'brilinta'],
+  },
+  ssris: {
+    label: 'SSRIs',
+    members: ['fluoxetine', 'prozac', 'sertraline', 'zoloft', 'citalopram', 'celexa', 'escitalopram', 'lexapro', 'paroxetine', 'paxil', 'fluvoxamine'],
+  },
+  snris: {
+    label: 'SNRIs',
+    members: ['venlafaxine', 'effexor', 'duloxetine', 'cymbalta', 'desvenlafaxine'],
+  },
+  maois: {
+    label: 'MAO inhibitors',
+    members: ['phenelzine', 'nardil', 'tranylcypromine', 'parnate', 'isocarboxazid', 'selegiline', 'rasagiline', 'linezolid'],
+  },
+  triptans: {
+    label: 'Triptans',
+    members: ['sumatriptan', 'imitrex', 'rizatriptan', 'maxalt', 'zolmitriptan', 'eletriptan', 'naratriptan'],
+  },
+  opioids: {
+    label: 'Opioids',
+    members: ['morphine', 'oxycodone', 'oxycontin', 'percocet', 'hydrocodone', 'vicodin', 'codeine', 'tramadol', 'ultram', 'fentanyl', 'hydromorphone', 'methadone', 'tapentadol'],
+    allergyAliases: ['opioid', 'opioids', 'opiate', 'opiates'],
+  },
+  benzodiazepines: {
+    label: 'Benzodiazepines',
+    members: ['diazepam', 'valium', 'alprazolam', 'xanax', 'lorazepam', 'ativan', 'clonazepam', 'klonopin', 'temazepam', 'midazolam'],
+    allergyAliases: ['benzodiazepine', 'benzodiazepines'],
+  },
+  ace_inhibitors: {
+    label: 'ACE inhibitors',
+    members: ['lisinopril', 'zestril', 'enalapril', 'ramipril', 'altace', 'benazepril', 'captopril', 'perindopril', 'quinapril'],
+    allergyAliases: ['ace inhibitor', 'ace inhibitors'],
+  },
+  arbs: {
+    label: 'Angiotensin receptor blockers',
+    members: ['losartan', 'cozaar', 'valsartan', 'diovan', 'irbesartan', 'candesartan', 'olmesartan', 'telmisartan'],
+  },
+  potassium_sparing_diuretics: {
+    label: 'Potassium-sparing diuretics',
+    members: ['spironolactone', 'aldactone', 'eplerenone', 'amiloride', 'triamterene'],
+  },
+  potassium_supplements: {
+    label: 'Potassium supplements',
+    members: ['potassium chloride', 'klor-con', 'k-dur', 'potassium citrate'],
+  },
+  statins: {
+    label: 'Statins',
+    members: ['simvastatin', 'zocor', 'atorvastatin', 'lipitor', 'lovastatin', 'rosuvastatin', 'crestor', 'pravastatin'],
+    allergyAliases: ['statin', 'statins'],
+  },
+  nitrates: {
+    label: 'Nitrates',
+    members: ['nitroglycerin', 'nitrostat', 'isosorbide mononitrate', 'isosorbide dinitrate', 'isosorbide'],
+  },
+  pde5_inhibitors: {
+    label: 'PDE5 inhibitors',
+    members: ['sildenafil', 'viagra', 'revatio', 'tadalafil', 'cialis', 'vardenafil'],
+  },
+  antiarrhythmics: {
+    label: 'Amiodarone',
+    members: ['amiodarone', 'cordarone', 'pacerone'],
+  },
+  cardiac_glycosides: {
+    label: 'Digoxin',
+    members: ['digoxin', 'lanoxin'],
+  },
+  lithium: {
+    label: 'Lithium',
+    members: ['lithium', 'lithobid'],
+  },
+  methotrexate: {
+    label: 'Methotrexate',
+    members: ['methotrexate', 'trexall', 'otrexup'],
+  },
+  trimethoprim: {
+    label: 'Trimethoprim',
+    members: ['trimethoprim', 'bactrim', 'septra', 'co-trimoxazole'],
+  },
+  metformin: {
+    label: 'Metformin',
+    members: ['metformin', 'glucophage'],
+  },
+  azole_antifungals: {
+    label: 'Azole antifungals',
+    members: ['fluconazole', 'diflucan', 'ketoconazole', 'itraconazole', 'voriconazole'],
+  },
+};
+
+interface InteractionRule {
+  between: [DrugClass, DrugClass];
+  severity: InteractionSeverity;
+  summary: string;
+  recommendation: string;
+}
+
+export const DRUG_INTERACTIONS: InteractionRule[] = [
+  {
+    between: ['anticoagulants', 'nsaids'],
+    severity: 'major',
+    summary: 'NSAIDs increase bleeding risk with anticoagulants, including gastrointestinal bleeding.',
+    recommendation: 'Avoid the combination; prefer acetaminophen for pain. If unavoidable, monitor closely for bleeding.',
+  },
+  {
+    between: ['anticoagulants', 'salicylates'],
+    severity: 'major',
+    summary: 'Aspirin adds antiplatelet effect to anticoagulation and raises bleeding risk.',
+    recommendation: 'Use together only when specifically prescribed for a cardiac indication.',
+  },
+  {
+    between: ['anticoagulants', 'antiplatelets'],
+    severity: 'major',
+    summary: 'Combined anticoagulant and antiplatelet therapy markedly increases bleeding risk.',
+    recommendation: 'Confirm the combination is intended and for how long; monitor for bleeding.',
+  },
+  {
+    between: ['anticoagulants', 'ssris'],
+    severity: 'moderate',
+    summary: 'SSRIs impair platelet function and increase bleeding risk with anticoagulants.',
+    recommendation: 'Monitor for bleeding; check INR more often after starting warfarin patients on an SSRI.',
+  },
+  {
+    between: ['anticoagulants', 'azole_antifungals'],
+    severity: 'major',
+    summary: 'Azole antifungals inhibit warfarin and DOAC metabolism, raising anticoagulant levels.',
+    recommendation: 'Reduce the anticoagulant dose or choose another antifungal; monitor INR.',
+  },
+  {
+    between: ['anticoagulants', 'sulfonamide_antibiotics'],
+    severity: 'major',
+    summary: 'Sulfamethoxazole strongly potentiates warfarin and can cause a sharp rise in INR.',
+    recommendation: 'Prefer another antibiotic; otherwise check INR within a few days.',
+  },
+  {
+    between: ['anticoagulants', 'antiarrhythmics'],
+    severity: 'major',
+    summary: 'Amiodarone inhibits warfarin metabolism for weeks to months.',
+    recommendation: 'Reduce warfarin dose and monitor INR closely.',
+  },
+  {
+    between: ['nsaids', 'salicylates'],
+    severity: 'moderate',
+    summary: 'NSAIDs add gastrointestinal bleeding risk and can block aspirin\'s cardioprotective effect.',
+    recommendation: 'Take ibuprofen at least 30 minutes after low-dose aspirin, or use another analgesic.',
+  },
+  {
+    between: ['nsaids', 'ace_inhibitors'],
+    severity: 'moderate',
+    summary: 'NSAIDs reduce the antihypertensive effect of ACE inhibitors and can impair kidney function.',
+    recommendation: 'Limit NSAID use; monitor blood pressure and renal function.',
+  },
+  {
+    between: ['nsaids', 'arbs'],
+    severity: 'moderate',
+    summary: 'NSAIDs reduce the antihypertensive effect of ARBs and can impair kidney function.',
+    recommendation: 'Limit NSAID use; monitor blood pressure and renal function.',
+  },
+  {
+    between: ['nsaids', 'lithium'],
+    severity: 'major',
+    summary: 'NSAIDs reduce lithium clearance and can cause lithium toxicity.',
+    recommendation: 'Avoid if possible; otherwise monitor lithium levels.',
+  },
+  {
+    between: ['nsaids', 'methotrexate'],
+    severity: 'major',
+    summary: 'NSAIDs reduce methotrexate clearance, increasing the risk of toxicity.',
+    recommendation: 'Avoid with high-dose methotrexate; monitor blood counts and renal function.',
+  },
+  {
+    between: ['nsaids', 'ssris'],
+    severity: 'moderate',
+    summary: 'SSRIs combined with NSAIDs raise the risk of gastrointestinal bleeding.',
+    recommendation: 'Consider a gastroprotective agent or an alternative analgesic.',
+  },
+  {
+    between: ['ssris', 'maois'],
+    severity: 'contraindicated',
+    summary: 'Combining SSRIs and MAO inhibitors can cause life-threatening serotonin syndrome.',
+    recommendation: 'Do not combine. Allow a washout period (up to 5 weeks for fluoxetine) when switching.',
+  },
+  {
+    between: ['snris', 'maois'],
+    severity: 'contraindicated',
+    summary: 'Combining SNRIs and MAO inhibitors can cause life-threatening serotonin syndrome.',
+    recommendation: 'Do not combine. Allow a washout period when switching.',
+  },
+  {
+    between: ['opioids', 'maois'],
+    severity: 'contraindicated',
+    summary: 'Some opioids (tramadol, methadone, fentanyl) with MAO inhibitors can cause serotonin syndrome.',
+    recommendation: 'Avoid the combination.',
+  },
+  {
+    between: ['ssris', 'triptans'],
+    severity: 'moderate',
+    summary: 'Triptans with SSRIs may increase the risk of serotonin syndrome.',
+    recommendation: 'Usually acceptable; watch for agitation, fever or tremor.',
+  },
+  {
+    between: ['ssris', 'opioids'],
+    severity: 'moderate',
+    summary: 'Tramadol and some other opioids add serotonergic effect and lower the seizure threshold.',
+    recommendation: 'Prefer a non-serotonergic opioid; monitor for serotonin syndrome.',
+  },
+  {
+    between: ['opioids', 'benzodiazepines'],
+    severity: 'major',
+    summary: 'Opioids with benzodiazepines can cause profound sedation, respiratory depression and death.',
+    recommendation: 'Avoid the combination; if necessary use the lowest doses and shortest duration.',
+  },
+  {
+    between: ['ace_inhibitors', 'potassium_sparing_diuretics'],
+    severity: 'major',
+    summary: 'Both raise potassium; together they can cause dangerous hyperkalaemia.',
+    recommendation: 'Monitor potassium and renal function regularly.',
+  },
+  {
+    between: ['arbs', 'potassium_sparing_diuretics'],
+    severity: 'major',
+    summary: 'Both raise potassium; together they can cause dangerous hyperkalaemia.',
+    recommendation: 'Monitor potassium and renal function regularly.',
+  },
+  {
+    between: ['ace_inhibitors', 'potassium_supplements'],
+    severity: 'moderate',
+    summary: 'Potassium supplements with ACE inhibitors can cause hyperkalaemia.',
+    recommendation: 'Check potassium levels before and after starting.',
+  },
+  {
+    between: ['ace_inhibitors', 'arbs'],
+    severity: 'major',
+    summary: 'Dual renin-angiotensin blockade increases hyperkalaemia, hypotension and kidney injury.',
+    recommendation: 'Avoid combining an ACE inhibitor with an ARB.',
+  },
+  {
+    between: ['trimethoprim', 'methotrexate'],
+    severity: 'major',
+    summary: 'Trimethoprim adds antifolate effect and can cause methotrexate bone-marrow toxicity.',
+    recommendation: 'Avoid the combination.',
+  },
+  {
+    between: ['statins', 'macrolides'],
+    severity: 'major',
+    summary: 'Clarithromycin and erythromycin raise simvastatin, lovastatin and atorvastatin levels, risking rhabdomyolysis.',
+    recommendation: 'Pause the statin during the antibiotic course or use azithromycin.',
+  },
+  {
+    between: ['statins', 'azole_antifungals'],
+    severity: 'major',
+    summary: 'Azole antifungals raise statin levels, risking myopathy and rhabdomyolysis.',
+    recommendation: 'Pause the statin or choose pravastatin or rosuvastatin.',
+  },
+  {
+    between: ['nitrates', 'pde5_inhibitors'],
+    severity: 'contraindicated',
+    summary: 'PDE5 inhibitors with nitrates can cause severe, life-threatening hypotension.',
+    recommendation: 'Do not combine.',
+  },
+  {
+    between: ['cardiac_glycosides', 'antiarrhythmics'],
+    severity: 'major',
+    summary: 'Amiodarone raises digoxin levels and can cause digoxin toxicity.',
+    recommendation: 'Halve the digoxin dose and monitor levels.',
+  },
+  {
+    between: ['cardiac_glycosides', 'macrolides'],
+    severity: 'moderate',
+    summary: 'Macrolides can raise digoxin levels.',
+    recommendation: 'Monitor for digoxin toxicity.',
+  },
+  {
+    between: ['lithium', 'ace_inhibitors'],
+    severity: 'major',
+    summary: 'ACE inhibitors reduce lithium clearance and can cause lithium toxicity.',
+    recommendation: 'Monitor lithium levels closely.',
+  },
+  {
+    between: ['fluoroquinolones', 'anticoagulants'],
+    severity: 'moderate',
+    summary: 'Fluoroquinolones can increase the effect of warfarin.',
+    recommendation: 'Monitor INR during and after the course.',
+  },
+  {
+    between: ['macrolides', 'antiarrhythmics'],
+    severity: 'major',
+    summary: 'Both prolong the QT interval; together they raise the risk of arrhythmia.',
+    recommendation: 'Avoid or monitor the ECG.',
+  },
+  {
+    between: ['fluoroquinolones', 'antiarrhythmics'],
+    severity: 'major',
+    summary: 'Both prolong the QT interval; together they raise the risk of arrhythmia.',
+    recommendation: 'Avoid or monitor the ECG.',
+  },
+];
+
+interface CrossReactivityRule {
+  allergy: DrugClass;
+  drugs: DrugClass;
+  severity: InteractionSeverity;
+  summary: string;
+}
+
+// Allergy to a drug in `allergy` implies risk for drugs in `drugs`. Allergy to
+// the same class is always contraindicated and is handled separately.
+export const ALLERGY_CROSS_REACTIVITY: CrossReactivityRule[] = [
+  {
+    allergy: 'penicillins',
+    drugs: 'cephalosporins',
+    severity: 'moderate',
+    summary: 'About 1-2% of penicillin-allergic patients react to cephalosporins, mostly early-generation ones.',
+  },
+  {
+    allergy: 'penicillins',
+    drugs: 'carbapenems',
+    severity: 'minor',
+    summary: 'Cross-reactivity between penicillins and carbapenems is below 1%.',
+  },
+  {
+    allergy: 'cephalosporins',
+    drugs: 'penicillins',
+    severity: 'moderate',
+    summary: 'Cephalosporin allergy carries a small risk of reacting to penicillins with similar side chains.',
+  },
+  {
+    allergy: 'salicylates',
+    drugs: 'nsaids',
+    severity: 'major',
+    summary: 'Aspirin-sensitive patients often react to other NSAIDs (cross-reactive COX-1 inhibition).',
+  },
+  {
+    allergy: 'nsaids',
+    drugs: 'salicylates',
+    severity: 'major',
+    summary: 'NSAID hypersensitivity frequently extends to aspirin.',
+  },
+  {
+    allergy: 'sulfonamide_antibiotics',
+    drugs: 'trimethoprim',
+    severity: 'contraindicated',
+    summary: 'Trimethoprim is usually combined with sulfamethoxazole (co-trimoxazole).',
+  },
+];
+
+export interface IdentifiedDrug {
+  // The name as the patient recorded it
+  input: string;
+  // The dataset term it matched
+  matched: string;
+  classes: DrugClass[];
+}
+
+export interface InteractionWarning {
+  kind: 'drug-drug' | 'drug-allergy' | 'duplicate-therapy';
+  severity: InteractionSeverity;
+  // The medication being checked and what it conflicts with
+  drug: string;
+  conflictsWith: string;
+  summary: string;
+  recommendation: string;
+}
+
+const normalize = (value: string) =>
+  ` ${value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const ENTRIES = (Object.entries(DRUG_CLASSES) as Array<[DrugClass, DrugClassInfo]>)
+  .flatMap(([drugClass, info]) => info.members.map((member) => ({ member, drugClass })))
+  // Longest terms first so "isosorbide mononitrate" wins over "isosorbide"
+  .sort((a, b) => b.member.length - a.member.length);
+
+// Matches whole words in a free-text medication name such as
+// "Amoxicillin 500mg capsules" or "Eliquis (apixaban)".
+export function identifyDrug(name: string): IdentifiedDrug | null {
+  const text = normalize(name);
+  const hits = ENTRIES.filter((entry) => text.includes(normalize(entry.member)));
+  if (hits.length === 0) return null;
+
+  return {
+    input: name,
+    matched: hits[0].member,
+    classes: Array.from(new Set(hits.map((hit) => hit.drugClass))),
+  };
+}
+
+// Every drug named anywhere in free text, such as an assistant's reply. A
+// term inside a longer one that matched ("isosorbide" in "isosorbide
+// mononitrate") is not counted again.
+export function findMentionedDrugs(text: string): string[] {
+  const normalized = normalize(text);
+  const found: string[] = [];
+  for (const { member } of ENTRIES) {
+    const term = normalize(member);
+    if (normalized.includes(term) && !found.some((f) => normalize(f).includes(term))) found.push(member);
+  }
+  return found;
+}
+
+// An allergy can name a class ("Penicillin", "Sulfa") or a specific drug
+function allergyClasses(allergen: string): DrugClass[] {
+  const text = normalize(allergen);
+  const classes = new Set<DrugClass>();
+
+  for (const [drugClass, info] of Object.entries(DRUG_CLASSES) as Array<[DrugClass, DrugClassInfo]>) {
+    if (info.allergyAliases?.some((alias) => text.includes(normalize(alias)))) classes.add(drugClass);
+  }
+  identifyDrug(allergen)?.classes.forEach((drugClass) => classes.add(drugClass));
+
+  return Array.from(classes);
+}
+
+const bySeverity = (a: InteractionWarning, b: InteractionWarning) =>
+  SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity];
+
+function drugPairWarnings(drug: IdentifiedDrug, other: IdentifiedDrug): InteractionWarning[] {
+  const warnings: InteractionWarning[] = [];
+
+  for (const rule of DRUG_INTERACTIONS) {
+    const [a, b] = rule.between;
+    const matches =
+      (drug.classes.includes(a) && other.classes.includes(b)) ||
+      (drug.classes.includes(b) && other.classes.includes(a));
+    if (matches) {
+      warnings.push({
+        kind: 'drug-drug',
+        severity: rule.severity,
+        drug: drug.input,
+        conflictsWith: other.input,
+        summary: rule.summary,
+        recommendation: rule.recommendation,
+      });
+    }
+  }
+
+  // Two drugs from the same class, e.g. ibuprofen and naproxen
+  const shared = drug.classes.find((drugClass) => other.classes.includes(drugClass));
+  if (shared && drug.matched !== other.matched) {
+    warnings.push({
+      kind: 'duplicate-therapy',
+      severity: 'moderate',
+      drug: drug.input,
+      conflictsWith: other.input,
+      summary: `Both are ${DRUG_CLASSES[shared].label.toLowerCase()}; taking two together adds side effects without added benefit.`,
+      recommendation: 'Confirm both are intended.',
+    });
+  }
+
+  return warnings;
+}
+
+function allergyWarnings(drug: IdentifiedDrug, allergen: string): InteractionWarning[] {
+  const classes = allergyClasses(allergen);
+  const warnings: InteractionWarning[] = [];
+
+  const direct = drug.classes.find((drugClass) => classes.includes(drugClass));
+  if (direct) {
+    warnings.push({
+      kind: 'drug-allergy',
+      severity: 'contraindicated',
+      drug: drug.input,
+      conflictsWith: allergen,
+      summary: `${drug.input} is in the ${DRUG_CLASSES[direct].label.toLowerCase()} class, which matches a recorded allergy.`,
+      recommendation: 'Do not take unless a clinician has confirmed the allergy does not apply.',
+    });
+    return warnings;
+  }
+
+  for (const rule of ALLERGY_CROSS_REACTIVITY) {
+    if (classes.includes(rule.allergy) && drug.classes.includes(rule.drugs)) {
+      warnings.push({
+        kind: 'drug-allergy',
+        severity: rule.severity,
+        drug: drug.input,
+        conflictsWith: allergen,
+        summary: rule.summary,
+        recommendation: 'Discuss with the prescriber before taking.',
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// Checks one medication (typically one being added) against the patient's
+// current medications and allergies.
+export function checkMedication(
+  name: string,
+  currentMedications: string[],
+  allergies: string[]
+): InteractionWarning[] {
+  const drug = identifyDrug(name);
+  if (!drug) return [];
+
+  const warnings: InteractionWarning[] = [];
+  for (const current of currentMedications) {
+    const other = identifyDrug(current);
+    if (other) warnings.push(...drugPairWarnings(drug, other));
+  }
+  for (const allergen of allergies) {
+    warnings.push(...allergyWarnings(drug, allergen));
+  }
+
+  return warnings.sort(bySeverity);
+}
+
+// Checks a whole medication list: every pair once, and every drug against
+// every allergy. Used for the doctor's view of a patient's record.
+export function checkMedicationList(medications: string[], allergies: string[]): InteractionWarning[] {
+  const drugs = medications.map(identifyDrug).filter((drug): drug is IdentifiedDrug => drug !== null);
+  const warnings: InteractionWarning[] = [];
+
+  drugs.forEach((drug, i) => {
+    for (const other of drugs.slice(i + 1)) warnings.push(...drugPairWarnings(drug, other));
+    for (const allergen of allergies) warnings.push(...allergyWarnings(drug, allergen));
+  });
+
+  return warnings.sort(bySeverity);
+}
+
+// Drug classes the patient should not be offered because of an allergy, for
+// prompting the health assistant
+export function contraindicatedClasses(allergies: string[]): Array<{ drugClass: string; reason: string }> {
+  const result: Array<{ drugClass: string; reason: string }> = [];
+
+  for (const allergen of allergies) {
+    for (const drugClass of allergyClasses(allergen)) {
+      result.push({ drugClass: DRUG_CLASSES[drugClass].label, reason: `allergy to ${allergen}` });
+    }
+    for (const rule of ALLERGY_CROSS_REACTIVITY) {
+      if (SEVERITY_RANK[rule.severity] >= SEVERITY_RANK.major && allergyClasses(allergen).includes(rule.allergy)) {
+        result.push({ drugClass: DRUG_CLASSES[rule.drugs].label, reason: `cross-reactivity with ${allergen} allergy` });
+      }
+    }
+  }
+
+  return result;
+}
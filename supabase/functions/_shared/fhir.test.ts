@@ -0,0 +1,174 @@
+import { createRequire } from 'node:module';
+import { describe, expect, it } from 'vitest';
+import { buildPatientBundle, type PatientRecordSet } from './fhir.ts';
+
+// Validators compiled from the official FHIR R4 (4.0.1) JSON schema, one per
+// resource type plus one for any resource. The per-type ones cannot check
+// resources nested in a Bundle, so entries are checked on their own too.
+type SchemaValidator = ((data: unknown) => boolean) & { errors?: unknown[] | null };
+
+const require = createRequire(import.meta.url);
+const validatorFor = (resourceType: string): SchemaValidator =>
+  require(`@d4l/js-fhir-validator/r4/js/${resourceType}.js`);
+const validateResource: SchemaValidator = require('@d4l/js-fhir-validator');
+
+const expectValid = (validate: SchemaValidator, resource: unknown) => {
+  const valid = validate(resource);
+  expect(valid ? [] : validate.errors).toEqual([]);
+  expect(valid).toBe(true);
+};
+
+const EMITTED_TYPES = [
+  'Patient',
+  'Observation',
+  'MedicationStatement',
+  'AllergyIntolerance',
+  'Encounter',
+  'RelatedPerson',
+];
+
+const AS_OF = new Date('2026-06-01T00:00:00Z');
+
+// Every field filled in, so every branch of the mapping ends up in the Bundle
+const records: PatientRecordSet = {
+  email: 'ana@example.com',
+  profile: {
+    id: 'b0d7c2de-4f4e-4f69-9a2c-1b6f7b7e1a01',
+    health_id: 'HID-123456',
+    date_of_birth: '1988-04-12',
+    gender: 'female',
+    blood_type: 'O+',
+    height: 168,
+    weight: 64,
+    updated_at: '2026-05-20T08:00:00Z',
+  },
+  vitals: [
+    {
+      id: 'vitals-1',
+      recorded_at: '2026-05-30T07:15:00Z',
+      blood_pressure_systolic: 118,
+      blood_pressure_diastolic: 76,
+      heart_rate: 66,
+      blood_glucose: 92,
+      weight: 63.5,
+      temperature: 36.8,
+      oxygen_saturation: 98,
+      device_id: 'cuff-7',
+      is_flagged: false,
+      flag_reasons: null,
+      notes: 'Morning reading',
+    },
+    {
+      id: 'vitals-2',
+      recorded_at: '2026-05-31T21:40:00Z',
+      blood_pressure_systolic: 165,
+      blood_pressure_diastolic: 101,
+      heart_rate: 112,
+      blood_glucose: null,
+      weight: null,
+      temperature: 38.4,
+      oxygen_saturation: 91,
+      device_id: null,
+      is_flagged: true,
+      flag_reasons: ['High blood pressure', 'Low oxygen saturation'],
+      notes: null,
+    },
+  ],
+  medications: [
+    {
+      id: 'med-1',
+      name: 'Metformin',
+      dosage: '500 mg',
+      frequency: 'twice daily',
+      start_date: '2025-01-10',
+      end_date: null,
+      prescribing_doctor: 'Dr. Lee',
+      notes: 'With meals',
+    },
+    {
+      id: 'med-2',
+      name: 'Amoxicillin',
+      dosage: null,
+      frequency: null,
+      start_date: '2026-02-01',
+      end_date: '2026-02-10',
+      prescribing_doctor: null,
+      notes: null,
+    },
+  ],
+  allergies: [
+    { id: 'allergy-1', allergen: 'Penicillin', reaction: 'Hives', severity: 'severe', diagnosed_date: '2010-06-01' },
+    { id: 'allergy-2', allergen: 'Pollen', reaction: null, severity: null, diagnosed_date: null },
+  ],
+  appointments: [
+    {
+      id: 'appt-1',
+      scheduled_time: '2026-05-02T09:00:00Z',
+      duration: 30,
+      status: 'completed',
+      type: 'video',
+      reason: 'Follow-up',
+      doctors: { full_name: 'Sam Lee', specialty: 'Endocrinology' },
+    },
+    {
+      id: 'appt-2',
+      scheduled_time: '2026-06-15T14:30:00Z',
+      duration: null,
+      status: 'cancelled',
+      type: 'in-person',
+      reason: null,
+      doctors: null,
+    },
+  ],
+  emergencyContacts: [
+    {
+      id: 'contact-1',
+      name: 'Maria Silva',
+      phone: '+15551234567',
+      email: 'maria@example.com',
+      relationship: 'Sister',
+    },
+  ],
+};
+
+describe('FHIR export against the R4 JSON schema', () => {
+  const bundle = buildPatientBundle(records, AS_OF);
+  const entries = bundle.entry ?? [];
+  const resources = entries.map((entry) => entry.resource);
+
+  it('emits a valid Bundle', () => {
+    expectValid(validateResource, bundle);
+    expectValid(validatorFor('Bundle'), {
+      ...bundle,
+      entry: entries.map(({ resource, ...entry }) => entry),
+    });
+  });
+
+  it('emits every resource type it maps', () => {
+    expect([...new Set(resources.map((resource) => resource.resourceType))].sort()).toEqual(
+      [...EMITTED_TYPES].sort()
+    );
+  });
+
+  it.each(EMITTED_TYPES)('emits valid %s resources', (resourceType) => {
+    const validate = validatorFor(resourceType);
+    const matching = resources.filter((resource) => resource.resourceType === resourceType);
+    expect(matching.length).toBeGreaterThan(0);
+    for (const resource of matching) expectValid(validate, resource);
+  });
+
+  it('rejects a resource that breaks the schema', () => {
+    const patient = resources.find((resource) => resource.resourceType === 'Patient');
+    expect(validatorFor('Patient')({ ...patient, gender: 'woman' })).toBe(false);
+  });
+
+  it('stays valid for a patient with no records', () => {
+    expectValid(
+      validateResource,
+      buildPatientBundle(
+        { profile: null, vitals: [], medications: [], allergies: [], appointments: [], emergencyContacts: [] },
+        AS_OF
+      )
+    );
+  });
+});
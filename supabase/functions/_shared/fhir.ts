@@ -0,0 +1,561 @@
+// ============================================================================
+// FHIR R4 MAPPING
+// Runtime-agnostic (no imports): maps the patient's rows to FHIR R4 resources
+// and assembles them into a `collection` Bundle. Used by the fhir-export edge
+// function and re-exported to the browser from src/lib/fhir.ts.
+//
+//   health_profiles    -> Patient (+ height/weight Observations)
+//   vital_signs        -> Observation (LOINC coded, UCUM units)
+//   medications        -> MedicationStatement
+//   allergies          -> AllergyIntolerance
+//   appointments       -> Encounter
+//   emergency_contacts -> RelatedPerson
+// ============================================================================
+
+export const FHIR_VERSION = '4.0.1';
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+export const HEALTH_ID_SYSTEM = 'urn:healthtwin:health-id';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const ACT_CODE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+const CLINICAL_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical';
+const VERIFICATION_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification';
+
+// ---------------------------------------------------------------------------
+// FHIR types (only the elements this app reads or writes)
+// ---------------------------------------------------------------------------
+
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Quantity {
+  value: number;
+  unit: string;
+  system: string;
+  code: string;
+}
+
+export interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+export interface Period {
+  start?: string;
+  end?: string;
+}
+
+export interface Annotation {
+  text: string;
+}
+
+export interface ContactPoint {
+  system: 'phone' | 'email';
+  value: string;
+}
+
+interface ResourceBase {
+  resourceType: string;
+  id?: string;
+  meta?: { lastUpdated?: string };
+}
+
+export interface PatientResource extends ResourceBase {
+  resourceType: 'Patient';
+  identifier?: Array<{ system: string; value: string }>;
+  telecom?: ContactPoint[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  extension?: Array<{ url: string; valueString?: string }>;
+}
+
+export interface ObservationComponent {
+  code: CodeableConcept;
+  valueQuantity?: Quantity;
+}
+
+export interface ObservationResource extends ResourceBase {
+  resourceType: 'Observation';
+  status: 'final' | 'preliminary';
+  category: CodeableConcept[];
+  code: CodeableConcept;
+  subject: Reference;
+  effectiveDateTime: string;
+  valueQuantity?: Quantity;
+  component?: ObservationComponent[];
+  device?: Reference;
+  note?: Annotation[];
+}
+
+export interface MedicationStatementResource extends ResourceBase {
+  resourceType: 'MedicationStatement';
+  status: 'active' | 'completed' | 'unknown';
+  medicationCodeableConcept: CodeableConcept;
+  subject: Reference;
+  effectivePeriod?: Period;
+  informationSource?: Reference;
+  dosage?: Array<{ text: string }>;
+  note?: Annotation[];
+}
+
+export interface AllergyIntoleranceResource extends ResourceBase {
+  resourceType: 'AllergyIntolerance';
+  clinicalStatus: CodeableConcept;
+  verificationStatus: CodeableConcept;
+  code: CodeableConcept;
+  patient: Reference;
+  criticality?: 'low' | 'high' | 'unable-to-assess';
+  onsetDateTime?: string;
+  reaction?: Array<{
+    manifestation: CodeableConcept[];
+    severity?: 'mild' | 'moderate' | 'severe';
+  }>;
+}
+
+export interface EncounterResource extends ResourceBase {
+  resourceType: 'Encounter';
+  status: 'planned' | 'arrived' | 'in-progress' | 'finished' | 'cancelled' | 'unknown';
+  class: Coding;
+  type?: CodeableConcept[];
+  subject: Reference;
+  participant?: Array<{ individual: Reference }>;
+  period: Period;
+  reasonCode?: CodeableConcept[];
+}
+
+export interface RelatedPersonResource extends ResourceBase {
+  resourceType: 'RelatedPerson';
+  active: boolean;
+  patient: Reference;
+  relationship?: CodeableConcept[];
+  name: Array<{ text: string }>;
+  telecom: ContactPoint[];
+}
+
+export type FhirResource =
+  | PatientResource
+  | ObservationResource
+  | MedicationStatementResource
+  | AllergyIntoleranceResource
+  | EncounterResource
+  | RelatedPersonResource;
+
+export interface BundleEntry<T = FhirResource> {
+  fullUrl: string;
+  resource: T;
+}
+
+export interface Bundle<T = FhirResource> {
+  resourceType: 'Bundle';
+  id?: string;
+  meta?: { lastUpdated?: string };
+  type: 'collection' | 'document' | 'transaction' | 'batch' | 'searchset';
+  timestamp?: string;
+  entry?: BundleEntry<T>[];
+}
+
+// ---------------------------------------------------------------------------
+// Source rows (columns used by the mapping)
+// ---------------------------------------------------------------------------
+
+export interface FhirProfileRow {
+  id: string;
+  health_id: string;
+  date_of_birth: string | null;
+  gender: string | null;
+  blood_type: string | null;
+  height: number | null;
+  weight: number | null;
+  updated_at: string | null;
+}
+
+export interface FhirVitalsRow {
+  id: string;
+  recorded_at: string;
+  blood_pressure_systolic: number | null;
+  blood_pressure_diastolic: number | null;
+  heart_rate: number | null;
+  blood_glucose: number | null;
+  weight: number | null;
+  temperature: number | null;
+  oxygen_saturation: number | null;
+  device_id: string | null;
+  is_flagged: boolean | null;
+  flag_reasons: string[] | null;
+  notes: string | null;
+}
+
+export interface FhirMedicationRow {
+  id: string;
+  name: string;
+  dosage: string | null;
+  frequency: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  prescribing_doctor: string | null;
+  notes: string | null;
+}
+
+export interface FhirAllergyRow {
+  id: string;
+  allergen: string;
+  reaction: string | null;
+  severity: string | null;
+  diagnosed_date: string | null;
+}
+
+export interface FhirAppointmentRow {
+  id: string;
+  scheduled_time: string;
+  duration: number | null;
+  status: string | null;
+  type: string | null;
+  reason: string | null;
+  doctors?: { full_name: string | null; specialty?: string | null } | null;
+}
+
+export interface FhirEmergencyContactRow {
+  id: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  relationship: string | null;
+}
+
+export interface PatientRecordSet {
+  email?: string | null;
+  profile: FhirProfileRow | null;
+  vitals: FhirVitalsRow[];
+  medications: FhirMedicationRow[];
+  allergies: FhirAllergyRow[];
+  appointments: FhirAppointmentRow[];
+  emergencyContacts: FhirEmergencyContactRow[];
+}
+
+// ---------------------------------------------------------------------------
+// Vital sign codes
+// ---------------------------------------------------------------------------
+
+export type VitalObservationKind =
+  | 'blood_pressure'
+  | 'heart_rate'
+  | 'blood_glucose'
+  | 'weight'
+  | 'height'
+  | 'temperature'
+  | 'oxygen_saturation';
+
+interface VitalCode {
+  loinc: Coding[];
+  unit?: { code: string; display: string };
+  category: 'vital-signs' | 'laboratory';
+}
+
+// The first coding is the one written on export and preferred on import.
+// Pulse oximetry also carries the generic SpO2 code as US Core requires.
+export const VITAL_LOINC: Record<VitalObservationKind, VitalCode> = {
+  blood_pressure: {
+    loinc: [{ system: LOINC_SYSTEM, code: '85354-9', display: 'Blood pressure panel with all children optional' }],
+    category: 'vital-signs',
+  },
+  heart_rate: {
+    loinc: [{ system: LOINC_SYSTEM, code: '8867-4', display: 'Heart rate' }],
+    unit: { code: '/min', display: 'beats/minute' },
+    category: 'vital-signs',
+  },
+  blood_glucose: {
+    loinc: [{ system: LOINC_SYSTEM, code: '2339-0', display: 'Glucose [Mass/volume] in Blood' }],
+    unit: { code: 'mg/dL', display: 'mg/dL' },
+    category: 'laboratory',
+  },
+  weight: {
+    loinc: [{ system: LOINC_SYSTEM, code: '29463-7', display: 'Body weight' }],
+    unit: { code: 'kg', display: 'kg' },
+    category: 'vital-signs',
+  },
+  height: {
+    loinc: [{ system: LOINC_SYSTEM, code: '8302-2', display: 'Body height' }],
+    unit: { code: 'cm', display: 'cm' },
+    category: 'vital-signs',
+  },
+  temperature: {
+    loinc: [{ system: LOINC_SYSTEM, code: '8310-5', display: 'Body temperature' }],
+    unit: { code: 'Cel', display: 'C' },
+    category: 'vital-signs',
+  },
+  oxygen_saturation: {
+    loinc: [
+      { system: LOINC_SYSTEM, code: '59408-5', display: 'Oxygen saturation in Arterial blood by Pulse oximetry' },
+      { system: LOINC_SYSTEM, code: '2708-6', display: 'Oxygen saturation in Arterial blood' },
+    ],
+    unit: { code: '%', display: '%' },
+    category: 'vital-signs',
+  },
+};
+
+export const BP_SYSTOLIC_LOINC: Coding = { system: LOINC_SYSTEM, code: '8480-6', display: 'Systolic blood pressure' };
+export const BP_DIASTOLIC_LOINC: Coding = { system: LOINC_SYSTEM, code: '8462-4', display: 'Diastolic blood pressure' };
+const MMHG = { code: 'mm[Hg]', display: 'mmHg' };
+
+const quantity = (value: number, unit: { code: string; display: string }): Quantity => ({
+  value,
+  unit: unit.display,
+  system: UCUM_SYSTEM,
+  code: unit.code,
+});
+
+const categoryOf = (code: VitalCode['category']): CodeableConcept[] => [
+  {
+    coding: [{
+      system: OBSERVATION_CATEGORY_SYSTEM,
+      code: code,
+      display: code === 'vital-signs' ? 'Vital Signs' : 'Laboratory',
+    }],
+  },
+];
+
+const hasValue = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined;
+
+// ---------------------------------------------------------------------------
+// Resource builders
+// ---------------------------------------------------------------------------
+
+const patientRef = (patientId: string): Reference => ({ reference: `urn:uuid:${patientId}` });
+
+const FHIR_GENDERS = ['male', 'female', 'other'] as const;
+
+export function toPatient(profile: FhirProfileRow, email?: string | null): PatientResource {
+  const gender = profile.gender?.toLowerCase();
+  return {
+    resourceType: 'Patient',
+    id: profile.id,
+    meta: profile.updated_at ? { lastUpdated: new Date(profile.updated_at).toISOString() } : undefined,
+    identifier: [{ system: HEALTH_ID_SYSTEM, value: profile.health_id }],
+    telecom: email ? [{ system: 'email', value: email }] : undefined,
+    gender: (FHIR_GENDERS as readonly string[]).includes(gender ?? '')
+      ? (gender as PatientResource['gender'])
+      : 'unknown',
+    birthDate: profile.date_of_birth ?? undefined,
+    extension: profile.blood_type
+      ? [{ url: 'urn:healthtwin:blood-type', valueString: profile.blood_type }]
+      : undefined,
+  };
+}
+
+function vitalObservation(
+  id: string,
+  kind: VitalObservationKind,
+  patientId: string,
+  effective: string,
+  value?: number
+): ObservationResource {
+  const code = VITAL_LOINC[kind];
+  return {
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    category: categoryOf(code.category),
+    code: { coding: code.loinc, text: code.loinc[0].display },
+    subject: patientRef(patientId),
+    effectiveDateTime: new Date(effective).toISOString(),
+    valueQuantity: hasValue(value) && code.unit ? quantity(value, code.unit) : undefined,
+  };
+}
+
+// One vital_signs row holds several measurements, so it becomes one
+// Observation per measurement. Ids are derived from the row id so repeated
+// exports produce the same resources.
+export function toObservations(row: FhirVitalsRow, patientId: string): ObservationResource[] {
+  const observations: ObservationResource[] = [];
+
+  if (hasValue(row.blood_pressure_systolic) || hasValue(row.blood_pressure_diastolic)) {
+    const bp = vitalObservation(`${row.id}-bp`, 'blood_pressure', patientId, row.recorded_at);
+    bp.component = [];
+    if (hasValue(row.blood_pressure_systolic)) {
+      bp.component.push({ code: { coding: [BP_SYSTOLIC_LOINC] }, valueQuantity: quantity(row.blood_pressure_systolic, MMHG) });
+    }
+    if (hasValue(row.blood_pressure_diastolic)) {
+      bp.component.push({ code: { coding: [BP_DIASTOLIC_LOINC] }, valueQuantity: quantity(row.blood_pressure_diastolic, MMHG) });
+    }
+    observations.push(bp);
+  }
+
+  const single: Array<[VitalObservationKind, number | null]> = [
+    ['heart_rate', row.heart_rate],
+    ['blood_glucose', row.blood_glucose],
+    ['weight', row.weight],
+    ['temperature', row.temperature],
+    ['oxygen_saturation', row.oxygen_saturation],
+  ];
+  for (const [kind, value] of single) {
+    if (hasValue(value)) {
+      observations.push(vitalObservation(`${row.id}-${kind.replace(/_/g, '-')}`, kind, patientId, row.recorded_at, value));
+    }
+  }
+
+  // Flagged readings are kept but marked preliminary with the reasons attached
+  const notes: Annotation[] = [];
+  if (row.notes) notes.push({ text: row.notes });
+  if (row.is_flagged) {
+    for (const reason of row.flag_reasons ?? ['Flagged as implausible']) notes.push({ text: `Flagged: ${reason}` });
+  }
+
+  for (const observation of observations) {
+    if (row.is_flagged) observation.status = 'preliminary';
+    if (row.device_id) observation.device = { display: row.device_id };
+    if (notes.length > 0) observation.note = notes;
+  }
+
+  return observations;
+}
+
+export function toMedicationStatement(row: FhirMedicationRow, patientId: string, asOf = new Date()): MedicationStatementResource {
+  const ended = row.end_date ? new Date(row.end_date) < asOf : false;
+  const dosage = [row.dosage, row.frequency].filter(Boolean).join(', ');
+  return {
+    resourceType: 'MedicationStatement',
+    id: row.id,
+    status: ended ? 'completed' : 'active',
+    medicationCodeableConcept: { text: row.name },
+    subject: patientRef(patientId),
+    effectivePeriod: row.start_date || row.end_date
+      ? { start: row.start_date ?? undefined, end: row.end_date ?? undefined }
+      : undefined,
+    informationSource: row.prescribing_doctor ? { display: row.prescribing_doctor } : undefined,
+    dosage: dosage ? [{ text: dosage }] : undefined,
+    note: row.notes ? [{ text: row.notes }] : undefined,
+  };
+}
+
+const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+
+export function toAllergyIntolerance(row: FhirAllergyRow, patientId: string): AllergyIntoleranceResource {
+  const severity = row.severity?.toLowerCase();
+  const knownSeverity = (ALLERGY_SEVERITIES as readonly string[]).includes(severity ?? '')
+    ? (severity as 'mild' | 'moderate' | 'severe')
+    : undefined;
+
+  return {
+    resourceType: 'AllergyIntolerance',
+    id: row.id,
+    clinicalStatus: { coding: [{ system: CLINICAL_STATUS_SYSTEM, code: 'active' }] },
+    verificationStatus: { coding: [{ system: VERIFICATION_STATUS_SYSTEM, code: 'confirmed' }] },
+    code: { text: row.allergen },
+    patient: patientRef(patientId),
+    criticality: knownSeverity ? (knownSeverity === 'severe' ? 'high' : 'low') : undefined,
+    onsetDateTime: row.diagnosed_date ?? undefined,
+    // FHIR requires a manifestation on every reaction, so severity alone is
+    // carried by criticality
+    reaction: row.reaction
+      ? [{ manifestation: [{ text: row.reaction }], severity: knownSeverity }]
+      : undefined,
+  };
+}
+
+// Encounter has no no-show or rescheduled state; neither encounter happened
+const ENCOUNTER_STATUS: Record<string, EncounterResource['status']> = {
+  requested: 'planned',
+  confirmed: 'planned',
+  'checked-in': 'arrived',
+  'in-progress': 'in-progress',
+  completed: 'finished',
+  cancelled: 'cancelled',
+  'no-show': 'cancelled',
+  rescheduled: 'cancelled',
+};
+
+export function toEncounter(row: FhirAppointmentRow, patientId: string): EncounterResource {
+  const start = new Date(row.scheduled_time);
+  const end = new Date(start.getTime() + (row.duration ?? 30) * 60 * 1000);
+  const isVirtual = row.type === 'video';
+  const doctorName = row.doctors?.full_name;
+
+  return {
+    resourceType: 'Encounter',
+    id: row.id,
+    status: ENCOUNTER_STATUS[row.status ?? ''] ?? 'unknown',
+    class: isVirtual
+      ? { system: ACT_CODE_SYSTEM, code: 'VR', display: 'virtual' }
+      : { system: ACT_CODE_SYSTEM, code: 'AMB', display: 'ambulatory' },
+    type: row.type ? [{ text: row.type }] : undefined,
+    subject: patientRef(patientId),
+    participant: doctorName ? [{ individual: { display: `Dr. ${doctorName}` } }] : undefined,
+    period: { start: start.toISOString(), end: end.toISOString() },
+    reasonCode: row.reason ? [{ text: row.reason }] : undefined,
+  };
+}
+
+export function toRelatedPerson(row: FhirEmergencyContactRow, patientId: string): RelatedPersonResource {
+  const telecom: ContactPoint[] = [{ system: 'phone', value: row.phone }];
+  if (row.email) telecom.push({ system: 'email', value: row.email });
+
+  return {
+    resourceType: 'RelatedPerson',
+    id: row.id,
+    active: true,
+    patient: patientRef(patientId),
+    relationship: row.relationship ? [{ text: row.relationship }] : undefined,
+    name: [{ text: row.name }],
+    telecom,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bundle
+// ---------------------------------------------------------------------------
+
+// Strips undefined members so the JSON contains only populated elements
+const compact = <T>(resource: T): T => JSON.parse(JSON.stringify(resource));
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Resources keep their row id in fullUrl so references resolve inside the
+// bundle. Observations split from one vital_signs row have derived ids that
+// are not UUIDs; nothing references them, so they get a fresh one.
+const fullUrlFor = (id: string) =>
+  `urn:uuid:${UUID_PATTERN.test(id) ? id : crypto.randomUUID()}`;
+
+export function buildPatientBundle(records: PatientRecordSet, asOf = new Date()): Bundle {
+  const entries: BundleEntry[] = [];
+  const add = (resource: FhirResource) =>
+    entries.push({ fullUrl: fullUrlFor(resource.id ?? ''), resource: compact(resource) });
+
+  const profile = records.profile;
+  if (profile) {
+    add(toPatient(profile, records.email));
+
+    // Height and weight live on the profile; export them as observations
+    // effective at the last profile update
+    const effective = profile.updated_at ?? asOf.toISOString();
+    if (hasValue(profile.height)) {
+      add(vitalObservation(`${profile.id}-height`, 'height', profile.id, effective, profile.height));
+    }
+    if (hasValue(profile.weight)) {
+      add(vitalObservation(`${profile.id}-weight`, 'weight', profile.id, effective, profile.weight));
+    }
+
+    records.vitals.forEach((row) => toObservations(row, profile.id).forEach(add));
+    records.medications.forEach((row) => add(toMedicationStatement(row, profile.id, asOf)));
+    records.allergies.forEach((row) => add(toAllergyIntolerance(row, profile.id)));
+    records.appointments.forEach((row) => add(toEncounter(row, profile.id)));
+    records.emergencyContacts.forEach((row) => add(toRelatedPerson(row, profile.id)));
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: asOf.toISOString(),
+    meta: { lastUpdated: asOf.toISOString() },
+    entry: entries,
+  };
+}
@@ -0,0 +1,567 @@
+// ============================================================================
+// FHIR R4 IMPORT
+// Runtime-agnostic: turns an uploaded Bundle (or a bare resource / array of
+// resources) into an import plan for health_profiles, vital_signs,
+// medications and allergies. The plan is computed against the patient's
+// existing rows so duplicates are detected before anything is written, and
+// every resource gets a report entry saying what will happen to it and why.
+// ============================================================================
+
+import {
+  BP_DIASTOLIC_LOINC,
+  BP_SYSTOLIC_LOINC,
+  HEALTH_ID_SYSTEM,
+  LOINC_SYSTEM,
+  type CodeableConcept,
+  type Quantity,
+} from './fhir.ts';
+import {
+  validateVitals,
+  type VitalInput,
+  type VitalMetric,
+} from './vitalValidation.ts';
+
+export const MAX_IMPORT_RESOURCES = 5000;
+
+export type ImportTarget = 'health_profiles' | 'vital_signs' | 'medications' | 'allergies';
+export type ImportAction = 'insert' | 'update' | 'skip';
+
+export interface ImportReportEntry {
+  index: number;
+  resourceType: string;
+  id?: string;
+  description: string;
+  action: ImportAction;
+  target?: ImportTarget;
+  reason?: string;
+}
+
+export type ProfileField = 'date_of_birth' | 'gender' | 'blood_type' | 'height';
+
+export interface ProfileChange {
+  field: ProfileField;
+  current: string | number | null;
+  imported: string | number;
+}
+
+export interface PlannedVital {
+  recorded_at: string;
+  values: Partial<Record<VitalMetric, number>>;
+  flags: string[];
+  notes: string;
+}
+
+export interface PlannedMedication {
+  name: string;
+  dosage: string | null;
+  frequency: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  prescribing_doctor: string | null;
+  notes: string | null;
+}
+
+export interface PlannedAllergy {
+  allergen: string;
+  reaction: string | null;
+  severity: string | null;
+  diagnosed_date: string | null;
+}
+
+export interface ExistingRecords {
+  profile: {
+    date_of_birth: string | null;
+    gender: string | null;
+    blood_type: string | null;
+    height: number | null;
+  } | null;
+  vitalTimestamps: string[];
+  medications: Array<{ name: string; start_date: string | null }>;
+  allergies: Array<{ allergen: string }>;
+}
+
+export interface FhirImportPlan {
+  profileChanges: ProfileChange[];
+  vitals: PlannedVital[];
+  medications: PlannedMedication[];
+  allergies: PlannedAllergy[];
+  report: ImportReportEntry[];
+}
+
+// Loosely typed view of an uploaded resource: nothing from the file is
+// trusted until it has been checked field by field.
+type IncomingResource = {
+  resourceType?: string;
+  id?: string;
+  [key: string]: unknown;
+};
+
+// ---------------------------------------------------------------------------
+// Input parsing
+// ---------------------------------------------------------------------------
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts a Bundle of any type, a single resource, or a JSON array of
+// resources. Returns an error message when the input is not FHIR at all.
+export function extractResources(input: unknown): { resources: IncomingResource[]; error?: string } {
+  let candidates: unknown[];
+
+  if (Array.isArray(input)) {
+    candidates = input;
+  } else if (isObject(input) && input.resourceType === 'Bundle') {
+    const entries = Array.isArray(input.entry) ? input.entry : [];
+    candidates = entries.map((entry) => (isObject(entry) ? entry.resource : undefined));
+  } else if (isObject(input) && typeof input.resourceType === 'string') {
+    candidates = [input];
+  } else {
+    return { resources: [], error: 'File is not a FHIR Bundle or resource' };
+  }
+
+  if (candidates.length === 0) {
+    return { resources: [], error: 'The bundle contains no resources' };
+  }
+  if (candidates.length > MAX_IMPORT_RESOURCES) {
+    return { resources: [], error: `Bundles are limited to ${MAX_IMPORT_RESOURCES} resources` };
+  }
+
+  return {
+    resources: candidates.map((candidate) => (isObject(candidate) ? (candidate as IncomingResource) : {})),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Field helpers
+// ---------------------------------------------------------------------------
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+
+const conceptText = (value: unknown): string | undefined => {
+  if (!isObject(value)) return undefined;
+  const concept = value as CodeableConcept;
+  return asString(concept.text) ?? concept.coding?.map((c) => asString(c.display)).find(Boolean);
+};
+
+const conceptCodes = (value: unknown): string[] => {
+  if (!isObject(value)) return [];
+  const concept = value as CodeableConcept;
+  return (concept.coding ?? [])
+    .filter((c) => !c.system || c.system === LOINC_SYSTEM)
+    .map((c) => c.code)
+    .filter((code): code is string => typeof code === 'string');
+};
+
+const conceptCode = (value: unknown, system: string): string | undefined => {
+  if (!isObject(value)) return undefined;
+  const coding = (value as CodeableConcept).coding ?? [];
+  return coding.find((c) => c.system === system)?.code ?? coding[0]?.code;
+};
+
+const toDate = (value: unknown): string | null => {
+  const text = asString(value);
+  if (!text || Number.isNaN(Date.parse(text))) return null;
+  return text.slice(0, 10);
+};
+
+const toTimestamp = (value: unknown): string | null => {
+  const text = asString(value);
+  if (!text || Number.isNaN(Date.parse(text))) return null;
+  return new Date(text).toISOString();
+};
+
+// Readings are compared to the second; sources differ in sub-second precision
+const timestampKey = (iso: string) => iso.slice(0, 19);
+
+const normalizeName = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const describe = (resource: IncomingResource) =>
+  `${resource.resourceType ?? 'Unknown'}${resource.id ? `/${resource.id}` : ''}`;
+
+// ---------------------------------------------------------------------------
+// Observations
+// ---------------------------------------------------------------------------
+
+type ObservationMetric = VitalMetric | 'height';
+
+// LOINC codes accepted on import, including common alternatives to the
+// codes written by the exporter
+const OBSERVATION_CODES: Record<string, ObservationMetric | 'blood_pressure'> = {
+  '85354-9': 'blood_pressure',
+  '55284-4': 'blood_pressure',
+  '8480-6': 'blood_pressure_systolic',
+  '8462-4': 'blood_pressure_diastolic',
+  '8867-4': 'heart_rate',
+  '2339-0': 'blood_glucose',
+  '2345-7': 'blood_glucose',
+  '15074-8': 'blood_glucose',
+  '29463-7': 'weight',
+  '3141-9': 'weight',
+  '8310-5': 'temperature',
+  '8331-1': 'temperature',
+  '59408-5': 'oxygen_saturation',
+  '2708-6': 'oxygen_saturation',
+  '8302-2': 'height',
+  '8306-3': 'height',
+};
+
+const TEMPERATURE_UNITS: Record<string, 'C' | 'F'> = { Cel: 'C', '[degF]': 'F' };
+const GLUCOSE_UNITS: Record<string, 'mg/dL' | 'mmol/L'> = { 'mg/dL': 'mg/dL', 'mmol/L': 'mmol/L' };
+const WEIGHT_UNITS: Record<string, 'kg' | 'lb'> = { kg: 'kg', '[lb_av]': 'lb' };
+const HEIGHT_TO_CM: Record<string, number> = { cm: 1, m: 100, '[in_i]': 2.54 };
+
+const quantityOf = (value: unknown): Quantity | undefined =>
+  isObject(value) && typeof value.value === 'number' && Number.isFinite(value.value)
+    ? (value as unknown as Quantity)
+    : undefined;
+
+const unitCode = (quantity: Quantity) => quantity.code ?? quantity.unit;
+
+// Builds the validator input for one measurement, carrying its unit
+function vitalInput(metric: VitalMetric, quantity: Quantity): VitalInput | { error: string } {
+  const input: VitalInput = { [metric]: quantity.value };
+  const unit = unitCode(quantity);
+
+  if (metric === 'temperature') {
+    input.temperature_unit = TEMPERATURE_UNITS[unit] ?? (unit === 'F' || unit === '°F' ? 'F' : undefined);
+  } else if (metric === 'blood_glucose') {
+    input.blood_glucose_unit = GLUCOSE_UNITS[unit];
+    if (unit && !input.blood_glucose_unit) return { error: `Unsupported glucose unit "${unit}"` };
+  } else if (metric === 'weight') {
+    input.weight_unit = WEIGHT_UNITS[unit] ?? (unit === 'lb' || unit === 'lbs' ? 'lb' : undefined);
+  }
+
+  return input;
+}
+
+interface ObservationReading {
+  recordedAt: string;
+  values: Partial<Record<VitalMetric, number>>;
+  flags: string[];
+  height?: number;
+}
+
+function readObservation(resource: IncomingResource): { reading?: ObservationReading; reason?: string } {
+  const status = asString(resource.status);
+  if (status === 'entered-in-error' || status === 'cancelled') {
+    return { reason: `Observation status is ${status}` };
+  }
+
+  const codes = conceptCodes(resource.code);
+  const kind = codes.map((code) => OBSERVATION_CODES[code]).find(Boolean);
+  if (!kind) {
+    return { reason: `Unsupported observation code${codes.length ? ` ${codes.join(', ')}` : ''}` };
+  }
+
+  const effective = isObject(resource.effectivePeriod) ? resource.effectivePeriod.start : undefined;
+  const recordedAt = toTimestamp(resource.effectiveDateTime ?? effective ?? resource.issued);
+  if (!recordedAt) return { reason: 'Observation has no effective date' };
+  if (Date.parse(recordedAt) > Date.now() + 5 * 60 * 1000) return { reason: 'Observation date is in the future' };
+
+  const flags = status === 'preliminary' ? ['Imported as a preliminary observation'] : [];
+
+  if (kind === 'height') {
+    const quantity = quantityOf(resource.valueQuantity);
+    const factor = quantity ? HEIGHT_TO_CM[unitCode(quantity)] : undefined;
+    if (!quantity) return { reason: 'Observation has no numeric value' };
+    if (!factor) return { reason: `Unsupported height unit "${unitCode(quantity)}"` };
+    const height = Math.round(quantity.value * factor * 10) / 10;
+    if (height < 30 || height > 272) return { reason: `Height ${height} cm is outside the possible range` };
+    return { reading: { recordedAt, values: {}, flags, height } };
+  }
+
+  // Blood pressure arrives as a panel with components; other metrics as a
+  // single valueQuantity
+  const measurements: Array<[VitalMetric, Quantity]> = [];
+  if (kind === 'blood_pressure') {
+    const components = Array.isArray(resource.component) ? resource.component : [];
+    for (const component of components) {
+      if (!isObject(component)) continue;
+      const componentCodes = conceptCodes(component.code);
+      const quantity = quantityOf(component.valueQuantity);
+      if (!quantity) continue;
+      if (componentCodes.includes(BP_SYSTOLIC_LOINC.code!)) measurements.push(['blood_pressure_systolic', quantity]);
+      if (componentCodes.includes(BP_DIASTOLIC_LOINC.code!)) measurements.push(['blood_pressure_diastolic', quantity]);
+    }
+  } else {
+    const quantity = quantityOf(resource.valueQuantity);
+    if (quantity) measurements.push([kind, quantity]);
+  }
+
+  if (measurements.length === 0) return { reason: 'Observation has no numeric value' };
+
+  let input: VitalInput = {};
+  for (const [metric, quantity] of measurements) {
+    const next = vitalInput(metric, quantity);
+    if ('error' in next) return { reason: next.error };
+    input = { ...input, ...next };
+  }
+
+  const validation = validateVitals(input);
+  if (validation.errors.length > 0) return { reason: validation.errors.join('; ') };
+
+  return { reading: { recordedAt, values: validation.values, flags: [...flags, ...validation.flags] } };
+}
+
+// ---------------------------------------------------------------------------
+// Medications and allergies
+// ---------------------------------------------------------------------------
+
+function readMedication(resource: IncomingResource): { medication?: PlannedMedication; reason?: string } {
+  const status = asString(resource.status);
+  if (status === 'entered-in-error' || status === 'not-taken' || status === 'cancelled') {
+    return { reason: `Medication status is ${status}` };
+  }
+
+  const reference = isObject(resource.medicationReference) ? asString(resource.medicationReference.display) : undefined;
+  const name = conceptText(resource.medicationCodeableConcept) ?? reference;
+  if (!name) return { reason: 'Medication has no name' };
+
+  // MedicationStatement uses dosage, MedicationRequest uses dosageInstruction
+  const dosages = Array.isArray(resource.dosage) ? resource.dosage : Array.isArray(resource.dosageInstruction) ? resource.dosageInstruction : [];
+  const dosage = dosages.map((d) => (isObject(d) ? asString(d.text) : undefined)).filter(Boolean).join('; ');
+
+  const period = isObject(resource.effectivePeriod) ? resource.effectivePeriod : undefined;
+  const start = toDate(period?.start ?? resource.effectiveDateTime ?? resource.authoredOn);
+  const end = toDate(period?.end);
+
+  const source = resource.informationSource ?? resource.requester;
+  const notes = Array.isArray(resource.note)
+    ? resource.note.map((n) => (isObject(n) ? asString(n.text) : undefined)).filter(Boolean).join('\n')
+    : '';
+
+  return {
+    medication: {
+      name,
+      dosage: dosage || null,
+      frequency: null,
+      start_date: start,
+      end_date: end,
+      prescribing_doctor: isObject(source) ? asString(source.display) ?? null : null,
+      notes: notes || null,
+    },
+  };
+}
+
+const SEVERITIES = ['mild', 'moderate', 'severe'];
+
+function readAllergy(resource: IncomingResource): { allergy?: PlannedAllergy; reason?: string } {
+  const clinical = conceptCode(resource.clinicalStatus, 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical');
+  if (clinical === 'inactive' || clinical === 'resolved') {
+    return { reason: `Allergy is ${clinical}` };
+  }
+  const verification = conceptCode(resource.verificationStatus, 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification');
+  if (verification === 'refuted' || verification === 'entered-in-error') {
+    return { reason: `Allergy is ${verification}` };
+  }
+
+  const allergen = conceptText(resource.code);
+  if (!allergen) return { reason: 'Allergy has no substance' };
+
+  const reactions = Array.isArray(resource.reaction) ? resource.reaction.filter(isObject) : [];
+  const manifestations = reactions
+    .flatMap((r) => (Array.isArray(r.manifestation) ? r.manifestation : []))
+    .map(conceptText)
+    .filter(Boolean);
+  const reactionSeverity = reactions.map((r) => asString(r.severity)).find((s) => s && SEVERITIES.includes(s));
+  const severity = reactionSeverity ?? (resource.criticality === 'high' ? 'severe' : null);
+
+  return {
+    allergy: {
+      allergen,
+      reaction: manifestations.length > 0 ? manifestations.join(', ') : null,
+      severity,
+      diagnosed_date: toDate(resource.onsetDateTime ?? resource.recordedDate),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Patient
+// ---------------------------------------------------------------------------
+
+const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+function readPatient(resource: IncomingResource): Partial<Record<ProfileField, string | number>> {
+  const fields: Partial<Record<ProfileField, string | number>> = {};
+
+  const birthDate = toDate(resource.birthDate);
+  if (birthDate) fields.date_of_birth = birthDate;
+
+  const gender = asString(resource.gender);
+  if (gender === 'male' || gender === 'female' || gender === 'other') fields.gender = gender;
+
+  const extensions = Array.isArray(resource.extension) ? resource.extension.filter(isObject) : [];
+  const bloodType = extensions
+    .filter((e) => typeof e.url === 'string' && e.url.toLowerCase().includes('blood'))
+    .map((e) => asString(e.valueString) ?? conceptText(e.valueCodeableConcept))
+    .find((value) => value && BLOOD_TYPES.includes(value.toUpperCase()));
+  if (bloodType) fields.blood_type = bloodType.toUpperCase();
+
+  return fields;
+}
+
+const patientHealthId = (resource: IncomingResource) =>
+  (Array.isArray(resource.identifier) ? resource.identifier.filter(isObject) : [])
+    .find((identifier) => identifier.system === HEALTH_ID_SYSTEM)?.value;
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+export function planFhirImport(resources: IncomingResource[], existing: ExistingRecords): FhirImportPlan {
+  const report: ImportReportEntry[] = [];
+  const profileFields: Partial<Record<ProfileField, string | number>> = {};
+  let patientSeen = false;
+  const heights: Array<{ at: string; value: number }> = [];
+
+  // Observations at the same instant are merged into one vital_signs row
+  const vitalGroups = new Map<string, { recordedAt: string; values: Partial<Record<VitalMetric, number>>; flags: string[]; indexes: number[] }>();
+  const medications: Array<{ index: number; row: PlannedMedication }> = [];
+  const allergies: Array<{ index: number; row: PlannedAllergy }> = [];
+
+  const existingVitals = new Set(existing.vitalTimestamps.map((t) => timestampKey(new Date(t).toISOString())));
+  const existingMedications = new Set(existing.medications.map((m) => `${normalizeName(m.name)}|${m.start_date ?? ''}`));
+  const existingAllergies = new Set(existing.allergies.map((a) => normalizeName(a.allergen)));
+
+  resources.forEach((resource, index) => {
+    const entry = { index, resourceType: resource.resourceType ?? 'Unknown', id: resource.id, description: describe(resource) };
+    const skip = (reason: string, target?: ImportTarget) => report.push({ ...entry, action: 'skip', target, reason });
+
+    switch (resource.resourceType) {
+      case 'Patient': {
+        if (patientSeen) {
+          skip('The bundle contains more than one patient; only the first is imported', 'health_profiles');
+          return;
+        }
+        patientSeen = true;
+        Object.assign(profileFields, readPatient(resource));
+        const healthId = patientHealthId(resource);
+        report.push({ ...entry, action: 'update', target: 'health_profiles', description: healthId ? `Patient ${healthId}` : entry.description });
+        return;
+      }
+
+      case 'Observation': {
+        const { reading, reason } = readObservation(resource);
+        if (!reading) {
+          skip(reason!, 'vital_signs');
+          return;
+        }
+
+        if (reading.height !== undefined) {
+          heights.push({ at: reading.recordedAt, value: reading.height });
+          report.push({ ...entry, action: 'update', target: 'health_profiles', description: `Height ${reading.height} cm` });
+          return;
+        }
+
+        const key = timestampKey(reading.recordedAt);
+        if (existingVitals.has(key)) {
+          skip('A reading recorded at this time already exists', 'vital_signs');
+          return;
+        }
+
+        const group = vitalGroups.get(key) ?? { recordedAt: reading.recordedAt, values: {}, flags: [], indexes: [] };
+        const conflict = (Object.keys(reading.values) as VitalMetric[]).find(
+          (metric) => group.values[metric] !== undefined && group.values[metric] !== reading.values[metric]
+        );
+        if (conflict) {
+          skip('Conflicts with another observation at the same time', 'vital_signs');
+          return;
+        }
+
+        Object.assign(group.values, reading.values);
+        group.flags.push(...reading.flags);
+        group.indexes.push(index);
+        vitalGroups.set(key, group);
+
+        const summary = Object.entries(reading.values).map(([metric, value]) => `${metric.replace(/_/g, ' ')} ${value}`).join(', ');
+        report.push({
+          ...entry,
+          action: 'insert',
+          target: 'vital_signs',
+          description: `${summary} at ${new Date(reading.recordedAt).toLocaleString()}`,
+          reason: reading.flags.length > 0 ? reading.flags.join('; ') : undefined,
+        });
+        return;
+      }
+
+      case 'MedicationStatement':
+      case 'MedicationRequest': {
+        const { medication, reason } = readMedication(resource);
+        if (!medication) {
+          skip(reason!, 'medications');
+          return;
+        }
+        const key = `${normalizeName(medication.name)}|${medication.start_date ?? ''}`;
+        if (existingMedications.has(key)) {
+          skip('This medication is already on your list', 'medications');
+          return;
+        }
+        existingMedications.add(key);
+        medications.push({ index, row: medication });
+        report.push({ ...entry, action: 'insert', target: 'medications', description: medication.name });
+        return;
+      }
+
+      case 'AllergyIntolerance': {
+        const { allergy, reason } = readAllergy(resource);
+        if (!allergy) {
+          skip(reason!, 'allergies');
+          return;
+        }
+        const key = normalizeName(allergy.allergen);
+        if (existingAllergies.has(key)) {
+          skip('This allergy is already recorded', 'allergies');
+          return;
+        }
+        existingAllergies.add(key);
+        allergies.push({ index, row: allergy });
+        report.push({ ...entry, action: 'insert', target: 'allergies', description: allergy.allergen });
+        return;
+      }
+
+      default:
+        skip(resource.resourceType ? `${resource.resourceType} resources are not imported` : 'Entry has no resourceType');
+    }
+  });
+
+  // The most recent height measurement updates the profile
+  if (heights.length > 0) {
+    profileFields.height = heights.reduce((latest, h) => (h.at > latest.at ? h : latest)).value;
+  }
+
+  // Only fields that differ from the profile are changes; the caller decides
+  // whether to overwrite values that are already set
+  const profileChanges: ProfileChange[] = [];
+  for (const [field, imported] of Object.entries(profileFields) as Array<[ProfileField, string | number]>) {
+    const current = existing.profile?.[field] ?? null;
+    if (current === imported) continue;
+    profileChanges.push({ field, current, imported });
+  }
+  if (profileChanges.length === 0) {
+    for (const entry of report) {
+      if (entry.target === 'health_profiles' && entry.action === 'update') {
+        entry.action = 'skip';
+        entry.reason = 'Already matches your profile';
+      }
+    }
+  }
+
+  const vitals: PlannedVital[] = Array.from(vitalGroups.values())
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))
+    .map((group) => ({
+      recorded_at: group.recordedAt,
+      values: group.values,
+      flags: Array.from(new Set(group.flags)),
+      notes: `Imported from FHIR (${group.indexes.map((i) => describe(resources[i])).join(', ')})`,
+    }));
+
+  return {
+    profileChanges,
+    vitals,
+    medications: medications.map((m) => m.row),
+    allergies: allergies.map((a) => a.row),
+    report,
+  };
+}
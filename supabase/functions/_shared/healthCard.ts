@@ -0,0 +1,136 @@
+// ============================================================================
+// EMERGENCY HEALTH CARD LINKS
+// Runtime-agnostic: the QR code on a health card carries a random token from
+// health_card_links rather than the health ID, so a card can only be read by
+// someone holding it, and rotating the token retires every printed copy.
+// The patient picks which fields the token exposes and can require a PIN.
+// The health-card function serves the card and records every scan in
+// health_card_scans; the app manages links from HealthCard.
+//
+// Unlike calendar feed tokens the token itself is stored: the owner's card
+// has to redraw the same QR code every time it is shown.
+// ============================================================================
+
+export const CARD_TOKEN_PATTERN = /^[0-9a-f]{40}$/;
+export const CARD_PIN_PATTERN = /^\d{4,8}$/;
+
+// PIN attempts allowed per link in a window that starts at the first one;
+// a correct PIN gives them back (take_health_card_pin_attempt)
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MINUTES = 15;
+
+export type HealthCardField =
+  | 'blood_type'
+  | 'date_of_birth'
+  | 'gender'
+  | 'height_weight'
+  | 'allergies'
+  | 'medications'
+  | 'emergency_contact';
+
+export const HEALTH_CARD_FIELDS: Record<HealthCardField, string> = {
+  blood_type: 'Blood type',
+  date_of_birth: 'Date of birth',
+  gender: 'Gender',
+  height_weight: 'Height and weight',
+  allergies: 'Allergies',
+  medications: 'Current medications',
+  emergency_contact: 'Primary emergency contact',
+};
+
+// What a new link exposes: what a first responder needs, nothing identifying
+export const DEFAULT_CARD_FIELDS: HealthCardField[] = ['blood_type', 'allergies', 'medications', 'emergency_contact'];
+
+export type CardScanOutcome = 'viewed' | 'pin_required' | 'pin_rejected' | 'locked' | 'expired' | 'disabled';
+
+export const CARD_SCAN_OUTCOMES: Record<CardScanOutcome, string> = {
+  viewed: 'Card viewed',
+  pin_required: 'Asked for PIN',
+  pin_rejected: 'Wrong PIN',
+  locked: 'Blocked after wrong PINs',
+  expired: 'Link expired',
+  disabled: 'Link turned off',
+};
+
+export interface HealthCardLink {
+  id: string;
+  token: string;
+  fields: string[];
+  pin_hash: string | null;
+  expires_at: string | null;
+  enabled: boolean;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// 20 random bytes, hex encoded: unguessable but short enough for a dense QR
+export function generateCardToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+// Salted with the link id, which survives token rotation
+export async function hashCardPin(linkId: string, pin: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${linkId}:${pin}`));
+  return toHex(new Uint8Array(digest));
+}
+
+export function healthCardPath(token: string): string {
+  return `/health-card/${token}`;
+}
+
+// Why a link can't be used right now, or null if it can
+export function cardLinkBlock(
+  link: Pick<HealthCardLink, 'enabled' | 'expires_at'>,
+  now = new Date()
+): 'expired' | 'disabled' | null {
+  if (!link.enabled) return 'disabled';
+  if (link.expires_at && Date.parse(link.expires_at) <= now.getTime()) return 'expired';
+  return null;
+}
+
+// The token to put in links sent on the patient's behalf (SOS alerts), if
+// their card link is usable
+export function usableCardToken(link: Pick<HealthCardLink, 'token' | 'enabled' | 'expires_at'> | null): string | null {
+  return link && !cardLinkBlock(link) ? link.token : null;
+}
+
+// Keeps the network, drops the host: /24 for IPv4, /48 for IPv6
+export function roughIpAddress(ip: string | null): string | null {
+  if (!ip) return null;
+  const address = ip.trim();
+  if (address.includes(':')) {
+    return `${address.split(':').slice(0, 3).join(':')}::/48`;
+  }
+  const octets = address.split('.');
+  return octets.length === 4 ? `${octets.slice(0, 3).join('.')}.0/24` : null;
+}
+
+// Checked in order: Chrome's user agent also names Safari, Edge's names Chrome
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const DEVICES: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'Mac'],
+  [/Linux/, 'Linux'],
+];
+
+// e.g. "Safari on iPhone", falling back to the first 80 characters
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1];
+  const device = DEVICES.find(([re]) => re.test(userAgent))?.[1];
+  return browser && device ? `${browser} on ${device}` : userAgent.slice(0, 80);
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appointmentToIcsEvent,
+  appointmentUid,
+  buildCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDateTime,
+  icsStatusForAppointment,
+  type IcsAppointment,
+} from './ics.ts';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const octets = (value: string) => new TextEncoder().encode(value).length;
+
+// Undoes folding (RFC 5545 3.1): a CRLF followed by one space or tab
+const unfold = (ics: string) => ics.replace(/\r\n[ \t]/g, '');
+const contentLines = (ics: string) => unfold(ics).split('\r\n').slice(0, -1);
+const property = (ics: string, name: string) =>
+  contentLines(ics)
+    .filter((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`))
+    .map((line) => line.slice(line.indexOf(':') + 1));
+
+const appointment: IcsAppointment = {
+  id: '2f0b6f4e-5a7e-4c3b-9f0a-0c2d7e1b9a10',
+  scheduled_time: '2026-10-20T13:00:00Z',
+  ends_at: '2026-10-20T13:30:00Z',
+  status: 'confirmed',
+  type: 'in-person',
+  reason: 'Blood pressure review',
+  video_room_url: null,
+  ics_sequence: 0,
+  updated_at: '2026-10-18T09:15:00.123Z',
+};
+
+const context = {
+  viewer: 'patient' as const,
+  doctorName: 'Dr. Amélie Dubois',
+  doctorEmail: 'amelie@example.com',
+  clinicName: 'Rue de Rivoli Clinic',
+  clinicAddress: '12 Rue de Rivoli, Paris',
+};
+
+const calendarFor = (overrides: Partial<IcsAppointment> = {}) =>
+  buildCalendar([appointmentToIcsEvent({ ...appointment, ...overrides }, context)], { now: NOW });
+
+describe('line endings', () => {
+  it('ends every line, including the last, with CRLF', () => {
+    const ics = calendarFor({ reason: 'Line one\nline two\r\nline three' });
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('wraps the events in a VCALENDAR with the required properties', () => {
+    const lines = contentLines(calendarFor());
+    expect(lines.slice(0, 4)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//HealthTwin//Appointments//EN',
+      'CALSCALE:GREGORIAN',
+    ]);
+    expect(lines.at(-1)).toBe('END:VCALENDAR');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1);
+    expect(lines.filter((line) => line === 'END:VEVENT')).toHaveLength(1);
+    expect(lines).toContain('DTSTAMP:20261019T120000Z');
+    expect(lines).toContain(`UID:${appointmentUid(appointment.id)}`);
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'a'.repeat(67)}`;
+    expect(octets(line)).toBe(75);
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it('folds longer lines into 75-octet lines with a leading space', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const folded = foldIcsLine(line);
+    const physical = folded.split('\r\n');
+    expect(physical.length).toBeGreaterThan(1);
+    expect(physical.map(octets)).toEqual([75, 75, 64]);
+    expect(physical.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+    expect(unfold(folded)).toBe(line);
+  });
+
+  it('counts octets, not characters, for multi-byte text', () => {
+    // 44 characters, but 80 octets
+    const line = `SUMMARY:${'é'.repeat(36)}`;
+    expect(line.length).toBeLessThan(75);
+    const physical = foldIcsLine(line).split('\r\n');
+    expect(physical).toHaveLength(2);
+    expect(physical.map(octets).every((length) => length <= 75)).toBe(true);
+  });
+
+  it('never splits a multi-byte character across lines', () => {
+    // The two-octet é would straddle octets 75 and 76
+    const line = `SUMMARY:${'a'.repeat(66)}é${'b'.repeat(10)}`;
+    const physical = foldIcsLine(line).split('\r\n');
+    expect(physical[0]).toBe(`SUMMARY:${'a'.repeat(66)}`);
+    expect(physical[1].startsWith(' é')).toBe(true);
+
+    // Four-octet characters, including surrogate pairs in JavaScript strings
+    const emoji = `DESCRIPTION:${'🩺💊'.repeat(40)}`;
+    const folded = foldIcsLine(emoji);
+    for (const part of folded.split('\r\n')) {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+      expect(part).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/);
+    }
+    expect(unfold(folded)).toBe(emoji);
+  });
+
+  it('keeps every line of a calendar within 75 octets', () => {
+    const ics = calendarFor({ reason: `Suivi de la tension artérielle — ${'résultats détaillés, '.repeat(12)}` });
+    for (const line of ics.split('\r\n')) expect(octets(line)).toBeLessThanOrEqual(75);
+    expect(property(ics, 'DESCRIPTION')[0]).toContain('résultats détaillés\\, résultats');
+  });
+});
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, semicolons, commas and newlines', () => {
+    expect(escapeIcsText('a\\b;c,d\ne\r\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf');
+  });
+
+  it('leaves colons and quotes alone', () => {
+    expect(escapeIcsText('Note: "fasting" required')).toBe('Note: "fasting" required');
+  });
+
+  it('escapes the text properties of an event', () => {
+    const ics = calendarFor({ reason: 'Check-up; bring results, and\nlist of meds' });
+    expect(property(ics, 'DESCRIPTION')).toEqual(['Reason: Check-up\\; bring results\\, and\\nlist of meds']);
+    expect(property(ics, 'LOCATION')).toEqual(['Rue de Rivoli Clinic\\, 12 Rue de Rivoli\\, Paris']);
+    expect(property(ics, 'SUMMARY')).toEqual(['Appointment with Dr. Amélie Dubois']);
+  });
+});
+
+describe('doctor calendars', () => {
+  it("leave out the patient's visit reason", () => {
+    const ics = buildCalendar(
+      [appointmentToIcsEvent(appointment, { viewer: 'doctor', clinicName: 'Rue de Rivoli Clinic', patientLabel: 'HID-123456' })],
+      { now: NOW }
+    );
+    expect(ics).not.toContain('Blood pressure review');
+    expect(property(ics, 'DESCRIPTION')).toEqual([]);
+    expect(property(ics, 'SUMMARY')).toEqual(['Appointment with patient HID-123456']);
+  });
+});
+
+describe('dates', () => {
+  it('writes UTC DATE-TIME values without separators or fractions', () => {
+    expect(formatIcsDateTime('2026-10-20T13:00:00.456Z')).toBe('20261020T130000Z');
+    expect(formatIcsDateTime('2026-10-20T15:00:00+02:00')).toBe('20261020T130000Z');
+  });
+
+  it('writes the appointment times', () => {
+    const ics = calendarFor();
+    expect(property(ics, 'DTSTART')).toEqual(['20261020T130000Z']);
+    expect(property(ics, 'DTEND')).toEqual(['20261020T133000Z']);
+    expect(property(ics, 'LAST-MODIFIED')).toEqual(['20261018T091500Z']);
+  });
+});
+
+describe('sequence and status', () => {
+  it('maps appointment statuses to event statuses', () => {
+    expect(icsStatusForAppointment('requested')).toBe('TENTATIVE');
+    expect(icsStatusForAppointment('confirmed')).toBe('CONFIRMED');
+    expect(icsStatusForAppointment('completed')).toBe('CONFIRMED');
+    expect(icsStatusForAppointment('cancelled')).toBe('CANCELLED');
+    expect(icsStatusForAppointment('no-show')).toBe('CANCELLED');
+    expect(icsStatusForAppointment('rescheduled')).toBe('CANCELLED');
+  });
+
+  it('cancels the same event with a higher SEQUENCE', () => {
+    const booked = calendarFor();
+    const cancelled = calendarFor({ status: 'cancelled', ics_sequence: 1 });
+
+    expect(property(cancelled, 'UID')).toEqual(property(booked, 'UID'));
+    expect(property(booked, 'SEQUENCE')).toEqual(['0']);
+    expect(property(cancelled, 'SEQUENCE')).toEqual(['1']);
+    expect(property(booked, 'STATUS')).toEqual(['CONFIRMED']);
+    expect(property(cancelled, 'STATUS')).toEqual(['CANCELLED']);
+    expect(property(booked, 'TRANSP')).toEqual([]);
+    expect(property(cancelled, 'TRANSP')).toEqual(['TRANSPARENT']);
+  });
+
+  it('sends METHOD:CANCEL when asked', () => {
+    const ics = buildCalendar(
+      [appointmentToIcsEvent({ ...appointment, status: 'cancelled', ics_sequence: 2 }, context)],
+      { method: 'CANCEL', now: NOW }
+    );
+    expect(property(ics, 'METHOD')).toEqual(['CANCEL']);
+    expect(property(ics, 'SEQUENCE')).toEqual(['2']);
+    expect(property(ics, 'STATUS')).toEqual(['CANCELLED']);
+    expect(contentLines(ics)).toContain('ORGANIZER;CN="Dr. Amélie Dubois":mailto:amelie@example.com');
+  });
+});
@@ -0,0 +1,180 @@
+// ============================================================================
+// ICALENDAR (RFC 5545)
+// Runtime-agnostic: renders appointments as VEVENTs for the per-appointment
+// .ics download and the calendar-feed function. Each appointment keeps one
+// UID for life; changes bump SEQUENCE (appointments.ics_sequence) and
+// cancellations come through as STATUS:CANCELLED, so subscribed calendars
+// update the existing entry instead of adding a new one.
+// ============================================================================
+
+export const ICS_PRODID = '-//HealthTwin//Appointments//EN';
+const UID_DOMAIN = 'healthtwin';
+
+export type IcsEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  status: IcsEventStatus;
+  start: string; // ISO instant
+  end: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  lastModified?: string | null;
+  organizer?: { name: string; email: string } | null;
+}
+
+export interface IcsAppointment {
+  id: string;
+  scheduled_time: string;
+  ends_at: string;
+  status: string;
+  type: string | null;
+  reason: string | null;
+  video_room_url: string | null;
+  ics_sequence: number;
+  updated_at: string | null;
+}
+
+export interface IcsAppointmentContext {
+  // Whose calendar this is for; the summary names the other side
+  viewer: 'patient' | 'doctor';
+  doctorName?: string | null;
+  doctorEmail?: string | null;
+  clinicName?: string | null;
+  clinicAddress?: string | null;
+  patientLabel?: string | null;
+}
+
+export function appointmentUid(appointmentId: string): string {
+  return `appointment-${appointmentId}@${UID_DOMAIN}`;
+}
+
+// Requests are pencilled in until the doctor accepts; anything that no longer
+// holds the slot is cancelled
+export function icsStatusForAppointment(status: string): IcsEventStatus {
+  if (status === 'requested') return 'TENTATIVE';
+  if (['cancelled', 'no-show', 'rescheduled'].includes(status)) return 'CANCELLED';
+  return 'CONFIRMED';
+}
+
+// TEXT values (RFC 5545 3.3.11)
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// DATE-TIME in UTC form, e.g. 20261020T130000Z
+export function formatIcsDateTime(instant: string | Date): string {
+  return new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets are folded with CRLF + space (RFC 5545 3.1),
+// without splitting a multi-byte character
+export function foldIcsLine(line: string): string {
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcsDateTime(event.start)}`,
+    `DTEND:${formatIcsDateTime(event.end)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsDateTime(event.lastModified)}`);
+  if (event.organizer) {
+    lines.push(`ORGANIZER;CN="${event.organizer.name.replace(/"/g, "'")}":mailto:${event.organizer.email}`);
+  }
+  if (event.status === 'CANCELLED') lines.push('TRANSP:TRANSPARENT');
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// A complete VCALENDAR with CRLF line endings
+export function buildCalendar(
+  events: IcsEvent[],
+  options: { name?: string; method?: IcsMethod; now?: Date } = {}
+): string {
+  const stamp = formatIcsDateTime(options.now ?? new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${ICS_PRODID}`, 'CALSCALE:GREGORIAN'];
+  if (options.method) lines.push(`METHOD:${options.method}`);
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  for (const event of events) lines.push(...eventLines(event, stamp));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+export function appointmentToIcsEvent(appointment: IcsAppointment, context: IcsAppointmentContext): IcsEvent {
+  const isVideo = appointment.type === 'video';
+  const kind = isVideo ? 'Video consultation' : 'Appointment';
+  const withWhom =
+    context.viewer === 'patient'
+      ? context.doctorName
+        ? ` with ${context.doctorName}`
+        : ''
+      : context.patientLabel
+        ? ` with patient ${context.patientLabel}`
+        : '';
+
+  // The visit reason is the patient's own health information: it goes in
+  // their calendar but never in the doctor's, which may be hosted by anyone
+  const description = [
+    context.viewer === 'patient' && appointment.reason ? `Reason: ${appointment.reason}` : null,
+    isVideo && appointment.video_room_url ? `Join the video call: ${appointment.video_room_url}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const location = isVideo
+    ? appointment.video_room_url
+    : [context.clinicName, context.clinicAddress].filter(Boolean).join(', ');
+
+  return {
+    uid: appointmentUid(appointment.id),
+    sequence: appointment.ics_sequence,
+    status: icsStatusForAppointment(appointment.status),
+    start: appointment.scheduled_time,
+    end: appointment.ends_at,
+    summary: `${kind}${withWhom}`,
+    description: description || null,
+    location: location || null,
+    url: isVideo ? appointment.video_room_url : null,
+    lastModified: appointment.updated_at,
+    organizer:
+      context.doctorEmail && context.doctorName ? { name: context.doctorName, email: context.doctorEmail } : null,
+  };
+}
@@ -0,0 +1,164 @@
+// ============================================================================
+// MEDICATION SCHEDULES AND ADHERENCE
+// Runtime-agnostic: expands medication_schedules rows into concrete dose
+// slots and scores them against the medication_doses log. Used by the
+// patient dashboard (src/lib/medicationSchedule.ts) and by
+// digital-twin-simulation, so both report the same adherence.
+//
+// A taper is a sequence of schedule rows for one medication with
+// consecutive date ranges; each row is expanded on its own.
+// ============================================================================
+
+import { addDays, toZonedParts, weekdayOf, zonedDateTimeToUtc } from './timezone.ts';
+
+export type DoseStatus = 'taken' | 'skipped' | 'late';
+
+// Taken more than this long after the slot counts as late
+export const LATE_AFTER_MINUTES = 60;
+// A slot with no log entry this long after its time counts as missed
+export const MISSED_AFTER_MINUTES = 4 * 60;
+
+const MAX_EXPANSION_DAYS = 400;
+
+export interface ScheduleRow {
+  id: string;
+  medication_id: string;
+  dose: string | null;
+  times_of_day: string[];
+  days_of_week: number[] | null;
+  as_needed: boolean;
+  max_daily_doses: number | null;
+  start_date: string;
+  end_date: string | null;
+  timezone: string;
+}
+
+export interface DoseRow {
+  medication_id: string;
+  schedule_id: string | null;
+  scheduled_for: string | null;
+  taken_at: string | null;
+  status: string;
+}
+
+export interface ScheduledDose {
+  medication_id: string;
+  schedule_id: string;
+  // UTC instant of the slot
+  scheduled_for: string;
+  // Wall-clock time of the slot in the schedule's time zone
+  local_time: string;
+  dose: string | null;
+}
+
+export interface AdherenceSummary {
+  due: number;
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  // Share of due doses that were taken, on time or late; null with no due doses
+  percentage: number | null;
+  onTimePercentage: number | null;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Postgres returns TIME as HH:MM:SS
+const shortTime = (time: string) => time.slice(0, 5);
+
+export const doseKey = (medicationId: string, scheduledFor: string) =>
+  `${medicationId}|${new Date(scheduledFor).toISOString()}`;
+
+// Every scheduled (non-PRN) dose slot with from <= slot < to
+export function expandSchedules(schedules: ScheduleRow[], from: Date, to: Date): ScheduledDose[] {
+  const doses: ScheduledDose[] = [];
+
+  for (const schedule of schedules) {
+    if (schedule.as_needed || schedule.times_of_day.length === 0) continue;
+
+    let date = toZonedParts(from, schedule.timezone).date;
+    const lastDate = toZonedParts(to, schedule.timezone).date;
+    if (date < schedule.start_date) date = schedule.start_date;
+
+    for (let i = 0; date <= lastDate && i < MAX_EXPANSION_DAYS; i++, date = addDays(date, 1)) {
+      if (schedule.end_date && date > schedule.end_date) break;
+      if (schedule.days_of_week && !schedule.days_of_week.includes(weekdayOf(date))) continue;
+
+      for (const time of schedule.times_of_day) {
+        const slot = zonedDateTimeToUtc(date, time, schedule.timezone);
+        if (slot < from || slot >= to) continue;
+        doses.push({
+          medication_id: schedule.medication_id,
+          schedule_id: schedule.id,
+          scheduled_for: slot.toISOString(),
+          local_time: shortTime(time),
+          dose: schedule.dose,
+        });
+      }
+    }
+  }
+
+  return doses.sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for));
+}
+
+export function statusForTakenDose(scheduledFor: Date, takenAt: Date): DoseStatus {
+  return takenAt.getTime() - scheduledFor.getTime() > LATE_AFTER_MINUTES * 60 * 1000 ? 'late' : 'taken';
+}
+
+// Adherence over [from, now). Slots still inside the missed window are only
+// counted once they have been logged, so today's upcoming doses don't drag
+// the score down.
+export function calculateAdherence(
+  schedules: ScheduleRow[],
+  doses: DoseRow[],
+  from: Date,
+  now = new Date()
+): AdherenceSummary {
+  const logged = new Map<string, DoseRow>();
+  for (const dose of doses) {
+    if (dose.scheduled_for) logged.set(doseKey(dose.medication_id, dose.scheduled_for), dose);
+  }
+
+  const missedCutoff = now.getTime() - MISSED_AFTER_MINUTES * 60 * 1000;
+  const summary = { due: 0, taken: 0, late: 0, skipped: 0, missed: 0 };
+
+  for (const slot of expandSchedules(schedules, from, now)) {
+    const log = logged.get(doseKey(slot.medication_id, slot.scheduled_for));
+    if (!log && new Date(slot.scheduled_for).getTime() > missedCutoff) continue;
+
+    summary.due++;
+    if (!log) summary.missed++;
+    else if (log.status === 'taken') summary.taken++;
+    else if (log.status === 'late') summary.late++;
+    else summary.skipped++;
+  }
+
+  const percent = (n: number) => (summary.due > 0 ? Math.round((n / summary.due) * 100) : null);
+  return {
+    ...summary,
+    percentage: percent(summary.taken + summary.late),
+    onTimePercentage: percent(summary.taken),
+  };
+}
+
+// The schedule step in effect on a date, for medications with a taper
+export function scheduleOn(schedules: ScheduleRow[], date: string): ScheduleRow | undefined {
+  return schedules.find((s) => s.start_date <= date && (!s.end_date || s.end_date >= date));
+}
+
+export function describeSchedule(schedule: Pick<ScheduleRow, 'as_needed' | 'max_daily_doses' | 'times_of_day' | 'days_of_week' | 'dose'>): string {
+  const dose = schedule.dose ? `${schedule.dose} ` : '';
+
+  if (schedule.as_needed) {
+    return `${dose}as needed${schedule.max_daily_doses ? ` (max ${schedule.max_daily_doses}/day)` : ''}`.trim();
+  }
+
+  const count = schedule.times_of_day.length;
+  const perDay = count === 1 ? 'once daily' : count === 2 ? 'twice daily' : `${count} times daily`;
+  const days = schedule.days_of_week && schedule.days_of_week.length < 7
+    ? ` on ${[...schedule.days_of_week].sort().map((d) => WEEKDAY_LABELS[d]).join(', ')}`
+    : '';
+
+  return `${dose}${perDay} at ${schedule.times_of_day.map(shortTime).join(', ')}${days}`;
+}
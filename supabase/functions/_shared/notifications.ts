@@ -0,0 +1,104 @@
+// ============================================================================
+// NOTIFICATIONS
+// Runtime-agnostic: notification categories and the preference that switches
+// each one off. Mirrors notification_enabled in the database, which applies
+// the preferences to every insert into notifications.
+// ============================================================================
+
+export type NotificationCategory =
+  | 'appointment_reminder'
+  | 'appointment_update'
+  | 'message'
+  | 'medication_reminder'
+  | 'cycle_reminder'
+  | 'vitals_reminder'
+  | 'vital_alert'
+  | 'access_update'
+  // About the patient's own SOS; has no preference and can't be switched off
+  | 'sos';
+
+export type NotificationPreferenceKey =
+  | 'appointment_reminders'
+  | 'appointment_updates'
+  | 'messages'
+  | 'medication_reminders'
+  | 'cycle_reminders'
+  | 'vitals_reminders'
+  | 'vital_alerts'
+  | 'access_updates';
+
+export interface NotificationCategoryInfo {
+  category: NotificationCategory;
+  preference: NotificationPreferenceKey;
+  label: string;
+  description: string;
+  // Categories that only make sense for patients are hidden from doctors
+  patientOnly?: boolean;
+}
+
+export const NOTIFICATION_CATEGORIES: NotificationCategoryInfo[] = [
+  {
+    category: 'appointment_reminder',
+    preference: 'appointment_reminders',
+    label: 'Appointment reminders',
+    description: '24 hours and 1 hour before a confirmed appointment',
+  },
+  {
+    category: 'appointment_update',
+    preference: 'appointment_updates',
+    label: 'Appointment updates',
+    description: 'Requests, confirmations, cancellations and proposed times',
+  },
+  {
+    category: 'message',
+    preference: 'messages',
+    label: 'Messages',
+    description: 'New messages in your conversations',
+  },
+  {
+    category: 'medication_reminder',
+    preference: 'medication_reminders',
+    label: 'Medication reminders',
+    description: 'When a scheduled dose is due',
+    patientOnly: true,
+  },
+  {
+    category: 'cycle_reminder',
+    preference: 'cycle_reminders',
+    label: 'Cycle reminders',
+    description: 'A couple of days before your next period is predicted',
+    patientOnly: true,
+  },
+  {
+    category: 'vitals_reminder',
+    preference: 'vitals_reminders',
+    label: 'Vitals reminders',
+    description: "When you haven't logged vital signs for a while",
+    patientOnly: true,
+  },
+  {
+    category: 'vital_alert',
+    preference: 'vital_alerts',
+    label: 'Vital sign alerts',
+    description: 'When a vital sign reading crosses an alert rule',
+  },
+  {
+    category: 'access_update',
+    preference: 'access_updates',
+    label: 'Record access',
+    description: 'Access requests, and grants being changed, revoked or expiring',
+  },
+];
+
+export const DEFAULT_VITALS_REMINDER_DAYS = 3;
+
+// A notification to insert; the database fills in id, read_at and created_at
+export interface NotificationDraft {
+  user_id: string;
+  category: NotificationCategory;
+  title: string;
+  body: string | null;
+  link: string | null;
+  data: Record<string, unknown>;
+  dedupe_key: string;
+}
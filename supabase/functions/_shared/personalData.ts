@@ -0,0 +1,115 @@
+// ============================================================================
+// PERSONAL DATA EXPORT AND ACCOUNT DELETION
+// Runtime-agnostic: the tables a patient's export covers and how it is laid
+// out (one JSON and one CSV file per table, zipped), used by the data-export
+// function; and the deletion grace period, which mirrors
+// request_account_deletion in the database.
+// ============================================================================
+
+import { toCsv, type CsvCell } from './csv.ts';
+import { createZip } from './zip.ts';
+
+// Days between asking for deletion and the account being erased; the
+// request can be cancelled until then
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+export interface ExportTable {
+  table: string;
+  // Columns holding the patient's id; a row matching any of them is theirs
+  owners?: string[];
+  // Or: rows belonging to the patient's rows of an earlier table
+  parent?: { table: string; column: string };
+  // Unique column to page by
+  key?: string;
+  // Secrets that never leave the database
+  omit?: string[];
+}
+
+// Parents come before their children
+export const EXPORT_TABLES: ExportTable[] = [
+  { table: 'health_profiles', owners: ['user_id'] },
+  { table: 'vital_signs', owners: ['user_id'] },
+  { table: 'medications', owners: ['user_id'] },
+  { table: 'medication_schedules', owners: ['user_id'] },
+  { table: 'medication_doses', owners: ['user_id'] },
+  { table: 'allergies', owners: ['user_id'] },
+  { table: 'menstrual_cycles', owners: ['user_id'] },
+  { table: 'pregnancy_tracking', owners: ['user_id'] },
+  { table: 'emergency_contacts', owners: ['user_id'] },
+  { table: 'chat_messages', owners: ['user_id'] },
+  { table: 'messages', owners: ['sender_id', 'receiver_id'] },
+  { table: 'appointments', owners: ['patient_id'] },
+  { table: 'appointment_series', owners: ['patient_id'] },
+  { table: 'appointment_status_changes', parent: { table: 'appointments', column: 'appointment_id' } },
+  { table: 'appointment_proposals', parent: { table: 'appointments', column: 'appointment_id' } },
+  { table: 'prescriptions', owners: ['patient_id'] },
+  { table: 'patient_doctor_access', owners: ['patient_id'] },
+  { table: 'doctor_access_requests', owners: ['patient_id'] },
+  { table: 'access_consent_events', owners: ['patient_id'] },
+  { table: 'data_access_log', owners: ['patient_id'] },
+  { table: 'vital_alert_rules', owners: ['patient_id'] },
+  { table: 'vital_alerts', owners: ['patient_id'] },
+  { table: 'sos_events', owners: ['user_id'] },
+  { table: 'sos_event_log', parent: { table: 'sos_events', column: 'sos_event_id' } },
+  { table: 'sos_contact_alerts', parent: { table: 'sos_events', column: 'sos_event_id' }, omit: ['token_hash'] },
+  { table: 'health_card_links', owners: ['user_id'], omit: ['token', 'pin_hash'] },
+  { table: 'health_card_scans', owners: ['user_id'] },
+  { table: 'devices', owners: ['user_id'], omit: ['secret'] },
+  { table: 'calendar_feeds', owners: ['user_id'], omit: ['token_hash'] },
+  { table: 'notifications', owners: ['user_id'] },
+  { table: 'notification_deliveries', owners: ['user_id'] },
+  { table: 'notification_preferences', owners: ['user_id'], key: 'user_id' },
+  { table: 'push_subscriptions', owners: ['user_id'], omit: ['auth', 'p256dh'] },
+  { table: 'account_deletion_requests', owners: ['user_id'] },
+];
+
+export type ExportRow = Record<string, unknown>;
+
+export function omitSecrets(rows: ExportRow[], omit: string[] = []): ExportRow[] {
+  if (omit.length === 0) return rows;
+  return rows.map((row) => Object.fromEntries(Object.entries(row).filter(([column]) => !omit.includes(column))));
+}
+
+// Columns in first-seen order; arrays and objects are written as JSON
+export function rowsToCsv(rows: ExportRow[]): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      if (!columns.includes(column)) columns.push(column);
+    }
+  }
+  if (columns.length === 0) return '';
+
+  return toCsv(
+    columns,
+    rows.map((row) =>
+      columns.map((column) => {
+        const value = row[column];
+        return value !== null && typeof value === 'object' ? JSON.stringify(value) : (value as CsvCell);
+      })
+    )
+  );
+}
+
+export function buildExportArchive(tables: Map<string, ExportRow[]>, exportedAt: Date = new Date()): Uint8Array {
+  const readme = [
+    `Personal data export, ${exportedAt.toISOString()}`,
+    '',
+    'Every record held about you, one table per file: json/ has the records',
+    'as stored, csv/ the same records for spreadsheets. Times are in UTC.',
+    '',
+    ...[...tables].map(([table, rows]) => `${table}: ${rows.length} record${rows.length === 1 ? '' : 's'}`),
+    '',
+  ].join('\n');
+
+  return createZip(
+    [
+      { name: 'README.txt', data: readme },
+      ...[...tables].flatMap(([table, rows]) => [
+        { name: `json/${table}.json`, data: JSON.stringify(rows, null, 2) },
+        { name: `csv/${table}.csv`, data: rowsToCsv(rows) },
+      ]),
+    ],
+    exportedAt
+  );
+}
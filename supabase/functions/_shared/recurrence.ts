@@ -0,0 +1,93 @@
+// ============================================================================
+// RECURRING APPOINTMENTS
+// Runtime-agnostic: weekly recurrence rules for appointment series ("every 6
+// weeks, 5 visits" or "every 2 weeks until 1 March"). Expansion steps on the
+// doctor's wall clock so each visit keeps its local start time across DST.
+// Mirrors series_occurrence_times and series_rrule in the database, which
+// book the actual appointments.
+// ============================================================================
+
+import { addDays, toZonedParts, zonedDateTimeToUtc } from './timezone.ts';
+
+export const MAX_SERIES_OCCURRENCES = 26;
+export const MAX_SERIES_INTERVAL_WEEKS = 52;
+
+export interface RecurrenceRule {
+  intervalWeeks: number;
+  // Exactly one of these ends the series
+  count?: number | null;
+  until?: string | null; // YYYY-MM-DD, inclusive, in the doctor's timezone
+}
+
+export interface SeriesRow {
+  interval_weeks: number;
+  occurrence_count: number | null;
+  until_date: string | null;
+}
+
+export function ruleFromSeries(series: SeriesRow): RecurrenceRule {
+  return {
+    intervalWeeks: series.interval_weeks,
+    count: series.occurrence_count,
+    until: series.until_date,
+  };
+}
+
+// Returns an error message, or null when the rule can be booked
+export function validateRecurrence(firstStart: string, timeZone: string, rule: RecurrenceRule): string | null {
+  if (!Number.isInteger(rule.intervalWeeks) || rule.intervalWeeks < 1 || rule.intervalWeeks > MAX_SERIES_INTERVAL_WEEKS) {
+    return `Visits must repeat every 1 to ${MAX_SERIES_INTERVAL_WEEKS} weeks`;
+  }
+  if (!rule.count === !rule.until) {
+    return 'Choose either a number of visits or an end date';
+  }
+  if (rule.count && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_SERIES_OCCURRENCES)) {
+    return `A series can have at most ${MAX_SERIES_OCCURRENCES} visits`;
+  }
+  if (rule.until) {
+    const firstDate = toZonedParts(new Date(firstStart), timeZone).date;
+    if (rule.until < firstDate) return 'The end date is before the first visit';
+    if (rule.until > addDays(firstDate, 730)) return 'The series must end within two years of its first visit';
+  }
+  return null;
+}
+
+// Start instants (ISO strings) of every visit in the series
+export function expandRecurrence(firstStart: string, timeZone: string, rule: RecurrenceRule): string[] {
+  const { date, time } = toZonedParts(new Date(firstStart), timeZone);
+  const limit = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const starts: string[] = [];
+
+  for (let k = 0; k < limit; k++) {
+    const occurrenceDate = addDays(date, k * 7 * rule.intervalWeeks);
+    if (rule.until && occurrenceDate > rule.until) break;
+    starts.push(zonedDateTimeToUtc(occurrenceDate, time, timeZone).toISOString());
+  }
+  return starts;
+}
+
+// RFC 5545 RRULE, as stored on appointment_series.rrule
+export function toRRule(timeZone: string, rule: RecurrenceRule): string {
+  const base = `FREQ=WEEKLY;INTERVAL=${rule.intervalWeeks}`;
+  if (rule.count) return `${base};COUNT=${rule.count}`;
+  if (!rule.until) return base;
+
+  const endOfDay = new Date(zonedDateTimeToUtc(addDays(rule.until, 1), '00:00', timeZone).getTime() - 1000);
+  return `${base};UNTIL=${endOfDay.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`;
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const every = rule.intervalWeeks === 1 ? 'Every week' : `Every ${rule.intervalWeeks} weeks`;
+  if (rule.count) return `${every}, ${rule.count} visit${rule.count === 1 ? '' : 's'}`;
+  if (rule.until) {
+    const [year, month, day] = rule.until.split('-').map(Number);
+    const until = new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+      timeZone: 'UTC',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    return `${every} until ${until}`;
+  }
+  return every;
+}
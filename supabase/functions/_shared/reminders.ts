@@ -0,0 +1,194 @@
+// ============================================================================
+// SCHEDULED REMINDERS
+// Runtime-agnostic: turns appointments, medication schedules, cycle history
+// and vitals activity into reminder notifications. send-reminders runs this
+// every REMINDER_INTERVAL_MINUTES; each reminder has a stable dedupe_key, so
+// overlapping or repeated runs never notify twice.
+// ============================================================================
+
+import { doseKey, expandSchedules, type DoseRow, type ScheduleRow } from './medicationSchedule.ts';
+import type { NotificationDraft } from './notifications.ts';
+import { addDays } from './timezone.ts';
+
+export const REMINDER_INTERVAL_MINUTES = 15;
+// Period reminders go out this many days before the predicted start
+export const PERIOD_REMINDER_DAYS_AHEAD = 2;
+export const DEFAULT_CYCLE_LENGTH = 28;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const APPOINTMENT_REMINDERS = [
+  { key: '24h', before: 24 * HOUR, text: 'in about 24 hours' },
+  { key: '1h', before: HOUR, text: 'in about an hour' },
+];
+
+export interface ReminderAppointment {
+  id: string;
+  patient_id: string;
+  scheduled_time: string;
+  created_at: string | null;
+  type: string | null;
+  doctors: { user_id: string; full_name: string } | null;
+}
+
+// Confirmed appointments get a reminder 24h and 1h ahead, to both sides.
+// A reminder is skipped when the appointment was booked inside its lead
+// time, e.g. no "24 hours" reminder for a visit booked this morning.
+export function appointmentReminders(appointments: ReminderAppointment[], now: Date): NotificationDraft[] {
+  const drafts: NotificationDraft[] = [];
+
+  for (const appointment of appointments) {
+    const start = new Date(appointment.scheduled_time).getTime();
+    const booked = appointment.created_at ? new Date(appointment.created_at).getTime() : 0;
+    const until = start - now.getTime();
+    if (until <= 0) continue;
+
+    // Only the closest reminder window applies; an earlier one that was
+    // missed is not sent late
+    const reminder = [...APPOINTMENT_REMINDERS].reverse().find((r) => until <= r.before);
+    if (!reminder || booked > start - reminder.before) continue;
+
+    const kind = appointment.type === 'video' ? 'video consultation' : 'appointment';
+    const data = { appointment_id: appointment.id, scheduled_time: appointment.scheduled_time };
+
+    drafts.push({
+      user_id: appointment.patient_id,
+      category: 'appointment_reminder',
+      title: `Upcoming ${kind}`,
+      body: `Your ${kind}${appointment.doctors ? ` with ${appointment.doctors.full_name}` : ''} starts ${reminder.text}.`,
+      link: '/patient/appointments',
+      data,
+      dedupe_key: `appointment:${appointment.id}:reminder-${reminder.key}`,
+    });
+
+    if (appointment.doctors) {
+      drafts.push({
+        user_id: appointment.doctors.user_id,
+        category: 'appointment_reminder',
+        title: `Upcoming ${kind}`,
+        body: `Your ${kind} with a patient starts ${reminder.text}.`,
+        link: '/doctor/appointments',
+        data,
+        dedupe_key: `appointment:${appointment.id}:reminder-${reminder.key}`,
+      });
+    }
+  }
+  return drafts;
+}
+
+export interface ReminderSchedule extends ScheduleRow {
+  user_id: string;
+  medications: { name: string } | null;
+}
+
+// Doses due within a run of now that haven't been logged yet
+export function medicationReminders(
+  schedules: ReminderSchedule[],
+  doses: DoseRow[],
+  now: Date
+): NotificationDraft[] {
+  const logged = new Set(
+    doses.filter((d) => d.scheduled_for).map((d) => doseKey(d.medication_id, d.scheduled_for as string))
+  );
+  const byId = new Map(schedules.map((s) => [s.id, s]));
+  const from = new Date(now.getTime() - REMINDER_INTERVAL_MINUTES * MINUTE);
+  const to = new Date(now.getTime() + REMINDER_INTERVAL_MINUTES * MINUTE);
+
+  return expandSchedules(schedules, from, to)
+    .filter((slot) => !logged.has(doseKey(slot.medication_id, slot.scheduled_for)))
+    .map((slot) => {
+      const schedule = byId.get(slot.schedule_id) as ReminderSchedule;
+      const name = schedule.medications?.name ?? 'your medication';
+      return {
+        user_id: schedule.user_id,
+        category: 'medication_reminder' as const,
+        title: `Time to take ${name}`,
+        body: `${slot.dose ? `${slot.dose}, ` : ''}scheduled for ${slot.local_time}`,
+        link: '/medications',
+        data: { medication_id: slot.medication_id, scheduled_for: slot.scheduled_for },
+        dedupe_key: `dose:${doseKey(slot.medication_id, slot.scheduled_for)}`,
+      };
+    });
+}
+
+export interface CycleRow {
+  user_id: string;
+  period_start_date: string;
+  cycle_length: number | null;
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * HOUR));
+
+// Next period start from the last few cycles: their recorded lengths, or the
+// gaps between logged period starts, averaged. Implausible lengths (outside
+// 15-60 days, e.g. a missed log) are ignored.
+export function predictNextPeriod(cycles: Pick<CycleRow, 'period_start_date' | 'cycle_length'>[]): string | null {
+  if (cycles.length === 0) return null;
+
+  const sorted = [...cycles].sort((a, b) => b.period_start_date.localeCompare(a.period_start_date));
+  const lengths: number[] = [];
+  for (let i = 0; i < sorted.length && lengths.length < 6; i++) {
+    const length =
+      sorted[i].cycle_length ??
+      (i + 1 < sorted.length ? daysBetween(sorted[i + 1].period_start_date, sorted[i].period_start_date) : null);
+    if (length && length >= 15 && length <= 60) lengths.push(length);
+  }
+
+  const average = lengths.length
+    ? Math.round(lengths.reduce((sum, length) => sum + length, 0) / lengths.length)
+    : DEFAULT_CYCLE_LENGTH;
+  return addDays(sorted[0].period_start_date, average);
+}
+
+export function periodReminders(cycles: CycleRow[], now: Date): NotificationDraft[] {
+  const byUser = new Map<string, CycleRow[]>();
+  for (const cycle of cycles) {
+    byUser.set(cycle.user_id, [...(byUser.get(cycle.user_id) ?? []), cycle]);
+  }
+
+  const today = now.toISOString().slice(0, 10);
+  const drafts: NotificationDraft[] = [];
+  for (const [userId, userCycles] of byUser) {
+    const predicted = predictNextPeriod(userCycles);
+    if (!predicted) continue;
+
+    const daysAway = daysBetween(today, predicted);
+    if (daysAway < 0 || daysAway > PERIOD_REMINDER_DAYS_AHEAD) continue;
+
+    drafts.push({
+      user_id: userId,
+      category: 'cycle_reminder',
+      title: daysAway === 0 ? 'Your period is predicted to start today' : `Your period is predicted in ${daysAway} day${daysAway === 1 ? '' : 's'}`,
+      body: 'Log it in Women\'s Health when it starts to keep predictions accurate.',
+      link: '/womens-health',
+      data: { predicted_start: predicted },
+      dedupe_key: `period:${predicted}`,
+    });
+  }
+  return drafts;
+}
+
+export interface VitalsGap {
+  user_id: string;
+  last_recorded_at: string;
+  reminder_days: number;
+}
+
+// One reminder per gap: the key is the last reading, so logging vitals and
+// lapsing again later produces a new reminder
+export function vitalsReminders(gaps: VitalsGap[], now: Date): NotificationDraft[] {
+  return gaps.map((gap) => {
+    const days = Math.floor((now.getTime() - new Date(gap.last_recorded_at).getTime()) / (24 * HOUR));
+    return {
+      user_id: gap.user_id,
+      category: 'vitals_reminder' as const,
+      title: 'Time to log your vitals',
+      body: `You haven't recorded vital signs for ${days} days.`,
+      link: '/health-monitoring',
+      data: { last_recorded_at: gap.last_recorded_at },
+      dedupe_key: `vitals-missing:${new Date(gap.last_recorded_at).toISOString()}`,
+    };
+  });
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import * as browser from '../../../src/lib/healthPredictions.ts';
+import {
+  analyzeWomensHealth,
+  buildPatientFeatures,
+  calculateCardiovascularRisk,
+  calculateDiabetesRisk,
+  calculateGeneralHealthScore,
+  type ProfileRecord,
+  type RiskResult,
+  type VitalsRecord,
+} from './riskEngine.ts';
+
+// Golden values: fixed records and a pinned date in, the exact features and
+// scores health-predictions returns out. A change here changes what patients
+// are shown, so update these only on purpose.
+const AS_OF = new Date('2026-06-01T00:00:00Z');
+
+const score = (result: RiskResult) => ({
+  riskLevel: result.riskLevel,
+  riskScore: result.riskScore,
+  riskPercentage: result.riskPercentage,
+  confidence: result.confidence,
+});
+
+const scoresFor = (profile: ProfileRecord | null, vitals: VitalsRecord | null) => {
+  const features = buildPatientFeatures(profile, vitals, AS_OF);
+  return {
+    features,
+    cardiovascular: score(calculateCardiovascularRisk(features)),
+    diabetes: score(calculateDiabetesRisk(features)),
+    generalHealth: score(calculateGeneralHealthScore(features)),
+  };
+};
+
+describe('risk engine golden values', () => {
+  it('scores a healthy patient', () => {
+    expect(
+      scoresFor(
+        { date_of_birth: '1994-03-15', weight: 62, height: 168, gender: 'female' },
+        {
+          blood_pressure_systolic: 112,
+          blood_pressure_diastolic: 72,
+          heart_rate: 64,
+          blood_glucose: 88,
+          weight: 61,
+          oxygen_saturation: 98,
+        }
+      )
+    ).toEqual({
+      features: {
+        age: 32,
+        bmi: 22,
+        systolic_bp: 112,
+        diastolic_bp: 72,
+        heart_rate: 64,
+        blood_glucose: 88,
+        weight: 62,
+        height: 168,
+        smoking: 0,
+        oxygen_saturation: 98,
+        gender: 'female',
+      },
+      cardiovascular: { riskLevel: 'low', riskScore: 5, riskPercentage: 5.3, confidence: 0.85 },
+      diabetes: { riskLevel: 'low', riskScore: 4, riskPercentage: 4.1, confidence: 0.82 },
+      generalHealth: { riskLevel: 'low', riskScore: 100, riskPercentage: 0, confidence: 0.88 },
+    });
+  });
+
+  it('scores a high-risk patient', () => {
+    expect(
+      scoresFor(
+        { date_of_birth: '1961-07-20', weight: 104, height: 175, gender: 'male' },
+        {
+          blood_pressure_systolic: 162,
+          blood_pressure_diastolic: 98,
+          heart_rate: 92,
+          blood_glucose: 142,
+          weight: 104,
+          oxygen_saturation: 93,
+        }
+      )
+    ).toEqual({
+      features: {
+        age: 64,
+        bmi: 34,
+        systolic_bp: 162,
+        diastolic_bp: 98,
+        heart_rate: 92,
+        blood_glucose: 142,
+        weight: 104,
+        height: 175,
+        smoking: 0,
+        oxygen_saturation: 93,
+        gender: 'male',
+      },
+      cardiovascular: { riskLevel: 'very-high', riskScore: 32, riskPercentage: 32.4, confidence: 0.85 },
+      diabetes: { riskLevel: 'high', riskScore: 27, riskPercentage: 27.2, confidence: 0.82 },
+      generalHealth: { riskLevel: 'moderate', riskScore: 60, riskPercentage: 40, confidence: 0.88 },
+    });
+  });
+
+  it('falls back to population means without records', () => {
+    expect(scoresFor(null, null)).toEqual({
+      features: {
+        age: 45,
+        bmi: 24.2,
+        systolic_bp: 120,
+        diastolic_bp: 80,
+        heart_rate: 72,
+        blood_glucose: 100,
+        weight: 70,
+        height: 170,
+        smoking: 0,
+        oxygen_saturation: 98,
+        gender: undefined,
+      },
+      cardiovascular: { riskLevel: 'low', riskScore: 9, riskPercentage: 8.9, confidence: 0.85 },
+      diabetes: { riskLevel: 'low', riskScore: 7, riskPercentage: 6.7, confidence: 0.82 },
+      generalHealth: { riskLevel: 'low', riskScore: 95, riskPercentage: 5, confidence: 0.88 },
+    });
+  });
+
+  it('counts age from the pinned date, not today', () => {
+    const profile = { date_of_birth: '1990-06-02' };
+    expect(buildPatientFeatures(profile, null, AS_OF).age).toBe(35);
+    expect(buildPatientFeatures(profile, null, new Date('2026-06-02T00:00:00Z')).age).toBe(36);
+  });
+
+  it("scores women's health from cycles", () => {
+    const result = analyzeWomensHealth({
+      cycles: [
+        { cycleLength: 38, symptoms: ['acne', 'hair loss'] },
+        { cycleLength: 24, symptoms: ['weight gain'] },
+        { cycleLength: 41 },
+      ],
+      age: 31,
+      weight: 90,
+      height: 165,
+    });
+    expect(result && { ...score(result), factors: result.factors.map((factor) => factor.name) }).toEqual({
+      riskLevel: 'high',
+      riskScore: 7,
+      riskPercentage: 58.3,
+      confidence: 0.78,
+      factors: ['Cycle Length', 'Cycle Consistency', 'PCOS Indicators', 'Weight'],
+    });
+  });
+
+  it('gives the dashboard the same functions as the edge functions', () => {
+    expect(browser.buildPatientFeatures).toBe(buildPatientFeatures);
+    expect(browser.calculateCardiovascularRisk).toBe(calculateCardiovascularRisk);
+    expect(browser.calculateDiabetesRisk).toBe(calculateDiabetesRisk);
+    expect(browser.calculateGeneralHealthScore).toBe(calculateGeneralHealthScore);
+    expect(browser.analyzeWomensHealth).toBe(analyzeWomensHealth);
+  });
+});
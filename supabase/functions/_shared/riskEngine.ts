@@ -1,6 +1,10 @@
  // ============================================================================
  // UNIFIED HEALTH RISK CALCULATION ENGINE
  // Production-grade, validated algorithms for consistent health predictions
+ //
+ // Runtime-agnostic: no imports, no Deno or DOM globals. Edge functions import
+ // this file directly and the Vite app re-exports it from
+ // src/lib/healthPredictions.ts, so both produce identical scores.
  // ============================================================================
  
  // Population reference values (based on medical literature)
@@ -32,6 +36,12 @@
    bmi_obese: 35,
    hr_low: 60,
    hr_high: 100,
+   // Defaults for vital sign alert rules (see alertRules.ts)
+   spo2_low: 90,
+   hr_sustained_high: 120,
+   hr_sustained_minutes: 10,
+   weight_gain_kg: 2,
+   weight_gain_days: 3,
  };
  
  // Feature weights validated against Framingham & FINDRISC studies
@@ -582,12 +592,16 @@
  // ============================================================================
  // WOMEN'S HEALTH ANALYSIS
  // ============================================================================
- export function analyzeWomensHealth(data: {
+ export interface WomensHealthInput {
    cycles: Array<{ cycleLength?: number; periodLength?: number; flowIntensity?: string; symptoms?: string[] }>;
    age: number;
    weight?: number;
    height?: number;
- }): RiskResult | null {
+ }
+ 
+ const PCOS_SYMPTOMS = ['acne', 'excessive hair growth', 'hair loss', 'weight gain'];
+ 
+ export function analyzeWomensHealth(data: WomensHealthInput): RiskResult | null {
    if (!data.cycles || data.cycles.length === 0) return null;
    
    const factors: RiskFactor[] = [];
@@ -611,6 +625,26 @@
      }
    }
    
+   // PCOS indicators reported across cycles
+   const pcosSymptomsCount = data.cycles.reduce((count, cycle) => {
+     const symptoms = cycle.symptoms || [];
+     return count + symptoms.filter(s => PCOS_SYMPTOMS.some(ps => s.toLowerCase().includes(ps))).length;
+   }, 0);
+   
+   if (pcosSymptomsCount > 2) {
+     riskPoints += 3;
+     factors.push({ name: 'PCOS Indicators', impact: 'negative', description: 'Multiple PCOS-related symptoms detected' });
+   }
+   
+   // BMI consideration
+   if (data.weight && data.height) {
+     const bmi = calculateBMI(data.weight, data.height);
+     if (bmi >= 30) {
+       riskPoints += 2;
+       factors.push({ name: 'Weight', impact: 'negative', description: `BMI ${bmi.toFixed(1)} - associated with hormonal issues`, value: bmi });
+     }
+   }
+   
    const riskPercentage = Math.min((riskPoints / 12) * 100, 90);
    let riskLevel: 'low' | 'moderate' | 'high' | 'very-high' = 'low';
    if (riskPoints >= 9) riskLevel = 'very-high';
@@ -634,24 +668,41 @@
  
  // ============================================================================
  // BUILD PATIENT FEATURES FROM DATABASE RECORDS
+ // This is the single feature model shared by the browser and the edge functions.
+ // Pass `asOf` to pin the age calculation when reproducing a score offline.
  // ============================================================================
+ export interface ProfileRecord {
+   date_of_birth?: string | null;
+   weight?: number | null;
+   height?: number | null;
+   gender?: string | null;
+ }
+ 
+ export interface VitalsRecord {
+   blood_pressure_systolic?: number | null;
+   blood_pressure_diastolic?: number | null;
+   heart_rate?: number | null;
+   blood_glucose?: number | null;
+   weight?: number | null;
+   oxygen_saturation?: number | null;
+ }
+ 
+ export function calculateAge(dateOfBirth: string, asOf: Date = new Date()): number {
+   const dob = new Date(dateOfBirth);
+   let age = asOf.getUTCFullYear() - dob.getUTCFullYear();
+   const beforeBirthday =
+     asOf.getUTCMonth() < dob.getUTCMonth() ||
+     (asOf.getUTCMonth() === dob.getUTCMonth() && asOf.getUTCDate() < dob.getUTCDate());
+   if (beforeBirthday) age -= 1;
+   return age;
+ }
+ 
  export function buildPatientFeatures(
-   profile: { date_of_birth?: string; weight?: number; height?: number; gender?: string } | null,
-   latestVitals: { 
-     blood_pressure_systolic?: number;
-     blood_pressure_diastolic?: number;
-     heart_rate?: number;
-     blood_glucose?: number;
-     weight?: number;
-     oxygen_saturation?: number;
-   } | null
+   profile: ProfileRecord | null,
+   latestVitals: VitalsRecord | null,
+   asOf: Date = new Date()
  ): PatientFeatures {
-   let age = POPULATION_MEANS.age;
-   if (profile?.date_of_birth) {
-     const dob = new Date(profile.date_of_birth);
-     const today = new Date();
-     age = today.getFullYear() - dob.getFullYear();
-   }
+   const age = profile?.date_of_birth ? calculateAge(profile.date_of_birth, asOf) : POPULATION_MEANS.age;
    
    const weight = profile?.weight || latestVitals?.weight || POPULATION_MEANS.weight;
    const height = profile?.height || POPULATION_MEANS.height;
@@ -669,4 +720,4 @@
      oxygen_saturation: latestVitals?.oxygen_saturation || POPULATION_MEANS.oxygen_saturation,
      gender: (profile?.gender as 'male' | 'female' | 'other') || undefined,
    };
- }
\ No newline at end of file
+ }
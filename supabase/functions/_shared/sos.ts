@@ -0,0 +1,218 @@
+// ============================================================================
+// EMERGENCY SOS
+// Runtime-agnostic: the readings that raise an SOS automatically, escalation
+// timing, acknowledgement tokens and the alert text sent to emergency
+// contacts. The sos edge function and iot-webhook drive the flow through
+// sosDispatch.ts; the dashboard shows the same limits and timings.
+// ============================================================================
+
+import { VITAL_RANGES, type VitalMetric } from './vitalValidation.ts';
+
+export type SosTriggerSource = 'manual' | 'device';
+export type SosStatus = 'pending' | 'active' | 'acknowledged' | 'resolved' | 'cancelled';
+export type SosLogEvent =
+  | 'triggered'
+  | 'contacts_notified'
+  | 'escalated'
+  | 'no_contacts'
+  | 'acknowledged'
+  | 'cancelled'
+  | 'resolved';
+export type SosActor = 'patient' | 'device' | 'contact' | 'system';
+
+// An SOS in one of these states still counts as open: contacts may be
+// alerted and the patient can cancel or resolve it
+export const OPEN_SOS_STATUSES: SosStatus[] = ['pending', 'active', 'acknowledged'];
+
+// The primary contact gets this long to acknowledge before everyone else is
+// alerted
+export const ESCALATION_MINUTES = 5;
+
+// A device-raised SOS waits this long so the patient can cancel a false alarm
+export const AUTO_SOS_GRACE_SECONDS = 120;
+
+// Older readings (e.g. a backlog uploaded in a batch) never raise an SOS
+export const AUTO_TRIGGER_MAX_AGE_MINUTES = 15;
+
+// Canonical units (see vitalValidation.ts). A reading beyond any of these
+// raises an SOS, even when it is flagged as implausible: the grace period
+// is there for sensor errors.
+export const CRITICAL_VITAL_LIMITS: Partial<Record<VitalMetric, { below?: number; atOrAbove?: number }>> = {
+  oxygen_saturation: { below: 85 },
+  heart_rate: { below: 40, atOrAbove: 150 },
+  blood_pressure_systolic: { below: 80, atOrAbove: 180 },
+  blood_pressure_diastolic: { atOrAbove: 120 },
+  blood_glucose: { below: 54, atOrAbove: 400 },
+  temperature: { below: 35, atOrAbove: 40.5 },
+};
+
+// Human-readable reasons, e.g. "SpO2 82 % (below 85)"; empty when nothing is
+// critical
+export function criticalFindings(values: Partial<Record<VitalMetric, number | null>>): string[] {
+  const findings: string[] = [];
+  for (const [metric, limits] of Object.entries(CRITICAL_VITAL_LIMITS) as [VitalMetric, { below?: number; atOrAbove?: number }][]) {
+    const value = values[metric];
+    if (value === undefined || value === null) continue;
+    const { label, unit } = VITAL_RANGES[metric];
+    if (limits.below !== undefined && value < limits.below) {
+      findings.push(`${label} ${value} ${unit} (below ${limits.below})`);
+    } else if (limits.atOrAbove !== undefined && value >= limits.atOrAbove) {
+      findings.push(`${label} ${value} ${unit} (${limits.atOrAbove} or above)`);
+    }
+  }
+  return findings;
+}
+
+export function mapsUrl(latitude: number, longitude: number): string {
+  return `https://maps.google.com/?q=${latitude.toFixed(6)},${longitude.toFixed(6)}`;
+}
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Random token for a contact's acknowledgement link; only its hash is stored
+export function generateAckToken(): string {
+  return hex(crypto.getRandomValues(new Uint8Array(24)));
+}
+
+export async function hashAckToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return hex(new Uint8Array(digest));
+}
+
+export interface SosVitals {
+  recorded_at: string;
+  blood_pressure_systolic: number | null;
+  blood_pressure_diastolic: number | null;
+  heart_rate: number | null;
+  blood_glucose: number | null;
+  temperature: number | null;
+  oxygen_saturation: number | null;
+}
+
+export interface SosAllergy {
+  allergen: string;
+  severity: string | null;
+  reaction: string | null;
+}
+
+export interface SosAlertDetails {
+  // The patient's account email: patients have no stored name
+  patientLabel: string;
+  healthId: string | null;
+  trigger: SosTriggerSource;
+  reason: string | null;
+  message: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  accuracyMeters: number | null;
+  vitals: SosVitals | null;
+  allergies: SosAllergy[];
+  // Absolute URLs, null without APP_URL
+  cardUrl: string | null;
+  ackUrl: string | null;
+}
+
+export function formatSosVitals(vitals: SosVitals): string {
+  const parts: string[] = [];
+  if (vitals.blood_pressure_systolic !== null && vitals.blood_pressure_diastolic !== null) {
+    parts.push(`BP ${vitals.blood_pressure_systolic}/${vitals.blood_pressure_diastolic} mmHg`);
+  }
+  if (vitals.heart_rate !== null) parts.push(`HR ${vitals.heart_rate} bpm`);
+  if (vitals.oxygen_saturation !== null) parts.push(`SpO2 ${vitals.oxygen_saturation}%`);
+  if (vitals.blood_glucose !== null) parts.push(`glucose ${vitals.blood_glucose} mg/dL`);
+  if (vitals.temperature !== null) parts.push(`temp ${vitals.temperature} °C`);
+  return parts.join(', ');
+}
+
+function formatAllergies(allergies: SosAllergy[]): string {
+  return allergies
+    .map((a) => (a.severity ? `${a.allergen} (${a.severity})` : a.allergen))
+    .join(', ');
+}
+
+// The alert to an emergency contact. The most important lines come first so
+// they survive SMS truncation.
+export function buildSosMessage(details: SosAlertDetails): { subject: string; body: string } {
+  const subject = `SOS: ${details.patientLabel} needs help`;
+  const lines: string[] = [
+    details.trigger === 'device'
+      ? `An emergency alert was raised automatically from ${details.patientLabel}'s health device.`
+      : `${details.patientLabel} raised an emergency alert.`,
+  ];
+
+  if (details.reason) lines.push(`Reason: ${details.reason}.`);
+  if (details.message) lines.push(`Message: "${details.message}"`);
+  if (details.latitude !== null && details.longitude !== null) {
+    const accuracy = details.accuracyMeters ? ` (within about ${Math.round(details.accuracyMeters)} m)` : '';
+    lines.push(`Location${accuracy}: ${mapsUrl(details.latitude, details.longitude)}`);
+  }
+  if (details.ackUrl) lines.push(`Let them know you are responding: ${details.ackUrl}`);
+  if (details.vitals) {
+    const vitals = formatSosVitals(details.vitals);
+    if (vitals) lines.push(`Latest vitals (${new Date(details.vitals.recorded_at).toUTCString()}): ${vitals}.`);
+  }
+  lines.push(
+    details.allergies.length > 0
+      ? `Allergies: ${formatAllergies(details.allergies)}.`
+      : 'No known allergies recorded.'
+  );
+  if (details.cardUrl) {
+    lines.push(`Emergency health card${details.healthId ? ` (${details.healthId})` : ''}: ${details.cardUrl}`);
+  }
+  lines.push('If they may be in danger, call your local emergency number.');
+
+  return { subject, body: lines.join('\n') };
+}
+
+// Sent to contacts who were already alerted when the SOS ends
+export function buildSosClosedMessage(
+  patientLabel: string,
+  status: Extract<SosStatus, 'cancelled' | 'resolved'>
+): { subject: string; body: string } {
+  return status === 'cancelled'
+    ? {
+        subject: `SOS cancelled: ${patientLabel}`,
+        body: `${patientLabel} cancelled the emergency alert. No further action is needed.`,
+      }
+    : {
+        subject: `SOS resolved: ${patientLabel}`,
+        body: `${patientLabel} marked the emergency as resolved. Thank you for responding.`,
+      };
+}
+
+export interface SosLogEntry {
+  event_type: string;
+  actor: string;
+  details: Record<string, unknown> | null;
+}
+
+// One line of sos_event_log for the patient's SOS history
+export function describeSosLogEntry(entry: SosLogEntry): string {
+  const details = entry.details ?? {};
+  const names = Array.isArray(details.contacts)
+    ? (details.contacts as { name?: string }[]).map((c) => c.name).filter(Boolean).join(', ')
+    : '';
+
+  switch (entry.event_type) {
+    case 'triggered':
+      return entry.actor === 'device'
+        ? `Raised automatically: ${details.reason ?? 'critical reading'}`
+        : 'SOS raised';
+    case 'contacts_notified':
+      return `Alerted ${names || 'your primary contact'}`;
+    case 'escalated':
+      return `No acknowledgement, alerted ${names || 'your other contacts'}`;
+    case 'no_contacts':
+      return 'No emergency contacts to alert';
+    case 'acknowledged':
+      return `${details.contact_name ?? 'A contact'} acknowledged`;
+    case 'cancelled':
+      return 'Cancelled';
+    case 'resolved':
+      return 'Marked as resolved';
+    default:
+      return entry.event_type;
+  }
+}
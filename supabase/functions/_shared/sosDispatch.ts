@@ -0,0 +1,619 @@
+// ============================================================================
+// SOS DISPATCH
+// Raises, escalates, acknowledges and closes SOS events with a service-role
+// client. Used by the sos edge function (dashboard button, contact
+// acknowledgements, the escalation cron) and by iot-webhook for critical
+// readings. Contact messages go through notification_deliveries as urgent
+// deliveries, so they skip rate limits and are sent first; every step is
+// written to sos_event_log.
+// ============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { PairedDevice } from "./deviceAuth.ts";
+import { healthCardPath, usableCardToken } from "./healthCard.ts";
+import type { ReadingResult } from "./vitalIngestion.ts";
+import {
+  AUTO_SOS_GRACE_SECONDS,
+  AUTO_TRIGGER_MAX_AGE_MINUTES,
+  buildSosClosedMessage,
+  buildSosMessage,
+  criticalFindings,
+  ESCALATION_MINUTES,
+  generateAckToken,
+  hashAckToken,
+  OPEN_SOS_STATUSES,
+  type SosActor,
+  type SosAllergy,
+  type SosLogEvent,
+  type SosStatus,
+  type SosTriggerSource,
+  type SosVitals,
+} from "./sos.ts";
+
+export interface SosEvent {
+  id: string;
+  user_id: string;
+  trigger_source: SosTriggerSource;
+  status: SosStatus;
+  reason: string | null;
+  message: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy_m: number | null;
+  escalation_level: number;
+  notify_after: string;
+  next_escalation_at: string | null;
+  acknowledged_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
+interface ContactRow {
+  id: string;
+  name: string;
+  is_primary: boolean | null;
+  created_at: string;
+}
+
+export interface SosTrigger {
+  userId: string;
+  trigger: SosTriggerSource;
+  reason?: string | null;
+  message?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  accuracyMeters?: number | null;
+  vitalSignId?: string | null;
+  deviceId?: string | null;
+}
+
+export type OpenSosResult =
+  | { ok: true; event: SosEvent; created: boolean }
+  | { ok: false; error: string };
+
+const EVENT_COLUMNS =
+  'id, user_id, trigger_source, status, reason, message, latitude, longitude, location_accuracy_m, escalation_level, notify_after, next_escalation_at, acknowledged_at, closed_at, created_at';
+
+async function log(
+  supabase: SupabaseClient,
+  eventId: string,
+  eventType: SosLogEvent,
+  actor: SosActor,
+  details: Record<string, unknown> = {},
+  contactId: string | null = null
+) {
+  const { error } = await supabase.from('sos_event_log').insert({
+    sos_event_id: eventId,
+    event_type: eventType,
+    actor,
+    emergency_contact_id: contactId,
+    details,
+  });
+  if (error) console.error(`[sos] Failed to log ${eventType} for ${eventId}:`, error);
+}
+
+async function notifyPatient(
+  supabase: SupabaseClient,
+  event: SosEvent,
+  key: string,
+  title: string,
+  body: string
+) {
+  const { error } = await supabase.from('notifications').upsert(
+    {
+      user_id: event.user_id,
+      category: 'sos',
+      title,
+      body,
+      link: '/patient-dashboard',
+      data: { sos_event_id: event.id },
+      dedupe_key: `sos:${event.id}:${key}`,
+    },
+    { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true }
+  );
+  if (error) console.error(`[sos] Failed to notify patient about ${event.id}:`, error);
+}
+
+async function patientLabel(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data } = await supabase.auth.admin.getUserById(userId);
+  return data?.user?.email ?? 'A Health Twin user';
+}
+
+// Raises an SOS, or returns the patient's open one: there is at most one
+// at a time. Device-raised SOS stay pending for AUTO_SOS_GRACE_SECONDS.
+export async function openSosEvent(
+  supabase: SupabaseClient,
+  trigger: SosTrigger,
+  now: Date = new Date()
+): Promise<OpenSosResult> {
+  const notifyAfter = trigger.trigger === 'device'
+    ? new Date(now.getTime() + AUTO_SOS_GRACE_SECONDS * 1000)
+    : now;
+
+  const { data, error } = await supabase
+    .from('sos_events')
+    .insert({
+      user_id: trigger.userId,
+      trigger_source: trigger.trigger,
+      reason: trigger.reason ?? null,
+      message: trigger.message ?? null,
+      latitude: trigger.latitude ?? null,
+      longitude: trigger.longitude ?? null,
+      location_accuracy_m: trigger.accuracyMeters ?? null,
+      vital_sign_id: trigger.vitalSignId ?? null,
+      device_id: trigger.deviceId ?? null,
+      notify_after: notifyAfter.toISOString(),
+    })
+    .select(EVENT_COLUMNS)
+    .single();
+
+  if (error) {
+    // 23505: the unique index on open SOS per patient
+    if (error.code === '23505') {
+      const { data: existing } = await supabase
+        .from('sos_events')
+        .select(EVENT_COLUMNS)
+        .eq('user_id', trigger.userId)
+        .in('status', OPEN_SOS_STATUSES)
+        .maybeSingle();
+      if (existing) {
+        // Pressing the button during a device SOS adds what the patient sent
+        const additions: Record<string, unknown> = {};
+        if (trigger.message) additions.message = trigger.message;
+        if (trigger.latitude != null && trigger.longitude != null) {
+          additions.latitude = trigger.latitude;
+          additions.longitude = trigger.longitude;
+          additions.location_accuracy_m = trigger.accuracyMeters ?? null;
+        }
+        if (Object.keys(additions).length === 0) {
+          return { ok: true, event: existing as SosEvent, created: false };
+        }
+        const { data: updated } = await supabase
+          .from('sos_events')
+          .update(additions)
+          .eq('id', existing.id)
+          .select(EVENT_COLUMNS)
+          .single();
+        return { ok: true, event: (updated ?? existing) as SosEvent, created: false };
+      }
+    }
+    console.error('[sos] Failed to open SOS:', error);
+    return { ok: false, error: 'Failed to raise SOS' };
+  }
+
+  const event = data as SosEvent;
+  await log(supabase, event.id, 'triggered', trigger.trigger === 'device' ? 'device' : 'patient', {
+    reason: event.reason,
+    message: event.message,
+    has_location: event.latitude !== null,
+    device_id: trigger.deviceId ?? undefined,
+  });
+
+  if (trigger.trigger === 'device') {
+    await notifyPatient(
+      supabase,
+      event,
+      'triggered',
+      'SOS about to be sent',
+      `${event.reason ?? 'A critical reading'} was detected. Your emergency contacts will be alerted in ${Math.round(AUTO_SOS_GRACE_SECONDS / 60)} minutes unless you cancel the SOS.`
+    );
+  } else {
+    await notifyPatient(supabase, event, 'triggered', 'SOS sent', 'Your emergency contacts are being alerted.');
+  }
+
+  return { ok: true, event, created: true };
+}
+
+async function alertDetails(supabase: SupabaseClient, event: SosEvent) {
+  const [label, profile, cardLink, vitals, allergies] = await Promise.all([
+    patientLabel(supabase, event.user_id),
+    supabase.from('health_profiles').select('health_id').eq('user_id', event.user_id).maybeSingle(),
+    supabase.from('health_card_links').select('token, enabled, expires_at').eq('user_id', event.user_id).maybeSingle(),
+    supabase
+      .from('vital_signs')
+      .select('recorded_at, blood_pressure_systolic, blood_pressure_diastolic, heart_rate, blood_glucose, temperature, oxygen_saturation')
+      .eq('user_id', event.user_id)
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase.from('allergies').select('allergen, severity, reaction').eq('user_id', event.user_id),
+  ]);
+
+  return {
+    patientLabel: label,
+    healthId: (profile.data?.health_id as string | undefined) ?? null,
+    cardToken: usableCardToken(cardLink.data),
+    vitals: (vitals.data as SosVitals | null) ?? null,
+    allergies: (allergies.data ?? []) as SosAllergy[],
+  };
+}
+
+// Creates an alert row (with a fresh acknowledgement token) for each contact
+// and queues their messages. Returns the number of deliveries queued.
+async function alertContacts(
+  supabase: SupabaseClient,
+  event: SosEvent,
+  contacts: ContactRow[],
+  level: number,
+  appUrl: string | null
+): Promise<number> {
+  const details = await alertDetails(supabase, event);
+  const baseUrl = appUrl?.replace(/\/$/, '') ?? null;
+  let queued = 0;
+  const alerted: string[] = [];
+
+  for (const contact of contacts) {
+    const token = generateAckToken();
+    const { error: alertError } = await supabase.from('sos_contact_alerts').insert({
+      sos_event_id: event.id,
+      emergency_contact_id: contact.id,
+      contact_name: contact.name,
+      escalation_level: level,
+      token_hash: await hashAckToken(token),
+    });
+    if (alertError) {
+      // Already alerted at an earlier level
+      if (alertError.code !== '23505') console.error(`[sos] Failed to record alert for ${contact.id}:`, alertError);
+      continue;
+    }
+
+    const { subject, body } = buildSosMessage({
+      ...details,
+      trigger: event.trigger_source,
+      reason: event.reason,
+      message: event.message,
+      latitude: event.latitude,
+      longitude: event.longitude,
+      accuracyMeters: event.location_accuracy_m,
+      cardUrl: baseUrl && details.cardToken ? `${baseUrl}${healthCardPath(details.cardToken)}` : null,
+      ackUrl: baseUrl ? `${baseUrl}/sos/ack/${token}` : null,
+    });
+
+    const { data, error } = await supabase.rpc('enqueue_emergency_contact_delivery', {
+      _contact_id: contact.id,
+      _category: 'sos',
+      _subject: subject,
+      _body: body,
+      _priority: 'urgent',
+    });
+    if (error) {
+      console.error(`[sos] Failed to queue alert to ${contact.id}:`, error);
+      continue;
+    }
+    queued += (data as number) ?? 0;
+    alerted.push(contact.name);
+  }
+
+  if (alerted.length > 0) {
+    const { error } = await supabase.from('data_access_log').insert({
+      patient_id: event.user_id,
+      accessor: 'service',
+      accessor_name: `Emergency contacts: ${alerted.join(', ')}`,
+      source: 'sos',
+      categories: [
+        'profile',
+        ...(details.vitals ? ['vitals'] : []),
+        ...(details.allergies.length > 0 ? ['allergies'] : []),
+      ],
+    });
+    if (error) console.error(`[sos] Failed to record data access for ${event.id}:`, error);
+  }
+
+  return queued;
+}
+
+// Moves one SOS to its next escalation level when it is due: the primary
+// contact (or the first one added when none is marked primary), then
+// everyone else. Each level is claimed with a conditional update, so
+// overlapping cron runs never alert anyone twice. Returns the number of
+// deliveries queued.
+export async function dispatchSosEvent(
+  supabase: SupabaseClient,
+  event: SosEvent,
+  appUrl: string | null,
+  now: Date = new Date()
+): Promise<number> {
+  const level = event.escalation_level + 1;
+  if (level > 2) return 0;
+
+  const { data: contactRows, error: contactsError } = await supabase
+    .from('emergency_contacts')
+    .select('id, name, is_primary, created_at')
+    .eq('user_id', event.user_id)
+    .order('created_at', { ascending: true });
+  if (contactsError) {
+    console.error(`[sos] Failed to load contacts for ${event.id}:`, contactsError);
+    return 0;
+  }
+
+  const contacts = (contactRows ?? []) as ContactRow[];
+  const primaries = contacts.filter((c) => c.is_primary);
+  const first = primaries.length > 0 ? primaries : contacts.slice(0, 1);
+  const rest = contacts.filter((c) => !first.includes(c));
+
+  const targets = level === 1 ? first : rest;
+  // Nobody left to escalate to after this level
+  const finalLevel = level === 2 || rest.length === 0;
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('sos_events')
+    .update({
+      status: 'active',
+      escalation_level: finalLevel ? 2 : level,
+      next_escalation_at: finalLevel ? null : new Date(now.getTime() + ESCALATION_MINUTES * 60 * 1000).toISOString(),
+    })
+    .eq('id', event.id)
+    .eq('escalation_level', event.escalation_level)
+    .in('status', ['pending', 'active'])
+    .select('id');
+  if (claimError) {
+    console.error(`[sos] Failed to claim ${event.id}:`, claimError);
+    return 0;
+  }
+  if (!claimed || claimed.length === 0) return 0;
+
+  if (contacts.length === 0) {
+    await log(supabase, event.id, 'no_contacts', 'system');
+    await notifyPatient(
+      supabase,
+      event,
+      'no_contacts',
+      'SOS could not be sent',
+      'You have no emergency contacts. Call your local emergency number if you need help.'
+    );
+    return 0;
+  }
+
+  const queued = await alertContacts(supabase, event, targets, level, appUrl);
+  await log(supabase, event.id, level === 1 ? 'contacts_notified' : 'escalated', 'system', {
+    level,
+    contacts: targets.map((c) => ({ id: c.id, name: c.name })),
+    deliveries: queued,
+  });
+
+  return queued;
+}
+
+// Every open SOS whose grace period or escalation deadline has passed
+export async function dispatchDueSosEvents(
+  supabase: SupabaseClient,
+  appUrl: string | null,
+  now: Date = new Date()
+): Promise<{ dispatched: number; queued: number }> {
+  const nowIso = now.toISOString();
+  const [pending, escalating] = await Promise.all([
+    supabase
+      .from('sos_events')
+      .select(EVENT_COLUMNS)
+      .eq('status', 'pending')
+      .lte('notify_after', nowIso),
+    supabase
+      .from('sos_events')
+      .select(EVENT_COLUMNS)
+      .eq('status', 'active')
+      .lte('next_escalation_at', nowIso),
+  ]);
+
+  const failed = [pending, escalating].find((r) => r.error);
+  if (failed) throw failed.error;
+
+  let queued = 0;
+  const events = [...(pending.data ?? []), ...(escalating.data ?? [])] as SosEvent[];
+  for (const event of events) {
+    queued += await dispatchSosEvent(supabase, event, appUrl, now);
+  }
+  return { dispatched: events.length, queued };
+}
+
+// Raises a device SOS for the first critical reading among those just
+// stored, unless the patient turned automatic SOS off or already has one
+// open. Readings older than AUTO_TRIGGER_MAX_AGE_MINUTES are ignored.
+export async function checkCriticalReadings(
+  supabase: SupabaseClient,
+  device: PairedDevice,
+  results: ReadingResult[],
+  now: Date = new Date()
+): Promise<SosEvent | null> {
+  const cutoff = now.getTime() - AUTO_TRIGGER_MAX_AGE_MINUTES * 60 * 1000;
+  const ids = results
+    .filter((r) => r.status === 'inserted' && r.id && r.recorded_at && Date.parse(r.recorded_at) >= cutoff)
+    .map((r) => r.id!);
+  if (ids.length === 0) return null;
+
+  const { data: readings, error } = await supabase
+    .from('vital_signs')
+    .select('id, recorded_at, blood_pressure_systolic, blood_pressure_diastolic, heart_rate, blood_glucose, temperature, oxygen_saturation')
+    .in('id', ids)
+    .order('recorded_at', { ascending: false });
+  if (error) {
+    console.error('[sos] Failed to load readings:', error);
+    return null;
+  }
+
+  for (const reading of readings ?? []) {
+    const findings = criticalFindings(reading);
+    if (findings.length === 0) continue;
+
+    const { data: prefs } = await supabase
+      .from('notification_preferences')
+      .select('auto_sos_enabled')
+      .eq('user_id', device.user_id)
+      .maybeSingle();
+    if (prefs && !prefs.auto_sos_enabled) {
+      console.log(`[sos] Critical reading from ${device.device_id}; automatic SOS is off`);
+      return null;
+    }
+
+    const result = await openSosEvent(supabase, {
+      userId: device.user_id,
+      trigger: 'device',
+      reason: findings.join('; '),
+      vitalSignId: reading.id,
+      deviceId: device.device_id,
+    }, now);
+    if (!result.ok) return null;
+    if (result.created) console.log(`[sos] Device ${device.device_id} raised SOS ${result.event.id}`);
+    return result.event;
+  }
+
+  return null;
+}
+
+export type CloseSosResult =
+  | { ok: true; event: SosEvent; queued: number }
+  | { ok: false; status: number; error: string };
+
+// Cancels (a false alarm) or resolves the patient's SOS, and tells the
+// contacts who were already alerted
+export async function closeSosEvent(
+  supabase: SupabaseClient,
+  userId: string,
+  eventId: string,
+  status: 'cancelled' | 'resolved'
+): Promise<CloseSosResult> {
+  const { data, error } = await supabase
+    .from('sos_events')
+    .update({ status, closed_at: new Date().toISOString(), next_escalation_at: null })
+    .eq('id', eventId)
+    .eq('user_id', userId)
+    .in('status', OPEN_SOS_STATUSES)
+    .select(EVENT_COLUMNS);
+  if (error) {
+    console.error(`[sos] Failed to close ${eventId}:`, error);
+    return { ok: false, status: 500, error: 'Failed to update SOS' };
+  }
+  if (!data || data.length === 0) {
+    return { ok: false, status: 404, error: 'No open SOS found' };
+  }
+
+  const event = data[0] as SosEvent;
+  await log(supabase, event.id, status, 'patient');
+
+  const { data: alerts } = await supabase
+    .from('sos_contact_alerts')
+    .select('emergency_contact_id')
+    .eq('sos_event_id', event.id)
+    .not('emergency_contact_id', 'is', null);
+
+  let queued = 0;
+  if (alerts && alerts.length > 0) {
+    const { subject, body } = buildSosClosedMessage(await patientLabel(supabase, userId), status);
+    for (const alert of alerts) {
+      const { data: count, error: queueError } = await supabase.rpc('enqueue_emergency_contact_delivery', {
+        _contact_id: alert.emergency_contact_id,
+        _category: 'sos',
+        _subject: subject,
+        _body: body,
+        _priority: 'urgent',
+      });
+      if (queueError) console.error(`[sos] Failed to queue update to ${alert.emergency_contact_id}:`, queueError);
+      else queued += (count as number) ?? 0;
+    }
+  }
+
+  return { ok: true, event, queued };
+}
+
+export interface SosAcknowledgement {
+  status: SosStatus;
+  patient: string;
+  contactName: string;
+  acknowledgedAt: string;
+  reason: string | null;
+  message: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  // Token for the health card link, if the patient's link is usable
+  cardToken: string | null;
+  createdAt: string;
+}
+
+export type AcknowledgeSosResult =
+  | { ok: true; acknowledgement: SosAcknowledgement }
+  | { ok: false; status: number; error: string };
+
+// A contact opened their acknowledgement link. The first acknowledgement
+// stops escalation; later ones (or the same link twice) are recorded but
+// change nothing else.
+export async function acknowledgeSos(
+  supabase: SupabaseClient,
+  token: string
+): Promise<AcknowledgeSosResult> {
+  const { data: alert, error } = await supabase
+    .from('sos_contact_alerts')
+    .select(`id, emergency_contact_id, contact_name, acknowledged_at, sos_events (${EVENT_COLUMNS})`)
+    .eq('token_hash', await hashAckToken(token))
+    .maybeSingle();
+  if (error) {
+    console.error('[sos] Failed to look up acknowledgement:', error);
+    return { ok: false, status: 500, error: 'Failed to acknowledge SOS' };
+  }
+  if (!alert) return { ok: false, status: 404, error: 'This link is not valid' };
+
+  // Untyped client: the sos_events embed is a single row
+  let event = alert.sos_events as unknown as SosEvent;
+  const now = new Date().toISOString();
+  let acknowledgedAt = alert.acknowledged_at as string | null;
+
+  if (!acknowledgedAt) {
+    acknowledgedAt = now;
+    const { error: alertError } = await supabase
+      .from('sos_contact_alerts')
+      .update({ acknowledged_at: now })
+      .eq('id', alert.id);
+    if (alertError) {
+      console.error('[sos] Failed to record acknowledgement:', alertError);
+      return { ok: false, status: 500, error: 'Failed to acknowledge SOS' };
+    }
+
+    const { data: updated } = await supabase
+      .from('sos_events')
+      .update({
+        status: 'acknowledged',
+        acknowledged_at: now,
+        acknowledged_by: alert.emergency_contact_id,
+        next_escalation_at: null,
+      })
+      .eq('id', event.id)
+      .in('status', ['pending', 'active'])
+      .select(EVENT_COLUMNS);
+    if (updated && updated.length > 0) event = updated[0] as SosEvent;
+
+    await log(supabase, event.id, 'acknowledged', 'contact', {
+      contact_name: alert.contact_name,
+      first: !!updated && updated.length > 0,
+      sos_status: event.status,
+    }, alert.emergency_contact_id);
+
+    if (OPEN_SOS_STATUSES.includes(event.status)) {
+      await notifyPatient(
+        supabase,
+        event,
+        `ack:${alert.id}`,
+        `${alert.contact_name} is responding`,
+        `${alert.contact_name} acknowledged your SOS.`
+      );
+    }
+  }
+
+  const [label, cardLink] = await Promise.all([
+    patientLabel(supabase, event.user_id),
+    supabase.from('health_card_links').select('token, enabled, expires_at').eq('user_id', event.user_id).maybeSingle(),
+  ]);
+
+  return {
+    ok: true,
+    acknowledgement: {
+      status: event.status,
+      patient: label,
+      contactName: alert.contact_name,
+      acknowledgedAt,
+      reason: event.reason,
+      message: event.message,
+      latitude: event.latitude,
+      longitude: event.longitude,
+      cardToken: usableCardToken(cardLink.data),
+      createdAt: event.created_at,
+    },
+  };
+}
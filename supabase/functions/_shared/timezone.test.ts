@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, toZonedParts, weekdayOf, zonedDateTimeToUtc } from './timezone.ts';
+
+const utc = (date: string, time: string, timeZone: string) =>
+  zonedDateTimeToUtc(date, time, timeZone).toISOString();
+
+describe('zonedDateTimeToUtc', () => {
+  it('converts ordinary wall times', () => {
+    expect(utc('2026-01-15', '08:00', 'America/New_York')).toBe('2026-01-15T13:00:00.000Z');
+    expect(utc('2026-07-15', '08:00', 'America/New_York')).toBe('2026-07-15T12:00:00.000Z');
+    expect(utc('2026-01-15', '08:00', 'Europe/Berlin')).toBe('2026-01-15T07:00:00.000Z');
+    expect(utc('2026-07-15', '08:00', 'Europe/Berlin')).toBe('2026-07-15T06:00:00.000Z');
+    expect(utc('2026-07-15', '08:00', 'Australia/Sydney')).toBe('2026-07-14T22:00:00.000Z');
+    expect(utc('2026-07-15', '08:00', 'UTC')).toBe('2026-07-15T08:00:00.000Z');
+  });
+
+  it('converts the wall times either side of a DST gap', () => {
+    expect(utc('2026-03-08', '01:59', 'America/New_York')).toBe('2026-03-08T06:59:00.000Z');
+    expect(utc('2026-03-08', '03:00', 'America/New_York')).toBe('2026-03-08T07:00:00.000Z');
+    expect(utc('2026-03-29', '01:59', 'Europe/Berlin')).toBe('2026-03-29T00:59:00.000Z');
+    expect(utc('2026-03-29', '03:00', 'Europe/Berlin')).toBe('2026-03-29T01:00:00.000Z');
+  });
+
+  // Each zone skips 02:00-03:00 (Santiago 00:00-01:00), so 02:30 is 03:30
+  it.each([
+    ['America/New_York', '2026-03-08', '02:30', '2026-03-08T07:30:00.000Z', '03:30'],
+    ['America/Los_Angeles', '2026-03-08', '02:30', '2026-03-08T10:30:00.000Z', '03:30'],
+    ['Europe/Berlin', '2026-03-29', '02:30', '2026-03-29T01:30:00.000Z', '03:30'],
+    ['Australia/Sydney', '2026-10-04', '02:30', '2026-10-03T16:30:00.000Z', '03:30'],
+    ['America/Santiago', '2026-09-06', '00:30', '2026-09-06T04:30:00.000Z', '01:30'],
+  ])('resolves a time skipped in %s to after the gap', (timeZone, date, time, expected, wallAfter) => {
+    const instant = zonedDateTimeToUtc(date, time, timeZone);
+    expect(instant.toISOString()).toBe(expected);
+    expect(toZonedParts(instant, timeZone)).toMatchObject({ date, time: wallAfter });
+  });
+
+  it('resolves a repeated time to one of its instants', () => {
+    for (const [date, timeZone] of [
+      ['2026-11-01', 'America/New_York'],
+      ['2026-10-25', 'Europe/Berlin'],
+    ]) {
+      const instant = zonedDateTimeToUtc(date, '01:30', timeZone);
+      expect(toZonedParts(instant, timeZone)).toMatchObject({ date, time: '01:30' });
+    }
+  });
+
+  it('round-trips every quarter hour across a spring-forward day', () => {
+    for (const [date, timeZone] of [
+      ['2026-03-08', 'America/New_York'],
+      ['2026-03-29', 'Europe/Berlin'],
+    ]) {
+      for (let minutes = 0; minutes < 24 * 60; minutes += 15) {
+        const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+        // Skipped times move forward by the hour the clocks skipped
+        const shown = time.startsWith('02:') ? `03:${time.slice(3)}` : time;
+        expect(toZonedParts(zonedDateTimeToUtc(date, time, timeZone), timeZone)).toMatchObject({ date, time: shown });
+      }
+    }
+  });
+});
+
+describe('calendar dates', () => {
+  it('adds days across month and year ends', () => {
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2028-03-01', -1)).toBe('2028-02-29');
+  });
+
+  it('finds the weekday of a date', () => {
+    expect(weekdayOf('2026-03-08')).toBe(0);
+    expect(weekdayOf('2026-10-19')).toBe(1);
+  });
+});
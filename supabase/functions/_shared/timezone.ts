@@ -0,0 +1,105 @@
+// ============================================================================
+// TIME ZONE HELPERS
+// Runtime-agnostic (no imports): converts between wall-clock times in an IANA
+// time zone and UTC instants using Intl, which Deno and browsers both ship.
+// Schedules are stored as local times so "08:00" stays 08:00 across DST.
+// ============================================================================
+
+export interface ZonedParts {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  weekday: number; // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function partsOf(instant: Date, timeZone: string) {
+  const parts = formatterFor(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+export function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const p = partsOf(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The UTC instant at which the wall clock in `timeZone` shows date + time.
+// Times skipped by a DST change resolve to the instant after the gap.
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute, second = 0] = time.split(':').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  const firstGuess = wall - timeZoneOffsetMs(new Date(wall), timeZone);
+  const offset = timeZoneOffsetMs(new Date(firstGuess), timeZone);
+  const candidate = wall - offset;
+  const offsetAtCandidate = timeZoneOffsetMs(new Date(candidate), timeZone);
+  if (offsetAtCandidate === offset) return new Date(candidate);
+
+  // No instant shows this wall time. Clocks go forward, so the smaller offset
+  // is the one in force before the gap; reading the time with it lands the
+  // same distance past the gap, whichever side of UTC the zone is on.
+  return new Date(wall - Math.min(offset, offsetAtCandidate));
+}
+
+export function toZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const p = partsOf(instant, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    date: `${p.year}-${pad(p.month)}-${pad(p.day)}`,
+    time: `${pad(p.hour)}:${pad(p.minute)}`,
+    weekday: p.weekday,
+  };
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of any time zone
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+export function weekdayOf(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
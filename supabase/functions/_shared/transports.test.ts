@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { missingTransportEnv, transportsFromEnv } from './transports.ts';
+
+const envOf =
+  (values: Record<string, string>) =>
+  (name: string): string | undefined =>
+    values[name];
+
+const ALL_PROVIDERS = {
+  RESEND_API_KEY: 're_test',
+  EMAIL_FROM: 'HealthTwin <noreply@example.com>',
+  TWILIO_ACCOUNT_SID: 'AC123',
+  TWILIO_AUTH_TOKEN: 'secret',
+  TWILIO_FROM_NUMBER: '+14155550123',
+  VAPID_PUBLIC_KEY: 'public',
+  VAPID_PRIVATE_KEY: 'private',
+  VAPID_SUBJECT: 'mailto:ops@example.com',
+};
+
+const providers = (transports: ReturnType<typeof transportsFromEnv>) =>
+  Object.fromEntries(Object.entries(transports).map(([channel, transport]) => [channel, transport?.provider]));
+
+describe('transportsFromEnv', () => {
+  it('uses the real providers when configured', () => {
+    expect(providers(transportsFromEnv(envOf(ALL_PROVIDERS), () => {}))).toEqual({
+      email: 'resend',
+      sms: 'twilio',
+      push: 'webpush',
+    });
+  });
+
+  it('leaves out channels without provider keys instead of stubbing them', () => {
+    const { TWILIO_AUTH_TOKEN: _, ...withoutSmsToken } = ALL_PROVIDERS;
+    expect(providers(transportsFromEnv(envOf(withoutSmsToken), () => {}))).toEqual({
+      email: 'resend',
+      push: 'webpush',
+    });
+    expect(transportsFromEnv(envOf({}), () => {})).toEqual({});
+  });
+
+  it('names the missing settings', () => {
+    expect(missingTransportEnv(envOf({ TWILIO_ACCOUNT_SID: 'AC123' }), 'sms')).toEqual([
+      'TWILIO_AUTH_TOKEN',
+      'TWILIO_FROM_NUMBER',
+    ]);
+    expect(missingTransportEnv(envOf(ALL_PROVIDERS), 'email')).toEqual([]);
+  });
+
+  it('stubs every channel only when asked to', async () => {
+    const lines: string[] = [];
+    const transports = transportsFromEnv(envOf({ ...ALL_PROVIDERS, NOTIFY_TRANSPORT: 'stub' }), (line) => {
+      lines.push(line);
+    });
+    expect(providers(transports)).toEqual({ email: 'stub', sms: 'stub', push: 'stub' });
+
+    const result = await transports.sms!.send({
+      channel: 'sms',
+      to: '+14155550123',
+      subject: 'SOS',
+      text: 'Help needed',
+      url: null,
+      urgent: true,
+    });
+    expect(result.ok).toBe(true);
+    expect(JSON.parse(lines[0])).toMatchObject({ channel: 'sms', to: '+14155550123', text: 'Help needed' });
+  });
+});
@@ -0,0 +1,165 @@
+// ============================================================================
+// DELIVERY TRANSPORTS
+// Runtime-agnostic providers behind DeliveryTransport:
+//
+//   email  Resend          RESEND_API_KEY, EMAIL_FROM
+//   sms    Twilio          TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER
+//   push   Web Push/VAPID  VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT
+//
+// With NOTIFY_TRANSPORT=stub every channel uses the stub transport instead:
+// it writes each message as a JSON line (console or file) rather than
+// sending it, so the whole pipeline can be exercised offline. Otherwise a
+// channel whose provider isn't configured has no transport at all, and its
+// deliveries fail rather than being reported as sent. The delivery log
+// records which provider was used.
+// ============================================================================
+
+import type { DeliveryChannel, DeliveryResult, DeliveryTransport, OutboundMessage } from './delivery.ts';
+import { sendWebPush, type VapidKeys } from './webPush.ts';
+
+export type EnvReader = (name: string) => string | undefined;
+
+// 429 and 5xx are worth another try; other client errors are not
+function httpFailure(status: number, error: string): DeliveryResult {
+  return { ok: false, error: `${status}: ${error}`.slice(0, 500), retryable: status === 429 || status >= 500 };
+}
+
+// fetch throws on network failures, which are always retryable
+async function attempt(send: () => Promise<DeliveryResult>): Promise<DeliveryResult> {
+  try {
+    return await send();
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error), retryable: true };
+  }
+}
+
+export function createResendEmailTransport(apiKey: string, from: string): DeliveryTransport {
+  return {
+    channel: 'email',
+    provider: 'resend',
+    send: (message) =>
+      attempt(async () => {
+        const response = await fetch('https://api.resend.com/emails', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            from,
+            to: [message.to],
+            subject: message.urgent ? `[Urgent] ${message.subject}` : message.subject,
+            text: message.text,
+          }),
+        });
+        if (!response.ok) return httpFailure(response.status, await response.text());
+        const result = await response.json();
+        return { ok: true, providerMessageId: result.id ?? null };
+      }),
+  };
+}
+
+export function createTwilioSmsTransport(accountSid: string, authToken: string, from: string): DeliveryTransport {
+  return {
+    channel: 'sms',
+    provider: 'twilio',
+    send: (message) =>
+      attempt(async () => {
+        const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({ To: message.to, From: from, Body: message.text }),
+        });
+        if (!response.ok) return httpFailure(response.status, await response.text());
+        const result = await response.json();
+        return { ok: true, providerMessageId: result.sid ?? null };
+      }),
+  };
+}
+
+export function createWebPushTransport(vapid: VapidKeys): DeliveryTransport {
+  return {
+    channel: 'push',
+    provider: 'webpush',
+    send: (message) =>
+      attempt(async () => {
+        if (!message.pushSubscription) {
+          return { ok: false, error: 'Missing push subscription', retryable: false };
+        }
+        // The service worker (public/sw.js) shows this payload
+        const payload = JSON.stringify({ title: message.subject, body: message.text, url: message.url });
+        const result = await sendWebPush(message.pushSubscription, payload, vapid, {
+          urgency: message.urgent ? 'high' : 'normal',
+        });
+        if (result.ok) return { ok: true, providerMessageId: null };
+        // The browser dropped the subscription
+        if (result.status === 404 || result.status === 410) {
+          return { ok: false, error: 'Push subscription expired', retryable: false, gone: true };
+        }
+        return httpFailure(result.status, result.error);
+      }),
+  };
+}
+
+export function createStubTransport(
+  channel: DeliveryChannel,
+  write: (line: string) => void | Promise<void>
+): DeliveryTransport {
+  return {
+    channel,
+    provider: 'stub',
+    send: (message: OutboundMessage) =>
+      attempt(async () => {
+        const id = `stub-${crypto.randomUUID()}`;
+        const { channel, to, subject, text, url, urgent } = message;
+        await write(JSON.stringify({ id, at: new Date().toISOString(), channel, to, subject, text, url, urgent }));
+        return { ok: true, providerMessageId: id };
+      }),
+  };
+}
+
+// The settings each channel's provider needs
+export const TRANSPORT_ENV: Record<DeliveryChannel, string[]> = {
+  email: ['RESEND_API_KEY', 'EMAIL_FROM'],
+  sms: ['TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN', 'TWILIO_FROM_NUMBER'],
+  push: ['VAPID_PUBLIC_KEY', 'VAPID_PRIVATE_KEY', 'VAPID_SUBJECT'],
+};
+
+export function missingTransportEnv(env: EnvReader, channel: DeliveryChannel): string[] {
+  return TRANSPORT_ENV[channel].filter((name) => !env(name));
+}
+
+// Channels left out of the result have no provider configured
+export function transportsFromEnv(
+  env: EnvReader,
+  stubWrite: (line: string) => void | Promise<void>
+): Partial<Record<DeliveryChannel, DeliveryTransport>> {
+  if (env('NOTIFY_TRANSPORT') === 'stub') {
+    return {
+      email: createStubTransport('email', stubWrite),
+      sms: createStubTransport('sms', stubWrite),
+      push: createStubTransport('push', stubWrite),
+    };
+  }
+
+  const configured = (channel: DeliveryChannel) => missingTransportEnv(env, channel).length === 0;
+  const transports: Partial<Record<DeliveryChannel, DeliveryTransport>> = {};
+  if (configured('email')) {
+    transports.email = createResendEmailTransport(env('RESEND_API_KEY')!, env('EMAIL_FROM')!);
+  }
+  if (configured('sms')) {
+    transports.sms = createTwilioSmsTransport(
+      env('TWILIO_ACCOUNT_SID')!,
+      env('TWILIO_AUTH_TOKEN')!,
+      env('TWILIO_FROM_NUMBER')!
+    );
+  }
+  if (configured('push')) {
+    transports.push = createWebPushTransport({
+      publicKey: env('VAPID_PUBLIC_KEY')!,
+      privateKey: env('VAPID_PRIVATE_KEY')!,
+      subject: env('VAPID_SUBJECT')!,
+    });
+  }
+  return transports;
+}
@@ -0,0 +1,213 @@
+// ============================================================================
+// DOCTOR TRIAGE WORKLIST
+// Runtime-agnostic: turns what is known about one patient (unresolved vital
+// alerts, latest and last-visit vitals, recent medication adherence, the
+// doctor's snooze/reviewed state) into a scored worklist item. Risk comes from
+// riskEngine.ts so it matches what the patient sees on Health Predictions.
+// Used by triage-worklist and re-exported to the doctor dashboard.
+// ============================================================================
+
+import {
+  buildPatientFeatures,
+  calculateCardiovascularRisk,
+  calculateDiabetesRisk,
+  type ProfileRecord,
+  type RiskResult,
+  type VitalsRecord,
+} from './riskEngine.ts';
+import type { AdherenceSummary } from './medicationSchedule.ts';
+
+// Adherence is scored over this many days before now
+export const ADHERENCE_WINDOW_DAYS = 7;
+// No reading for longer than this counts against the patient
+export const STALE_VITALS_DAYS = 7;
+
+// Points added to the triage score. Unacknowledged alerts are not scored:
+// they rank first outright (see rankTriageItems), and the score orders
+// patients with the same alerts.
+export const TRIAGE_WEIGHTS = {
+  acknowledgedAlert: 10,
+  // per risk percentage point
+  risk: 1,
+  // per percentage point of risk gained since the last visit, capped
+  riskIncrease: 2,
+  maxRiskIncrease: 20,
+  missedDose: 4,
+  maxMissedDoses: 10,
+  staleVitals: 15,
+  noVitals: 10,
+};
+
+export type TriageState = 'active' | 'snoozed' | 'reviewed';
+
+export interface TriageAlert {
+  severity: string;
+  status: string;
+  last_triggered_at: string;
+}
+
+export interface TriageStateRow {
+  snoozed_until: string | null;
+  reviewed_at: string | null;
+}
+
+export interface TriageInputs {
+  patientId: string;
+  healthId: string | null;
+  // Unresolved alerts only
+  alerts: TriageAlert[];
+  // Latest reading of any kind, flagged or not
+  latestReadingAt: string | null;
+  profile: ProfileRecord | null;
+  // Latest unflagged reading, and the latest one at or before the last visit
+  latestVitals: VitalsRecord | null;
+  lastVisitAt: string | null;
+  visitVitals: VitalsRecord | null;
+  adherence: AdherenceSummary | null;
+  // False when the patient's grant doesn't cover vital signs, so missing
+  // readings say nothing about the patient
+  vitalsShared: boolean;
+  state: TriageStateRow | null;
+}
+
+export interface TriageRisk {
+  category: 'Cardiovascular' | 'Diabetes';
+  level: RiskResult['riskLevel'];
+  percentage: number;
+}
+
+export interface TriageItem {
+  patientId: string;
+  healthId: string | null;
+  score: number;
+  reasons: string[];
+  unacknowledgedAlerts: number;
+  criticalAlerts: number;
+  acknowledgedAlerts: number;
+  risk: TriageRisk | null;
+  // Percentage points since the last completed visit
+  riskChange: number | null;
+  lastVisitAt: string | null;
+  missedDoses: number;
+  adherencePercentage: number | null;
+  daysSinceVitals: number | null;
+  state: TriageState;
+  snoozedUntil: string | null;
+  reviewedAt: string | null;
+}
+
+// The higher of the cardiovascular and diabetes risks; null without vitals,
+// since the engine would otherwise score population averages
+export function patientRisk(
+  profile: ProfileRecord | null,
+  vitals: VitalsRecord | null,
+  asOf: Date = new Date()
+): TriageRisk | null {
+  if (!vitals) return null;
+  const features = buildPatientFeatures(profile, vitals, asOf);
+  const cardiovascular = calculateCardiovascularRisk(features);
+  const diabetes = calculateDiabetesRisk(features);
+  return cardiovascular.riskPercentage >= diabetes.riskPercentage
+    ? { category: 'Cardiovascular', level: cardiovascular.riskLevel, percentage: cardiovascular.riskPercentage }
+    : { category: 'Diabetes', level: diabetes.riskLevel, percentage: diabetes.riskPercentage };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function buildTriageItem(inputs: TriageInputs, now = new Date()): TriageItem {
+  const unacknowledged = inputs.alerts.filter((a) => a.status === 'open');
+  const critical = unacknowledged.filter((a) => a.severity === 'critical').length;
+  const acknowledged = inputs.alerts.length - unacknowledged.length;
+
+  const risk = patientRisk(inputs.profile, inputs.latestVitals, now);
+  const visitRisk = inputs.lastVisitAt
+    ? patientRisk(inputs.profile, inputs.visitVitals, new Date(inputs.lastVisitAt))
+    : null;
+  const riskChange = risk && visitRisk ? Math.round((risk.percentage - visitRisk.percentage) * 10) / 10 : null;
+
+  const missedDoses = inputs.adherence?.missed ?? 0;
+  const daysSinceVitals = inputs.latestReadingAt
+    ? Math.floor((now.getTime() - Date.parse(inputs.latestReadingAt)) / DAY_MS)
+    : null;
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (unacknowledged.length > 0) {
+    reasons.push(
+      critical > 0
+        ? `${critical} critical alert${critical === 1 ? '' : 's'}${unacknowledged.length > critical ? ` and ${unacknowledged.length - critical} more` : ''} unacknowledged`
+        : `${unacknowledged.length} unacknowledged alert${unacknowledged.length === 1 ? '' : 's'}`
+    );
+  }
+  score += acknowledged * TRIAGE_WEIGHTS.acknowledgedAlert;
+
+  if (risk) {
+    score += risk.percentage * TRIAGE_WEIGHTS.risk;
+    if (risk.level === 'high' || risk.level === 'very-high') {
+      reasons.push(`${risk.category} risk ${risk.percentage}%`);
+    }
+  }
+  if (riskChange !== null && riskChange > 0) {
+    score += Math.min(riskChange, TRIAGE_WEIGHTS.maxRiskIncrease) * TRIAGE_WEIGHTS.riskIncrease;
+    reasons.push(`Risk up ${riskChange} points since last visit`);
+  }
+
+  if (missedDoses > 0) {
+    score += Math.min(missedDoses, TRIAGE_WEIGHTS.maxMissedDoses) * TRIAGE_WEIGHTS.missedDose;
+    reasons.push(`${missedDoses} missed dose${missedDoses === 1 ? '' : 's'} in ${ADHERENCE_WINDOW_DAYS} days`);
+  }
+
+  if (inputs.vitalsShared && daysSinceVitals === null) {
+    score += TRIAGE_WEIGHTS.noVitals;
+    reasons.push('No vitals recorded');
+  } else if (daysSinceVitals !== null && daysSinceVitals > STALE_VITALS_DAYS) {
+    score += TRIAGE_WEIGHTS.staleVitals;
+    reasons.push(`No vitals for ${daysSinceVitals} days`);
+  }
+
+  return {
+    patientId: inputs.patientId,
+    healthId: inputs.healthId,
+    score: Math.round(score),
+    reasons,
+    unacknowledgedAlerts: unacknowledged.length,
+    criticalAlerts: critical,
+    acknowledgedAlerts: acknowledged,
+    risk,
+    riskChange,
+    lastVisitAt: inputs.lastVisitAt,
+    missedDoses,
+    adherencePercentage: inputs.adherence?.percentage ?? null,
+    daysSinceVitals,
+    state: triageState(inputs, now),
+    snoozedUntil: inputs.state?.snoozed_until ?? null,
+    reviewedAt: inputs.state?.reviewed_at ?? null,
+  };
+}
+
+// A snooze lasts until its time. A review lasts until something new arrives:
+// an alert firing or a reading recorded after it.
+export function triageState(inputs: Pick<TriageInputs, 'alerts' | 'latestReadingAt' | 'state'>, now = new Date()): TriageState {
+  const { state } = inputs;
+  if (state?.snoozed_until && Date.parse(state.snoozed_until) > now.getTime()) return 'snoozed';
+  if (state?.reviewed_at) {
+    const reviewed = Date.parse(state.reviewed_at);
+    const newer = [inputs.latestReadingAt, ...inputs.alerts.map((a) => a.last_triggered_at)]
+      .some((at) => at !== null && Date.parse(at) > reviewed);
+    if (!newer) return 'reviewed';
+  }
+  return 'active';
+}
+
+// Unacknowledged critical alerts first, then any unacknowledged alerts, then
+// the highest score; ties go to whoever has gone longest without vitals
+export function rankTriageItems(items: TriageItem[]): TriageItem[] {
+  const staleness = (item: TriageItem) => item.daysSinceVitals ?? Number.MAX_SAFE_INTEGER;
+  return [...items].sort((a, b) =>
+    b.criticalAlerts - a.criticalAlerts ||
+    b.unacknowledgedAlerts - a.unacknowledgedAlerts ||
+    b.score - a.score ||
+    staleness(b) - staleness(a)
+  );
+}
@@ -0,0 +1,256 @@
+// ============================================================================
+// VITAL SIGN INGESTION
+// Shared parsing, per-reading validation and idempotent storage for readings
+// sent by paired IoT devices. A reading is identified by (device_id,
+// recorded_at), so retried uploads never duplicate rows in vital_signs.
+// ============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { PairedDevice } from "./deviceAuth.ts";
+import {
+  validateVitals,
+  type GlucoseUnit,
+  type TemperatureUnit,
+  type VitalMetric,
+  type WeightUnit,
+} from "./vitalValidation.ts";
+
+export const MAX_BATCH_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 500;
+
+export interface IoTVitalSignsPayload {
+  blood_pressure_systolic?: number;
+  blood_pressure_diastolic?: number;
+  heart_rate?: number;
+  blood_glucose?: number;
+  weight?: number;
+  temperature?: number;
+  oxygen_saturation?: number;
+  temperature_unit?: TemperatureUnit;
+  blood_glucose_unit?: GlucoseUnit;
+  weight_unit?: WeightUnit;
+  recorded_at?: string;
+  notes?: string;
+}
+
+export interface ValidatedReading {
+  values: Partial<Record<VitalMetric, number>>;
+  flags: string[];
+  recorded_at?: string;
+  notes?: string;
+}
+
+const UNIT_FIELDS: Record<string, readonly string[]> = {
+  temperature_unit: ['C', 'F'],
+  blood_glucose_unit: ['mg/dL', 'mmol/L'],
+  weight_unit: ['kg', 'lb'],
+};
+
+const METRIC_FIELDS = [
+  'blood_pressure_systolic',
+  'blood_pressure_diastolic',
+  'heart_rate',
+  'blood_glucose',
+  'weight',
+  'temperature',
+  'oxygen_saturation',
+] as const;
+
+export type ReadingStatus = 'inserted' | 'duplicate' | 'rejected';
+
+export interface ReadingResult {
+  index: number;
+  status: ReadingStatus;
+  recorded_at?: string;
+  id?: string;
+  errors?: string[];
+  flags?: string[];
+}
+
+export interface IngestionReport {
+  received: number;
+  inserted: number;
+  duplicates: number;
+  rejected: number;
+  results: ReadingResult[];
+}
+
+// Accepts a JSON array, an object with a `readings` array, or NDJSON (one
+// reading per line). Lines that fail to parse are reported per item rather
+// than failing the whole upload.
+export function parseBatchBody(rawBody: string, contentType: string | null): Array<unknown> {
+  const trimmed = rawBody.trim();
+  const isNdjson = contentType?.includes('ndjson') || contentType?.includes('jsonlines');
+
+  if (!isNdjson && (trimmed.startsWith('[') || trimmed.startsWith('{'))) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed;
+      if (Array.isArray(parsed?.readings)) return parsed.readings;
+      return [parsed];
+    } catch {
+      // Fall through: a body of several JSON objects separated by newlines is NDJSON
+    }
+  }
+
+  return trimmed
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .map((line) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return new SyntaxError('Line is not valid JSON');
+      }
+    });
+}
+
+// Structural checks (types, a usable timestamp) followed by the shared range
+// and unit validation. `requireTimestamp` is set for batches, where
+// recorded_at is the idempotency key and cannot default to the upload time.
+export function validateReading(
+  item: unknown,
+  requireTimestamp: boolean
+): { reading?: ValidatedReading; errors: string[] } {
+  if (item instanceof SyntaxError) return { errors: [item.message] };
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { errors: ['Reading must be a JSON object'] };
+  }
+
+  const candidate = item as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of METRIC_FIELDS) {
+    const value = candidate[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${field} must be a number`);
+    }
+  }
+
+  for (const [field, allowed] of Object.entries(UNIT_FIELDS)) {
+    const value = candidate[field];
+    if (value !== undefined && value !== null && !allowed.includes(value as string)) {
+      errors.push(`${field} must be one of ${allowed.join(', ')}`);
+    }
+  }
+
+  if (candidate.recorded_at === undefined || candidate.recorded_at === null) {
+    if (requireTimestamp) errors.push('recorded_at is required');
+  } else if (typeof candidate.recorded_at !== 'string' || Number.isNaN(Date.parse(candidate.recorded_at))) {
+    errors.push('recorded_at must be an ISO 8601 timestamp');
+  } else if (Date.parse(candidate.recorded_at) > Date.now() + 5 * 60 * 1000) {
+    errors.push('recorded_at is in the future');
+  }
+
+  if (candidate.notes !== undefined && candidate.notes !== null && typeof candidate.notes !== 'string') {
+    errors.push('notes must be a string');
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const payload = candidate as IoTVitalSignsPayload;
+  const validation = validateVitals(payload);
+  if (validation.errors.length > 0) return { errors: validation.errors };
+
+  return {
+    reading: {
+      values: validation.values,
+      flags: validation.flags,
+      recorded_at: payload.recorded_at,
+      notes: payload.notes,
+    },
+    errors: [],
+  };
+}
+
+function toVitalRow(device: PairedDevice, reading: ValidatedReading, recordedAt: string) {
+  return {
+    user_id: device.user_id,
+    device_id: device.device_id,
+    device_type: device.device_type,
+    source: 'iot',
+    blood_pressure_systolic: reading.values.blood_pressure_systolic,
+    blood_pressure_diastolic: reading.values.blood_pressure_diastolic,
+    heart_rate: reading.values.heart_rate,
+    blood_glucose: reading.values.blood_glucose,
+    weight: reading.values.weight,
+    temperature: reading.values.temperature,
+    oxygen_saturation: reading.values.oxygen_saturation,
+    is_flagged: reading.flags.length > 0,
+    flag_reasons: reading.flags.length > 0 ? reading.flags : null,
+    recorded_at: recordedAt,
+    notes: reading.notes || `Auto-recorded from ${device.name || device.device_type} (${device.device_id})`,
+  };
+}
+
+// Validates every item, drops in-batch duplicates and stores the rest, flagged
+// readings included, with ON CONFLICT (device_id, recorded_at) DO NOTHING.
+// Rows that already existed are reported as duplicates, so retries are safe.
+export async function ingestReadings(
+  supabase: SupabaseClient,
+  device: PairedDevice,
+  items: Array<unknown>,
+  options: { requireTimestamp: boolean }
+): Promise<IngestionReport> {
+  const results: ReadingResult[] = [];
+  const pending = new Map<string, { index: number; flags: string[]; row: ReturnType<typeof toVitalRow> }>();
+
+  items.forEach((item, index) => {
+    const { reading, errors } = validateReading(item, options.requireTimestamp);
+    if (!reading) {
+      results.push({ index, status: 'rejected', errors });
+      return;
+    }
+
+    const recordedAt = new Date(reading.recorded_at ?? Date.now()).toISOString();
+    if (pending.has(recordedAt)) {
+      results.push({ index, status: 'duplicate', recorded_at: recordedAt });
+      return;
+    }
+    pending.set(recordedAt, { index, flags: reading.flags, row: toVitalRow(device, reading, recordedAt) });
+  });
+
+  const entries = Array.from(pending.entries());
+  for (let start = 0; start < entries.length; start += INSERT_CHUNK_SIZE) {
+    const chunk = entries.slice(start, start + INSERT_CHUNK_SIZE);
+
+    const { data, error } = await supabase
+      .from('vital_signs')
+      .upsert(chunk.map(([, entry]) => entry.row), {
+        onConflict: 'device_id,recorded_at',
+        ignoreDuplicates: true,
+      })
+      .select('id, recorded_at');
+
+    if (error) {
+      console.error('[vital-ingestion] Error storing readings:', error);
+      for (const [recordedAt, entry] of chunk) {
+        results.push({ index: entry.index, status: 'rejected', recorded_at: recordedAt, errors: ['Failed to store reading'] });
+      }
+      continue;
+    }
+
+    const insertedIds = new Map<string, string>();
+    for (const row of data ?? []) {
+      insertedIds.set(new Date(row.recorded_at).toISOString(), row.id);
+    }
+
+    for (const [recordedAt, entry] of chunk) {
+      const id = insertedIds.get(recordedAt);
+      results.push(id
+        ? { index: entry.index, status: 'inserted', recorded_at: recordedAt, id, flags: entry.flags.length > 0 ? entry.flags : undefined }
+        : { index: entry.index, status: 'duplicate', recorded_at: recordedAt });
+    }
+  }
+
+  results.sort((a, b) => a.index - b.index);
+
+  return {
+    received: items.length,
+    inserted: results.filter((r) => r.status === 'inserted').length,
+    duplicates: results.filter((r) => r.status === 'duplicate').length,
+    rejected: results.filter((r) => r.status === 'rejected').length,
+    results,
+  };
+}
@@ -0,0 +1,174 @@
+// ============================================================================
+// VITAL SIGN VALIDATION AND UNIT NORMALIZATION
+// Runtime-agnostic (no imports): used by iot-webhook and re-exported to the
+// browser from src/lib/vitalValidation.ts for VitalSignsForm.
+//
+// Canonical storage units: mmHg, bpm, mg/dL, kg, °C, %.
+// Each metric has two ranges:
+//   - possible:  outside it the value cannot be a real measurement -> rejected
+//   - plausible: outside it the value is possible but suspicious   -> flagged
+// Flagged readings are stored with is_flagged = true and excluded from the
+// prediction functions. The validate_vital_signs trigger applies the same
+// ranges when a reading is stored and sets the flag itself; keep the two in
+// step.
+// ============================================================================
+
+export type VitalMetric =
+  | 'blood_pressure_systolic'
+  | 'blood_pressure_diastolic'
+  | 'heart_rate'
+  | 'blood_glucose'
+  | 'weight'
+  | 'temperature'
+  | 'oxygen_saturation';
+
+export type TemperatureUnit = 'C' | 'F';
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+export type WeightUnit = 'kg' | 'lb';
+
+export interface VitalRange {
+  label: string;
+  unit: string;
+  possible: { min: number; max: number };
+  plausible: { min: number; max: number };
+}
+
+export const VITAL_RANGES: Record<VitalMetric, VitalRange> = {
+  blood_pressure_systolic: { label: 'Systolic BP', unit: 'mmHg', possible: { min: 40, max: 300 }, plausible: { min: 70, max: 200 } },
+  blood_pressure_diastolic: { label: 'Diastolic BP', unit: 'mmHg', possible: { min: 20, max: 200 }, plausible: { min: 40, max: 130 } },
+  heart_rate: { label: 'Heart rate', unit: 'bpm', possible: { min: 20, max: 300 }, plausible: { min: 40, max: 180 } },
+  blood_glucose: { label: 'Blood glucose', unit: 'mg/dL', possible: { min: 10, max: 1500 }, plausible: { min: 40, max: 400 } },
+  weight: { label: 'Weight', unit: 'kg', possible: { min: 1, max: 500 }, plausible: { min: 25, max: 250 } },
+  temperature: { label: 'Temperature', unit: '°C', possible: { min: 25, max: 45 }, plausible: { min: 34, max: 41 } },
+  oxygen_saturation: { label: 'SpO2', unit: '%', possible: { min: 50, max: 100 }, plausible: { min: 85, max: 100 } },
+};
+
+export const VITAL_METRICS = Object.keys(VITAL_RANGES) as VitalMetric[];
+
+export type VitalInput = Partial<Record<VitalMetric, number | null>> & {
+  temperature_unit?: TemperatureUnit;
+  blood_glucose_unit?: GlucoseUnit;
+  weight_unit?: WeightUnit;
+};
+
+export interface VitalValidationResult {
+  // Values converted to canonical units; only metrics that were provided
+  values: Partial<Record<VitalMetric, number>>;
+  // Rejection reasons. A reading with any error must not be stored.
+  errors: string[];
+  // Reasons the reading is suspicious but still stored (is_flagged)
+  flags: string[];
+  // Human-readable notes about unit conversions that were applied
+  conversions: string[];
+}
+
+const GLUCOSE_MMOL_TO_MGDL = 18.016;
+const LB_TO_KG = 0.45359237;
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export function fahrenheitToCelsius(value: number): number {
+  return round(((value - 32) * 5) / 9, 1);
+}
+
+export function celsiusToFahrenheit(value: number): number {
+  return round((value * 9) / 5 + 32, 1);
+}
+
+export function mmolToMgdl(value: number): number {
+  return round(value * GLUCOSE_MMOL_TO_MGDL, 0);
+}
+
+export function poundsToKilograms(value: number): number {
+  return round(value * LB_TO_KG, 1);
+}
+
+// Body temperature in °C never exceeds 45 and in °F is never below 77, so a
+// value above 50 without an explicit unit is Fahrenheit.
+function normalizeTemperature(value: number, unit: TemperatureUnit | undefined, conversions: string[]): number {
+  if (unit === 'F' || (!unit && value > 50)) {
+    const celsius = fahrenheitToCelsius(value);
+    conversions.push(`Temperature ${value}°F converted to ${celsius}°C${unit ? '' : ' (unit detected)'}`);
+    return celsius;
+  }
+  return value;
+}
+
+// mmol/L readings top out around 35; below that, an unlabelled value is far
+// more likely mmol/L than a life-threatening mg/dL hypoglycaemia.
+function normalizeGlucose(value: number, unit: GlucoseUnit | undefined, conversions: string[], flags: string[]): number {
+  if (unit === 'mmol/L' || (!unit && value < 35)) {
+    const mgdl = mmolToMgdl(value);
+    conversions.push(`Blood glucose ${value} mmol/L converted to ${mgdl} mg/dL${unit ? '' : ' (unit detected)'}`);
+    if (!unit) flags.push('Blood glucose unit was inferred as mmol/L');
+    return mgdl;
+  }
+  return value;
+}
+
+// Pounds and kilograms overlap across the whole adult range, so weight is
+// only converted when the unit is given explicitly.
+function normalizeWeight(value: number, unit: WeightUnit | undefined, conversions: string[]): number {
+  if (unit === 'lb') {
+    const kg = poundsToKilograms(value);
+    conversions.push(`Weight ${value} lb converted to ${kg} kg`);
+    return kg;
+  }
+  return value;
+}
+
+export function validateVitals(input: VitalInput): VitalValidationResult {
+  const values: Partial<Record<VitalMetric, number>> = {};
+  const errors: string[] = [];
+  const flags: string[] = [];
+  const conversions: string[] = [];
+
+  for (const metric of VITAL_METRICS) {
+    const raw = input[metric];
+    if (raw === undefined || raw === null) continue;
+
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+      errors.push(`${VITAL_RANGES[metric].label} must be a number`);
+      continue;
+    }
+
+    let value = raw;
+    if (metric === 'temperature') value = normalizeTemperature(raw, input.temperature_unit, conversions);
+    if (metric === 'blood_glucose') value = normalizeGlucose(raw, input.blood_glucose_unit, conversions, flags);
+    if (metric === 'weight') value = normalizeWeight(raw, input.weight_unit, conversions);
+
+    const range = VITAL_RANGES[metric];
+    if (value < range.possible.min || value > range.possible.max) {
+      errors.push(
+        `${range.label} ${value} ${range.unit} is outside the possible range (${range.possible.min}-${range.possible.max} ${range.unit})`
+      );
+      continue;
+    }
+
+    if (value < range.plausible.min || value > range.plausible.max) {
+      flags.push(`${range.label} ${value} ${range.unit} is outside the expected range (${range.plausible.min}-${range.plausible.max} ${range.unit})`);
+    }
+
+    values[metric] = value;
+  }
+
+  // Cross-field checks on blood pressure
+  const systolic = values.blood_pressure_systolic;
+  const diastolic = values.blood_pressure_diastolic;
+  if (systolic !== undefined && diastolic !== undefined) {
+    if (diastolic >= systolic) {
+      errors.push(`Diastolic BP (${diastolic}) must be lower than systolic BP (${systolic})`);
+    } else if (systolic - diastolic < 15) {
+      flags.push(`Pulse pressure of ${systolic - diastolic} mmHg is unusually narrow`);
+    }
+  }
+
+  if (errors.length === 0 && Object.keys(values).length === 0) {
+    errors.push('At least one vital sign measurement is required');
+  }
+
+  return { values, errors, flags, conversions };
+}
@@ -0,0 +1,154 @@
+// ============================================================================
+// WEB PUSH
+// Runtime-agnostic (WebCrypto only): VAPID authentication (RFC 8292) and
+// aes128gcm payload encryption (RFC 8291), enough to send to the endpoints
+// browsers hand out from PushManager.subscribe(). VAPID keys are the
+// base64url raw P-256 public key (65 bytes) and private scalar (32 bytes).
+// ============================================================================
+
+export interface WebPushSubscription {
+  endpoint: string;
+  // Browser's P-256 public key and auth secret, base64url
+  p256dh: string;
+  auth: string;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  // mailto: or https: contact for the push service operator
+  subject: string;
+}
+
+export interface WebPushOptions {
+  ttlSeconds?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+}
+
+export type WebPushResult = { ok: true; status: number } | { ok: false; status: number; error: string };
+
+const encoder = new TextEncoder();
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+// Encrypts one record with a fresh ECDH key pair and salt (RFC 8291 section 3)
+export async function encryptPushPayload(payload: Uint8Array, subscription: WebPushSubscription): Promise<Uint8Array> {
+  const clientPublic = base64UrlDecode(subscription.p256dh);
+  const authSecret = base64UrlDecode(subscription.auth);
+
+  const clientKey = await crypto.subtle.importKey('raw', clientPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const serverKeys = (await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, [
+    'deriveBits',
+  ])) as CryptoKeyPair;
+  const serverPublic = new Uint8Array(await crypto.subtle.exportKey('raw', serverKeys.publicKey));
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: clientKey }, serverKeys.privateKey, 256)
+  );
+
+  const keyInfo = concat(encoder.encode('WebPush: info\0'), clientPublic, serverPublic);
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  // Single record: payload followed by the last-record delimiter
+  const plaintext = concat(payload, new Uint8Array([2]));
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Push payload too large');
+  }
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, plaintext));
+
+  const header = new Uint8Array(16 + 4 + 1 + serverPublic.length);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = serverPublic.length;
+  header.set(serverPublic, 21);
+  return concat(header, ciphertext);
+}
+
+// Authorization header value for an endpoint (RFC 8292 section 3)
+export async function vapidAuthorization(endpoint: string, vapid: VapidKeys, now = new Date()): Promise<string> {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const privateKey = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64UrlEncode(publicKey.slice(1, 33)),
+      y: base64UrlEncode(publicKey.slice(33, 65)),
+      ext: true,
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  const json = (value: unknown) => base64UrlEncode(encoder.encode(JSON.stringify(value)));
+  const unsigned = `${json({ typ: 'JWT', alg: 'ES256' })}.${json({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  })}`;
+  // WebCrypto ECDSA signatures are already in the raw r || s form JWS uses
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, encoder.encode(unsigned))
+  );
+
+  return `vapid t=${unsigned}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  vapid: VapidKeys,
+  options: WebPushOptions = {}
+): Promise<WebPushResult> {
+  const body = await encryptPushPayload(encoder.encode(payload), subscription);
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: await vapidAuthorization(subscription.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttlSeconds ?? 24 * 60 * 60),
+      Urgency: options.urgency ?? 'normal',
+    },
+    body,
+  });
+
+  if (response.ok) {
+    return { ok: true, status: response.status };
+  }
+  return { ok: false, status: response.status, error: (await response.text()) || response.statusText };
+}
@@ -0,0 +1,132 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { FEED_LOOKBACK_DAYS, FEED_TOKEN_PATTERN, hashFeedToken } from '../_shared/calendarFeed.ts';
+import { appointmentToIcsEvent, buildCalendar, type IcsAppointment, type IcsEvent } from '../_shared/ics.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface FeedAppointment extends IcsAppointment {
+  // NULL once the patient's account is erased (the appointment is anonymised)
+  patient_id: string | null;
+  doctors: { full_name: string; email: string | null; clinic_name: string | null; clinic_address: string | null } | null;
+}
+
+const APPOINTMENT_FIELDS =
+  'id, patient_id, scheduled_time, ends_at, status, type, reason, video_room_url, ics_sequence, updated_at, doctors (full_name, email, clinic_name, clinic_address)';
+
+// GET /calendar-feed?token=...  ->  text/calendar
+// Calendar apps subscribe with this URL and can't send a JWT, so the token is
+// the credential: it is matched by hash against an active calendar_feeds row,
+// and everything below is scoped to that row's user with the service role.
+// The feed covers the user's appointments as a patient and, for doctors, the
+// ones they hold, including recent cancellations so they reach subscribers.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const notFound = () =>
+    new Response(JSON.stringify({ error: 'Calendar feed not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const token = new URL(req.url).searchParams.get('token') ?? '';
+    if (!FEED_TOKEN_PATTERN.test(token)) {
+      return notFound();
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('id, user_id')
+      .eq('token_hash', await hashFeedToken(token))
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed) {
+      // Revoked and unknown tokens look the same from outside
+      return notFound();
+    }
+
+    const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: doctor } = await supabase.from('doctors').select('id').eq('user_id', feed.user_id).maybeSingle();
+
+    const [asPatient, asDoctor] = await Promise.all([
+      supabase
+        .from('appointments')
+        .select(APPOINTMENT_FIELDS)
+        .eq('patient_id', feed.user_id)
+        .gte('ends_at', since)
+        .order('scheduled_time', { ascending: true }),
+      doctor
+        ? supabase
+            .from('appointments')
+            .select(APPOINTMENT_FIELDS)
+            .eq('doctor_id', doctor.id)
+            .gte('ends_at', since)
+            .order('scheduled_time', { ascending: true })
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    const failed = [asPatient, asDoctor].find((r) => r.error);
+    if (failed) throw failed.error;
+
+    // Untyped client: the doctors embed is a single row (many-to-one)
+    const patientAppointments = (asPatient.data ?? []) as unknown as FeedAppointment[];
+    const doctorAppointments = (asDoctor.data ?? []) as unknown as FeedAppointment[];
+
+    // Doctors see patients by Health ID, as in the app; no names or visit
+    // reasons leave for third-party calendars
+    const patientIds = [...new Set(doctorAppointments.flatMap((a) => (a.patient_id ? [a.patient_id] : [])))];
+    const { data: profiles } = patientIds.length
+      ? await supabase.from('health_profiles').select('user_id, health_id').in('user_id', patientIds)
+      : { data: [] };
+    const healthIdOf = new Map((profiles ?? []).map((p) => [p.user_id, p.health_id]));
+
+    const events: IcsEvent[] = [
+      ...patientAppointments.map((appointment) =>
+        appointmentToIcsEvent(appointment, {
+          viewer: 'patient',
+          doctorName: appointment.doctors?.full_name,
+          doctorEmail: appointment.doctors?.email,
+          clinicName: appointment.doctors?.clinic_name,
+          clinicAddress: appointment.doctors?.clinic_address,
+        })
+      ),
+      ...doctorAppointments.map((appointment) =>
+        appointmentToIcsEvent(appointment, {
+          viewer: 'doctor',
+          clinicName: appointment.doctors?.clinic_name,
+          clinicAddress: appointment.doctors?.clinic_address,
+          patientLabel: appointment.patient_id ? healthIdOf.get(appointment.patient_id) : null,
+        })
+      ),
+    ];
+
+    await supabase.from('calendar_feeds').update({ last_accessed_at: new Date().toISOString() }).eq('id', feed.id);
+
+    console.log(`[calendar-feed] Served ${events.length} events for feed ${feed.id}`);
+
+    return new Response(buildCalendar(events, { name: 'HealthTwin appointments', method: 'PUBLISH' }), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('[calendar-feed] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,109 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { authenticateUser } from '../_shared/auth.ts';
+import { buildExportArchive, EXPORT_TABLES, omitSecrets, type ExportRow, type ExportTable } from '../_shared/personalData.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// Parent ids per .in() filter, to keep URLs short
+const PARENT_CHUNK = 200;
+
+async function loadTable(
+  supabase: SupabaseClient,
+  spec: ExportTable,
+  userId: string,
+  loaded: Map<string, ExportRow[]>
+): Promise<ExportRow[]> {
+  if (spec.parent) {
+    const parentIds = (loaded.get(spec.parent.table) ?? []).map((row) => row.id as string);
+    const rows: ExportRow[] = [];
+    for (let start = 0; start < parentIds.length; start += PARENT_CHUNK) {
+      const { data, error } = await supabase
+        .from(spec.table)
+        .select('*')
+        .in(spec.parent.column, parentIds.slice(start, start + PARENT_CHUNK))
+        .order(spec.key ?? 'id');
+      if (error) throw error;
+      rows.push(...(data ?? []));
+    }
+    return rows;
+  }
+
+  const rows: ExportRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(spec.table)
+      .select('*')
+      .or(spec.owners!.map((column) => `${column}.eq.${userId}`).join(','))
+      .order(spec.key ?? 'id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Downloads everything held about the signed-in patient as a zip of JSON and
+// CSV files (see _shared/personalData.ts). The client from authenticateUser
+// carries the caller's JWT, so RLS limits every query to their rows.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticateUser(req, { allowedRoles: ['patient'] });
+    if (!auth.ok) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { user, supabase } = auth;
+    const exportedAt = new Date();
+
+    const tables = new Map<string, ExportRow[]>();
+    for (const spec of EXPORT_TABLES) {
+      try {
+        tables.set(spec.table, omitSecrets(await loadTable(supabase, spec, user.id, tables), spec.omit));
+      } catch (error) {
+        console.error(`[data-export] Error loading ${spec.table}:`, error);
+        throw new Error('Failed to load your records');
+      }
+    }
+
+    const { error: logError } = await supabase.rpc('record_data_access', {
+      _patient_ids: [user.id],
+      _source: 'data-export',
+      _categories: [
+        'profile', 'vitals', 'medications', 'allergies', 'menstrual', 'pregnancy', 'emergency_contacts', 'appointments',
+      ],
+    });
+    if (logError) console.error('[data-export] Failed to record data access:', logError);
+
+    const archive = buildExportArchive(tables, exportedAt);
+    const records = [...tables.values()].reduce((sum, rows) => sum + rows.length, 0);
+    console.log(`[data-export] Exported ${records} records from ${tables.size} tables for user ${user.id}`);
+
+    // octet-stream, so supabase-js hands the client a Blob
+    return new Response(archive, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="personal-data-${exportedAt.toISOString().slice(0, 10)}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('[data-export] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
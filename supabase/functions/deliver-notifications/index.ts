@@ -0,0 +1,255 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { bearerToken } from '../_shared/auth.ts';
+import {
+  checkRateLimit,
+  DELIVERY_CHANNELS,
+  isValidEmail,
+  normalizePhoneNumber,
+  recipientKey,
+  renderMessage,
+  retryDelayMs,
+  type DeliveryChannel,
+  type DeliveryResult,
+  type DeliveryRow,
+} from '../_shared/delivery.ts';
+import { missingTransportEnv, transportsFromEnv } from '../_shared/transports.ts';
+import type { WebPushSubscription } from '../_shared/webPush.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 50;
+
+interface SentRow extends Pick<DeliveryRow, 'user_id' | 'emergency_contact_id' | 'channel'> {
+  sent_at: string;
+}
+
+interface PushSubscriptionRow extends WebPushSubscription {
+  id: string;
+  user_id: string;
+}
+
+type Outcome = 'sent' | 'retry' | 'failed' | 'skipped' | 'deferred';
+
+const env = (name: string) => Deno.env.get(name);
+const outbox = env('DELIVERY_OUTBOX_FILE');
+const transports = transportsFromEnv(
+  env,
+  outbox
+    ? (line) => Deno.writeTextFile(outbox, `${line}\n`, { append: true })
+    : (line) => console.log('[deliver-notifications] stub:', line)
+);
+
+const notConfigured = (channel: DeliveryChannel) =>
+  `No ${channel} provider configured (missing ${missingTransportEnv(env, channel).join(', ')})`;
+
+for (const channel of DELIVERY_CHANNELS) {
+  if (!transports[channel]) {
+    console.warn(
+      `[deliver-notifications] ${notConfigured(channel)}; ${channel} deliveries will be marked failed. ` +
+        'Set NOTIFY_TRANSPORT=stub to log messages instead of sending them.'
+    );
+  }
+}
+
+// POST /deliver-notifications
+// Called by pg_cron every minute with the service role key. Claims a batch
+// of due rows from notification_deliveries, resolves where each one goes,
+// applies rate limits and sends it through the channel's transport (see
+// _shared/transports.ts for provider configuration). Failures are retried
+// with backoff until MAX_DELIVERY_ATTEMPTS.
+//
+// Deliveries on a channel without provider keys fail with the missing
+// settings in last_error. With NOTIFY_TRANSPORT=stub, messages go to the
+// stub transport instead: the console, or DELIVERY_OUTBOX_FILE when set.
+// APP_URL is used to turn in-app links into absolute URLs.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (bearerToken(req) !== serviceRoleKey) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+    const appUrl = Deno.env.get('APP_URL') ?? null;
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_notification_deliveries', {
+      _limit: BATCH_SIZE,
+    });
+    if (claimError) throw claimError;
+
+    const deliveries = (claimed ?? []) as DeliveryRow[];
+    if (deliveries.length === 0) {
+      return new Response(JSON.stringify({ success: true, processed: 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const now = new Date();
+    const userIds = [...new Set(deliveries.map((d) => d.user_id))];
+
+    const [recent, preferences, subscriptions] = await Promise.all([
+      supabase
+        .from('notification_deliveries')
+        .select('user_id, emergency_contact_id, channel, sent_at')
+        .eq('status', 'sent')
+        .gte('sent_at', new Date(now.getTime() - 60 * 60 * 1000).toISOString())
+        .in('user_id', userIds),
+      supabase.from('notification_preferences').select('user_id, sms_phone').in('user_id', userIds),
+      supabase.from('push_subscriptions').select('id, user_id, endpoint, p256dh, auth').in('user_id', userIds),
+    ]);
+
+    const failed = [recent, preferences, subscriptions].find((r) => r.error);
+    if (failed) throw failed.error;
+
+    const sentAt = new Map<string, Date[]>();
+    for (const row of (recent.data ?? []) as SentRow[]) {
+      const key = recipientKey(row);
+      sentAt.set(key, [...(sentAt.get(key) ?? []), new Date(row.sent_at)]);
+    }
+    const smsPhoneOf = new Map((preferences.data ?? []).map((p) => [p.user_id, p.sms_phone as string | null]));
+    const pushSubscriptionsOf = new Map<string, PushSubscriptionRow[]>();
+    for (const subscription of (subscriptions.data ?? []) as PushSubscriptionRow[]) {
+      pushSubscriptionsOf.set(subscription.user_id, [
+        ...(pushSubscriptionsOf.get(subscription.user_id) ?? []),
+        subscription,
+      ]);
+    }
+
+    const emailCache = new Map<string, string | null>();
+    const accountEmail = async (userId: string) => {
+      if (!emailCache.has(userId)) {
+        const { data } = await supabase.auth.admin.getUserById(userId);
+        emailCache.set(userId, data?.user?.email ?? null);
+      }
+      return emailCache.get(userId) ?? null;
+    };
+
+    const update = async (id: string, fields: Record<string, unknown>) => {
+      const { error } = await supabase.from('notification_deliveries').update(fields).eq('id', id);
+      if (error) console.error(`[deliver-notifications] Failed to update delivery ${id}:`, error);
+    };
+
+    const deliver = async (delivery: DeliveryRow): Promise<Outcome> => {
+      const key = recipientKey(delivery);
+      const rateLimit = checkRateLimit(delivery, sentAt.get(key) ?? [], now);
+      if (!rateLimit.allowed) {
+        // Held back without using up an attempt
+        await update(delivery.id, {
+          status: 'pending',
+          next_attempt_at: rateLimit.retryAt.toISOString(),
+          last_error: 'Rate limited',
+        });
+        return 'deferred';
+      }
+
+      const skip = async (reason: string): Promise<Outcome> => {
+        await update(delivery.id, { status: 'skipped', last_error: reason });
+        return 'skipped';
+      };
+
+      const transport = transports[delivery.channel];
+      if (!transport) {
+        await update(delivery.id, {
+          status: 'failed',
+          attempts: delivery.attempts + 1,
+          last_error: notConfigured(delivery.channel),
+        });
+        return 'failed';
+      }
+
+      // Where the message goes: emergency contacts carry their own address,
+      // account holders are looked up now so changes since queueing apply
+      let destination: string | null = null;
+      let targets: PushSubscriptionRow[] = [];
+      if (delivery.channel === 'email') {
+        destination = delivery.emergency_contact_id ? delivery.destination : await accountEmail(delivery.user_id);
+        if (!destination || !isValidEmail(destination)) return skip('No valid email address');
+      } else if (delivery.channel === 'sms') {
+        const phone = delivery.emergency_contact_id ? delivery.destination : smsPhoneOf.get(delivery.user_id);
+        destination = phone ? normalizePhoneNumber(phone) : null;
+        if (!destination) return skip('No phone number in international format (e.g. +14155550123)');
+      } else {
+        targets = pushSubscriptionsOf.get(delivery.user_id) ?? [];
+        if (targets.length === 0) return skip('No devices subscribed to push notifications');
+        destination = `${targets.length} device${targets.length === 1 ? '' : 's'}`;
+      }
+
+      let result: DeliveryResult;
+      if (delivery.channel === 'push') {
+        // Sent to every subscribed device; delivered if any of them took it
+        const results = await Promise.all(
+          targets.map(async (target) => {
+            const outcome = await transport.send({
+              ...renderMessage(delivery, target.endpoint, appUrl),
+              pushSubscription: target,
+            });
+            if (outcome.ok) {
+              await supabase.from('push_subscriptions').update({ last_used_at: now.toISOString() }).eq('id', target.id);
+            } else if (outcome.gone) {
+              await supabase.from('push_subscriptions').delete().eq('id', target.id);
+            }
+            return outcome;
+          })
+        );
+        result = results.find((r) => r.ok) ?? results.find((r) => !r.ok && r.retryable) ?? results[0];
+      } else {
+        result = await transport.send(renderMessage(delivery, destination, appUrl));
+      }
+
+      const attempts = delivery.attempts + 1;
+      if (result.ok) {
+        await update(delivery.id, {
+          status: 'sent',
+          attempts,
+          destination,
+          provider: transport.provider,
+          provider_message_id: result.providerMessageId,
+          sent_at: new Date().toISOString(),
+          last_error: null,
+        });
+        sentAt.set(key, [...(sentAt.get(key) ?? []), new Date()]);
+        return 'sent';
+      }
+
+      const delay = result.retryable ? retryDelayMs(attempts) : null;
+      await update(delivery.id, {
+        status: delay === null ? 'failed' : 'pending',
+        attempts,
+        destination,
+        provider: transport.provider,
+        last_error: result.error,
+        ...(delay === null ? {} : { next_attempt_at: new Date(Date.now() + delay).toISOString() }),
+      });
+      return delay === null ? 'failed' : 'retry';
+    };
+
+    // One at a time, so rate limits see what this run has already sent
+    const counts: Record<Outcome, number> = { sent: 0, retry: 0, failed: 0, skipped: 0, deferred: 0 };
+    for (const delivery of deliveries) {
+      counts[await deliver(delivery)]++;
+    }
+
+    console.log(`[deliver-notifications] Processed ${deliveries.length} deliveries`, counts);
+
+    return new Response(JSON.stringify({ success: true, processed: deliveries.length, counts }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[deliver-notifications] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
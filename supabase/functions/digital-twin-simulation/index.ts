@@ -1,11 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { authenticateUser } from "../_shared/auth.ts";
  import {
    calculateCardiovascularRisk,
    calculateDiabetesRisk,
    calculateGeneralHealthScore,
    buildPatientFeatures,
  } from "../_shared/riskEngine.ts";
+import { calculateAdherence, type AdherenceSummary } from "../_shared/medicationSchedule.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -37,6 +38,7 @@ interface TreatmentOption {
   expectedOutcome: number;
   riskReduction: number;
   adherenceRequired: number;
+  expectedAdherence: number;
   sideEffectRisk: number;
   qValue: number;
   recommended: boolean;
@@ -118,11 +120,18 @@ function monteCarloSimulation(
   return { mean, lower, upper, confidence };
 }
 
-// Reinforcement Learning-inspired treatment optimization using Q-learning concepts
+// Below this many due doses the logged adherence is too noisy to trust
+const MIN_DOSES_FOR_ADHERENCE = 7;
+
+// Reinforcement Learning-inspired treatment optimization using Q-learning concepts.
+// When the patient has enough logged doses, their real medication adherence
+// anchors each action's adherence probability; the per-action difficulty
+// only shifts it relative to the average action.
 function optimizeTreatment(
   currentRisks: { cardiovascular: number; diabetes: number; general: number },
   patientProfile: any,
-  currentMedications: any[]
+  currentMedications: any[],
+  adherence: AdherenceSummary | null
 ): TreatmentOption[] {
   const treatments: TreatmentOption[] = [];
   
@@ -202,6 +211,13 @@ function optimizeTreatment(
     },
   ];
   
+  const observedAdherence =
+    adherence && adherence.percentage !== null && adherence.due >= MIN_DOSES_FOR_ADHERENCE
+      ? adherence.percentage / 100
+      : null;
+  const meanDifficulty =
+    treatmentActions.reduce((sum, a) => sum + a.adherenceDifficulty, 0) / treatmentActions.length;
+
   // Calculate Q-values for each treatment using Bellman equation approximation
   for (const action of treatmentActions) {
     // State value based on current risks
@@ -214,7 +230,9 @@ function optimizeTreatment(
     const gamma = 0.9;
     
     // Expected future reward based on adherence probability
-    const adherenceProb = 1 - action.adherenceDifficulty;
+    const adherenceProb = observedAdherence === null
+      ? 1 - action.adherenceDifficulty
+      : Math.min(0.99, Math.max(0.05, observedAdherence - (action.adherenceDifficulty - meanDifficulty)));
     const futureReward = immediateReward * gamma * adherenceProb;
     
     // Penalty for side effects
@@ -233,6 +251,7 @@ function optimizeTreatment(
       expectedOutcome: Math.round(Math.max(0, avgRisk - riskReduction)),
       riskReduction: Math.round(riskReduction * 10) / 10,
       adherenceRequired: Math.round(action.adherenceDifficulty * 100),
+      expectedAdherence: Math.round(adherenceProb * 100),
       sideEffectRisk: Math.round(action.sideEffects * 100),
       qValue: Math.round(qValue * 100) / 100,
       recommended: false,
@@ -293,38 +312,33 @@ serve(async (req) => {
   }
 
   try {
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader?.startsWith("Bearer ")) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
+    const auth = await authenticateUser(req, { allowedRoles: ["patient"] });
+    if (!auth.ok) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    const token = authHeader.replace("Bearer ", "");
-    const payloadPart = token.split(".")[1];
-    const decodedPayload = JSON.parse(atob(payloadPart.replace(/-/g, "+").replace(/_/g, "/")));
-    const userId = decodedPayload.sub as string;
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    const supabaseClient = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-    );
+    // Queries run with the caller's JWT, so RLS limits them to their own rows
+    const userId = auth.user.id;
+    const supabaseClient = auth.supabase;
 
     // Fetch comprehensive patient data
-    const [profileData, vitalsData, medicationsData] = await Promise.all([
+    const adherenceSince = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const [profileData, vitalsData, medicationsData, schedulesData, dosesData] = await Promise.all([
       supabaseClient.from("health_profiles").select("*").eq("user_id", userId).single(),
-      supabaseClient.from("vital_signs").select("*").eq("user_id", userId).order("recorded_at", { ascending: false }).limit(60),
+      supabaseClient.from("vital_signs").select("*").eq("user_id", userId).eq("is_flagged", false).order("recorded_at", { ascending: false }).limit(60),
       supabaseClient.from("medications").select("*").eq("user_id", userId),
+      supabaseClient.from("medication_schedules").select("*").eq("user_id", userId),
+      supabaseClient.from("medication_doses").select("*").eq("user_id", userId).gte("scheduled_for", adherenceSince.toISOString()),
     ]);
 
+    // Real adherence over the last 30 days of scheduled doses
+    const adherence = (schedulesData.data?.length ?? 0) > 0
+      ? calculateAdherence(schedulesData.data ?? [], dosesData.data ?? [], adherenceSince)
+      : null;
+
     const vitals: VitalDataPoint[] = (vitalsData.data || []).map((v: any) => ({
       timestamp: v.recorded_at,
       systolic: v.blood_pressure_systolic,
@@ -369,8 +383,9 @@ serve(async (req) => {
       ),
     };
 
-     // Calculate current risk levels using unified engine
-     const patientFeatures = buildPatientFeatures(profileData.data, vitals[0]);
+     // Calculate current risk levels using unified engine (from the raw row, so
+     // the features match health-predictions and xai-predictions exactly)
+     const patientFeatures = buildPatientFeatures(profileData.data, vitalsData.data?.[0] ?? null);
      const cvResult = calculateCardiovascularRisk(patientFeatures);
      const diabetesResult = calculateDiabetesRisk(patientFeatures);
      const generalResult = calculateGeneralHealthScore(patientFeatures);
@@ -385,7 +400,8 @@ serve(async (req) => {
     const treatments = optimizeTreatment(
       currentRisks,
       profileData.data,
-      medicationsData.data || []
+      medicationsData.data || [],
+      adherence
     );
 
     // Disease progression simulation
@@ -498,7 +514,10 @@ Be scientifically rigorous but accessible.`;
       currentRisks,
       treatmentOptimization: {
         treatments,
-        policyExplanation: "Treatments ranked by Q-value using discounted expected rewards with adherence and side-effect penalties",
+        policyExplanation: adherence && adherence.percentage !== null && adherence.due >= MIN_DOSES_FOR_ADHERENCE
+          ? `Treatments ranked by Q-value using discounted expected rewards with side-effect penalties. Adherence probabilities are based on your logged medication adherence of ${adherence.percentage}% over the last 30 days.`
+          : "Treatments ranked by Q-value using discounted expected rewards with adherence and side-effect penalties. Log your doses to personalize adherence estimates.",
+        observedAdherence: adherence,
       },
       diseaseTrajectories,
       uncertaintyMetrics: {
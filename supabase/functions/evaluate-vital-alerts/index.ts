@@ -0,0 +1,66 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { bearerToken } from '../_shared/auth.ts';
+import { evaluateVitalAlerts } from '../_shared/alertEvaluation.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Matches the largest iot-webhook batch
+const MAX_IDS = 1000;
+
+// POST /evaluate-vital-alerts { vital_sign_ids: [...] }
+// Called with the service role key by the statement trigger on vital_signs
+// (see the vital alert rules migration), so readings from every source are
+// checked against the patient's alert rules as soon as they are stored.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (bearerToken(req) !== serviceRoleKey) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    const ids = Array.isArray(body?.vital_sign_ids)
+      ? (body.vital_sign_ids as unknown[]).filter((id): id is string => typeof id === 'string')
+      : [];
+    if (ids.length === 0) {
+      return new Response(JSON.stringify({ error: 'vital_sign_ids is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+    const report = { readings: 0, patients: 0, alerts: 0 };
+    for (let start = 0; start < ids.length; start += MAX_IDS) {
+      const chunk = await evaluateVitalAlerts(supabase, ids.slice(start, start + MAX_IDS));
+      report.readings += chunk.readings;
+      report.patients += chunk.patients;
+      report.alerts += chunk.alerts;
+    }
+
+    if (report.alerts > 0) {
+      console.log(`[evaluate-vital-alerts] ${report.alerts} alerts from ${report.readings} readings`);
+    }
+
+    return new Response(JSON.stringify({ success: true, ...report }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[evaluate-vital-alerts] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
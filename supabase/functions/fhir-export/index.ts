@@ -0,0 +1,84 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { authenticateUser } from '../_shared/auth.ts';
+import { buildPatientBundle } from '../_shared/fhir.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Exports the signed-in patient's record as a FHIR R4 collection Bundle. The
+// client from authenticateUser carries the caller's JWT, so RLS limits every
+// query to their rows.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticateUser(req, { allowedRoles: ['patient'] });
+    if (!auth.ok) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { user, supabase: supabaseClient } = auth;
+
+    const [profile, vitals, medications, allergies, appointments, emergencyContacts] = await Promise.all([
+      supabaseClient.from('health_profiles').select('*').eq('user_id', user.id).maybeSingle(),
+      supabaseClient.from('vital_signs').select('*').eq('user_id', user.id).order('recorded_at', { ascending: true }),
+      supabaseClient.from('medications').select('*').eq('user_id', user.id),
+      supabaseClient.from('allergies').select('*').eq('user_id', user.id),
+      supabaseClient
+        .from('appointments')
+        .select('*, doctors (full_name, specialty)')
+        .eq('patient_id', user.id)
+        .order('scheduled_time', { ascending: true }),
+      supabaseClient.from('emergency_contacts').select('*').eq('user_id', user.id),
+    ]);
+
+    const failed = [profile, vitals, medications, allergies, appointments, emergencyContacts].find((r) => r.error);
+    if (failed) {
+      console.error('[fhir-export] Error loading records:', failed.error);
+      throw new Error('Failed to load health records');
+    }
+
+    if (!profile.data) {
+      return new Response(JSON.stringify({ error: 'Create your health profile before exporting' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const bundle = buildPatientBundle({
+      email: user.email,
+      profile: profile.data,
+      vitals: vitals.data ?? [],
+      medications: medications.data ?? [],
+      allergies: allergies.data ?? [],
+      appointments: appointments.data ?? [],
+      emergencyContacts: emergencyContacts.data ?? [],
+    });
+
+    const { error: logError } = await supabaseClient.rpc('record_data_access', {
+      _patient_ids: [user.id],
+      _source: 'fhir-export',
+      _categories: ['profile', 'vitals', 'medications', 'allergies', 'appointments', 'emergency_contacts'],
+    });
+    if (logError) console.error('[fhir-export] Failed to record data access:', logError);
+
+    console.log(`[fhir-export] Exported ${bundle.entry?.length ?? 0} resources for user ${user.id}`);
+
+    return new Response(JSON.stringify(bundle), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/fhir+json' },
+    });
+  } catch (error) {
+    console.error('[fhir-export] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
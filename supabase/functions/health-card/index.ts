@@ -0,0 +1,186 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  CARD_TOKEN_PATTERN,
+  MAX_PIN_ATTEMPTS,
+  PIN_LOCKOUT_MINUTES,
+  cardLinkBlock,
+  hashCardPin,
+  roughIpAddress,
+  type CardScanOutcome,
+  type HealthCardLink,
+} from '../_shared/healthCard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const MAX_USER_AGENT_LENGTH = 300;
+
+// POST /health-card { token, pin? }
+// Public: whoever scans a health card QR code has no account, so the token
+// is the credential. The card is assembled with the service role from only
+// the fields the patient chose, and every scan is logged for them.
+//
+// Responses are 200 with { status } so the page can read them:
+//   ok            { card } - the shared fields
+//   pin_required  the link has a PIN and none (or a wrong one) was given
+//   locked        too many wrong PINs; try again later
+// Unknown, rotated, expired and disabled tokens all get the same 404.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const notFound = () => json({ error: 'Health card not found' }, 404);
+
+  try {
+    const body = await req.json().catch(() => null);
+    const token = typeof body?.token === 'string' ? body.token : '';
+    const pin = typeof body?.pin === 'string' ? body.pin.trim() : '';
+    if (!CARD_TOKEN_PATTERN.test(token)) {
+      return notFound();
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: link, error: linkError } = await supabase
+      .from('health_card_links')
+      .select('id, user_id, token, fields, pin_hash, expires_at, enabled')
+      .eq('token', token)
+      .maybeSingle();
+    if (linkError) throw linkError;
+    if (!link) {
+      return notFound();
+    }
+
+    const logScan = async (outcome: CardScanOutcome) => {
+      const { error } = await supabase.from('health_card_scans').insert({
+        link_id: link.id,
+        user_id: link.user_id,
+        outcome,
+        ip_prefix: roughIpAddress(req.headers.get('x-forwarded-for')?.split(',')[0] ?? null),
+        country: req.headers.get('cf-ipcountry'),
+        user_agent: req.headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+      });
+      if (error) console.error(`[health-card] Failed to log scan of ${link.id}:`, error);
+    };
+
+    const block = cardLinkBlock(link as HealthCardLink);
+    if (block) {
+      await logScan(block);
+      return notFound();
+    }
+
+    if (link.pin_hash) {
+      const locked = async () => {
+        await logScan('locked');
+        return json({ status: 'locked', retryAfterMinutes: PIN_LOCKOUT_MINUTES });
+      };
+
+      if (!pin) {
+        const { data: isLocked, error: lockedError } = await supabase.rpc('health_card_pin_locked', {
+          _link_id: link.id,
+          _max_attempts: MAX_PIN_ATTEMPTS,
+        });
+        if (lockedError) throw lockedError;
+        if (isLocked) return locked();
+        await logScan('pin_required');
+        return json({ status: 'pin_required' });
+      }
+
+      // The attempt is taken before the PIN is checked, in one statement, so
+      // parallel guesses can't all slip under the limit
+      const { data: allowed, error: attemptError } = await supabase.rpc('take_health_card_pin_attempt', {
+        _link_id: link.id,
+        _max_attempts: MAX_PIN_ATTEMPTS,
+        _window_minutes: PIN_LOCKOUT_MINUTES,
+      });
+      if (attemptError) throw attemptError;
+      if (!allowed) return locked();
+
+      if ((await hashCardPin(link.id, pin)) !== link.pin_hash) {
+        await logScan('pin_rejected');
+        return json({ status: 'pin_required', error: 'Incorrect PIN' });
+      }
+
+      const { error: clearError } = await supabase.rpc('clear_health_card_pin_attempts', { _link_id: link.id });
+      if (clearError) console.error(`[health-card] Failed to clear PIN attempts for ${link.id}:`, clearError);
+    }
+
+    const fields = new Set(link.fields as string[]);
+    const [profile, allergies, medications, contact] = await Promise.all([
+      supabase
+        .from('health_profiles')
+        .select('health_id, blood_type, date_of_birth, gender, height, weight')
+        .eq('user_id', link.user_id)
+        .maybeSingle(),
+      fields.has('allergies')
+        ? supabase.from('allergies').select('allergen, severity').eq('user_id', link.user_id)
+        : Promise.resolve({ data: [], error: null }),
+      fields.has('medications')
+        ? supabase
+            .from('medications')
+            .select('name, dosage')
+            .eq('user_id', link.user_id)
+            .or(`end_date.is.null,end_date.gte.${new Date().toISOString().slice(0, 10)}`)
+        : Promise.resolve({ data: [], error: null }),
+      fields.has('emergency_contact')
+        ? supabase
+            .from('emergency_contacts')
+            .select('name, phone, relationship')
+            .eq('user_id', link.user_id)
+            .eq('is_primary', true)
+            .maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+    const failed = [profile, allergies, medications, contact].find((r) => r.error);
+    if (failed) throw failed.error;
+    if (!profile.data) {
+      return notFound();
+    }
+
+    await logScan('viewed');
+    const { error: accessLogError } = await supabase.from('data_access_log').insert({
+      patient_id: link.user_id,
+      accessor: 'service',
+      accessor_name: 'Someone with your health card',
+      source: 'health-card',
+      categories: [
+        'profile',
+        ...(fields.has('allergies') ? ['allergies'] : []),
+        ...(fields.has('medications') ? ['medications'] : []),
+        ...(fields.has('emergency_contact') ? ['emergency_contacts'] : []),
+      ],
+    });
+    if (accessLogError) console.error(`[health-card] Failed to record data access for ${link.id}:`, accessLogError);
+
+    const p = profile.data;
+    return json({
+      status: 'ok',
+      card: {
+        healthProfile: {
+          health_id: p.health_id,
+          blood_type: fields.has('blood_type') ? p.blood_type : null,
+          date_of_birth: fields.has('date_of_birth') ? p.date_of_birth : null,
+          gender: fields.has('gender') ? p.gender : null,
+          height: fields.has('height_weight') ? p.height : null,
+          weight: fields.has('height_weight') ? p.weight : null,
+        },
+        allergies: allergies.data ?? [],
+        medications: medications.data ?? [],
+        emergencyContact: contact.data ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('[health-card] Error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
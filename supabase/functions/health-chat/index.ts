@@ -1,11 +1,83 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticateUser } from "../_shared/auth.ts";
+import {
+  checkMedication,
+  checkMedicationList,
+  contraindicatedClasses,
+  findMentionedDrugs,
+  identifyDrug,
+  type InteractionWarning,
+} from "../_shared/drugInteractions.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const formatWarning = (w: InteractionWarning) =>
+  `- [${w.severity.toUpperCase()}] ${w.drug} + ${w.conflictsWith}: ${w.summary} ${w.recommendation}`;
+
+// Runs the interaction checker over the patient's record and any drug named
+// in their latest message, so the model is told what not to suggest
+function buildMedicationSafety(
+  medicationNames: string[],
+  allergens: string[],
+  latestMessage: string
+): string {
+  const lines: string[] = [];
+
+  const avoid = contraindicatedClasses(allergens);
+  if (avoid.length > 0) {
+    lines.push('Never suggest these drug classes to this patient:');
+    avoid.forEach((a) => lines.push(`- ${a.drugClass} (${a.reason})`));
+  }
+
+  const existing = checkMedicationList(medicationNames, allergens);
+  if (existing.length > 0) {
+    lines.push('Interactions in the current medication list:');
+    existing.forEach((w) => lines.push(formatWarning(w)));
+  }
+
+  // Words of the message are checked one at a time; unknown words match nothing
+  const mentioned = Array.from(new Set(latestMessage.split(/[^A-Za-z-]+/).filter((word) => word.length > 2)));
+  const asked = mentioned.flatMap((word) => checkMedication(word, medicationNames, allergens));
+  if (asked.length > 0) {
+    lines.push('Warnings for drugs mentioned in the latest message:');
+    asked.forEach((w) => lines.push(formatWarning(w)));
+  }
+
+  return lines.length > 0 ? lines.join('\n') : 'No known interactions or drug allergies.';
+}
+
+// The prompt asks the model not to suggest conflicting drugs; this checks
+// that it didn't. Drugs the patient already takes, or names as an allergy,
+// are left out: the reply is expected to talk about those.
+function replySafetyNotice(reply: string, medicationNames: string[], allergens: string[]): string | null {
+  const known = new Set([...medicationNames, ...allergens].map((name) => identifyDrug(name)?.matched));
+  const warnings = findMentionedDrugs(reply)
+    .filter((drug) => !known.has(drug))
+    .flatMap((drug) => checkMedication(drug, medicationNames, allergens));
+  if (warnings.length === 0) return null;
+
+  const lines = Array.from(
+    new Set(
+      warnings.map(
+        (w) =>
+          `- ${w.drug.charAt(0).toUpperCase()}${w.drug.slice(1)} with ${w.conflictsWith} (${w.severity}): ${w.summary} ${w.recommendation}`
+      )
+    )
+  );
+  return [
+    'Medication safety warning: the answer below mentions medicines that conflict with your records.',
+    ...lines,
+    'Do not start or change any of these without speaking to your doctor or pharmacist.',
+  ].join('\n');
+}
+
+// The reply in the event-stream format the chat page reads
+const replyStream = (content: string) =>
+  `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\ndata: [DONE]\n\n`;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -19,21 +91,16 @@ serve(async (req) => {
       throw new Error("LOVABLE_API_KEY is not configured");
     }
 
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      {
-        global: {
-          headers: { Authorization: req.headers.get('Authorization')! },
-        },
-      }
-    );
+    const auth = await authenticateUser(req, { allowedRoles: ['patient'] });
+    if (!auth.ok) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
     // Get user's health data for context
-    const { data: { user } } = await supabaseClient.auth.getUser();
-    if (!user) {
-      throw new Error("Unauthorized");
-    }
+    const { user, supabase: supabaseClient } = auth;
 
     const { data: healthProfile } = await supabaseClient
       .from('health_profiles')
@@ -51,12 +118,35 @@ serve(async (req) => {
       .select('*')
       .eq('user_id', user.id);
 
+    // Sent to the AI model with the question, so it shows in the access log
+    const { error: logError } = await supabaseClient.rpc('record_data_access', {
+      _patient_ids: [user.id],
+      _source: 'health-chat',
+      _categories: ['profile', 'medications', 'allergies'],
+    });
+    if (logError) console.error('[health-chat] Failed to record data access:', logError);
+
+    const activeMedications = (medications ?? []).filter((m) => !m.end_date || new Date(m.end_date) >= new Date());
+    const latestUserMessage = [...messages].reverse().find((m: { role: string }) => m.role === 'user')?.content ?? '';
+    const activeMedicationNames = activeMedications.map((m) => m.name);
+    const allergens = (allergies ?? []).map((a) => a.allergen);
+    const medicationSafety = buildMedicationSafety(
+      activeMedicationNames,
+      allergens,
+      typeof latestUserMessage === 'string' ? latestUserMessage : ''
+    );
+
     const systemPrompt = `You are a helpful health assistant. You have access to the user's health information:
     
 Health Profile: ${healthProfile ? JSON.stringify(healthProfile) : 'Not set'}
 Current Medications: ${medications?.length ? medications.map(m => m.name).join(', ') : 'None'}
 Allergies: ${allergies?.length ? allergies.map(a => a.allergen).join(', ') : 'None'}
 
+Medication safety (from the interaction checker):
+${medicationSafety}
+
+Never recommend a medication that is contraindicated or has a major interaction listed above. If the user asks about such a drug, explain the warning and tell them to speak to their doctor or pharmacist.
+
 Provide helpful, accurate health information and advice. Always remind users to consult with healthcare professionals for medical decisions. Keep responses concise and clear.`;
 
     const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
@@ -71,7 +161,8 @@ Provide helpful, accurate health information and advice. Always remind users to
           { role: "system", content: systemPrompt },
           ...messages,
         ],
-        stream: true,
+        // Whole, so the reply can be checked before the patient sees any of it
+        stream: false,
       }),
     });
 
@@ -95,7 +186,12 @@ Provide helpful, accurate health information and advice. Always remind users to
       });
     }
 
-    return new Response(response.body, {
+    const completion = await response.json();
+    const reply: string = completion.choices?.[0]?.message?.content ?? "";
+    const notice = replySafetyNotice(reply, activeMedicationNames, allergens);
+    if (notice) console.log("[health-chat] Added a medication safety warning to the reply");
+
+    return new Response(replyStream(notice ? `${notice}\n\n${reply}` : reply), {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
@@ -4,7 +4,7 @@
  // ============================================================================
  
  import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
- import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+ import { authenticateUser } from "../_shared/auth.ts";
  import {
    calculateCardiovascularRisk,
    calculateDiabetesRisk,
@@ -28,36 +28,23 @@
    console.log("[health-predictions] Starting prediction generation");
  
    try {
-     const authHeader = req.headers.get("Authorization");
-     if (!authHeader?.startsWith("Bearer ")) {
-       return new Response(JSON.stringify({ error: "Unauthorized" }), {
-         status: 401,
+     const auth = await authenticateUser(req, { allowedRoles: ["patient"] });
+     if (!auth.ok) {
+       return new Response(JSON.stringify({ error: auth.error }), {
+         status: auth.status,
          headers: { ...corsHeaders, "Content-Type": "application/json" },
        });
      }
  
-     const token = authHeader.replace("Bearer ", "");
-     const payloadPart = token.split(".")[1];
-     const decodedPayload = JSON.parse(atob(payloadPart.replace(/-/g, "+").replace(/_/g, "/")));
-     const userId = decodedPayload.sub as string;
+     // Queries run with the caller's JWT, so RLS limits them to their own rows
+     const userId = auth.user.id;
+     const supabaseClient = auth.supabase;
  
-     if (!userId) {
-       return new Response(JSON.stringify({ error: "Unauthorized" }), {
-         status: 401,
-         headers: { ...corsHeaders, "Content-Type": "application/json" },
-       });
-     }
- 
-     const supabaseClient = createClient(
-       Deno.env.get("SUPABASE_URL") ?? "",
-       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-     );
- 
-     // Optimized parallel data fetching
+     // Optimized parallel data fetching; flagged vital readings are left out
      console.log("[health-predictions] Fetching patient data");
      const [profileData, vitalsData, menstrualData] = await Promise.all([
        supabaseClient.from("health_profiles").select("*").eq("user_id", userId).maybeSingle(),
-       supabaseClient.from("vital_signs").select("*").eq("user_id", userId).order("recorded_at", { ascending: false }).limit(30),
+       supabaseClient.from("vital_signs").select("*").eq("user_id", userId).eq("is_flagged", false).order("recorded_at", { ascending: false }).limit(30),
        supabaseClient.from("menstrual_cycles").select("*").eq("user_id", userId).order("cycle_start_date", { ascending: false }).limit(12),
      ]);
  
@@ -1,26 +1,22 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticateDevice, DEVICE_AUTH_HEADERS } from "../_shared/deviceAuth.ts";
+import { ingestReadings, parseBatchBody, validateReading, MAX_BATCH_SIZE } from "../_shared/vitalIngestion.ts";
+import { checkCriticalReadings } from "../_shared/sosDispatch.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-device-id, x-device-type',
+  'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${DEVICE_AUTH_HEADERS}`,
 };
 
-interface IoTVitalSignsPayload {
-  user_id?: string;
-  health_id?: string;
-  device_id: string;
-  device_type: string;
-  blood_pressure_systolic?: number;
-  blood_pressure_diastolic?: number;
-  heart_rate?: number;
-  blood_glucose?: number;
-  weight?: number;
-  temperature?: number;
-  oxygen_saturation?: number;
-  recorded_at?: string;
-  notes?: string;
-}
+// Two modes share the same HMAC authentication:
+//   POST /iot-webhook        one JSON reading
+//   POST /iot-webhook/batch  JSON array or NDJSON of readings, each with
+//                            recorded_at; responds with a per-item report
+// The owning patient and device type come from the devices table, never from
+// the payload, so a device can only write vitals for the patient who paired it.
+// A recent critical reading raises an SOS (see _shared/sos.ts); the response
+// then carries its id as sos_event_id.
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -34,79 +30,89 @@ serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const payload: IoTVitalSignsPayload = await req.json();
-    console.log('Received IoT data:', JSON.stringify(payload, null, 2));
-
-    // Validate required fields
-    if (!payload.device_id || !payload.device_type) {
+    const rawBody = await req.text();
+    const auth = await authenticateDevice(req, rawBody, supabase);
+    if (!auth.ok) {
+      console.warn('Rejected IoT request:', auth.error);
       return new Response(
-        JSON.stringify({ error: 'device_id and device_type are required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+    const { device } = auth;
+
+    const isBatch = new URL(req.url).pathname.endsWith('/batch');
 
-    // Get user_id from health_id if provided
-    let userId = payload.user_id;
-    if (!userId && payload.health_id) {
-      const { data: profile, error: profileError } = await supabase
-        .from('health_profiles')
-        .select('user_id')
-        .eq('health_id', payload.health_id)
-        .single();
-
-      if (profileError || !profile) {
-        console.error('Error finding user by health_id:', profileError);
+    if (isBatch) {
+      const items = parseBatchBody(rawBody, req.headers.get('content-type'));
+      console.log(`Received batch of ${items.length} readings from device ${device.device_id}`);
+
+      if (items.length === 0) {
         return new Response(
-          JSON.stringify({ error: 'Invalid health_id or user not found' }),
-          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify({ error: 'Batch contains no readings' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      userId = profile.user_id;
+      if (items.length > MAX_BATCH_SIZE) {
+        return new Response(
+          JSON.stringify({ error: `Batch exceeds ${MAX_BATCH_SIZE} readings; split the upload` }),
+          { status: 413, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const report = await ingestReadings(supabase, device, items, { requireTimestamp: true });
+      console.log(`Batch stored: ${report.inserted} inserted, ${report.duplicates} duplicates, ${report.rejected} rejected`);
+      const sos = await checkCriticalReadings(supabase, device, report.results);
+
+      // 207 tells the device some items need attention; 422 when nothing was accepted
+      const status = report.rejected === 0 ? 200 : report.rejected === report.received ? 422 : 207;
+
+      return new Response(
+        JSON.stringify({ success: report.rejected === 0, ...report, sos_event_id: sos?.id }),
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    if (!userId) {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
       return new Response(
-        JSON.stringify({ error: 'Either user_id or health_id is required' }),
+        JSON.stringify({ error: 'Request body must be valid JSON' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+    console.log(`Received IoT data from device ${device.device_id}`);
+
+    const { errors } = validateReading(payload, false);
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid reading', details: errors }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const report = await ingestReadings(supabase, device, [payload], { requireTimestamp: false });
+    const [result] = report.results;
 
-    // Insert vital signs data
-    const { data, error } = await supabase
-      .from('vital_signs')
-      .insert({
-        user_id: userId,
-        device_id: payload.device_id,
-        device_type: payload.device_type,
-        source: 'iot',
-        blood_pressure_systolic: payload.blood_pressure_systolic,
-        blood_pressure_diastolic: payload.blood_pressure_diastolic,
-        heart_rate: payload.heart_rate,
-        blood_glucose: payload.blood_glucose,
-        weight: payload.weight,
-        temperature: payload.temperature,
-        oxygen_saturation: payload.oxygen_saturation,
-        recorded_at: payload.recorded_at || new Date().toISOString(),
-        notes: payload.notes || `Auto-recorded from ${payload.device_type} (${payload.device_id})`,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error inserting vital signs:', error);
+    if (result.status === 'rejected') {
       return new Response(
-        JSON.stringify({ error: 'Failed to store vital signs', details: error.message }),
+        JSON.stringify({ error: 'Failed to store vital signs', details: result.errors }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log('Successfully stored vital signs:', data);
+    console.log(`Vital signs ${result.status}:`, result.id ?? result.recorded_at);
+    const sos = await checkCriticalReadings(supabase, device, report.results);
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: 'Vital signs recorded successfully',
-        data 
+        message: result.status === 'inserted'
+          ? 'Vital signs recorded successfully'
+          : 'Reading already recorded',
+        data: { id: result.id, recorded_at: result.recorded_at, status: result.status, flags: result.flags },
+        sos_event_id: sos?.id,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,116 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { bearerToken } from '../_shared/auth.ts';
+import type { NotificationDraft } from '../_shared/notifications.ts';
+import {
+  appointmentReminders,
+  medicationReminders,
+  periodReminders,
+  REMINDER_INTERVAL_MINUTES,
+  vitalsReminders,
+  type CycleRow,
+  type ReminderAppointment,
+  type ReminderSchedule,
+  type VitalsGap,
+} from '../_shared/reminders.ts';
+import type { DoseRow } from '../_shared/medicationSchedule.ts';
+import { addDays } from '../_shared/timezone.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Enough history to average the last few cycles
+const CYCLE_LOOKBACK_DAYS = 400;
+
+// POST /send-reminders
+// Called by pg_cron every REMINDER_INTERVAL_MINUTES with the service role key
+// (see the notifications migration). Builds every reminder that is due and
+// inserts them; dedupe keys make re-runs no-ops, and the database drops
+// categories the recipient has switched off.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (bearerToken(req) !== serviceRoleKey) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+    const windowStart = new Date(now.getTime() - REMINDER_INTERVAL_MINUTES * 60 * 1000).toISOString();
+    const windowEnd = new Date(now.getTime() + REMINDER_INTERVAL_MINUTES * 60 * 1000).toISOString();
+
+    const [appointments, schedules, doses, cycles, vitalsGaps] = await Promise.all([
+      supabase
+        .from('appointments')
+        .select('id, patient_id, scheduled_time, created_at, type, doctors (user_id, full_name)')
+        .eq('status', 'confirmed')
+        .gt('scheduled_time', now.toISOString())
+        .lte('scheduled_time', new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString()),
+      supabase
+        .from('medication_schedules')
+        .select('id, user_id, medication_id, dose, times_of_day, days_of_week, as_needed, max_daily_doses, start_date, end_date, timezone, medications (name)')
+        .eq('as_needed', false)
+        .lte('start_date', addDays(today, 1))
+        .or(`end_date.is.null,end_date.gte.${addDays(today, -1)}`),
+      supabase
+        .from('medication_doses')
+        .select('medication_id, schedule_id, scheduled_for, taken_at, status')
+        .gte('scheduled_for', windowStart)
+        .lt('scheduled_for', windowEnd),
+      supabase
+        .from('menstrual_cycles')
+        .select('user_id, period_start_date, cycle_length')
+        .gte('period_start_date', addDays(today, -CYCLE_LOOKBACK_DAYS)),
+      supabase.rpc('patients_due_vitals_reminder'),
+    ]);
+
+    const failed = [appointments, schedules, doses, cycles, vitalsGaps].find((r) => r.error);
+    if (failed) throw failed.error;
+
+    // Untyped client: the doctors and medications embeds are single rows
+    const drafts: NotificationDraft[] = [
+      ...appointmentReminders((appointments.data ?? []) as unknown as ReminderAppointment[], now),
+      ...medicationReminders(
+        (schedules.data ?? []) as unknown as ReminderSchedule[],
+        (doses.data ?? []) as DoseRow[],
+        now
+      ),
+      ...periodReminders((cycles.data ?? []) as CycleRow[], now),
+      ...vitalsReminders((vitalsGaps.data ?? []) as VitalsGap[], now),
+    ];
+
+    if (drafts.length > 0) {
+      const { error } = await supabase
+        .from('notifications')
+        .upsert(drafts, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true });
+      if (error) throw error;
+    }
+
+    const counts = drafts.reduce<Record<string, number>>((acc, draft) => {
+      acc[draft.category] = (acc[draft.category] ?? 0) + 1;
+      return acc;
+    }, {});
+
+    console.log(`[send-reminders] ${drafts.length} reminders due`, counts);
+
+    return new Response(JSON.stringify({ success: true, due: drafts.length, counts }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[send-reminders] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
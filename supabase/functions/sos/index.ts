@@ -0,0 +1,149 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { authenticateUser, bearerToken } from '../_shared/auth.ts';
+import {
+  acknowledgeSos,
+  closeSosEvent,
+  dispatchDueSosEvents,
+  dispatchSosEvent,
+  openSosEvent,
+} from '../_shared/sosDispatch.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_MESSAGE_LENGTH = 500;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const finiteOrNull = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// POST /sos with { action, ... }
+//   trigger      patient JWT; { message?, latitude?, longitude?, accuracy? }
+//                raises an SOS (or returns the open one) and alerts the
+//                primary contact straight away
+//   cancel       patient JWT; { sos_event_id } - a false alarm
+//   resolve      patient JWT; { sos_event_id } - help arrived
+//   acknowledge  no login; { token } from a contact's alert link
+//   dispatch     service role key; run every minute by pg_cron to send
+//                device SOS after their grace period and escalate
+//                unacknowledged ones (see the SOS migration)
+//
+// Contact messages are queued in notification_deliveries; when any are
+// queued, deliver-notifications is called at once instead of waiting for
+// its next run. APP_URL is used to build the card and acknowledgement links.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const appUrl = Deno.env.get('APP_URL') ?? null;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: 'Request body must be valid JSON' }, 400);
+    }
+
+    const flushDeliveries = async (queued: number) => {
+      if (queued === 0) return;
+      try {
+        await fetch(`${supabaseUrl}/functions/v1/deliver-notifications`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${serviceRoleKey}`, 'Content-Type': 'application/json' },
+          body: '{}',
+        });
+      } catch (error) {
+        // The cron run a minute later sends them anyway
+        console.error('[sos] Failed to flush deliveries:', error);
+      }
+    };
+
+    switch (body.action) {
+      case 'dispatch': {
+        if (bearerToken(req) !== serviceRoleKey) return json({ error: 'Unauthorized' }, 401);
+        const result = await dispatchDueSosEvents(supabase, appUrl);
+        await flushDeliveries(result.queued);
+        if (result.dispatched > 0) console.log(`[sos] Dispatched ${result.dispatched} SOS, ${result.queued} deliveries`);
+        return json({ success: true, ...result });
+      }
+
+      case 'acknowledge': {
+        if (typeof body.token !== 'string' || body.token.length === 0) {
+          return json({ error: 'token is required' }, 400);
+        }
+        const result = await acknowledgeSos(supabase, body.token);
+        if (!result.ok) return json({ error: result.error }, result.status);
+        console.log('[sos] Acknowledged by', result.acknowledgement.contactName);
+        return json({ success: true, ...result.acknowledgement });
+      }
+
+      case 'trigger': {
+        const auth = await authenticateUser(req, { allowedRoles: ['patient'] });
+        if (!auth.ok) return json({ error: auth.error }, auth.status);
+
+        const message = typeof body.message === 'string' ? body.message.trim().slice(0, MAX_MESSAGE_LENGTH) : '';
+        const latitude = finiteOrNull(body.latitude);
+        const longitude = finiteOrNull(body.longitude);
+        const hasLocation = latitude !== null && longitude !== null
+          && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+        const opened = await openSosEvent(supabase, {
+          userId: auth.user.id,
+          trigger: 'manual',
+          message: message || null,
+          latitude: hasLocation ? latitude : null,
+          longitude: hasLocation ? longitude : null,
+          accuracyMeters: hasLocation ? finiteOrNull(body.accuracy) : null,
+        });
+        if (!opened.ok) return json({ error: opened.error }, 500);
+
+        // Pressing the button during a device SOS's grace period sends it now
+        let queued = 0;
+        if (opened.event.status === 'pending') {
+          queued = await dispatchSosEvent(supabase, opened.event, appUrl);
+          await flushDeliveries(queued);
+        }
+        console.log(`[sos] SOS ${opened.event.id} ${opened.created ? 'raised' : 'already open'} for ${auth.user.id}`);
+
+        return json({ success: true, sos_event_id: opened.event.id, created: opened.created, deliveries: queued });
+      }
+
+      case 'cancel':
+      case 'resolve': {
+        const auth = await authenticateUser(req, { allowedRoles: ['patient'] });
+        if (!auth.ok) return json({ error: auth.error }, auth.status);
+        if (typeof body.sos_event_id !== 'string') return json({ error: 'sos_event_id is required' }, 400);
+
+        const result = await closeSosEvent(
+          supabase,
+          auth.user.id,
+          body.sos_event_id,
+          body.action === 'cancel' ? 'cancelled' : 'resolved'
+        );
+        if (!result.ok) return json({ error: result.error }, result.status);
+        await flushDeliveries(result.queued);
+
+        return json({ success: true, status: result.event.status, deliveries: result.queued });
+      }
+
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('[sos] Error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
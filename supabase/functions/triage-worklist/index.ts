@@ -0,0 +1,232 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { authenticateUser } from '../_shared/auth.ts';
+import { accessGrantState, grantAllows, type AccessGrant } from '../_shared/consent.ts';
+import { calculateAdherence, type DoseRow, type ScheduleRow } from '../_shared/medicationSchedule.ts';
+import type { VitalsRecord } from '../_shared/riskEngine.ts';
+import {
+  ADHERENCE_WINDOW_DAYS,
+  buildTriageItem,
+  rankTriageItems,
+  type TriageAlert,
+  type TriageInputs,
+  type TriageStateRow,
+} from '../_shared/triage.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Patients loaded in parallel; each needs a handful of small queries
+const CONCURRENCY = 20;
+
+const VITAL_COLUMNS =
+  'recorded_at, is_flagged, blood_pressure_systolic, blood_pressure_diastolic, heart_rate, blood_glucose, weight, oxygen_saturation';
+// Enough to find an unflagged reading behind a run of flagged ones
+const RECENT_READINGS = 20;
+
+type PerPatient = Pick<TriageInputs, 'latestReadingAt' | 'latestVitals' | 'lastVisitAt' | 'visitVitals' | 'adherence'>;
+
+const none = Promise.resolve({ data: null, error: null });
+
+// Reads with the service role, so only what the grant covers is asked for
+async function loadPatient(
+  supabase: SupabaseClient,
+  doctorId: string,
+  patientId: string,
+  grant: AccessGrant,
+  now: Date
+): Promise<PerPatient> {
+  const adherenceFrom = new Date(now.getTime() - ADHERENCE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const vitalsShared = grantAllows(grant, 'vitals', now);
+  const medicationsShared = grantAllows(grant, 'medications', now);
+
+  const [readings, visit, schedules, doses] = await Promise.all([
+    vitalsShared
+      ? supabase
+          .from('vital_signs')
+          .select(VITAL_COLUMNS)
+          .eq('user_id', patientId)
+          .order('recorded_at', { ascending: false })
+          .limit(RECENT_READINGS)
+      : none,
+    supabase
+      .from('appointments')
+      .select('scheduled_time')
+      .eq('doctor_id', doctorId)
+      .eq('patient_id', patientId)
+      .eq('status', 'completed')
+      .order('scheduled_time', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    medicationsShared
+      ? supabase
+          .from('medication_schedules')
+          .select('id, medication_id, dose, times_of_day, days_of_week, as_needed, max_daily_doses, start_date, end_date, timezone')
+          .eq('user_id', patientId)
+      : none,
+    medicationsShared
+      ? supabase
+          .from('medication_doses')
+          .select('medication_id, schedule_id, scheduled_for, taken_at, status')
+          .eq('user_id', patientId)
+          .gte('scheduled_for', adherenceFrom.toISOString())
+      : none,
+  ]);
+
+  const failed = [readings, visit, schedules, doses].find((r) => r.error);
+  if (failed) throw failed.error;
+
+  const lastVisitAt: string | null = visit.data?.scheduled_time ?? null;
+  let visitVitals: VitalsRecord | null = null;
+  if (lastVisitAt && vitalsShared) {
+    const { data, error } = await supabase
+      .from('vital_signs')
+      .select(VITAL_COLUMNS)
+      .eq('user_id', patientId)
+      .eq('is_flagged', false)
+      .lte('recorded_at', lastVisitAt)
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    visitVitals = data;
+  }
+
+  const scheduleRows = (schedules.data ?? []) as ScheduleRow[];
+  return {
+    latestReadingAt: readings.data?.[0]?.recorded_at ?? null,
+    latestVitals: readings.data?.find((r) => !r.is_flagged) ?? null,
+    lastVisitAt,
+    visitVitals,
+    adherence: scheduleRows.length > 0
+      ? calculateAdherence(scheduleRows, (doses.data ?? []) as DoseRow[], adherenceFrom, now)
+      : null,
+  };
+}
+
+// POST /triage-worklist
+// Ranks the signed-in doctor's patients for review (see _shared/triage.ts).
+// The doctor's own rows (grants, alerts, triage state) are read with their
+// JWT. Doctors cannot read patient data directly, so profiles, vitals and
+// medications are read with the service role, limited to each live grant,
+// and logged in each patient's access log before the list is returned.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticateUser(req, { allowedRoles: ['doctor'] });
+    if (!auth.ok) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { user, supabase } = auth;
+    const now = new Date();
+
+    const { data: doctor, error: doctorError } = await supabase
+      .from('doctors')
+      .select('id, full_name')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (doctorError) throw doctorError;
+    if (!doctor) {
+      return new Response(JSON.stringify({ error: 'Doctor profile not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: access, error: accessError } = await supabase
+      .from('patient_doctor_access')
+      .select('patient_id, status, scopes, expires_at')
+      .eq('doctor_id', doctor.id)
+      .eq('status', 'active');
+    if (accessError) throw accessError;
+
+    const grants = new Map<string, AccessGrant>();
+    for (const grant of access ?? []) {
+      if (accessGrantState(grant, now) === 'active') grants.set(grant.patient_id, grant);
+    }
+    const patientIds = Array.from(grants.keys());
+    if (patientIds.length === 0) {
+      return new Response(JSON.stringify({ items: [], generatedAt: now.toISOString() }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const service = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const [profiles, alerts, states] = await Promise.all([
+      service
+        .from('health_profiles')
+        .select('user_id, health_id, date_of_birth, weight, height, gender')
+        .in('user_id', patientIds),
+      supabase
+        .from('vital_alerts')
+        .select('patient_id, severity, status, last_triggered_at')
+        .in('patient_id', patientIds)
+        .neq('status', 'resolved'),
+      supabase
+        .from('triage_states')
+        .select('patient_id, snoozed_until, reviewed_at')
+        .eq('doctor_id', doctor.id),
+    ]);
+    const failed = [profiles, alerts, states].find((r) => r.error);
+    if (failed) throw failed.error;
+
+    const perPatient = new Map<string, PerPatient>();
+    for (let start = 0; start < patientIds.length; start += CONCURRENCY) {
+      const chunk = patientIds.slice(start, start + CONCURRENCY);
+      const loaded = await Promise.all(chunk.map((id) => loadPatient(service, doctor.id, id, grants.get(id)!, now)));
+      chunk.forEach((id, i) => perPatient.set(id, loaded[i]));
+    }
+
+    const items = rankTriageItems(patientIds.map((patientId) => {
+      const profile = profiles.data?.find((p) => p.user_id === patientId) ?? null;
+      return buildTriageItem({
+        patientId,
+        healthId: profile?.health_id ?? null,
+        alerts: (alerts.data ?? []).filter((a) => a.patient_id === patientId) as TriageAlert[],
+        profile,
+        state: (states.data?.find((s) => s.patient_id === patientId) ?? null) as TriageStateRow | null,
+        vitalsShared: grantAllows(grants.get(patientId) ?? null, 'vitals', now),
+        ...perPatient.get(patientId)!,
+      }, now);
+    }));
+
+    // Shows in each patient's access log, limited to what their grant
+    // covers. Nothing is returned unless the reads are logged.
+    const { error: logError } = await service.from('data_access_log').insert(
+      patientIds.map((patientId) => ({
+        patient_id: patientId,
+        accessor: 'doctor',
+        accessor_user_id: user.id,
+        doctor_id: doctor.id,
+        accessor_name: doctor.full_name,
+        source: 'triage-worklist',
+        categories: ['profile', ...(['vitals', 'medications'] as const).filter((scope) =>
+          grantAllows(grants.get(patientId) ?? null, scope, now)
+        )],
+      }))
+    );
+    if (logError) throw logError;
+
+    console.log(`[triage-worklist] Ranked ${items.length} patients for doctor ${doctor.id}`);
+
+    return new Response(JSON.stringify({ items, generatedAt: now.toISOString() }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[triage-worklist] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
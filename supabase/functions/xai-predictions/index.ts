@@ -5,7 +5,7 @@
  // ============================================================================
  
  import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
- import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+ import { authenticateUser } from "../_shared/auth.ts";
  import {
    calculateCardiovascularRisk,
    calculateDiabetesRisk,
@@ -125,30 +125,17 @@
    console.log("[xai-predictions] Starting XAI analysis");
  
    try {
-     const authHeader = req.headers.get("Authorization");
-     if (!authHeader?.startsWith("Bearer ")) {
-       return new Response(JSON.stringify({ error: "Unauthorized" }), {
-         status: 401,
+     const auth = await authenticateUser(req, { allowedRoles: ["patient"] });
+     if (!auth.ok) {
+       return new Response(JSON.stringify({ error: auth.error }), {
+         status: auth.status,
          headers: { ...corsHeaders, "Content-Type": "application/json" },
        });
      }
  
-     const token = authHeader.replace("Bearer ", "");
-     const payloadPart = token.split(".")[1];
-     const decodedPayload = JSON.parse(atob(payloadPart.replace(/-/g, "+").replace(/_/g, "/")));
-     const userId = decodedPayload.sub as string;
- 
-     if (!userId) {
-       return new Response(JSON.stringify({ error: "Unauthorized" }), {
-         status: 401,
-         headers: { ...corsHeaders, "Content-Type": "application/json" },
-       });
-     }
- 
-     const supabaseClient = createClient(
-       Deno.env.get("SUPABASE_URL") ?? "",
-       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-     );
+     // Queries run with the caller's JWT, so RLS limits them to their own rows
+     const userId = auth.user.id;
+     const supabaseClient = auth.supabase;
  
      const { whatIfValues } = await req.json().catch(() => ({}));
  
@@ -156,7 +143,7 @@
      console.log("[xai-predictions] Fetching patient data");
      const [profileResult, vitalsResult] = await Promise.all([
        supabaseClient.from("health_profiles").select("*").eq("user_id", userId).maybeSingle(),
-       supabaseClient.from("vital_signs").select("*").eq("user_id", userId).order("recorded_at", { ascending: false }).limit(5),
+       supabaseClient.from("vital_signs").select("*").eq("user_id", userId).eq("is_flagged", false).order("recorded_at", { ascending: false }).limit(5),
      ]);
  
      const fetchTime = Date.now() - startTime;
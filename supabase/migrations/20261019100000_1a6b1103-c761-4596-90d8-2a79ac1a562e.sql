@@ -0,0 +1,57 @@
+-- Device registry for IoT vital sign ingestion
+-- Each paired device has a shared secret used to HMAC-sign webhook payloads.
+CREATE TABLE public.devices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  device_id TEXT NOT NULL UNIQUE,
+  device_type TEXT NOT NULL,
+  name TEXT,
+  secret TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked')),
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.devices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for devices
+CREATE POLICY "Users can view their own devices"
+  ON public.devices
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can pair their own devices"
+  ON public.devices
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own devices"
+  ON public.devices
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own devices"
+  ON public.devices
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_devices_user_id ON public.devices(user_id, created_at DESC);
+
+-- Nonces seen by the IoT webhook, for replay protection.
+-- Only the service role touches this table, so no user policies are defined.
+CREATE TABLE public.device_nonces (
+  device_id TEXT NOT NULL REFERENCES public.devices(device_id) ON DELETE CASCADE,
+  nonce TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (device_id, nonce)
+);
+
+ALTER TABLE public.device_nonces ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_device_nonces_created_at ON public.device_nonces(created_at);
+
+-- The webhook writes with the service role, which bypasses RLS. The open insert
+-- policy only let anonymous clients write vitals for any user, so drop it.
+DROP POLICY IF EXISTS "Service role can insert vital signs" ON public.vital_signs;
@@ -0,0 +1,13 @@
+-- Idempotent IoT ingestion: a device reports each reading once per timestamp.
+-- Manual entries have no device_id, and NULLs never conflict, so they are unaffected.
+
+-- Remove duplicates left by retried uploads before adding the constraint
+DELETE FROM public.vital_signs a
+USING public.vital_signs b
+WHERE a.device_id IS NOT NULL
+  AND a.device_id = b.device_id
+  AND a.recorded_at = b.recorded_at
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+ALTER TABLE public.vital_signs
+  ADD CONSTRAINT vital_signs_device_recorded_at_key UNIQUE (device_id, recorded_at);
@@ -0,0 +1,25 @@
+-- Flag suspicious-but-possible vital sign readings instead of dropping them.
+-- Flagged rows stay visible to the patient but are excluded from predictions.
+ALTER TABLE public.vital_signs ADD COLUMN IF NOT EXISTS is_flagged BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE public.vital_signs ADD COLUMN IF NOT EXISTS flag_reasons TEXT[];
+
+-- Temperature is now stored in °C. The manual form used to record °F, so
+-- convert any reading that can only be Fahrenheit.
+UPDATE public.vital_signs
+SET temperature = ROUND(((temperature - 32) * 5 / 9)::NUMERIC, 1)
+WHERE temperature > 50;
+
+-- Readings that are physically impossible can no longer be ingested; flag the
+-- ones already stored so they stop skewing predictions.
+UPDATE public.vital_signs
+SET is_flagged = TRUE,
+    flag_reasons = ARRAY['Recorded before range validation; value outside the possible range']
+WHERE blood_pressure_systolic NOT BETWEEN 40 AND 300
+   OR blood_pressure_diastolic NOT BETWEEN 20 AND 200
+   OR heart_rate NOT BETWEEN 20 AND 300
+   OR blood_glucose NOT BETWEEN 10 AND 1500
+   OR weight NOT BETWEEN 1 AND 500
+   OR temperature NOT BETWEEN 25 AND 45
+   OR oxygen_saturation NOT BETWEEN 50 AND 100;
+
+CREATE INDEX idx_vital_signs_user_unflagged ON public.vital_signs(user_id, recorded_at DESC) WHERE is_flagged = FALSE;
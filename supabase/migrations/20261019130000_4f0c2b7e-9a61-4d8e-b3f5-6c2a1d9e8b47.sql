@@ -0,0 +1,127 @@
+-- Structured medication schedules
+-- A medication has one schedule row per dosing step. A plain regimen has one
+-- step; a taper has consecutive steps with decreasing doses. Times are local
+-- wall-clock times in the schedule's timezone.
+CREATE TABLE public.medication_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  medication_id UUID REFERENCES public.medications(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  dose TEXT,
+  times_of_day TIME[] NOT NULL DEFAULT '{}',
+  -- 0 = Sunday ... 6 = Saturday; NULL means every day
+  days_of_week SMALLINT[] CHECK (days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  as_needed BOOLEAN NOT NULL DEFAULT FALSE,
+  max_daily_doses INTEGER CHECK (max_daily_doses > 0),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date),
+  CHECK (as_needed OR cardinality(times_of_day) > 0)
+);
+
+-- Taken / skipped / late log. Scheduled doses are keyed by their slot so
+-- logging the same dose twice updates it; as-needed doses have no slot, and
+-- NULL slots never conflict.
+CREATE TABLE public.medication_doses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  medication_id UUID REFERENCES public.medications(id) ON DELETE CASCADE NOT NULL,
+  schedule_id UUID REFERENCES public.medication_schedules(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  taken_at TIMESTAMP WITH TIME ZONE,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('taken', 'skipped', 'late')),
+  dose TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (status = 'skipped' OR taken_at IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX idx_medication_doses_slot
+  ON public.medication_doses(medication_id, scheduled_for);
+
+CREATE INDEX idx_medication_schedules_medication ON public.medication_schedules(medication_id, start_date);
+CREATE INDEX idx_medication_schedules_user ON public.medication_schedules(user_id);
+CREATE INDEX idx_medication_doses_user ON public.medication_doses(user_id, scheduled_for DESC);
+
+-- Enable RLS
+ALTER TABLE public.medication_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.medication_doses ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for medication_schedules
+CREATE POLICY "Users can view their own medication schedules"
+  ON public.medication_schedules
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own medication schedules"
+  ON public.medication_schedules
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.medications m WHERE m.id = medication_id AND m.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own medication schedules"
+  ON public.medication_schedules
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own medication schedules"
+  ON public.medication_schedules
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Doctors can view patient medication schedules when access granted"
+ON public.medication_schedules
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = medication_schedules.user_id
+      AND d.user_id = auth.uid()
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+  )
+);
+
+-- RLS Policies for medication_doses
+CREATE POLICY "Users can view their own medication doses"
+  ON public.medication_doses
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can log their own medication doses"
+  ON public.medication_doses
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.medications m WHERE m.id = medication_id AND m.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own medication doses"
+  ON public.medication_doses
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own medication doses"
+  ON public.medication_doses
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Doctors can view patient medication doses when access granted"
+ON public.medication_doses
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = medication_doses.user_id
+      AND d.user_id = auth.uid()
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+  )
+);
@@ -0,0 +1,151 @@
+-- Structured electronic prescriptions
+-- Doctors write a prescription for a patient they have active access to,
+-- optionally from an appointment. The patient accepts or declines it; accepting
+-- creates a medications row linked back to the prescriber and appointment.
+CREATE TABLE public.prescriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  drug_name TEXT NOT NULL,
+  strength TEXT,
+  route VARCHAR(20) NOT NULL DEFAULT 'oral' CHECK (route IN (
+    'oral', 'sublingual', 'topical', 'transdermal', 'inhaled', 'nasal', 'ophthalmic',
+    'otic', 'rectal', 'vaginal', 'subcutaneous', 'intramuscular', 'intravenous', 'other'
+  )),
+  -- Directions for use, e.g. "Take 1 tablet by mouth twice daily with food"
+  sig TEXT NOT NULL,
+  quantity NUMERIC CHECK (quantity > 0),
+  quantity_unit TEXT,
+  refills INTEGER NOT NULL DEFAULT 0 CHECK (refills >= 0),
+  start_date DATE,
+  end_date DATE,
+  notes TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+  decline_reason TEXT,
+  medication_id UUID REFERENCES public.medications(id) ON DELETE SET NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+-- Medications created from a prescription keep a link to it
+ALTER TABLE public.medications
+  ADD COLUMN prescription_id UUID REFERENCES public.prescriptions(id) ON DELETE SET NULL,
+  ADD COLUMN doctor_id UUID REFERENCES public.doctors(id) ON DELETE SET NULL,
+  ADD COLUMN appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_prescriptions_patient ON public.prescriptions(patient_id, created_at DESC);
+CREATE INDEX idx_prescriptions_doctor ON public.prescriptions(doctor_id, created_at DESC);
+CREATE INDEX idx_prescriptions_appointment ON public.prescriptions(appointment_id);
+
+-- Enable RLS
+ALTER TABLE public.prescriptions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for prescriptions
+CREATE POLICY "Patients can view their own prescriptions"
+  ON public.prescriptions
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+CREATE POLICY "Doctors can view prescriptions they wrote"
+  ON public.prescriptions
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = prescriptions.doctor_id AND d.user_id = auth.uid()));
+
+CREATE POLICY "Doctors can prescribe for patients with active access"
+  ON public.prescriptions
+  FOR INSERT
+  WITH CHECK (
+    status = 'pending'
+    AND medication_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.patient_doctor_access pda
+      JOIN public.doctors d ON d.id = pda.doctor_id
+      WHERE d.id = prescriptions.doctor_id
+        AND d.user_id = auth.uid()
+        AND pda.patient_id = prescriptions.patient_id
+        AND pda.status = 'active'
+        AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+    )
+    AND (
+      appointment_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.id = prescriptions.appointment_id
+          AND a.doctor_id = prescriptions.doctor_id
+          AND a.patient_id = prescriptions.patient_id
+      )
+    )
+  );
+
+-- Doctors may edit or cancel a prescription until the patient responds
+CREATE POLICY "Doctors can update their pending prescriptions"
+  ON public.prescriptions
+  FOR UPDATE
+  USING (
+    status = 'pending'
+    AND EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = prescriptions.doctor_id AND d.user_id = auth.uid())
+  )
+  WITH CHECK (
+    status IN ('pending', 'cancelled')
+    AND medication_id IS NULL
+    AND EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = prescriptions.doctor_id AND d.user_id = auth.uid())
+  );
+
+CREATE TRIGGER update_prescriptions_updated_at
+  BEFORE UPDATE ON public.prescriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Patients respond through this function rather than an UPDATE policy so they
+-- can't rewrite the prescription itself, and so accepting creates the linked
+-- medication in the same transaction. Returns the new medication id, or NULL
+-- when declining.
+CREATE OR REPLACE FUNCTION public.respond_to_prescription(
+  _prescription_id UUID,
+  _accept BOOLEAN,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  rx public.prescriptions%ROWTYPE;
+  prescriber TEXT;
+  new_medication_id UUID;
+BEGIN
+  SELECT * INTO rx FROM public.prescriptions WHERE id = _prescription_id FOR UPDATE;
+
+  IF NOT FOUND OR rx.patient_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Prescription not found';
+  END IF;
+
+  IF rx.status <> 'pending' THEN
+    RAISE EXCEPTION 'Prescription has already been %', rx.status;
+  END IF;
+
+  IF NOT _accept THEN
+    UPDATE public.prescriptions
+      SET status = 'declined', decline_reason = _reason, responded_at = NOW()
+      WHERE id = rx.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT full_name INTO prescriber FROM public.doctors WHERE id = rx.doctor_id;
+
+  INSERT INTO public.medications (
+    user_id, name, dosage, frequency, start_date, end_date, prescribing_doctor, notes,
+    prescription_id, doctor_id, appointment_id
+  )
+  VALUES (
+    rx.patient_id, rx.drug_name, rx.strength, rx.sig, COALESCE(rx.start_date, CURRENT_DATE), rx.end_date,
+    prescriber, rx.notes, rx.id, rx.doctor_id, rx.appointment_id
+  )
+  RETURNING id INTO new_medication_id;
+
+  UPDATE public.prescriptions
+    SET status = 'accepted', medication_id = new_medication_id, responded_at = NOW()
+    WHERE id = rx.id;
+
+  RETURN new_medication_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,239 @@
+-- Doctor availability and conflict-free booking
+-- Working hours and breaks are wall-clock times in the doctor's timezone, so
+-- "09:00" stays 09:00 across DST. Time off is a pair of absolute instants.
+ALTER TABLE public.doctors
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+
+CREATE TABLE public.doctor_working_hours (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  -- 0 = Sunday ... 6 = Saturday
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (end_time > start_time)
+);
+
+CREATE TABLE public.doctor_breaks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  -- NULL means the break repeats every working day
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  label TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (end_time > start_time)
+);
+
+CREATE TABLE public.doctor_time_off (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+-- Slot length per appointment type; types without a row use 30 minutes
+CREATE TABLE public.doctor_appointment_types (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('in-person', 'video')),
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 5 AND 480),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (doctor_id, type)
+);
+
+CREATE INDEX idx_doctor_working_hours_doctor ON public.doctor_working_hours(doctor_id, weekday);
+CREATE INDEX idx_doctor_breaks_doctor ON public.doctor_breaks(doctor_id);
+CREATE INDEX idx_doctor_time_off_doctor ON public.doctor_time_off(doctor_id, starts_at);
+
+-- Enable RLS
+ALTER TABLE public.doctor_working_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.doctor_breaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.doctor_time_off ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.doctor_appointment_types ENABLE ROW LEVEL SECURITY;
+
+-- Working hours, breaks and durations are public like the doctor directory.
+-- Time off can carry a private reason, so only the doctor reads it; patients
+-- see it as busy time through get_doctor_busy_intervals.
+CREATE POLICY "Anyone can view doctor working hours"
+ON public.doctor_working_hours
+FOR SELECT
+TO authenticated, anon
+USING (true);
+
+CREATE POLICY "Doctors can manage their own working hours"
+ON public.doctor_working_hours
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = doctor_working_hours.doctor_id AND d.user_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = doctor_working_hours.doctor_id AND d.user_id = auth.uid()));
+
+CREATE POLICY "Anyone can view doctor breaks"
+ON public.doctor_breaks
+FOR SELECT
+TO authenticated, anon
+USING (true);
+
+CREATE POLICY "Doctors can manage their own breaks"
+ON public.doctor_breaks
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = doctor_breaks.doctor_id AND d.user_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = doctor_breaks.doctor_id AND d.user_id = auth.uid()));
+
+CREATE POLICY "Doctors can manage their own time off"
+ON public.doctor_time_off
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = doctor_time_off.doctor_id AND d.user_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = doctor_time_off.doctor_id AND d.user_id = auth.uid()));
+
+CREATE POLICY "Anyone can view doctor appointment types"
+ON public.doctor_appointment_types
+FOR SELECT
+TO authenticated, anon
+USING (true);
+
+CREATE POLICY "Doctors can manage their own appointment types"
+ON public.doctor_appointment_types
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = doctor_appointment_types.doctor_id AND d.user_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = doctor_appointment_types.doctor_id AND d.user_id = auth.uid()));
+
+-- Every doctor starts with Monday-Friday 09:00-17:00 so booking is always
+-- bounded by working hours, including for doctors who never edit them.
+INSERT INTO public.doctor_working_hours (doctor_id, weekday, start_time, end_time)
+SELECT d.id, wd, TIME '09:00', TIME '17:00'
+FROM public.doctors d CROSS JOIN generate_series(1, 5) AS wd;
+
+CREATE OR REPLACE FUNCTION public.seed_doctor_working_hours()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.doctor_working_hours (doctor_id, weekday, start_time, end_time)
+  SELECT NEW.id, wd, TIME '09:00', TIME '17:00' FROM generate_series(1, 5) AS wd;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_doctor_created_seed_hours
+  AFTER INSERT ON public.doctors
+  FOR EACH ROW EXECUTE FUNCTION public.seed_doctor_working_hours();
+
+-- Appointment end, kept by trigger so the overlap constraint can index it
+-- (timestamptz + interval isn't immutable, so it can't be a generated column)
+ALTER TABLE public.appointments ADD COLUMN ends_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.appointments
+  SET duration = COALESCE(duration, 30),
+      ends_at = scheduled_time + make_interval(mins => COALESCE(duration, 30));
+
+ALTER TABLE public.appointments ALTER COLUMN ends_at SET NOT NULL;
+
+-- Fills in duration and ends_at, and rejects slots outside the doctor's
+-- working hours, inside a break or time off, or in the past. Only runs when
+-- the time, duration or doctor changes, so status updates on old rows pass.
+CREATE OR REPLACE FUNCTION public.validate_appointment_slot()
+RETURNS TRIGGER AS $$
+DECLARE
+  tz TEXT;
+  local_start TIMESTAMP;
+  local_end TIMESTAMP;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.scheduled_time = OLD.scheduled_time
+     AND NEW.duration IS NOT DISTINCT FROM OLD.duration
+     AND NEW.doctor_id = OLD.doctor_id THEN
+    NEW.ends_at := OLD.ends_at;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.duration IS NULL THEN
+    SELECT duration_minutes INTO NEW.duration
+    FROM public.doctor_appointment_types
+    WHERE doctor_id = NEW.doctor_id AND type = COALESCE(NEW.type, 'in-person');
+    NEW.duration := COALESCE(NEW.duration, 30);
+  END IF;
+
+  IF NEW.duration <= 0 THEN
+    RAISE EXCEPTION 'Appointment duration must be positive' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.ends_at := NEW.scheduled_time + make_interval(mins => NEW.duration);
+
+  IF NEW.scheduled_time < NOW() THEN
+    RAISE EXCEPTION 'Appointments cannot be booked in the past' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT timezone INTO tz FROM public.doctors WHERE id = NEW.doctor_id;
+  local_start := NEW.scheduled_time AT TIME ZONE COALESCE(tz, 'UTC');
+  local_end := NEW.ends_at AT TIME ZONE COALESCE(tz, 'UTC');
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.doctor_working_hours wh
+    WHERE wh.doctor_id = NEW.doctor_id
+      AND wh.weekday = EXTRACT(DOW FROM local_start)
+      AND local_end::date = local_start::date
+      AND local_start::time >= wh.start_time
+      AND local_end::time <= wh.end_time
+  ) THEN
+    RAISE EXCEPTION 'The doctor is not available at this time' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.doctor_breaks b
+    WHERE b.doctor_id = NEW.doctor_id
+      AND (b.weekday IS NULL OR b.weekday = EXTRACT(DOW FROM local_start))
+      AND local_start::time < b.end_time
+      AND local_end::time > b.start_time
+  ) THEN
+    RAISE EXCEPTION 'This time falls in the doctor''s break' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.doctor_time_off t
+    WHERE t.doctor_id = NEW.doctor_id
+      AND t.starts_at < NEW.ends_at
+      AND t.ends_at > NEW.scheduled_time
+  ) THEN
+    RAISE EXCEPTION 'The doctor is away at this time' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_appointment_slot
+  BEFORE INSERT OR UPDATE ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_appointment_slot();
+
+-- No two live appointments for the same doctor may overlap
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE public.appointments
+  ADD CONSTRAINT appointments_no_doctor_overlap
+  EXCLUDE USING gist (doctor_id WITH =, tstzrange(scheduled_time, ends_at) WITH &&)
+  WHERE (status IS DISTINCT FROM 'cancelled');
+
+-- Busy intervals for slot computation. Patients can't read other patients'
+-- appointments, so this exposes only start/end of booked time and time off.
+CREATE OR REPLACE FUNCTION public.get_doctor_busy_intervals(
+  _doctor_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (starts_at TIMESTAMP WITH TIME ZONE, ends_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT a.scheduled_time, a.ends_at
+  FROM public.appointments a
+  WHERE a.doctor_id = _doctor_id
+    AND a.status IS DISTINCT FROM 'cancelled'
+    AND a.scheduled_time < _to
+    AND a.ends_at > _from
+  UNION ALL
+  SELECT t.starts_at, t.ends_at
+  FROM public.doctor_time_off t
+  WHERE t.doctor_id = _doctor_id
+    AND t.starts_at < _to
+    AND t.ends_at > _from
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,226 @@
+-- Appointment lifecycle
+-- Status becomes an explicit state machine:
+--   requested -> confirmed -> checked-in -> in-progress -> completed
+-- with cancelled, no-show and rescheduled as the other terminal states.
+-- Allowed transitions (and who may make them) are enforced by trigger, and
+-- every change is written to appointment_status_changes with the actor and
+-- reason so both sides can see the appointment's timeline.
+
+-- Existing rows used 'pending' for new requests
+UPDATE public.appointments
+  SET status = 'requested'
+  WHERE status IS NULL
+     OR status NOT IN ('confirmed', 'checked-in', 'in-progress', 'completed', 'cancelled', 'no-show', 'rescheduled');
+
+ALTER TABLE public.appointments
+  ALTER COLUMN status SET DEFAULT 'requested',
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT appointments_status_check CHECK (status IN (
+    'requested', 'confirmed', 'checked-in', 'in-progress', 'completed', 'cancelled', 'no-show', 'rescheduled'
+  ));
+
+CREATE TABLE public.appointment_status_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE CASCADE NOT NULL,
+  -- NULL for the row recording the appointment's creation
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_role VARCHAR(20) NOT NULL CHECK (actor_role IN ('patient', 'doctor', 'system')),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_appointment_status_changes_appointment
+  ON public.appointment_status_changes(appointment_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.appointment_status_changes ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only ever written by the trigger below, so there are no
+-- insert/update/delete policies and the history is append-only.
+CREATE POLICY "Patients can view their appointment history"
+  ON public.appointment_status_changes
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.appointments a
+    WHERE a.id = appointment_status_changes.appointment_id AND a.patient_id = auth.uid()
+  ));
+
+CREATE POLICY "Doctors can view their appointment history"
+  ON public.appointment_status_changes
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.appointments a
+    JOIN public.doctors d ON d.id = a.doctor_id
+    WHERE a.id = appointment_status_changes.appointment_id AND d.user_id = auth.uid()
+  ));
+
+-- Everything that happened before this migration gets a single entry
+INSERT INTO public.appointment_status_changes (appointment_id, from_status, to_status, actor_role, reason, created_at)
+SELECT id, NULL, status, 'system', 'Recorded before status history was kept', COALESCE(updated_at, created_at, NOW())
+FROM public.appointments;
+
+-- Which side of the appointment the current user is on. Requests without a
+-- user (service role, cron) act as 'system'; strangers get NULL.
+CREATE OR REPLACE FUNCTION public.appointment_actor_role(_patient_id UUID, _doctor_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN 'system'
+    WHEN auth.uid() = _patient_id THEN 'patient'
+    WHEN EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = _doctor_id AND d.user_id = auth.uid()) THEN 'doctor'
+    ELSE NULL
+  END
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The transition table. 'system' may make any listed transition.
+CREATE OR REPLACE FUNCTION public.appointment_transition_allowed(_from TEXT, _to TEXT, _role TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (VALUES
+      ('requested', 'confirmed', 'doctor'),
+      ('requested', 'cancelled', 'doctor'),
+      ('requested', 'cancelled', 'patient'),
+      ('requested', 'rescheduled', 'doctor'),
+      ('requested', 'rescheduled', 'patient'),
+      ('confirmed', 'checked-in', 'doctor'),
+      ('confirmed', 'in-progress', 'doctor'),
+      ('confirmed', 'no-show', 'doctor'),
+      ('confirmed', 'cancelled', 'doctor'),
+      ('confirmed', 'cancelled', 'patient'),
+      ('confirmed', 'rescheduled', 'doctor'),
+      ('confirmed', 'rescheduled', 'patient'),
+      ('checked-in', 'in-progress', 'doctor'),
+      ('checked-in', 'cancelled', 'doctor'),
+      ('in-progress', 'completed', 'doctor')
+    ) AS t(from_status, to_status, role)
+    WHERE t.from_status = _from
+      AND t.to_status = _to
+      AND (t.role = _role OR _role = 'system')
+  )
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Reason for the change in progress, set by transition_appointment
+CREATE OR REPLACE FUNCTION public.appointment_status_reason()
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('app.appointment_status_reason', true), '')
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.enforce_appointment_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'requested' AND auth.uid() IS NOT NULL THEN
+      RAISE EXCEPTION 'New appointments start as requested' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  actor := public.appointment_actor_role(NEW.patient_id, NEW.doctor_id);
+
+  IF actor IS NULL OR NOT public.appointment_transition_allowed(OLD.status, NEW.status, actor) THEN
+    RAISE EXCEPTION 'An appointment that is % cannot be marked %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'no-show' AND NEW.scheduled_time > NOW() THEN
+    RAISE EXCEPTION 'An appointment cannot be marked no-show before it starts' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'cancelled' AND actor <> 'system' AND public.appointment_status_reason() IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to cancel an appointment' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_appointment_status
+  BEFORE INSERT OR UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_appointment_status();
+
+CREATE OR REPLACE FUNCTION public.log_appointment_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.appointment_status_changes (appointment_id, from_status, to_status, changed_by, actor_role, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    COALESCE(public.appointment_actor_role(NEW.patient_id, NEW.doctor_id), 'system'),
+    public.appointment_status_reason()
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_appointment_status_change
+  AFTER INSERT OR UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.log_appointment_status_change();
+
+-- Status changes from the app go through here so the reason lands in the
+-- history row written by the trigger. Direct updates are still checked by
+-- enforce_appointment_status.
+CREATE OR REPLACE FUNCTION public.transition_appointment(
+  _appointment_id UUID,
+  _status TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  appt public.appointments%ROWTYPE;
+BEGIN
+  SELECT * INTO appt FROM public.appointments WHERE id = _appointment_id FOR UPDATE;
+
+  IF NOT FOUND OR public.appointment_actor_role(appt.patient_id, appt.doctor_id) IS NULL THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  PERFORM set_config('app.appointment_status_reason', COALESCE(btrim(_reason), ''), true);
+
+  UPDATE public.appointments SET status = _status WHERE id = _appointment_id;
+
+  PERFORM set_config('app.appointment_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only live appointments hold the doctor's time
+ALTER TABLE public.appointments DROP CONSTRAINT appointments_no_doctor_overlap;
+
+ALTER TABLE public.appointments
+  ADD CONSTRAINT appointments_no_doctor_overlap
+  EXCLUDE USING gist (doctor_id WITH =, tstzrange(scheduled_time, ends_at) WITH &&)
+  WHERE (status NOT IN ('cancelled', 'no-show', 'rescheduled'));
+
+CREATE OR REPLACE FUNCTION public.get_doctor_busy_intervals(
+  _doctor_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (starts_at TIMESTAMP WITH TIME ZONE, ends_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT a.scheduled_time, a.ends_at
+  FROM public.appointments a
+  WHERE a.doctor_id = _doctor_id
+    AND a.status NOT IN ('cancelled', 'no-show', 'rescheduled')
+    AND a.scheduled_time < _to
+    AND a.ends_at > _from
+  UNION ALL
+  SELECT t.starts_at, t.ends_at
+  FROM public.doctor_time_off t
+  WHERE t.doctor_id = _doctor_id
+    AND t.starts_at < _to
+    AND t.ends_at > _from
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
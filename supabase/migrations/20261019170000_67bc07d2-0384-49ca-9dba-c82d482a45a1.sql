@@ -0,0 +1,290 @@
+-- Rescheduling and cancellation policy
+-- Patients reschedule by picking a new slot: the original appointment becomes
+-- 'rescheduled' and a new one is requested with rescheduled_from pointing back
+-- at it. Doctors propose an alternative time instead; if the patient accepts,
+-- the replacement appointment is created already confirmed.
+-- Each doctor sets a cancellation window; patients cancelling or rescheduling
+-- inside it must give a reason.
+
+ALTER TABLE public.doctors
+  ADD COLUMN cancellation_window_hours INTEGER NOT NULL DEFAULT 24
+    CHECK (cancellation_window_hours BETWEEN 0 AND 336);
+
+ALTER TABLE public.appointments
+  ADD COLUMN rescheduled_from UUID REFERENCES public.appointments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_appointments_rescheduled_from ON public.appointments(rescheduled_from);
+
+CREATE TABLE public.appointment_proposals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE CASCADE NOT NULL,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  proposed_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  message TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn')),
+  decline_reason TEXT,
+  -- The confirmed appointment created when the patient accepts
+  new_appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- At most one open proposal per appointment
+CREATE UNIQUE INDEX idx_appointment_proposals_pending
+  ON public.appointment_proposals(appointment_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_appointment_proposals_doctor ON public.appointment_proposals(doctor_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.appointment_proposals ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for appointment_proposals. Proposals are created through
+-- propose_appointment_time and answered through respond_to_appointment_proposal.
+CREATE POLICY "Patients can view proposals for their appointments"
+  ON public.appointment_proposals
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.appointments a
+    WHERE a.id = appointment_proposals.appointment_id AND a.patient_id = auth.uid()
+  ));
+
+CREATE POLICY "Doctors can view their proposals"
+  ON public.appointment_proposals
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = appointment_proposals.doctor_id AND d.user_id = auth.uid()));
+
+CREATE POLICY "Doctors can withdraw their pending proposals"
+  ON public.appointment_proposals
+  FOR UPDATE
+  USING (
+    status = 'pending'
+    AND EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = appointment_proposals.doctor_id AND d.user_id = auth.uid())
+  )
+  WITH CHECK (
+    status IN ('pending', 'withdrawn')
+    AND new_appointment_id IS NULL
+    AND EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = appointment_proposals.doctor_id AND d.user_id = auth.uid())
+  );
+
+-- True when an appointment at _scheduled_time is inside the doctor's
+-- cancellation window from now
+CREATE OR REPLACE FUNCTION public.appointment_within_cancellation_window(_doctor_id UUID, _scheduled_time TIMESTAMP WITH TIME ZONE)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT _scheduled_time - NOW() < make_interval(hours => d.cancellation_window_hours)
+     FROM public.doctors d WHERE d.id = _doctor_id),
+    false
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as before, plus: inserts may start confirmed only when they carry out
+-- an accepted doctor proposal, rescheduled_from must point at the same
+-- patient's and doctor's rescheduled appointment, and patients need a reason
+-- to cancel or reschedule inside the cancellation window.
+CREATE OR REPLACE FUNCTION public.enforce_appointment_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF auth.uid() IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    IF NEW.rescheduled_from IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.appointments o
+      WHERE o.id = NEW.rescheduled_from
+        AND o.patient_id = NEW.patient_id
+        AND o.doctor_id = NEW.doctor_id
+        AND o.status = 'rescheduled'
+    ) THEN
+      RAISE EXCEPTION 'Only a rescheduled appointment can be replaced' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'confirmed' AND EXISTS (
+      SELECT 1 FROM public.appointment_proposals p
+      WHERE p.appointment_id = NEW.rescheduled_from
+        AND p.status = 'accepted'
+        AND p.new_appointment_id IS NULL
+        AND p.proposed_time = NEW.scheduled_time
+    ) THEN
+      RETURN NEW;
+    END IF;
+
+    IF NEW.status <> 'requested' THEN
+      RAISE EXCEPTION 'New appointments start as requested' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  actor := public.appointment_actor_role(NEW.patient_id, NEW.doctor_id);
+
+  IF actor IS NULL OR NOT public.appointment_transition_allowed(OLD.status, NEW.status, actor) THEN
+    RAISE EXCEPTION 'An appointment that is % cannot be marked %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'no-show' AND NEW.scheduled_time > NOW() THEN
+    RAISE EXCEPTION 'An appointment cannot be marked no-show before it starts' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF public.appointment_status_reason() IS NULL THEN
+    IF NEW.status = 'cancelled' AND actor = 'doctor' THEN
+      RAISE EXCEPTION 'A reason is required to cancel an appointment' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status IN ('cancelled', 'rescheduled') AND actor = 'patient'
+       AND public.appointment_within_cancellation_window(NEW.doctor_id, NEW.scheduled_time) THEN
+      RAISE EXCEPTION 'A reason is required to change an appointment this close to its start'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Patient-initiated reschedule. The original is marked rescheduled before the
+-- replacement is inserted so a slot overlapping the old one is still free.
+-- Returns the new appointment id.
+CREATE OR REPLACE FUNCTION public.reschedule_appointment(
+  _appointment_id UUID,
+  _scheduled_time TIMESTAMP WITH TIME ZONE,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  appt public.appointments%ROWTYPE;
+  replacement_id UUID;
+BEGIN
+  SELECT * INTO appt FROM public.appointments WHERE id = _appointment_id FOR UPDATE;
+
+  IF NOT FOUND OR appt.patient_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF appt.status NOT IN ('requested', 'confirmed') THEN
+    RAISE EXCEPTION 'Only requested or confirmed appointments can be rescheduled';
+  END IF;
+
+  PERFORM set_config('app.appointment_status_reason', COALESCE(btrim(_reason), ''), true);
+
+  UPDATE public.appointments SET status = 'rescheduled' WHERE id = appt.id;
+
+  INSERT INTO public.appointments (patient_id, doctor_id, scheduled_time, duration, type, reason, status, rescheduled_from)
+  VALUES (appt.patient_id, appt.doctor_id, _scheduled_time, appt.duration, appt.type, appt.reason, 'requested', appt.id)
+  RETURNING id INTO replacement_id;
+
+  UPDATE public.appointment_proposals
+    SET status = 'withdrawn', responded_at = NOW()
+    WHERE appointment_id = appt.id AND status = 'pending';
+
+  PERFORM set_config('app.appointment_status_reason', '', true);
+
+  RETURN replacement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Doctor proposes a different time; replaces any open proposal
+CREATE OR REPLACE FUNCTION public.propose_appointment_time(
+  _appointment_id UUID,
+  _proposed_time TIMESTAMP WITH TIME ZONE,
+  _message TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  appt public.appointments%ROWTYPE;
+  proposal_id UUID;
+BEGIN
+  SELECT * INTO appt FROM public.appointments WHERE id = _appointment_id FOR UPDATE;
+
+  IF NOT FOUND OR public.appointment_actor_role(appt.patient_id, appt.doctor_id) IS DISTINCT FROM 'doctor' THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF appt.status NOT IN ('requested', 'confirmed') THEN
+    RAISE EXCEPTION 'Only requested or confirmed appointments can be moved';
+  END IF;
+
+  IF _proposed_time <= NOW() THEN
+    RAISE EXCEPTION 'The proposed time must be in the future';
+  END IF;
+
+  UPDATE public.appointment_proposals
+    SET status = 'withdrawn', responded_at = NOW()
+    WHERE appointment_id = appt.id AND status = 'pending';
+
+  INSERT INTO public.appointment_proposals (appointment_id, doctor_id, proposed_time, message)
+  VALUES (appt.id, appt.doctor_id, _proposed_time, NULLIF(btrim(_message), ''))
+  RETURNING id INTO proposal_id;
+
+  RETURN proposal_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Patient accepts or declines a proposal. Accepting reschedules the original
+-- and creates the replacement as confirmed; returns its id, or NULL when
+-- declining.
+CREATE OR REPLACE FUNCTION public.respond_to_appointment_proposal(
+  _proposal_id UUID,
+  _accept BOOLEAN,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  proposal public.appointment_proposals%ROWTYPE;
+  appt public.appointments%ROWTYPE;
+  replacement_id UUID;
+BEGIN
+  SELECT * INTO proposal FROM public.appointment_proposals WHERE id = _proposal_id FOR UPDATE;
+  SELECT * INTO appt FROM public.appointments WHERE id = proposal.appointment_id FOR UPDATE;
+
+  IF proposal.id IS NULL OR appt.patient_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Proposal not found';
+  END IF;
+
+  IF proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'Proposal has already been %', proposal.status;
+  END IF;
+
+  IF NOT _accept THEN
+    UPDATE public.appointment_proposals
+      SET status = 'declined', decline_reason = NULLIF(btrim(_reason), ''), responded_at = NOW()
+      WHERE id = proposal.id;
+    RETURN NULL;
+  END IF;
+
+  IF appt.status NOT IN ('requested', 'confirmed') THEN
+    RAISE EXCEPTION 'This appointment can no longer be rescheduled';
+  END IF;
+
+  UPDATE public.appointment_proposals
+    SET status = 'accepted', responded_at = NOW()
+    WHERE id = proposal.id;
+
+  PERFORM set_config(
+    'app.appointment_status_reason',
+    COALESCE(NULLIF(btrim(_reason), ''), 'Accepted the doctor''s proposed time'),
+    true
+  );
+
+  UPDATE public.appointments SET status = 'rescheduled' WHERE id = appt.id;
+
+  INSERT INTO public.appointments (patient_id, doctor_id, scheduled_time, duration, type, reason, status, rescheduled_from)
+  VALUES (appt.patient_id, appt.doctor_id, proposal.proposed_time, appt.duration, appt.type, appt.reason, 'confirmed', appt.id)
+  RETURNING id INTO replacement_id;
+
+  UPDATE public.appointment_proposals
+    SET new_appointment_id = replacement_id
+    WHERE id = proposal.id;
+
+  PERFORM set_config('app.appointment_status_reason', '', true);
+
+  RETURN replacement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
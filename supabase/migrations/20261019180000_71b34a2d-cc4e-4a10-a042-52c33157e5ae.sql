@@ -0,0 +1,394 @@
+-- Recurring appointment series
+-- A series is a weekly rule (every N weeks, until a date or for a number of
+-- visits) that is expanded into ordinary appointments up front, so every
+-- occurrence goes through the same slot validation, overlap constraint and
+-- status lifecycle as a one-off booking. Occurrences keep series_id through
+-- reschedules, and can be edited one at a time with the existing flows or all
+-- together with update_appointment_series.
+CREATE TABLE public.appointment_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  type VARCHAR(20) NOT NULL DEFAULT 'in-person',
+  duration INTEGER,
+  reason TEXT,
+  -- First visit of the current rule; occurrences keep its wall-clock time in
+  -- the doctor's timezone across DST changes
+  first_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  interval_weeks INTEGER NOT NULL CHECK (interval_weeks BETWEEN 1 AND 52),
+  until_date DATE,
+  occurrence_count INTEGER CHECK (occurrence_count BETWEEN 1 AND 26),
+  -- RFC 5545 rule, e.g. FREQ=WEEKLY;INTERVAL=6;COUNT=5
+  rrule TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'ended')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK ((until_date IS NULL) <> (occurrence_count IS NULL))
+);
+
+ALTER TABLE public.appointments
+  ADD COLUMN series_id UUID REFERENCES public.appointment_series(id) ON DELETE SET NULL,
+  ADD COLUMN series_index INTEGER;
+
+CREATE INDEX idx_appointments_series ON public.appointments(series_id, scheduled_time);
+CREATE INDEX idx_appointment_series_patient ON public.appointment_series(patient_id);
+CREATE INDEX idx_appointment_series_doctor ON public.appointment_series(doctor_id);
+
+-- Enable RLS
+ALTER TABLE public.appointment_series ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for appointment_series. Series are created and changed through
+-- the functions below.
+CREATE POLICY "Patients can view their appointment series"
+  ON public.appointment_series
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+CREATE POLICY "Doctors can view their appointment series"
+  ON public.appointment_series
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = appointment_series.doctor_id AND d.user_id = auth.uid()));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_appointment_series_updated_at
+  BEFORE UPDATE ON public.appointment_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A replacement made by rescheduling stays in its original's series
+CREATE OR REPLACE FUNCTION public.inherit_appointment_series()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.rescheduled_from IS NOT NULL AND NEW.series_id IS NULL THEN
+    SELECT series_id, series_index INTO NEW.series_id, NEW.series_index
+    FROM public.appointments
+    WHERE id = NEW.rescheduled_from;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER inherit_appointment_series
+  BEFORE INSERT ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.inherit_appointment_series();
+
+-- As before, but a doctor may also book their own patient straight into
+-- 'confirmed' (used when a doctor edits a series).
+CREATE OR REPLACE FUNCTION public.enforce_appointment_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF auth.uid() IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    IF NEW.rescheduled_from IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.appointments o
+      WHERE o.id = NEW.rescheduled_from
+        AND o.patient_id = NEW.patient_id
+        AND o.doctor_id = NEW.doctor_id
+        AND o.status = 'rescheduled'
+    ) THEN
+      RAISE EXCEPTION 'Only a rescheduled appointment can be replaced' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'confirmed' AND (
+      public.appointment_actor_role(NEW.patient_id, NEW.doctor_id) = 'doctor'
+      OR EXISTS (
+        SELECT 1 FROM public.appointment_proposals p
+        WHERE p.appointment_id = NEW.rescheduled_from
+          AND p.status = 'accepted'
+          AND p.new_appointment_id IS NULL
+          AND p.proposed_time = NEW.scheduled_time
+      )
+    ) THEN
+      RETURN NEW;
+    END IF;
+
+    IF NEW.status <> 'requested' THEN
+      RAISE EXCEPTION 'New appointments start as requested' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  actor := public.appointment_actor_role(NEW.patient_id, NEW.doctor_id);
+
+  IF actor IS NULL OR NOT public.appointment_transition_allowed(OLD.status, NEW.status, actor) THEN
+    RAISE EXCEPTION 'An appointment that is % cannot be marked %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'no-show' AND NEW.scheduled_time > NOW() THEN
+    RAISE EXCEPTION 'An appointment cannot be marked no-show before it starts' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF public.appointment_status_reason() IS NULL THEN
+    IF NEW.status = 'cancelled' AND actor = 'doctor' THEN
+      RAISE EXCEPTION 'A reason is required to cancel an appointment' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status IN ('cancelled', 'rescheduled') AND actor = 'patient'
+       AND public.appointment_within_cancellation_window(NEW.doctor_id, NEW.scheduled_time) THEN
+      RAISE EXCEPTION 'A reason is required to change an appointment this close to its start'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Occurrence start times for a weekly rule, at most 26. Stepping happens on
+-- the doctor's wall clock so a 09:00 visit stays at 09:00 across DST.
+CREATE OR REPLACE FUNCTION public.series_occurrence_times(
+  _first_start TIMESTAMP WITH TIME ZONE,
+  _timezone TEXT,
+  _interval_weeks INTEGER,
+  _until DATE,
+  _count INTEGER
+)
+RETURNS TABLE (occurrence_index INTEGER, scheduled_time TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT k + 1, local_start AT TIME ZONE _timezone
+  FROM generate_series(0, LEAST(COALESCE(_count, 26), 26) - 1) AS k,
+       LATERAL (SELECT (_first_start AT TIME ZONE _timezone) + make_interval(weeks => k * _interval_weeks) AS local_start) l
+  WHERE _until IS NULL OR local_start::date <= _until
+  ORDER BY k
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.series_rrule(_timezone TEXT, _interval_weeks INTEGER, _until DATE, _count INTEGER)
+RETURNS TEXT AS $$
+  SELECT 'FREQ=WEEKLY;INTERVAL=' || _interval_weeks || CASE
+    WHEN _count IS NOT NULL THEN ';COUNT=' || _count
+    ELSE ';UNTIL=' || to_char(((_until + 1)::timestamp AT TIME ZONE _timezone) AT TIME ZONE 'UTC' - INTERVAL '1 second', 'YYYYMMDD"T"HH24MISS"Z"')
+  END
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.validate_series_rule(
+  _first_start TIMESTAMP WITH TIME ZONE,
+  _interval_weeks INTEGER,
+  _until DATE,
+  _count INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  IF _interval_weeks IS NULL OR _interval_weeks NOT BETWEEN 1 AND 52 THEN
+    RAISE EXCEPTION 'Visits must repeat every 1 to 52 weeks';
+  END IF;
+  IF (_until IS NULL) = (_count IS NULL) THEN
+    RAISE EXCEPTION 'A series ends either on a date or after a number of visits';
+  END IF;
+  IF _count IS NOT NULL AND _count NOT BETWEEN 1 AND 26 THEN
+    RAISE EXCEPTION 'A series can have at most 26 visits';
+  END IF;
+  IF _until IS NOT NULL AND (_until < _first_start::date OR _until > (_first_start + INTERVAL '2 years')::date) THEN
+    RAISE EXCEPTION 'The series must end within two years of its first visit';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Books one occurrence, or reports why it couldn't be booked. Runs with the
+-- caller's rights, so called directly it is limited by the appointments RLS
+-- like any other insert.
+CREATE OR REPLACE FUNCTION public.insert_series_occurrence(
+  _series_id UUID,
+  _index INTEGER,
+  _scheduled_time TIMESTAMP WITH TIME ZONE,
+  _status TEXT,
+  _rescheduled_from UUID,
+  OUT appointment_id UUID,
+  OUT skip_reason TEXT
+) AS $$
+DECLARE
+  s public.appointment_series%ROWTYPE;
+BEGIN
+  SELECT * INTO s FROM public.appointment_series WHERE id = _series_id;
+
+  BEGIN
+    INSERT INTO public.appointments (
+      patient_id, doctor_id, scheduled_time, duration, type, reason, status, series_id, series_index, rescheduled_from
+    )
+    VALUES (
+      s.patient_id, s.doctor_id, _scheduled_time, s.duration, s.type, s.reason, _status, s.id, _index, _rescheduled_from
+    )
+    RETURNING id INTO appointment_id;
+  EXCEPTION
+    WHEN exclusion_violation THEN
+      skip_reason := 'The doctor is already booked at this time';
+    WHEN check_violation THEN
+      skip_reason := SQLERRM;
+  END;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Patient books a series with a doctor. Visits that clash with the doctor's
+-- calendar are skipped rather than failing the whole series; one row comes
+-- back per visit with its appointment id or the reason it was skipped.
+CREATE OR REPLACE FUNCTION public.create_appointment_series(
+  _doctor_id UUID,
+  _first_start TIMESTAMP WITH TIME ZONE,
+  _type TEXT,
+  _reason TEXT,
+  _interval_weeks INTEGER,
+  _until DATE DEFAULT NULL,
+  _count INTEGER DEFAULT NULL
+)
+RETURNS TABLE (series_id UUID, scheduled_time TIMESTAMP WITH TIME ZONE, appointment_id UUID, skip_reason TEXT) AS $$
+DECLARE
+  tz TEXT;
+  new_series_id UUID;
+  occurrence RECORD;
+  booked RECORD;
+  booked_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT timezone INTO tz FROM public.doctors WHERE id = _doctor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Doctor not found';
+  END IF;
+
+  PERFORM public.validate_series_rule(_first_start, _interval_weeks, _until, _count);
+
+  INSERT INTO public.appointment_series (
+    patient_id, doctor_id, type, reason, first_start, interval_weeks, until_date, occurrence_count, rrule
+  )
+  VALUES (
+    auth.uid(), _doctor_id, COALESCE(_type, 'in-person'), NULLIF(btrim(_reason), ''), _first_start, _interval_weeks,
+    _until, _count, public.series_rrule(tz, _interval_weeks, _until, _count)
+  )
+  RETURNING id INTO new_series_id;
+
+  FOR occurrence IN
+    SELECT * FROM public.series_occurrence_times(_first_start, tz, _interval_weeks, _until, _count)
+  LOOP
+    booked := public.insert_series_occurrence(new_series_id, occurrence.occurrence_index, occurrence.scheduled_time, 'requested', NULL);
+    IF booked.appointment_id IS NOT NULL THEN
+      booked_count := booked_count + 1;
+    END IF;
+    series_id := new_series_id;
+    scheduled_time := occurrence.scheduled_time;
+    appointment_id := booked.appointment_id;
+    skip_reason := booked.skip_reason;
+    RETURN NEXT;
+  END LOOP;
+
+  IF booked_count = 0 THEN
+    RAISE EXCEPTION 'None of the visits in this series could be booked';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replaces the rule for the rest of a series. Upcoming requested/confirmed
+-- visits are marked rescheduled and new ones are booked from _first_start,
+-- each linked to the visit it replaces where there is one. Visits booked by
+-- the doctor start confirmed; by the patient, requested.
+CREATE OR REPLACE FUNCTION public.update_appointment_series(
+  _series_id UUID,
+  _first_start TIMESTAMP WITH TIME ZONE,
+  _interval_weeks INTEGER,
+  _until DATE DEFAULT NULL,
+  _count INTEGER DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS TABLE (series_id UUID, scheduled_time TIMESTAMP WITH TIME ZONE, appointment_id UUID, skip_reason TEXT) AS $$
+DECLARE
+  s public.appointment_series%ROWTYPE;
+  actor TEXT;
+  tz TEXT;
+  replaced UUID[];
+  next_index INTEGER;
+  occurrence RECORD;
+  booked RECORD;
+BEGIN
+  SELECT * INTO s FROM public.appointment_series WHERE id = _series_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  actor := public.appointment_actor_role(s.patient_id, s.doctor_id);
+  IF COALESCE(actor, 'system') = 'system' THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  PERFORM public.validate_series_rule(_first_start, _interval_weeks, _until, _count);
+  SELECT timezone INTO tz FROM public.doctors WHERE id = s.doctor_id;
+
+  SELECT array_agg(a.id ORDER BY a.scheduled_time) INTO replaced
+  FROM public.appointments a
+  WHERE a.series_id = s.id
+    AND a.status IN ('requested', 'confirmed')
+    AND a.scheduled_time > NOW();
+
+  SELECT COALESCE(MAX(a.series_index), 0) + 1 INTO next_index
+  FROM public.appointments a
+  WHERE a.series_id = s.id
+    AND NOT (a.id = ANY (COALESCE(replaced, '{}')))
+    AND a.status <> 'rescheduled';
+
+  PERFORM set_config('app.appointment_status_reason', COALESCE(NULLIF(btrim(_reason), ''), ''), true);
+
+  UPDATE public.appointments SET status = 'rescheduled' WHERE id = ANY (COALESCE(replaced, '{}'));
+
+  UPDATE public.appointment_series
+    SET first_start = _first_start,
+        interval_weeks = _interval_weeks,
+        until_date = _until,
+        occurrence_count = _count,
+        rrule = public.series_rrule(tz, _interval_weeks, _until, _count),
+        status = 'active'
+    WHERE id = s.id;
+
+  FOR occurrence IN
+    SELECT * FROM public.series_occurrence_times(_first_start, tz, _interval_weeks, _until, _count)
+  LOOP
+    booked := public.insert_series_occurrence(
+      s.id,
+      next_index + occurrence.occurrence_index - 1,
+      occurrence.scheduled_time,
+      CASE WHEN actor = 'doctor' THEN 'confirmed' ELSE 'requested' END,
+      replaced[occurrence.occurrence_index]
+    );
+    series_id := s.id;
+    scheduled_time := occurrence.scheduled_time;
+    appointment_id := booked.appointment_id;
+    skip_reason := booked.skip_reason;
+    RETURN NEXT;
+  END LOOP;
+
+  PERFORM set_config('app.appointment_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancels every upcoming visit in a series and ends it
+CREATE OR REPLACE FUNCTION public.cancel_appointment_series(_series_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  s public.appointment_series%ROWTYPE;
+BEGIN
+  SELECT * INTO s FROM public.appointment_series WHERE id = _series_id FOR UPDATE;
+
+  IF NOT FOUND OR COALESCE(public.appointment_actor_role(s.patient_id, s.doctor_id), 'system') = 'system' THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  PERFORM set_config('app.appointment_status_reason', COALESCE(NULLIF(btrim(_reason), ''), ''), true);
+
+  UPDATE public.appointments
+    SET status = 'cancelled'
+    WHERE series_id = s.id
+      AND status IN ('requested', 'confirmed')
+      AND scheduled_time > NOW();
+
+  UPDATE public.appointment_series SET status = 'ended' WHERE id = s.id;
+
+  PERFORM set_config('app.appointment_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,62 @@
+-- iCalendar invites and subscription feeds
+-- Every change a calendar app would care about bumps ics_sequence, which the
+-- .ics output uses as SEQUENCE so clients replace their copy of the event.
+ALTER TABLE public.appointments ADD COLUMN ics_sequence INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.bump_appointment_ics_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.scheduled_time IS DISTINCT FROM OLD.scheduled_time
+     OR NEW.duration IS DISTINCT FROM OLD.duration
+     OR NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.type IS DISTINCT FROM OLD.type
+     OR NEW.reason IS DISTINCT FROM OLD.reason
+     OR NEW.video_room_url IS DISTINCT FROM OLD.video_room_url THEN
+    NEW.ics_sequence := OLD.ics_sequence + 1;
+  ELSE
+    NEW.ics_sequence := OLD.ics_sequence;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER bump_appointment_ics_sequence
+  BEFORE UPDATE ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.bump_appointment_ics_sequence();
+
+-- Calendar subscription feeds. The URL carries a random token; only its
+-- SHA-256 hash is kept here (see _shared/calendarFeed.ts). The calendar-feed
+-- function looks feeds up with the service role.
+CREATE TABLE public.calendar_feeds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  label TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked')),
+  last_accessed_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for calendar_feeds
+CREATE POLICY "Users can view their own calendar feeds"
+  ON public.calendar_feeds
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own calendar feeds"
+  ON public.calendar_feeds
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND status = 'active');
+
+-- Revoking is one-way
+CREATE POLICY "Users can revoke their own calendar feeds"
+  ON public.calendar_feeds
+  FOR UPDATE
+  USING (auth.uid() = user_id AND status = 'active')
+  WITH CHECK (auth.uid() = user_id AND status = 'revoked');
+
+CREATE INDEX idx_calendar_feeds_user_id ON public.calendar_feeds(user_id, created_at DESC);
@@ -0,0 +1,314 @@
+-- In-app notifications
+-- Rows are written server-side only: by the triggers below for things that
+-- happen in the app (messages, appointment changes) and by the send-reminders
+-- function for scheduled reminders. Users can read, mark read and delete
+-- their own. dedupe_key makes producers idempotent, so a reminder job that
+-- runs twice, or a trigger that fires for every visit in a series, still
+-- leaves one notification.
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  category VARCHAR(40) NOT NULL CHECK (category IN (
+    'appointment_reminder', 'appointment_update', 'message',
+    'medication_reminder', 'cycle_reminder', 'vitals_reminder'
+  )),
+  title TEXT NOT NULL,
+  body TEXT,
+  -- In-app route to open, e.g. /patient/appointments
+  link TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX idx_notifications_user ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notifications
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+  ON public.notifications
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+  ON public.notifications
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Marking read is the only change users may make
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- The bell in BaseLayout subscribes to the user's rows
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Per-user notification preferences. No row means everything is on.
+CREATE TABLE public.notification_preferences (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  appointment_reminders BOOLEAN NOT NULL DEFAULT TRUE,
+  appointment_updates BOOLEAN NOT NULL DEFAULT TRUE,
+  messages BOOLEAN NOT NULL DEFAULT TRUE,
+  medication_reminders BOOLEAN NOT NULL DEFAULT TRUE,
+  cycle_reminders BOOLEAN NOT NULL DEFAULT TRUE,
+  vitals_reminders BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Remind after this many days without a vitals reading
+  vitals_reminder_days INTEGER NOT NULL DEFAULT 3 CHECK (vitals_reminder_days BETWEEN 1 AND 30),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notification_preferences
+CREATE POLICY "Users can view their own notification preferences"
+  ON public.notification_preferences
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+  ON public.notification_preferences
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.notification_enabled(_user_id UUID, _category TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT CASE _category
+      WHEN 'appointment_reminder' THEN p.appointment_reminders
+      WHEN 'appointment_update' THEN p.appointment_updates
+      WHEN 'message' THEN p.messages
+      WHEN 'medication_reminder' THEN p.medication_reminders
+      WHEN 'cycle_reminder' THEN p.cycle_reminders
+      WHEN 'vitals_reminder' THEN p.vitals_reminders
+    END
+    FROM public.notification_preferences p
+    WHERE p.user_id = _user_id
+  ), TRUE)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Preferences are applied here so no producer can forget them: a
+-- notification in a category the user turned off is silently dropped.
+CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.notification_enabled(NEW.user_id, NEW.category) THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER apply_notification_preferences
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.apply_notification_preferences();
+
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _category TEXT,
+  _title TEXT,
+  _body TEXT DEFAULT NULL,
+  _link TEXT DEFAULT NULL,
+  _data JSONB DEFAULT '{}'::jsonb,
+  _dedupe_key TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, category, title, body, link, data, dedupe_key)
+  VALUES (_user_id, _category, _title, _body, _link, COALESCE(_data, '{}'::jsonb), _dedupe_key)
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only triggers and the service role create notifications
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- New messages: one notification per conversation, refreshed and marked
+-- unread again by each new message until the user reads it
+CREATE OR REPLACE FUNCTION public.notify_new_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  sender_doctor TEXT;
+  receiver_is_doctor BOOLEAN;
+BEGIN
+  SELECT full_name INTO sender_doctor FROM public.doctors WHERE user_id = NEW.sender_id;
+  receiver_is_doctor := EXISTS (SELECT 1 FROM public.doctors WHERE user_id = NEW.receiver_id);
+
+  INSERT INTO public.notifications (user_id, category, title, body, link, data, dedupe_key)
+  VALUES (
+    NEW.receiver_id,
+    'message',
+    CASE WHEN sender_doctor IS NOT NULL THEN 'New message from ' || sender_doctor ELSE 'New message from a patient' END,
+    left(NEW.content, 140),
+    CASE WHEN receiver_is_doctor THEN '/doctor/messages' ELSE '/patient/messages' END,
+    jsonb_build_object('message_id', NEW.id, 'sender_id', NEW.sender_id),
+    'message:' || NEW.sender_id
+  )
+  ON CONFLICT (user_id, dedupe_key) DO UPDATE
+    SET title = EXCLUDED.title,
+        body = EXCLUDED.body,
+        data = EXCLUDED.data,
+        read_at = NULL,
+        created_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_new_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.notify_new_message();
+
+-- Appointment changes, from the status history: whoever didn't make the
+-- change hears about it. Changes to several visits of a series in one
+-- transaction (booking, editing or cancelling the series) collapse into one
+-- notification about the first of them.
+CREATE OR REPLACE FUNCTION public.notify_appointment_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  appt RECORD;
+  when_text TEXT;
+  notify_patient BOOLEAN;
+  title TEXT;
+  dedupe TEXT;
+BEGIN
+  IF NEW.to_status NOT IN ('requested', 'confirmed', 'cancelled', 'no-show') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT a.id, a.patient_id, a.scheduled_time, a.series_id, a.rescheduled_from,
+         d.user_id AS doctor_user_id, d.full_name AS doctor_name, d.timezone
+    INTO appt
+    FROM public.appointments a
+    JOIN public.doctors d ON d.id = a.doctor_id
+   WHERE a.id = NEW.appointment_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  when_text := to_char(appt.scheduled_time AT TIME ZONE appt.timezone, 'Mon FMDD, HH24:MI') || ' (' || appt.timezone || ')';
+  notify_patient := NEW.actor_role <> 'patient';
+
+  title := CASE
+    WHEN NEW.to_status = 'requested' AND appt.rescheduled_from IS NOT NULL THEN 'Reschedule requested'
+    WHEN NEW.to_status = 'requested' THEN 'New appointment request'
+    WHEN NEW.to_status = 'confirmed' AND NEW.from_status IS NULL AND NEW.actor_role = 'patient' THEN 'Proposed time accepted'
+    WHEN NEW.to_status = 'confirmed' AND NEW.from_status IS NULL THEN 'Appointment scheduled'
+    WHEN NEW.to_status = 'confirmed' THEN 'Appointment confirmed'
+    WHEN NEW.to_status = 'cancelled' THEN 'Appointment cancelled'
+    ELSE 'Appointment marked as missed'
+  END;
+
+  IF appt.series_id IS NOT NULL THEN
+    dedupe := 'appointment-series:' || appt.series_id || ':' || NEW.to_status || ':' || txid_current();
+    title := replace(replace(title, 'Appointment', 'Recurring visits'), 'New appointment request', 'Recurring visits requested');
+    when_text := 'from ' || when_text;
+  ELSE
+    dedupe := 'appointment:' || appt.id || ':' || NEW.to_status;
+  END IF;
+
+  PERFORM public.create_notification(
+    CASE WHEN notify_patient THEN appt.patient_id ELSE appt.doctor_user_id END,
+    'appointment_update',
+    title,
+    CASE WHEN notify_patient THEN 'With ' || appt.doctor_name || ', ' ELSE '' END
+      || when_text
+      || CASE WHEN NEW.reason IS NOT NULL THEN '. Reason: ' || NEW.reason ELSE '' END,
+    CASE WHEN notify_patient THEN '/patient/appointments' ELSE '/doctor/appointments' END,
+    jsonb_build_object('appointment_id', appt.id, 'status', NEW.to_status),
+    dedupe
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_appointment_status_change
+  AFTER INSERT ON public.appointment_status_changes
+  FOR EACH ROW EXECUTE FUNCTION public.notify_appointment_status_change();
+
+CREATE OR REPLACE FUNCTION public.notify_appointment_proposal()
+RETURNS TRIGGER AS $$
+DECLARE
+  appt RECORD;
+BEGIN
+  SELECT a.patient_id, d.full_name AS doctor_name, d.timezone
+    INTO appt
+    FROM public.appointments a
+    JOIN public.doctors d ON d.id = a.doctor_id
+   WHERE a.id = NEW.appointment_id;
+
+  PERFORM public.create_notification(
+    appt.patient_id,
+    'appointment_update',
+    appt.doctor_name || ' proposed a new time',
+    to_char(NEW.proposed_time AT TIME ZONE appt.timezone, 'Mon FMDD, HH24:MI') || ' (' || appt.timezone || ')'
+      || CASE WHEN NEW.message IS NOT NULL THEN '. ' || NEW.message ELSE '' END,
+    '/patient/appointments',
+    jsonb_build_object('appointment_id', NEW.appointment_id, 'proposal_id', NEW.id),
+    'appointment-proposal:' || NEW.id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_appointment_proposal
+  AFTER INSERT ON public.appointment_proposals
+  FOR EACH ROW EXECUTE FUNCTION public.notify_appointment_proposal();
+
+-- Patients whose latest vitals reading is older than their reminder
+-- setting, for the send-reminders function. Only patients who have logged
+-- vitals before are reminded.
+CREATE OR REPLACE FUNCTION public.patients_due_vitals_reminder()
+RETURNS TABLE (user_id UUID, last_recorded_at TIMESTAMP WITH TIME ZONE, reminder_days INTEGER) AS $$
+  SELECT v.user_id, MAX(v.recorded_at), COALESCE(p.vitals_reminder_days, 3)
+  FROM public.vital_signs v
+  LEFT JOIN public.notification_preferences p ON p.user_id = v.user_id
+  GROUP BY v.user_id, p.vitals_reminder_days
+  HAVING MAX(v.recorded_at) < NOW() - make_interval(days => COALESCE(p.vitals_reminder_days, 3))
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.patients_due_vitals_reminder() FROM PUBLIC, anon, authenticated;
+
+-- Run send-reminders every 15 minutes. The project URL and service role key
+-- are read from Vault; create them once per project with
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-reminders',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,266 @@
+-- Outbound notification delivery: email, SMS and Web Push
+-- Every in-app notification is queued here once per channel the user has
+-- enabled; the deliver-notifications function sends the queue through the
+-- configured providers (see _shared/transports.ts) with retries and
+-- per-recipient rate limits. Emergency contacts, who have no account, are
+-- reached through the same queue with their stored email and phone.
+
+-- Channel preferences. Email and push are on by default (push only reaches
+-- devices the user has subscribed); SMS needs a number and is opt-in.
+ALTER TABLE public.notification_preferences
+  ADD COLUMN email_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN sms_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN push_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN sms_phone TEXT;
+
+-- Web Push subscriptions, one per browser/device
+CREATE TABLE public.push_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- Enable RLS
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for push_subscriptions
+CREATE POLICY "Users can view their own push subscriptions"
+  ON public.push_subscriptions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+  ON public.push_subscriptions
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Subscriptions are registered through this function: a browser has one
+-- endpoint, which moves to whoever signs in on it last
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  _endpoint TEXT,
+  _p256dh TEXT,
+  _auth TEXT,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  subscription_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        p256dh = EXCLUDED.p256dh,
+        auth = EXCLUDED.auth,
+        user_agent = EXCLUDED.user_agent,
+        created_at = NOW()
+  RETURNING id INTO subscription_id;
+
+  RETURN subscription_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Delivery queue and log. user_id is the account the delivery belongs to:
+-- the recipient, or the patient whose emergency contact is being reached.
+CREATE TABLE public.notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+  emergency_contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  channel VARCHAR(10) NOT NULL CHECK (channel IN ('email', 'sms', 'push')),
+  -- Notification category, or emergency_contact_test for contact test messages
+  category VARCHAR(40) NOT NULL,
+  priority VARCHAR(10) NOT NULL DEFAULT 'normal' CHECK (priority IN ('normal', 'urgent')),
+  subject TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  -- Set when queued for emergency contacts, otherwise resolved when sent
+  destination TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  provider VARCHAR(40),
+  provider_message_id TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_notification_deliveries_queue
+  ON public.notification_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+CREATE INDEX idx_notification_deliveries_user ON public.notification_deliveries(user_id, created_at DESC);
+CREATE INDEX idx_notification_deliveries_sent
+  ON public.notification_deliveries(user_id, sent_at)
+  WHERE status = 'sent';
+
+-- Enable RLS
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; the queue is written by triggers and the service role
+CREATE POLICY "Users can view their own notification deliveries"
+  ON public.notification_deliveries
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON public.notification_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue a new notification on the user's enabled channels. Categories the
+-- user turned off never get here (apply_notification_preferences drops them).
+CREATE OR REPLACE FUNCTION public.enqueue_notification_deliveries()
+RETURNS TRIGGER AS $$
+DECLARE
+  prefs public.notification_preferences%ROWTYPE;
+BEGIN
+  -- No preferences row leaves every field NULL, i.e. the defaults
+  SELECT * INTO prefs FROM public.notification_preferences WHERE user_id = NEW.user_id;
+
+  IF COALESCE(prefs.email_enabled, TRUE) THEN
+    INSERT INTO public.notification_deliveries (user_id, notification_id, channel, category, subject, body, link)
+    VALUES (NEW.user_id, NEW.id, 'email', NEW.category, NEW.title, NEW.body, NEW.link);
+  END IF;
+
+  IF COALESCE(prefs.sms_enabled, FALSE) AND prefs.sms_phone IS NOT NULL THEN
+    INSERT INTO public.notification_deliveries (user_id, notification_id, channel, category, subject, body, link)
+    VALUES (NEW.user_id, NEW.id, 'sms', NEW.category, NEW.title, NEW.body, NEW.link);
+  END IF;
+
+  IF COALESCE(prefs.push_enabled, TRUE)
+     AND EXISTS (SELECT 1 FROM public.push_subscriptions WHERE user_id = NEW.user_id) THEN
+    INSERT INTO public.notification_deliveries (user_id, notification_id, channel, category, subject, body, link)
+    VALUES (NEW.user_id, NEW.id, 'push', NEW.category, NEW.title, NEW.body, NEW.link);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enqueue_notification_deliveries
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_notification_deliveries();
+
+-- Queue a message to an emergency contact by email (when they have one) and
+-- SMS. Returns the number of deliveries queued. Internal: callers check that
+-- the contact may be reached.
+CREATE OR REPLACE FUNCTION public.enqueue_emergency_contact_delivery(
+  _contact_id UUID,
+  _category TEXT,
+  _subject TEXT,
+  _body TEXT,
+  _link TEXT DEFAULT NULL,
+  _priority TEXT DEFAULT 'normal'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  contact public.emergency_contacts%ROWTYPE;
+  queued INTEGER := 0;
+BEGIN
+  SELECT * INTO contact FROM public.emergency_contacts WHERE id = _contact_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Emergency contact not found';
+  END IF;
+
+  IF NULLIF(btrim(contact.email), '') IS NOT NULL THEN
+    INSERT INTO public.notification_deliveries
+      (user_id, emergency_contact_id, channel, category, priority, subject, body, link, destination)
+    VALUES (contact.user_id, contact.id, 'email', _category, _priority, _subject, _body, _link, btrim(contact.email));
+    queued := queued + 1;
+  END IF;
+
+  IF NULLIF(btrim(contact.phone), '') IS NOT NULL THEN
+    INSERT INTO public.notification_deliveries
+      (user_id, emergency_contact_id, channel, category, priority, subject, body, link, destination)
+    VALUES (contact.user_id, contact.id, 'sms', _category, _priority, _subject, _body, _link, btrim(contact.phone));
+    queued := queued + 1;
+  END IF;
+
+  RETURN queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_emergency_contact_delivery(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Lets a patient check that a contact is reachable before it matters.
+-- Limited to one test per contact per hour.
+CREATE OR REPLACE FUNCTION public.send_emergency_contact_test(_contact_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  account_email TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.emergency_contacts WHERE id = _contact_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Emergency contact not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.notification_deliveries
+    WHERE emergency_contact_id = _contact_id
+      AND category = 'emergency_contact_test'
+      AND created_at > NOW() - INTERVAL '1 hour'
+  ) THEN
+    RAISE EXCEPTION 'A test message was sent to this contact in the last hour';
+  END IF;
+
+  SELECT email INTO account_email FROM auth.users WHERE id = auth.uid();
+
+  RETURN public.enqueue_emergency_contact_delivery(
+    _contact_id,
+    'emergency_contact_test',
+    'You are an emergency contact on Health Twin',
+    COALESCE(account_email, 'A Health Twin user') || ' added you as an emergency contact. '
+      || 'This is a test message to confirm we can reach you; no action is needed.'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Claim due deliveries for sending. Rows left in 'sending' by a worker that
+-- died are picked up again after ten minutes. Urgent deliveries go first.
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.notification_deliveries AS $$
+  UPDATE public.notification_deliveries
+  SET status = 'sending'
+  WHERE id IN (
+    SELECT id FROM public.notification_deliveries
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND updated_at < NOW() - INTERVAL '10 minutes')
+    ORDER BY (priority = 'urgent') DESC, next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notification_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Work the queue every minute, with the same Vault secrets as send-reminders
+SELECT cron.schedule(
+  'deliver-notifications',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/deliver-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,188 @@
+-- Emergency SOS
+-- An SOS is raised by the patient (dashboard button) or by a paired device
+-- reporting a critical reading. The sos edge function alerts the primary
+-- emergency contact first and, if nobody acknowledges within a few minutes,
+-- everyone else, through the notification delivery queue. Contacts
+-- acknowledge with a one-time link. Device-raised SOS wait a short grace
+-- period first so the patient can cancel a false alarm.
+CREATE TABLE public.sos_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  trigger_source VARCHAR(20) NOT NULL CHECK (trigger_source IN ('manual', 'device')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'active', 'acknowledged', 'resolved', 'cancelled')),
+  -- Why it was raised, e.g. the critical reading
+  reason TEXT,
+  -- Optional note from the patient
+  message TEXT,
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  location_accuracy_m DOUBLE PRECISION,
+  vital_sign_id UUID REFERENCES public.vital_signs(id) ON DELETE SET NULL,
+  device_id TEXT,
+  -- 0: nobody alerted yet, 1: primary contact, 2: all contacts
+  escalation_level INTEGER NOT NULL DEFAULT 0,
+  -- Contacts are alerted from this time (later than created_at for device SOS)
+  notify_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  next_escalation_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- At most one open SOS per patient
+CREATE UNIQUE INDEX idx_sos_events_open
+  ON public.sos_events(user_id)
+  WHERE status IN ('pending', 'active', 'acknowledged');
+CREATE INDEX idx_sos_events_user ON public.sos_events(user_id, created_at DESC);
+CREATE INDEX idx_sos_events_due ON public.sos_events(notify_after, next_escalation_at)
+  WHERE status IN ('pending', 'active');
+
+-- One row per contact alerted. The acknowledgement link carries a random
+-- token; only its SHA-256 hash is stored.
+CREATE TABLE public.sos_contact_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sos_event_id UUID REFERENCES public.sos_events(id) ON DELETE CASCADE NOT NULL,
+  emergency_contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  -- Kept so the history still reads correctly if the contact is deleted
+  contact_name TEXT NOT NULL,
+  escalation_level INTEGER NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  notified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (sos_event_id, emergency_contact_id)
+);
+
+CREATE INDEX idx_sos_contact_alerts_event ON public.sos_contact_alerts(sos_event_id);
+
+-- Append-only history of every SOS: raised, contacts alerted, escalations,
+-- acknowledgements, cancellation or resolution
+CREATE TABLE public.sos_event_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sos_event_id UUID REFERENCES public.sos_events(id) ON DELETE CASCADE NOT NULL,
+  event_type VARCHAR(30) NOT NULL CHECK (event_type IN (
+    'triggered', 'contacts_notified', 'escalated', 'no_contacts',
+    'acknowledged', 'cancelled', 'resolved'
+  )),
+  actor VARCHAR(20) NOT NULL CHECK (actor IN ('patient', 'device', 'contact', 'system')),
+  emergency_contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_sos_event_log_event ON public.sos_event_log(sos_event_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.sos_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sos_contact_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sos_event_log ENABLE ROW LEVEL SECURITY;
+
+-- Patients read their own SOS history; all writes go through the sos
+-- function with the service role
+CREATE POLICY "Users can view their own SOS events"
+  ON public.sos_events
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view alerts for their own SOS events"
+  ON public.sos_contact_alerts
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.sos_events e
+    WHERE e.id = sos_contact_alerts.sos_event_id AND e.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view the log of their own SOS events"
+  ON public.sos_event_log
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.sos_events e
+    WHERE e.id = sos_event_log.sos_event_id AND e.user_id = auth.uid()
+  ));
+
+-- The log is never rewritten, not even by the service role. Rows only go
+-- when their SOS event does (a cascade, which runs inside the foreign key's
+-- own trigger), e.g. when the account is deleted.
+CREATE OR REPLACE FUNCTION public.prevent_sos_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'The SOS log is append-only';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_sos_log_changes
+  BEFORE UPDATE OR DELETE ON public.sos_event_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_sos_log_changes();
+
+-- Trigger for updated_at
+CREATE TRIGGER update_sos_events_updated_at
+  BEFORE UPDATE ON public.sos_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The dashboard follows an open SOS live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sos_events;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sos_event_log;
+
+-- Patients can turn off SOS raised automatically from device readings
+ALTER TABLE public.notification_preferences
+  ADD COLUMN auto_sos_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- SOS notifications to the patient can't be switched off
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_category_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_category_check CHECK (category IN (
+  'appointment_reminder', 'appointment_update', 'message',
+  'medication_reminder', 'cycle_reminder', 'vitals_reminder', 'sos'
+));
+
+-- The patient's own SOS notifications are urgent too, so they skip rate limits
+CREATE OR REPLACE FUNCTION public.enqueue_notification_deliveries()
+RETURNS TRIGGER AS $$
+DECLARE
+  prefs public.notification_preferences%ROWTYPE;
+  _priority TEXT := CASE WHEN NEW.category = 'sos' THEN 'urgent' ELSE 'normal' END;
+BEGIN
+  -- No preferences row leaves every field NULL, i.e. the defaults
+  SELECT * INTO prefs FROM public.notification_preferences WHERE user_id = NEW.user_id;
+
+  IF COALESCE(prefs.email_enabled, TRUE) THEN
+    INSERT INTO public.notification_deliveries (user_id, notification_id, channel, category, priority, subject, body, link)
+    VALUES (NEW.user_id, NEW.id, 'email', NEW.category, _priority, NEW.title, NEW.body, NEW.link);
+  END IF;
+
+  IF COALESCE(prefs.sms_enabled, FALSE) AND prefs.sms_phone IS NOT NULL THEN
+    INSERT INTO public.notification_deliveries (user_id, notification_id, channel, category, priority, subject, body, link)
+    VALUES (NEW.user_id, NEW.id, 'sms', NEW.category, _priority, NEW.title, NEW.body, NEW.link);
+  END IF;
+
+  IF COALESCE(prefs.push_enabled, TRUE)
+     AND EXISTS (SELECT 1 FROM public.push_subscriptions WHERE user_id = NEW.user_id) THEN
+    INSERT INTO public.notification_deliveries (user_id, notification_id, channel, category, priority, subject, body, link)
+    VALUES (NEW.user_id, NEW.id, 'push', NEW.category, _priority, NEW.title, NEW.body, NEW.link);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Alerts are sent and escalated by the sos function; run it every minute
+-- with the same Vault secrets as send-reminders
+SELECT cron.schedule(
+  'sos-escalation',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sos',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "dispatch"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,380 @@
+-- Vital sign alert rules
+-- Every new vital_signs row is checked against the patient's alert rules by
+-- the evaluate-vital-alerts function. The built-in rules are defined in code
+-- (_shared/alertRules.ts, from MEDICAL_THRESHOLDS); a row here either
+-- overrides one of them for a patient (default_key set) or adds a custom
+-- rule. Doctors with access manage a patient's rules; patients can see them.
+CREATE TABLE public.vital_alert_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- The built-in rule this row overrides; NULL for a custom rule
+  default_key VARCHAR(50),
+  metric VARCHAR(30) NOT NULL CHECK (metric IN (
+    'blood_pressure_systolic', 'blood_pressure_diastolic', 'heart_rate',
+    'blood_glucose', 'weight', 'temperature', 'oxygen_saturation'
+  )),
+  -- absolute: the reading itself; delta: change against the lowest (rising)
+  -- or highest (falling) reading in the window; sustained: every reading
+  -- over at least window_minutes
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('absolute', 'delta', 'sustained')),
+  comparison VARCHAR(2) NOT NULL CHECK (comparison IN ('>', '>=', '<', '<=')),
+  -- Canonical units (see vitalValidation.ts); negative for a falling delta
+  threshold NUMERIC NOT NULL,
+  window_minutes INTEGER CHECK (window_minutes > 0),
+  severity VARCHAR(20) NOT NULL DEFAULT 'warning' CHECK (severity IN ('warning', 'critical')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  note TEXT,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (patient_id, default_key),
+  CHECK (kind = 'absolute' OR window_minutes IS NOT NULL)
+);
+
+CREATE INDEX idx_vital_alert_rules_patient ON public.vital_alert_rules(patient_id);
+
+-- Alerts raised by the rules. A rule has at most one unresolved alert per
+-- patient; firing again while it is open or acknowledged bumps the count
+-- and latest reading instead of raising a new one.
+CREATE TABLE public.vital_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rule_id UUID REFERENCES public.vital_alert_rules(id) ON DELETE SET NULL,
+  -- The built-in rule key, or 'rule:<id>' for a custom rule
+  alert_key VARCHAR(80) NOT NULL,
+  metric VARCHAR(30) NOT NULL,
+  kind VARCHAR(20) NOT NULL,
+  severity VARCHAR(20) NOT NULL CHECK (severity IN ('warning', 'critical')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  value NUMERIC,
+  threshold NUMERIC,
+  vital_sign_id UUID REFERENCES public.vital_signs(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  first_triggered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_triggered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_vital_alerts_unresolved
+  ON public.vital_alerts(patient_id, alert_key)
+  WHERE status <> 'resolved';
+CREATE INDEX idx_vital_alerts_patient ON public.vital_alerts(patient_id, last_triggered_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.vital_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vital_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own alert rules"
+  ON public.vital_alert_rules
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+CREATE POLICY "Doctors can view patient alert rules when access granted"
+ON public.vital_alert_rules
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = vital_alert_rules.patient_id
+      AND d.user_id = auth.uid()
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+  )
+);
+
+CREATE POLICY "Doctors can add patient alert rules when access granted"
+ON public.vital_alert_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  updated_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = vital_alert_rules.patient_id
+      AND d.user_id = auth.uid()
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+  )
+);
+
+CREATE POLICY "Doctors can update patient alert rules when access granted"
+ON public.vital_alert_rules
+FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = vital_alert_rules.patient_id
+      AND d.user_id = auth.uid()
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+  )
+)
+WITH CHECK (updated_by = auth.uid());
+
+CREATE POLICY "Doctors can delete patient alert rules when access granted"
+ON public.vital_alert_rules
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = vital_alert_rules.patient_id
+      AND d.user_id = auth.uid()
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+  )
+);
+
+-- Alerts are written by evaluate-vital-alerts and changed through
+-- set_vital_alert_status
+CREATE POLICY "Users can view their own vital alerts"
+  ON public.vital_alerts
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+CREATE POLICY "Doctors can view patient vital alerts when access granted"
+ON public.vital_alerts
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = vital_alerts.patient_id
+      AND d.user_id = auth.uid()
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+  )
+);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_vital_alert_rules_updated_at
+  BEFORE UPDATE ON public.vital_alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_vital_alerts_updated_at
+  BEFORE UPDATE ON public.vital_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Health Monitoring and Patient Records follow alerts live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vital_alerts;
+
+-- Raise an alert, or bump the rule's unresolved one. Returns the alert id.
+-- Internal: called by evaluate-vital-alerts with the service role.
+CREATE OR REPLACE FUNCTION public.record_vital_alert(
+  _patient_id UUID,
+  _alert_key TEXT,
+  _rule_id UUID,
+  _metric TEXT,
+  _kind TEXT,
+  _severity TEXT,
+  _title TEXT,
+  _message TEXT,
+  _value NUMERIC,
+  _threshold NUMERIC,
+  _vital_sign_id UUID,
+  _triggered_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS UUID AS $$
+DECLARE
+  alert_id UUID;
+BEGIN
+  INSERT INTO public.vital_alerts (
+    patient_id, alert_key, rule_id, metric, kind, severity, title, message,
+    value, threshold, vital_sign_id, first_triggered_at, last_triggered_at
+  )
+  VALUES (
+    _patient_id, _alert_key, _rule_id, _metric, _kind, _severity, _title, _message,
+    _value, _threshold, _vital_sign_id, _triggered_at, _triggered_at
+  )
+  ON CONFLICT (patient_id, alert_key) WHERE status <> 'resolved'
+  DO UPDATE SET
+    occurrences = vital_alerts.occurrences + 1,
+    severity = EXCLUDED.severity,
+    message = EXCLUDED.message,
+    value = EXCLUDED.value,
+    threshold = EXCLUDED.threshold,
+    vital_sign_id = EXCLUDED.vital_sign_id,
+    last_triggered_at = GREATEST(vital_alerts.last_triggered_at, EXCLUDED.last_triggered_at)
+  RETURNING id INTO alert_id;
+
+  RETURN alert_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_vital_alert(UUID, TEXT, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Acknowledge or resolve an alert. Allowed for the patient and for doctors
+-- with active access; a resolved alert stays resolved.
+CREATE OR REPLACE FUNCTION public.set_vital_alert_status(
+  _alert_id UUID,
+  _status TEXT,
+  _note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  alert public.vital_alerts%ROWTYPE;
+BEGIN
+  IF _status NOT IN ('acknowledged', 'resolved') THEN
+    RAISE EXCEPTION 'Invalid alert status';
+  END IF;
+
+  SELECT * INTO alert FROM public.vital_alerts WHERE id = _alert_id FOR UPDATE;
+  IF NOT FOUND OR NOT (
+    alert.patient_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.patient_doctor_access pda
+      JOIN public.doctors d ON d.id = pda.doctor_id
+      WHERE pda.patient_id = alert.patient_id
+        AND d.user_id = auth.uid()
+        AND pda.status = 'active'
+        AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+    )
+  ) THEN
+    RAISE EXCEPTION 'Alert not found';
+  END IF;
+
+  IF alert.status = 'resolved' THEN
+    RAISE EXCEPTION 'This alert is already resolved';
+  END IF;
+
+  IF _status = 'acknowledged' THEN
+    UPDATE public.vital_alerts
+    SET status = 'acknowledged', acknowledged_at = NOW(), acknowledged_by = auth.uid()
+    WHERE id = _alert_id AND status = 'open';
+  ELSE
+    UPDATE public.vital_alerts
+    SET status = 'resolved',
+        acknowledged_at = COALESCE(acknowledged_at, NOW()),
+        acknowledged_by = COALESCE(acknowledged_by, auth.uid()),
+        resolved_at = NOW(),
+        resolved_by = auth.uid(),
+        resolution_note = NULLIF(btrim(_note), '')
+    WHERE id = _alert_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New alerts notify the patient and every doctor with access
+CREATE OR REPLACE FUNCTION public.notify_vital_alert()
+RETURNS TRIGGER AS $$
+DECLARE
+  patient_health_id TEXT;
+  doctor RECORD;
+BEGIN
+  SELECT health_id INTO patient_health_id FROM public.health_profiles WHERE user_id = NEW.patient_id;
+
+  INSERT INTO public.notifications (user_id, category, title, body, link, data, dedupe_key)
+  VALUES (
+    NEW.patient_id,
+    'vital_alert',
+    NEW.title,
+    NEW.message,
+    '/health-monitoring',
+    jsonb_build_object('vital_alert_id', NEW.id, 'severity', NEW.severity),
+    'vital_alert:' || NEW.id
+  )
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  FOR doctor IN
+    SELECT DISTINCT d.user_id
+    FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = NEW.patient_id
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+  LOOP
+    INSERT INTO public.notifications (user_id, category, title, body, link, data, dedupe_key)
+    VALUES (
+      doctor.user_id,
+      'vital_alert',
+      NEW.title || ' (' || COALESCE(patient_health_id, 'patient') || ')',
+      NEW.message,
+      '/doctor/patients/' || NEW.patient_id || '/records',
+      jsonb_build_object('vital_alert_id', NEW.id, 'severity', NEW.severity, 'patient_id', NEW.patient_id),
+      'vital_alert:' || NEW.id
+    )
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_vital_alert
+  AFTER INSERT ON public.vital_alerts
+  FOR EACH ROW EXECUTE FUNCTION public.notify_vital_alert();
+
+-- Hand every batch of new readings, whichever way it was stored (the
+-- Health Monitoring form, iot-webhook, a FHIR import), to
+-- evaluate-vital-alerts: one request per statement, with the same Vault
+-- secrets as the cron jobs
+CREATE OR REPLACE FUNCTION public.queue_vital_alert_evaluation()
+RETURNS TRIGGER AS $$
+DECLARE
+  ids JSONB;
+BEGIN
+  SELECT jsonb_agg(id) INTO ids FROM new_rows;
+  IF ids IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/evaluate-vital-alerts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('vital_sign_ids', ids)
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_vital_alert_evaluation
+  AFTER INSERT ON public.vital_signs
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION public.queue_vital_alert_evaluation();
+
+-- Vital alert notifications can be switched off like the other categories
+ALTER TABLE public.notification_preferences
+  ADD COLUMN vital_alerts BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE OR REPLACE FUNCTION public.notification_enabled(_user_id UUID, _category TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT CASE _category
+      WHEN 'appointment_reminder' THEN p.appointment_reminders
+      WHEN 'appointment_update' THEN p.appointment_updates
+      WHEN 'message' THEN p.messages
+      WHEN 'medication_reminder' THEN p.medication_reminders
+      WHEN 'cycle_reminder' THEN p.cycle_reminders
+      WHEN 'vitals_reminder' THEN p.vitals_reminders
+      WHEN 'vital_alert' THEN p.vital_alerts
+    END
+    FROM public.notification_preferences p
+    WHERE p.user_id = _user_id
+  ), TRUE)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_category_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_category_check CHECK (category IN (
+  'appointment_reminder', 'appointment_update', 'message',
+  'medication_reminder', 'cycle_reminder', 'vitals_reminder', 'sos', 'vital_alert'
+));
@@ -0,0 +1,66 @@
+-- Doctor triage worklist state
+-- The worklist itself is computed by the triage-worklist function; this
+-- table only keeps what each doctor did with an item. A snooze hides the
+-- patient until snoozed_until; a review hides them until a new reading or
+-- alert arrives (see _shared/triage.ts).
+CREATE TABLE public.triage_states (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  patient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  snoozed_until TIMESTAMP WITH TIME ZONE,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (doctor_id, patient_id)
+);
+
+ALTER TABLE public.triage_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view their own triage state"
+ON public.triage_states
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = triage_states.doctor_id AND d.user_id = auth.uid())
+);
+
+CREATE POLICY "Doctors can set triage state for their patients"
+ON public.triage_states
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = triage_states.patient_id
+      AND pda.doctor_id = triage_states.doctor_id
+      AND d.user_id = auth.uid()
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+  )
+);
+
+CREATE POLICY "Doctors can update their own triage state"
+ON public.triage_states
+FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = triage_states.doctor_id AND d.user_id = auth.uid())
+);
+
+CREATE POLICY "Doctors can delete their own triage state"
+ON public.triage_states
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = triage_states.doctor_id AND d.user_id = auth.uid())
+);
+
+CREATE TRIGGER update_triage_states_updated_at
+  BEFORE UPDATE ON public.triage_states
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The worklist looks up each patient's last completed visit with the doctor
+CREATE INDEX idx_appointments_doctor_patient_time
+  ON public.appointments(doctor_id, patient_id, scheduled_time DESC);
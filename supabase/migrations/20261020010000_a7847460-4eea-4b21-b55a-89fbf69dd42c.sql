@@ -0,0 +1,106 @@
+-- Emergency health card links
+-- The public health card used to be read straight from the tables by
+-- health_id under USING (true)-style policies, which exposed every patient's
+-- profile, allergies, medications and emergency contacts to anyone. Those
+-- policies are dropped; the card is now served by the health-card function
+-- from an unguessable, rotatable token (see _shared/healthCard.ts).
+DROP POLICY IF EXISTS "Public can view health profiles by health_id for emergencies" ON public.health_profiles;
+DROP POLICY IF EXISTS "Public can view emergency contacts via health_id" ON public.emergency_contacts;
+DROP POLICY IF EXISTS "Public can view allergies via health_id" ON public.allergies;
+DROP POLICY IF EXISTS "Public can view medications via health_id" ON public.medications;
+
+-- One link per patient. The token is kept (not hashed) so the owner's card
+-- can redraw its QR code; only the owner can read it. gen_random_uuid() is
+-- cryptographically random, so the default is as unguessable as a token
+-- generated in the app.
+CREATE TABLE public.health_card_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  token TEXT NOT NULL UNIQUE
+    DEFAULT substr(replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''), 1, 40)
+    CHECK (token ~ '^[0-9a-f]{40}$'),
+  fields TEXT[] NOT NULL DEFAULT ARRAY['blood_type', 'allergies', 'medications', 'emergency_contact']
+    CHECK (fields <@ ARRAY['blood_type', 'date_of_birth', 'gender', 'height_weight', 'allergies', 'medications', 'emergency_contact']),
+  -- SHA-256 of '<id>:<pin>'; NULL when no PIN is required
+  pin_hash TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  rotated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Every scan of a card link, written by the health-card function. Location
+-- is rough on purpose: the network prefix and the country reported by the
+-- edge, never the full address.
+CREATE TABLE public.health_card_scans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  link_id UUID REFERENCES public.health_card_links(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('viewed', 'pin_required', 'pin_rejected', 'locked', 'expired', 'disabled')),
+  ip_prefix TEXT,
+  country TEXT,
+  user_agent TEXT,
+  scanned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_health_card_scans_user ON public.health_card_scans(user_id, scanned_at DESC);
+CREATE INDEX idx_health_card_scans_link ON public.health_card_scans(link_id, outcome, scanned_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.health_card_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.health_card_scans ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for health_card_links
+CREATE POLICY "Users can view their own health card link"
+  ON public.health_card_links
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own health card link"
+  ON public.health_card_links
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own health card link"
+  ON public.health_card_links
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- RLS Policies for health_card_scans: read-only to the owner, written only
+-- with the service role
+CREATE POLICY "Users can view scans of their health card"
+  ON public.health_card_scans
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_health_card_links_updated_at
+  BEFORE UPDATE ON public.health_card_links
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every patient with a health profile gets a link, so the card and SOS
+-- alerts always have one to point at
+CREATE OR REPLACE FUNCTION public.create_health_card_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.health_card_links (user_id)
+  VALUES (NEW.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_health_card_link_on_profile
+  AFTER INSERT ON public.health_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_health_card_link();
+
+INSERT INTO public.health_card_links (user_id)
+SELECT user_id FROM public.health_profiles
+ON CONFLICT (user_id) DO NOTHING;
@@ -0,0 +1,622 @@
+-- Granular, time-limited consent for doctor access
+-- Each grant now lists the data categories it covers and may end on a date
+-- the patient picks. Doctors can ask for access by Health ID; the patient
+-- approves (possibly narrowing it) or declines. Every change is recorded in
+-- an append-only history both sides can read.
+
+-- Categories a grant can cover. The health profile (Health ID, blood type,
+-- age) is visible with any grant. Existing grants keep full access.
+ALTER TABLE public.patient_doctor_access
+  ADD COLUMN scopes TEXT[] NOT NULL DEFAULT ARRAY['vitals', 'medications', 'allergies', 'menstrual', 'pregnancy']
+    CHECK (scopes <@ ARRAY['vitals', 'medications', 'allergies', 'menstrual', 'pregnancy']);
+
+-- Lapsed grants are marked 'expired' by expire_doctor_access below
+ALTER TABLE public.patient_doctor_access DROP CONSTRAINT patient_doctor_access_status_check;
+ALTER TABLE public.patient_doctor_access ADD CONSTRAINT patient_doctor_access_status_check
+  CHECK (status IN ('active', 'revoked', 'expired'));
+
+-- Whether the current user is a doctor with live access to the patient, and
+-- to the given category when one is named. Access lapses the moment
+-- expires_at passes, whether or not the grant has been marked expired yet.
+CREATE OR REPLACE FUNCTION public.doctor_has_access(_patient_id UUID, _scope TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = _patient_id
+      AND d.user_id = auth.uid()
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+      AND (_scope IS NULL OR _scope = ANY(pda.scopes))
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Scope the per-category policies
+DROP POLICY "Doctors can view patient allergies when access granted" ON public.allergies;
+DROP POLICY "Doctors can view patient medications when access granted" ON public.medications;
+DROP POLICY "Doctors can view patient vital signs when access granted" ON public.vital_signs;
+DROP POLICY "Doctors can view patient menstrual cycles when access granted" ON public.menstrual_cycles;
+DROP POLICY "Doctors can view patient pregnancy tracking when access granted" ON public.pregnancy_tracking;
+DROP POLICY "Doctors can view patient medication schedules when access granted" ON public.medication_schedules;
+DROP POLICY "Doctors can view patient medication doses when access granted" ON public.medication_doses;
+DROP POLICY "Doctors can view patient alert rules when access granted" ON public.vital_alert_rules;
+DROP POLICY "Doctors can add patient alert rules when access granted" ON public.vital_alert_rules;
+DROP POLICY "Doctors can update patient alert rules when access granted" ON public.vital_alert_rules;
+DROP POLICY "Doctors can delete patient alert rules when access granted" ON public.vital_alert_rules;
+DROP POLICY "Doctors can view patient vital alerts when access granted" ON public.vital_alerts;
+
+CREATE POLICY "Doctors can view patient allergies when access granted"
+ON public.allergies
+FOR SELECT
+TO authenticated
+USING (public.doctor_has_access(allergies.user_id, 'allergies'));
+
+CREATE POLICY "Doctors can view patient medications when access granted"
+ON public.medications
+FOR SELECT
+TO authenticated
+USING (public.doctor_has_access(medications.user_id, 'medications'));
+
+CREATE POLICY "Doctors can view patient vital signs when access granted"
+ON public.vital_signs
+FOR SELECT
+TO authenticated
+USING (public.doctor_has_access(vital_signs.user_id, 'vitals'));
+
+CREATE POLICY "Doctors can view patient menstrual cycles when access granted"
+ON public.menstrual_cycles
+FOR SELECT
+TO authenticated
+USING (public.doctor_has_access(menstrual_cycles.user_id, 'menstrual'));
+
+CREATE POLICY "Doctors can view patient pregnancy tracking when access granted"
+ON public.pregnancy_tracking
+FOR SELECT
+TO authenticated
+USING (public.doctor_has_access(pregnancy_tracking.user_id, 'pregnancy'));
+
+CREATE POLICY "Doctors can view patient medication schedules when access granted"
+ON public.medication_schedules
+FOR SELECT
+TO authenticated
+USING (public.doctor_has_access(medication_schedules.user_id, 'medications'));
+
+CREATE POLICY "Doctors can view patient medication doses when access granted"
+ON public.medication_doses
+FOR SELECT
+TO authenticated
+USING (public.doctor_has_access(medication_doses.user_id, 'medications'));
+
+CREATE POLICY "Doctors can view patient alert rules when access granted"
+ON public.vital_alert_rules
+FOR SELECT
+TO authenticated
+USING (public.doctor_has_access(vital_alert_rules.patient_id, 'vitals'));
+
+CREATE POLICY "Doctors can add patient alert rules when access granted"
+ON public.vital_alert_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (updated_by = auth.uid() AND public.doctor_has_access(vital_alert_rules.patient_id, 'vitals'));
+
+CREATE POLICY "Doctors can update patient alert rules when access granted"
+ON public.vital_alert_rules
+FOR UPDATE
+TO authenticated
+USING (public.doctor_has_access(vital_alert_rules.patient_id, 'vitals'))
+WITH CHECK (updated_by = auth.uid());
+
+CREATE POLICY "Doctors can delete patient alert rules when access granted"
+ON public.vital_alert_rules
+FOR DELETE
+TO authenticated
+USING (public.doctor_has_access(vital_alert_rules.patient_id, 'vitals'));
+
+CREATE POLICY "Doctors can view patient vital alerts when access granted"
+ON public.vital_alerts
+FOR SELECT
+TO authenticated
+USING (public.doctor_has_access(vital_alerts.patient_id, 'vitals'));
+
+-- Vital alerts follow the vitals scope too
+CREATE OR REPLACE FUNCTION public.set_vital_alert_status(
+  _alert_id UUID,
+  _status TEXT,
+  _note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  alert public.vital_alerts%ROWTYPE;
+BEGIN
+  IF _status NOT IN ('acknowledged', 'resolved') THEN
+    RAISE EXCEPTION 'Invalid alert status';
+  END IF;
+
+  SELECT * INTO alert FROM public.vital_alerts WHERE id = _alert_id FOR UPDATE;
+  IF NOT FOUND OR NOT (
+    alert.patient_id = auth.uid()
+    OR public.doctor_has_access(alert.patient_id, 'vitals')
+  ) THEN
+    RAISE EXCEPTION 'Alert not found';
+  END IF;
+
+  IF alert.status = 'resolved' THEN
+    RAISE EXCEPTION 'This alert is already resolved';
+  END IF;
+
+  IF _status = 'acknowledged' THEN
+    UPDATE public.vital_alerts
+    SET status = 'acknowledged', acknowledged_at = NOW(), acknowledged_by = auth.uid()
+    WHERE id = _alert_id AND status = 'open';
+  ELSE
+    UPDATE public.vital_alerts
+    SET status = 'resolved',
+        acknowledged_at = COALESCE(acknowledged_at, NOW()),
+        acknowledged_by = COALESCE(acknowledged_by, auth.uid()),
+        resolved_at = NOW(),
+        resolved_by = auth.uid(),
+        resolution_note = NULLIF(btrim(_note), '')
+    WHERE id = _alert_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.notify_vital_alert()
+RETURNS TRIGGER AS $$
+DECLARE
+  patient_health_id TEXT;
+  doctor RECORD;
+BEGIN
+  SELECT health_id INTO patient_health_id FROM public.health_profiles WHERE user_id = NEW.patient_id;
+
+  INSERT INTO public.notifications (user_id, category, title, body, link, data, dedupe_key)
+  VALUES (
+    NEW.patient_id,
+    'vital_alert',
+    NEW.title,
+    NEW.message,
+    '/health-monitoring',
+    jsonb_build_object('vital_alert_id', NEW.id, 'severity', NEW.severity),
+    'vital_alert:' || NEW.id
+  )
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  FOR doctor IN
+    SELECT DISTINCT d.user_id
+    FROM public.patient_doctor_access pda
+    JOIN public.doctors d ON d.id = pda.doctor_id
+    WHERE pda.patient_id = NEW.patient_id
+      AND pda.status = 'active'
+      AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+      AND 'vitals' = ANY(pda.scopes)
+  LOOP
+    INSERT INTO public.notifications (user_id, category, title, body, link, data, dedupe_key)
+    VALUES (
+      doctor.user_id,
+      'vital_alert',
+      NEW.title || ' (' || COALESCE(patient_health_id, 'patient') || ')',
+      NEW.message,
+      '/doctor/patients/' || NEW.patient_id || '/records',
+      jsonb_build_object('vital_alert_id', NEW.id, 'severity', NEW.severity, 'patient_id', NEW.patient_id),
+      'vital_alert:' || NEW.id
+    )
+    ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Doctor-initiated requests. The doctor names the patient by Health ID,
+-- which is kept so they can tell their requests apart before (or without)
+-- being granted access. Created and answered only through the functions
+-- below.
+CREATE TABLE public.doctor_access_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  patient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  health_id TEXT NOT NULL,
+  scopes TEXT[] NOT NULL
+    CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['vitals', 'medications', 'allergies', 'menstrual', 'pregnancy']),
+  -- When the doctor asks for access to end; NULL for no end date
+  expires_at TIMESTAMP WITH TIME ZONE,
+  message TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined', 'withdrawn')),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- One open request per doctor and patient
+CREATE UNIQUE INDEX idx_doctor_access_requests_pending
+  ON public.doctor_access_requests(doctor_id, patient_id)
+  WHERE status = 'pending';
+CREATE INDEX idx_doctor_access_requests_patient ON public.doctor_access_requests(patient_id, created_at DESC);
+
+-- Append-only consent history: requests and their answers, grants, changes
+-- to scopes or expiry, revocations and lapses
+CREATE TABLE public.access_consent_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  doctor_id UUID REFERENCES public.doctors(id) ON DELETE CASCADE NOT NULL,
+  request_id UUID REFERENCES public.doctor_access_requests(id) ON DELETE SET NULL,
+  event VARCHAR(20) NOT NULL CHECK (event IN (
+    'requested', 'declined', 'withdrawn', 'granted', 'updated', 'revoked', 'expired'
+  )),
+  actor VARCHAR(20) NOT NULL CHECK (actor IN ('patient', 'doctor', 'system')),
+  -- The scopes and expiry granted, or asked for
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMP WITH TIME ZONE,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_access_consent_events_patient ON public.access_consent_events(patient_id, created_at DESC);
+CREATE INDEX idx_access_consent_events_doctor ON public.access_consent_events(doctor_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.doctor_access_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.access_consent_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients can view access requests made to them"
+  ON public.doctor_access_requests
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+CREATE POLICY "Doctors can view their access requests"
+  ON public.doctor_access_requests
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.doctors d
+    WHERE d.id = doctor_access_requests.doctor_id AND d.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Patients can view their consent history"
+  ON public.access_consent_events
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+CREATE POLICY "Doctors can view their consent history"
+  ON public.access_consent_events
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.doctors d
+    WHERE d.id = access_consent_events.doctor_id AND d.user_id = auth.uid()
+  ));
+
+-- The history is never rewritten. Rows only go by cascade, when the
+-- patient's account or the doctor's profile is deleted.
+CREATE OR REPLACE FUNCTION public.prevent_access_consent_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'The consent history is append-only';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_access_consent_event_changes
+  BEFORE UPDATE OR DELETE ON public.access_consent_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_access_consent_event_changes();
+
+-- Record grant changes, whoever makes them: MyDoctors, an approved request
+-- or the expiry job. A grant also answers any request from that doctor
+-- still waiting.
+CREATE OR REPLACE FUNCTION public.log_doctor_access_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  _event TEXT;
+  _actor TEXT;
+  _row public.patient_doctor_access%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _row := OLD;
+    _event := CASE WHEN OLD.status = 'active' THEN 'revoked' END;
+  ELSE
+    _row := NEW;
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+      _event := CASE NEW.status WHEN 'active' THEN 'granted' WHEN 'revoked' THEN 'revoked' ELSE 'expired' END;
+    ELSIF NEW.status = 'active' AND (NEW.scopes IS DISTINCT FROM OLD.scopes OR NEW.expires_at IS DISTINCT FROM OLD.expires_at) THEN
+      _event := 'updated';
+    END IF;
+  END IF;
+
+  IF _event IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _actor := CASE
+    WHEN auth.uid() IS NULL THEN 'system'
+    WHEN auth.uid() = _row.patient_id THEN 'patient'
+    ELSE 'doctor'
+  END;
+
+  INSERT INTO public.access_consent_events (patient_id, doctor_id, event, actor, scopes, expires_at)
+  VALUES (_row.patient_id, _row.doctor_id, _event, _actor, _row.scopes, _row.expires_at);
+
+  IF _event = 'granted' THEN
+    UPDATE public.doctor_access_requests
+      SET status = 'approved', responded_at = NOW()
+      WHERE doctor_id = _row.doctor_id AND patient_id = _row.patient_id AND status = 'pending';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_doctor_access_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.patient_doctor_access
+  FOR EACH ROW EXECUTE FUNCTION public.log_doctor_access_change();
+
+-- A doctor asks a patient, named by Health ID, for access. Also used to ask
+-- for more categories or a later end date than an existing grant has.
+CREATE OR REPLACE FUNCTION public.request_patient_access(
+  _health_id TEXT,
+  _scopes TEXT[],
+  _expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _message TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  _doctor_id UUID;
+  _patient_id UUID;
+  _normalized TEXT := btrim(_health_id);
+  _request_id UUID;
+BEGIN
+  SELECT id INTO _doctor_id FROM public.doctors WHERE user_id = auth.uid();
+  IF _doctor_id IS NULL THEN
+    RAISE EXCEPTION 'Only doctors can request access';
+  END IF;
+
+  IF _scopes IS NULL OR cardinality(_scopes) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one kind of record';
+  END IF;
+
+  SELECT user_id INTO _patient_id FROM public.health_profiles WHERE health_id = _normalized;
+  IF _patient_id IS NULL THEN
+    RAISE EXCEPTION 'No patient has that Health ID';
+  END IF;
+
+  IF _expires_at IS NOT NULL AND _expires_at <= NOW() THEN
+    RAISE EXCEPTION 'The end date must be in the future';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.patient_doctor_access
+    WHERE patient_id = _patient_id
+      AND doctor_id = _doctor_id
+      AND status = 'active'
+      AND scopes @> _scopes
+      AND (expires_at IS NULL OR (_expires_at IS NOT NULL AND expires_at >= _expires_at))
+  ) THEN
+    RAISE EXCEPTION 'You already have this access';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.doctor_access_requests
+    WHERE patient_id = _patient_id AND doctor_id = _doctor_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'You already have a request waiting for this patient';
+  END IF;
+
+  INSERT INTO public.doctor_access_requests (doctor_id, patient_id, health_id, scopes, expires_at, message)
+  VALUES (_doctor_id, _patient_id, _normalized, _scopes, _expires_at, NULLIF(btrim(_message), ''))
+  RETURNING id INTO _request_id;
+
+  INSERT INTO public.access_consent_events (patient_id, doctor_id, request_id, event, actor, scopes, expires_at, note)
+  VALUES (_patient_id, _doctor_id, _request_id, 'requested', 'doctor', _scopes, _expires_at, NULLIF(btrim(_message), ''));
+
+  RETURN _request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The patient approves, with the scopes and end date they settle on (the
+-- request's own when _scopes is NULL), or declines.
+CREATE OR REPLACE FUNCTION public.respond_to_access_request(
+  _request_id UUID,
+  _approve BOOLEAN,
+  _scopes TEXT[] DEFAULT NULL,
+  _expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  req public.doctor_access_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO req FROM public.doctor_access_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR req.patient_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF req.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request has already been %', req.status;
+  END IF;
+
+  IF NOT _approve THEN
+    UPDATE public.doctor_access_requests
+      SET status = 'declined', responded_at = NOW()
+      WHERE id = req.id;
+    INSERT INTO public.access_consent_events (patient_id, doctor_id, request_id, event, actor, scopes, expires_at)
+    VALUES (req.patient_id, req.doctor_id, req.id, 'declined', 'patient', req.scopes, req.expires_at);
+    RETURN;
+  END IF;
+
+  IF _scopes IS NULL THEN
+    _scopes := req.scopes;
+    _expires_at := req.expires_at;
+  END IF;
+
+  IF _expires_at IS NOT NULL AND _expires_at <= NOW() THEN
+    RAISE EXCEPTION 'The end date must be in the future';
+  END IF;
+
+  -- log_doctor_access_change records the grant and closes the request
+  INSERT INTO public.patient_doctor_access (patient_id, doctor_id, status, scopes, expires_at)
+  VALUES (req.patient_id, req.doctor_id, 'active', _scopes, _expires_at)
+  ON CONFLICT (patient_id, doctor_id) DO UPDATE
+    SET status = 'active', scopes = EXCLUDED.scopes, expires_at = EXCLUDED.expires_at, granted_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.withdraw_access_request(_request_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  req public.doctor_access_requests%ROWTYPE;
+BEGIN
+  SELECT r.* INTO req
+    FROM public.doctor_access_requests r
+    JOIN public.doctors d ON d.id = r.doctor_id
+   WHERE r.id = _request_id AND d.user_id = auth.uid()
+   FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF req.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request has already been %', req.status;
+  END IF;
+
+  UPDATE public.doctor_access_requests
+    SET status = 'withdrawn', responded_at = NOW()
+    WHERE id = req.id;
+  INSERT INTO public.access_consent_events (patient_id, doctor_id, request_id, event, actor, scopes, expires_at)
+  VALUES (req.patient_id, req.doctor_id, req.id, 'withdrawn', 'doctor', req.scopes, req.expires_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The caller's consent history with the names each side needs: the doctor
+-- for patients, the Health ID for doctors (who may no longer be able to
+-- read the patient's profile).
+CREATE OR REPLACE FUNCTION public.get_consent_history(_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  id UUID,
+  patient_id UUID,
+  doctor_id UUID,
+  doctor_name TEXT,
+  health_id TEXT,
+  event TEXT,
+  actor TEXT,
+  scopes TEXT[],
+  expires_at TIMESTAMP WITH TIME ZONE,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT e.id, e.patient_id, e.doctor_id, d.full_name::TEXT, hp.health_id::TEXT,
+         e.event::TEXT, e.actor::TEXT, e.scopes, e.expires_at, e.note, e.created_at
+  FROM public.access_consent_events e
+  JOIN public.doctors d ON d.id = e.doctor_id
+  LEFT JOIN public.health_profiles hp ON hp.user_id = e.patient_id
+  WHERE e.patient_id = auth.uid() OR d.user_id = auth.uid()
+  ORDER BY e.created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 500)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Access updates are a notification category of their own
+ALTER TABLE public.notification_preferences
+  ADD COLUMN access_updates BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE OR REPLACE FUNCTION public.notification_enabled(_user_id UUID, _category TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT CASE _category
+      WHEN 'appointment_reminder' THEN p.appointment_reminders
+      WHEN 'appointment_update' THEN p.appointment_updates
+      WHEN 'message' THEN p.messages
+      WHEN 'medication_reminder' THEN p.medication_reminders
+      WHEN 'cycle_reminder' THEN p.cycle_reminders
+      WHEN 'vitals_reminder' THEN p.vitals_reminders
+      WHEN 'vital_alert' THEN p.vital_alerts
+      WHEN 'access_update' THEN p.access_updates
+    END
+    FROM public.notification_preferences p
+    WHERE p.user_id = _user_id
+  ), TRUE)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_category_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_category_check CHECK (category IN (
+  'appointment_reminder', 'appointment_update', 'message',
+  'medication_reminder', 'cycle_reminder', 'vitals_reminder', 'sos', 'vital_alert',
+  'access_update'
+));
+
+-- Whoever didn't cause a consent event hears about it; a lapse is news to
+-- both sides
+CREATE OR REPLACE FUNCTION public.notify_access_consent_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  doctor_user_id UUID;
+  doctor_name TEXT;
+  patient_label TEXT;
+BEGIN
+  SELECT user_id, full_name INTO doctor_user_id, doctor_name FROM public.doctors WHERE id = NEW.doctor_id;
+  SELECT health_id INTO patient_label FROM public.health_profiles WHERE user_id = NEW.patient_id;
+  patient_label := COALESCE(patient_label, 'A patient');
+
+  IF NEW.event = 'requested' THEN
+    PERFORM public.create_notification(
+      NEW.patient_id, 'access_update', doctor_name || ' asked for access to your records',
+      COALESCE(NEW.note, 'Review the request under My Doctors'),
+      '/patient/doctors', jsonb_build_object('request_id', NEW.request_id), 'access-request:' || NEW.request_id
+    );
+  ELSIF NEW.event IN ('granted', 'updated', 'declined', 'revoked') AND NEW.actor = 'patient' THEN
+    PERFORM public.create_notification(
+      doctor_user_id, 'access_update',
+      CASE NEW.event
+        WHEN 'granted' THEN patient_label || ' gave you access'
+        WHEN 'updated' THEN patient_label || ' changed your access'
+        WHEN 'declined' THEN patient_label || ' declined your access request'
+        ELSE patient_label || ' revoked your access'
+      END,
+      CASE WHEN NEW.event IN ('granted', 'updated') THEN
+        CASE WHEN NEW.expires_at IS NOT NULL
+          THEN 'Until ' || to_char(NEW.expires_at AT TIME ZONE 'UTC', 'Mon FMDD, YYYY')
+          ELSE 'No end date'
+        END
+      END,
+      '/doctor/patients', jsonb_build_object('patient_id', NEW.patient_id), 'access-event:' || NEW.id
+    );
+  ELSIF NEW.event = 'expired' THEN
+    PERFORM public.create_notification(
+      doctor_user_id, 'access_update', 'Your access to ' || patient_label || '''s records has ended',
+      'Ask the patient for access again if you still need it',
+      '/doctor/patients', jsonb_build_object('patient_id', NEW.patient_id), 'access-event:' || NEW.id
+    );
+    PERFORM public.create_notification(
+      NEW.patient_id, 'access_update', doctor_name || '''s access to your records has ended',
+      'The end date you chose has passed', '/patient/doctors',
+      jsonb_build_object('doctor_id', NEW.doctor_id), 'access-event:' || NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_access_consent_event
+  AFTER INSERT ON public.access_consent_events
+  FOR EACH ROW EXECUTE FUNCTION public.notify_access_consent_event();
+
+-- Marks lapsed grants expired, so the lapse shows up in the history and
+-- both sides are told. Access itself already ended at expires_at.
+CREATE OR REPLACE FUNCTION public.expire_doctor_access()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE public.patient_doctor_access
+    SET status = 'expired'
+    WHERE status = 'active' AND expires_at <= NOW();
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_doctor_access() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-doctor-access',
+  '*/15 * * * *',
+  $$ SELECT public.expire_doctor_access(); $$
+);
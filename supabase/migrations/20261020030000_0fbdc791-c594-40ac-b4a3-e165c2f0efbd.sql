@@ -0,0 +1,129 @@
+-- Patient-visible access log
+-- Records who read a patient's data, where and which categories: doctors in
+-- the app (patient records, video consultations, messages), the
+-- triage-worklist function on a doctor's behalf, health card scans, SOS
+-- alerts to emergency contacts and the patient's own exports and AI chats.
+-- Patients read it under "Who accessed my data". Nobody can change or
+-- remove an entry.
+
+CREATE TABLE public.data_access_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- 'service' is an edge function disclosing data to someone without an
+  -- account: a health card scanner or the emergency contacts
+  accessor TEXT NOT NULL CHECK (accessor IN ('doctor', 'patient', 'service')),
+  accessor_user_id UUID,
+  -- Kept, with the name as it was, after the doctor's profile is deleted
+  doctor_id UUID,
+  accessor_name TEXT,
+  source TEXT NOT NULL CHECK (source IN (
+    'patient-records', 'video-consultation', 'messages', 'triage-worklist',
+    'health-card', 'sos', 'fhir-export', 'health-chat'
+  )),
+  categories TEXT[] NOT NULL CHECK (
+    cardinality(categories) > 0
+    AND categories <@ ARRAY['profile', 'vitals', 'medications', 'allergies', 'menstrual', 'pregnancy', 'emergency_contacts', 'appointments']
+  ),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_data_access_log_patient ON public.data_access_log(patient_id, created_at DESC);
+CREATE INDEX idx_data_access_log_accessor ON public.data_access_log(accessor_user_id, patient_id, source, created_at DESC);
+
+-- Patients read their own log. There are no insert, update or delete
+-- policies: entries are written by record_data_access below or by edge
+-- functions with the service role.
+ALTER TABLE public.data_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients can view who accessed their data"
+  ON public.data_access_log
+  FOR SELECT
+  USING (auth.uid() = patient_id);
+
+-- Append-only, for the service role too. Rows only go by cascade, when the
+-- patient's account is deleted.
+CREATE OR REPLACE FUNCTION public.prevent_data_access_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'The data access log is append-only';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_data_access_log_changes
+  BEFORE UPDATE OR DELETE ON public.data_access_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_data_access_log_changes();
+
+-- Records a read by the signed-in user: a doctor reading patients' data in
+-- the app or through triage-worklist, or a patient's own export or chat.
+-- Doctors are only recorded for patients whose live grant let them read
+-- something, and only for the categories that grant covers; the profile is
+-- visible with any grant. The same read repeated from the same place
+-- within ten minutes (a page reload) is recorded once. Returns the number
+-- of entries written.
+CREATE OR REPLACE FUNCTION public.record_data_access(
+  _patient_ids UUID[],
+  _source TEXT,
+  _categories TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  _doctor public.doctors%ROWTYPE;
+  _patient_id UUID;
+  _accessor TEXT;
+  _allowed TEXT[];
+  _recorded INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _source NOT IN ('patient-records', 'video-consultation', 'messages', 'triage-worklist', 'fhir-export', 'health-chat') THEN
+    RAISE EXCEPTION 'Unknown source: %', _source;
+  END IF;
+
+  SELECT * INTO _doctor FROM public.doctors WHERE user_id = auth.uid();
+
+  FOREACH _patient_id IN ARRAY COALESCE(_patient_ids, '{}') LOOP
+    IF _patient_id = auth.uid() THEN
+      _accessor := 'patient';
+      _allowed := _categories;
+    ELSIF _doctor.id IS NOT NULL AND public.doctor_has_access(_patient_id) THEN
+      _accessor := 'doctor';
+      SELECT ARRAY(
+        SELECT c FROM unnest(_categories) AS c
+        WHERE c = 'profile' OR c = ANY(pda.scopes)
+      ) INTO _allowed
+      FROM public.patient_doctor_access pda
+      WHERE pda.patient_id = _patient_id AND pda.doctor_id = _doctor.id;
+    ELSE
+      CONTINUE;
+    END IF;
+
+    IF cardinality(_allowed) = 0 OR EXISTS (
+      SELECT 1 FROM public.data_access_log l
+      WHERE l.accessor_user_id = auth.uid()
+        AND l.patient_id = _patient_id
+        AND l.source = _source
+        AND l.categories = _allowed
+        AND l.created_at > NOW() - INTERVAL '10 minutes'
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.data_access_log (patient_id, accessor, accessor_user_id, doctor_id, accessor_name, source, categories)
+    VALUES (
+      _patient_id, _accessor, auth.uid(),
+      CASE WHEN _accessor = 'doctor' THEN _doctor.id END,
+      CASE WHEN _accessor = 'doctor' THEN _doctor.full_name END,
+      _source, _allowed
+    );
+    _recorded := _recorded + 1;
+  END LOOP;
+
+  RETURN _recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_data_access(UUID[], TEXT, TEXT[]) FROM PUBLIC, anon;
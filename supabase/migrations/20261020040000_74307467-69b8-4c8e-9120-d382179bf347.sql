@@ -0,0 +1,248 @@
+-- Personal data export and account deletion
+-- Patients can download everything held about them (the data-export
+-- function) and ask for their account to be erased. Erasure waits out a
+-- grace period in which the request can be cancelled; doctors lose access
+-- as soon as it is made. Completed appointments are kept for the doctor,
+-- stripped of anything that identifies the patient.
+
+-- Exports show in the patient's access log like other self-service reads
+ALTER TABLE public.data_access_log DROP CONSTRAINT data_access_log_source_check;
+ALTER TABLE public.data_access_log ADD CONSTRAINT data_access_log_source_check CHECK (source IN (
+  'patient-records', 'video-consultation', 'messages', 'triage-worklist',
+  'health-card', 'sos', 'fhir-export', 'health-chat', 'data-export'
+));
+
+CREATE OR REPLACE FUNCTION public.record_data_access(
+  _patient_ids UUID[],
+  _source TEXT,
+  _categories TEXT[]
+)
+RETURNS INTEGER AS $$
+DECLARE
+  _doctor public.doctors%ROWTYPE;
+  _patient_id UUID;
+  _accessor TEXT;
+  _allowed TEXT[];
+  _recorded INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _source NOT IN ('patient-records', 'video-consultation', 'messages', 'triage-worklist', 'fhir-export', 'health-chat', 'data-export') THEN
+    RAISE EXCEPTION 'Unknown source: %', _source;
+  END IF;
+
+  SELECT * INTO _doctor FROM public.doctors WHERE user_id = auth.uid();
+
+  FOREACH _patient_id IN ARRAY COALESCE(_patient_ids, '{}') LOOP
+    IF _patient_id = auth.uid() THEN
+      _accessor := 'patient';
+      _allowed := _categories;
+    ELSIF _doctor.id IS NOT NULL AND public.doctor_has_access(_patient_id) THEN
+      _accessor := 'doctor';
+      SELECT ARRAY(
+        SELECT c FROM unnest(_categories) AS c
+        WHERE c = 'profile' OR c = ANY(pda.scopes)
+      ) INTO _allowed
+      FROM public.patient_doctor_access pda
+      WHERE pda.patient_id = _patient_id AND pda.doctor_id = _doctor.id;
+    ELSE
+      CONTINUE;
+    END IF;
+
+    IF cardinality(_allowed) = 0 OR EXISTS (
+      SELECT 1 FROM public.data_access_log l
+      WHERE l.accessor_user_id = auth.uid()
+        AND l.patient_id = _patient_id
+        AND l.source = _source
+        AND l.categories = _allowed
+        AND l.created_at > NOW() - INTERVAL '10 minutes'
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.data_access_log (patient_id, accessor, accessor_user_id, doctor_id, accessor_name, source, categories)
+    VALUES (
+      _patient_id, _accessor, auth.uid(),
+      CASE WHEN _accessor = 'doctor' THEN _doctor.id END,
+      CASE WHEN _accessor = 'doctor' THEN _doctor.full_name END,
+      _source, _allowed
+    );
+    _recorded := _recorded + 1;
+  END LOOP;
+
+  RETURN _recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- These tables were created without a foreign key to the user, so deleting
+-- an account left their rows behind. NOT VALID: existing rows are not
+-- checked, new ones are and all of them cascade.
+ALTER TABLE public.vital_signs
+  ADD CONSTRAINT vital_signs_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+ALTER TABLE public.menstrual_cycles
+  ADD CONSTRAINT menstrual_cycles_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+ALTER TABLE public.pregnancy_tracking
+  ADD CONSTRAINT pregnancy_tracking_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+ALTER TABLE public.chat_messages
+  ADD CONSTRAINT chat_messages_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+
+-- An anonymised appointment belongs to no patient
+ALTER TABLE public.appointments
+  ADD COLUMN anonymised_at TIMESTAMP WITH TIME ZONE,
+  ALTER COLUMN patient_id DROP NOT NULL,
+  ADD CONSTRAINT appointments_patient_or_anonymised CHECK (patient_id IS NOT NULL OR anonymised_at IS NOT NULL);
+
+-- One row per request. Kept once the account is gone, as the record that
+-- it was erased, so user_id has no foreign key.
+CREATE TABLE public.account_deletion_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'cancelled', 'completed')),
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX idx_account_deletion_requests_pending
+  ON public.account_deletion_requests(user_id) WHERE status = 'pending';
+CREATE INDEX idx_account_deletion_requests_due
+  ON public.account_deletion_requests(scheduled_for) WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the functions below
+CREATE POLICY "Users can view their account deletion requests"
+  ON public.account_deletion_requests
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Schedules the signed-in patient's account for erasure after the grace
+-- period (ACCOUNT_DELETION_GRACE_DAYS in _shared/personalData.ts). Doctors
+-- lose access now, and requests still waiting are declined; cancelling
+-- does not restore either.
+CREATE OR REPLACE FUNCTION public.request_account_deletion()
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  _scheduled_for TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '30 days';
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_role(auth.uid(), 'patient') THEN
+    RAISE EXCEPTION 'Only patients can delete their account here';
+  END IF;
+  IF public.has_role(auth.uid(), 'doctor') THEN
+    RAISE EXCEPTION 'Doctor accounts are closed by support';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.account_deletion_requests
+    WHERE user_id = auth.uid() AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Your account is already scheduled for deletion';
+  END IF;
+
+  INSERT INTO public.account_deletion_requests (user_id, scheduled_for)
+  VALUES (auth.uid(), _scheduled_for);
+
+  UPDATE public.patient_doctor_access
+    SET status = 'revoked'
+    WHERE patient_id = auth.uid() AND status = 'active';
+
+  WITH declined AS (
+    UPDATE public.doctor_access_requests
+      SET status = 'declined', responded_at = NOW()
+      WHERE patient_id = auth.uid() AND status = 'pending'
+      RETURNING id, patient_id, doctor_id, scopes, expires_at
+  )
+  INSERT INTO public.access_consent_events (patient_id, doctor_id, request_id, event, actor, scopes, expires_at)
+  SELECT patient_id, doctor_id, id, 'declined', 'patient', scopes, expires_at FROM declined;
+
+  RETURN _scheduled_for;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_account_deletion()
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.account_deletion_requests
+    SET status = 'cancelled', cancelled_at = NOW()
+    WHERE user_id = auth.uid() AND status = 'pending';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your account is not scheduled for deletion';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Erases one account. Completed appointments stay with the doctor as a
+-- record of care given, without the patient, their reason for the visit,
+-- notes or anything the patient wrote in the status history. Everything
+-- else goes: tables without a cascading foreign key explicitly, the rest
+-- with the auth user.
+CREATE OR REPLACE FUNCTION public.erase_account(_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.appointment_status_changes
+    SET reason = NULL
+    WHERE actor_role = 'patient'
+      AND appointment_id IN (
+        SELECT id FROM public.appointments WHERE patient_id = _user_id AND status = 'completed'
+      );
+
+  UPDATE public.appointments
+    SET patient_id = NULL,
+        reason = NULL,
+        notes = NULL,
+        prescription = NULL,
+        series_id = NULL,
+        series_index = NULL,
+        video_room_name = NULL,
+        video_room_url = NULL,
+        anonymised_at = NOW()
+    WHERE patient_id = _user_id AND status = 'completed';
+
+  DELETE FROM public.appointments WHERE patient_id = _user_id;
+  DELETE FROM public.patient_doctor_access WHERE patient_id = _user_id;
+  DELETE FROM public.messages WHERE sender_id = _user_id OR receiver_id = _user_id;
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+
+  DELETE FROM auth.users WHERE id = _user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.erase_account(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Erases accounts whose grace period is over. One failure does not hold up
+-- the rest; it is retried on the next run.
+CREATE OR REPLACE FUNCTION public.process_account_deletions()
+RETURNS INTEGER AS $$
+DECLARE
+  _request public.account_deletion_requests%ROWTYPE;
+  erased_count INTEGER := 0;
+BEGIN
+  FOR _request IN
+    SELECT * FROM public.account_deletion_requests
+    WHERE status = 'pending' AND scheduled_for <= NOW()
+    ORDER BY scheduled_for
+    LIMIT 50
+  LOOP
+    BEGIN
+      PERFORM public.erase_account(_request.user_id);
+      UPDATE public.account_deletion_requests
+        SET status = 'completed', completed_at = NOW()
+        WHERE id = _request.id;
+      erased_count := erased_count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not erase account %: %', _request.user_id, SQLERRM;
+    END;
+  END LOOP;
+  RETURN erased_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.process_account_deletions() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'process-account-deletions',
+  '0 * * * *',
+  $$ SELECT public.process_account_deletions(); $$
+);
@@ -0,0 +1,410 @@
+-- Doctor identity verification
+-- Anyone could sign up as a doctor and be listed to patients straight away,
+-- with a licence number nobody checked. Doctors now upload their licence
+-- and ID and submit them for review; an admin approves or rejects them with
+-- a reason. Only verified doctors are listed to patients, and only they can
+-- be given access or ask for it.
+--
+-- Existing doctors start unverified as well. Grants they already hold keep
+-- working, but they are hidden from search until they have been reviewed.
+-- The first admin is added to user_roles with the service role.
+
+ALTER TABLE public.doctors
+  ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'pending_verification'
+    CHECK (verification_status IN ('pending_verification', 'verified', 'rejected')),
+  ADD COLUMN verification_submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN verification_reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN verification_reviewed_by UUID,
+  ADD COLUMN verification_rejection_reason TEXT;
+
+-- The review queue: submitted and waiting
+CREATE INDEX idx_doctors_verification_queue
+  ON public.doctors(verification_submitted_at)
+  WHERE verification_status = 'pending_verification' AND verification_submitted_at IS NOT NULL;
+
+-- Patients see a doctor once verified, and always the ones they already
+-- deal with, so existing grants, appointments and conversations still show
+-- who they are with. SECURITY DEFINER: the tables it reads have policies
+-- that read doctors in turn.
+CREATE OR REPLACE FUNCTION public.patient_knows_doctor(_doctor_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.patient_doctor_access
+    WHERE patient_id = auth.uid() AND doctor_id = _doctor_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.doctor_access_requests
+    WHERE patient_id = auth.uid() AND doctor_id = _doctor_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE patient_id = auth.uid() AND doctor_id = _doctor_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.messages m
+    JOIN public.doctors d ON d.id = _doctor_id
+    WHERE (m.sender_id = auth.uid() AND m.receiver_id = d.user_id)
+       OR (m.sender_id = d.user_id AND m.receiver_id = auth.uid())
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY "Anyone can view doctor profiles" ON public.doctors;
+
+CREATE POLICY "Anyone can view verified doctor profiles"
+  ON public.doctors
+  FOR SELECT
+  TO authenticated, anon
+  USING (verification_status = 'verified');
+
+CREATE POLICY "Doctors can view their own profile before verification"
+  ON public.doctors
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Patients can view doctors they deal with"
+  ON public.doctors
+  FOR SELECT
+  TO authenticated
+  USING (public.patient_knows_doctor(id));
+
+CREATE POLICY "Admins can view all doctor profiles"
+  ON public.doctors
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Set by submit_doctor_verification and review_doctor_verification
+CREATE OR REPLACE FUNCTION public.doctor_verification_change_allowed()
+RETURNS BOOLEAN AS $$
+  SELECT current_setting('app.doctor_verification_change', true) = 'on'
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Doctors cannot verify themselves: new profiles start unverified and the
+-- verification columns only change through the functions below. A new
+-- licence number needs a new review.
+CREATE OR REPLACE FUNCTION public.protect_doctor_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.doctor_verification_change_allowed() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verification_status := 'pending_verification';
+    NEW.verification_submitted_at := NULL;
+    NEW.verification_reviewed_at := NULL;
+    NEW.verification_reviewed_by := NULL;
+    NEW.verification_rejection_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.verification_status IS DISTINCT FROM OLD.verification_status
+    OR NEW.verification_submitted_at IS DISTINCT FROM OLD.verification_submitted_at
+    OR NEW.verification_reviewed_at IS DISTINCT FROM OLD.verification_reviewed_at
+    OR NEW.verification_reviewed_by IS DISTINCT FROM OLD.verification_reviewed_by
+    OR NEW.verification_rejection_reason IS DISTINCT FROM OLD.verification_rejection_reason
+  THEN
+    RAISE EXCEPTION 'Verification is changed by review only' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.license_number IS DISTINCT FROM OLD.license_number AND OLD.verification_submitted_at IS NOT NULL THEN
+    NEW.verification_status := 'pending_verification';
+    NEW.verification_submitted_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_doctor_verification
+  BEFORE INSERT OR UPDATE ON public.doctors
+  FOR EACH ROW EXECUTE FUNCTION public.protect_doctor_verification();
+
+-- Admins are appointed with the service role or by another admin, not by
+-- picking the role at sign-up
+CREATE OR REPLACE FUNCTION public.protect_admin_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role = 'admin' AND auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can appoint admins' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_admin_role
+  BEFORE INSERT OR UPDATE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_admin_role();
+
+-- Licence scans and ID the doctor uploads for review. The files live in
+-- the private doctor-verification bucket under the doctor's user id.
+CREATE TABLE public.doctor_verification_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL CHECK (document_type IN ('license', 'identity', 'other')),
+  file_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT,
+  size_bytes INTEGER,
+  uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_doctor_verification_documents_doctor
+  ON public.doctor_verification_documents(doctor_id, uploaded_at);
+
+-- Enable RLS
+ALTER TABLE public.doctor_verification_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view their verification documents"
+  ON public.doctor_verification_documents
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.doctors d WHERE d.id = doctor_id AND d.user_id = auth.uid()
+  ));
+
+-- Documents of a verified doctor are the record of what was checked
+CREATE POLICY "Doctors can add verification documents until verified"
+  ON public.doctor_verification_documents
+  FOR INSERT
+  WITH CHECK (
+    split_part(file_path, '/', 1) = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM public.doctors d
+      WHERE d.id = doctor_id AND d.user_id = auth.uid() AND d.verification_status <> 'verified'
+    )
+  );
+
+CREATE POLICY "Doctors can remove verification documents until verified"
+  ON public.doctor_verification_documents
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.doctors d
+    WHERE d.id = doctor_id AND d.user_id = auth.uid() AND d.verification_status <> 'verified'
+  ));
+
+CREATE POLICY "Admins can view all verification documents"
+  ON public.doctor_verification_documents
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('doctor-verification', 'doctor-verification', false, 10485760, ARRAY['application/pdf', 'image/jpeg', 'image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Doctors can upload their verification documents"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'doctor-verification'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND public.has_role(auth.uid(), 'doctor')
+  );
+
+CREATE POLICY "Doctors can view their verification documents"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'doctor-verification' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Doctors can delete their verification documents"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'doctor-verification' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can view verification documents"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'doctor-verification' AND public.has_role(auth.uid(), 'admin'));
+
+-- Unverified doctors cannot ask for access, and patients cannot give it to
+-- them. Narrowing or revoking an existing grant is always allowed.
+CREATE OR REPLACE FUNCTION public.require_verified_doctor()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.doctors WHERE id = NEW.doctor_id AND verification_status = 'verified'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'doctor_access_requests' THEN
+    RAISE EXCEPTION 'Your account must be verified before you can ask patients for access';
+  END IF;
+
+  IF NEW.status = 'active' AND (
+    TG_OP = 'INSERT'
+    OR OLD.status <> 'active'
+    OR NOT OLD.scopes @> NEW.scopes
+    OR (OLD.expires_at IS NOT NULL AND (NEW.expires_at IS NULL OR NEW.expires_at > OLD.expires_at))
+  ) THEN
+    RAISE EXCEPTION 'This doctor has not been verified yet';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER require_verified_doctor
+  BEFORE INSERT OR UPDATE ON public.patient_doctor_access
+  FOR EACH ROW EXECUTE FUNCTION public.require_verified_doctor();
+
+CREATE TRIGGER require_verified_doctor
+  BEFORE INSERT ON public.doctor_access_requests
+  FOR EACH ROW EXECUTE FUNCTION public.require_verified_doctor();
+
+-- Grants revoked by an admin (a rejected doctor) are the system's doing,
+-- not the doctor's
+CREATE OR REPLACE FUNCTION public.log_doctor_access_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  _event TEXT;
+  _actor TEXT;
+  _row public.patient_doctor_access%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _row := OLD;
+    _event := CASE WHEN OLD.status = 'active' THEN 'revoked' END;
+  ELSE
+    _row := NEW;
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+      _event := CASE NEW.status WHEN 'active' THEN 'granted' WHEN 'revoked' THEN 'revoked' ELSE 'expired' END;
+    ELSIF NEW.status = 'active' AND (NEW.scopes IS DISTINCT FROM OLD.scopes OR NEW.expires_at IS DISTINCT FROM OLD.expires_at) THEN
+      _event := 'updated';
+    END IF;
+  END IF;
+
+  IF _event IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _actor := CASE
+    WHEN auth.uid() IS NULL THEN 'system'
+    WHEN auth.uid() = _row.patient_id THEN 'patient'
+    WHEN public.has_role(auth.uid(), 'admin') THEN 'system'
+    ELSE 'doctor'
+  END;
+
+  INSERT INTO public.access_consent_events (patient_id, doctor_id, event, actor, scopes, expires_at)
+  VALUES (_row.patient_id, _row.doctor_id, _event, _actor, _row.scopes, _row.expires_at);
+
+  IF _event = 'granted' THEN
+    UPDATE public.doctor_access_requests
+      SET status = 'approved', responded_at = NOW()
+      WHERE doctor_id = _row.doctor_id AND patient_id = _row.patient_id AND status = 'pending';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The signed-in doctor sends their documents for review. Needs a licence
+-- number on the profile and a licence document uploaded.
+CREATE OR REPLACE FUNCTION public.submit_doctor_verification()
+RETURNS VOID AS $$
+DECLARE
+  doc public.doctors%ROWTYPE;
+BEGIN
+  SELECT * INTO doc FROM public.doctors WHERE user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Save your profile first';
+  END IF;
+
+  IF doc.verification_status = 'verified' THEN
+    RAISE EXCEPTION 'Your account is already verified';
+  END IF;
+  IF doc.verification_status = 'pending_verification' AND doc.verification_submitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Your documents are already waiting for review';
+  END IF;
+  IF NULLIF(btrim(doc.license_number), '') IS NULL THEN
+    RAISE EXCEPTION 'Add your license number to your profile first';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.doctor_verification_documents
+    WHERE doctor_id = doc.id AND document_type = 'license'
+  ) THEN
+    RAISE EXCEPTION 'Upload your medical license first';
+  END IF;
+
+  PERFORM set_config('app.doctor_verification_change', 'on', true);
+
+  UPDATE public.doctors
+    SET verification_status = 'pending_verification',
+        verification_submitted_at = NOW(),
+        verification_rejection_reason = NULL
+    WHERE id = doc.id;
+
+  PERFORM set_config('app.doctor_verification_change', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- An admin approves a submitted doctor or rejects them with a reason. A
+-- rejected doctor loses the access they held and their patients are told;
+-- they can upload new documents and submit again.
+CREATE OR REPLACE FUNCTION public.review_doctor_verification(
+  _doctor_id UUID,
+  _approve BOOLEAN,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  doc public.doctors%ROWTYPE;
+  _patient_id UUID;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review doctors';
+  END IF;
+
+  SELECT * INTO doc FROM public.doctors WHERE id = _doctor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Doctor not found';
+  END IF;
+  IF doc.verification_status <> 'pending_verification' OR doc.verification_submitted_at IS NULL THEN
+    RAISE EXCEPTION 'This doctor is not waiting for review';
+  END IF;
+  IF NOT _approve AND NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the rejection';
+  END IF;
+
+  PERFORM set_config('app.doctor_verification_change', 'on', true);
+
+  UPDATE public.doctors
+    SET verification_status = CASE WHEN _approve THEN 'verified' ELSE 'rejected' END,
+        verification_reviewed_at = NOW(),
+        verification_reviewed_by = auth.uid(),
+        verification_rejection_reason = CASE WHEN _approve THEN NULL ELSE btrim(_reason) END
+    WHERE id = doc.id;
+
+  PERFORM set_config('app.doctor_verification_change', '', true);
+
+  IF _approve THEN
+    PERFORM public.create_notification(
+      doc.user_id, 'access_update', 'Your account has been verified',
+      'Patients can now find you and give you access to their records',
+      '/doctor/profile', jsonb_build_object('doctor_id', doc.id),
+      'doctor-verification:' || doc.id || ':' || doc.verification_submitted_at
+    );
+    RETURN;
+  END IF;
+
+  FOR _patient_id IN
+    UPDATE public.patient_doctor_access
+      SET status = 'revoked'
+      WHERE doctor_id = doc.id AND status = 'active'
+      RETURNING patient_id
+  LOOP
+    PERFORM public.create_notification(
+      _patient_id, 'access_update', doc.full_name || '''s access to your records has ended',
+      'Their medical license could not be verified', '/patient/my-doctors',
+      jsonb_build_object('doctor_id', doc.id),
+      'doctor-verification:' || doc.id || ':' || doc.verification_submitted_at
+    );
+  END LOOP;
+
+  PERFORM public.create_notification(
+    doc.user_id, 'access_update', 'Your verification was not approved', btrim(_reason),
+    '/doctor/profile', jsonb_build_object('doctor_id', doc.id),
+    'doctor-verification:' || doc.id || ':' || doc.verification_submitted_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,62 @@
+-- Pending prescriptions stay with the patient and appointment they were
+-- written for. The update policy only re-checked that the doctor owned the
+-- row, so a doctor could point a pending prescription at any other patient,
+-- who could then accept it into their medications.
+
+-- Edits need the same access as writing the prescription did. Cancelling
+-- does not, so a doctor can still withdraw a prescription after the patient
+-- has revoked their access.
+DROP POLICY "Doctors can update their pending prescriptions" ON public.prescriptions;
+
+CREATE POLICY "Doctors can update their pending prescriptions"
+  ON public.prescriptions
+  FOR UPDATE
+  USING (
+    status = 'pending'
+    AND EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = prescriptions.doctor_id AND d.user_id = auth.uid())
+  )
+  WITH CHECK (
+    status IN ('pending', 'cancelled')
+    AND medication_id IS NULL
+    AND EXISTS (SELECT 1 FROM public.doctors d WHERE d.id = prescriptions.doctor_id AND d.user_id = auth.uid())
+    AND (
+      status = 'cancelled'
+      OR EXISTS (
+        SELECT 1 FROM public.patient_doctor_access pda
+        WHERE pda.doctor_id = prescriptions.doctor_id
+          AND pda.patient_id = prescriptions.patient_id
+          AND pda.status = 'active'
+          AND (pda.expires_at IS NULL OR pda.expires_at > NOW())
+      )
+    )
+    AND (
+      appointment_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.id = prescriptions.appointment_id
+          AND a.doctor_id = prescriptions.doctor_id
+          AND a.patient_id = prescriptions.patient_id
+      )
+    )
+  );
+
+-- Who a prescription is for and who wrote it never change; a new one is
+-- written instead. appointment_id may only be cleared, which is also what
+-- deleting the appointment does through its foreign key.
+CREATE OR REPLACE FUNCTION public.protect_prescription_parties()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.patient_id IS DISTINCT FROM OLD.patient_id
+    OR NEW.doctor_id IS DISTINCT FROM OLD.doctor_id
+    OR (NEW.appointment_id IS DISTINCT FROM OLD.appointment_id AND NEW.appointment_id IS NOT NULL)
+  THEN
+    RAISE EXCEPTION 'A prescription cannot be moved to another patient, doctor or appointment'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_prescription_parties
+  BEFORE UPDATE ON public.prescriptions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_prescription_parties();
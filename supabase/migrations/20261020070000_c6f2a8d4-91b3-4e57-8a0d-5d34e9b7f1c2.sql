@@ -0,0 +1,50 @@
+-- Atomic PIN attempt limit for health card links
+-- health-card counted recent pin_rejected scans and then checked the PIN, so
+-- parallel requests all saw a count under the limit and got to guess. Each
+-- guess now takes an attempt from a per-link counter in one statement before
+-- the PIN is checked; the row lock makes concurrent guesses queue up.
+
+-- Written only by the functions below with the service role; no policies
+CREATE TABLE public.health_card_pin_attempts (
+  link_id UUID PRIMARY KEY REFERENCES public.health_card_links(id) ON DELETE CASCADE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  window_ends_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE public.health_card_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Takes one attempt and says whether it may go ahead. The window starts at
+-- the first attempt; once _max_attempts are used the link stays locked until
+-- it ends. Refused attempts are counted too but do not extend the window.
+CREATE OR REPLACE FUNCTION public.take_health_card_pin_attempt(
+  _link_id UUID,
+  _max_attempts INTEGER,
+  _window_minutes INTEGER
+)
+RETURNS BOOLEAN AS $$
+  INSERT INTO public.health_card_pin_attempts AS a (link_id, attempts, window_ends_at)
+  VALUES (_link_id, 1, NOW() + make_interval(mins => _window_minutes))
+  ON CONFLICT (link_id) DO UPDATE SET
+    attempts = CASE WHEN a.window_ends_at <= NOW() THEN 1 ELSE a.attempts + 1 END,
+    window_ends_at = CASE WHEN a.window_ends_at <= NOW() THEN EXCLUDED.window_ends_at ELSE a.window_ends_at END
+  RETURNING attempts <= _max_attempts;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- A correct PIN gives the attempts back
+CREATE OR REPLACE FUNCTION public.clear_health_card_pin_attempts(_link_id UUID)
+RETURNS VOID AS $$
+  DELETE FROM public.health_card_pin_attempts WHERE link_id = _link_id;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Whether the link is locked right now, without taking an attempt
+CREATE OR REPLACE FUNCTION public.health_card_pin_locked(_link_id UUID, _max_attempts INTEGER)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.health_card_pin_attempts
+    WHERE link_id = _link_id AND attempts >= _max_attempts AND window_ends_at > NOW()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.take_health_card_pin_attempt(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.clear_health_card_pin_attempts(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.health_card_pin_locked(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
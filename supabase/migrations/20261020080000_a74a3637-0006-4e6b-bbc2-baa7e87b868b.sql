@@ -0,0 +1,169 @@
+-- Doctor reads of patient data are logged by the server
+-- Doctors read patient tables directly under RLS and their browser then
+-- reported the read through record_data_access, so a client that skipped
+-- the call, or queried the API itself, was never logged, and repeat reads
+-- within ten minutes were folded into one entry. Doctors now read patient
+-- data only through the functions below, which write the log entry in the
+-- same transaction as the read. triage-worklist reads with the service
+-- role and writes its own entries.
+
+-- The patient list and the prescription form read patient data too
+ALTER TABLE public.data_access_log DROP CONSTRAINT data_access_log_source_check;
+ALTER TABLE public.data_access_log ADD CONSTRAINT data_access_log_source_check CHECK (source IN (
+  'patient-records', 'video-consultation', 'messages', 'triage-worklist',
+  'health-card', 'sos', 'fhir-export', 'health-chat', 'data-export',
+  'patient-list', 'prescriptions'
+));
+
+-- No more direct reads. Vital alerts and alert rules keep their policies:
+-- they are the doctor's own monitoring, not the patient's record.
+DROP POLICY "Doctors can view patient health profiles when access granted" ON public.health_profiles;
+DROP POLICY "Doctors can view patient allergies when access granted" ON public.allergies;
+DROP POLICY "Doctors can view patient medications when access granted" ON public.medications;
+DROP POLICY "Doctors can view patient vital signs when access granted" ON public.vital_signs;
+DROP POLICY "Doctors can view patient menstrual cycles when access granted" ON public.menstrual_cycles;
+DROP POLICY "Doctors can view patient pregnancy tracking when access granted" ON public.pregnancy_tracking;
+DROP POLICY "Doctors can view patient medication schedules when access granted" ON public.medication_schedules;
+DROP POLICY "Doctors can view patient medication doses when access granted" ON public.medication_doses;
+
+-- Health profiles of the given patients the signed-in doctor has live
+-- access to, for lists (patients, messages, video consultations). Each
+-- patient returned gets a log entry; the others are left out.
+CREATE OR REPLACE FUNCTION public.read_patient_profiles(_patient_ids UUID[], _source TEXT)
+RETURNS SETOF public.health_profiles AS $$
+BEGIN
+  IF _source NOT IN ('patient-list', 'video-consultation', 'messages') THEN
+    RAISE EXCEPTION 'Unknown source: %', _source;
+  END IF;
+
+  RETURN QUERY
+    WITH readable AS (
+      SELECT hp.* FROM public.health_profiles hp
+      WHERE hp.user_id = ANY(_patient_ids)
+        AND public.doctor_has_access(hp.user_id)
+    ), logged AS (
+      INSERT INTO public.data_access_log (patient_id, accessor, accessor_user_id, doctor_id, accessor_name, source, categories)
+      SELECT r.user_id, 'doctor', auth.uid(), d.id, d.full_name, _source, ARRAY['profile']
+      FROM readable r
+      JOIN public.doctors d ON d.user_id = auth.uid()
+    )
+    SELECT * FROM readable;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- One patient's record for the signed-in doctor, as a JSON object with a
+-- key per category asked for that their grant covers; the profile comes
+-- with any grant. Vitals are the newest _vitals_limit readings. Every call
+-- is logged, with the categories actually returned.
+CREATE OR REPLACE FUNCTION public.read_patient_record(
+  _patient_id UUID,
+  _source TEXT,
+  _categories TEXT[],
+  _vitals_limit INTEGER DEFAULT 10
+)
+RETURNS JSONB AS $$
+DECLARE
+  _doctor public.doctors%ROWTYPE;
+  _scopes TEXT[];
+  _allowed TEXT[];
+  _record JSONB := '{}'::JSONB;
+BEGIN
+  IF _source NOT IN ('patient-records', 'prescriptions') THEN
+    RAISE EXCEPTION 'Unknown source: %', _source;
+  END IF;
+
+  SELECT * INTO _doctor FROM public.doctors WHERE user_id = auth.uid();
+  SELECT pda.scopes INTO _scopes
+  FROM public.patient_doctor_access pda
+  WHERE pda.patient_id = _patient_id
+    AND pda.doctor_id = _doctor.id
+    AND pda.status = 'active'
+    AND (pda.expires_at IS NULL OR pda.expires_at > NOW());
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No access to this patient' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  _allowed := ARRAY(
+    SELECT DISTINCT c FROM unnest(_categories) AS c
+    WHERE c = 'profile' OR (c = ANY(_scopes) AND c IN ('vitals', 'medications', 'allergies', 'menstrual', 'pregnancy'))
+  );
+  IF cardinality(_allowed) = 0 THEN
+    RETURN _record;
+  END IF;
+
+  INSERT INTO public.data_access_log (patient_id, accessor, accessor_user_id, doctor_id, accessor_name, source, categories)
+  VALUES (_patient_id, 'doctor', auth.uid(), _doctor.id, _doctor.full_name, _source, _allowed);
+
+  IF 'profile' = ANY(_allowed) THEN
+    _record := _record || jsonb_build_object('profile', (
+      SELECT to_jsonb(hp) FROM public.health_profiles hp WHERE hp.user_id = _patient_id
+    ));
+  END IF;
+  IF 'vitals' = ANY(_allowed) THEN
+    _record := _record || jsonb_build_object('vitals', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(v) ORDER BY v.recorded_at DESC), '[]'::JSONB)
+      FROM (
+        SELECT * FROM public.vital_signs
+        WHERE user_id = _patient_id
+        ORDER BY recorded_at DESC
+        LIMIT LEAST(GREATEST(_vitals_limit, 1), 500)
+      ) v
+    ));
+  END IF;
+  IF 'medications' = ANY(_allowed) THEN
+    _record := _record || jsonb_build_object('medications', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(m) ORDER BY m.created_at DESC), '[]'::JSONB)
+      FROM public.medications m WHERE m.user_id = _patient_id
+    ));
+  END IF;
+  IF 'allergies' = ANY(_allowed) THEN
+    _record := _record || jsonb_build_object('allergies', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(a) ORDER BY a.created_at DESC), '[]'::JSONB)
+      FROM public.allergies a WHERE a.user_id = _patient_id
+    ));
+  END IF;
+  IF 'menstrual' = ANY(_allowed) THEN
+    _record := _record || jsonb_build_object('menstrual', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(mc) ORDER BY mc.cycle_start_date DESC), '[]'::JSONB)
+      FROM public.menstrual_cycles mc WHERE mc.user_id = _patient_id
+    ));
+  END IF;
+  IF 'pregnancy' = ANY(_allowed) THEN
+    _record := _record || jsonb_build_object('pregnancy', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(p) ORDER BY p.due_date DESC), '[]'::JSONB)
+      FROM public.pregnancy_tracking p WHERE p.user_id = _patient_id
+    ));
+  END IF;
+
+  RETURN _record;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.read_patient_profiles(UUID[], TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.read_patient_record(UUID, TEXT, TEXT[], INTEGER) FROM PUBLIC, anon;
+
+-- Now only for a patient's own reads through edge functions (exports and
+-- health-chat). Doctor reads are logged above and no longer self-reported,
+-- and every read gets its own entry.
+CREATE OR REPLACE FUNCTION public.record_data_access(
+  _patient_ids UUID[],
+  _source TEXT,
+  _categories TEXT[]
+)
+RETURNS INTEGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF _source NOT IN ('fhir-export', 'health-chat', 'data-export') THEN
+    RAISE EXCEPTION 'Unknown source: %', _source;
+  END IF;
+  IF NOT auth.uid() = ANY(COALESCE(_patient_ids, '{}')) OR COALESCE(cardinality(_categories), 0) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.data_access_log (patient_id, accessor, accessor_user_id, source, categories)
+  VALUES (auth.uid(), 'patient', auth.uid(), _source, _categories);
+  RETURN 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
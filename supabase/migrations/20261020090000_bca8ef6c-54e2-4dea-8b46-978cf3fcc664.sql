@@ -0,0 +1,95 @@
+-- Overlapping legacy bookings and doctor time zones
+-- Bookings made before the overlap constraint could double-book a doctor.
+-- They are left live and marked legacy_overlap, which keeps them out of the
+-- constraint; the doctor is told which ones to sort out. Moving or
+-- reassigning such a booking clears the mark, so it has to fit like any
+-- other.
+
+ALTER TABLE public.appointments
+  ADD COLUMN legacy_overlap BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Set only here; new bookings never carry it and a changed booking loses it
+CREATE OR REPLACE FUNCTION public.clear_legacy_overlap()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.legacy_overlap := FALSE;
+  ELSE
+    NEW.legacy_overlap := OLD.legacy_overlap
+      AND NEW.doctor_id = OLD.doctor_id
+      AND NEW.scheduled_time = OLD.scheduled_time
+      AND NEW.duration IS NOT DISTINCT FROM OLD.duration;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+ALTER TABLE public.appointments DROP CONSTRAINT appointments_no_doctor_overlap;
+
+UPDATE public.appointments a
+SET legacy_overlap = TRUE
+WHERE a.status NOT IN ('cancelled', 'no-show', 'rescheduled')
+  AND EXISTS (
+    SELECT 1 FROM public.appointments b
+    WHERE b.doctor_id = a.doctor_id
+      AND b.id <> a.id
+      AND b.status NOT IN ('cancelled', 'no-show', 'rescheduled')
+      AND tstzrange(b.scheduled_time, b.ends_at) && tstzrange(a.scheduled_time, a.ends_at)
+  );
+
+CREATE TRIGGER clear_legacy_overlap
+  BEFORE INSERT OR UPDATE ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.clear_legacy_overlap();
+
+ALTER TABLE public.appointments
+  ADD CONSTRAINT appointments_no_doctor_overlap
+  EXCLUDE USING gist (doctor_id WITH =, tstzrange(scheduled_time, ends_at) WITH &&)
+  WHERE (status NOT IN ('cancelled', 'no-show', 'rescheduled') AND NOT legacy_overlap);
+
+-- Tell each doctor with upcoming overlaps; past ones are history
+DO $$
+DECLARE
+  _doctor RECORD;
+  _total INTEGER := 0;
+BEGIN
+  FOR _doctor IN
+    SELECT d.user_id, COUNT(*) AS overlapping
+    FROM public.appointments a
+    JOIN public.doctors d ON d.id = a.doctor_id
+    WHERE a.legacy_overlap AND a.ends_at > NOW()
+    GROUP BY d.user_id
+  LOOP
+    PERFORM public.create_notification(
+      _doctor.user_id,
+      'appointment_update',
+      'Overlapping appointments need your attention',
+      _doctor.overlapping || ' upcoming appointment(s) were booked over each other before double-booking was blocked. '
+        || 'They are marked on your appointments page; reschedule or cancel them as needed.',
+      '/doctor/appointments',
+      '{}'::jsonb,
+      'legacy-overlap'
+    );
+    _total := _total + _doctor.overlapping;
+  END LOOP;
+
+  IF _total > 0 THEN
+    RAISE NOTICE '% upcoming appointments overlap another booking; marked legacy_overlap and their doctors notified', _total;
+  END IF;
+END $$;
+
+-- AT TIME ZONE throws on a name Postgres doesn't know, which would make the
+-- doctor impossible to book. A CHECK can't read pg_timezone_names, so a
+-- trigger does.
+CREATE OR REPLACE FUNCTION public.validate_doctor_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_doctor_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.doctors
+  FOR EACH ROW EXECUTE FUNCTION public.validate_doctor_timezone();
@@ -0,0 +1,177 @@
+-- Access request fixes
+-- Access notifications linked to a My Doctors path that doesn't exist.
+-- request_patient_access told a doctor when a Health ID belonged to nobody,
+-- which let them probe for valid IDs; a request for an unknown ID is now
+-- stored and answered like any other and simply never gets a reply. Grants
+-- must cover at least one category.
+
+-- Requests, and their history, for a Health ID nobody has carry no patient
+ALTER TABLE public.doctor_access_requests ALTER COLUMN patient_id DROP NOT NULL;
+ALTER TABLE public.access_consent_events ALTER COLUMN patient_id DROP NOT NULL;
+
+-- One open request per doctor and Health ID, known or not
+CREATE UNIQUE INDEX idx_doctor_access_requests_pending_health_id
+  ON public.doctor_access_requests(doctor_id, health_id)
+  WHERE status = 'pending';
+
+-- An empty grant reads as active but covers nothing. Ones that exist are
+-- revoked (and show as such in the consent history) before the check goes
+-- on; older revoked or expired rows are left as they were.
+UPDATE public.patient_doctor_access
+  SET status = 'revoked'
+  WHERE status = 'active' AND cardinality(scopes) = 0;
+
+ALTER TABLE public.patient_doctor_access
+  ADD CONSTRAINT patient_doctor_access_scopes_not_empty CHECK (cardinality(scopes) > 0) NOT VALID;
+
+-- The doctor gets the same answer whether or not the Health ID is in use:
+-- every check that could tell the two apart runs before the lookup, or only
+-- for patients they already have access to.
+CREATE OR REPLACE FUNCTION public.request_patient_access(
+  _health_id TEXT,
+  _scopes TEXT[],
+  _expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _message TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  _doctor_id UUID;
+  _patient_id UUID;
+  _normalized TEXT := btrim(_health_id);
+  _request_id UUID;
+BEGIN
+  SELECT id INTO _doctor_id FROM public.doctors WHERE user_id = auth.uid();
+  IF _doctor_id IS NULL THEN
+    RAISE EXCEPTION 'Only doctors can request access';
+  END IF;
+
+  IF _scopes IS NULL OR cardinality(_scopes) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one kind of record';
+  END IF;
+
+  IF _normalized IS NULL OR _normalized = '' THEN
+    RAISE EXCEPTION 'Enter the patient''s Health ID';
+  END IF;
+
+  IF _expires_at IS NOT NULL AND _expires_at <= NOW() THEN
+    RAISE EXCEPTION 'The end date must be in the future';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.doctor_access_requests
+    WHERE doctor_id = _doctor_id AND health_id = _normalized AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'You already have a request waiting for this patient';
+  END IF;
+
+  SELECT user_id INTO _patient_id FROM public.health_profiles WHERE health_id = _normalized;
+
+  IF _patient_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.patient_doctor_access
+    WHERE patient_id = _patient_id
+      AND doctor_id = _doctor_id
+      AND status = 'active'
+      AND scopes @> _scopes
+      AND (expires_at IS NULL OR (_expires_at IS NOT NULL AND expires_at >= _expires_at))
+  ) THEN
+    RAISE EXCEPTION 'You already have this access';
+  END IF;
+
+  INSERT INTO public.doctor_access_requests (doctor_id, patient_id, health_id, scopes, expires_at, message)
+  VALUES (_doctor_id, _patient_id, _normalized, _scopes, _expires_at, NULLIF(btrim(_message), ''))
+  RETURNING id INTO _request_id;
+
+  INSERT INTO public.access_consent_events (patient_id, doctor_id, request_id, event, actor, scopes, expires_at, note)
+  VALUES (_patient_id, _doctor_id, _request_id, 'requested', 'doctor', _scopes, _expires_at, NULLIF(btrim(_message), ''));
+
+  RETURN _request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Requests without a patient show their Health ID from the request
+CREATE OR REPLACE FUNCTION public.get_consent_history(_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  id UUID,
+  patient_id UUID,
+  doctor_id UUID,
+  doctor_name TEXT,
+  health_id TEXT,
+  event TEXT,
+  actor TEXT,
+  scopes TEXT[],
+  expires_at TIMESTAMP WITH TIME ZONE,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT e.id, e.patient_id, e.doctor_id, d.full_name::TEXT, COALESCE(hp.health_id, r.health_id)::TEXT,
+         e.event::TEXT, e.actor::TEXT, e.scopes, e.expires_at, e.note, e.created_at
+  FROM public.access_consent_events e
+  JOIN public.doctors d ON d.id = e.doctor_id
+  LEFT JOIN public.health_profiles hp ON hp.user_id = e.patient_id
+  LEFT JOIN public.doctor_access_requests r ON r.id = e.request_id
+  WHERE e.patient_id = auth.uid() OR d.user_id = auth.uid()
+  ORDER BY e.created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 500)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- My Doctors lives at /patient/my-doctors, and there is no patient to tell
+-- about a request for an unknown Health ID
+CREATE OR REPLACE FUNCTION public.notify_access_consent_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  doctor_user_id UUID;
+  doctor_name TEXT;
+  patient_label TEXT;
+BEGIN
+  IF NEW.patient_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id, full_name INTO doctor_user_id, doctor_name FROM public.doctors WHERE id = NEW.doctor_id;
+  SELECT health_id INTO patient_label FROM public.health_profiles WHERE user_id = NEW.patient_id;
+  patient_label := COALESCE(patient_label, 'A patient');
+
+  IF NEW.event = 'requested' THEN
+    PERFORM public.create_notification(
+      NEW.patient_id, 'access_update', doctor_name || ' asked for access to your records',
+      COALESCE(NEW.note, 'Review the request under My Doctors'),
+      '/patient/my-doctors', jsonb_build_object('request_id', NEW.request_id), 'access-request:' || NEW.request_id
+    );
+  ELSIF NEW.event IN ('granted', 'updated', 'declined', 'revoked') AND NEW.actor = 'patient' THEN
+    PERFORM public.create_notification(
+      doctor_user_id, 'access_update',
+      CASE NEW.event
+        WHEN 'granted' THEN patient_label || ' gave you access'
+        WHEN 'updated' THEN patient_label || ' changed your access'
+        WHEN 'declined' THEN patient_label || ' declined your access request'
+        ELSE patient_label || ' revoked your access'
+      END,
+      CASE WHEN NEW.event IN ('granted', 'updated') THEN
+        CASE WHEN NEW.expires_at IS NOT NULL
+          THEN 'Until ' || to_char(NEW.expires_at AT TIME ZONE 'UTC', 'Mon FMDD, YYYY')
+          ELSE 'No end date'
+        END
+      END,
+      '/doctor/patients', jsonb_build_object('patient_id', NEW.patient_id), 'access-event:' || NEW.id
+    );
+  ELSIF NEW.event = 'expired' THEN
+    PERFORM public.create_notification(
+      doctor_user_id, 'access_update', 'Your access to ' || patient_label || '''s records has ended',
+      'Ask the patient for access again if you still need it',
+      '/doctor/patients', jsonb_build_object('patient_id', NEW.patient_id), 'access-event:' || NEW.id
+    );
+    PERFORM public.create_notification(
+      NEW.patient_id, 'access_update', doctor_name || '''s access to your records has ended',
+      'The end date you chose has passed', '/patient/my-doctors',
+      jsonb_build_object('doctor_id', NEW.doctor_id), 'access-event:' || NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Notifications already sent with the old link
+UPDATE public.notifications
+  SET link = '/patient/my-doctors'
+  WHERE category = 'access_update' AND link = '/patient/doctors';
@@ -0,0 +1,75 @@
+-- Device updates are limited to what the owner should change
+-- The owner UPDATE policy had no limits, so a patient could set a revoked
+-- device back to active or overwrite its secret or device_id from the API.
+-- Owners may now only rename or revoke a device; revoking is final, and a
+-- new secret comes only from rotate_device_secret, generated on the server.
+
+DROP POLICY "Users can update their own devices" ON public.devices;
+
+CREATE POLICY "Users can update their own devices"
+  ON public.devices FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON public.devices FROM anon, authenticated;
+GRANT UPDATE (name, status) ON public.devices TO authenticated;
+
+-- Holds for every caller, so a later grant can't reopen it. The service
+-- role only touches last_seen_at.
+CREATE OR REPLACE FUNCTION public.protect_device_credentials()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'revoked' AND NEW.status <> 'revoked' THEN
+    RAISE EXCEPTION 'A revoked device can''t be reactivated; pair it again'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id <> OLD.user_id OR NEW.device_id <> OLD.device_id THEN
+    RAISE EXCEPTION 'A paired device can''t be moved; pair it again'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.secret <> OLD.secret
+     AND current_setting('app.rotating_device_secret', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Device secrets can only be rotated with rotate_device_secret'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.status = 'revoked' AND OLD.status <> 'revoked' THEN
+    NEW.revoked_at := NOW();
+  ELSE
+    NEW.revoked_at := OLD.revoked_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_device_credentials
+  BEFORE UPDATE ON public.devices
+  FOR EACH ROW EXECUTE FUNCTION public.protect_device_credentials();
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- A new secret for one of the signed-in user's active devices, returned
+-- once so it can be entered on the device. The old one stops working.
+CREATE OR REPLACE FUNCTION public.rotate_device_secret(_device_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  _secret TEXT := encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+  PERFORM set_config('app.rotating_device_secret', 'on', true);
+
+  UPDATE public.devices
+    SET secret = _secret
+    WHERE id = _device_id AND user_id = auth.uid() AND status = 'active';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active device to rotate' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM set_config('app.rotating_device_secret', 'off', true);
+  RETURN _secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_device_secret(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,73 @@
+-- Vital sign ranges are enforced by the database
+-- Possible and plausible ranges were only checked in VitalSignsForm and
+-- iot-webhook, and the form sent its own is_flagged and flag_reasons, so a
+-- client writing to the API directly could store impossible readings or
+-- clear the flag on suspicious ones. Every insert, and every update to a
+-- measurement or flag, now goes through the ranges below, which must match
+-- VITAL_RANGES in _shared/vitalValidation.ts. Rows already stored are left
+-- as they are; 20261019120000 flagged the impossible ones.
+
+CREATE OR REPLACE FUNCTION public.validate_vital_signs()
+RETURNS TRIGGER AS $$
+DECLARE
+  _metric RECORD;
+  _reasons TEXT[] := '{}';
+  _reason TEXT;
+BEGIN
+  FOR _metric IN
+    SELECT * FROM (VALUES
+      ('Systolic BP', NEW.blood_pressure_systolic::NUMERIC, 'mmHg', 40, 300, 70, 200),
+      ('Diastolic BP', NEW.blood_pressure_diastolic::NUMERIC, 'mmHg', 20, 200, 40, 130),
+      ('Heart rate', NEW.heart_rate::NUMERIC, 'bpm', 20, 300, 40, 180),
+      ('Blood glucose', NEW.blood_glucose::NUMERIC, 'mg/dL', 10, 1500, 40, 400),
+      ('Weight', NEW.weight::NUMERIC, 'kg', 1, 500, 25, 250),
+      ('Temperature', NEW.temperature::NUMERIC, '°C', 25, 45, 34, 41),
+      ('SpO2', NEW.oxygen_saturation::NUMERIC, '%', 50, 100, 85, 100)
+    ) AS m(label, value, unit, possible_min, possible_max, plausible_min, plausible_max)
+    WHERE value IS NOT NULL
+  LOOP
+    IF _metric.value < _metric.possible_min OR _metric.value > _metric.possible_max THEN
+      RAISE EXCEPTION '% % % is outside the possible range (%-% %)',
+        _metric.label, _metric.value, _metric.unit, _metric.possible_min, _metric.possible_max, _metric.unit
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF _metric.value < _metric.plausible_min OR _metric.value > _metric.plausible_max THEN
+      _reasons := _reasons || format('%s %s %s is outside the expected range (%s-%s %s)',
+        _metric.label, _metric.value, _metric.unit, _metric.plausible_min, _metric.plausible_max, _metric.unit);
+    END IF;
+  END LOOP;
+
+  IF NEW.blood_pressure_systolic IS NOT NULL AND NEW.blood_pressure_diastolic IS NOT NULL THEN
+    IF NEW.blood_pressure_diastolic >= NEW.blood_pressure_systolic THEN
+      RAISE EXCEPTION 'Diastolic BP (%) must be lower than systolic BP (%)',
+        NEW.blood_pressure_diastolic, NEW.blood_pressure_systolic
+        USING ERRCODE = 'check_violation';
+    ELSIF NEW.blood_pressure_systolic - NEW.blood_pressure_diastolic < 15 THEN
+      _reasons := _reasons || format('Pulse pressure of %s mmHg is unusually narrow',
+        NEW.blood_pressure_systolic - NEW.blood_pressure_diastolic);
+    END IF;
+  END IF;
+
+  -- Patients' own clients get no say in the flag. Server-side ingestion
+  -- (the service role) may add reasons the ranges can't see, such as a
+  -- glucose unit it had to infer.
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    FOREACH _reason IN ARRAY COALESCE(NEW.flag_reasons, '{}') LOOP
+      IF NOT _reason = ANY(_reasons) THEN
+        _reasons := _reasons || _reason;
+      END IF;
+    END LOOP;
+  END IF;
+
+  NEW.is_flagged := cardinality(_reasons) > 0;
+  NEW.flag_reasons := NULLIF(_reasons, '{}');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_vital_signs
+  BEFORE INSERT OR UPDATE OF
+    blood_pressure_systolic, blood_pressure_diastolic, heart_rate, blood_glucose,
+    weight, temperature, oxygen_saturation, is_flagged, flag_reasons
+  ON public.vital_signs
+  FOR EACH ROW EXECUTE FUNCTION public.validate_vital_signs();